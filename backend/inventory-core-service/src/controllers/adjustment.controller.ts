@@ -82,7 +82,8 @@ export const createAdjustment = asyncHandler(
     const adjustment = await adjustmentService.createAdjustment(
       tenantId,
       userId,
-      value
+      value,
+      req.headers.authorization
     );
 
     res.status(201).json({
@@ -128,12 +129,15 @@ export const approveAdjustment = asyncHandler(
     const adjustment = await adjustmentService.approveAdjustment(
       tenantId,
       adjustmentId,
-      userId
+      userId,
+      req.headers.authorization
     );
 
     res.status(200).json({
       status: 'success',
-      message: 'Adjustment approved and inventory updated',
+      message: adjustment?.status === 'approved'
+        ? 'Adjustment approved and inventory updated'
+        : 'Approval recorded, awaiting further approvers',
       data: adjustment
     });
   }
@@ -157,7 +161,8 @@ export const rejectAdjustment = asyncHandler(
       tenantId,
       adjustmentId,
       userId,
-      rejectionReason
+      rejectionReason,
+      req.headers.authorization
     );
 
     res.status(200).json({
@@ -3,6 +3,7 @@ import { publishMessage } from '../config/rabbitmq';
 import { logger } from '../utils/logger';
 import { AppError } from '../middleware/errorHandler';
 import { invalidateSkuCache } from './inventory.service';
+import * as approvalEngine from './approvalEngine.service';
 
 interface AdjustmentData {
   skuId: string;
@@ -16,9 +17,41 @@ interface AdjustmentData {
   attachmentUrls?: string[];
 }
 
+// Used only when no approval engine is configured
 const APPROVAL_THRESHOLD_VALUE = 500; // $500
 const APPROVAL_THRESHOLD_PERCENTAGE = 10; // 10%
 
+/**
+ * Decide whether an adjustment needs approval: through the approval engine's
+ * chains when configured, otherwise against the local thresholds
+ */
+const needsApproval = async (
+  authorization: string | undefined,
+  facts: approvalEngine.AdjustmentApprovalFacts
+): Promise<boolean> => {
+  if (approvalEngine.isApprovalEngineEnabled()) {
+    return approvalEngine.requiresApproval(authorization, facts);
+  }
+
+  return facts.value >= APPROVAL_THRESHOLD_VALUE || facts.percentage >= APPROVAL_THRESHOLD_PERCENTAGE;
+};
+
+/**
+ * Approval facts for a stored adjustment row
+ */
+const toApprovalFacts = (adjustment: any): approvalEngine.AdjustmentApprovalFacts => {
+  const quantityBefore = parseFloat(adjustment.quantity_before);
+  const quantityChange = parseFloat(adjustment.quantity_change);
+
+  return {
+    warehouseId: adjustment.warehouse_id,
+    value: parseFloat(adjustment.value_impact || 0),
+    percentage: Math.abs((quantityChange / quantityBefore) * 100),
+    documentNumber: adjustment.adjustment_id,
+    requestedById: adjustment.created_by
+  };
+};
+
 /**
  * Get all adjustments with filtering
  */
@@ -140,7 +173,8 @@ export const getAdjustments = async (
 export const createAdjustment = async (
   tenantId: string,
   userId: string,
-  adjustmentData: AdjustmentData
+  adjustmentData: AdjustmentData,
+  authorization?: string
 ) => {
   const client = await getClient();
 
@@ -185,9 +219,12 @@ export const createAdjustment = async (
 
     // Determine if approval is required
     const variancePercentage = Math.abs((quantityChange / quantityBefore) * 100);
-    const requiresApproval =
-      valueImpact >= APPROVAL_THRESHOLD_VALUE ||
-      variancePercentage >= APPROVAL_THRESHOLD_PERCENTAGE;
+    const requiresApproval = await needsApproval(authorization, {
+      warehouseId: adjustmentData.warehouseId,
+      value: valueImpact,
+      percentage: variancePercentage,
+      requestedById: userId
+    });
 
     // Create adjustment record
     const adjustmentQuery = `
@@ -292,7 +329,8 @@ export const getAdjustmentDetail = async (tenantId: string, adjustmentId: string
 export const approveAdjustment = async (
   tenantId: string,
   adjustmentId: string,
-  userId: string
+  userId: string,
+  authorization?: string
 ) => {
   const client = await getClient();
 
@@ -317,6 +355,32 @@ export const approveAdjustment = async (
 
     const adjustment = adjustmentResult.rows[0];
 
+    // With an approval engine, later steps of the chain may still have to sign off
+    if (approvalEngine.isApprovalEngineEnabled()) {
+      const status = await approvalEngine.recordDecision(
+        authorization,
+        adjustmentId,
+        'APPROVED',
+        toApprovalFacts(adjustment)
+      );
+
+      if (status === 'PENDING') {
+        await client.query('COMMIT');
+
+        await publishMessage('inventory-events', 'adjustment.approval_recorded', {
+          adjustmentId,
+          tenantId,
+          skuId: adjustment.sku_id,
+          approvedBy: userId,
+          recordedAt: new Date().toISOString()
+        });
+
+        logger.info('Adjustment approval recorded, awaiting further approvers:', { adjustmentId, approvedBy: userId });
+
+        return await getAdjustmentDetail(tenantId, adjustmentId);
+      }
+    }
+
     // Update adjustment status
     await client.query(
       `UPDATE inventory_adjustments
@@ -366,8 +430,25 @@ export const rejectAdjustment = async (
   tenantId: string,
   adjustmentId: string,
   userId: string,
-  rejectionReason: string
+  rejectionReason: string,
+  authorization?: string
 ) => {
+  if (approvalEngine.isApprovalEngineEnabled()) {
+    const adjustment = await getAdjustmentDetail(tenantId, adjustmentId);
+
+    if (!adjustment || adjustment.status !== 'pending_approval') {
+      throw new AppError('Adjustment not found or already processed', 404);
+    }
+
+    await approvalEngine.recordDecision(
+      authorization,
+      adjustmentId,
+      'REJECTED',
+      toApprovalFacts(adjustment),
+      rejectionReason
+    );
+  }
+
   const updateQuery = `
     UPDATE inventory_adjustments ia
     SET status = 'rejected', approved_by = $1, approved_at = NOW(), rejection_reason = $2
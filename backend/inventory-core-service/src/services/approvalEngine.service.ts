@@ -0,0 +1,116 @@
+import { logger } from '../utils/logger';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Client for the receiving API's approval engine, which owns the
+ * tenant-defined approval chains for inventory adjustments
+ */
+
+export interface AdjustmentApprovalFacts {
+  warehouseId: string;
+  value: number;
+  percentage: number;
+  documentNumber?: string;
+  // User who raised the adjustment, for chains limited to a requester role
+  requestedById?: string;
+}
+
+export type ApprovalStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+interface EngineResponse<T> {
+  data?: T;
+  error?: string;
+  message?: string;
+}
+
+const DOCUMENT_TYPE = 'INVENTORY_ADJUSTMENT';
+
+export const isApprovalEngineEnabled = (): boolean => Boolean(process.env.APPROVAL_ENGINE_URL);
+
+/**
+ * Call the approval engine with the caller's token, so decisions are
+ * recorded against the user who made them
+ */
+const callEngine = async <T>(path: string, authorization: string | undefined, body: object): Promise<T> => {
+  const response = await fetch(`${process.env.APPROVAL_ENGINE_URL}/api/v1/approvals${path}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(authorization && { Authorization: authorization })
+    },
+    body: JSON.stringify(body)
+  });
+
+  const payload = (await response.json().catch(() => ({}))) as EngineResponse<T>;
+
+  if (!response.ok) {
+    const message = payload.error || payload.message || 'Approval engine request failed';
+    throw new AppError(message, response.status >= 500 ? 502 : response.status);
+  }
+
+  return payload.data as T;
+};
+
+// Largest percentage the engine stores
+const MAX_PERCENTAGE = 99999.99;
+
+/**
+ * Adjusting from zero stock is an unbounded change, so it counts as over
+ * every percentage threshold; no change from zero stock is no change at all
+ */
+const enginePercentage = (value: number): number => (Number.isNaN(value) ? 0 : Math.min(value, MAX_PERCENTAGE));
+
+/**
+ * Ask the approval engine whether an adjustment needs approval. If the
+ * engine cannot be reached the adjustment is held for approval.
+ */
+export const requiresApproval = async (
+  authorization: string | undefined,
+  facts: AdjustmentApprovalFacts
+): Promise<boolean> => {
+  try {
+    const result = await callEngine<{ required: boolean }>('/evaluate', authorization, {
+      documentType: DOCUMENT_TYPE,
+      warehouseId: facts.warehouseId,
+      value: facts.value,
+      percentage: enginePercentage(facts.percentage),
+      requestedById: facts.requestedById
+    });
+
+    return Boolean(result.required);
+  } catch (error) {
+    logger.warn('Approval engine unavailable, holding adjustment for approval:', {
+      error: (error as Error).message
+    });
+    return true;
+  }
+};
+
+/**
+ * Record an approver's decision on an adjustment and return the status of
+ * its approval request
+ */
+export const recordDecision = async (
+  authorization: string | undefined,
+  adjustmentId: string,
+  decision: 'APPROVED' | 'REJECTED',
+  facts: AdjustmentApprovalFacts,
+  comments?: string
+): Promise<ApprovalStatus> => {
+  const request = await callEngine<{ status: ApprovalStatus } | null>(
+    `/documents/${DOCUMENT_TYPE}/${adjustmentId}/decisions`,
+    authorization,
+    {
+      decision,
+      comments,
+      documentNumber: facts.documentNumber,
+      warehouseId: facts.warehouseId,
+      value: facts.value,
+      percentage: enginePercentage(facts.percentage),
+      requestedById: facts.requestedById
+    }
+  );
+
+  // No request means no chain applies any more; the decision stands
+  return request ? request.status : decision;
+};
@@ -0,0 +1,231 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  ListObjectsV2Command,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+
+// ==========================================
+// FILE STORAGE DRIVERS
+// Local filesystem by default; STORAGE_DRIVER=s3 stores objects in any
+// S3-compatible bucket (AWS, MinIO, R2) instead
+// ==========================================
+
+export type StorageDriverName = 'LOCAL' | 'S3';
+
+export interface StoredObject {
+  key: string;
+  lastModified: Date;
+}
+
+export interface SignedUrlOptions {
+  fileName: string;
+  contentType: string;
+  expiresInSeconds: number;
+}
+
+export interface PutOptions {
+  // Fail instead of replacing an object already stored under the key
+  overwrite?: boolean;
+}
+
+export interface StorageDriver {
+  readonly name: StorageDriverName;
+  put(key: string, body: Buffer, contentType: string, options?: PutOptions): Promise<void>;
+  get(key: string): Promise<Readable>;
+  delete(key: string): Promise<void>;
+  // Objects whose keys start with prefix, e.g. 'attachments/'
+  list(prefix: string): Promise<StoredObject[]>;
+  getSignedUrl(key: string, options: SignedUrlOptions): Promise<string>;
+}
+
+export interface LocalFileToken {
+  key: string;
+  fileName: string;
+  contentType: string;
+}
+
+const URL_SECRET = process.env.ATTACHMENT_URL_SECRET || process.env.JWT_SECRET || 'your-secret-key';
+const PUBLIC_API_URL = process.env.PUBLIC_API_URL || `http://localhost:${process.env.PORT || 3000}`;
+
+/**
+ * Files under UPLOAD_DIR. Download URLs point at the API's public file
+ * route and carry an HMAC-signed, expiring token instead of the path.
+ */
+export class LocalStorageDriver implements StorageDriver {
+  readonly name = 'LOCAL' as const;
+  private root = path.resolve(process.env.UPLOAD_DIR || './uploads');
+
+  private resolve(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, body: Buffer, _contentType?: string, options: PutOptions = {}): Promise<void> {
+    const filePath = this.resolve(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, body, { flag: options.overwrite === false ? 'wx' : 'w' });
+  }
+
+  async get(key: string): Promise<Readable> {
+    const filePath = this.resolve(key);
+    await fs.promises.access(filePath);
+    return fs.createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.resolve(key), { force: true });
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    const walk = async (dir: string): Promise<void> => {
+      const entries = await fs.promises.readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+        } else {
+          const stat = await fs.promises.stat(fullPath);
+          objects.push({
+            key: path.relative(this.root, fullPath).split(path.sep).join('/'),
+            lastModified: stat.mtime,
+          });
+        }
+      }
+    };
+
+    await walk(this.resolve(prefix));
+    return objects;
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    const payload = Buffer.from(
+      JSON.stringify({
+        key,
+        fileName: options.fileName,
+        contentType: options.contentType,
+        exp: Math.floor(Date.now() / 1000) + options.expiresInSeconds,
+      })
+    ).toString('base64url');
+
+    return `${PUBLIC_API_URL}/api/v1/attachments/files/${payload}.${this.sign(payload)}`;
+  }
+
+  /**
+   * Check a download token's signature and expiry
+   */
+  verifyToken(token: string): LocalFileToken | null {
+    const [payload, signature] = token.split('.');
+    if (!payload || !signature) {
+      return null;
+    }
+
+    const expected = Buffer.from(this.sign(payload));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+      return null;
+    }
+
+    const data = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (data.exp < Math.floor(Date.now() / 1000)) {
+      return null;
+    }
+
+    return { key: data.key, fileName: data.fileName, contentType: data.contentType };
+  }
+
+  private sign(payload: string): string {
+    return crypto.createHmac('sha256', URL_SECRET).update(payload).digest('base64url');
+  }
+}
+
+/**
+ * Objects in an S3-compatible bucket, downloaded through presigned URLs
+ */
+export class S3StorageDriver implements StorageDriver {
+  readonly name = 'S3' as const;
+  private bucket = process.env.S3_BUCKET_NAME || 'genesis-wms-photos';
+  private client = new S3Client({
+    region: process.env.AWS_REGION || 'us-east-1',
+    ...(process.env.S3_ENDPOINT && { endpoint: process.env.S3_ENDPOINT }),
+    forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true',
+  });
+
+  async put(key: string, body: Buffer, contentType: string, options: PutOptions = {}): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        Body: body,
+        ContentType: contentType,
+        // Conditional write: the bucket rejects it if the key already exists
+        ...(options.overwrite === false && { IfNoneMatch: '*' }),
+      })
+    );
+  }
+
+  async get(key: string): Promise<Readable> {
+    const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: key }));
+    return response.Body as Readable;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: key }));
+  }
+
+  async list(prefix: string): Promise<StoredObject[]> {
+    const objects: StoredObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({ Bucket: this.bucket, Prefix: prefix, ContinuationToken: continuationToken })
+      );
+      for (const object of response.Contents || []) {
+        objects.push({ key: object.Key!, lastModified: object.LastModified || new Date() });
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions): Promise<string> {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({
+        Bucket: this.bucket,
+        Key: key,
+        ResponseContentType: options.contentType,
+        ResponseContentDisposition: `inline; filename="${options.fileName.replace(/"/g, '')}"`,
+      }),
+      { expiresIn: options.expiresInSeconds }
+    );
+  }
+}
+
+const drivers: Partial<Record<StorageDriverName, StorageDriver>> = {};
+
+/**
+ * Driver by name. Attachments record the driver they were stored with, so
+ * files stay readable after STORAGE_DRIVER changes.
+ */
+export const getStorageDriver = (name: StorageDriverName): StorageDriver => {
+  if (!drivers[name]) {
+    drivers[name] = name === 'S3' ? new S3StorageDriver() : new LocalStorageDriver();
+  }
+  return drivers[name]!;
+};
+
+export const defaultStorageDriver = (): StorageDriver =>
+  getStorageDriver(process.env.STORAGE_DRIVER?.toUpperCase() === 'S3' ? 'S3' : 'LOCAL');
@@ -0,0 +1,337 @@
+import { Response, NextFunction } from 'express';
+import { ApprovalDocumentType } from '@prisma/client';
+import approvalService from '../services/approval.service';
+import { AuthRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * tags:
+ *   name: Approvals
+ *   description: Tenant-defined approval chains, delegations and decision history
+ */
+
+/**
+ * Get pending approvals the current user can act on
+ * @route GET /api/v1/approvals/inbox
+ */
+export const getInbox = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const requests = await approvalService.getInbox(
+      req.user!,
+      req.query.documentType as ApprovalDocumentType
+    );
+
+    res.status(200).json({
+      success: true,
+      data: requests,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get approval chains
+ * @route GET /api/v1/approvals/chains
+ */
+export const getChains = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { documentType, warehouseId, includeInactive } = req.query;
+
+    const chains = await approvalService.getChains({
+      tenantId: req.user!.tenantId,
+      documentType: documentType as ApprovalDocumentType,
+      warehouseId: warehouseId as string,
+      includeInactive: includeInactive === 'true',
+    });
+
+    res.status(200).json({
+      success: true,
+      data: chains,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create an approval chain
+ * @route POST /api/v1/approvals/chains
+ */
+export const createChain = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const chain = await approvalService.createChain({
+      ...req.body,
+      tenantId: req.user!.tenantId,
+      createdById: req.user!.id,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Approval chain created',
+      data: chain,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get approval chain by ID
+ * @route GET /api/v1/approvals/chains/:id
+ */
+export const getChainById = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const chain = await approvalService.getChainById(req.params.id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      data: chain,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update an approval chain
+ * @route PUT /api/v1/approvals/chains/:id
+ */
+export const updateChain = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const chain = await approvalService.updateChain(req.params.id, req.user!.tenantId, req.body);
+
+    res.status(200).json({
+      success: true,
+      message: 'Approval chain updated',
+      data: chain,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Deactivate an approval chain
+ * @route DELETE /api/v1/approvals/chains/:id
+ */
+export const deactivateChain = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const chain = await approvalService.deactivateChain(req.params.id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Approval chain deactivated',
+      data: chain,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Preview the chain a document would be routed through
+ * @route POST /api/v1/approvals/evaluate
+ */
+export const evaluate = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { documentType, warehouseId, value, percentage, requestedById } = req.body;
+
+    const chain = await approvalService.resolveChain({
+      tenantId: req.user!.tenantId,
+      documentType,
+      documentId: '',
+      warehouseId,
+      value,
+      percentage,
+      requestedById,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        required: chain !== null,
+        chainId: chain?.chainId ?? null,
+        chainName: chain?.name ?? null,
+        steps: chain?.steps ?? [],
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get a document's approval requests and decisions
+ * @route GET /api/v1/approvals/documents/:documentType/:documentId
+ */
+export const getHistory = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const history = await approvalService.getHistory(
+      req.params.documentType as ApprovalDocumentType,
+      req.params.documentId,
+      req.user!.tenantId
+    );
+
+    res.status(200).json({
+      success: true,
+      data: history,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Record a decision on a document owned by another service
+ * @route POST /api/v1/approvals/documents/:documentType/:documentId/decisions
+ */
+export const recordDecision = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { decision, comments, documentNumber, warehouseId, value, percentage, requestedById } = req.body;
+
+    const request = await approvalService.decideExternal(
+      {
+        tenantId: req.user!.tenantId,
+        documentType: req.params.documentType as ApprovalDocumentType,
+        documentId: req.params.documentId,
+        documentNumber,
+        warehouseId,
+        value,
+        percentage,
+        requestedById,
+      },
+      req.user!,
+      decision,
+      comments
+    );
+
+    res.status(200).json({
+      success: true,
+      message: request ? `Decision recorded; request is ${request.status.toLowerCase()}` : 'No approval required',
+      data: request,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get approval delegations
+ * @route GET /api/v1/approvals/delegations
+ */
+export const getDelegations = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { userId, includeExpired } = req.query;
+
+    const delegations = await approvalService.getDelegations({
+      tenantId: req.user!.tenantId,
+      userId: userId as string,
+      includeExpired: includeExpired === 'true',
+    });
+
+    res.status(200).json({
+      success: true,
+      data: delegations,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delegate approvals for a period
+ * @route POST /api/v1/approvals/delegations
+ */
+export const createDelegation = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { delegatorId, delegateId, documentType, startsAt, endsAt, reason } = req.body;
+
+    const delegation = await approvalService.createDelegation(
+      {
+        tenantId: req.user!.tenantId,
+        delegatorId: delegatorId || req.user!.id,
+        delegateId,
+        documentType,
+        startsAt: new Date(startsAt),
+        endsAt: new Date(endsAt),
+        reason,
+      },
+      req.user!
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Delegation created',
+      data: delegation,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Revoke a delegation
+ * @route POST /api/v1/approvals/delegations/:id/revoke
+ */
+export const revokeDelegation = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const delegation = await approvalService.revokeDelegation(req.params.id, req.user!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Delegation revoked',
+      data: delegation,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,166 @@
+import { Response, NextFunction } from 'express';
+import asnImportService from '../services/asnImport.service';
+import { AuthRequest } from '../middleware/auth';
+
+/**
+ * Import an EDI ship notice (X12 856 or EDIFACT DESADV)
+ * @route POST /api/v1/asn/imports
+ */
+export const importDocument = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const asnImport = await asnImportService.importDocument({
+      ...req.body,
+      tenantId: req.user!.tenantId,
+      importedById: req.user!.id,
+    });
+
+    res.status(201).json({
+      success: true,
+      message:
+        asnImport.status === 'COMMITTED'
+          ? 'EDI document imported and ASNs created'
+          : 'EDI document staged for review',
+      data: asnImport,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get all EDI imports with filters
+ * @route GET /api/v1/asn/imports
+ */
+export const getImports = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { page, limit, warehouseId, status } = req.query;
+
+    const result = await asnImportService.getImports({
+      tenantId: req.user!.tenantId,
+      warehouseId: warehouseId as string,
+      status: status as any,
+      page: page ? parseInt(page as string) : undefined,
+      limit: limit ? parseInt(limit as string) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get EDI import by ID
+ * @route GET /api/v1/asn/imports/:importId
+ */
+export const getImportById = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { importId } = req.params;
+    const asnImport = await asnImportService.getImportById(importId, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      data: asnImport,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Correct or exclude a staged import line
+ * @route PATCH /api/v1/asn/imports/:importId/shipments/:shipmentIndex/lines/:lineIndex
+ */
+export const updateStagedLine = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { importId, shipmentIndex, lineIndex } = req.params;
+
+    const asnImport = await asnImportService.updateStagedLine(
+      importId,
+      req.user!.tenantId,
+      parseInt(shipmentIndex),
+      parseInt(lineIndex),
+      req.body
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Staged line updated successfully',
+      data: asnImport,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Commit a staged import, creating ASNs
+ * @route POST /api/v1/asn/imports/:importId/commit
+ */
+export const commitImport = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { importId } = req.params;
+
+    const asnImport = await asnImportService.commitImport(
+      importId,
+      req.user!.tenantId,
+      req.user!.id,
+      req.body
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `${asnImport.asnIds.length} ASN(s) created from import`,
+      data: asnImport,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Discard a staged import
+ * @route DELETE /api/v1/asn/imports/:importId
+ */
+export const discardImport = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { importId } = req.params;
+    const asnImport = await asnImportService.discardImport(importId, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Import discarded successfully',
+      data: asnImport,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,206 @@
+import { Request, Response, NextFunction } from 'express';
+import attachmentService from '../services/attachment.service';
+import { AuthRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * tags:
+ *   name: Attachments
+ *   description: Photo and document evidence linked to receipts, variances and inspections
+ */
+
+/**
+ * Upload files, optionally linking them to an entity
+ * @route POST /api/v1/attachments
+ */
+export const uploadAttachments = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const attachments = await attachmentService.upload({
+      tenantId: req.user!.tenantId,
+      uploadedById: req.user!.id,
+      files: (req.files as Express.Multer.File[]) || [],
+      entityType: req.body.entityType,
+      entityId: req.body.entityId,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: `${attachments.length} file(s) uploaded`,
+      data: attachments,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get attachments linked to an entity
+ * @route GET /api/v1/attachments
+ */
+export const getAttachments = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { entityType, entityId } = req.query;
+
+    const attachments = await attachmentService.getForEntity(
+      req.user!.tenantId,
+      entityType as any,
+      entityId as string
+    );
+
+    res.status(200).json({
+      success: true,
+      data: attachments,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get attachment by ID with fresh download URLs
+ * @route GET /api/v1/attachments/:id
+ */
+export const getAttachmentById = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const attachment = await attachmentService.getById(req.params.id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      data: attachment,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Link an attachment to an entity
+ * @route POST /api/v1/attachments/:id/links
+ */
+export const linkAttachment = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const link = await attachmentService.link(
+      req.params.id,
+      req.user!.tenantId,
+      req.body.entityType,
+      req.body.entityId,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Attachment linked',
+      data: link,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Unlink an attachment from an entity
+ * @route DELETE /api/v1/attachments/:id/links/:entityType/:entityId
+ */
+export const unlinkAttachment = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await attachmentService.unlink(
+      req.params.id,
+      req.user!.tenantId,
+      req.params.entityType as any,
+      req.params.entityId
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Attachment unlinked',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete an attachment and its files
+ * @route DELETE /api/v1/attachments/:id
+ */
+export const deleteAttachment = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await attachmentService.delete(req.params.id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Attachment deleted',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Remove unlinked attachments and stray stored files
+ * @route POST /api/v1/attachments/cleanup
+ */
+export const cleanupOrphans = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await attachmentService.cleanupOrphans(req.body.graceHours);
+
+    res.status(200).json({
+      success: true,
+      message: 'Orphaned attachments cleaned up',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Download a locally stored file through a signed URL
+ * @route GET /api/v1/attachments/files/:token
+ */
+export const downloadFile = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const file = await attachmentService.openLocalFile(req.params.token);
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `inline; filename="${file.fileName.replace(/"/g, '')}"`);
+    res.setHeader('Cache-Control', 'private, max-age=300');
+    // The web app loads these as <img> sources from its own origin
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+    file.stream.on('error', next).pipe(res);
+  } catch (error) {
+    next(error);
+  }
+};
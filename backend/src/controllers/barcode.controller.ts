@@ -0,0 +1,32 @@
+import { Response, NextFunction } from 'express';
+import barcodeService from '../services/barcode.service';
+import { AuthRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * tags:
+ *   name: Barcodes
+ *   description: GS1 barcode parsing and GTIN resolution
+ */
+
+/**
+ * Parse a GS1-128 / DataMatrix barcode and resolve its GTIN to a SKU
+ * @route POST /api/v1/barcodes/gs1/parse
+ */
+export const parseGS1 = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await barcodeService.resolveGS1(req.user!.tenantId, req.body.barcode);
+
+    res.status(200).json({
+      success: true,
+      message: result.valid ? 'Barcode parsed successfully' : 'Barcode contains errors',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -203,7 +203,10 @@ export const submitForApproval = async (
 
     res.status(200).json({
       success: true,
-      message: 'Blind receipt submitted for approval',
+      message:
+        receipt.status === 'APPROVED'
+          ? 'Blind receipt auto-accepted within tolerance'
+          : 'Blind receipt submitted for approval',
       data: receipt,
     });
   } catch (error) {
@@ -228,12 +231,16 @@ export const approve = async (
       id,
       req.user!.tenantId,
       req.user!.id,
+      req.user!.role,
       supervisorNotes
     );
 
     res.status(200).json({
       success: true,
-      message: 'Blind receipt approved successfully',
+      message:
+        receipt.status === 'APPROVED'
+          ? 'Blind receipt approved successfully'
+          : 'Approval recorded; awaiting further approvers',
       data: receipt,
     });
   } catch (error) {
@@ -258,6 +265,7 @@ export const reject = async (
       id,
       req.user!.tenantId,
       req.user!.id,
+      req.user!.role,
       rejectionReason
     );
 
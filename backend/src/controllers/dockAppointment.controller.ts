@@ -0,0 +1,317 @@
+import { Response, NextFunction } from 'express';
+import dockAppointmentService from '../services/dockAppointment.service';
+import { AuthRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * tags:
+ *   name: Dock Scheduling
+ *   description: Dock doors and inbound appointment booking
+ */
+
+/**
+ * Create a dock door
+ * @route POST /api/v1/dock/doors
+ */
+export const createDockDoor = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const door = await dockAppointmentService.createDockDoor({
+      ...req.body,
+      tenantId: req.user!.tenantId,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Dock door created successfully',
+      data: door,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get dock doors
+ * @route GET /api/v1/dock/doors
+ */
+export const getDockDoors = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { warehouseId, includeInactive } = req.query;
+
+    const doors = await dockAppointmentService.getDockDoors({
+      tenantId: req.user!.tenantId,
+      warehouseId: warehouseId as string,
+      includeInactive: includeInactive === 'true',
+    });
+
+    res.status(200).json({
+      success: true,
+      data: doors,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a dock door
+ * @route PATCH /api/v1/dock/doors/:id
+ */
+export const updateDockDoor = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const door = await dockAppointmentService.updateDockDoor(id, req.user!.tenantId, req.body);
+
+    res.status(200).json({
+      success: true,
+      message: 'Dock door updated successfully',
+      data: door,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get bookable slots for a dock door
+ * @route GET /api/v1/dock/doors/:id/availability
+ */
+export const getAvailability = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const { date } = req.query;
+
+    const availability = await dockAppointmentService.getAvailability(
+      id,
+      req.user!.tenantId,
+      date as string
+    );
+
+    res.status(200).json({
+      success: true,
+      data: availability,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Book a dock appointment for an ASN
+ * @route POST /api/v1/dock/appointments
+ */
+export const bookAppointment = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { scheduledStart, scheduledEnd } = req.body;
+
+    const appointment = await dockAppointmentService.bookAppointment({
+      ...req.body,
+      scheduledStart: new Date(scheduledStart),
+      scheduledEnd: scheduledEnd ? new Date(scheduledEnd) : undefined,
+      tenantId: req.user!.tenantId,
+      createdById: req.user!.id,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Appointment booked successfully',
+      data: appointment,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get appointments for the dock calendar
+ * @route GET /api/v1/dock/appointments
+ */
+export const getAppointments = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { warehouseId, dockDoorId, asnId, status, dateFrom, dateTo } = req.query;
+
+    const appointments = await dockAppointmentService.getAppointments({
+      tenantId: req.user!.tenantId,
+      warehouseId: warehouseId as string,
+      dockDoorId: dockDoorId as string,
+      asnId: asnId as string,
+      status: status as any,
+      dateFrom: dateFrom ? new Date(dateFrom as string) : undefined,
+      dateTo: dateTo ? new Date(dateTo as string) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: appointments,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get appointment by ID
+ * @route GET /api/v1/dock/appointments/:id
+ */
+export const getAppointmentById = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const appointment = await dockAppointmentService.getAppointmentById(id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      data: appointment,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Reschedule an appointment
+ * @route PATCH /api/v1/dock/appointments/:id/reschedule
+ */
+export const rescheduleAppointment = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const { scheduledStart, scheduledEnd } = req.body;
+
+    const appointment = await dockAppointmentService.rescheduleAppointment(
+      id,
+      req.user!.tenantId,
+      {
+        ...req.body,
+        scheduledStart: new Date(scheduledStart),
+        scheduledEnd: scheduledEnd ? new Date(scheduledEnd) : undefined,
+      }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Appointment rescheduled successfully',
+      data: appointment,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Check a truck in
+ * @route POST /api/v1/dock/appointments/:id/check-in
+ */
+export const checkIn = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const appointment = await dockAppointmentService.checkIn(
+      id,
+      req.user!.tenantId,
+      req.user!.id,
+      req.body
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Truck checked in successfully',
+      data: appointment,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Check a truck out
+ * @route POST /api/v1/dock/appointments/:id/check-out
+ */
+export const checkOut = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const appointment = await dockAppointmentService.checkOut(
+      id,
+      req.user!.tenantId,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Truck checked out successfully',
+      data: appointment,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Cancel an appointment or mark it as a no-show
+ * @route POST /api/v1/dock/appointments/:id/cancel
+ */
+export const cancelAppointment = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+
+    const appointment = await dockAppointmentService.cancelAppointment(
+      id,
+      req.user!.tenantId,
+      req.body.noShow
+    );
+
+    res.status(200).json({
+      success: true,
+      message:
+        appointment.status === 'NO_SHOW'
+          ? 'Appointment marked as no-show'
+          : 'Appointment cancelled successfully',
+      data: appointment,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
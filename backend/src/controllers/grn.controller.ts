@@ -0,0 +1,120 @@
+import { Response, NextFunction } from 'express';
+import grnService, { GrnReceiptType } from '../services/grn.service';
+import { AuthRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * tags:
+ *   name: Goods Received Notes
+ *   description: Versioned GRN documents issued for completed receipts
+ */
+
+/**
+ * Get the latest or a specific GRN version as JSON or PDF
+ */
+const getGrn = (receiptType: GrnReceiptType) => async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const grn = await grnService.getLatest(
+      receiptType,
+      req.params.id,
+      req.user!.tenantId,
+      req.query.version ? Number(req.query.version) : undefined
+    );
+
+    if (req.query.format === 'pdf') {
+      const pdf = await grnService.openPdf(grn);
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${pdf.fileName}"`);
+      pdf.stream.on('error', next).pipe(res);
+      return;
+    }
+
+    res.status(200).json({
+      success: true,
+      data: grn,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List every GRN version issued for a receipt
+ */
+const getGrnVersions = (receiptType: GrnReceiptType) => async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const versions = await grnService.getVersions(receiptType, req.params.id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      data: versions,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Issue an amended GRN version from the receipt's current state
+ */
+const amendGrn = (receiptType: GrnReceiptType) => async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const grn = await grnService.amend(
+      receiptType,
+      req.params.id,
+      req.user!.tenantId,
+      req.user!.id,
+      req.body.reason
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `${grn.grnNumber} version ${grn.version} issued`,
+      data: grn,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * @route GET /api/v1/asn/:id/grn
+ */
+export const getAsnGrn = getGrn('ASN');
+
+/**
+ * @route GET /api/v1/asn/:id/grn/versions
+ */
+export const getAsnGrnVersions = getGrnVersions('ASN');
+
+/**
+ * @route POST /api/v1/asn/:id/grn/amend
+ */
+export const amendAsnGrn = amendGrn('ASN');
+
+/**
+ * @route GET /api/v1/blind-receipts/:id/grn
+ */
+export const getBlindReceiptGrn = getGrn('BLIND');
+
+/**
+ * @route GET /api/v1/blind-receipts/:id/grn/versions
+ */
+export const getBlindReceiptGrnVersions = getGrnVersions('BLIND');
+
+/**
+ * @route POST /api/v1/blind-receipts/:id/grn/amend
+ */
+export const amendBlindReceiptGrn = amendGrn('BLIND');
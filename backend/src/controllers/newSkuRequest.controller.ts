@@ -0,0 +1,142 @@
+import { Response, NextFunction } from 'express';
+import newSkuRequestService from '../services/newSkuRequest.service';
+import { AuthRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * tags:
+ *   name: New SKU Requests
+ *   description: Onboarding of unknown items received on blind receipts
+ */
+
+/**
+ * Get new SKU requests with filters
+ * @route GET /api/v1/sku-requests
+ */
+export const getRequests = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { page, limit, warehouseId, status, search } = req.query;
+
+    const requests = await newSkuRequestService.getRequests({
+      tenantId: req.user!.tenantId,
+      warehouseId: warehouseId as string,
+      status: status as any,
+      search: search as string,
+      page: page ? parseInt(page as string) : undefined,
+      limit: limit ? parseInt(limit as string) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: requests.data,
+      pagination: requests.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get new SKU request by ID
+ * @route GET /api/v1/sku-requests/:id
+ */
+export const getRequestById = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = await newSkuRequestService.getRequestById(req.params.id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      data: request,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Save SKU master data on a new SKU request
+ * @route PATCH /api/v1/sku-requests/:id
+ */
+export const updateDraft = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = await newSkuRequestService.updateDraft(
+      req.params.id,
+      req.user!.tenantId,
+      req.body.skuDraft
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'SKU details saved',
+      data: request,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Approve a new SKU request and link the SKU to the receipt line
+ * @route POST /api/v1/sku-requests/:id/approve
+ */
+export const approveRequest = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = await newSkuRequestService.approve(
+      req.params.id,
+      req.user!.tenantId,
+      req.user!.id,
+      req.body
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'New SKU approved',
+      data: request,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Reject a new SKU request
+ * @route POST /api/v1/sku-requests/:id/reject
+ */
+export const rejectRequest = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const request = await newSkuRequestService.reject(
+      req.params.id,
+      req.user!.tenantId,
+      req.user!.id,
+      req.body.rejectionReason
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'New SKU request rejected',
+      data: request,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
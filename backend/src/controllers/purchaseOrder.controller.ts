@@ -0,0 +1,301 @@
+import { Response, NextFunction } from 'express';
+import purchaseOrderService from '../services/purchaseOrder.service';
+import { AuthRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * tags:
+ *   name: Purchase Orders
+ *   description: Purchase orders and fulfilment across ASNs and blind receipts
+ */
+
+/**
+ * Create a purchase order
+ * @route POST /api/v1/purchase-orders
+ */
+export const createPurchaseOrder = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const purchaseOrder = await purchaseOrderService.createPurchaseOrder({
+      ...req.body,
+      tenantId: req.user!.tenantId,
+      createdById: req.user!.id,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Purchase order created successfully',
+      data: purchaseOrder,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get purchase orders with filters
+ * @route GET /api/v1/purchase-orders
+ */
+export const getPurchaseOrders = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { page, limit, warehouseId, supplierId, status, search } = req.query;
+
+    const result = await purchaseOrderService.getPurchaseOrders({
+      tenantId: req.user!.tenantId,
+      warehouseId: warehouseId as string,
+      supplierId: supplierId as string,
+      status: status as any,
+      search: search as string,
+      page: page ? parseInt(page as string) : undefined,
+      limit: limit ? parseInt(limit as string) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get purchase order by ID
+ * @route GET /api/v1/purchase-orders/:id
+ */
+export const getPurchaseOrderById = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const purchaseOrder = await purchaseOrderService.getPurchaseOrderById(
+      req.params.id,
+      req.user!.tenantId
+    );
+
+    res.status(200).json({
+      success: true,
+      data: purchaseOrder,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update purchase order header
+ * @route PATCH /api/v1/purchase-orders/:id
+ */
+export const updatePurchaseOrder = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const purchaseOrder = await purchaseOrderService.updatePurchaseOrder(
+      req.params.id,
+      req.user!.tenantId,
+      req.body
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Purchase order updated successfully',
+      data: purchaseOrder,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Release a draft purchase order
+ * @route POST /api/v1/purchase-orders/:id/open
+ */
+export const openPurchaseOrder = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const purchaseOrder = await purchaseOrderService.openPurchaseOrder(
+      req.params.id,
+      req.user!.tenantId
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Purchase order opened for receiving',
+      data: purchaseOrder,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Add a line to a purchase order
+ * @route POST /api/v1/purchase-orders/:id/lines
+ */
+export const addLine = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const line = await purchaseOrderService.addLine(
+      req.params.id,
+      req.user!.tenantId,
+      req.body
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Line added successfully',
+      data: line,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a purchase order line
+ * @route PATCH /api/v1/purchase-orders/lines/:lineId
+ */
+export const updateLine = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const line = await purchaseOrderService.updateLine(
+      req.params.lineId,
+      req.user!.tenantId,
+      req.body
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Line updated successfully',
+      data: line,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a purchase order line
+ * @route DELETE /api/v1/purchase-orders/lines/:lineId
+ */
+export const deleteLine = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await purchaseOrderService.deleteLine(req.params.lineId, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Line deleted successfully',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Short-close a purchase order
+ * @route POST /api/v1/purchase-orders/:id/short-close
+ */
+export const shortClose = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const purchaseOrder = await purchaseOrderService.shortClose(
+      req.params.id,
+      req.user!.tenantId,
+      req.user!.id,
+      req.body.reason
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Purchase order short-closed',
+      data: purchaseOrder,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Cancel a purchase order
+ * @route POST /api/v1/purchase-orders/:id/cancel
+ */
+export const cancelPurchaseOrder = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const purchaseOrder = await purchaseOrderService.cancelPurchaseOrder(
+      req.params.id,
+      req.user!.tenantId,
+      req.user!.id,
+      req.body.reason
+    );
+
+    res.status(200).json({
+      success: true,
+      message:
+        purchaseOrder.status === 'CANCELLED'
+          ? 'Purchase order cancelled'
+          : 'Purchase order has receipts and was short-closed instead',
+      data: purchaseOrder,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Link an ASN to a purchase order
+ * @route POST /api/v1/purchase-orders/:id/link-asn
+ */
+export const linkASN = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await purchaseOrderService.linkASN(
+      req.params.id,
+      req.body.asnId,
+      req.user!.tenantId
+    );
+
+    res.status(200).json({
+      success: true,
+      message: result.unmatchedLines.length
+        ? `ASN linked; lines ${result.unmatchedLines.join(', ')} have no matching PO line`
+        : 'ASN linked successfully',
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,5 +1,9 @@
 import { Response, NextFunction } from 'express';
 import putawayService from '../services/putaway.service';
+import putawayRuleService from '../services/putawayRule.service';
+import putawayBatchService from '../services/putawayBatch.service';
+import putawayOverrideService from '../services/putawayOverride.service';
+import capacityReconciliationService from '../services/capacityReconciliation.service';
 import { AuthRequest } from '../middleware/auth';
 
 /**
@@ -132,13 +136,14 @@ export const completeTask = async (
 ) => {
   try {
     const { id } = req.params;
-    const { actualQuantity, operatorNotes } = req.body;
+    const { actualQuantity, operatorNotes, override } = req.body;
 
     const task = await putawayService.completeTask(
       id,
       req.user!.tenantId,
       actualQuantity,
-      operatorNotes
+      operatorNotes,
+      override && { ...override, userId: req.user!.id }
     );
 
     res.status(200).json({
@@ -150,3 +155,518 @@ export const completeTask = async (
     next(error);
   }
 };
+
+/**
+ * Check a bin the operator scanned instead of the suggested one
+ * @route POST /api/v1/putaway/:id/override/check
+ */
+export const checkOverride = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const check = await putawayOverrideService.checkOverride(
+      req.params.id,
+      req.user!.tenantId,
+      req.body.locationCode,
+      req.body.quantity
+    );
+
+    res.status(200).json({
+      success: true,
+      data: check,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get putaway override rates per bin or per operator
+ * @route GET /api/v1/putaway/overrides/report
+ */
+export const getOverrideReport = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { warehouseId, dateFrom, dateTo, groupBy, limit } = req.query;
+
+    const report = await putawayOverrideService.getOverrideReport(req.user!.tenantId, {
+      warehouseId: warehouseId as string,
+      dateFrom: dateFrom ? new Date(dateFrom as string) : undefined,
+      dateTo: dateTo ? new Date(dateTo as string) : undefined,
+      groupBy: groupBy as 'location' | 'operator',
+      limit: limit ? parseInt(limit as string, 10) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get putaway rules
+ * @route GET /api/v1/putaway/rules
+ */
+export const getRules = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { warehouseId, includeInactive } = req.query;
+
+    const rules = await putawayRuleService.getRules({
+      tenantId: req.user!.tenantId,
+      warehouseId: warehouseId as string,
+      includeInactive: includeInactive === 'true',
+    });
+
+    res.status(200).json({
+      success: true,
+      data: rules,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a putaway rule
+ * @route POST /api/v1/putaway/rules
+ */
+export const createRule = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const rule = await putawayRuleService.createRule({
+      ...req.body,
+      tenantId: req.user!.tenantId,
+      createdById: req.user!.id,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Putaway rule created',
+      data: rule,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get putaway rule by ID
+ * @route GET /api/v1/putaway/rules/:id
+ */
+export const getRuleById = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const rule = await putawayRuleService.getRuleById(req.params.id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      data: rule,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a putaway rule
+ * @route PUT /api/v1/putaway/rules/:id
+ */
+export const updateRule = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const rule = await putawayRuleService.updateRule(req.params.id, req.user!.tenantId, req.body);
+
+    res.status(200).json({
+      success: true,
+      message: 'Putaway rule updated',
+      data: rule,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a putaway rule
+ * @route DELETE /api/v1/putaway/rules/:id
+ */
+export const deleteRule = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await putawayRuleService.deleteRule(req.params.id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Putaway rule deleted',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Show where a hypothetical receipt would be put away
+ * @route POST /api/v1/putaway/simulate
+ */
+export const simulate = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await putawayRuleService.simulate(req.user!.tenantId, {
+      ...req.body,
+      items: req.body.items.map((item: any) => ({
+        ...item,
+        expiryDate: item.expiryDate ? new Date(item.expiryDate) : undefined,
+      })),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Group pending putaway tasks into trips
+ * @route POST /api/v1/putaway/batches
+ */
+export const createBatches = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const batches = await putawayBatchService.createBatches(
+      req.user!.tenantId,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `${batches.length} putaway ${batches.length === 1 ? 'trip' : 'trips'} created`,
+      data: batches,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get putaway batches with filters
+ * @route GET /api/v1/putaway/batches
+ */
+export const getBatches = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { page, limit, warehouseId, operatorUserId, status } = req.query;
+
+    const result = await putawayBatchService.getBatches({
+      tenantId: req.user!.tenantId,
+      warehouseId: warehouseId as string,
+      operatorUserId: operatorUserId as string,
+      status: status as any,
+      page: page ? parseInt(page as string) : undefined,
+      limit: limit ? parseInt(limit as string) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get a putaway batch with its stops
+ * @route GET /api/v1/putaway/batches/:batchId
+ */
+export const getBatchById = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const batch = await putawayBatchService.getBatchById(req.params.batchId, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      data: batch,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Assign putaway batch to operator
+ * @route POST /api/v1/putaway/batches/:batchId/assign
+ */
+export const assignBatch = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const batch = await putawayBatchService.assignBatch(
+      req.params.batchId,
+      req.body.operatorUserId,
+      req.user!.tenantId
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Batch assigned successfully',
+      data: batch,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Start putaway batch
+ * @route POST /api/v1/putaway/batches/:batchId/start
+ */
+export const startBatch = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const batch = await putawayBatchService.startBatch(
+      req.params.batchId,
+      req.user!.tenantId,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Batch started successfully',
+      data: batch,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Confirm the putaway at one stop of a batch
+ * @route POST /api/v1/putaway/batches/:batchId/stops/:stopId/complete
+ */
+export const completeStop = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { batchId, stopId } = req.params;
+    const { actualQuantity, operatorNotes, override } = req.body;
+
+    const batch = await putawayBatchService.completeStop(
+      batchId,
+      stopId,
+      req.user!.tenantId,
+      actualQuantity,
+      operatorNotes,
+      override && { ...override, userId: req.user!.id }
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Stop completed',
+      data: batch,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Skip one stop of a batch
+ * @route POST /api/v1/putaway/batches/:batchId/stops/:stopId/skip
+ */
+export const skipStop = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { batchId, stopId } = req.params;
+
+    const batch = await putawayBatchService.skipStop(
+      batchId,
+      stopId,
+      req.user!.tenantId,
+      req.body.reason
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Stop skipped',
+      data: batch,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * End a batch, skipping the stops not yet visited
+ * @route POST /api/v1/putaway/batches/:batchId/finish
+ */
+export const finishBatch = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const batch = await putawayBatchService.finishBatch(
+      req.params.batchId,
+      req.user!.tenantId,
+      req.body.reason
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Batch finished',
+      data: batch,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Cancel a batch that has not started
+ * @route POST /api/v1/putaway/batches/:batchId/cancel
+ */
+export const cancelBatch = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const batch = await putawayBatchService.cancelBatch(req.params.batchId, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Batch cancelled',
+      data: batch,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Cancel a putaway task and release its bin reservation
+ * @route POST /api/v1/putaway/:id/cancel
+ */
+export const cancelTask = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const task = await putawayService.cancelTask(req.params.id, req.user!.tenantId, req.body.reason);
+
+    res.status(200).json({
+      success: true,
+      message: 'Task cancelled',
+      data: task,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Recompute bin capacity from inventory and the reservation ledger
+ * @route POST /api/v1/putaway/capacity/reconcile
+ */
+export const reconcileCapacity = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const run = await capacityReconciliationService.reconcile(
+      req.user!.tenantId,
+      req.body.warehouseId,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `Corrected ${run.locationsCorrected} of ${run.locationsChecked} locations`,
+      data: run,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get capacity reconciliation runs
+ * @route GET /api/v1/putaway/capacity/reconciliations
+ */
+export const getReconciliations = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { page, limit, warehouseId } = req.query;
+
+    const result = await capacityReconciliationService.getRuns({
+      tenantId: req.user!.tenantId,
+      warehouseId: warehouseId as string,
+      page: page ? parseInt(page as string) : undefined,
+      limit: limit ? parseInt(limit as string) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,249 @@
+import { Response, NextFunction } from 'express';
+import qaInspectionService from '../services/qaInspection.service';
+import { AuthRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * tags:
+ *   name: QA Inspections
+ *   description: Inspection plans and inspection of receipts held for QA
+ */
+
+/**
+ * Create an inspection plan
+ * @route POST /api/v1/qa-inspections/plans
+ */
+export const createPlan = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const plan = await qaInspectionService.createPlan({
+      ...req.body,
+      tenantId: req.user!.tenantId,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Inspection plan created successfully',
+      data: plan,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get inspection plans
+ * @route GET /api/v1/qa-inspections/plans
+ */
+export const getPlans = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { scope, supplierId, skuId, includeInactive } = req.query;
+
+    const plans = await qaInspectionService.getPlans({
+      tenantId: req.user!.tenantId,
+      scope: scope as any,
+      supplierId: supplierId as string,
+      skuId: skuId as string,
+      includeInactive: includeInactive === 'true',
+    });
+
+    res.status(200).json({
+      success: true,
+      data: plans,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get inspection plan by ID
+ * @route GET /api/v1/qa-inspections/plans/:id
+ */
+export const getPlanById = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const plan = await qaInspectionService.getPlanById(req.params.id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      data: plan,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update an inspection plan
+ * @route PATCH /api/v1/qa-inspections/plans/:id
+ */
+export const updatePlan = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const plan = await qaInspectionService.updatePlan(
+      req.params.id,
+      req.user!.tenantId,
+      req.body
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Inspection plan updated successfully',
+      data: plan,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Deactivate an inspection plan
+ * @route DELETE /api/v1/qa-inspections/plans/:id
+ */
+export const deactivatePlan = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const plan = await qaInspectionService.deactivatePlan(req.params.id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Inspection plan deactivated',
+      data: plan,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get inspections with filters
+ * @route GET /api/v1/qa-inspections
+ */
+export const getInspections = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { page, limit, warehouseId, status, result, assignedToId, search } = req.query;
+
+    const inspections = await qaInspectionService.getInspections({
+      tenantId: req.user!.tenantId,
+      warehouseId: warehouseId as string,
+      status: status as any,
+      result: result as any,
+      assignedToId: assignedToId as string,
+      search: search as string,
+      page: page ? parseInt(page as string) : undefined,
+      limit: limit ? parseInt(limit as string) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: inspections.data,
+      pagination: inspections.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get inspection by ID
+ * @route GET /api/v1/qa-inspections/:id
+ */
+export const getInspectionById = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const inspection = await qaInspectionService.getInspectionById(
+      req.params.id,
+      req.user!.tenantId
+    );
+
+    res.status(200).json({
+      success: true,
+      data: inspection,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Start an inspection
+ * @route POST /api/v1/qa-inspections/:id/start
+ */
+export const startInspection = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const inspection = await qaInspectionService.startInspection(
+      req.params.id,
+      req.user!.tenantId,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Inspection started',
+      data: inspection,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Record the inspection result
+ * @route POST /api/v1/qa-inspections/:id/result
+ */
+export const recordResult = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await qaInspectionService.recordResult(
+      req.params.id,
+      req.user!.tenantId,
+      req.user!.id,
+      req.body
+    );
+
+    const messages = {
+      PASS: 'Lot passed and released to putaway',
+      CONDITIONAL: 'Lot conditionally released',
+      FAIL: 'Lot failed inspection; quality variance raised',
+    };
+
+    res.status(200).json({
+      success: true,
+      message: messages[req.body.result as keyof typeof messages],
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,231 @@
+import { Response, NextFunction } from 'express';
+import returnAuthorizationService from '../services/returnAuthorization.service';
+import { AuthRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * tags:
+ *   name: Returns
+ *   description: Customer return authorizations (RMA), receiving and grading
+ */
+
+/**
+ * Create a return authorization
+ * @route POST /api/v1/returns
+ */
+export const createReturnAuthorization = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const rma = await returnAuthorizationService.createReturnAuthorization({
+      ...req.body,
+      expiresAt: req.body.expiresAt ? new Date(req.body.expiresAt) : undefined,
+      tenantId: req.user!.tenantId,
+      authorizedById: req.user!.id,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Return authorized successfully',
+      data: rma,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get return authorizations with filters
+ * @route GET /api/v1/returns
+ */
+export const getReturnAuthorizations = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { page, limit, warehouseId, status, orderId, search } = req.query;
+
+    const result = await returnAuthorizationService.getReturnAuthorizations({
+      tenantId: req.user!.tenantId,
+      warehouseId: warehouseId as string,
+      status: status as any,
+      orderId: orderId as string,
+      search: search as string,
+      page: page ? parseInt(page as string) : undefined,
+      limit: limit ? parseInt(limit as string) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get return authorization by ID
+ * @route GET /api/v1/returns/:id
+ */
+export const getReturnAuthorizationById = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const rma = await returnAuthorizationService.getReturnAuthorizationById(
+      req.params.id,
+      req.user!.tenantId
+    );
+
+    res.status(200).json({
+      success: true,
+      data: rma,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Cancel a return authorization
+ * @route POST /api/v1/returns/:id/cancel
+ */
+export const cancelReturnAuthorization = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const rma = await returnAuthorizationService.cancelReturnAuthorization(
+      req.params.id,
+      req.user!.tenantId
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Return authorization cancelled',
+      data: rma,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Receive returned units
+ * @route POST /api/v1/returns/:id/receive
+ */
+export const receiveUnits = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const units = await returnAuthorizationService.receiveUnits(
+      req.params.id,
+      req.user!.tenantId,
+      req.user!.id,
+      req.body.receivingLocationId,
+      req.body.units.map((unit: any) => ({
+        ...unit,
+        expiryDate: unit.expiryDate ? new Date(unit.expiryDate) : undefined,
+      }))
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `${units.length} unit(s) received`,
+      data: units,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Grade received units and create putaway or disposal tasks
+ * @route POST /api/v1/returns/:id/grade
+ */
+export const gradeUnits = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const units = await returnAuthorizationService.gradeUnits(
+      req.params.id,
+      req.user!.tenantId,
+      req.user!.id,
+      req.body.grades
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `${units.length} unit(s) graded`,
+      data: units,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get scrap and return-to-vendor tasks
+ * @route GET /api/v1/returns/disposal-tasks
+ */
+export const getDisposalTasks = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { warehouseId, status, disposalType } = req.query;
+
+    const tasks = await returnAuthorizationService.getDisposalTasks({
+      tenantId: req.user!.tenantId,
+      warehouseId: warehouseId as string,
+      status: status as any,
+      disposalType: disposalType as any,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: tasks,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Complete a disposal task
+ * @route POST /api/v1/returns/disposal-tasks/:taskId/complete
+ */
+export const completeDisposalTask = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const task = await returnAuthorizationService.completeDisposalTask(
+      req.params.taskId,
+      req.user!.tenantId,
+      req.user!.id,
+      req.body
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Disposal task completed',
+      data: task,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,265 @@
+import { Response, NextFunction } from 'express';
+import { SupplierClaimStatus } from '@prisma/client';
+import supplierClaimService from '../services/supplierClaim.service';
+import { AuthRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * tags:
+ *   name: Supplier Claims
+ *   description: Claims and debit notes for approved shortage, damage and wrong-item variances
+ */
+
+/**
+ * Get supplier claims
+ * @route GET /api/v1/supplier-claims
+ */
+export const getClaims = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { warehouseId, supplierId, asnId, status, page, limit } = req.query;
+
+    const result = await supplierClaimService.getClaims({
+      tenantId: req.user!.tenantId,
+      warehouseId: warehouseId as string,
+      supplierId: supplierId as string,
+      asnId: asnId as string,
+      status: status as SupplierClaimStatus,
+      page: page ? parseInt(page as string) : undefined,
+      limit: limit ? parseInt(limit as string) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: result.data,
+      pagination: result.pagination,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get outstanding claim value per supplier
+ * @route GET /api/v1/supplier-claims/outstanding
+ */
+export const getOutstanding = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const report = await supplierClaimService.getOutstandingBySupplier(
+      req.user!.tenantId,
+      req.query.warehouseId as string
+    );
+
+    res.status(200).json({
+      success: true,
+      data: report.data,
+      totals: report.totals,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Draft claims for approved variances not yet claimed
+ * @route POST /api/v1/supplier-claims/generate
+ */
+export const generateClaims = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await supplierClaimService.generateClaims(
+      req.user!.tenantId,
+      req.user!.id,
+      req.body.warehouseId
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `${result.varianceCount} variance(s) added to ${result.claims.length} claim(s)`,
+      data: result.claims,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get supplier claim by ID
+ * @route GET /api/v1/supplier-claims/:id
+ */
+export const getClaimById = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const claim = await supplierClaimService.getClaimById(req.params.id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      data: claim,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Override a claim line's unit cost
+ * @route PATCH /api/v1/supplier-claims/:id/lines/:lineId
+ */
+export const overrideLineCost = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const claim = await supplierClaimService.overrideLineCost(
+      req.params.id,
+      req.params.lineId,
+      req.user!.tenantId,
+      req.body.unitCost,
+      req.body.reason
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Claim line revalued',
+      data: claim,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Send a claim to the supplier
+ * @route POST /api/v1/supplier-claims/:id/send
+ */
+export const sendClaim = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const claim = await supplierClaimService.send(
+      req.params.id,
+      req.user!.tenantId,
+      req.user!.id,
+      req.body.notes
+    );
+
+    res.status(200).json({
+      success: true,
+      message: `Claim sent with debit note ${claim.debitNoteNumber}`,
+      data: claim,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Record the supplier's acknowledgement
+ * @route POST /api/v1/supplier-claims/:id/acknowledge
+ */
+export const acknowledgeClaim = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const claim = await supplierClaimService.acknowledge(req.params.id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Claim acknowledged',
+      data: claim,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Record a supplier dispute
+ * @route POST /api/v1/supplier-claims/:id/dispute
+ */
+export const disputeClaim = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const claim = await supplierClaimService.dispute(
+      req.params.id,
+      req.user!.tenantId,
+      req.body.reason
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Claim disputed',
+      data: claim,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Record the supplier's credit and close the claim
+ * @route POST /api/v1/supplier-claims/:id/credit
+ */
+export const creditClaim = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const claim = await supplierClaimService.credit(
+      req.params.id,
+      req.user!.tenantId,
+      req.body.creditedAmount,
+      req.body.creditReference
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Claim credited',
+      data: claim,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Download a claim's debit note as PDF
+ * @route GET /api/v1/supplier-claims/:id/debit-note
+ */
+export const getDebitNote = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const file = await supplierClaimService.getDebitNote(req.params.id, req.user!.tenantId);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.status(200).send(file.content);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,140 @@
+import { Response, NextFunction } from 'express';
+import supplierScorecardService from '../services/supplierScorecard.service';
+import { AuthRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * tags:
+ *   name: Supplier Scorecards
+ *   description: Supplier delivery and receiving quality performance
+ */
+
+const parsePeriod = (query: AuthRequest['query']) => ({
+  warehouseId: query.warehouseId as string,
+  dateFrom: query.dateFrom ? new Date(query.dateFrom as string) : undefined,
+  dateTo: query.dateTo ? new Date(query.dateTo as string) : undefined,
+});
+
+/**
+ * Get scorecards for all suppliers
+ * @route GET /api/v1/supplier-scorecards
+ */
+export const getScorecards = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const scorecards = await supplierScorecardService.getScorecards({
+      tenantId: req.user!.tenantId,
+      ...parsePeriod(req.query),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: scorecards,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get scorecard weights
+ * @route GET /api/v1/supplier-scorecards/config
+ */
+export const getConfig = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const config = await supplierScorecardService.getConfig(req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      data: config,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update scorecard weights
+ * @route PUT /api/v1/supplier-scorecards/config
+ */
+export const updateConfig = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const config = await supplierScorecardService.updateConfig(
+      req.user!.tenantId,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Scorecard weights updated successfully',
+      data: config,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Export scorecards as CSV or PDF
+ * @route GET /api/v1/supplier-scorecards/export
+ */
+export const exportScorecards = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const file = await supplierScorecardService.exportScorecards(
+      {
+        tenantId: req.user!.tenantId,
+        supplierId: req.query.supplierId as string,
+        ...parsePeriod(req.query),
+      },
+      (req.query.format as 'csv' | 'pdf') || 'csv'
+    );
+
+    res.setHeader('Content-Type', file.contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+    res.status(200).send(file.content);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get one supplier's scorecard with trends
+ * @route GET /api/v1/supplier-scorecards/:supplierId
+ */
+export const getSupplierScorecard = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { supplierId } = req.params;
+
+    const scorecard = await supplierScorecardService.getSupplierScorecard(supplierId, {
+      tenantId: req.user!.tenantId,
+      ...parsePeriod(req.query),
+    });
+
+    res.status(200).json({
+      success: true,
+      data: scorecard,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
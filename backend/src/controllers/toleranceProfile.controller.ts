@@ -0,0 +1,172 @@
+import { Response, NextFunction } from 'express';
+import toleranceProfileService from '../services/toleranceProfile.service';
+import { AuthRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * tags:
+ *   name: Tolerance Profiles
+ *   description: Receiving variance tolerance and auto-accept rules
+ */
+
+/**
+ * Create a tolerance profile
+ * @route POST /api/v1/tolerance-profiles
+ */
+export const createProfile = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const profile = await toleranceProfileService.createProfile({
+      ...req.body,
+      tenantId: req.user!.tenantId,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Tolerance profile created successfully',
+      data: profile,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get tolerance profiles
+ * @route GET /api/v1/tolerance-profiles
+ */
+export const getProfiles = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { scope, supplierId, skuId, includeInactive } = req.query;
+
+    const profiles = await toleranceProfileService.getProfiles({
+      tenantId: req.user!.tenantId,
+      scope: scope as any,
+      supplierId: supplierId as string,
+      skuId: skuId as string,
+      includeInactive: includeInactive === 'true',
+    });
+
+    res.status(200).json({
+      success: true,
+      data: profiles,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the default rules applied when no profile matches
+ * @route GET /api/v1/tolerance-profiles/defaults
+ */
+export const getDefaultRules = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    res.status(200).json({
+      success: true,
+      data: toleranceProfileService.getDefaultRules(),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Preview how a received quantity would be treated
+ * @route POST /api/v1/tolerance-profiles/simulate
+ */
+export const simulate = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await toleranceProfileService.simulate(req.user!.tenantId, req.body);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get tolerance profile by ID
+ * @route GET /api/v1/tolerance-profiles/:id
+ */
+export const getProfileById = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const profile = await toleranceProfileService.getProfileById(id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      data: profile,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a tolerance profile
+ * @route PATCH /api/v1/tolerance-profiles/:id
+ */
+export const updateProfile = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const profile = await toleranceProfileService.updateProfile(id, req.user!.tenantId, req.body);
+
+    res.status(200).json({
+      success: true,
+      message: 'Tolerance profile updated successfully',
+      data: profile,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Deactivate a tolerance profile
+ * @route DELETE /api/v1/tolerance-profiles/:id
+ */
+export const deactivateProfile = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { id } = req.params;
+    const profile = await toleranceProfileService.deactivateProfile(id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Tolerance profile deactivated successfully',
+      data: profile,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,5 +1,8 @@
 import { Response, NextFunction } from 'express';
+import { Priority } from '@prisma/client';
 import varianceService from '../services/variance.service';
+import varianceSlaService from '../services/varianceSla.service';
+import varianceResolutionService from '../services/varianceResolution.service';
 import { AuthRequest } from '../middleware/auth';
 
 /**
@@ -112,20 +115,26 @@ export const approveVariance = async (
 ) => {
   try {
     const { id } = req.params;
-    const { resolutionAction, supervisorNotes, adjustedQuantity } = req.body;
+    const { resolutionAction, supervisorNotes, adjustedQuantity, quantity, supplierId } = req.body;
 
     const variance = await varianceService.approveVariance({
       varianceId: id,
       tenantId: req.user!.tenantId,
       reviewedById: req.user!.id,
+      reviewerRole: req.user!.role,
       resolutionAction,
       supervisorNotes,
       adjustedQuantity,
+      quantity,
+      supplierId,
     });
 
     res.status(200).json({
       success: true,
-      message: 'Variance approved successfully',
+      message:
+        variance.status === 'APPROVED'
+          ? 'Variance approved successfully'
+          : 'Approval recorded; awaiting further approvers',
       data: variance,
     });
   } catch (error) {
@@ -150,6 +159,7 @@ export const rejectVariance = async (
       id,
       req.user!.tenantId,
       req.user!.id,
+      req.user!.role,
       supervisorNotes
     );
 
@@ -163,6 +173,54 @@ export const rejectVariance = async (
   }
 };
 
+/**
+ * Reverse the latest resolution of a variance and reopen it
+ * @route POST /api/v1/variances/:id/reverse
+ */
+export const reverseResolution = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const variance = await varianceResolutionService.reverse(
+      req.params.id,
+      req.user!.tenantId,
+      req.user!.id,
+      req.body.reason
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Variance resolution reversed',
+      data: variance,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the resolutions applied to a variance
+ * @route GET /api/v1/variances/:id/resolutions
+ */
+export const getResolutions = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const resolutions = await varianceResolutionService.getResolutions(req.params.id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      data: resolutions,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
 /**
  * Escalate variance
  * @route POST /api/v1/variances/:id/escalate
@@ -249,3 +307,128 @@ export const getSupplierVarianceReport = async (
     next(error);
   }
 };
+
+/**
+ * Get temperature excursions by supplier and carrier
+ * @route GET /api/v1/variances/reports/temperature-excursions
+ */
+export const getTemperatureExcursionReport = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { warehouseId, dateFrom, dateTo } = req.query;
+
+    const report = await varianceService.getTemperatureExcursionReport({
+      tenantId: req.user!.tenantId,
+      warehouseId: warehouseId as string,
+      dateFrom: dateFrom ? new Date(dateFrom as string) : undefined,
+      dateTo: dateTo ? new Date(dateTo as string) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get SLA policies for every priority
+ * @route GET /api/v1/variances/sla/policies
+ */
+export const getSlaPolicies = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const policies = await varianceSlaService.getPolicies(req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      data: policies,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update the SLA policy for a priority
+ * @route PUT /api/v1/variances/sla/policies/:priority
+ */
+export const updateSlaPolicy = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const policy = await varianceSlaService.updatePolicy(
+      req.user!.tenantId,
+      req.params.priority as Priority,
+      req.body,
+      req.user!.id
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'SLA policy updated',
+      data: policy,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get SLA warnings and breaches for the current user's variances
+ * @route GET /api/v1/variances/sla/alerts
+ */
+export const getSlaAlerts = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const alerts = await varianceSlaService.getAlerts(req.user!.tenantId, req.user!.id);
+
+    res.status(200).json({
+      success: true,
+      data: alerts,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get SLA breach metrics
+ * @route GET /api/v1/variances/sla/metrics
+ */
+export const getSlaMetrics = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { warehouseId, dateFrom, dateTo } = req.query;
+
+    const metrics = await varianceSlaService.getMetrics({
+      tenantId: req.user!.tenantId,
+      warehouseId: warehouseId as string,
+      dateFrom: dateFrom ? new Date(dateFrom as string) : undefined,
+      dateTo: dateTo ? new Date(dateTo as string) : undefined,
+    });
+
+    res.status(200).json({
+      success: true,
+      data: metrics,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,386 @@
+import { Response, NextFunction } from 'express';
+import {
+  VarianceAnalyticsDimension,
+  VarianceAnalyticsMetric,
+  VarianceStatus,
+  VarianceTrendInterval,
+  VarianceType,
+} from '@prisma/client';
+import varianceAnalyticsService, { VarianceAnalyticsFilters } from '../services/varianceAnalytics.service';
+import { AuthRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * tags:
+ *   name: Variance Analytics
+ *   description: Root-cause breakdowns, trends and saved reports for ASN and blind receipt variances
+ */
+
+const parseList = (value: unknown): string[] | undefined =>
+  value ? (value as string).split(',').map((item) => item.trim()).filter(Boolean) : undefined;
+
+const parseFilters = (query: AuthRequest['query']): VarianceAnalyticsFilters => ({
+  warehouseId: query.warehouseId as string,
+  receiptType: query.receiptType as 'ASN' | 'BLIND',
+  varianceTypes: parseList(query.varianceTypes) as VarianceType[],
+  statuses: parseList(query.statuses) as VarianceStatus[],
+  dateFrom: query.dateFrom ? new Date(query.dateFrom as string) : undefined,
+  dateTo: query.dateTo ? new Date(query.dateTo as string) : undefined,
+  periodDays: query.periodDays ? parseInt(query.periodDays as string, 10) : undefined,
+});
+
+const sendFile = (res: Response, file: { filename: string; contentType: string; content: Buffer }) => {
+  res.setHeader('Content-Type', file.contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${file.filename}"`);
+  res.status(200).send(file.content);
+};
+
+/**
+ * Get a Pareto breakdown of variances by one dimension
+ * @route GET /api/v1/variance-analytics/pareto
+ */
+export const getPareto = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const pareto = await varianceAnalyticsService.getPareto(
+      req.user!.tenantId,
+      parseFilters(req.query),
+      req.query.dimension as VarianceAnalyticsDimension,
+      req.query.metric as VarianceAnalyticsMetric
+    );
+
+    res.status(200).json({
+      success: true,
+      data: pareto,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get variance trends per day, week or month
+ * @route GET /api/v1/variance-analytics/trends
+ */
+export const getTrends = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const trends = await varianceAnalyticsService.getTrends(
+      req.user!.tenantId,
+      parseFilters(req.query),
+      req.query.interval as VarianceTrendInterval,
+      req.query.dimension as VarianceAnalyticsDimension,
+      req.query.metric as VarianceAnalyticsMetric
+    );
+
+    res.status(200).json({
+      success: true,
+      data: trends,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the variances behind one key of a breakdown
+ * @route GET /api/v1/variance-analytics/variances
+ */
+export const getDrillDown = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const { dimension, key, page, limit } = req.query;
+
+    const result = await varianceAnalyticsService.getDrillDown(
+      req.user!.tenantId,
+      parseFilters(req.query),
+      dimension as VarianceAnalyticsDimension,
+      key as string,
+      page ? parseInt(page as string, 10) : undefined,
+      limit ? parseInt(limit as string, 10) : undefined
+    );
+
+    res.status(200).json({
+      success: true,
+      ...result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Export a breakdown, trend or variance list as CSV
+ * @route GET /api/v1/variance-analytics/export
+ */
+export const exportAnalytics = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const file = await varianceAnalyticsService.exportCsv(
+      req.user!.tenantId,
+      parseFilters(req.query),
+      req.query.view as 'pareto' | 'trends' | 'variances',
+      {
+        dimension: req.query.dimension as VarianceAnalyticsDimension,
+        metric: req.query.metric as VarianceAnalyticsMetric,
+        interval: req.query.interval as VarianceTrendInterval,
+        key: req.query.key as string,
+      }
+    );
+
+    sendFile(res, file);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get receiving shifts
+ * @route GET /api/v1/variance-analytics/shifts
+ */
+export const getShifts = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const shifts = await varianceAnalyticsService.getShifts(
+      req.user!.tenantId,
+      req.query.warehouseId as string
+    );
+
+    res.status(200).json({
+      success: true,
+      data: shifts,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Create a receiving shift
+ * @route POST /api/v1/variance-analytics/shifts
+ */
+export const createShift = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const shift = await varianceAnalyticsService.createShift(req.user!.tenantId, req.body);
+
+    res.status(201).json({
+      success: true,
+      message: 'Shift created',
+      data: shift,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a receiving shift
+ * @route PUT /api/v1/variance-analytics/shifts/:id
+ */
+export const updateShift = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const shift = await varianceAnalyticsService.updateShift(req.params.id, req.user!.tenantId, req.body);
+
+    res.status(200).json({
+      success: true,
+      message: 'Shift updated',
+      data: shift,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a receiving shift
+ * @route DELETE /api/v1/variance-analytics/shifts/:id
+ */
+export const deleteShift = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await varianceAnalyticsService.deleteShift(req.params.id, req.user!.tenantId);
+
+    res.status(200).json({
+      success: true,
+      message: 'Shift deleted',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get saved reports
+ * @route GET /api/v1/variance-analytics/reports
+ */
+export const getReports = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const reports = await varianceAnalyticsService.getReports(req.user!);
+
+    res.status(200).json({
+      success: true,
+      data: reports,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Save a report definition
+ * @route POST /api/v1/variance-analytics/reports
+ */
+export const createReport = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const report = await varianceAnalyticsService.createReport(req.body, req.user!);
+
+    res.status(201).json({
+      success: true,
+      message: 'Report saved',
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get a saved report definition
+ * @route GET /api/v1/variance-analytics/reports/:id
+ */
+export const getReportById = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const report = await varianceAnalyticsService.getReportById(req.params.id, req.user!);
+
+    res.status(200).json({
+      success: true,
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Update a saved report definition
+ * @route PUT /api/v1/variance-analytics/reports/:id
+ */
+export const updateReport = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const report = await varianceAnalyticsService.updateReport(req.params.id, req.body, req.user!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Report updated',
+      data: report,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a saved report definition
+ * @route DELETE /api/v1/variance-analytics/reports/:id
+ */
+export const deleteReport = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    await varianceAnalyticsService.deleteReport(req.params.id, req.user!);
+
+    res.status(200).json({
+      success: true,
+      message: 'Report deleted',
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Run a saved report
+ * @route GET /api/v1/variance-analytics/reports/:id/run
+ */
+export const runReport = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const result = await varianceAnalyticsService.runReport(req.params.id, req.user!);
+
+    res.status(200).json({
+      success: true,
+      data: result,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Export a saved report as CSV
+ * @route GET /api/v1/variance-analytics/reports/:id/export
+ */
+export const exportReport = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const file = await varianceAnalyticsService.exportReport(
+      req.params.id,
+      req.user!,
+      (req.query.view as 'pareto' | 'trends' | 'variances') || 'pareto'
+    );
+
+    sendFile(res, file);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,136 @@
+import { Response, NextFunction } from 'express';
+import warehouseLayoutService from '../services/warehouseLayout.service';
+import pickPathService from '../services/pickPath.service';
+import { AuthRequest } from '../middleware/auth';
+
+/**
+ * @swagger
+ * tags:
+ *   name: Warehouse Layout
+ *   description: Floor coordinates, walkable aisle graph and travel distance estimates
+ */
+
+/**
+ * Replace a warehouse's layout from a CSV or JSON document
+ * @route PUT /api/v1/warehouse-layouts/:warehouseId
+ */
+export const importLayout = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const summary = await warehouseLayoutService.importLayout({
+      tenantId: req.user!.tenantId,
+      warehouseId: req.params.warehouseId,
+      format: req.body.format,
+      document: req.body.document,
+    });
+
+    res.status(200).json({
+      success: true,
+      message: `Imported ${summary.nodes} nodes, ${summary.edges} edges and ${summary.locations} locations`,
+      data: summary,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get a warehouse's layout graph
+ * @route GET /api/v1/warehouse-layouts/:warehouseId
+ */
+export const getLayout = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const layout = await warehouseLayoutService.getLayout(req.user!.tenantId, req.params.warehouseId);
+
+    res.status(200).json({
+      success: true,
+      data: layout,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Estimate walking distance and duration through a list of locations
+ * @route POST /api/v1/warehouse-layouts/:warehouseId/travel
+ */
+export const estimateTravel = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const estimate = await warehouseLayoutService.estimateTravel(
+      req.user!.tenantId,
+      req.params.warehouseId,
+      req.body
+    );
+
+    res.status(200).json({
+      success: true,
+      data: estimate,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Choose the pick path strategy for a warehouse
+ * @route PUT /api/v1/warehouse-layouts/:warehouseId/pick-path-strategy
+ */
+export const setPickPathStrategy = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const warehouse = await warehouseLayoutService.setPickPathStrategy(
+      req.user!.tenantId,
+      req.params.warehouseId,
+      req.body.pickPathStrategy
+    );
+
+    res.status(200).json({
+      success: true,
+      message: 'Pick path strategy updated',
+      data: warehouse,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Plan a pick path through locations without creating a pick task
+ * @route POST /api/v1/warehouse-layouts/:warehouseId/pick-path/preview
+ */
+export const previewPickPath = async (
+  req: AuthRequest,
+  res: Response,
+  next: NextFunction
+) => {
+  try {
+    const plan = await pickPathService.preview(
+      req.user!.tenantId,
+      req.params.warehouseId,
+      req.body.locationCodes,
+      req.body.strategy
+    );
+
+    res.status(200).json({
+      success: true,
+      data: plan,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,45 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { AppError } from './errorHandler';
+
+export const MAX_FILE_SIZE = Number(process.env.MAX_FILE_SIZE) || 10 * 1024 * 1024;
+export const MAX_FILES_PER_UPLOAD = 10;
+
+export const ALLOWED_FILE_TYPES = (process.env.ALLOWED_FILE_TYPES || 'image/jpeg,image/png,image/jpg,application/pdf')
+  .split(',')
+  .map((type) => type.trim().toLowerCase())
+  .filter(Boolean);
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_FILE_SIZE, files: MAX_FILES_PER_UPLOAD },
+  fileFilter: (req, file, callback) => {
+    if (!ALLOWED_FILE_TYPES.includes(file.mimetype.toLowerCase())) {
+      return callback(new AppError(`File type ${file.mimetype} is not allowed`, 415));
+    }
+    callback(null, true);
+  },
+});
+
+/**
+ * Middleware to accept multipart file uploads into memory. Size and count
+ * limit errors are returned as 413 instead of falling through as 500s.
+ */
+export const uploadFiles = (field = 'files') => {
+  const handler = upload.array(field, MAX_FILES_PER_UPLOAD);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        const message =
+          error.code === 'LIMIT_FILE_SIZE'
+            ? `File exceeds the ${Math.round(MAX_FILE_SIZE / 1024 / 1024)}MB limit`
+            : error.code === 'LIMIT_FILE_COUNT' || error.code === 'LIMIT_UNEXPECTED_FILE'
+              ? `Upload up to ${MAX_FILES_PER_UPLOAD} files in the "${field}" field`
+              : error.message;
+        return next(new AppError(message, error.code === 'LIMIT_FILE_SIZE' ? 413 : 400));
+      }
+      next(error);
+    });
+  };
+};
@@ -0,0 +1,426 @@
+import { Router } from 'express';
+import * as approvalController from '../controllers/approval.controller';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validate';
+import {
+  createApprovalChainSchema,
+  updateApprovalChainSchema,
+  approvalChainQuerySchema,
+  evaluateApprovalSchema,
+  recordApprovalDecisionSchema,
+  createApprovalDelegationSchema,
+} from '../validators/schemas';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/v1/approvals/inbox:
+ *   get:
+ *     summary: Get pending approvals the current user can act on, directly or as a delegate
+ *     tags: [Approvals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: documentType
+ *         schema:
+ *           type: string
+ *           enum: [VARIANCE, BLIND_RECEIPT, INVENTORY_ADJUSTMENT]
+ *     responses:
+ *       200:
+ *         description: Pending approval requests
+ */
+router.get('/inbox', approvalController.getInbox);
+
+/**
+ * @swagger
+ * /api/v1/approvals/chains:
+ *   get:
+ *     summary: Get approval chains
+ *     tags: [Approvals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: documentType
+ *         schema:
+ *           type: string
+ *           enum: [VARIANCE, BLIND_RECEIPT, INVENTORY_ADJUSTMENT]
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Approval chains with their steps
+ */
+router.get(
+  '/chains',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validateQuery(approvalChainQuerySchema),
+  approvalController.getChains
+);
+
+/**
+ * @swagger
+ * /api/v1/approvals/chains:
+ *   post:
+ *     summary: Create an approval chain
+ *     description: >
+ *       Chains apply to one document type and optionally one warehouse, one
+ *       requester role and value/percentage bands (minimum inclusive, maximum
+ *       exclusive). Steps with the same sequence are approved in parallel;
+ *       higher sequences wait for lower ones.
+ *     tags: [Approvals]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - documentType
+ *               - steps
+ *             properties:
+ *               name:
+ *                 type: string
+ *               documentType:
+ *                 type: string
+ *                 enum: [VARIANCE, BLIND_RECEIPT, INVENTORY_ADJUSTMENT]
+ *               warehouseId:
+ *                 type: string
+ *               requesterRole:
+ *                 type: string
+ *               minValue:
+ *                 type: number
+ *               maxValue:
+ *                 type: number
+ *               minPercentage:
+ *                 type: number
+ *               maxPercentage:
+ *                 type: number
+ *               steps:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     sequence:
+ *                       type: integer
+ *                     name:
+ *                       type: string
+ *                     approverRoles:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *                     approverUserId:
+ *                       type: string
+ *     responses:
+ *       201:
+ *         description: Approval chain created
+ */
+router.post(
+  '/chains',
+  authorize('TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(createApprovalChainSchema),
+  approvalController.createChain
+);
+
+/**
+ * @swagger
+ * /api/v1/approvals/chains/{id}:
+ *   get:
+ *     summary: Get approval chain by ID
+ *     tags: [Approvals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Approval chain
+ *       404:
+ *         description: Approval chain not found
+ */
+router.get(
+  '/chains/:id',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  approvalController.getChainById
+);
+
+/**
+ * @swagger
+ * /api/v1/approvals/chains/{id}:
+ *   put:
+ *     summary: Update an approval chain
+ *     description: Steps, when given, replace the existing steps. Requests already in progress keep the steps they started with.
+ *     tags: [Approvals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Approval chain updated
+ */
+router.put(
+  '/chains/:id',
+  authorize('TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(updateApprovalChainSchema),
+  approvalController.updateChain
+);
+
+/**
+ * @swagger
+ * /api/v1/approvals/chains/{id}:
+ *   delete:
+ *     summary: Deactivate an approval chain
+ *     tags: [Approvals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Approval chain deactivated
+ */
+router.delete(
+  '/chains/:id',
+  authorize('TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  approvalController.deactivateChain
+);
+
+/**
+ * @swagger
+ * /api/v1/approvals/evaluate:
+ *   post:
+ *     summary: Preview the approval chain a document would be routed through
+ *     description: Returns required=false when the document needs no approval.
+ *     tags: [Approvals]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - documentType
+ *             properties:
+ *               documentType:
+ *                 type: string
+ *                 enum: [VARIANCE, BLIND_RECEIPT, INVENTORY_ADJUSTMENT]
+ *               warehouseId:
+ *                 type: string
+ *               value:
+ *                 type: number
+ *               percentage:
+ *                 type: number
+ *               requestedById:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Resolved chain
+ */
+router.post(
+  '/evaluate',
+  validate(evaluateApprovalSchema),
+  approvalController.evaluate
+);
+
+/**
+ * @swagger
+ * /api/v1/approvals/delegations:
+ *   get:
+ *     summary: Get approval delegations
+ *     tags: [Approvals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: userId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeExpired
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Delegations given or held
+ */
+router.get('/delegations', approvalController.getDelegations);
+
+/**
+ * @swagger
+ * /api/v1/approvals/delegations:
+ *   post:
+ *     summary: Delegate approvals while out of office
+ *     description: Defaults to delegating the current user's approvals. Only admins may delegate for another user.
+ *     tags: [Approvals]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - delegateId
+ *               - startsAt
+ *               - endsAt
+ *             properties:
+ *               delegatorId:
+ *                 type: string
+ *               delegateId:
+ *                 type: string
+ *               documentType:
+ *                 type: string
+ *                 enum: [VARIANCE, BLIND_RECEIPT, INVENTORY_ADJUSTMENT]
+ *               startsAt:
+ *                 type: string
+ *                 format: date-time
+ *               endsAt:
+ *                 type: string
+ *                 format: date-time
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Delegation created
+ */
+router.post(
+  '/delegations',
+  validate(createApprovalDelegationSchema),
+  approvalController.createDelegation
+);
+
+/**
+ * @swagger
+ * /api/v1/approvals/delegations/{id}/revoke:
+ *   post:
+ *     summary: Revoke a delegation
+ *     tags: [Approvals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Delegation revoked
+ */
+router.post('/delegations/:id/revoke', approvalController.revokeDelegation);
+
+/**
+ * @swagger
+ * /api/v1/approvals/documents/{documentType}/{documentId}:
+ *   get:
+ *     summary: Get a document's approval requests and full decision history
+ *     tags: [Approvals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: documentType
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [VARIANCE, BLIND_RECEIPT, INVENTORY_ADJUSTMENT]
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Approval requests, newest first
+ */
+router.get('/documents/:documentType/:documentId', approvalController.getHistory);
+
+/**
+ * @swagger
+ * /api/v1/approvals/documents/{documentType}/{documentId}/decisions:
+ *   post:
+ *     summary: Record a decision on a document owned by another service
+ *     description: >
+ *       Used for inventory adjustments. The request is opened from the given
+ *       facts on the first decision. Variances and blind receipts are decided
+ *       through their own approve and reject routes.
+ *     tags: [Approvals]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: documentType
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [INVENTORY_ADJUSTMENT]
+ *       - in: path
+ *         name: documentId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - decision
+ *             properties:
+ *               decision:
+ *                 type: string
+ *                 enum: [APPROVED, REJECTED]
+ *               comments:
+ *                 type: string
+ *               documentNumber:
+ *                 type: string
+ *               warehouseId:
+ *                 type: string
+ *               value:
+ *                 type: number
+ *               percentage:
+ *                 type: number
+ *     responses:
+ *       200:
+ *         description: Decision recorded
+ *       403:
+ *         description: Not an approver for the current step
+ */
+router.post(
+  '/documents/:documentType/:documentId/decisions',
+  validate(recordApprovalDecisionSchema),
+  approvalController.recordDecision
+);
+
+export default router;
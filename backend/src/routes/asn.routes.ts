@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import * as asnController from '../controllers/asn.controller';
+import * as asnImportController from '../controllers/asnImport.controller';
+import * as grnController from '../controllers/grn.controller';
 import { authenticate, authorize } from '../middleware/auth';
 import { validate, validateQuery } from '../middleware/validate';
 import {
@@ -7,6 +9,12 @@ import {
   receiveASNLineSchema,
   updateASNStatusSchema,
   asnQuerySchema,
+  importASNDocumentSchema,
+  updateStagedImportLineSchema,
+  commitASNImportSchema,
+  asnImportQuerySchema,
+  amendGrnSchema,
+  grnQuerySchema,
 } from '../validators/schemas';
 
 const router = Router();
@@ -90,6 +98,169 @@ router.post(
  */
 router.get('/', validateQuery(asnQuerySchema), asnController.getASNs);
 
+/**
+ * @swagger
+ * /api/v1/asn/imports:
+ *   post:
+ *     summary: Import an X12 856 or EDIFACT DESADV ship notice
+ *     tags: [ASN]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - warehouseId
+ *               - document
+ *             properties:
+ *               warehouseId:
+ *                 type: string
+ *                 format: uuid
+ *               document:
+ *                 type: string
+ *               format:
+ *                 type: string
+ *                 enum: [X12_856, EDIFACT_DESADV]
+ *               fileName:
+ *                 type: string
+ *               supplierId:
+ *                 type: string
+ *                 format: uuid
+ *               autoCommit:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Document staged (or committed) with a per-segment error report
+ *       400:
+ *         description: Validation error
+ *       404:
+ *         description: Warehouse or supplier not found
+ */
+router.post(
+  '/imports',
+  authorize('WAREHOUSE_MANAGER', 'RECEIVING_SUPERVISOR', 'BUYER', 'PLATFORM_ADMIN'),
+  validate(importASNDocumentSchema),
+  asnImportController.importDocument
+);
+
+/**
+ * @swagger
+ * /api/v1/asn/imports:
+ *   get:
+ *     summary: Get EDI imports
+ *     tags: [ASN]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [STAGED, COMMITTED, FAILED, DISCARDED]
+ *     responses:
+ *       200:
+ *         description: Imports retrieved successfully
+ */
+router.get('/imports', validateQuery(asnImportQuerySchema), asnImportController.getImports);
+
+/**
+ * @swagger
+ * /api/v1/asn/imports/{importId}:
+ *   get:
+ *     summary: Get EDI import with staged shipments and errors
+ *     tags: [ASN]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: importId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Import retrieved successfully
+ *       404:
+ *         description: Import not found
+ */
+router.get('/imports/:importId', asnImportController.getImportById);
+
+/**
+ * @swagger
+ * /api/v1/asn/imports/{importId}/shipments/{shipmentIndex}/lines/{lineIndex}:
+ *   patch:
+ *     summary: Assign a SKU to, or exclude, a staged import line
+ *     tags: [ASN]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Staged line updated successfully
+ *       404:
+ *         description: Import, line or SKU not found
+ */
+router.patch(
+  '/imports/:importId/shipments/:shipmentIndex/lines/:lineIndex',
+  authorize('WAREHOUSE_MANAGER', 'RECEIVING_SUPERVISOR', 'BUYER', 'PLATFORM_ADMIN'),
+  validate(updateStagedImportLineSchema),
+  asnImportController.updateStagedLine
+);
+
+/**
+ * @swagger
+ * /api/v1/asn/imports/{importId}/commit:
+ *   post:
+ *     summary: Create ASNs from a staged import
+ *     tags: [ASN]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               allowPartial:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: ASNs created successfully
+ *       400:
+ *         description: Import has unresolved errors
+ */
+router.post(
+  '/imports/:importId/commit',
+  authorize('WAREHOUSE_MANAGER', 'RECEIVING_SUPERVISOR', 'BUYER', 'PLATFORM_ADMIN'),
+  validate(commitASNImportSchema),
+  asnImportController.commitImport
+);
+
+/**
+ * @swagger
+ * /api/v1/asn/imports/{importId}:
+ *   delete:
+ *     summary: Discard a staged import
+ *     tags: [ASN]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Import discarded successfully
+ */
+router.delete(
+  '/imports/:importId',
+  authorize('WAREHOUSE_MANAGER', 'RECEIVING_SUPERVISOR', 'BUYER', 'PLATFORM_ADMIN'),
+  asnImportController.discardImport
+);
+
 /**
  * @swagger
  * /api/v1/asn/{id}:
@@ -258,4 +429,96 @@ router.delete(
   asnController.cancelASN
 );
 
+/**
+ * @swagger
+ * /api/v1/asn/{id}/grn:
+ *   get:
+ *     summary: Get the goods received note for a completed ASN
+ *     tags: [Goods Received Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, pdf]
+ *       - in: query
+ *         name: version
+ *         description: Defaults to the latest version
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: GRN retrieved successfully
+ *       404:
+ *         description: No GRN has been issued for this ASN
+ */
+router.get('/:id/grn', validateQuery(grnQuerySchema), grnController.getAsnGrn);
+
+/**
+ * @swagger
+ * /api/v1/asn/{id}/grn/versions:
+ *   get:
+ *     summary: List GRN versions issued for a ASN
+ *     tags: [Goods Received Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: GRN versions retrieved successfully
+ */
+router.get('/:id/grn/versions', grnController.getAsnGrnVersions);
+
+/**
+ * @swagger
+ * /api/v1/asn/{id}/grn/amend:
+ *   post:
+ *     summary: Issue an amended GRN version
+ *     tags: [Goods Received Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Amended GRN issued
+ *       400:
+ *         description: Receipt unchanged since the latest version
+ */
+router.post(
+  '/:id/grn/amend',
+  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'PLATFORM_ADMIN'),
+  validate(amendGrnSchema),
+  grnController.amendAsnGrn
+);
+
 export default router;
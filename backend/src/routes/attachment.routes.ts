@@ -0,0 +1,217 @@
+import { Router } from 'express';
+import * as attachmentController from '../controllers/attachment.controller';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validate';
+import { uploadFiles } from '../middleware/upload';
+import {
+  uploadAttachmentSchema,
+  linkAttachmentSchema,
+  cleanupAttachmentsSchema,
+  attachmentQuerySchema,
+} from '../validators/schemas';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /api/v1/attachments/files/{token}:
+ *   get:
+ *     summary: Download a locally stored file (signed URL, no bearer token)
+ *     tags: [Attachments]
+ *     parameters:
+ *       - in: path
+ *         name: token
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: File content
+ *       403:
+ *         description: Link invalid or expired
+ */
+router.get('/files/:token', attachmentController.downloadFile);
+
+// All other routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/v1/attachments:
+ *   post:
+ *     summary: Upload photos or documents, optionally linked to an entity
+ *     tags: [Attachments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - files
+ *             properties:
+ *               files:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: binary
+ *               entityType:
+ *                 type: string
+ *                 enum: [ASN, ASN_LINE, BLIND_RECEIPT, BLIND_RECEIPT_LINE, VARIANCE, RETURN_AUTHORIZATION, RETURN_LINE, QA_INSPECTION, NEW_SKU_REQUEST, PURCHASE_ORDER]
+ *               entityId:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Files uploaded, with signed download and thumbnail URLs
+ *       413:
+ *         description: File too large
+ *       415:
+ *         description: File type not allowed or content does not match its type
+ */
+router.post(
+  '/',
+  uploadFiles('files'),
+  validate(uploadAttachmentSchema),
+  attachmentController.uploadAttachments
+);
+
+/**
+ * @swagger
+ * /api/v1/attachments:
+ *   get:
+ *     summary: List attachments linked to an entity
+ *     tags: [Attachments]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: entityType
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: entityId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Attachments with signed download URLs
+ */
+router.get(
+  '/',
+  validateQuery(attachmentQuerySchema),
+  attachmentController.getAttachments
+);
+
+/**
+ * @swagger
+ * /api/v1/attachments/cleanup:
+ *   post:
+ *     summary: Remove attachments without links and stored files without attachments
+ *     tags: [Attachments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               graceHours:
+ *                 type: number
+ *                 description: Only remove files older than this (default ATTACHMENT_ORPHAN_GRACE_HOURS)
+ *     responses:
+ *       200:
+ *         description: Cleanup counts
+ */
+router.post(
+  '/cleanup',
+  authorize('PLATFORM_ADMIN'),
+  validate(cleanupAttachmentsSchema),
+  attachmentController.cleanupOrphans
+);
+
+/**
+ * @swagger
+ * /api/v1/attachments/{id}:
+ *   get:
+ *     summary: Get attachment with its links and fresh download URLs
+ *     tags: [Attachments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Attachment retrieved successfully
+ *       404:
+ *         description: Attachment not found
+ */
+router.get('/:id', attachmentController.getAttachmentById);
+
+/**
+ * @swagger
+ * /api/v1/attachments/{id}:
+ *   delete:
+ *     summary: Delete an attachment and its stored files
+ *     tags: [Attachments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Attachment deleted
+ */
+router.delete(
+  '/:id',
+  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  attachmentController.deleteAttachment
+);
+
+/**
+ * @swagger
+ * /api/v1/attachments/{id}/links:
+ *   post:
+ *     summary: Link an attachment to an entity
+ *     tags: [Attachments]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - entityType
+ *               - entityId
+ *             properties:
+ *               entityType:
+ *                 type: string
+ *               entityId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Attachment linked
+ */
+router.post(
+  '/:id/links',
+  validate(linkAttachmentSchema),
+  attachmentController.linkAttachment
+);
+
+/**
+ * @swagger
+ * /api/v1/attachments/{id}/links/{entityType}/{entityId}:
+ *   delete:
+ *     summary: Unlink an attachment from an entity
+ *     tags: [Attachments]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Attachment unlinked
+ */
+router.delete('/:id/links/:entityType/:entityId', attachmentController.unlinkAttachment);
+
+export default router;
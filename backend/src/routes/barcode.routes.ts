@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import * as barcodeController from '../controllers/barcode.controller';
+import { authenticate } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import { parseBarcodeSchema } from '../validators/schemas';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/v1/barcodes/gs1/parse:
+ *   post:
+ *     summary: Parse a GS1 barcode (AIs 00, 01, 02, 10, 11, 17, 21, 310x, 37)
+ *     tags: [Barcodes]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - barcode
+ *             properties:
+ *               barcode:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Parsed elements, resolved SKU and any check-digit or format errors
+ */
+router.post('/gs1/parse', validate(parseBarcodeSchema), barcodeController.parseGS1);
+
+export default router;
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import * as blindReceiptController from '../controllers/blindReceipt.controller';
+import * as grnController from '../controllers/grn.controller';
 import { authenticate, authorize } from '../middleware/auth';
 import { validate, validateQuery } from '../middleware/validate';
 import {
@@ -9,6 +10,8 @@ import {
   approveBlindReceiptSchema,
   rejectBlindReceiptSchema,
   blindReceiptQuerySchema,
+  amendGrnSchema,
+  grnQuerySchema,
 } from '../validators/schemas';
 
 const router = Router();
@@ -183,6 +186,7 @@ router.post(
  * /api/v1/blind-receipts/{id}/approve:
  *   post:
  *     summary: Approve blind receipt
+ *     description: Records an approval at the current step of the receipt's approval chain. The receipt is approved once every step has signed off.
  *     tags: [Blind Receipts]
  *     security:
  *       - bearerAuth: []
@@ -199,7 +203,6 @@ router.post(
  */
 router.post(
   '/:id/approve',
-  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'PLATFORM_ADMIN'),
   validate(approveBlindReceiptSchema),
   blindReceiptController.approve
 );
@@ -209,6 +212,7 @@ router.post(
  * /api/v1/blind-receipts/{id}/reject:
  *   post:
  *     summary: Reject blind receipt
+ *     description: Any approver at the current step of the receipt's approval chain may reject it.
  *     tags: [Blind Receipts]
  *     security:
  *       - bearerAuth: []
@@ -225,9 +229,100 @@ router.post(
  */
 router.post(
   '/:id/reject',
-  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'PLATFORM_ADMIN'),
   validate(rejectBlindReceiptSchema),
   blindReceiptController.reject
 );
 
+/**
+ * @swagger
+ * /api/v1/blind-receipts/{id}/grn:
+ *   get:
+ *     summary: Get the goods received note for a completed blind receipt
+ *     tags: [Goods Received Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [json, pdf]
+ *       - in: query
+ *         name: version
+ *         description: Defaults to the latest version
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: GRN retrieved successfully
+ *       404:
+ *         description: No GRN has been issued for this blind receipt
+ */
+router.get('/:id/grn', validateQuery(grnQuerySchema), grnController.getBlindReceiptGrn);
+
+/**
+ * @swagger
+ * /api/v1/blind-receipts/{id}/grn/versions:
+ *   get:
+ *     summary: List GRN versions issued for a blind receipt
+ *     tags: [Goods Received Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: GRN versions retrieved successfully
+ */
+router.get('/:id/grn/versions', grnController.getBlindReceiptGrnVersions);
+
+/**
+ * @swagger
+ * /api/v1/blind-receipts/{id}/grn/amend:
+ *   post:
+ *     summary: Issue an amended GRN version
+ *     tags: [Goods Received Notes]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Amended GRN issued
+ *       400:
+ *         description: Receipt unchanged since the latest version
+ */
+router.post(
+  '/:id/grn/amend',
+  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'PLATFORM_ADMIN'),
+  validate(amendGrnSchema),
+  grnController.amendBlindReceiptGrn
+);
+
 export default router;
@@ -0,0 +1,294 @@
+import { Router } from 'express';
+import * as dockController from '../controllers/dockAppointment.controller';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validate';
+import {
+  createDockDoorSchema,
+  updateDockDoorSchema,
+  bookAppointmentSchema,
+  rescheduleAppointmentSchema,
+  checkInAppointmentSchema,
+  cancelAppointmentSchema,
+  dockAppointmentQuerySchema,
+  dockAvailabilityQuerySchema,
+} from '../validators/schemas';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/v1/dock/doors:
+ *   post:
+ *     summary: Create a dock door
+ *     tags: [Dock Scheduling]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - warehouseId
+ *               - code
+ *               - name
+ *             properties:
+ *               slotDurationMinutes:
+ *                 type: integer
+ *               slotCapacity:
+ *                 type: integer
+ *               operatingHours:
+ *                 type: object
+ *                 description: Weekday (sun..sat) to { open, close } in HH:mm local time
+ *               timezone:
+ *                 type: string
+ *     responses:
+ *       201:
+ *         description: Dock door created successfully
+ *       409:
+ *         description: Door code already exists
+ */
+router.post(
+  '/doors',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(createDockDoorSchema),
+  dockController.createDockDoor
+);
+
+/**
+ * @swagger
+ * /api/v1/dock/doors:
+ *   get:
+ *     summary: Get dock doors
+ *     tags: [Dock Scheduling]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Dock doors retrieved successfully
+ */
+router.get('/doors', dockController.getDockDoors);
+
+/**
+ * @swagger
+ * /api/v1/dock/doors/{id}:
+ *   patch:
+ *     summary: Update dock door configuration
+ *     tags: [Dock Scheduling]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Dock door updated successfully
+ *       404:
+ *         description: Dock door not found
+ */
+router.patch(
+  '/doors/:id',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(updateDockDoorSchema),
+  dockController.updateDockDoor
+);
+
+/**
+ * @swagger
+ * /api/v1/dock/doors/{id}/availability:
+ *   get:
+ *     summary: Get bookable slots for a door on a local date
+ *     tags: [Dock Scheduling]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: date
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Availability retrieved successfully
+ */
+router.get(
+  '/doors/:id/availability',
+  validateQuery(dockAvailabilityQuerySchema),
+  dockController.getAvailability
+);
+
+/**
+ * @swagger
+ * /api/v1/dock/appointments:
+ *   post:
+ *     summary: Book a dock appointment for an ASN
+ *     tags: [Dock Scheduling]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - asnId
+ *               - dockDoorId
+ *               - scheduledStart
+ *     responses:
+ *       201:
+ *         description: Appointment booked successfully
+ *       400:
+ *         description: Outside operating hours or invalid door
+ *       409:
+ *         description: Door already booked or ASN already has an appointment
+ */
+router.post(
+  '/appointments',
+  authorize('WAREHOUSE_MANAGER', 'RECEIVING_SUPERVISOR', 'BUYER', 'PLATFORM_ADMIN'),
+  validate(bookAppointmentSchema),
+  dockController.bookAppointment
+);
+
+/**
+ * @swagger
+ * /api/v1/dock/appointments:
+ *   get:
+ *     summary: Get appointments for the dock calendar
+ *     tags: [Dock Scheduling]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: dockDoorId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Appointments retrieved successfully
+ */
+router.get(
+  '/appointments',
+  validateQuery(dockAppointmentQuerySchema),
+  dockController.getAppointments
+);
+
+/**
+ * @swagger
+ * /api/v1/dock/appointments/{id}:
+ *   get:
+ *     summary: Get appointment by ID
+ *     tags: [Dock Scheduling]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Appointment retrieved successfully
+ *       404:
+ *         description: Appointment not found
+ */
+router.get('/appointments/:id', dockController.getAppointmentById);
+
+/**
+ * @swagger
+ * /api/v1/dock/appointments/{id}/reschedule:
+ *   patch:
+ *     summary: Reschedule an appointment
+ *     tags: [Dock Scheduling]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Appointment rescheduled successfully
+ *       409:
+ *         description: Door already booked for the new time
+ */
+router.patch(
+  '/appointments/:id/reschedule',
+  authorize('WAREHOUSE_MANAGER', 'RECEIVING_SUPERVISOR', 'BUYER', 'PLATFORM_ADMIN'),
+  validate(rescheduleAppointmentSchema),
+  dockController.rescheduleAppointment
+);
+
+/**
+ * @swagger
+ * /api/v1/dock/appointments/{id}/check-in:
+ *   post:
+ *     summary: Check a truck in at the dock
+ *     tags: [Dock Scheduling]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Truck checked in successfully
+ */
+router.post(
+  '/appointments/:id/check-in',
+  authorize('WAREHOUSE_RECEIVER', 'RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER'),
+  validate(checkInAppointmentSchema),
+  dockController.checkIn
+);
+
+/**
+ * @swagger
+ * /api/v1/dock/appointments/{id}/check-out:
+ *   post:
+ *     summary: Check a truck out from the dock
+ *     tags: [Dock Scheduling]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Truck checked out successfully
+ */
+router.post(
+  '/appointments/:id/check-out',
+  authorize('WAREHOUSE_RECEIVER', 'RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER'),
+  dockController.checkOut
+);
+
+/**
+ * @swagger
+ * /api/v1/dock/appointments/{id}/cancel:
+ *   post:
+ *     summary: Cancel an appointment or mark it as a no-show
+ *     tags: [Dock Scheduling]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Appointment cancelled successfully
+ */
+router.post(
+  '/appointments/:id/cancel',
+  authorize('WAREHOUSE_MANAGER', 'RECEIVING_SUPERVISOR', 'BUYER', 'PLATFORM_ADMIN'),
+  validate(cancelAppointmentSchema),
+  dockController.cancelAppointment
+);
+
+export default router;
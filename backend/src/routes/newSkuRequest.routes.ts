@@ -0,0 +1,162 @@
+import { Router } from 'express';
+import * as newSkuRequestController from '../controllers/newSkuRequest.controller';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validate';
+import {
+  updateNewSkuRequestSchema,
+  approveNewSkuRequestSchema,
+  rejectNewSkuRequestSchema,
+  newSkuRequestQuerySchema,
+} from '../validators/schemas';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/v1/sku-requests:
+ *   get:
+ *     summary: List new SKU requests raised from blind receipts
+ *     tags: [New SKU Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, APPROVED, REJECTED]
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Request number, proposed code, description or receipt number contains
+ *     responses:
+ *       200:
+ *         description: Requests retrieved successfully
+ */
+router.get(
+  '/',
+  validateQuery(newSkuRequestQuerySchema),
+  newSkuRequestController.getRequests
+);
+
+/**
+ * @swagger
+ * /api/v1/sku-requests/{id}:
+ *   get:
+ *     summary: Get new SKU request with the captured item details
+ *     tags: [New SKU Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Request retrieved successfully
+ *       404:
+ *         description: Request not found
+ */
+router.get('/:id', newSkuRequestController.getRequestById);
+
+/**
+ * @swagger
+ * /api/v1/sku-requests/{id}:
+ *   patch:
+ *     summary: Save SKU master data on a pending request
+ *     tags: [New SKU Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - skuDraft
+ *             properties:
+ *               skuDraft:
+ *                 type: object
+ *                 description: SKU fields (code, name, uom, tracking flags, temperature, hazmat, dimensions)
+ *     responses:
+ *       200:
+ *         description: SKU details saved
+ */
+router.patch(
+  '/:id',
+  authorize('BUYER', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(updateNewSkuRequestSchema),
+  newSkuRequestController.updateDraft
+);
+
+/**
+ * @swagger
+ * /api/v1/sku-requests/{id}/approve:
+ *   post:
+ *     summary: Create the SKU (or link an existing one) and attach it to the receipt line
+ *     tags: [New SKU Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               skuDraft:
+ *                 type: object
+ *                 description: Final SKU master data, merged over the saved draft
+ *               existingSkuId:
+ *                 type: string
+ *                 description: Link this SKU instead of creating one
+ *     responses:
+ *       200:
+ *         description: New SKU approved
+ *       400:
+ *         description: Master data incomplete
+ *       409:
+ *         description: SKU code already exists
+ */
+router.post(
+  '/:id/approve',
+  authorize('BUYER', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(approveNewSkuRequestSchema),
+  newSkuRequestController.approveRequest
+);
+
+/**
+ * @swagger
+ * /api/v1/sku-requests/{id}/reject:
+ *   post:
+ *     summary: Reject a new SKU request
+ *     tags: [New SKU Requests]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rejectionReason
+ *             properties:
+ *               rejectionReason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: New SKU request rejected
+ */
+router.post(
+  '/:id/reject',
+  authorize('BUYER', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(rejectNewSkuRequestSchema),
+  newSkuRequestController.rejectRequest
+);
+
+export default router;
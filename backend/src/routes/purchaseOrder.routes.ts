@@ -0,0 +1,304 @@
+import { Router } from 'express';
+import * as purchaseOrderController from '../controllers/purchaseOrder.controller';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validate';
+import {
+  createPurchaseOrderSchema,
+  updatePurchaseOrderSchema,
+  purchaseOrderLineSchema,
+  updatePurchaseOrderLineSchema,
+  closePurchaseOrderSchema,
+  linkPurchaseOrderASNSchema,
+  purchaseOrderQuerySchema,
+} from '../validators/schemas';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/v1/purchase-orders:
+ *   post:
+ *     summary: Create a purchase order
+ *     tags: [Purchase Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - warehouseId
+ *               - poNumber
+ *               - supplierId
+ *               - lines
+ *             properties:
+ *               warehouseId:
+ *                 type: string
+ *               poNumber:
+ *                 type: string
+ *               supplierId:
+ *                 type: string
+ *               expectedDeliveryDate:
+ *                 type: string
+ *                 format: date-time
+ *               overReceiptTolerancePercent:
+ *                 type: number
+ *                 description: Allowed receipt above the ordered quantity, across all ASNs
+ *               draft:
+ *                 type: boolean
+ *                 description: Create as DRAFT instead of OPEN
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     lineNumber:
+ *                       type: integer
+ *                     skuId:
+ *                       type: string
+ *                     orderedQuantity:
+ *                       type: number
+ *                     unitCost:
+ *                       type: number
+ *     responses:
+ *       201:
+ *         description: Purchase order created successfully
+ *       409:
+ *         description: PO number already exists
+ */
+router.post(
+  '/',
+  authorize('BUYER', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(createPurchaseOrderSchema),
+  purchaseOrderController.createPurchaseOrder
+);
+
+/**
+ * @swagger
+ * /api/v1/purchase-orders:
+ *   get:
+ *     summary: Get purchase orders with filters
+ *     tags: [Purchase Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [DRAFT, OPEN, PARTIALLY_RECEIVED, CLOSED, SHORT_CLOSED, CANCELLED]
+ *       - in: query
+ *         name: supplierId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: PO number contains
+ *     responses:
+ *       200:
+ *         description: Purchase orders retrieved successfully
+ */
+router.get(
+  '/',
+  validateQuery(purchaseOrderQuerySchema),
+  purchaseOrderController.getPurchaseOrders
+);
+
+/**
+ * @swagger
+ * /api/v1/purchase-orders/lines/{lineId}:
+ *   patch:
+ *     summary: Update ordered quantity or unit cost of a line
+ *     tags: [Purchase Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Line updated successfully
+ */
+router.patch(
+  '/lines/:lineId',
+  authorize('BUYER', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(updatePurchaseOrderLineSchema),
+  purchaseOrderController.updateLine
+);
+
+/**
+ * @swagger
+ * /api/v1/purchase-orders/lines/{lineId}:
+ *   delete:
+ *     summary: Delete a line with no receipts
+ *     tags: [Purchase Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Line deleted successfully
+ */
+router.delete(
+  '/lines/:lineId',
+  authorize('BUYER', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  purchaseOrderController.deleteLine
+);
+
+/**
+ * @swagger
+ * /api/v1/purchase-orders/{id}:
+ *   get:
+ *     summary: Get purchase order with lines, open quantities and linked ASNs
+ *     tags: [Purchase Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Purchase order retrieved successfully
+ *       404:
+ *         description: Purchase order not found
+ */
+router.get('/:id', purchaseOrderController.getPurchaseOrderById);
+
+/**
+ * @swagger
+ * /api/v1/purchase-orders/{id}:
+ *   patch:
+ *     summary: Update purchase order header
+ *     tags: [Purchase Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Purchase order updated successfully
+ */
+router.patch(
+  '/:id',
+  authorize('BUYER', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(updatePurchaseOrderSchema),
+  purchaseOrderController.updatePurchaseOrder
+);
+
+/**
+ * @swagger
+ * /api/v1/purchase-orders/{id}/open:
+ *   post:
+ *     summary: Release a draft purchase order for receiving
+ *     tags: [Purchase Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Purchase order opened
+ */
+router.post(
+  '/:id/open',
+  authorize('BUYER', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  purchaseOrderController.openPurchaseOrder
+);
+
+/**
+ * @swagger
+ * /api/v1/purchase-orders/{id}/lines:
+ *   post:
+ *     summary: Add a line to a purchase order
+ *     tags: [Purchase Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Line added successfully
+ */
+router.post(
+  '/:id/lines',
+  authorize('BUYER', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(purchaseOrderLineSchema),
+  purchaseOrderController.addLine
+);
+
+/**
+ * @swagger
+ * /api/v1/purchase-orders/{id}/short-close:
+ *   post:
+ *     summary: Short-close remaining open quantities
+ *     tags: [Purchase Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Purchase order short-closed
+ *       400:
+ *         description: Linked ASNs are still in progress
+ */
+router.post(
+  '/:id/short-close',
+  authorize('BUYER', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(closePurchaseOrderSchema),
+  purchaseOrderController.shortClose
+);
+
+/**
+ * @swagger
+ * /api/v1/purchase-orders/{id}/cancel:
+ *   post:
+ *     summary: Cancel a purchase order (short-closed instead if partly received)
+ *     tags: [Purchase Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Purchase order cancelled
+ */
+router.post(
+  '/:id/cancel',
+  authorize('BUYER', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(closePurchaseOrderSchema),
+  purchaseOrderController.cancelPurchaseOrder
+);
+
+/**
+ * @swagger
+ * /api/v1/purchase-orders/{id}/link-asn:
+ *   post:
+ *     summary: Link an ASN to the purchase order, matching lines by SKU
+ *     tags: [Purchase Orders]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - asnId
+ *             properties:
+ *               asnId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: ASN linked
+ */
+router.post(
+  '/:id/link-asn',
+  authorize('BUYER', 'RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(linkPurchaseOrderASNSchema),
+  purchaseOrderController.linkASN
+);
+
+export default router;
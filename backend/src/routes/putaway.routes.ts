@@ -7,6 +7,20 @@ import {
   assignPutawayTaskSchema,
   completePutawayTaskSchema,
   putawayQuerySchema,
+  createPutawayRuleSchema,
+  updatePutawayRuleSchema,
+  putawayRuleQuerySchema,
+  simulatePutawaySchema,
+  createPutawayBatchesSchema,
+  putawayBatchQuerySchema,
+  completePutawayStopSchema,
+  skipPutawayStopSchema,
+  finishPutawayBatchSchema,
+  checkPutawayOverrideSchema,
+  putawayOverrideReportQuerySchema,
+  cancelPutawayTaskSchema,
+  reconcileCapacitySchema,
+  capacityReconciliationQuerySchema,
 } from '../validators/schemas';
 
 const router = Router();
@@ -47,6 +61,444 @@ router.post(
  */
 router.get('/', validateQuery(putawayQuerySchema), putawayController.getTasks);
 
+/**
+ * @swagger
+ * /api/v1/putaway/rules:
+ *   get:
+ *     summary: Get putaway rules
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Putaway rules retrieved successfully
+ *   post:
+ *     summary: Create a putaway rule
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Putaway rule created
+ */
+router.get(
+  '/rules',
+  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validateQuery(putawayRuleQuerySchema),
+  putawayController.getRules
+);
+router.post(
+  '/rules',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(createPutawayRuleSchema),
+  putawayController.createRule
+);
+
+/**
+ * @swagger
+ * /api/v1/putaway/rules/{id}:
+ *   get:
+ *     summary: Get putaway rule by ID
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Putaway rule retrieved successfully
+ *       404:
+ *         description: Putaway rule not found
+ *   put:
+ *     summary: Update a putaway rule
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Putaway rule updated
+ *   delete:
+ *     summary: Delete a putaway rule
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Putaway rule deleted
+ */
+router.get(
+  '/rules/:id',
+  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  putawayController.getRuleById
+);
+router.put(
+  '/rules/:id',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(updatePutawayRuleSchema),
+  putawayController.updateRule
+);
+router.delete(
+  '/rules/:id',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  putawayController.deleteRule
+);
+
+/**
+ * @swagger
+ * /api/v1/putaway/simulate:
+ *   post:
+ *     summary: Show where a hypothetical receipt would be put away
+ *     description: Runs the putaway rules without creating tasks or reserving capacity
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Simulated destinations with the reasoning for each
+ */
+router.post(
+  '/simulate',
+  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(simulatePutawaySchema),
+  putawayController.simulate
+);
+
+/**
+ * @swagger
+ * /api/v1/putaway/overrides/report:
+ *   get:
+ *     summary: Get putaway override rates per bin or per operator
+ *     description: A bin's rate is overrides away from it over the putaways it was suggested for; an operator's is overrides over putaways completed
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: groupBy
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [location, operator]
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *     responses:
+ *       200:
+ *         description: Override report
+ */
+router.get(
+  '/overrides/report',
+  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validateQuery(putawayOverrideReportQuerySchema),
+  putawayController.getOverrideReport
+);
+
+/**
+ * @swagger
+ * /api/v1/putaway/capacity/reconcile:
+ *   post:
+ *     summary: Reconcile bin capacity for a warehouse
+ *     description: Recomputes stored units from inventory and reserved units, weight and cube from active reservations, correcting and recording any drift
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Reconciliation run with the drift it corrected
+ */
+router.post(
+  '/capacity/reconcile',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(reconcileCapacitySchema),
+  putawayController.reconcileCapacity
+);
+
+/**
+ * @swagger
+ * /api/v1/putaway/capacity/reconciliations:
+ *   get:
+ *     summary: Get capacity reconciliation runs, newest first
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Reconciliation runs
+ */
+router.get(
+  '/capacity/reconciliations',
+  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validateQuery(capacityReconciliationQuerySchema),
+  putawayController.getReconciliations
+);
+
+/**
+ * @swagger
+ * /api/v1/putaway/batches:
+ *   get:
+ *     summary: Get putaway batches with filters
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Putaway batches retrieved successfully
+ *   post:
+ *     summary: Group pending putaway tasks into trips
+ *     description: Groups by destination zone and equipment, fills each trip up to the equipment's capacity and orders its stops by walking distance
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       201:
+ *         description: Putaway batches created
+ */
+router.get('/batches', validateQuery(putawayBatchQuerySchema), putawayController.getBatches);
+router.post(
+  '/batches',
+  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'PLATFORM_ADMIN'),
+  validate(createPutawayBatchesSchema),
+  putawayController.createBatches
+);
+
+/**
+ * @swagger
+ * /api/v1/putaway/batches/{batchId}:
+ *   get:
+ *     summary: Get putaway batch by ID with its stops in walking order
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Putaway batch retrieved successfully
+ *       404:
+ *         description: Putaway batch not found
+ */
+router.get('/batches/:batchId', putawayController.getBatchById);
+
+/**
+ * @swagger
+ * /api/v1/putaway/batches/{batchId}/assign:
+ *   post:
+ *     summary: Assign putaway batch to operator
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Batch assigned successfully
+ */
+router.post(
+  '/batches/:batchId/assign',
+  authorize('WAREHOUSE_MANAGER', 'RECEIVING_SUPERVISOR'),
+  validate(assignPutawayTaskSchema),
+  putawayController.assignBatch
+);
+
+/**
+ * @swagger
+ * /api/v1/putaway/batches/{batchId}/start:
+ *   post:
+ *     summary: Start putaway batch
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Batch started successfully
+ */
+router.post(
+  '/batches/:batchId/start',
+  authorize('PUTAWAY_OPERATOR', 'WAREHOUSE_RECEIVER', 'WAREHOUSE_MANAGER'),
+  putawayController.startBatch
+);
+
+/**
+ * @swagger
+ * /api/v1/putaway/batches/{batchId}/stops/{stopId}/complete:
+ *   post:
+ *     summary: Confirm the putaway at one stop
+ *     description: Confirming fewer units than planned marks the stop partial
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: stopId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Stop completed
+ */
+router.post(
+  '/batches/:batchId/stops/:stopId/complete',
+  authorize('PUTAWAY_OPERATOR', 'WAREHOUSE_RECEIVER', 'WAREHOUSE_MANAGER'),
+  validate(completePutawayStopSchema),
+  putawayController.completeStop
+);
+
+/**
+ * @swagger
+ * /api/v1/putaway/batches/{batchId}/stops/{stopId}/skip:
+ *   post:
+ *     summary: Skip one stop
+ *     description: The stop's task returns to the pending pool for another trip
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: stopId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Stop skipped
+ */
+router.post(
+  '/batches/:batchId/stops/:stopId/skip',
+  authorize('PUTAWAY_OPERATOR', 'WAREHOUSE_RECEIVER', 'WAREHOUSE_MANAGER'),
+  validate(skipPutawayStopSchema),
+  putawayController.skipStop
+);
+
+/**
+ * @swagger
+ * /api/v1/putaway/batches/{batchId}/finish:
+ *   post:
+ *     summary: End a batch, skipping the stops not yet visited
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Batch finished
+ */
+router.post(
+  '/batches/:batchId/finish',
+  authorize('PUTAWAY_OPERATOR', 'WAREHOUSE_RECEIVER', 'WAREHOUSE_MANAGER'),
+  validate(finishPutawayBatchSchema),
+  putawayController.finishBatch
+);
+
+/**
+ * @swagger
+ * /api/v1/putaway/batches/{batchId}/cancel:
+ *   post:
+ *     summary: Cancel a batch that has not started
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: batchId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Batch cancelled
+ */
+router.post(
+  '/batches/:batchId/cancel',
+  authorize('WAREHOUSE_MANAGER', 'RECEIVING_SUPERVISOR'),
+  putawayController.cancelBatch
+);
+
 /**
  * @swagger
  * /api/v1/putaway/{id}/assign:
@@ -98,11 +550,66 @@ router.post(
   putawayController.startTask
 );
 
+/**
+ * @swagger
+ * /api/v1/putaway/{id}/cancel:
+ *   post:
+ *     summary: Cancel putaway task
+ *     description: Releases the bin space reserved for the task
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Task cancelled
+ */
+router.post(
+  '/:id/cancel',
+  authorize('WAREHOUSE_MANAGER', 'RECEIVING_SUPERVISOR'),
+  validate(cancelPutawayTaskSchema),
+  putawayController.cancelTask
+);
+
+/**
+ * @swagger
+ * /api/v1/putaway/{id}/override/check:
+ *   post:
+ *     summary: Check a bin scanned instead of the suggested one
+ *     description: Validates zone compatibility (hazmat, temperature, held stock) and capacity without changing anything
+ *     tags: [Putaway]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Whether the bin can take the task, and why not
+ */
+router.post(
+  '/:id/override/check',
+  authorize('PUTAWAY_OPERATOR', 'WAREHOUSE_RECEIVER', 'WAREHOUSE_MANAGER'),
+  validate(checkPutawayOverrideSchema),
+  putawayController.checkOverride
+);
+
 /**
  * @swagger
  * /api/v1/putaway/{id}/complete:
  *   post:
  *     summary: Complete putaway task
+ *     description: Pass override with a location code and reason code to put away in a different bin than the one suggested
  *     tags: [Putaway]
  *     security:
  *       - bearerAuth: []
@@ -0,0 +1,295 @@
+import { Router } from 'express';
+import * as qaInspectionController from '../controllers/qaInspection.controller';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validate';
+import {
+  createInspectionPlanSchema,
+  updateInspectionPlanSchema,
+  recordInspectionResultSchema,
+  qaInspectionQuerySchema,
+} from '../validators/schemas';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/v1/qa-inspections/plans:
+ *   post:
+ *     summary: Create an inspection plan for a SKU, supplier or the whole tenant
+ *     tags: [QA Inspections]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scope
+ *               - samplingRules
+ *               - checklist
+ *             properties:
+ *               name:
+ *                 type: string
+ *               scope:
+ *                 type: string
+ *                 enum: [TENANT, SUPPLIER, SKU]
+ *               supplierId:
+ *                 type: string
+ *               skuId:
+ *                 type: string
+ *               aqlLevel:
+ *                 type: number
+ *               samplingRules:
+ *                 type: array
+ *                 description: Lot-size brackets; maxLotSize null covers every larger lot
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     maxLotSize:
+ *                       type: number
+ *                       nullable: true
+ *                     sampleSize:
+ *                       type: integer
+ *                     acceptNumber:
+ *                       type: integer
+ *                     rejectNumber:
+ *                       type: integer
+ *               checklist:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     code:
+ *                       type: string
+ *                     description:
+ *                       type: string
+ *                     required:
+ *                       type: boolean
+ *               requirePhotos:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Inspection plan created successfully
+ *       409:
+ *         description: An active plan already exists for this scope and target
+ */
+router.post(
+  '/plans',
+  authorize('QA_INSPECTOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(createInspectionPlanSchema),
+  qaInspectionController.createPlan
+);
+
+/**
+ * @swagger
+ * /api/v1/qa-inspections/plans:
+ *   get:
+ *     summary: Get inspection plans
+ *     tags: [QA Inspections]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Inspection plans retrieved successfully
+ */
+router.get('/plans', qaInspectionController.getPlans);
+
+/**
+ * @swagger
+ * /api/v1/qa-inspections/plans/{id}:
+ *   get:
+ *     summary: Get inspection plan by ID
+ *     tags: [QA Inspections]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Inspection plan retrieved successfully
+ *       404:
+ *         description: Inspection plan not found
+ */
+router.get('/plans/:id', qaInspectionController.getPlanById);
+
+/**
+ * @swagger
+ * /api/v1/qa-inspections/plans/{id}:
+ *   patch:
+ *     summary: Update sampling, checklist or photo requirements of a plan
+ *     tags: [QA Inspections]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Inspection plan updated successfully
+ */
+router.patch(
+  '/plans/:id',
+  authorize('QA_INSPECTOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(updateInspectionPlanSchema),
+  qaInspectionController.updatePlan
+);
+
+/**
+ * @swagger
+ * /api/v1/qa-inspections/plans/{id}:
+ *   delete:
+ *     summary: Deactivate an inspection plan
+ *     tags: [QA Inspections]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Inspection plan deactivated
+ */
+router.delete(
+  '/plans/:id',
+  authorize('QA_INSPECTOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  qaInspectionController.deactivatePlan
+);
+
+/**
+ * @swagger
+ * /api/v1/qa-inspections:
+ *   get:
+ *     summary: Get inspections with filters
+ *     tags: [QA Inspections]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [PENDING, IN_PROGRESS, COMPLETED, CANCELLED]
+ *       - in: query
+ *         name: result
+ *         schema:
+ *           type: string
+ *           enum: [PASS, FAIL, CONDITIONAL]
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: Inspection, SKU, batch, ASN or receipt number contains
+ *     responses:
+ *       200:
+ *         description: Inspections retrieved successfully
+ */
+router.get(
+  '/',
+  validateQuery(qaInspectionQuerySchema),
+  qaInspectionController.getInspections
+);
+
+/**
+ * @swagger
+ * /api/v1/qa-inspections/{id}:
+ *   get:
+ *     summary: Get inspection with sampling plan and checklist
+ *     tags: [QA Inspections]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Inspection retrieved successfully
+ *       404:
+ *         description: Inspection not found
+ */
+router.get('/:id', qaInspectionController.getInspectionById);
+
+/**
+ * @swagger
+ * /api/v1/qa-inspections/{id}/start:
+ *   post:
+ *     summary: Start an inspection
+ *     tags: [QA Inspections]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Inspection started
+ */
+router.post(
+  '/:id/start',
+  authorize('QA_INSPECTOR', 'RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  qaInspectionController.startInspection
+);
+
+/**
+ * @swagger
+ * /api/v1/qa-inspections/{id}/result:
+ *   post:
+ *     summary: Record the result; release feeds putaway, failure raises a quality variance
+ *     tags: [QA Inspections]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - result
+ *               - quantityInspected
+ *               - defectsFound
+ *             properties:
+ *               result:
+ *                 type: string
+ *                 enum: [PASS, FAIL, CONDITIONAL]
+ *               quantityInspected:
+ *                 type: integer
+ *               defectsFound:
+ *                 type: integer
+ *               checklistResults:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     code:
+ *                       type: string
+ *                     passed:
+ *                       type: boolean
+ *                     notes:
+ *                       type: string
+ *               photoUrls:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *               releasedQuantity:
+ *                 type: number
+ *                 description: Quantity released on a conditional release
+ *               releaseConditions:
+ *                 type: string
+ *               sourceLocationId:
+ *                 type: string
+ *                 description: Staging location the released stock is put away from
+ *     responses:
+ *       200:
+ *         description: Result recorded
+ *       400:
+ *         description: Sample incomplete, checklist unanswered or result contradicts findings
+ */
+router.post(
+  '/:id/result',
+  authorize('QA_INSPECTOR', 'RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(recordInspectionResultSchema),
+  qaInspectionController.recordResult
+);
+
+export default router;
@@ -0,0 +1,242 @@
+import { Router } from 'express';
+import * as returnAuthorizationController from '../controllers/returnAuthorization.controller';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validate';
+import {
+  createReturnAuthorizationSchema,
+  receiveReturnUnitsSchema,
+  gradeReturnUnitsSchema,
+  completeDisposalTaskSchema,
+  returnAuthorizationQuerySchema,
+  disposalTaskQuerySchema,
+} from '../validators/schemas';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/v1/returns:
+ *   post:
+ *     summary: Authorize a customer return against shipped order lines
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - orderId
+ *               - returnReason
+ *               - lines
+ *             properties:
+ *               orderId:
+ *                 type: string
+ *               shipmentId:
+ *                 type: string
+ *               returnReason:
+ *                 type: string
+ *               expiresAt:
+ *                 type: string
+ *                 format: date-time
+ *               lines:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     orderLineId:
+ *                       type: string
+ *                     quantity:
+ *                       type: number
+ *                     reasonCode:
+ *                       type: string
+ *                     serialNumbers:
+ *                       type: array
+ *                       items:
+ *                         type: string
+ *     responses:
+ *       201:
+ *         description: Return authorized successfully
+ *       400:
+ *         description: Quantity exceeds what was shipped and not yet returned
+ */
+router.post(
+  '/',
+  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(createReturnAuthorizationSchema),
+  returnAuthorizationController.createReturnAuthorization
+);
+
+/**
+ * @swagger
+ * /api/v1/returns:
+ *   get:
+ *     summary: Get return authorizations with filters
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [AUTHORIZED, RECEIVING, RECEIVED, CLOSED, CANCELLED]
+ *       - in: query
+ *         name: search
+ *         schema:
+ *           type: string
+ *         description: RMA number, tracking number or order number
+ *     responses:
+ *       200:
+ *         description: Return authorizations retrieved successfully
+ */
+router.get(
+  '/',
+  validateQuery(returnAuthorizationQuerySchema),
+  returnAuthorizationController.getReturnAuthorizations
+);
+
+/**
+ * @swagger
+ * /api/v1/returns/disposal-tasks:
+ *   get:
+ *     summary: Get scrap and return-to-vendor tasks
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Disposal tasks retrieved successfully
+ */
+router.get(
+  '/disposal-tasks',
+  validateQuery(disposalTaskQuerySchema),
+  returnAuthorizationController.getDisposalTasks
+);
+
+/**
+ * @swagger
+ * /api/v1/returns/disposal-tasks/{taskId}/complete:
+ *   post:
+ *     summary: Confirm units were scrapped or shipped back to the vendor
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Disposal task completed
+ */
+router.post(
+  '/disposal-tasks/:taskId/complete',
+  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(completeDisposalTaskSchema),
+  returnAuthorizationController.completeDisposalTask
+);
+
+/**
+ * @swagger
+ * /api/v1/returns/{id}:
+ *   get:
+ *     summary: Get return authorization with received units and dispositions
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Return authorization retrieved successfully
+ *       404:
+ *         description: Return authorization not found
+ */
+router.get('/:id', returnAuthorizationController.getReturnAuthorizationById);
+
+/**
+ * @swagger
+ * /api/v1/returns/{id}/cancel:
+ *   post:
+ *     summary: Cancel a return authorization before anything is received
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Return authorization cancelled
+ */
+router.post(
+  '/:id/cancel',
+  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  returnAuthorizationController.cancelReturnAuthorization
+);
+
+/**
+ * @swagger
+ * /api/v1/returns/{id}/receive:
+ *   post:
+ *     summary: Receive returned units, optionally grading them at the same time
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - receivingLocationId
+ *               - units
+ *             properties:
+ *               receivingLocationId:
+ *                 type: string
+ *               units:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     returnLineId:
+ *                       type: string
+ *                     quantity:
+ *                       type: number
+ *                     serialNumber:
+ *                       type: string
+ *                     condition:
+ *                       type: string
+ *                       enum: [GOOD, DAMAGED, EXPIRED, UNKNOWN]
+ *                     grade:
+ *                       type: string
+ *                       enum: [RESTOCK, REFURBISH, QUARANTINE, SCRAP, RETURN_TO_VENDOR]
+ *     responses:
+ *       200:
+ *         description: Units received
+ */
+router.post(
+  '/:id/receive',
+  authorize('WAREHOUSE_RECEIVER', 'RECEIVING_SUPERVISOR', 'QA_INSPECTOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(receiveReturnUnitsSchema),
+  returnAuthorizationController.receiveUnits
+);
+
+/**
+ * @swagger
+ * /api/v1/returns/{id}/grade:
+ *   post:
+ *     summary: Grade received units; creates putaway or disposal tasks by grade
+ *     tags: [Returns]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Units graded
+ */
+router.post(
+  '/:id/grade',
+  authorize('RECEIVING_SUPERVISOR', 'QA_INSPECTOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(gradeReturnUnitsSchema),
+  returnAuthorizationController.gradeUnits
+);
+
+export default router;
@@ -0,0 +1,318 @@
+import { Router } from 'express';
+import * as supplierClaimController from '../controllers/supplierClaim.controller';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validate';
+import {
+  generateSupplierClaimsSchema,
+  overrideClaimLineCostSchema,
+  sendSupplierClaimSchema,
+  disputeSupplierClaimSchema,
+  creditSupplierClaimSchema,
+  supplierClaimQuerySchema,
+} from '../validators/schemas';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+router.use(authorize('BUYER', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'));
+
+/**
+ * @swagger
+ * /api/v1/supplier-claims:
+ *   get:
+ *     summary: Get supplier claims
+ *     tags: [Supplier Claims]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [DRAFT, SENT, ACKNOWLEDGED, CREDITED, DISPUTED]
+ *       - in: query
+ *         name: supplierId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: asnId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Claims retrieved successfully
+ */
+router.get(
+  '/',
+  validateQuery(supplierClaimQuerySchema),
+  supplierClaimController.getClaims
+);
+
+/**
+ * @swagger
+ * /api/v1/supplier-claims/outstanding:
+ *   get:
+ *     summary: Get outstanding claim value per supplier
+ *     tags: [Supplier Claims]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Outstanding claims report
+ */
+router.get('/outstanding', supplierClaimController.getOutstanding);
+
+/**
+ * @swagger
+ * /api/v1/supplier-claims/generate:
+ *   post:
+ *     summary: Draft claims for approved variances not yet on a claim
+ *     tags: [Supplier Claims]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               warehouseId:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Claims drafted
+ */
+router.post(
+  '/generate',
+  validate(generateSupplierClaimsSchema),
+  supplierClaimController.generateClaims
+);
+
+/**
+ * @swagger
+ * /api/v1/supplier-claims/{id}:
+ *   get:
+ *     summary: Get supplier claim by ID
+ *     tags: [Supplier Claims]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Claim retrieved successfully
+ *       404:
+ *         description: Claim not found
+ */
+router.get('/:id', supplierClaimController.getClaimById);
+
+/**
+ * @swagger
+ * /api/v1/supplier-claims/{id}/lines/{lineId}:
+ *   patch:
+ *     summary: Override a claim line's unit cost
+ *     tags: [Supplier Claims]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *       - in: path
+ *         name: lineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [unitCost, reason]
+ *             properties:
+ *               unitCost:
+ *                 type: number
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Line revalued
+ *       400:
+ *         description: Claim is not a draft or disputed
+ */
+router.patch(
+  '/:id/lines/:lineId',
+  validate(overrideClaimLineCostSchema),
+  supplierClaimController.overrideLineCost
+);
+
+/**
+ * @swagger
+ * /api/v1/supplier-claims/{id}/send:
+ *   post:
+ *     summary: Send a claim to the supplier and issue its debit note
+ *     tags: [Supplier Claims]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               notes:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Claim sent
+ */
+router.post(
+  '/:id/send',
+  validate(sendSupplierClaimSchema),
+  supplierClaimController.sendClaim
+);
+
+/**
+ * @swagger
+ * /api/v1/supplier-claims/{id}/acknowledge:
+ *   post:
+ *     summary: Record the supplier's acknowledgement
+ *     tags: [Supplier Claims]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Claim acknowledged
+ */
+router.post('/:id/acknowledge', supplierClaimController.acknowledgeClaim);
+
+/**
+ * @swagger
+ * /api/v1/supplier-claims/{id}/dispute:
+ *   post:
+ *     summary: Record a supplier dispute
+ *     tags: [Supplier Claims]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [reason]
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Claim disputed
+ */
+router.post(
+  '/:id/dispute',
+  validate(disputeSupplierClaimSchema),
+  supplierClaimController.disputeClaim
+);
+
+/**
+ * @swagger
+ * /api/v1/supplier-claims/{id}/credit:
+ *   post:
+ *     summary: Record the supplier's credit and close the claim
+ *     tags: [Supplier Claims]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [creditedAmount]
+ *             properties:
+ *               creditedAmount:
+ *                 type: number
+ *               creditReference:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Claim credited
+ */
+router.post(
+  '/:id/credit',
+  validate(creditSupplierClaimSchema),
+  supplierClaimController.creditClaim
+);
+
+/**
+ * @swagger
+ * /api/v1/supplier-claims/{id}/debit-note:
+ *   get:
+ *     summary: Download a sent claim's debit note as PDF
+ *     tags: [Supplier Claims]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Debit note PDF
+ *       400:
+ *         description: Claim has not been sent
+ */
+router.get('/:id/debit-note', supplierClaimController.getDebitNote);
+
+export default router;
@@ -0,0 +1,154 @@
+import { Router } from 'express';
+import * as supplierScorecardController from '../controllers/supplierScorecard.controller';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validate';
+import {
+  updateScorecardConfigSchema,
+  scorecardQuerySchema,
+  scorecardExportQuerySchema,
+} from '../validators/schemas';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+router.use(authorize('BUYER', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'));
+
+/**
+ * @swagger
+ * /api/v1/supplier-scorecards:
+ *   get:
+ *     summary: Get scorecards for all suppliers, ranked by composite score
+ *     tags: [Supplier Scorecards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to 90 days before dateTo
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Scorecards retrieved successfully
+ */
+router.get(
+  '/',
+  validateQuery(scorecardQuerySchema),
+  supplierScorecardController.getScorecards
+);
+
+/**
+ * @swagger
+ * /api/v1/supplier-scorecards/config:
+ *   get:
+ *     summary: Get composite score weights
+ *     tags: [Supplier Scorecards]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Weights retrieved successfully
+ */
+router.get('/config', supplierScorecardController.getConfig);
+
+/**
+ * @swagger
+ * /api/v1/supplier-scorecards/config:
+ *   put:
+ *     summary: Update composite score weights
+ *     tags: [Supplier Scorecards]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               onTimeWeight:
+ *                 type: integer
+ *               fillRateWeight:
+ *                 type: integer
+ *               damageWeight:
+ *                 type: integer
+ *               wrongItemWeight:
+ *                 type: integer
+ *               temperatureWeight:
+ *                 type: integer
+ *               labellingWeight:
+ *                 type: integer
+ *               onTimeGraceHours:
+ *                 type: integer
+ *     responses:
+ *       200:
+ *         description: Weights updated successfully
+ */
+router.put(
+  '/config',
+  authorize('BUYER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(updateScorecardConfigSchema),
+  supplierScorecardController.updateConfig
+);
+
+/**
+ * @swagger
+ * /api/v1/supplier-scorecards/export:
+ *   get:
+ *     summary: Export scorecards as CSV or PDF
+ *     tags: [Supplier Scorecards]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, pdf]
+ *       - in: query
+ *         name: supplierId
+ *         schema:
+ *           type: string
+ *         description: Export one supplier's trend instead of the ranking
+ *     responses:
+ *       200:
+ *         description: Export file
+ */
+router.get(
+  '/export',
+  validateQuery(scorecardExportQuerySchema),
+  supplierScorecardController.exportScorecards
+);
+
+/**
+ * @swagger
+ * /api/v1/supplier-scorecards/{supplierId}:
+ *   get:
+ *     summary: Get a supplier scorecard with weekly and monthly trends
+ *     tags: [Supplier Scorecards]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Scorecard retrieved successfully
+ *       404:
+ *         description: Supplier not found
+ */
+router.get(
+  '/:supplierId',
+  validateQuery(scorecardQuerySchema),
+  supplierScorecardController.getSupplierScorecard
+);
+
+export default router;
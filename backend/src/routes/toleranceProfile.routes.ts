@@ -0,0 +1,180 @@
+import { Router } from 'express';
+import * as toleranceProfileController from '../controllers/toleranceProfile.controller';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  createToleranceProfileSchema,
+  updateToleranceProfileSchema,
+  simulateToleranceSchema,
+} from '../validators/schemas';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/v1/tolerance-profiles:
+ *   post:
+ *     summary: Create a tolerance profile
+ *     tags: [Tolerance Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - scope
+ *             properties:
+ *               scope:
+ *                 type: string
+ *                 enum: [TENANT, SUPPLIER, SKU_CATEGORY, SKU]
+ *               supplierId:
+ *                 type: string
+ *               skuCategory:
+ *                 type: string
+ *               skuId:
+ *                 type: string
+ *               autoAcceptOverPercent:
+ *                 type: number
+ *               autoAcceptUnderPercent:
+ *                 type: number
+ *               autoAcceptQuantity:
+ *                 type: number
+ *               autoAcceptValue:
+ *                 type: number
+ *               overTolerancePercent:
+ *                 type: number
+ *               underTolerancePercent:
+ *                 type: number
+ *               toleranceQuantity:
+ *                 type: number
+ *               toleranceValue:
+ *                 type: number
+ *     responses:
+ *       201:
+ *         description: Tolerance profile created successfully
+ *       409:
+ *         description: An active profile already exists for this scope and target
+ */
+router.post(
+  '/',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(createToleranceProfileSchema),
+  toleranceProfileController.createProfile
+);
+
+/**
+ * @swagger
+ * /api/v1/tolerance-profiles:
+ *   get:
+ *     summary: Get tolerance profiles
+ *     tags: [Tolerance Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: scope
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: includeInactive
+ *         schema:
+ *           type: boolean
+ *     responses:
+ *       200:
+ *         description: Tolerance profiles retrieved successfully
+ */
+router.get('/', toleranceProfileController.getProfiles);
+
+/**
+ * @swagger
+ * /api/v1/tolerance-profiles/defaults:
+ *   get:
+ *     summary: Get the rules applied when no profile matches
+ *     tags: [Tolerance Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Default rules retrieved successfully
+ */
+router.get('/defaults', toleranceProfileController.getDefaultRules);
+
+/**
+ * @swagger
+ * /api/v1/tolerance-profiles/simulate:
+ *   post:
+ *     summary: Preview the tolerance outcome for a SKU and quantity
+ *     tags: [Tolerance Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Evaluation with the resolved profile
+ */
+router.post(
+  '/simulate',
+  validate(simulateToleranceSchema),
+  toleranceProfileController.simulate
+);
+
+/**
+ * @swagger
+ * /api/v1/tolerance-profiles/{id}:
+ *   get:
+ *     summary: Get tolerance profile by ID
+ *     tags: [Tolerance Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tolerance profile retrieved successfully
+ *       404:
+ *         description: Tolerance profile not found
+ */
+router.get('/:id', toleranceProfileController.getProfileById);
+
+/**
+ * @swagger
+ * /api/v1/tolerance-profiles/{id}:
+ *   patch:
+ *     summary: Update a tolerance profile
+ *     tags: [Tolerance Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tolerance profile updated successfully
+ */
+router.patch(
+  '/:id',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(updateToleranceProfileSchema),
+  toleranceProfileController.updateProfile
+);
+
+/**
+ * @swagger
+ * /api/v1/tolerance-profiles/{id}:
+ *   delete:
+ *     summary: Deactivate a tolerance profile
+ *     tags: [Tolerance Profiles]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Tolerance profile deactivated successfully
+ */
+router.delete(
+  '/:id',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  toleranceProfileController.deactivateProfile
+);
+
+export default router;
@@ -5,8 +5,11 @@ import { validate, validateQuery } from '../middleware/validate';
 import {
   resolveVarianceSchema,
   rejectVarianceSchema,
+  reverseVarianceResolutionSchema,
   escalateVarianceSchema,
   varianceQuerySchema,
+  updateVarianceSlaPolicySchema,
+  varianceSlaMetricsQuerySchema,
 } from '../validators/schemas';
 
 const router = Router();
@@ -50,6 +53,141 @@ router.get(
   varianceController.getSupplierVarianceReport
 );
 
+/**
+ * @swagger
+ * /api/v1/variances/reports/temperature-excursions:
+ *   get:
+ *     summary: Get temperature excursions at receipt, grouped by supplier and carrier
+ *     tags: [Variances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date
+ *     responses:
+ *       200:
+ *         description: Temperature excursion report retrieved successfully
+ */
+router.get(
+  '/reports/temperature-excursions',
+  authorize('RECEIVING_SUPERVISOR', 'QA_INSPECTOR', 'WAREHOUSE_MANAGER', 'BUYER', 'PLATFORM_ADMIN'),
+  varianceController.getTemperatureExcursionReport
+);
+
+/**
+ * @swagger
+ * /api/v1/variances/sla/policies:
+ *   get:
+ *     summary: Get resolution SLA policies for every priority
+ *     tags: [Variances]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: SLA policies retrieved successfully
+ */
+router.get(
+  '/sla/policies',
+  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  varianceController.getSlaPolicies
+);
+
+/**
+ * @swagger
+ * /api/v1/variances/sla/policies/{priority}:
+ *   put:
+ *     summary: Update the resolution SLA for a priority
+ *     tags: [Variances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: priority
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [LOW, STANDARD, NORMAL, MEDIUM, HIGH, URGENT, CRITICAL]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               resolutionMinutes:
+ *                 type: integer
+ *               warningMinutes:
+ *                 type: integer
+ *                 description: How long before the deadline approvers are warned
+ *               isActive:
+ *                 type: boolean
+ *     responses:
+ *       200:
+ *         description: SLA policy updated
+ */
+router.put(
+  '/sla/policies/:priority',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(updateVarianceSlaPolicySchema),
+  varianceController.updateSlaPolicy
+);
+
+/**
+ * @swagger
+ * /api/v1/variances/sla/alerts:
+ *   get:
+ *     summary: Get SLA warnings and breaches for variances assigned to the current user
+ *     tags: [Variances]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: SLA alerts retrieved successfully
+ */
+router.get('/sla/alerts', varianceController.getSlaAlerts);
+
+/**
+ * @swagger
+ * /api/v1/variances/sla/metrics:
+ *   get:
+ *     summary: Get SLA breach metrics
+ *     tags: [Variances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: SLA metrics retrieved successfully
+ */
+router.get(
+  '/sla/metrics',
+  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validateQuery(varianceSlaMetricsQuerySchema),
+  varianceController.getSlaMetrics
+);
+
 /**
  * @swagger
  * /api/v1/variances:
@@ -92,6 +230,12 @@ router.get('/:id', varianceController.getVarianceById);
  * /api/v1/variances/{id}/approve:
  *   post:
  *     summary: Approve variance
+ *     description: >
+ *       Records an approval at the current step of the variance's approval
+ *       chain. Once every step has signed off the resolution is applied:
+ *       ADJUST_QUANTITY corrects the receipt line, RETURN_TO_SUPPLIER and
+ *       WRITE_OFF reject the given quantity, open a disposal task and take
+ *       the units back out of putaway or stock.
  *     tags: [Variances]
  *     security:
  *       - bearerAuth: []
@@ -102,13 +246,35 @@ router.get('/:id', varianceController.getVarianceById);
  *         schema:
  *           type: string
  *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - resolutionAction
+ *               - supervisorNotes
+ *             properties:
+ *               resolutionAction:
+ *                 type: string
+ *                 enum: [APPROVE_AS_IS, ADJUST_QUANTITY, RETURN_TO_SUPPLIER, WRITE_OFF]
+ *               supervisorNotes:
+ *                 type: string
+ *               adjustedQuantity:
+ *                 type: number
+ *               quantity:
+ *                 type: number
+ *                 description: Units to return or write off; defaults to the variance quantity
+ *               supplierId:
+ *                 type: string
+ *                 description: Supplier to return to when it cannot be taken from the ASN or SKU
  *     responses:
  *       200:
  *         description: Variance approved successfully
  */
 router.post(
   '/:id/approve',
-  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'PLATFORM_ADMIN'),
   validate(resolveVarianceSchema),
   varianceController.approveVariance
 );
@@ -118,6 +284,7 @@ router.post(
  * /api/v1/variances/{id}/reject:
  *   post:
  *     summary: Reject variance
+ *     description: Any approver at the current step of the variance's approval chain may reject it.
  *     tags: [Variances]
  *     security:
  *       - bearerAuth: []
@@ -134,11 +301,72 @@ router.post(
  */
 router.post(
   '/:id/reject',
-  authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'PLATFORM_ADMIN'),
   validate(rejectVarianceSchema),
   varianceController.rejectVariance
 );
 
+/**
+ * @swagger
+ * /api/v1/variances/{id}/resolutions:
+ *   get:
+ *     summary: Get the resolutions applied to a variance and their side effects
+ *     tags: [Variances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Resolutions, newest first
+ */
+router.get('/:id/resolutions', varianceController.getResolutions);
+
+/**
+ * @swagger
+ * /api/v1/variances/{id}/reverse:
+ *   post:
+ *     summary: Reverse a variance resolution
+ *     description: >
+ *       Undoes the latest approval or rejection and reopens the variance.
+ *       Fails once a disposal task is completed, a shortened putaway task has
+ *       started or the variance's supplier claim has been sent.
+ *     tags: [Variances]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - reason
+ *             properties:
+ *               reason:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Variance resolution reversed
+ */
+router.post(
+  '/:id/reverse',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(reverseVarianceResolutionSchema),
+  varianceController.reverseResolution
+);
+
 /**
  * @swagger
  * /api/v1/variances/{id}/escalate:
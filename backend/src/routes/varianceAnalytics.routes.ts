@@ -0,0 +1,556 @@
+import { Router } from 'express';
+import * as varianceAnalyticsController from '../controllers/varianceAnalytics.controller';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate, validateQuery } from '../middleware/validate';
+import {
+  varianceParetoQuerySchema,
+  varianceTrendQuerySchema,
+  varianceDrillDownQuerySchema,
+  varianceAnalyticsExportQuerySchema,
+  varianceReportExportQuerySchema,
+  createReceivingShiftSchema,
+  updateReceivingShiftSchema,
+  createVarianceReportSchema,
+  updateVarianceReportSchema,
+} from '../validators/schemas';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+router.use(authorize('RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'BUYER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'));
+
+/**
+ * @swagger
+ * /api/v1/variance-analytics/pareto:
+ *   get:
+ *     summary: Pareto breakdown of variances by reason code, type, SKU, supplier, carrier, receiver or shift
+ *     tags: [Variance Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to periodDays (90) before dateTo
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: receiptType
+ *         schema:
+ *           type: string
+ *           enum: [ASN, BLIND]
+ *       - in: query
+ *         name: varianceTypes
+ *         schema:
+ *           type: string
+ *         description: Comma-separated variance types
+ *       - in: query
+ *         name: dimension
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [REASON_CODE, VARIANCE_TYPE, SKU, SUPPLIER, CARRIER, RECEIVER, SHIFT]
+ *       - in: query
+ *         name: metric
+ *         schema:
+ *           type: string
+ *           enum: [COUNT, QUANTITY, VALUE]
+ *     responses:
+ *       200:
+ *         description: Keys ranked by the metric with share and cumulative share
+ */
+router.get(
+  '/pareto',
+  validateQuery(varianceParetoQuerySchema),
+  varianceAnalyticsController.getPareto
+);
+
+/**
+ * @swagger
+ * /api/v1/variance-analytics/trends:
+ *   get:
+ *     summary: Variance trend per day, week or month
+ *     description: With a dimension, each period also breaks the metric down by the top five keys.
+ *     tags: [Variance Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to periodDays (90) before dateTo
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: receiptType
+ *         schema:
+ *           type: string
+ *           enum: [ASN, BLIND]
+ *       - in: query
+ *         name: varianceTypes
+ *         schema:
+ *           type: string
+ *         description: Comma-separated variance types
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: string
+ *           enum: [DAY, WEEK, MONTH]
+ *       - in: query
+ *         name: dimension
+ *         schema:
+ *           type: string
+ *           enum: [REASON_CODE, VARIANCE_TYPE, SKU, SUPPLIER, CARRIER, RECEIVER, SHIFT]
+ *       - in: query
+ *         name: metric
+ *         schema:
+ *           type: string
+ *           enum: [COUNT, QUANTITY, VALUE]
+ *     responses:
+ *       200:
+ *         description: Trend points
+ */
+router.get(
+  '/trends',
+  validateQuery(varianceTrendQuerySchema),
+  varianceAnalyticsController.getTrends
+);
+
+/**
+ * @swagger
+ * /api/v1/variance-analytics/variances:
+ *   get:
+ *     summary: Drill down to the variances behind one key of a breakdown
+ *     tags: [Variance Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to periodDays (90) before dateTo
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: receiptType
+ *         schema:
+ *           type: string
+ *           enum: [ASN, BLIND]
+ *       - in: query
+ *         name: varianceTypes
+ *         schema:
+ *           type: string
+ *         description: Comma-separated variance types
+ *       - in: query
+ *         name: dimension
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [REASON_CODE, VARIANCE_TYPE, SKU, SUPPLIER, CARRIER, RECEIVER, SHIFT]
+ *       - in: query
+ *         name: key
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The key returned by the Pareto breakdown
+ *       - in: query
+ *         name: page
+ *         schema:
+ *           type: integer
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *     responses:
+ *       200:
+ *         description: Matching variances, newest first
+ */
+router.get(
+  '/variances',
+  validateQuery(varianceDrillDownQuerySchema),
+  varianceAnalyticsController.getDrillDown
+);
+
+/**
+ * @swagger
+ * /api/v1/variance-analytics/export:
+ *   get:
+ *     summary: Export a Pareto breakdown, trend or variance list as CSV
+ *     tags: [Variance Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: dateFrom
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *         description: Defaults to periodDays (90) before dateTo
+ *       - in: query
+ *         name: dateTo
+ *         schema:
+ *           type: string
+ *           format: date-time
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: receiptType
+ *         schema:
+ *           type: string
+ *           enum: [ASN, BLIND]
+ *       - in: query
+ *         name: varianceTypes
+ *         schema:
+ *           type: string
+ *         description: Comma-separated variance types
+ *       - in: query
+ *         name: view
+ *         required: true
+ *         schema:
+ *           type: string
+ *           enum: [pareto, trends, variances]
+ *       - in: query
+ *         name: dimension
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: metric
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: interval
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: key
+ *         schema:
+ *           type: string
+ *         description: With dimension, limits the variance list to one key
+ *     responses:
+ *       200:
+ *         description: CSV file
+ */
+router.get(
+  '/export',
+  validateQuery(varianceAnalyticsExportQuerySchema),
+  varianceAnalyticsController.exportAnalytics
+);
+
+/**
+ * @swagger
+ * /api/v1/variance-analytics/shifts:
+ *   get:
+ *     summary: Get receiving shifts used for the shift breakdown
+ *     description: Without configured shifts, Day (06-14), Evening (14-22) and Night (22-06) UTC are used.
+ *     tags: [Variance Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: warehouseId
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Receiving shifts
+ */
+router.get('/shifts', varianceAnalyticsController.getShifts);
+
+/**
+ * @swagger
+ * /api/v1/variance-analytics/shifts:
+ *   post:
+ *     summary: Create a receiving shift
+ *     description: A shift ending before it starts runs past midnight. Warehouse shifts replace tenant-wide ones for that warehouse.
+ *     tags: [Variance Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - startTime
+ *               - endTime
+ *             properties:
+ *               warehouseId:
+ *                 type: string
+ *               name:
+ *                 type: string
+ *               startTime:
+ *                 type: string
+ *                 example: '06:00'
+ *               endTime:
+ *                 type: string
+ *                 example: '14:00'
+ *               timezone:
+ *                 type: string
+ *                 example: Europe/London
+ *     responses:
+ *       201:
+ *         description: Shift created
+ */
+router.post(
+  '/shifts',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(createReceivingShiftSchema),
+  varianceAnalyticsController.createShift
+);
+
+/**
+ * @swagger
+ * /api/v1/variance-analytics/shifts/{id}:
+ *   put:
+ *     summary: Update a receiving shift
+ *     tags: [Variance Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shift updated
+ */
+router.put(
+  '/shifts/:id',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(updateReceivingShiftSchema),
+  varianceAnalyticsController.updateShift
+);
+
+/**
+ * @swagger
+ * /api/v1/variance-analytics/shifts/{id}:
+ *   delete:
+ *     summary: Delete a receiving shift
+ *     tags: [Variance Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Shift deleted
+ */
+router.delete(
+  '/shifts/:id',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  varianceAnalyticsController.deleteShift
+);
+
+/**
+ * @swagger
+ * /api/v1/variance-analytics/reports:
+ *   get:
+ *     summary: Get your saved reports and reports shared in the tenant
+ *     tags: [Variance Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     responses:
+ *       200:
+ *         description: Saved reports
+ */
+router.get('/reports', varianceAnalyticsController.getReports);
+
+/**
+ * @swagger
+ * /api/v1/variance-analytics/reports:
+ *   post:
+ *     summary: Save a report definition
+ *     tags: [Variance Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - name
+ *               - dimension
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               dimension:
+ *                 type: string
+ *                 enum: [REASON_CODE, VARIANCE_TYPE, SKU, SUPPLIER, CARRIER, RECEIVER, SHIFT]
+ *               metric:
+ *                 type: string
+ *                 enum: [COUNT, QUANTITY, VALUE]
+ *               interval:
+ *                 type: string
+ *                 enum: [DAY, WEEK, MONTH]
+ *               filters:
+ *                 type: object
+ *                 description: warehouseId, receiptType, varianceTypes, statuses, and periodDays or dateFrom/dateTo
+ *               isShared:
+ *                 type: boolean
+ *     responses:
+ *       201:
+ *         description: Report saved
+ */
+router.post(
+  '/reports',
+  validate(createVarianceReportSchema),
+  varianceAnalyticsController.createReport
+);
+
+/**
+ * @swagger
+ * /api/v1/variance-analytics/reports/{id}:
+ *   get:
+ *     summary: Get a saved report definition
+ *     tags: [Variance Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Report definition
+ */
+router.get('/reports/:id', varianceAnalyticsController.getReportById);
+
+/**
+ * @swagger
+ * /api/v1/variance-analytics/reports/{id}:
+ *   put:
+ *     summary: Update a saved report
+ *     description: Only the owner or an admin may change a report.
+ *     tags: [Variance Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Report updated
+ */
+router.put(
+  '/reports/:id',
+  validate(updateVarianceReportSchema),
+  varianceAnalyticsController.updateReport
+);
+
+/**
+ * @swagger
+ * /api/v1/variance-analytics/reports/{id}:
+ *   delete:
+ *     summary: Delete a saved report
+ *     tags: [Variance Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Report deleted
+ */
+router.delete('/reports/:id', varianceAnalyticsController.deleteReport);
+
+/**
+ * @swagger
+ * /api/v1/variance-analytics/reports/{id}/run:
+ *   get:
+ *     summary: Run a saved report
+ *     tags: [Variance Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The report with its Pareto breakdown and trend
+ */
+router.get('/reports/:id/run', varianceAnalyticsController.runReport);
+
+/**
+ * @swagger
+ * /api/v1/variance-analytics/reports/{id}/export:
+ *   get:
+ *     summary: Export a saved report as CSV
+ *     tags: [Variance Analytics]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: view
+ *         schema:
+ *           type: string
+ *           enum: [pareto, trends, variances]
+ *     responses:
+ *       200:
+ *         description: CSV file
+ */
+router.get(
+  '/reports/:id/export',
+  validateQuery(varianceReportExportQuerySchema),
+  varianceAnalyticsController.exportReport
+);
+
+export default router;
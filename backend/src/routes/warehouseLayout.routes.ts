@@ -0,0 +1,138 @@
+import { Router } from 'express';
+import * as warehouseLayoutController from '../controllers/warehouseLayout.controller';
+import { authenticate, authorize } from '../middleware/auth';
+import { validate } from '../middleware/validate';
+import {
+  importWarehouseLayoutSchema,
+  estimateTravelSchema,
+  updatePickPathStrategySchema,
+  previewPickPathSchema,
+} from '../validators/schemas';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @swagger
+ * /api/v1/warehouse-layouts/{warehouseId}:
+ *   get:
+ *     summary: Get a warehouse's layout nodes, edges and obstacles
+ *     tags: [Warehouse Layout]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: warehouseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Layout graph, with how many locations are linked to it
+ *   put:
+ *     summary: Replace a warehouse's layout from CSV or JSON
+ *     description: |
+ *       JSON documents hold nodes, edges, obstacles and locations arrays. CSV documents
+ *       have one row per item with a record column (NODE, EDGE, OBSTACLE or LOCATION)
+ *       and the columns code, type, x, y, z, from, to, aisle, length, one_way, max_x,
+ *       max_y, node and description. Locations without a node are linked to the
+ *       nearest node not behind an obstacle. Nothing is saved if any row is invalid.
+ *     tags: [Warehouse Layout]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: warehouseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Layout imported
+ *       400:
+ *         description: Layout rejected, with the rows at fault
+ */
+router.get('/:warehouseId', warehouseLayoutController.getLayout);
+router.put(
+  '/:warehouseId',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(importWarehouseLayoutSchema),
+  warehouseLayoutController.importLayout
+);
+
+/**
+ * @swagger
+ * /api/v1/warehouse-layouts/{warehouseId}/travel:
+ *   post:
+ *     summary: Estimate walking distance and duration through locations in order
+ *     description: Routes over the layout's shortest paths, honouring one-way aisles; legs the layout cannot route are estimated from aisle and rack numbers
+ *     tags: [Warehouse Layout]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: warehouseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Total and per-leg distances with the estimated duration
+ */
+router.post('/:warehouseId/travel', validate(estimateTravelSchema), warehouseLayoutController.estimateTravel);
+
+/**
+ * @swagger
+ * /api/v1/warehouse-layouts/{warehouseId}/pick-path-strategy:
+ *   put:
+ *     summary: Choose how pick tasks in a warehouse are routed
+ *     description: S_SHAPE, RETURN or LARGEST_GAP walk the layout's aisles; NEAREST_NEIGHBOR_2OPT builds a tour over shortest paths
+ *     tags: [Warehouse Layout]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: warehouseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Strategy updated
+ */
+router.put(
+  '/:warehouseId/pick-path-strategy',
+  authorize('WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'),
+  validate(updatePickPathStrategySchema),
+  warehouseLayoutController.setPickPathStrategy
+);
+
+/**
+ * @swagger
+ * /api/v1/warehouse-layouts/{warehouseId}/pick-path/preview:
+ *   post:
+ *     summary: Plan a pick path through locations without creating a pick task
+ *     description: Uses the warehouse's strategy unless one is given; locations are only sorted by code when the layout cannot route them
+ *     tags: [Warehouse Layout]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: warehouseId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Visiting order with estimated distance and duration
+ */
+router.post('/:warehouseId/pick-path/preview', validate(previewPickPathSchema), warehouseLayoutController.previewPickPath);
+
+export default router;
@@ -117,6 +117,19 @@ app.get('/api/v1', (req, res) => {
       variances: '/api/v1/variances',
       putaway: '/api/v1/putaway',
       lpn: '/api/v1/lpn',
+      dock: '/api/v1/dock',
+      barcodes: '/api/v1/barcodes',
+      toleranceProfiles: '/api/v1/tolerance-profiles',
+      supplierScorecards: '/api/v1/supplier-scorecards',
+      purchaseOrders: '/api/v1/purchase-orders',
+      returns: '/api/v1/returns',
+      qaInspections: '/api/v1/qa-inspections',
+      skuRequests: '/api/v1/sku-requests',
+      attachments: '/api/v1/attachments',
+      supplierClaims: '/api/v1/supplier-claims',
+      approvals: '/api/v1/approvals',
+      varianceAnalytics: '/api/v1/variance-analytics',
+      warehouseLayouts: '/api/v1/warehouse-layouts',
     },
   });
 });
@@ -128,6 +141,23 @@ import blindReceiptRoutes from './routes/blindReceipt.routes';
 import varianceRoutes from './routes/variance.routes';
 import putawayRoutes from './routes/putaway.routes';
 import lpnRoutes from './routes/lpn.routes';
+import dockRoutes from './routes/dock.routes';
+import barcodeRoutes from './routes/barcode.routes';
+import toleranceProfileRoutes from './routes/toleranceProfile.routes';
+import supplierScorecardRoutes from './routes/supplierScorecard.routes';
+import purchaseOrderRoutes from './routes/purchaseOrder.routes';
+import returnAuthorizationRoutes from './routes/returnAuthorization.routes';
+import qaInspectionRoutes from './routes/qaInspection.routes';
+import newSkuRequestRoutes from './routes/newSkuRequest.routes';
+import attachmentRoutes from './routes/attachment.routes';
+import supplierClaimRoutes from './routes/supplierClaim.routes';
+import approvalRoutes from './routes/approval.routes';
+import varianceAnalyticsRoutes from './routes/varianceAnalytics.routes';
+import warehouseLayoutRoutes from './routes/warehouseLayout.routes';
+import attachmentService from './services/attachment.service';
+import varianceSlaService from './services/varianceSla.service';
+import binCapacityService from './services/binCapacity.service';
+import capacityReconciliationService from './services/capacityReconciliation.service';
 
 // Mount routes
 app.use('/api/v1/auth', authRoutes);
@@ -136,6 +166,19 @@ app.use('/api/v1/blind-receipts', blindReceiptRoutes);
 app.use('/api/v1/variances', varianceRoutes);
 app.use('/api/v1/putaway', putawayRoutes);
 app.use('/api/v1/lpn', lpnRoutes);
+app.use('/api/v1/dock', dockRoutes);
+app.use('/api/v1/barcodes', barcodeRoutes);
+app.use('/api/v1/tolerance-profiles', toleranceProfileRoutes);
+app.use('/api/v1/supplier-scorecards', supplierScorecardRoutes);
+app.use('/api/v1/purchase-orders', purchaseOrderRoutes);
+app.use('/api/v1/returns', returnAuthorizationRoutes);
+app.use('/api/v1/qa-inspections', qaInspectionRoutes);
+app.use('/api/v1/sku-requests', newSkuRequestRoutes);
+app.use('/api/v1/attachments', attachmentRoutes);
+app.use('/api/v1/supplier-claims', supplierClaimRoutes);
+app.use('/api/v1/approvals', approvalRoutes);
+app.use('/api/v1/variance-analytics', varianceAnalyticsRoutes);
+app.use('/api/v1/warehouse-layouts', warehouseLayoutRoutes);
 
 // ==========================================
 // ERROR HANDLING
@@ -165,6 +208,40 @@ const server = app.listen(PORT, () => {
   `);
 });
 
+// ==========================================
+// SCHEDULED JOBS
+// ==========================================
+
+const attachmentCleanupHours = Number(process.env.ATTACHMENT_CLEANUP_INTERVAL_HOURS ?? 6);
+if (attachmentCleanupHours > 0) {
+  setInterval(() => {
+    attachmentService.cleanupOrphans().catch((error) => logger.error('Attachment cleanup failed:', error));
+  }, attachmentCleanupHours * 60 * 60 * 1000).unref();
+}
+
+const varianceSlaMinutes = Number(process.env.VARIANCE_SLA_INTERVAL_MINUTES ?? 5);
+if (varianceSlaMinutes > 0) {
+  setInterval(() => {
+    varianceSlaService.runChecks().catch((error) => logger.error('Variance SLA check failed:', error));
+  }, varianceSlaMinutes * 60 * 1000).unref();
+}
+
+const reservationExpiryMinutes = Number(process.env.PUTAWAY_RESERVATION_EXPIRY_INTERVAL_MINUTES ?? 15);
+if (reservationExpiryMinutes > 0) {
+  setInterval(() => {
+    binCapacityService.expireReservations().catch((error) => logger.error('Reservation expiry failed:', error));
+  }, reservationExpiryMinutes * 60 * 1000).unref();
+}
+
+const capacityReconcileHours = Number(process.env.CAPACITY_RECONCILE_INTERVAL_HOURS ?? 6);
+if (capacityReconcileHours > 0) {
+  setInterval(() => {
+    capacityReconciliationService
+      .reconcileAll()
+      .catch((error) => logger.error('Capacity reconciliation failed:', error));
+  }, capacityReconcileHours * 60 * 60 * 1000).unref();
+}
+
 // Graceful shutdown
 process.on('SIGTERM', () => {
   logger.info('SIGTERM signal received: closing HTTP server');
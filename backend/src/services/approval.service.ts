@@ -0,0 +1,735 @@
+import {
+  ApprovalChain,
+  ApprovalChainStep,
+  ApprovalDecision,
+  ApprovalDecisionType,
+  ApprovalDelegation,
+  ApprovalDocumentType,
+  ApprovalLevel,
+  ApprovalRequest,
+  Prisma,
+  UserRole,
+} from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+
+export interface ApprovalStepInput {
+  sequence: number;
+  name: string;
+  approverRoles?: UserRole[];
+  approverUserId?: string | null;
+}
+
+export interface ApprovalChainInput {
+  tenantId: string;
+  name: string;
+  description?: string;
+  documentType: ApprovalDocumentType;
+  warehouseId?: string | null;
+  requesterRole?: UserRole | null;
+  minValue?: number | null;
+  maxValue?: number | null;
+  minPercentage?: number | null;
+  maxPercentage?: number | null;
+  isActive?: boolean;
+  steps: ApprovalStepInput[];
+  createdById?: string;
+}
+
+/**
+ * Step as snapshotted onto a request, so later chain edits do not change
+ * approvals already in progress
+ */
+export interface ApprovalStep {
+  sequence: number;
+  name: string;
+  approverRoles: UserRole[];
+  approverUserId: string | null;
+}
+
+/**
+ * The document being approved and the facts chains are matched on
+ */
+export interface ApprovalSubject {
+  tenantId: string;
+  documentType: ApprovalDocumentType;
+  documentId: string;
+  documentNumber?: string | null;
+  warehouseId?: string | null;
+  value?: number | null;
+  percentage?: number | null;
+  requestedById?: string | null;
+  // Tolerance level the document was raised at; drives the built-in chains
+  approvalLevel?: ApprovalLevel | null;
+  // User the document was escalated to; may act on the built-in step
+  escalatedToId?: string | null;
+}
+
+export interface ApprovalActor {
+  id: string;
+  tenantId: string;
+  role: UserRole;
+}
+
+export interface DelegationInput {
+  tenantId: string;
+  delegatorId: string;
+  delegateId: string;
+  documentType?: ApprovalDocumentType | null;
+  startsAt: Date;
+  endsAt: Date;
+  reason?: string;
+}
+
+export type ApprovalRequestWithDecisions = ApprovalRequest & {
+  decisions: (ApprovalDecision & {
+    decidedBy: { id: string; firstName: string; lastName: string; role: UserRole };
+    onBehalfOf: { id: string; firstName: string; lastName: string; role: UserRole } | null;
+  })[];
+};
+
+type ChainWithSteps = ApprovalChain & { steps: ApprovalChainStep[] };
+
+type Delegator = { documentType: ApprovalDocumentType | null; delegator: { id: string; role: UserRole } };
+
+// Roles the built-in chains route to when a tenant has not configured one
+const SUPERVISOR_ROLES: UserRole[] = ['RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'];
+const MANAGER_ROLES: UserRole[] = ['WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'];
+const ADMIN_ROLES: UserRole[] = ['TENANT_ADMIN', 'PLATFORM_ADMIN'];
+
+const DOCUMENT_TYPES: ApprovalDocumentType[] = ['VARIANCE', 'BLIND_RECEIPT', 'INVENTORY_ADJUSTMENT'];
+
+// Documents owned by other services; their decisions are recorded through
+// the approvals API instead of the document's own approve/reject routes
+const EXTERNAL_DOCUMENT_TYPES: ApprovalDocumentType[] = ['INVENTORY_ADJUSTMENT'];
+
+const USER_SUMMARY = { select: { id: true, firstName: true, lastName: true, role: true } };
+
+const DECISIONS_INCLUDE = {
+  decisions: {
+    include: { decidedBy: USER_SUMMARY, onBehalfOf: USER_SUMMARY },
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
+const toNumber = (value: Prisma.Decimal | number | null | undefined): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+export class ApprovalService {
+  /**
+   * Get approval chains
+   */
+  async getChains(params: {
+    tenantId: string;
+    documentType?: ApprovalDocumentType;
+    warehouseId?: string;
+    includeInactive?: boolean;
+  }): Promise<ChainWithSteps[]> {
+    const { tenantId, documentType, warehouseId, includeInactive } = params;
+
+    return prisma.approvalChain.findMany({
+      where: {
+        tenantId,
+        ...(documentType && { documentType }),
+        ...(warehouseId && { warehouseId }),
+        ...(!includeInactive && { isActive: true }),
+      },
+      include: {
+        steps: { orderBy: { sequence: 'asc' } },
+        warehouse: { select: { id: true, code: true, name: true } },
+      },
+      orderBy: [{ documentType: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  /**
+   * Get approval chain by ID
+   */
+  async getChainById(id: string, tenantId: string): Promise<ChainWithSteps> {
+    const chain = await prisma.approvalChain.findFirst({
+      where: { id, tenantId },
+      include: {
+        steps: { orderBy: { sequence: 'asc' } },
+        warehouse: { select: { id: true, code: true, name: true } },
+      },
+    });
+
+    if (!chain) {
+      throw new AppError('Approval chain not found', 404);
+    }
+
+    return chain;
+  }
+
+  /**
+   * Create an approval chain
+   */
+  async createChain(data: ApprovalChainInput): Promise<ChainWithSteps> {
+    await this.validateChain(data.tenantId, data);
+    const { steps, ...chain } = data;
+
+    return prisma.approvalChain.create({
+      data: {
+        ...chain,
+        steps: { create: steps.map((step) => this.toStepData(step)) },
+      },
+      include: { steps: { orderBy: { sequence: 'asc' } } },
+    });
+  }
+
+  /**
+   * Update an approval chain. Steps, when given, replace the existing ones;
+   * requests already in progress keep the steps they started with.
+   */
+  async updateChain(
+    id: string,
+    tenantId: string,
+    data: Partial<Omit<ApprovalChainInput, 'tenantId' | 'documentType' | 'createdById'>>
+  ): Promise<ChainWithSteps> {
+    const chain = await this.getChainById(id, tenantId);
+    await this.validateChain(tenantId, {
+      warehouseId: data.warehouseId !== undefined ? data.warehouseId : chain.warehouseId,
+      minValue: data.minValue !== undefined ? data.minValue : toNumber(chain.minValue),
+      maxValue: data.maxValue !== undefined ? data.maxValue : toNumber(chain.maxValue),
+      minPercentage: data.minPercentage !== undefined ? data.minPercentage : toNumber(chain.minPercentage),
+      maxPercentage: data.maxPercentage !== undefined ? data.maxPercentage : toNumber(chain.maxPercentage),
+      steps: data.steps ?? chain.steps,
+    });
+    const { steps, ...updates } = data;
+
+    return prisma.$transaction(async (tx) => {
+      if (steps) {
+        await tx.approvalChainStep.deleteMany({ where: { chainId: id } });
+      }
+
+      return tx.approvalChain.update({
+        where: { id },
+        data: {
+          ...updates,
+          ...(steps && { steps: { create: steps.map((step) => this.toStepData(step)) } }),
+        },
+        include: { steps: { orderBy: { sequence: 'asc' } } },
+      });
+    });
+  }
+
+  /**
+   * Deactivate an approval chain. Chains are kept for the decision history
+   * of the requests they routed.
+   */
+  async deactivateChain(id: string, tenantId: string): Promise<ApprovalChain> {
+    await this.getChainById(id, tenantId);
+
+    return prisma.approvalChain.update({
+      where: { id },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * Resolve the steps a document must pass. The most specific matching
+   * tenant chain wins (warehouse, then requester role, then the narrowest
+   * value/percentage bands); otherwise the built-in chain applies.
+   * Returns null when the document needs no approval.
+   */
+  async resolveChain(
+    subject: ApprovalSubject
+  ): Promise<{ chainId: string | null; name: string; steps: ApprovalStep[] } | null> {
+    const requester = subject.requestedById
+      ? await prisma.user.findUnique({ where: { id: subject.requestedById }, select: { role: true } })
+      : null;
+
+    const chains = await prisma.approvalChain.findMany({
+      where: {
+        tenantId: subject.tenantId,
+        documentType: subject.documentType,
+        isActive: true,
+        OR: [{ warehouseId: null }, ...(subject.warehouseId ? [{ warehouseId: subject.warehouseId }] : [])],
+      },
+      include: { steps: { orderBy: { sequence: 'asc' } } },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    const match = chains
+      .filter((chain) => chain.steps.length > 0 && this.matches(chain, subject, requester?.role ?? null))
+      .sort((a, b) => this.specificity(b) - this.specificity(a))[0];
+
+    if (match) {
+      return {
+        chainId: match.id,
+        name: match.name,
+        steps: match.steps.map((step) => ({
+          sequence: step.sequence,
+          name: step.name,
+          approverRoles: step.approverRoles,
+          approverUserId: step.approverUserId,
+        })),
+      };
+    }
+
+    return this.getDefaultChain(subject);
+  }
+
+  /**
+   * Open an approval request for a document, or return the one already
+   * pending. Returns null when the document needs no approval.
+   */
+  async open(
+    subject: ApprovalSubject,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<ApprovalRequestWithDecisions | null> {
+    const existing = await client.approvalRequest.findFirst({
+      where: {
+        tenantId: subject.tenantId,
+        documentType: subject.documentType,
+        documentId: subject.documentId,
+        status: 'PENDING',
+      },
+      include: DECISIONS_INCLUDE,
+    });
+
+    if (existing) return existing;
+
+    const chain = await this.resolveChain(subject);
+    if (!chain) return null;
+
+    const request = await client.approvalRequest.create({
+      data: {
+        tenantId: subject.tenantId,
+        warehouseId: subject.warehouseId,
+        chainId: chain.chainId,
+        chainName: chain.name,
+        documentType: subject.documentType,
+        documentId: subject.documentId,
+        documentNumber: subject.documentNumber,
+        value: subject.value,
+        percentage: subject.percentage,
+        currentSequence: Math.min(...chain.steps.map((step) => step.sequence)),
+        steps: chain.steps as unknown as Prisma.InputJsonValue,
+        requestedById: subject.requestedById,
+      },
+      include: DECISIONS_INCLUDE,
+    });
+
+    logger.info('Approval request opened', {
+      requestId: request.id,
+      documentType: subject.documentType,
+      documentId: subject.documentId,
+      chain: chain.name,
+    });
+
+    return request;
+  }
+
+  /**
+   * Record an approver's decision. A rejection at any step rejects the
+   * document; the document is approved once every step has approved.
+   * Returns null when the document needs no approval. Pass the caller's
+   * transaction to apply the outcome to the document together with it.
+   */
+  async decide(
+    subject: ApprovalSubject,
+    actor: ApprovalActor,
+    decision: ApprovalDecisionType,
+    comments?: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<ApprovalRequestWithDecisions | null> {
+    const request = await this.open(subject, tx);
+    if (!request) return null;
+
+    if (this.hasDecided(request, actor.id)) {
+      throw new AppError('You have already recorded a decision on this document', 409);
+    }
+
+    const steps = request.steps as unknown as ApprovalStep[];
+    const delegators = await this.getActiveDelegators(actor);
+    const eligible = this.findEligibleStep(request, steps, actor, delegators);
+
+    if (!eligible) {
+      throw new AppError('You are not an approver for the current step of this document', 403);
+    }
+
+    const approvedSteps = new Set(
+      request.decisions.filter((d) => d.decision === 'APPROVED').map((d) => d.stepIndex)
+    );
+    if (decision === 'APPROVED') approvedSteps.add(eligible.stepIndex);
+
+    const remaining = steps.filter((_, index) => !approvedSteps.has(index));
+    let status: ApprovalRequest['status'] = 'PENDING';
+    if (decision === 'REJECTED') status = 'REJECTED';
+    else if (remaining.length === 0) status = 'APPROVED';
+
+    const record = async (client: Prisma.TransactionClient) => {
+      await client.approvalDecision.create({
+        data: {
+          requestId: request.id,
+          stepIndex: eligible.stepIndex,
+          sequence: steps[eligible.stepIndex].sequence,
+          decision,
+          decidedById: actor.id,
+          onBehalfOfId: eligible.onBehalfOfId,
+          comments,
+        },
+      });
+
+      return client.approvalRequest.update({
+        where: { id: request.id },
+        data: {
+          status,
+          ...(status === 'PENDING' && {
+            currentSequence: Math.min(...remaining.map((step) => step.sequence)),
+          }),
+          ...(status !== 'PENDING' && { completedAt: new Date() }),
+        },
+        include: DECISIONS_INCLUDE,
+      });
+    };
+    const updated = tx ? await record(tx) : await prisma.$transaction(record);
+
+    logger.info('Approval decision recorded', {
+      requestId: request.id,
+      documentType: request.documentType,
+      documentId: request.documentId,
+      step: steps[eligible.stepIndex].name,
+      decision,
+      decidedById: actor.id,
+      onBehalfOfId: eligible.onBehalfOfId,
+      status,
+    });
+
+    return updated;
+  }
+
+  /**
+   * Record a decision on a document owned by another service. The caller
+   * applies the outcome to the document itself.
+   */
+  async decideExternal(
+    subject: ApprovalSubject,
+    actor: ApprovalActor,
+    decision: ApprovalDecisionType,
+    comments?: string
+  ): Promise<ApprovalRequestWithDecisions | null> {
+    if (!EXTERNAL_DOCUMENT_TYPES.includes(subject.documentType)) {
+      throw new AppError(
+        `Decisions on ${subject.documentType} documents are recorded through their own approve and reject routes`,
+        400
+      );
+    }
+
+    return this.decide(subject, actor, decision, comments);
+  }
+
+  /**
+   * Cancel a document's pending request, e.g. when it is escalated and must
+   * be routed again
+   */
+  async cancel(documentType: ApprovalDocumentType, documentId: string, tenantId: string): Promise<void> {
+    await prisma.approvalRequest.updateMany({
+      where: { tenantId, documentType, documentId, status: 'PENDING' },
+      data: { status: 'CANCELLED', completedAt: new Date() },
+    });
+  }
+
+  /**
+   * Get every approval request raised for a document with its decisions,
+   * newest first
+   */
+  async getHistory(
+    documentType: ApprovalDocumentType,
+    documentId: string,
+    tenantId: string
+  ): Promise<ApprovalRequestWithDecisions[]> {
+    if (!DOCUMENT_TYPES.includes(documentType)) {
+      throw new AppError('Unknown document type', 400);
+    }
+
+    return prisma.approvalRequest.findMany({
+      where: { tenantId, documentType, documentId },
+      include: DECISIONS_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Get pending requests the user can act on now, directly or as a delegate
+   */
+  async getInbox(
+    actor: ApprovalActor,
+    documentType?: ApprovalDocumentType
+  ): Promise<ApprovalRequestWithDecisions[]> {
+    const [requests, delegators] = await Promise.all([
+      prisma.approvalRequest.findMany({
+        where: {
+          tenantId: actor.tenantId,
+          status: 'PENDING',
+          ...(documentType && { documentType }),
+        },
+        include: DECISIONS_INCLUDE,
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.getActiveDelegators(actor),
+    ]);
+
+    return requests.filter(
+      (request) =>
+        !this.hasDecided(request, actor.id) &&
+        this.findEligibleStep(request, request.steps as unknown as ApprovalStep[], actor, delegators) !== null
+    );
+  }
+
+  /**
+   * Get delegations, optionally only those given or held by a user
+   */
+  async getDelegations(params: {
+    tenantId: string;
+    userId?: string;
+    includeExpired?: boolean;
+  }): Promise<ApprovalDelegation[]> {
+    const { tenantId, userId, includeExpired } = params;
+
+    return prisma.approvalDelegation.findMany({
+      where: {
+        tenantId,
+        ...(userId && { OR: [{ delegatorId: userId }, { delegateId: userId }] }),
+        ...(!includeExpired && { revokedAt: null, endsAt: { gt: new Date() } }),
+      },
+      include: { delegator: USER_SUMMARY, delegate: USER_SUMMARY },
+      orderBy: { startsAt: 'asc' },
+    });
+  }
+
+  /**
+   * Delegate approvals while the delegator is out of office. Users may
+   * delegate their own approvals; admins may set delegations for anyone.
+   */
+  async createDelegation(data: DelegationInput, actor: ApprovalActor): Promise<ApprovalDelegation> {
+    this.assertCanManageDelegation(data.delegatorId, actor);
+
+    if (data.delegatorId === data.delegateId) {
+      throw new AppError('Approvals cannot be delegated to the same user', 400);
+    }
+
+    if (data.endsAt <= data.startsAt) {
+      throw new AppError('Delegation must end after it starts', 400);
+    }
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: [data.delegatorId, data.delegateId] }, tenantId: data.tenantId, isActive: true },
+      select: { id: true },
+    });
+
+    if (users.length !== 2) {
+      throw new AppError('Delegator and delegate must be active users of this tenant', 400);
+    }
+
+    return prisma.approvalDelegation.create({
+      data,
+      include: { delegator: USER_SUMMARY, delegate: USER_SUMMARY },
+    });
+  }
+
+  /**
+   * Revoke a delegation
+   */
+  async revokeDelegation(id: string, actor: ApprovalActor): Promise<ApprovalDelegation> {
+    const delegation = await prisma.approvalDelegation.findFirst({
+      where: { id, tenantId: actor.tenantId },
+    });
+
+    if (!delegation) {
+      throw new AppError('Delegation not found', 404);
+    }
+
+    this.assertCanManageDelegation(delegation.delegatorId, actor);
+
+    if (delegation.revokedAt) {
+      throw new AppError('Delegation already revoked', 400);
+    }
+
+    return prisma.approvalDelegation.update({
+      where: { id },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  /**
+   * Built-in chains matching the rules that applied before chains were
+   * configurable: supervisor or manager sign-off by tolerance level, and
+   * manager sign-off for adjustments over the value or percentage threshold.
+   */
+  private getDefaultChain(subject: ApprovalSubject): { chainId: null; name: string; steps: ApprovalStep[] } | null {
+    if (subject.documentType === 'INVENTORY_ADJUSTMENT') {
+      const valueThreshold = parseFloat(process.env.ADJUSTMENT_APPROVAL_VALUE || '500');
+      const percentThreshold = parseFloat(process.env.ADJUSTMENT_APPROVAL_PERCENTAGE || '10');
+      const requiresApproval =
+        Math.abs(subject.value ?? 0) >= valueThreshold ||
+        Math.abs(subject.percentage ?? 0) >= percentThreshold;
+
+      if (!requiresApproval) return null;
+
+      return {
+        chainId: null,
+        name: 'Default',
+        steps: [{ sequence: 1, name: 'Manager approval', approverRoles: MANAGER_ROLES, approverUserId: null }],
+      };
+    }
+
+    const isManager = subject.approvalLevel === 'MANAGER';
+
+    return {
+      chainId: null,
+      name: 'Default',
+      steps: [
+        {
+          sequence: 1,
+          name: isManager ? 'Manager approval' : 'Supervisor approval',
+          approverRoles: isManager ? MANAGER_ROLES : SUPERVISOR_ROLES,
+          approverUserId: subject.escalatedToId ?? null,
+        },
+      ],
+    };
+  }
+
+  /**
+   * Value and percentage bands are inclusive of the minimum and exclusive
+   * of the maximum, compared on magnitude
+   */
+  private matches(chain: ApprovalChain, subject: ApprovalSubject, requesterRole: UserRole | null): boolean {
+    if (chain.requesterRole && chain.requesterRole !== requesterRole) return false;
+
+    const inBand = (amount: number | null | undefined, min: Prisma.Decimal | null, max: Prisma.Decimal | null) => {
+      if (min === null && max === null) return true;
+      if (amount === null || amount === undefined) return false;
+      const magnitude = Math.abs(amount);
+      return (min === null || magnitude >= Number(min)) && (max === null || magnitude < Number(max));
+    };
+
+    return (
+      inBand(subject.value, chain.minValue, chain.maxValue) &&
+      inBand(subject.percentage, chain.minPercentage, chain.maxPercentage)
+    );
+  }
+
+  private specificity(chain: ApprovalChain): number {
+    const bounds = [chain.minValue, chain.maxValue, chain.minPercentage, chain.maxPercentage].filter(
+      (bound) => bound !== null
+    ).length;
+
+    return (chain.warehouseId ? 100 : 0) + (chain.requesterRole ? 10 : 0) + bounds;
+  }
+
+  private hasDecided(request: ApprovalRequestWithDecisions, userId: string): boolean {
+    return request.decisions.some((d) => d.decidedById === userId || d.onBehalfOfId === userId);
+  }
+
+  /**
+   * Find an open step at the current sequence the actor may approve, first
+   * in their own right and then on behalf of someone who delegated to them
+   */
+  private findEligibleStep(
+    request: ApprovalRequestWithDecisions,
+    steps: ApprovalStep[],
+    actor: ApprovalActor,
+    delegators: Delegator[]
+  ): { stepIndex: number; onBehalfOfId: string | null } | null {
+    const approved = new Set(
+      request.decisions.filter((d) => d.decision === 'APPROVED').map((d) => d.stepIndex)
+    );
+    const openSteps = steps
+      .map((step, index) => ({ step, index }))
+      .filter(({ step, index }) => step.sequence === request.currentSequence && !approved.has(index));
+
+    const canApprove = (step: ApprovalStep, userId: string, role: UserRole) =>
+      step.approverUserId === userId || step.approverRoles.includes(role);
+
+    const direct = openSteps.find(({ step }) => canApprove(step, actor.id, actor.role));
+    if (direct) return { stepIndex: direct.index, onBehalfOfId: null };
+
+    for (const { documentType, delegator } of delegators) {
+      if (documentType && documentType !== request.documentType) continue;
+      if (this.hasDecided(request, delegator.id)) continue;
+
+      const delegated = openSteps.find(({ step }) => canApprove(step, delegator.id, delegator.role));
+      if (delegated) return { stepIndex: delegated.index, onBehalfOfId: delegator.id };
+    }
+
+    return null;
+  }
+
+  private async getActiveDelegators(actor: ApprovalActor): Promise<Delegator[]> {
+    const now = new Date();
+    const delegations = await prisma.approvalDelegation.findMany({
+      where: {
+        tenantId: actor.tenantId,
+        delegateId: actor.id,
+        revokedAt: null,
+        startsAt: { lte: now },
+        endsAt: { gt: now },
+        delegator: { isActive: true },
+      },
+      include: { delegator: { select: { id: true, role: true } } },
+    });
+
+    return delegations.map(({ documentType, delegator }) => ({ documentType, delegator }));
+  }
+
+  private assertCanManageDelegation(delegatorId: string, actor: ApprovalActor): void {
+    if (delegatorId !== actor.id && !ADMIN_ROLES.includes(actor.role)) {
+      throw new AppError('Only administrators can manage delegations for other users', 403);
+    }
+  }
+
+  private async validateChain(
+    tenantId: string,
+    data: Pick<ApprovalChainInput, 'warehouseId' | 'minValue' | 'maxValue' | 'minPercentage' | 'maxPercentage'> & {
+      steps: ApprovalStepInput[];
+    }
+  ): Promise<void> {
+    if (data.steps.length === 0) {
+      throw new AppError('An approval chain needs at least one step', 400);
+    }
+
+    const invalidStep = data.steps.find(
+      (step) => !step.approverUserId && (!step.approverRoles || step.approverRoles.length === 0)
+    );
+    if (invalidStep) {
+      throw new AppError(`Step "${invalidStep.name}" needs an approver role or user`, 400);
+    }
+
+    const outOfOrder = (min?: number | null, max?: number | null) =>
+      min !== null && min !== undefined && max !== null && max !== undefined && min >= max;
+    if (outOfOrder(data.minValue, data.maxValue) || outOfOrder(data.minPercentage, data.maxPercentage)) {
+      throw new AppError('Band minimum must be below its maximum', 400);
+    }
+
+    if (data.warehouseId) {
+      const warehouse = await prisma.warehouse.findFirst({ where: { id: data.warehouseId, tenantId } });
+      if (!warehouse) {
+        throw new AppError('Warehouse not found', 404);
+      }
+    }
+
+    const userIds = [
+      ...new Set(data.steps.map((step) => step.approverUserId).filter((id): id is string => !!id)),
+    ];
+    if (userIds.length > 0) {
+      const users = await prisma.user.count({ where: { id: { in: userIds }, tenantId } });
+      if (users !== userIds.length) {
+        throw new AppError('Step approver not found', 404);
+      }
+    }
+  }
+
+  private toStepData(step: ApprovalStepInput) {
+    return {
+      sequence: step.sequence,
+      name: step.name,
+      approverRoles: step.approverRoles ?? [],
+      approverUserId: step.approverUserId ?? null,
+    };
+  }
+}
+
+export default new ApprovalService();
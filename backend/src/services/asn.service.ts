@@ -1,13 +1,17 @@
-import { Prisma, ASN, ASNLine, ShipmentStatus, LineStatus, VarianceType } from '@prisma/client';
+import { Prisma, ASN, ASNLine, SKU, ShipmentStatus, LineStatus, VarianceType } from '@prisma/client';
 import prisma from '../config/database';
 import {
   generateSequentialNumber,
   calculateVariancePercentage,
   calculateVarianceQuantity,
-  determineVariancePriority,
-  requiresSupervisorApproval,
 } from '../utils/helpers';
 import { AppError } from '../middleware/errorHandler';
+import barcodeService from './barcode.service';
+import toleranceProfileService from './toleranceProfile.service';
+import purchaseOrderService from './purchaseOrder.service';
+import qaInspectionService from './qaInspection.service';
+import coldChainService from './coldChain.service';
+import grnService from './grn.service';
 
 export interface CreateASNInput {
   tenantId: string;
@@ -34,6 +38,7 @@ export interface CreateASNInput {
     batchNumberExpected?: string;
     expiryDateExpected?: Date;
     lpnExpected?: string;
+    purchaseOrderLineId?: string;
   }>;
 }
 
@@ -51,6 +56,7 @@ export interface ReceiveASNLineInput {
   qaHold?: boolean;
   photoEvidenceUrls?: string[];
   varianceNotes?: string;
+  gs1Barcodes?: string[];
   receivedById: string;
 }
 
@@ -58,15 +64,17 @@ export class ASNService {
   /**
    * Create a new ASN
    */
-  async createASN(data: CreateASNInput): Promise<ASN> {
+  async createASN(data: CreateASNInput, client: Prisma.TransactionClient = prisma): Promise<ASN> {
     // Generate ASN number
-    const lastASN = await prisma.aSN.findFirst({
+    const lastASN = await client.aSN.findFirst({
       where: { tenantId: data.tenantId },
       orderBy: { createdAt: 'desc' },
     });
 
     const asnNumber = generateSequentialNumber('ASN', lastASN?.asnNumber);
 
+    const purchaseOrderId = await this.resolvePurchaseOrderLines(data, client);
+
     // Calculate totals
     const totalExpectedLines = data.lines.length;
     const totalExpectedUnits = data.lines.reduce(
@@ -75,12 +83,13 @@ export class ASNService {
     );
 
     // Create ASN with lines
-    const asn = await prisma.aSN.create({
+    const asn = await client.aSN.create({
       data: {
         tenantId: data.tenantId,
         warehouseId: data.warehouseId,
         asnNumber,
         poNumber: data.poNumber,
+        purchaseOrderId,
         supplierId: data.supplierId,
         supplierName: data.supplierName,
         carrier: data.carrier,
@@ -107,6 +116,7 @@ export class ASNService {
             batchNumberExpected: line.batchNumberExpected,
             expiryDateExpected: line.expiryDateExpected,
             lpnExpected: line.lpnExpected,
+            purchaseOrderLineId: line.purchaseOrderLineId,
             lineStatus: 'PENDING',
           })),
         },
@@ -118,14 +128,84 @@ export class ASNService {
       },
     });
 
+    // No explicit line links: match against an open PO with the same number
+    if (!purchaseOrderId && data.poNumber) {
+      const purchaseOrder = await purchaseOrderService.findReceivableByNumber(
+        data.tenantId,
+        data.supplierId,
+        data.poNumber,
+        client
+      );
+
+      if (purchaseOrder) {
+        await purchaseOrderService.linkASN(purchaseOrder.id, asn.id, data.tenantId, client);
+        return (await this.getASNById(asn.id, data.tenantId, client))!;
+      }
+    }
+
     return asn;
   }
 
+  /**
+   * Validate explicit PO line references on new ASN lines. All referenced
+   * lines must belong to one purchase order for the ASN's supplier and
+   * match the line's SKU. Returns the purchase order ID, if any.
+   */
+  private async resolvePurchaseOrderLines(
+    data: CreateASNInput,
+    client: Prisma.TransactionClient
+  ): Promise<string | undefined> {
+    const lineIds = data.lines
+      .map((line) => line.purchaseOrderLineId)
+      .filter((id): id is string => !!id);
+
+    if (lineIds.length === 0) {
+      return undefined;
+    }
+
+    const poLines = await client.purchaseOrderLine.findMany({
+      where: { id: { in: lineIds }, tenantId: data.tenantId },
+      include: { purchaseOrder: true },
+    });
+    const byId = new Map(poLines.map((poLine) => [poLine.id, poLine]));
+
+    const purchaseOrderIds = new Set(poLines.map((poLine) => poLine.purchaseOrderId));
+    if (purchaseOrderIds.size > 1) {
+      throw new AppError('ASN lines must reference a single purchase order', 400);
+    }
+
+    for (const line of data.lines) {
+      if (!line.purchaseOrderLineId) continue;
+
+      const poLine = byId.get(line.purchaseOrderLineId);
+      if (!poLine) {
+        throw new AppError(`Purchase order line not found for ASN line ${line.lineNumber}`, 404);
+      }
+      if (poLine.skuId !== line.skuId) {
+        throw new AppError(
+          `ASN line ${line.lineNumber} SKU ${line.skuCode} does not match PO line ${poLine.lineNumber} (${poLine.skuCode})`,
+          400
+        );
+      }
+    }
+
+    const purchaseOrder = poLines[0].purchaseOrder;
+    if (purchaseOrder.supplierId !== data.supplierId) {
+      throw new AppError('ASN supplier does not match the purchase order supplier', 400);
+    }
+    if (data.poNumber && data.poNumber !== purchaseOrder.poNumber) {
+      throw new AppError(`PO number ${data.poNumber} does not match purchase order ${purchaseOrder.poNumber}`, 400);
+    }
+    data.poNumber = purchaseOrder.poNumber;
+
+    return purchaseOrder.id;
+  }
+
   /**
    * Get ASN by ID with all details
    */
-  async getASNById(id: string, tenantId: string): Promise<ASN | null> {
-    const asn = await prisma.aSN.findFirst({
+  async getASNById(id: string, tenantId: string, client: Prisma.TransactionClient = prisma): Promise<ASN | null> {
+    const asn = await client.aSN.findFirst({
       where: {
         id,
         tenantId,
@@ -139,6 +219,7 @@ export class ASNService {
         supplier: true,
         warehouse: true,
         receivingZone: true,
+        purchaseOrder: { select: { id: true, poNumber: true, status: true } },
         createdBy: {
           select: {
             id: true,
@@ -267,6 +348,17 @@ export class ASNService {
       throw new AppError('ASN line already received', 400);
     }
 
+    if (data.gs1Barcodes?.length) {
+      data = await this.applyGS1Scans(line, data);
+    }
+
+    // Enforce the PO's over-receipt tolerance across all of its receipts
+    if (line.purchaseOrderLineId) {
+      await purchaseOrderService.assertWithinOrder(line.purchaseOrderLineId, data.receivedQuantity, {
+        asnLineId: line.id,
+      });
+    }
+
     // Calculate variance
     const varianceQty = calculateVarianceQuantity(
       line.expectedQuantity,
@@ -282,12 +374,35 @@ export class ASNService {
 
     // Determine variance type
     if (varianceQty !== 0) {
-      lineStatus = 'VARIANCE';
-      if (varianceQty < 0) {
-        varianceType = 'SHORTAGE';
-      } else {
-        varianceType = 'OVERAGE';
+      varianceType = varianceQty < 0 ? 'SHORTAGE' : 'OVERAGE';
+    }
+
+    // Check against the applicable tolerance profile; auto-accepted
+    // variances complete the line but keep their variance type
+    const tolerance = await toleranceProfileService.evaluateLine(
+      line.tenantId,
+      { skuId: line.skuId, skuCategory: line.sku.category, supplierId: line.asn.supplierId },
+      {
+        expectedQuantity: line.expectedQuantity.toNumber(),
+        receivedQuantity: data.receivedQuantity,
+        unitCost: line.sku.unitCost?.toNumber() || 0,
       }
+    );
+
+    if (varianceType && tolerance.outcome !== 'AUTO_ACCEPT') {
+      lineStatus = 'VARIANCE';
+    }
+
+    // Out-of-range readings hold the line for review regardless of quantity
+    const temperature = await coldChainService.checkReading(
+      line.sku,
+      line.asn.receivingZoneId,
+      data.temperatureReading
+    );
+    const temperatureExcursion = !!temperature && !temperature.inRange;
+
+    if (temperatureExcursion) {
+      lineStatus = 'VARIANCE';
     }
 
     // Update the line
@@ -307,18 +422,13 @@ export class ASNService {
         photoEvidenceUrls: data.photoEvidenceUrls || [],
         varianceNotes: data.varianceNotes,
         lineStatus,
-        varianceType,
+        varianceType: varianceType ?? (temperatureExcursion ? 'TEMPERATURE_VIOLATION' : null),
         receivedAt: new Date(),
       },
     });
 
     // Create variance record if needed
-    if (varianceType && requiresSupervisorApproval(variancePct, Math.abs(varianceQty) * (line.sku.unitCost?.toNumber() || 0))) {
-      const priority = determineVariancePriority(
-        variancePct,
-        Math.abs(varianceQty) * (line.sku.unitCost?.toNumber() || 0)
-      );
-
+    if (varianceType && tolerance.outcome !== 'AUTO_ACCEPT') {
       await prisma.variance.create({
         data: {
           tenantId: line.tenantId,
@@ -334,7 +444,7 @@ export class ASNService {
           receivedQuantity: data.receivedQuantity,
           varianceQuantity: varianceQty,
           variancePercentage: variancePct,
-          varianceValue: Math.abs(varianceQty) * (line.sku.unitCost?.toNumber() || 0),
+          varianceValue: tolerance.varianceValue,
           reasonCode: data.varianceNotes || 'UNSPECIFIED',
           receiverNotes: data.varianceNotes,
           photoEvidenceUrls: data.photoEvidenceUrls || [],
@@ -342,18 +452,117 @@ export class ASNService {
           batchNumber: data.batchNumberReceived,
           expiryDate: data.expiryDateReceived,
           status: 'PENDING',
-          priority,
+          priority: tolerance.priority,
+          approvalLevel: tolerance.approvalLevel!,
+          toleranceProfileId: tolerance.profileId,
           submittedById: data.receivedById,
         },
       });
     }
 
+    if (temperatureExcursion) {
+      await coldChainService.raiseExcursion(temperature!, {
+        tenantId: line.tenantId,
+        warehouseId: line.asn.warehouseId,
+        receiptType: 'ASN',
+        asnId: line.asnId,
+        receiptLineId: line.id,
+        skuId: line.skuId,
+        skuCode: line.skuCode,
+        productName: line.productName,
+        quantity: data.receivedQuantity,
+        unitCost: line.sku.unitCost?.toNumber() || 0,
+        batchNumber: data.batchNumberReceived,
+        expiryDate: data.expiryDateReceived,
+        submittedById: data.receivedById,
+      });
+    }
+
+    // Held stock waits for inspection; re-receiving without a hold drops the old inspection
+    if (data.qaHold) {
+      await qaInspectionService.openInspection({
+        tenantId: line.tenantId,
+        warehouseId: line.asn.warehouseId,
+        receiptType: 'ASN',
+        asnId: line.asnId,
+        receiptLineId: line.id,
+        skuId: line.skuId,
+        skuCode: line.skuCode,
+        productName: line.productName,
+        supplierId: line.asn.supplierId,
+        batchNumber: data.batchNumberReceived,
+        lotSize: data.receivedQuantity,
+      });
+    } else {
+      await qaInspectionService.cancelOpenInspections({ receiptLineId: line.id });
+    }
+
     // Update ASN totals
     await this.updateASNTotals(data.asnId);
 
+    if (line.purchaseOrderLineId) {
+      await purchaseOrderService.refreshLine(line.purchaseOrderLineId);
+    }
+
     return updatedLine;
   }
 
+  /**
+   * Fill batch, expiry, serials, SSCC and net weight from scanned GS1 labels.
+   * Values entered explicitly by the receiver take precedence.
+   */
+  private async applyGS1Scans(
+    line: ASNLine & { sku: SKU },
+    data: ReceiveASNLineInput
+  ): Promise<ReceiveASNLineInput> {
+    const serialNumbers = new Set(data.serialNumbers || []);
+    const filled = { ...data };
+
+    for (const barcode of data.gs1Barcodes || []) {
+      const scan = await barcodeService.resolveGS1(line.tenantId, barcode);
+
+      if (!scan.valid) {
+        throw new AppError(
+          `Invalid GS1 barcode ${barcode}: ${scan.errors.map((e) => e.message).join('; ')}`,
+          400
+        );
+      }
+
+      if (scan.sku && scan.sku.id !== line.skuId) {
+        throw new AppError(
+          `Scanned GTIN ${scan.gtin || scan.contentGtin} is SKU ${scan.sku.code}, but line ${line.lineNumber} expects ${line.skuCode}`,
+          400
+        );
+      }
+
+      if (scan.batchNumber) {
+        if (filled.batchNumberReceived && filled.batchNumberReceived !== scan.batchNumber) {
+          throw new AppError(
+            `Scanned batch ${scan.batchNumber} conflicts with batch ${filled.batchNumberReceived}`,
+            400
+          );
+        }
+        filled.batchNumberReceived = scan.batchNumber;
+      }
+
+      if (scan.expiryDate && !filled.expiryDateReceived) {
+        filled.expiryDateReceived = new Date(scan.expiryDate);
+      }
+      if (scan.sscc && !filled.lpnReceived) {
+        filled.lpnReceived = scan.sscc;
+      }
+      if (scan.netWeightKg !== undefined && filled.weight === undefined) {
+        filled.weight = scan.netWeightKg;
+      }
+      if (scan.serialNumber) {
+        serialNumbers.add(scan.serialNumber);
+      }
+    }
+
+    filled.serialNumbers = Array.from(serialNumbers);
+    return filled;
+  }
+
   /**
    * Complete ASN receiving
    */
@@ -383,7 +592,7 @@ export class ASNService {
       );
     }
 
-    return prisma.aSN.update({
+    const completed = await prisma.aSN.update({
       where: { id },
       data: {
         shipmentStatus: 'COMPLETED',
@@ -391,6 +600,10 @@ export class ASNService {
         receivedAt: new Date(),
       },
     });
+
+    await grnService.issue('ASN', id, receivedById);
+
+    return completed;
   }
 
   /**
@@ -440,12 +653,26 @@ export class ASNService {
       throw new AppError('Cannot cancel completed ASN', 400);
     }
 
-    return prisma.aSN.update({
+    // Free any dock slot booked for this shipment
+    await prisma.dockAppointment.updateMany({
+      where: { asnId: id, status: 'SCHEDULED' },
+      data: { status: 'CANCELLED' },
+    });
+
+    const cancelled = await prisma.aSN.update({
       where: { id },
       data: {
         shipmentStatus: 'CANCELLED',
       },
+      include: { lines: { select: { purchaseOrderLineId: true } } },
     });
+
+    await qaInspectionService.cancelOpenInspections({ asnId: id });
+
+    // Receipts against a cancelled shipment no longer count toward its PO
+    await purchaseOrderService.refreshLines(cancelled.lines.map((line) => line.purchaseOrderLineId));
+
+    return cancelled;
   }
 }
 
@@ -0,0 +1,620 @@
+import { Prisma, ASNImport, ASNImportStatus } from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import asnService from './asn.service';
+import barcodeService from './barcode.service';
+import {
+  parseASNDocument,
+  EDIFormat,
+  EDISegmentIssue,
+  ParsedASNItem,
+  ParsedASNShipment,
+} from '../utils/ediParser';
+
+export type SKUMatchSource = 'SUPPLIER_ITEM' | 'GTIN' | 'SKU_CODE' | 'MANUAL';
+
+export interface StagedImportLine {
+  lineIndex: number;
+  segmentIndex: number;
+  lineNumber: number;
+  poNumber?: string;
+  packId?: string;
+  supplierItemCode?: string;
+  buyerItemCode?: string;
+  gtin?: string;
+  description?: string;
+  quantity?: number;
+  uom?: string;
+  batchNumber?: string;
+  expiryDate?: string;
+  serialNumbers: string[];
+  skuId?: string;
+  skuCode?: string;
+  productName?: string;
+  matchedBy?: SKUMatchSource;
+  errors: string[];
+  excluded: boolean;
+}
+
+export interface StagedImportShipment {
+  shipmentIndex: number;
+  segmentIndex: number;
+  shipmentId?: string;
+  supplierId?: string;
+  supplierCode?: string;
+  supplierName?: string;
+  carrier?: string;
+  trackingNumber?: string;
+  shipDate?: string;
+  expectedArrivalDate?: string;
+  poNumbers: string[];
+  errors: string[];
+  asnId?: string;
+  lines: StagedImportLine[];
+}
+
+export interface ImportASNDocumentInput {
+  tenantId: string;
+  warehouseId: string;
+  document: string;
+  format?: EDIFormat;
+  fileName?: string;
+  supplierId?: string;
+  importedById: string;
+  autoCommit?: boolean;
+}
+
+interface ResolvedSupplier {
+  id: string;
+  code: string;
+  name: string;
+}
+
+export class ASNImportService {
+  /**
+   * Parse an EDI document and stage its shipments for review
+   */
+  async importDocument(data: ImportASNDocumentInput): Promise<ASNImport> {
+    const warehouse = await prisma.warehouse.findFirst({
+      where: { id: data.warehouseId, tenantId: data.tenantId },
+    });
+
+    if (!warehouse) {
+      throw new AppError('Warehouse not found', 404);
+    }
+
+    let defaultSupplier: ResolvedSupplier | null = null;
+    if (data.supplierId) {
+      defaultSupplier = await prisma.supplier.findFirst({
+        where: { id: data.supplierId, tenantId: data.tenantId },
+        select: { id: true, code: true, name: true },
+      });
+
+      if (!defaultSupplier) {
+        throw new AppError('Supplier not found', 404);
+      }
+    }
+
+    const parsed = parseASNDocument(data.document, data.format);
+    const issues: EDISegmentIssue[] = [...parsed.issues];
+    const shipments: StagedImportShipment[] = [];
+
+    for (const [shipmentIndex, shipment] of parsed.shipments.entries()) {
+      shipments.push(
+        await this.stageShipment(
+          data.tenantId,
+          shipmentIndex,
+          shipment,
+          defaultSupplier,
+          parsed.issues,
+          issues,
+          parsed.shipments[shipmentIndex + 1]?.segmentIndex
+        )
+      );
+    }
+
+    const errorCount = issues.filter((issue) => issue.severity === 'ERROR').length;
+    const warningCount = issues.length - errorCount;
+    const hasValidLines = shipments.some((shipment) =>
+      shipment.lines.some((line) => this.isLineCommittable(line))
+    );
+
+    const asnImport = await prisma.aSNImport.create({
+      data: {
+        tenantId: data.tenantId,
+        warehouseId: data.warehouseId,
+        format: parsed.format,
+        fileName: data.fileName,
+        rawDocument: data.document,
+        controlNumber: parsed.controlNumber,
+        senderId: parsed.senderId,
+        supplierId: defaultSupplier?.id,
+        status: hasValidLines ? 'STAGED' : 'FAILED',
+        stagedData: shipments as unknown as Prisma.InputJsonValue,
+        errors: issues as unknown as Prisma.InputJsonValue,
+        errorCount,
+        warningCount,
+        importedById: data.importedById,
+      },
+    });
+
+    if (data.autoCommit && hasValidLines && errorCount === 0) {
+      return this.commitImport(asnImport.id, data.tenantId, data.importedById);
+    }
+
+    return asnImport;
+  }
+
+  /**
+   * Get all imports for a tenant with filters
+   */
+  async getImports(params: {
+    tenantId: string;
+    warehouseId?: string;
+    status?: ASNImportStatus;
+    page?: number;
+    limit?: number;
+  }) {
+    const { tenantId, warehouseId, status, page = 1, limit = 50 } = params;
+
+    const where: Prisma.ASNImportWhereInput = {
+      tenantId,
+      ...(warehouseId && { warehouseId }),
+      ...(status && { status }),
+    };
+
+    const [imports, total] = await Promise.all([
+      prisma.aSNImport.findMany({
+        where,
+        select: {
+          id: true,
+          warehouseId: true,
+          format: true,
+          fileName: true,
+          controlNumber: true,
+          senderId: true,
+          supplierId: true,
+          status: true,
+          errorCount: true,
+          warningCount: true,
+          asnIds: true,
+          createdAt: true,
+          committedAt: true,
+          importedBy: {
+            select: { id: true, firstName: true, lastName: true },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.aSNImport.count({ where }),
+    ]);
+
+    return {
+      data: imports,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get import by ID with staged shipments and the segment error report
+   */
+  async getImportById(id: string, tenantId: string): Promise<ASNImport> {
+    const asnImport = await prisma.aSNImport.findFirst({
+      where: { id, tenantId },
+      include: {
+        warehouse: true,
+        supplier: true,
+        importedBy: {
+          select: { id: true, firstName: true, lastName: true, email: true },
+        },
+        committedBy: {
+          select: { id: true, firstName: true, lastName: true, email: true },
+        },
+      },
+    });
+
+    if (!asnImport) {
+      throw new AppError('ASN import not found', 404);
+    }
+
+    return asnImport;
+  }
+
+  /**
+   * Correct a staged line before commit: assign a SKU or exclude it
+   */
+  async updateStagedLine(
+    id: string,
+    tenantId: string,
+    shipmentIndex: number,
+    lineIndex: number,
+    data: { skuId?: string; excluded?: boolean }
+  ): Promise<ASNImport> {
+    const asnImport = await this.getStagedImport(id, tenantId);
+    const shipments = asnImport.stagedData as unknown as StagedImportShipment[];
+
+    const shipment = shipments[shipmentIndex];
+    const line = shipment?.lines[lineIndex];
+    if (!line) {
+      throw new AppError('Staged line not found', 404);
+    }
+
+    if (data.skuId) {
+      const sku = await prisma.sKU.findFirst({
+        where: { id: data.skuId, tenantId, isActive: true },
+      });
+
+      if (!sku) {
+        throw new AppError('SKU not found', 404);
+      }
+
+      line.skuId = sku.id;
+      line.skuCode = sku.code;
+      line.productName = sku.name;
+      line.uom = line.uom || sku.uom;
+      line.matchedBy = 'MANUAL';
+      // A manual match supersedes missing-identifier and lookup errors
+      line.errors = line.errors.filter(
+        (error) => !error.startsWith('SKU') && !error.includes('item code')
+      );
+    }
+
+    if (data.excluded !== undefined) {
+      line.excluded = data.excluded;
+    }
+
+    const hasValidLines = shipments.some((s) =>
+      s.lines.some((l) => this.isLineCommittable(l))
+    );
+
+    return prisma.aSNImport.update({
+      where: { id },
+      data: {
+        stagedData: shipments as unknown as Prisma.InputJsonValue,
+        status: hasValidLines ? 'STAGED' : 'FAILED',
+      },
+    });
+  }
+
+  /**
+   * Create ASNs from the staged shipments, all or none
+   */
+  async commitImport(
+    id: string,
+    tenantId: string,
+    committedById: string,
+    options: { allowPartial?: boolean } = {}
+  ): Promise<ASNImport> {
+    const asnImport = await this.getStagedImport(id, tenantId);
+    const shipments = asnImport.stagedData as unknown as StagedImportShipment[];
+
+    const blocking: string[] = [];
+    for (const shipment of shipments) {
+      const label = shipment.shipmentId || `#${shipment.shipmentIndex + 1}`;
+      const included = shipment.lines.filter((line) => !line.excluded);
+      const invalid = included.filter((line) => !this.isLineCommittable(line));
+
+      if (included.length === 0) continue;
+
+      if (!shipment.supplierId) {
+        blocking.push(`Shipment ${label}: supplier could not be resolved`);
+      }
+      if (!shipment.expectedArrivalDate) {
+        blocking.push(`Shipment ${label}: no expected arrival date`);
+      }
+      if (invalid.length > 0 && !options.allowPartial) {
+        blocking.push(`Shipment ${label}: ${invalid.length} line(s) have unresolved errors`);
+      }
+    }
+
+    if (blocking.length > 0) {
+      throw new AppError(`Cannot commit import. ${blocking.join('; ')}`, 400);
+    }
+
+    const committable = shipments.filter((shipment) =>
+      shipment.lines.some((line) => this.isLineCommittable(line))
+    );
+
+    if (committable.length === 0) {
+      throw new AppError('Import has no valid lines to commit', 400);
+    }
+
+    // Claim the import so a concurrent or repeated commit cannot create its ASNs twice
+    const claimed = await prisma.aSNImport.updateMany({
+      where: { id, status: 'STAGED' },
+      data: { status: 'COMMITTING' },
+    });
+
+    if (claimed.count === 0) {
+      throw new AppError('Import is already being committed', 409);
+    }
+
+    try {
+      return await prisma.$transaction(
+        async (tx) => {
+          const asnIds: string[] = [];
+          for (const shipment of committable) {
+            const lines = shipment.lines.filter((line) => this.isLineCommittable(line));
+
+            const asn = await asnService.createASN(
+              {
+                tenantId,
+                warehouseId: asnImport.warehouseId,
+                poNumber: shipment.poNumbers[0],
+                supplierId: shipment.supplierId!,
+                supplierName: shipment.supplierName!,
+                carrier: shipment.carrier,
+                trackingNumber: shipment.trackingNumber,
+                expectedArrivalDate: new Date(shipment.expectedArrivalDate!),
+                specialInstructions: shipment.shipmentId
+                  ? `EDI shipment ${shipment.shipmentId}`
+                  : undefined,
+                createdById: committedById,
+                lines: lines.map((line, index) => ({
+                  lineNumber: index + 1,
+                  skuId: line.skuId!,
+                  skuCode: line.skuCode!,
+                  productName: line.productName!,
+                  expectedQuantity: line.quantity!,
+                  uom: line.uom || 'UNIT',
+                  batchNumberExpected: line.batchNumber,
+                  expiryDateExpected: line.expiryDate ? new Date(line.expiryDate) : undefined,
+                  lpnExpected: line.packId,
+                })),
+              },
+              tx
+            );
+
+            shipment.asnId = asn.id;
+            asnIds.push(asn.id);
+          }
+
+          return tx.aSNImport.update({
+            where: { id },
+            data: {
+              status: 'COMMITTED',
+              stagedData: shipments as unknown as Prisma.InputJsonValue,
+              asnIds,
+              committedById,
+              committedAt: new Date(),
+            },
+          });
+        },
+        { timeout: 60000 }
+      );
+    } catch (error) {
+      // Nothing was created; hand the import back for correction and retry
+      await prisma.aSNImport.updateMany({
+        where: { id, status: 'COMMITTING' },
+        data: { status: 'STAGED' },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Discard a staged import without creating ASNs
+   */
+  async discardImport(id: string, tenantId: string): Promise<ASNImport> {
+    await this.getStagedImport(id, tenantId);
+
+    return prisma.aSNImport.update({
+      where: { id },
+      data: { status: 'DISCARDED' },
+    });
+  }
+
+  /**
+   * Load an import that can still be edited or committed
+   */
+  private async getStagedImport(id: string, tenantId: string): Promise<ASNImport> {
+    const asnImport = await prisma.aSNImport.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!asnImport) {
+      throw new AppError('ASN import not found', 404);
+    }
+
+    if (asnImport.status !== 'STAGED' && asnImport.status !== 'FAILED') {
+      throw new AppError(`Import is already ${asnImport.status.toLowerCase()}`, 400);
+    }
+
+    return asnImport;
+  }
+
+  /**
+   * Resolve supplier and SKUs for one parsed shipment
+   */
+  private async stageShipment(
+    tenantId: string,
+    shipmentIndex: number,
+    shipment: ParsedASNShipment,
+    defaultSupplier: ResolvedSupplier | null,
+    parserIssues: EDISegmentIssue[],
+    issues: EDISegmentIssue[],
+    nextShipmentSegment?: number
+  ): Promise<StagedImportShipment> {
+    const errors: string[] = [];
+
+    let supplier = defaultSupplier;
+    if (!supplier && shipment.supplierCode) {
+      supplier = await prisma.supplier.findFirst({
+        where: { tenantId, code: shipment.supplierCode, isActive: true },
+        select: { id: true, code: true, name: true },
+      });
+    }
+
+    if (!supplier) {
+      const message = shipment.supplierCode
+        ? `Supplier code ${shipment.supplierCode} not found`
+        : 'No supplier identified in document';
+      errors.push(message);
+      issues.push({
+        segmentIndex: shipment.segmentIndex,
+        segmentId: 'SUPPLIER',
+        severity: 'ERROR',
+        message,
+      });
+    }
+
+    const expectedArrivalDate = shipment.expectedArrivalDate || shipment.shipDate;
+    if (!expectedArrivalDate) {
+      const message = 'No expected arrival or ship date in document';
+      errors.push(message);
+      issues.push({
+        segmentIndex: shipment.segmentIndex,
+        segmentId: 'DTM',
+        severity: 'ERROR',
+        message,
+      });
+    }
+
+    const items = [...shipment.items].sort((a, b) => a.segmentIndex - b.segmentIndex);
+    const lines: StagedImportLine[] = [];
+
+    for (const [lineIndex, item] of items.entries()) {
+      // Only errors within the item's own segments, never a later shipment's
+      const endSegment =
+        item.endSegmentIndex ?? items[lineIndex + 1]?.segmentIndex ?? nextShipmentSegment ?? Number.MAX_SAFE_INTEGER;
+      const lineErrors = parserIssues
+        .filter(
+          (issue) =>
+            issue.severity === 'ERROR' &&
+            issue.segmentIndex >= item.segmentIndex &&
+            issue.segmentIndex < endSegment
+        )
+        .map((issue) => `${issue.segmentId}: ${issue.message}`);
+
+      const line: StagedImportLine = {
+        lineIndex,
+        segmentIndex: item.segmentIndex,
+        lineNumber: item.lineNumber,
+        poNumber: item.poNumber,
+        packId: item.packId,
+        supplierItemCode: item.supplierItemCode,
+        buyerItemCode: item.buyerItemCode,
+        gtin: item.gtin,
+        description: item.description,
+        quantity: item.quantity,
+        uom: item.uom,
+        batchNumber: item.batchNumber,
+        expiryDate: item.expiryDate?.toISOString(),
+        serialNumbers: item.serialNumbers,
+        errors: lineErrors,
+        excluded: false,
+      };
+
+      const match = await this.resolveSKU(tenantId, supplier?.id, item);
+      if (match) {
+        line.skuId = match.sku.id;
+        line.skuCode = match.sku.code;
+        line.productName = match.sku.name;
+        line.uom = line.uom || match.sku.uom;
+        line.matchedBy = match.source;
+      } else {
+        const message = `SKU not found for ${this.describeItem(item)}`;
+        line.errors.push(message);
+        issues.push({
+          segmentIndex: item.segmentIndex,
+          segmentId: 'LIN',
+          severity: 'ERROR',
+          message,
+        });
+      }
+
+      lines.push(line);
+    }
+
+    return {
+      shipmentIndex,
+      segmentIndex: shipment.segmentIndex,
+      shipmentId: shipment.shipmentId,
+      supplierId: supplier?.id,
+      supplierCode: supplier?.code || shipment.supplierCode,
+      supplierName: supplier?.name || shipment.supplierName,
+      carrier: shipment.carrier,
+      trackingNumber: shipment.trackingNumber,
+      shipDate: shipment.shipDate?.toISOString(),
+      expectedArrivalDate: expectedArrivalDate?.toISOString(),
+      poNumbers: shipment.poNumbers,
+      errors,
+      lines,
+    };
+  }
+
+  /**
+   * Resolve a SKU by supplier item code, then GTIN, then buyer item code
+   */
+  private async resolveSKU(
+    tenantId: string,
+    supplierId: string | undefined,
+    item: ParsedASNItem
+  ) {
+    if (supplierId && item.supplierItemCode) {
+      const supplierItem = await prisma.supplierItem.findFirst({
+        where: {
+          tenantId,
+          supplierId,
+          supplierItemCode: item.supplierItemCode,
+          isActive: true,
+          sku: { isActive: true },
+        },
+        include: { sku: true },
+      });
+
+      if (supplierItem) {
+        return { sku: supplierItem.sku, source: 'SUPPLIER_ITEM' as SKUMatchSource };
+      }
+    }
+
+    if (item.gtin) {
+      const sku = await barcodeService.findSKUByGTIN(tenantId, item.gtin);
+
+      if (sku) {
+        return { sku, source: 'GTIN' as SKUMatchSource };
+      }
+    }
+
+    if (item.buyerItemCode) {
+      const sku = await prisma.sKU.findFirst({
+        where: { tenantId, code: item.buyerItemCode, isActive: true },
+      });
+
+      if (sku) {
+        return { sku, source: 'SKU_CODE' as SKUMatchSource };
+      }
+    }
+
+    return null;
+  }
+
+  private describeItem(item: ParsedASNItem): string {
+    const identifiers = [
+      item.supplierItemCode && `supplier item ${item.supplierItemCode}`,
+      item.gtin && `GTIN ${item.gtin}`,
+      item.buyerItemCode && `buyer item ${item.buyerItemCode}`,
+    ].filter(Boolean);
+
+    return identifiers.length > 0 ? identifiers.join(', ') : `line ${item.lineNumber}`;
+  }
+
+  private isLineCommittable(line: StagedImportLine): boolean {
+    return (
+      !line.excluded &&
+      line.errors.length === 0 &&
+      !!line.skuId &&
+      line.quantity !== undefined &&
+      line.quantity > 0
+    );
+  }
+}
+
+export default new ASNImportService();
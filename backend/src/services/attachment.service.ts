@@ -0,0 +1,373 @@
+import crypto from 'crypto';
+import path from 'path';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import { Attachment, AttachmentEntityType, AttachmentLink } from '@prisma/client';
+import prisma from '../config/database';
+import {
+  defaultStorageDriver,
+  getStorageDriver,
+  LocalStorageDriver,
+  StorageDriverName,
+} from '../config/storage';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+
+export interface UploadAttachmentsInput {
+  tenantId: string;
+  uploadedById: string;
+  files: Express.Multer.File[];
+  // Link every uploaded file to this entity
+  entityType?: AttachmentEntityType;
+  entityId?: string;
+}
+
+export type AttachmentWithUrls = Attachment & {
+  url: string;
+  thumbnailUrl: string | null;
+  urlExpiresAt: Date;
+};
+
+export interface OrphanCleanupResult {
+  attachmentsRemoved: number;
+  filesRemoved: number;
+}
+
+const THUMBNAIL_SIZE = 320;
+const URL_TTL_SECONDS = Number(process.env.ATTACHMENT_URL_TTL_SECONDS) || 15 * 60;
+const ORPHAN_GRACE_HOURS = Number(process.env.ATTACHMENT_ORPHAN_GRACE_HOURS) || 24;
+// Other documents (e.g. GRNs) share the bucket; the orphan sweep stays under this prefix
+const KEY_PREFIX = 'attachments/';
+
+// Leading bytes of the types we accept, so a renamed file can't pass as an image
+const SIGNATURES: { mimeType: string; matches: (buffer: Buffer) => boolean }[] = [
+  { mimeType: 'image/jpeg', matches: (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  { mimeType: 'image/png', matches: (b) => b.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) },
+  { mimeType: 'image/gif', matches: (b) => b.subarray(0, 4).toString('latin1') === 'GIF8' },
+  { mimeType: 'image/webp', matches: (b) => b.subarray(0, 4).toString('latin1') === 'RIFF' && b.subarray(8, 12).toString('latin1') === 'WEBP' },
+  { mimeType: 'application/pdf', matches: (b) => b.subarray(0, 5).toString('latin1') === '%PDF-' },
+];
+
+const normalizeMimeType = (mimeType: string): string =>
+  mimeType.toLowerCase() === 'image/jpg' ? 'image/jpeg' : mimeType.toLowerCase();
+
+// Tenant-scoped existence checks for the entities attachments can link to
+const ENTITY_LOOKUPS: Record<AttachmentEntityType, (id: string, tenantId: string) => Promise<unknown>> = {
+  ASN: (id, tenantId) => prisma.aSN.findFirst({ where: { id, tenantId }, select: { id: true } }),
+  ASN_LINE: (id, tenantId) => prisma.aSNLine.findFirst({ where: { id, tenantId }, select: { id: true } }),
+  BLIND_RECEIPT: (id, tenantId) => prisma.blindReceipt.findFirst({ where: { id, tenantId }, select: { id: true } }),
+  BLIND_RECEIPT_LINE: (id, tenantId) =>
+    prisma.blindReceiptLine.findFirst({ where: { id, tenantId }, select: { id: true } }),
+  VARIANCE: (id, tenantId) => prisma.variance.findFirst({ where: { id, tenantId }, select: { id: true } }),
+  RETURN_AUTHORIZATION: (id, tenantId) =>
+    prisma.returnAuthorization.findFirst({ where: { id, tenantId }, select: { id: true } }),
+  RETURN_LINE: (id, tenantId) =>
+    prisma.returnAuthorizationLine.findFirst({ where: { id, tenantId }, select: { id: true } }),
+  QA_INSPECTION: (id, tenantId) => prisma.qAInspection.findFirst({ where: { id, tenantId }, select: { id: true } }),
+  NEW_SKU_REQUEST: (id, tenantId) =>
+    prisma.newSkuRequest.findFirst({ where: { id, tenantId }, select: { id: true } }),
+  PURCHASE_ORDER: (id, tenantId) =>
+    prisma.purchaseOrder.findFirst({ where: { id, tenantId }, select: { id: true } }),
+};
+
+export class AttachmentService {
+  /**
+   * Store uploaded files, with a thumbnail for images, and optionally link
+   * them to an entity
+   */
+  async upload(input: UploadAttachmentsInput): Promise<AttachmentWithUrls[]> {
+    if (input.files.length === 0) {
+      throw new AppError('No files uploaded', 400);
+    }
+
+    if (input.entityType && input.entityId) {
+      await this.assertEntityExists(input.entityType, input.entityId, input.tenantId);
+    }
+
+    const files = input.files.map((file) => ({ file, mimeType: this.checkContent(file) }));
+    const storage = defaultStorageDriver();
+    const attachments: AttachmentWithUrls[] = [];
+
+    for (const { file, mimeType } of files) {
+      const now = new Date();
+      const id = crypto.randomUUID();
+      const extension = path.extname(file.originalname).toLowerCase().replace(/[^.a-z0-9]/g, '');
+      const folder = `${KEY_PREFIX}${input.tenantId}/${now.getUTCFullYear()}/${String(now.getUTCMonth() + 1).padStart(2, '0')}`;
+      const storageKey = `${folder}/${id}${extension}`;
+
+      await storage.put(storageKey, file.buffer, mimeType);
+
+      let thumbnailKey: string | null = null;
+      let dimensions: { width?: number; height?: number } = {};
+      if (mimeType.startsWith('image/')) {
+        try {
+          const image = sharp(file.buffer).rotate();
+          const metadata = await image.metadata();
+          const thumbnail = await image
+            .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+            .jpeg({ quality: 75 })
+            .toBuffer();
+          thumbnailKey = `${folder}/thumbnails/${id}.jpg`;
+          await storage.put(thumbnailKey, thumbnail, 'image/jpeg');
+          dimensions = { width: metadata.width, height: metadata.height };
+        } catch (error) {
+          // Keep the original; the client falls back to it without a thumbnail
+          logger.warn(`Thumbnail generation failed for ${file.originalname}:`, error);
+          thumbnailKey = null;
+        }
+      }
+
+      const attachment = await prisma.attachment.create({
+        data: {
+          id,
+          tenantId: input.tenantId,
+          storageDriver: storage.name,
+          storageKey,
+          thumbnailKey,
+          fileName: file.originalname,
+          mimeType,
+          sizeBytes: file.size,
+          checksum: crypto.createHash('sha256').update(file.buffer).digest('hex'),
+          width: dimensions.width,
+          height: dimensions.height,
+          uploadedById: input.uploadedById,
+          ...(input.entityType &&
+            input.entityId && {
+              links: {
+                create: {
+                  tenantId: input.tenantId,
+                  entityType: input.entityType,
+                  entityId: input.entityId,
+                  linkedById: input.uploadedById,
+                },
+              },
+            }),
+        },
+      });
+
+      attachments.push(await this.withUrls(attachment));
+    }
+
+    return attachments;
+  }
+
+  /**
+   * Link an attachment to an entity
+   */
+  async link(
+    id: string,
+    tenantId: string,
+    entityType: AttachmentEntityType,
+    entityId: string,
+    linkedById: string
+  ): Promise<AttachmentLink> {
+    await this.getAttachment(id, tenantId);
+    await this.assertEntityExists(entityType, entityId, tenantId);
+
+    return prisma.attachmentLink.upsert({
+      where: { attachmentId_entityType_entityId: { attachmentId: id, entityType, entityId } },
+      create: { tenantId, attachmentId: id, entityType, entityId, linkedById },
+      update: {},
+    });
+  }
+
+  /**
+   * Remove an attachment's link to an entity. Attachments left without links
+   * are removed by the orphan cleanup.
+   */
+  async unlink(id: string, tenantId: string, entityType: AttachmentEntityType, entityId: string): Promise<void> {
+    const { count } = await prisma.attachmentLink.deleteMany({
+      where: { attachmentId: id, tenantId, entityType, entityId },
+    });
+
+    if (count === 0) {
+      throw new AppError('Attachment link not found', 404);
+    }
+  }
+
+  /**
+   * Get the attachments linked to an entity, with signed download URLs
+   */
+  async getForEntity(
+    tenantId: string,
+    entityType: AttachmentEntityType,
+    entityId: string
+  ): Promise<AttachmentWithUrls[]> {
+    const attachments = await prisma.attachment.findMany({
+      where: { tenantId, links: { some: { entityType, entityId } } },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return Promise.all(attachments.map((attachment) => this.withUrls(attachment)));
+  }
+
+  /**
+   * Get attachment by ID with its links and signed download URLs
+   */
+  async getById(id: string, tenantId: string): Promise<AttachmentWithUrls & { links: AttachmentLink[] }> {
+    const attachment = await prisma.attachment.findFirst({
+      where: { id, tenantId },
+      include: { links: true },
+    });
+
+    if (!attachment) {
+      throw new AppError('Attachment not found', 404);
+    }
+
+    return { ...(await this.withUrls(attachment)), links: attachment.links };
+  }
+
+  /**
+   * Delete an attachment, its stored files and its links
+   */
+  async delete(id: string, tenantId: string): Promise<void> {
+    const attachment = await this.getAttachment(id, tenantId);
+
+    await prisma.attachment.delete({ where: { id } });
+    await this.removeFiles(attachment);
+  }
+
+  /**
+   * Resolve a signed local download token to the file stream
+   */
+  async openLocalFile(token: string): Promise<{ stream: Readable; fileName: string; contentType: string }> {
+    const storage = getStorageDriver('LOCAL') as LocalStorageDriver;
+    const file = storage.verifyToken(token);
+
+    if (!file) {
+      throw new AppError('Download link is invalid or has expired', 403);
+    }
+
+    try {
+      return { stream: await storage.get(file.key), fileName: file.fileName, contentType: file.contentType };
+    } catch (error) {
+      throw new AppError('File not found', 404);
+    }
+  }
+
+  /**
+   * Remove attachments that were never linked (or lost every link) once
+   * the grace period has passed, and stored files with no attachment row
+   */
+  async cleanupOrphans(graceHours = ORPHAN_GRACE_HOURS): Promise<OrphanCleanupResult> {
+    const cutoff = new Date(Date.now() - graceHours * 60 * 60 * 1000);
+
+    const orphans = await prisma.attachment.findMany({
+      where: { createdAt: { lt: cutoff }, links: { none: {} } },
+    });
+
+    let attachmentsRemoved = 0;
+    for (const attachment of orphans) {
+      // Re-check for links so a file linked since the query is kept
+      const { count } = await prisma.attachment.deleteMany({
+        where: { id: attachment.id, links: { none: {} } },
+      });
+      if (count > 0) {
+        await this.removeFiles(attachment);
+        attachmentsRemoved++;
+      }
+    }
+
+    let filesRemoved = 0;
+    for (const driverName of ['LOCAL', 'S3'] as StorageDriverName[]) {
+      if (driverName !== defaultStorageDriver().name && !(await this.isDriverInUse(driverName))) {
+        continue;
+      }
+
+      const storage = getStorageDriver(driverName);
+      const stale = (await storage.list(KEY_PREFIX)).filter((object) => object.lastModified < cutoff);
+
+      for (let i = 0; i < stale.length; i += 500) {
+        const batch = stale.slice(i, i + 500).map((object) => object.key);
+        const known = await prisma.attachment.findMany({
+          where: {
+            storageDriver: driverName,
+            OR: [{ storageKey: { in: batch } }, { thumbnailKey: { in: batch } }],
+          },
+          select: { storageKey: true, thumbnailKey: true },
+        });
+        const knownKeys = new Set(known.flatMap((a) => [a.storageKey, a.thumbnailKey]));
+
+        for (const key of batch.filter((k) => !knownKeys.has(k))) {
+          await storage.delete(key);
+          filesRemoved++;
+        }
+      }
+    }
+
+    if (attachmentsRemoved > 0 || filesRemoved > 0) {
+      logger.info(`Attachment cleanup removed ${attachmentsRemoved} attachments and ${filesRemoved} stray files`);
+    }
+
+    return { attachmentsRemoved, filesRemoved };
+  }
+
+  private async getAttachment(id: string, tenantId: string): Promise<Attachment> {
+    const attachment = await prisma.attachment.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!attachment) {
+      throw new AppError('Attachment not found', 404);
+    }
+
+    return attachment;
+  }
+
+  private async assertEntityExists(entityType: AttachmentEntityType, entityId: string, tenantId: string) {
+    const entity = await ENTITY_LOOKUPS[entityType](entityId, tenantId);
+
+    if (!entity) {
+      throw new AppError(`${entityType} ${entityId} not found`, 404);
+    }
+  }
+
+  /**
+   * Check the file content matches its declared type, for the types we
+   * can recognise. Returns the normalised MIME type.
+   */
+  private checkContent(file: Express.Multer.File): string {
+    const declared = normalizeMimeType(file.mimetype);
+    const detected = SIGNATURES.find((signature) => signature.matches(file.buffer));
+    const recognisable = SIGNATURES.some((signature) => signature.mimeType === declared);
+
+    if (recognisable && detected?.mimeType !== declared) {
+      throw new AppError(`${file.originalname} content does not match its type ${declared}`, 415);
+    }
+
+    return declared;
+  }
+
+  private async withUrls(attachment: Attachment): Promise<AttachmentWithUrls> {
+    const storage = getStorageDriver(attachment.storageDriver as StorageDriverName);
+    const options = {
+      fileName: attachment.fileName,
+      contentType: attachment.mimeType,
+      expiresInSeconds: URL_TTL_SECONDS,
+    };
+
+    return {
+      ...attachment,
+      url: await storage.getSignedUrl(attachment.storageKey, options),
+      thumbnailUrl: attachment.thumbnailKey
+        ? await storage.getSignedUrl(attachment.thumbnailKey, { ...options, contentType: 'image/jpeg' })
+        : null,
+      urlExpiresAt: new Date(Date.now() + URL_TTL_SECONDS * 1000),
+    };
+  }
+
+  private async removeFiles(attachment: Attachment): Promise<void> {
+    const storage = getStorageDriver(attachment.storageDriver as StorageDriverName);
+
+    await storage.delete(attachment.storageKey);
+    if (attachment.thumbnailKey) {
+      await storage.delete(attachment.thumbnailKey);
+    }
+  }
+
+  private async isDriverInUse(driverName: StorageDriverName): Promise<boolean> {
+    return (await prisma.attachment.count({ where: { storageDriver: driverName } })) > 0;
+  }
+}
+
+export default new AttachmentService();
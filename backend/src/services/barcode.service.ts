@@ -0,0 +1,36 @@
+import { SKU } from '@prisma/client';
+import prisma from '../config/database';
+import { parseGS1, gtinLookupKeys, GS1ParseResult } from '../utils/gs1Parser';
+
+export interface ResolvedGS1Barcode extends GS1ParseResult {
+  sku: SKU | null;
+}
+
+export class BarcodeService {
+  /**
+   * Parse a GS1 barcode and resolve its GTIN (or content GTIN) to a SKU
+   */
+  async resolveGS1(tenantId: string, barcode: string): Promise<ResolvedGS1Barcode> {
+    const parsed = parseGS1(barcode);
+    const gtin = parsed.gtin || parsed.contentGtin;
+
+    const sku = gtin ? await this.findSKUByGTIN(tenantId, gtin) : null;
+
+    return { ...parsed, sku };
+  }
+
+  /**
+   * Find an active SKU by GTIN, matching GTIN-14/13/12/8 stored forms
+   */
+  async findSKUByGTIN(tenantId: string, gtin: string): Promise<SKU | null> {
+    return prisma.sKU.findFirst({
+      where: {
+        tenantId,
+        isActive: true,
+        gtin: { in: gtinLookupKeys(gtin) },
+      },
+    });
+  }
+}
+
+export default new BarcodeService();
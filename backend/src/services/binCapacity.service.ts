@@ -0,0 +1,460 @@
+import { Prisma, BinReservation, BinReservationStatus, LPN, Location, PutawayTask, SKU, ZoneType } from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import { ItemDimensions } from '../utils/dimensions';
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+/**
+ * What stock adds to a bin. Weight, cube and height are null when the SKU
+ * or LPN has not been measured, and are then not checked.
+ */
+export interface BinLoad {
+  units: number;
+  weightKg: number | null;
+  volumeM3: number | null;
+  heightCm: number | null;
+}
+
+export interface BinRejection {
+  locationId: string;
+  locationCode: string;
+  reasons: string[];
+}
+
+export type LocationWithZone = Location & { zone: { code: string; zoneType: ZoneType } };
+
+export type ReservationTask = Pick<PutawayTask, 'id' | 'tenantId' | 'warehouseId'>;
+
+// How long a putaway task may hold bin space without being worked
+const RESERVATION_TTL_HOURS = Number(process.env.PUTAWAY_RESERVATION_TTL_HOURS ?? 24);
+
+// Bins checked per strategy before giving up on it
+const CANDIDATE_LIMIT = 25;
+
+const ZONE_INCLUDE = { zone: { select: { code: true, zoneType: true } } };
+
+const toNumber = (value: Prisma.Decimal | number | null | undefined): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+const format = (value: number): number => Math.round(value * 1000) / 1000;
+
+const volumeOf = (dimensions: ItemDimensions | null): number | null =>
+  dimensions?.lengthCm && dimensions.widthCm && dimensions.heightCm
+    ? (dimensions.lengthCm * dimensions.widthCm * dimensions.heightCm) / 1_000_000
+    : null;
+
+const sum = (values: Array<number | null>): number | null =>
+  values.some((value) => value === null) ? null : values.reduce<number>((total, value) => total + value!, 0);
+
+const expiry = (from = new Date()): Date => new Date(from.getTime() + RESERVATION_TTL_HOURS * 60 * 60 * 1000);
+
+const rowLoad = (row: BinReservation): BinLoad => ({
+  units: Number(row.units),
+  weightKg: Number(row.weightKg),
+  volumeM3: Number(row.volumeM3),
+  heightCm: null,
+});
+
+const negate = (load: BinLoad): BinLoad => ({
+  units: -load.units,
+  weightKg: load.weightKg === null ? null : -load.weightKg,
+  volumeM3: load.volumeM3 === null ? null : -load.volumeM3,
+  heightCm: load.heightCm,
+});
+
+export class BinCapacityService {
+  /**
+   * Load of a quantity of loose SKU units
+   */
+  itemLoad(sku: SKU, quantity: number): BinLoad {
+    const dimensions = sku.dimensions as unknown as ItemDimensions | null;
+    const unitWeight = toNumber(sku.weightKg);
+    const unitVolume = toNumber(sku.volumeM3) ?? volumeOf(dimensions);
+
+    return {
+      units: quantity,
+      weightKg: unitWeight === null ? null : unitWeight * quantity,
+      volumeM3: unitVolume === null ? null : unitVolume * quantity,
+      heightCm: dimensions?.heightCm ?? null,
+    };
+  }
+
+  /**
+   * Load of SKU units being put away, on their LPN when they travel on one.
+   * The LPN's height always applies; its weight and cube replace the
+   * item's only when the whole LPN is this one quantity of this one SKU.
+   */
+  async measureLoad(sku: SKU, quantity: number, lpnCode?: string | null, client: Client = prisma): Promise<BinLoad> {
+    const load = this.itemLoad(sku, quantity);
+    if (!lpnCode) return load;
+
+    const lpn = await client.lPN.findFirst({
+      where: { tenantId: sku.tenantId, lpnCode },
+    });
+    if (!lpn) return load;
+
+    const dimensions = lpn.dimensions as unknown as ItemDimensions | null;
+    const heightCm = dimensions?.heightCm ?? load.heightCm;
+    const wholeLpn = !lpn.isMixedSku && Number(lpn.totalUnits) === quantity;
+
+    if (!wholeLpn) {
+      return { ...load, heightCm };
+    }
+
+    return {
+      units: quantity,
+      weightKg: toNumber(lpn.totalWeightKg) ?? load.weightKg,
+      volumeM3: volumeOf(dimensions) ?? toNumber(lpn.totalVolumeM3) ?? load.volumeM3,
+      heightCm,
+    };
+  }
+
+  /**
+   * Load of an LPN and everything on it
+   */
+  async measureLpn(lpn: LPN, client: Client = prisma): Promise<BinLoad> {
+    const contents = await client.lPNContent.findMany({
+      where: { lpnId: lpn.id, removedAt: null },
+      include: { sku: true },
+    });
+    const items = contents.map((content) => this.itemLoad(content.sku, Number(content.quantity)));
+    const dimensions = lpn.dimensions as unknown as ItemDimensions | null;
+
+    return {
+      units: Number(lpn.totalUnits),
+      weightKg: toNumber(lpn.totalWeightKg) ?? sum(items.map((item) => item.weightKg)),
+      volumeM3: volumeOf(dimensions) ?? toNumber(lpn.totalVolumeM3) ?? sum(items.map((item) => item.volumeM3)),
+      heightCm: dimensions?.heightCm ?? null,
+    };
+  }
+
+  /**
+   * Share of a putaway task's reserved load for some of its units
+   */
+  taskLoad(task: Pick<PutawayTask, 'quantityToPutaway' | 'weightKg' | 'volumeM3'>, quantity: number): BinLoad {
+    const planned = task.quantityToPutaway.toNumber();
+    const share = planned > 0 ? quantity / planned : 0;
+    const weightKg = toNumber(task.weightKg);
+    const volumeM3 = toNumber(task.volumeM3);
+
+    return {
+      units: quantity,
+      weightKg: weightKg === null ? null : weightKg * share,
+      volumeM3: volumeM3 === null ? null : volumeM3 * share,
+      heightCm: null,
+    };
+  }
+
+  /**
+   * Why a load does not fit a bin, counting what is stored and what is
+   * reserved for open putaway tasks. Empty when it fits.
+   */
+  rejections(location: Location, load: BinLoad): string[] {
+    const reasons: string[] = [];
+    const free = (max: Prisma.Decimal, current: Prisma.Decimal, reserved: Prisma.Decimal) =>
+      format(Number(max) - Number(current) - Number(reserved));
+
+    const units = free(location.maxCapacity, location.currentCapacityUsed, location.reservedCapacity);
+    if (load.units > units) {
+      reasons.push(`${format(load.units)} units exceeds ${units} free`);
+    }
+
+    if (load.weightKg !== null && location.maxWeightKg !== null) {
+      const weight = free(location.maxWeightKg, location.currentWeightKg, location.reservedWeightKg);
+      if (load.weightKg > weight) {
+        reasons.push(`${format(load.weightKg)} kg exceeds ${weight} kg free`);
+      }
+    }
+
+    if (load.volumeM3 !== null && location.maxVolumeM3 !== null) {
+      const volume = free(location.maxVolumeM3, location.currentVolumeM3, location.reservedVolumeM3);
+      if (load.volumeM3 > volume) {
+        reasons.push(`${format(load.volumeM3)} m3 exceeds ${volume} m3 free`);
+      }
+    }
+
+    if (load.heightCm !== null && location.maxHeightCm !== null && load.heightCm > Number(location.maxHeightCm)) {
+      reasons.push(`${format(load.heightCm)} cm tall exceeds ${Number(location.maxHeightCm)} cm clearance`);
+    }
+
+    return reasons;
+  }
+
+  /**
+   * First bin, in the given order, the load fits, with the reasons each
+   * bin before it was passed over
+   */
+  async findFit(
+    where: Prisma.LocationWhereInput,
+    orderBy: Prisma.LocationOrderByWithRelationInput[],
+    load: BinLoad
+  ): Promise<{ location: LocationWithZone | null; rejections: BinRejection[] }> {
+    const candidates = (await prisma.location.findMany({
+      where,
+      orderBy,
+      include: ZONE_INCLUDE,
+      take: CANDIDATE_LIMIT,
+    })) as LocationWithZone[];
+    const rejections: BinRejection[] = [];
+
+    for (const location of candidates) {
+      const reasons = this.rejections(location, load);
+
+      if (reasons.length === 0) {
+        return { location, rejections };
+      }
+
+      rejections.push({ locationId: location.id, locationCode: location.code, reasons });
+    }
+
+    return { location: null, rejections };
+  }
+
+  /**
+   * Throw when a load does not fit a bin
+   */
+  assertFits(location: Location, load: BinLoad): void {
+    const reasons = this.rejections(location, load);
+
+    if (reasons.length > 0) {
+      throw new AppError(`Location ${location.code} cannot take this load: ${reasons.join('; ')}`, 400);
+    }
+  }
+
+  /**
+   * Hold room in a bin for an open putaway task once the load is checked
+   * against the bin with its row locked, so concurrent reservations cannot
+   * both take the same space
+   */
+  async reserveIfFits(
+    task: ReservationTask,
+    locationId: string,
+    load: BinLoad,
+    tx: Prisma.TransactionClient
+  ): Promise<void> {
+    await tx.$queryRaw`SELECT id FROM locations WHERE id = ${locationId} FOR UPDATE`;
+
+    const location = await tx.location.findUniqueOrThrow({ where: { id: locationId } });
+    this.assertFits(location, load);
+
+    await this.reserve(task, locationId, load, tx);
+  }
+
+  /**
+   * Hold room in a bin for an open putaway task, adding to the task's
+   * reservation there if it already has one
+   */
+  async reserve(task: ReservationTask, locationId: string, load: BinLoad, client: Client = prisma): Promise<void> {
+    const existing = await client.binReservation.findFirst({
+      where: { taskId: task.id, locationId, status: 'ACTIVE' },
+    });
+
+    if (existing) {
+      await client.binReservation.update({
+        where: { id: existing.id },
+        data: {
+          units: { increment: load.units },
+          weightKg: { increment: load.weightKg ?? 0 },
+          volumeM3: { increment: load.volumeM3 ?? 0 },
+          expiresAt: expiry(),
+        },
+      });
+    } else {
+      await client.binReservation.create({
+        data: {
+          tenantId: task.tenantId,
+          warehouseId: task.warehouseId,
+          locationId,
+          taskId: task.id,
+          units: load.units,
+          weightKg: load.weightKg ?? 0,
+          volumeM3: load.volumeM3 ?? 0,
+          expiresAt: expiry(),
+        },
+      });
+    }
+
+    await this.update(client, locationId, { reserved: load });
+  }
+
+  /**
+   * Give back part of the room held for a putaway task; the reservation is
+   * released once nothing is left on it
+   */
+  async release(
+    taskId: string,
+    locationId: string,
+    load: BinLoad,
+    reason: string,
+    client: Client = prisma
+  ): Promise<void> {
+    const row = await client.binReservation.findFirst({
+      where: { taskId, locationId, status: 'ACTIVE' },
+    });
+    if (!row) return;
+
+    const held = rowLoad(row);
+    const released: BinLoad = {
+      units: Math.min(load.units, held.units),
+      weightKg: Math.min(load.weightKg ?? 0, held.weightKg!),
+      volumeM3: Math.min(load.volumeM3 ?? 0, held.volumeM3!),
+      heightCm: null,
+    };
+    const emptied = format(held.units - released.units) <= 0;
+
+    await client.binReservation.update({
+      where: { id: row.id },
+      data: {
+        units: { decrement: released.units },
+        weightKg: { decrement: released.weightKg! },
+        volumeM3: { decrement: released.volumeM3! },
+        ...(emptied && { status: 'RELEASED', releasedAt: new Date(), releaseReason: reason }),
+      },
+    });
+
+    await this.update(client, locationId, { reserved: negate(released) });
+  }
+
+  /**
+   * Give back everything a putaway task holds, returning how many
+   * reservations were closed
+   */
+  async releaseTask(
+    taskId: string,
+    reason: string,
+    client: Client = prisma,
+    status: Extract<BinReservationStatus, 'RELEASED' | 'EXPIRED'> = 'RELEASED'
+  ): Promise<number> {
+    const rows = await client.binReservation.findMany({
+      where: { taskId, status: 'ACTIVE' },
+    });
+
+    for (const row of rows) {
+      await this.close(client, row, status, reason);
+    }
+
+    return rows.length;
+  }
+
+  /**
+   * Keep a task's reservation alive while it is being worked. A task whose
+   * reservation has lapsed reserves again, if the bin still has room.
+   */
+  async renew(
+    task: ReservationTask & Pick<PutawayTask, 'destinationLocationId' | 'quantityToPutaway' | 'weightKg' | 'volumeM3'>,
+    tx: Prisma.TransactionClient
+  ): Promise<void> {
+    if (!task.destinationLocationId) return;
+
+    const renewed = await tx.binReservation.updateMany({
+      where: { taskId: task.id, locationId: task.destinationLocationId, status: 'ACTIVE' },
+      data: { expiresAt: expiry() },
+    });
+    if (renewed.count > 0) return;
+
+    const load = this.taskLoad(task, task.quantityToPutaway.toNumber());
+    await this.reserveIfFits(task, task.destinationLocationId, load, tx);
+  }
+
+  /**
+   * Give back the space held by reservations past their expiry, returning
+   * how many lapsed. Their tasks stay open and reserve again when worked.
+   */
+  async expireReservations(now = new Date()): Promise<number> {
+    const lapsed = await prisma.binReservation.findMany({
+      where: { status: 'ACTIVE', expiresAt: { lte: now } },
+    });
+
+    let expired = 0;
+    for (const row of lapsed) {
+      await prisma.$transaction(async (tx) => {
+        // Skip rows renewed or closed since the query
+        const current = await tx.binReservation.findFirst({
+          where: { id: row.id, status: 'ACTIVE', expiresAt: { lte: now } },
+        });
+        if (!current) return;
+
+        await this.close(tx, current, 'EXPIRED', 'Reservation expired');
+        expired++;
+      });
+    }
+
+    if (expired > 0) {
+      logger.info(`Expired ${expired} putaway bin reservations`);
+    }
+
+    return expired;
+  }
+
+  /**
+   * Turn a task's reservation into stored stock once the putaway is confirmed
+   */
+  async commit(taskId: string, locationId: string, stored: BinLoad, client: Client = prisma): Promise<void> {
+    const rows = await client.binReservation.findMany({
+      where: { taskId, status: 'ACTIVE' },
+    });
+
+    for (const row of rows) {
+      await this.close(client, row, 'CONSUMED', null);
+    }
+
+    await this.update(client, locationId, { current: stored });
+  }
+
+  /**
+   * Add stock to (or, with a negative load, take stock out of) a bin
+   */
+  async store(locationId: string, load: BinLoad, client: Client = prisma): Promise<void> {
+    await this.update(client, locationId, { current: load });
+  }
+
+  /**
+   * Move stored stock from one bin to another
+   */
+  async move(fromLocationId: string, toLocationId: string, load: BinLoad, client: Client = prisma): Promise<void> {
+    await this.update(client, fromLocationId, { current: negate(load) });
+    await this.update(client, toLocationId, { current: load });
+  }
+
+  private async close(
+    client: Client,
+    row: BinReservation,
+    status: Exclude<BinReservationStatus, 'ACTIVE'>,
+    reason: string | null
+  ): Promise<void> {
+    await client.binReservation.update({
+      where: { id: row.id },
+      data: { status, releasedAt: new Date(), releaseReason: reason },
+    });
+
+    await this.update(client, row.locationId, { reserved: negate(rowLoad(row)) });
+  }
+
+  private async update(
+    client: Client,
+    locationId: string,
+    changes: { reserved?: BinLoad; current?: BinLoad }
+  ): Promise<void> {
+    const { reserved, current } = changes;
+
+    await client.location.update({
+      where: { id: locationId },
+      data: {
+        ...(reserved && {
+          reservedCapacity: { increment: reserved.units },
+          reservedWeightKg: { increment: reserved.weightKg ?? 0 },
+          reservedVolumeM3: { increment: reserved.volumeM3 ?? 0 },
+        }),
+        ...(current && {
+          currentCapacityUsed: { increment: current.units },
+          currentWeightKg: { increment: current.weightKg ?? 0 },
+          currentVolumeM3: { increment: current.volumeM3 ?? 0 },
+        }),
+      },
+    });
+  }
+}
+
+export default new BinCapacityService();
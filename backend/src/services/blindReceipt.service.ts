@@ -1,7 +1,15 @@
-import { Prisma, BlindReceipt, BlindReceiptLine, BlindReceiptStatus } from '@prisma/client';
+import { Prisma, BlindReceipt, BlindReceiptLine, BlindReceiptStatus, UserRole } from '@prisma/client';
 import prisma from '../config/database';
 import { generateSequentialNumber } from '../utils/helpers';
 import { AppError } from '../middleware/errorHandler';
+import { ItemDimensions } from '../utils/dimensions';
+import toleranceProfileService, { ToleranceEvaluation } from './toleranceProfile.service';
+import purchaseOrderService from './purchaseOrder.service';
+import qaInspectionService from './qaInspection.service';
+import coldChainService, { TemperatureCheck } from './coldChain.service';
+import newSkuRequestService from './newSkuRequest.service';
+import grnService from './grn.service';
+import approvalService, { ApprovalSubject } from './approval.service';
 
 export interface CreateBlindReceiptInput {
   tenantId: string;
@@ -39,6 +47,11 @@ export interface AddBlindReceiptLineInput {
   estimatedUnitCost?: number;
   photoEvidenceUrls?: string[];
   receiverNotes?: string;
+  purchaseOrderLineId?: string;
+  // Item not in the catalogue; opens a new SKU request on submit
+  isNewItem?: boolean;
+  weightKg?: number;
+  dimensions?: ItemDimensions;
 }
 
 export class BlindReceiptService {
@@ -227,6 +240,14 @@ export class BlindReceiptService {
       skuId = sku?.id;
     }
 
+    if (data.isNewItem && skuId) {
+      throw new AppError(`SKU ${data.skuCode} already exists and cannot be received as a new item`, 409);
+    }
+
+    if (data.purchaseOrderLineId) {
+      await this.checkPurchaseOrderLine(data.tenantId, data.purchaseOrderLineId, skuId, data.quantityReceived);
+    }
+
     const line = await prisma.blindReceiptLine.create({
       data: {
         blindReceiptId: data.blindReceiptId,
@@ -247,6 +268,10 @@ export class BlindReceiptService {
         estimatedUnitCost: data.estimatedUnitCost,
         photoEvidenceUrls: data.photoEvidenceUrls || [],
         receiverNotes: data.receiverNotes,
+        purchaseOrderLineId: data.purchaseOrderLineId,
+        isNewItem: data.isNewItem || false,
+        weightKg: data.weightKg,
+        dimensions: data.dimensions as Prisma.InputJsonValue | undefined,
         lineStatus: 'DRAFT',
       },
       include: {
@@ -281,6 +306,18 @@ export class BlindReceiptService {
       throw new AppError('Cannot update line on submitted receipt', 400);
     }
 
+    const purchaseOrderLineId =
+      updates.purchaseOrderLineId !== undefined ? updates.purchaseOrderLineId : line.purchaseOrderLineId;
+    if (purchaseOrderLineId && (updates.purchaseOrderLineId !== undefined || updates.quantityReceived !== undefined)) {
+      await this.checkPurchaseOrderLine(
+        tenantId,
+        purchaseOrderLineId,
+        line.skuId,
+        updates.quantityReceived ?? line.quantityReceived.toNumber(),
+        lineId
+      );
+    }
+
     return prisma.blindReceiptLine.update({
       where: { id: lineId },
       data: {
@@ -290,10 +327,39 @@ export class BlindReceiptService {
         ...(updates.condition !== undefined && { condition: updates.condition }),
         ...(updates.receiverNotes !== undefined && { receiverNotes: updates.receiverNotes }),
         ...(updates.photoEvidenceUrls !== undefined && { photoEvidenceUrls: updates.photoEvidenceUrls }),
+        ...(updates.purchaseOrderLineId !== undefined && { purchaseOrderLineId: updates.purchaseOrderLineId }),
+        ...(updates.weightKg !== undefined && { weightKg: updates.weightKg }),
+        ...(updates.dimensions !== undefined && { dimensions: updates.dimensions as Prisma.InputJsonValue }),
       },
     });
   }
 
+  /**
+   * Check that a blind receipt line can be received against a PO line:
+   * same tenant and SKU, and within the PO's over-receipt tolerance
+   */
+  private async checkPurchaseOrderLine(
+    tenantId: string,
+    purchaseOrderLineId: string,
+    skuId: string | null | undefined,
+    quantity: number,
+    blindReceiptLineId?: string
+  ): Promise<void> {
+    const poLine = await prisma.purchaseOrderLine.findFirst({
+      where: { id: purchaseOrderLineId, tenantId },
+    });
+
+    if (!poLine) {
+      throw new AppError('Purchase order line not found', 404);
+    }
+
+    if (poLine.skuId !== skuId) {
+      throw new AppError(`Purchase order line ${poLine.lineNumber} is for SKU ${poLine.skuCode}`, 400);
+    }
+
+    await purchaseOrderService.assertWithinOrder(purchaseOrderLineId, quantity, { blindReceiptLineId });
+  }
+
   /**
    * Delete line item
    */
@@ -319,7 +385,9 @@ export class BlindReceiptService {
   }
 
   /**
-   * Submit blind receipt for supervisor approval
+   * Submit blind receipt for approval. Lines within the auto-accept band of
+   * their tolerance profile complete immediately; if every line does, the
+   * receipt is approved without review.
    */
   async submitForApproval(
     id: string,
@@ -328,7 +396,7 @@ export class BlindReceiptService {
   ): Promise<BlindReceipt> {
     const receipt = await prisma.blindReceipt.findFirst({
       where: { id, tenantId },
-      include: { lines: true },
+      include: { lines: { include: { sku: true } } },
     });
 
     if (!receipt) {
@@ -343,34 +411,77 @@ export class BlindReceiptService {
       throw new AppError('Cannot submit receipt with no lines', 400);
     }
 
-    return prisma.blindReceipt.update({
+    const evaluations = await this.evaluateLines(receipt);
+    const excursions = await this.checkTemperatures(receipt);
+    const autoAccepted = receipt.lines.filter(
+      (line) => evaluations.get(line.id)!.outcome === 'AUTO_ACCEPT' && !excursions.has(line.id)
+    );
+    const allAccepted = autoAccepted.length === receipt.lines.length;
+
+    await prisma.$transaction([
+      prisma.blindReceiptLine.updateMany({
+        where: { id: { in: autoAccepted.map((line) => line.id) } },
+        data: { lineStatus: 'COMPLETED' },
+      }),
+      prisma.blindReceiptLine.updateMany({
+        where: { blindReceiptId: id, id: { notIn: autoAccepted.map((line) => line.id) } },
+        data: { lineStatus: 'PENDING' },
+      }),
+    ]);
+
+    const submitted = await prisma.blindReceipt.update({
       where: { id },
       data: {
-        status: 'PENDING_APPROVAL',
+        status: allAccepted ? 'APPROVED' : 'PENDING_APPROVAL',
         submittedById,
         submittedAt: new Date(),
-        lines: {
-          updateMany: {
-            where: { blindReceiptId: id },
-            data: { lineStatus: 'PENDING' },
-          },
-        },
+        ...(allAccepted && { reviewedAt: new Date() }),
       },
     });
+
+    for (const line of receipt.lines.filter((l) => excursions.has(l.id))) {
+      await coldChainService.raiseExcursion(excursions.get(line.id)!, {
+        tenantId,
+        warehouseId: receipt.warehouseId,
+        receiptType: 'BLIND',
+        blindReceiptId: id,
+        receiptLineId: line.id,
+        skuId: line.skuId,
+        skuCode: line.skuCode,
+        productName: line.productName,
+        quantity: line.quantityReceived.toNumber(),
+        unitCost: line.estimatedUnitCost?.toNumber() ?? line.sku?.unitCost?.toNumber() ?? 0,
+        batchNumber: line.batchNumber,
+        expiryDate: line.expiryDate,
+        submittedById,
+      });
+    }
+
+    await purchaseOrderService.refreshLines(autoAccepted.map((line) => line.purchaseOrderLineId));
+    await qaInspectionService.openForBlindReceipt(id, autoAccepted.map((line) => line.id));
+    await newSkuRequestService.openForBlindReceipt(id);
+
+    if (allAccepted) {
+      await grnService.issue('BLIND', id, submittedById);
+    }
+
+    return submitted;
   }
 
   /**
-   * Supervisor approves blind receipt
+   * Approve blind receipt through its approval chain. Without a tenant chain,
+   * lines outside supervisor tolerance require a manager.
    */
   async approve(
     id: string,
     tenantId: string,
     reviewedById: string,
+    reviewerRole: UserRole,
     supervisorNotes?: string
   ): Promise<BlindReceipt> {
     const receipt = await prisma.blindReceipt.findFirst({
       where: { id, tenantId },
-      include: { lines: true },
+      include: { lines: { include: { sku: true } } },
     });
 
     if (!receipt) {
@@ -381,23 +492,127 @@ export class BlindReceiptService {
       throw new AppError('Receipt not pending approval', 400);
     }
 
-    // Update all lines to approved
-    await prisma.blindReceiptLine.updateMany({
-      where: { blindReceiptId: id },
-      data: {
-        lineStatus: 'COMPLETED',
+    const subject = await this.toApprovalSubject(receipt);
+
+    const approved = await prisma.$transaction(async (tx) => {
+      const approval = await approvalService.decide(
+        subject,
+        { id: reviewedById, tenantId, role: reviewerRole },
+        'APPROVED',
         supervisorNotes,
-      },
-    });
+        tx
+      );
 
-    return prisma.blindReceipt.update({
-      where: { id },
-      data: {
+      // Further approvers in the chain still have to sign off
+      if (approval?.status === 'PENDING') {
+        return null;
+      }
+
+      await this.claimPendingApproval(tx, receipt, {
         status: 'APPROVED',
         reviewedById,
         reviewedAt: new Date(),
+      });
+
+      // Update pending lines to approved
+      await tx.blindReceiptLine.updateMany({
+        where: { blindReceiptId: id, lineStatus: { not: 'COMPLETED' } },
+        data: {
+          lineStatus: 'COMPLETED',
+          supervisorNotes,
+        },
+      });
+
+      return tx.blindReceipt.findUniqueOrThrow({ where: { id } });
+    });
+
+    if (!approved) {
+      return receipt;
+    }
+
+    await purchaseOrderService.refreshLines(receipt.lines.map((line) => line.purchaseOrderLineId));
+    await qaInspectionService.openForBlindReceipt(
+      id,
+      receipt.lines.filter((line) => line.lineStatus !== 'COMPLETED').map((line) => line.id)
+    );
+    await grnService.issue('BLIND', id, reviewedById);
+
+    return approved;
+  }
+
+  /**
+   * Facts the approval engine routes a blind receipt on. The receipt needs
+   * a manager when any line is outside supervisor tolerance.
+   */
+  private async toApprovalSubject(
+    receipt: BlindReceipt & { lines: (BlindReceiptLine & { sku: { category: string | null; unitCost: Prisma.Decimal | null } | null })[] }
+  ): Promise<ApprovalSubject> {
+    const evaluations = await this.evaluateLines(receipt);
+    const needsManager = receipt.lines.some((line) => evaluations.get(line.id)!.approvalLevel === 'MANAGER');
+
+    return {
+      tenantId: receipt.tenantId,
+      documentType: 'BLIND_RECEIPT',
+      documentId: receipt.id,
+      documentNumber: receipt.receiptNumber,
+      warehouseId: receipt.warehouseId,
+      value: receipt.estimatedValue?.toNumber() ?? null,
+      requestedById: receipt.submittedById ?? receipt.createdById,
+      approvalLevel: needsManager ? 'MANAGER' : 'SUPERVISOR',
+    };
+  }
+
+  /**
+   * Evaluate blind receipt lines as unplanned quantities against the
+   * tolerance profile for their SKU, category or supplier
+   */
+  private async evaluateLines(
+    receipt: BlindReceipt & { lines: (BlindReceiptLine & { sku: { category: string | null; unitCost: Prisma.Decimal | null } | null })[] }
+  ): Promise<Map<string, ToleranceEvaluation>> {
+    const supplier = await prisma.supplier.findFirst({
+      where: {
+        tenantId: receipt.tenantId,
+        name: { equals: receipt.supplierName, mode: 'insensitive' },
       },
     });
+
+    const evaluations = new Map<string, ToleranceEvaluation>();
+    for (const line of receipt.lines) {
+      const evaluation = await toleranceProfileService.evaluateLine(
+        receipt.tenantId,
+        { skuId: line.skuId, skuCategory: line.sku?.category, supplierId: supplier?.id },
+        {
+          expectedQuantity: 0,
+          receivedQuantity: line.quantityReceived.toNumber(),
+          unitCost: line.estimatedUnitCost?.toNumber() ?? line.sku?.unitCost?.toNumber() ?? 0,
+        }
+      );
+      evaluations.set(line.id, evaluation);
+    }
+
+    return evaluations;
+  }
+
+  /**
+   * Check line temperature readings against SKU and receiving zone limits.
+   * Returns the out-of-range lines only.
+   */
+  private async checkTemperatures(
+    receipt: BlindReceipt & { lines: (BlindReceiptLine & { sku: { temperatureMin: Prisma.Decimal | null; temperatureMax: Prisma.Decimal | null } | null })[] }
+  ): Promise<Map<string, TemperatureCheck>> {
+    const excursions = new Map<string, TemperatureCheck>();
+    for (const line of receipt.lines) {
+      const check = await coldChainService.checkReading(
+        line.sku,
+        receipt.receivingZoneId,
+        line.temperatureReading?.toNumber()
+      );
+      if (check && !check.inRange) {
+        excursions.set(line.id, check);
+      }
+    }
+
+    return excursions;
   }
 
   /**
@@ -407,10 +622,12 @@ export class BlindReceiptService {
     id: string,
     tenantId: string,
     reviewedById: string,
+    reviewerRole: UserRole,
     rejectionReason: string
   ): Promise<BlindReceipt> {
     const receipt = await prisma.blindReceipt.findFirst({
       where: { id, tenantId },
+      include: { lines: { include: { sku: true } } },
     });
 
     if (!receipt) {
@@ -421,15 +638,52 @@ export class BlindReceiptService {
       throw new AppError('Receipt not pending approval', 400);
     }
 
-    return prisma.blindReceipt.update({
-      where: { id },
-      data: {
+    const subject = await this.toApprovalSubject(receipt);
+
+    const rejected = await prisma.$transaction(async (tx) => {
+      await approvalService.decide(
+        subject,
+        { id: reviewedById, tenantId, role: reviewerRole },
+        'REJECTED',
+        rejectionReason,
+        tx
+      );
+
+      await this.claimPendingApproval(tx, receipt, {
         status: 'REJECTED',
         reviewedById,
         reviewedAt: new Date(),
         rejectionReason,
-      },
+      });
+
+      return tx.blindReceipt.findUniqueOrThrow({ where: { id } });
     });
+
+    // Lines auto-accepted on submit no longer count toward their PO
+    await purchaseOrderService.refreshLines(receipt.lines.map((line) => line.purchaseOrderLineId));
+    await qaInspectionService.cancelOpenInspections({ blindReceiptId: id });
+    await newSkuRequestService.closeForBlindReceipt(id, reviewedById);
+
+    return rejected;
+  }
+
+  /**
+   * Move a receipt out of PENDING_APPROVAL, failing if another reviewer
+   * already has, so its approval decision is rolled back with it
+   */
+  private async claimPendingApproval(
+    tx: Prisma.TransactionClient,
+    receipt: BlindReceipt,
+    data: Prisma.BlindReceiptUpdateManyMutationInput
+  ): Promise<void> {
+    const claimed = await tx.blindReceipt.updateMany({
+      where: { id: receipt.id, status: 'PENDING_APPROVAL' },
+      data,
+    });
+
+    if (claimed.count === 0) {
+      throw new AppError(`Receipt ${receipt.receiptNumber} is no longer pending approval`, 409);
+    }
   }
 
   /**
@@ -0,0 +1,312 @@
+import { Prisma, CapacityReconciliation, PutawayStatus } from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import binCapacityService from './binCapacity.service';
+
+export type CapacityField =
+  | 'currentCapacityUsed'
+  | 'currentWeightKg'
+  | 'currentVolumeM3'
+  | 'reservedCapacity'
+  | 'reservedWeightKg'
+  | 'reservedVolumeM3';
+
+export interface CapacityDrift {
+  locationId: string;
+  locationCode: string;
+  field: CapacityField;
+  recorded: number;
+  actual: number;
+  difference: number;
+}
+
+type LocationCapacity = Record<CapacityField, number>;
+
+// Putaway tasks that may still hold bin space
+const OPEN_TASK_STATUSES: PutawayStatus[] = ['PENDING', 'ASSIGNED', 'IN_PROGRESS', 'ON_HOLD'];
+
+const FIELDS: CapacityField[] = [
+  'currentCapacityUsed',
+  'currentWeightKg',
+  'currentVolumeM3',
+  'reservedCapacity',
+  'reservedWeightKg',
+  'reservedVolumeM3',
+];
+
+const TOLERANCE = 0.001;
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+export class CapacityReconciliationService {
+  /**
+   * Recompute every bin's stored units, weight and cube from Inventory and
+   * the SKU master, and its reserved
+   * units, weight and cube from the reservation ledger, correcting and
+   * recording any drift. Reservations of closed tasks are released first
+   * and open tasks with no reservation at all are given one.
+   */
+  async reconcile(tenantId: string, warehouseId: string, triggeredById?: string): Promise<CapacityReconciliation> {
+    const warehouse = await prisma.warehouse.findFirst({
+      where: { id: warehouseId, tenantId },
+      select: { id: true },
+    });
+
+    if (!warehouse) {
+      throw new AppError('Warehouse not found', 404);
+    }
+
+    const run = await prisma.capacityReconciliation.create({
+      data: { tenantId, warehouseId, triggeredById },
+    });
+
+    // Reservations left behind by tasks that have since closed
+    const orphaned = await prisma.binReservation.findMany({
+      where: { warehouseId, status: 'ACTIVE', task: { status: { notIn: OPEN_TASK_STATUSES } } },
+      select: { taskId: true },
+      distinct: ['taskId'],
+    });
+    let reservationsReleased = 0;
+    for (const { taskId } of orphaned) {
+      reservationsReleased += await prisma.$transaction((tx) =>
+        binCapacityService.releaseTask(taskId, 'Released by reconciliation: task closed', tx)
+      );
+    }
+
+    // Open tasks that never had a ledger row (reserved before the ledger existed)
+    const unrecorded = await prisma.putawayTask.findMany({
+      where: {
+        warehouseId,
+        status: { in: OPEN_TASK_STATUSES },
+        destinationLocationId: { not: null },
+        binReservations: { none: {} },
+      },
+    });
+    for (const task of unrecorded) {
+      await prisma.$transaction((tx) =>
+        binCapacityService.reserve(
+          task,
+          task.destinationLocationId!,
+          binCapacityService.taskLoad(task, task.quantityToPutaway.toNumber()),
+          tx
+        )
+      );
+    }
+
+    const [locations, actual] = await Promise.all([
+      prisma.location.findMany({
+        where: { warehouseId },
+        select: {
+          id: true,
+          code: true,
+          currentCapacityUsed: true,
+          currentWeightKg: true,
+          currentVolumeM3: true,
+          reservedCapacity: true,
+          reservedWeightKg: true,
+          reservedVolumeM3: true,
+        },
+      }),
+      this.actualCapacity(prisma, { warehouseId }),
+    ]);
+
+    const drift: CapacityDrift[] = [];
+    for (const location of locations) {
+      const expected = actual.get(location.id) || this.empty();
+      if (FIELDS.every((field) => Math.abs(Number(location[field]) - expected[field]) < TOLERANCE)) {
+        continue;
+      }
+
+      // Re-read and correct the one bin together so work since the sweep is not lost
+      drift.push(...(await prisma.$transaction((tx) => this.correct(tx, location.id, location.code))));
+    }
+
+    const locationsCorrected = new Set(drift.map((entry) => entry.locationId)).size;
+
+    if (locationsCorrected > 0 || reservationsReleased > 0 || unrecorded.length > 0) {
+      logger.info(
+        `Capacity reconciliation for warehouse ${warehouseId}: corrected ${locationsCorrected} bins, ` +
+          `released ${reservationsReleased} and created ${unrecorded.length} reservations`
+      );
+    }
+
+    return prisma.capacityReconciliation.update({
+      where: { id: run.id },
+      data: {
+        locationsChecked: locations.length,
+        locationsCorrected,
+        reservationsReleased,
+        reservationsCreated: unrecorded.length,
+        drift: drift as unknown as Prisma.InputJsonValue,
+        completedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Reconcile every warehouse, carrying on past any that fail
+   */
+  async reconcileAll(): Promise<void> {
+    const warehouses = await prisma.warehouse.findMany({
+      select: { id: true, tenantId: true },
+    });
+
+    for (const warehouse of warehouses) {
+      try {
+        await this.reconcile(warehouse.tenantId, warehouse.id);
+      } catch (error) {
+        logger.error(`Capacity reconciliation for warehouse ${warehouse.id} failed:`, error);
+      }
+    }
+  }
+
+  /**
+   * Get past reconciliation runs, newest first
+   */
+  async getRuns(params: { tenantId: string; warehouseId?: string; page?: number; limit?: number }) {
+    const { tenantId, warehouseId, page = 1, limit = 20 } = params;
+
+    const where: Prisma.CapacityReconciliationWhereInput = {
+      tenantId,
+      ...(warehouseId && { warehouseId }),
+    };
+
+    const [runs, total] = await Promise.all([
+      prisma.capacityReconciliation.findMany({
+        where,
+        orderBy: { startedAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.capacityReconciliation.count({ where }),
+    ]);
+
+    return {
+      data: runs,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Bring one bin's capacity figures in line with Inventory and the ledger
+   */
+  private async correct(
+    tx: Prisma.TransactionClient,
+    locationId: string,
+    locationCode: string
+  ): Promise<CapacityDrift[]> {
+    const location = await tx.location.findUniqueOrThrow({ where: { id: locationId } });
+    const expected = (await this.actualCapacity(tx, { id: locationId })).get(locationId) || this.empty();
+
+    const drift = FIELDS.map((field) => ({
+      locationId,
+      locationCode,
+      field,
+      recorded: Number(location[field]),
+      actual: expected[field],
+      difference: round(expected[field] - Number(location[field])),
+    })).filter((entry) => Math.abs(entry.difference) >= TOLERANCE);
+
+    if (drift.length > 0) {
+      await tx.location.update({
+        where: { id: locationId },
+        data: Object.fromEntries(drift.map((entry) => [entry.field, entry.actual])),
+      });
+    }
+
+    return drift;
+  }
+
+  /**
+   * Units on hand per bin with their weight and cube from the SKU master,
+   * and units, weight and cube held by active reservations per bin.
+   * Unmeasured SKUs add no weight or cube, as when they were put away.
+   */
+  private async actualCapacity(
+    client: Prisma.TransactionClient | typeof prisma,
+    locations: { warehouseId: string } | { id: string }
+  ): Promise<Map<string, LocationCapacity>> {
+    const locationId = 'id' in locations ? locations.id : undefined;
+    const scope = locationId ? { locationId } : { warehouseId: (locations as { warehouseId: string }).warehouseId };
+
+    const [stock, reserved] = await Promise.all([
+      client.inventory.groupBy({
+        by: ['locationId', 'productId'],
+        where: scope,
+        _sum: { quantityOnHand: true },
+      }),
+      client.binReservation.groupBy({
+        by: ['locationId'],
+        where: { ...scope, status: 'ACTIVE' },
+        _sum: { units: true, weightKg: true, volumeM3: true },
+      }),
+    ]);
+
+    const capacity = new Map<string, LocationCapacity>();
+    const entry = (id: string) => {
+      if (!capacity.has(id)) capacity.set(id, this.empty());
+      return capacity.get(id)!;
+    };
+
+    // Inventory holds products; the SKU of the same code carries the measurements
+    const products = await client.product.findMany({
+      where: { id: { in: [...new Set(stock.map((group) => group.productId))] } },
+      select: { id: true, tenantId: true, sku: true },
+    });
+    const skus =
+      products.length > 0
+        ? await client.sKU.findMany({
+            where: { OR: products.map((product) => ({ tenantId: product.tenantId, code: product.sku })) },
+          })
+        : [];
+    const skuOf = new Map(
+      products.map((product) => [
+        product.id,
+        skus.find((sku) => sku.tenantId === product.tenantId && sku.code === product.sku),
+      ])
+    );
+
+    for (const group of stock) {
+      const bin = entry(group.locationId);
+      const quantity = Number(group._sum.quantityOnHand ?? 0);
+      const sku = skuOf.get(group.productId);
+      const load = sku ? binCapacityService.itemLoad(sku, quantity) : null;
+
+      bin.currentCapacityUsed += quantity;
+      bin.currentWeightKg += load?.weightKg ?? 0;
+      bin.currentVolumeM3 += load?.volumeM3 ?? 0;
+    }
+    // Compare at the precision the bin stores
+    for (const bin of capacity.values()) {
+      bin.currentWeightKg = Math.round(bin.currentWeightKg * 100) / 100;
+      bin.currentVolumeM3 = Math.round(bin.currentVolumeM3 * 1000) / 1000;
+    }
+    for (const group of reserved) {
+      const bin = entry(group.locationId);
+      bin.reservedCapacity = Number(group._sum.units ?? 0);
+      bin.reservedWeightKg = Number(group._sum.weightKg ?? 0);
+      bin.reservedVolumeM3 = Number(group._sum.volumeM3 ?? 0);
+    }
+
+    return capacity;
+  }
+
+  private empty(): LocationCapacity {
+    return {
+      currentCapacityUsed: 0,
+      currentWeightKg: 0,
+      currentVolumeM3: 0,
+      reservedCapacity: 0,
+      reservedWeightKg: 0,
+      reservedVolumeM3: 0,
+    };
+  }
+}
+
+export default new CapacityReconciliationService();
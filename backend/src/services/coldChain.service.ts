@@ -0,0 +1,182 @@
+import { Prisma, Priority, Variance } from '@prisma/client';
+import prisma from '../config/database';
+
+type Limit = Prisma.Decimal | number | null | undefined;
+
+export interface TemperatureCheck {
+  reading: number;
+  min: number | null;
+  max: number | null;
+  // Which limits applied; the tighter bound wins when both are set
+  source: 'SKU' | 'ZONE' | 'SKU_AND_ZONE';
+  inRange: boolean;
+  // Degrees outside the range (0 when in range)
+  deviation: number;
+  priority: Priority;
+}
+
+export interface TemperatureExcursionContext {
+  tenantId: string;
+  warehouseId: string;
+  receiptType: 'ASN' | 'BLIND';
+  asnId?: string;
+  blindReceiptId?: string;
+  receiptLineId: string;
+  skuId?: string | null;
+  skuCode: string;
+  productName: string;
+  quantity: number;
+  unitCost: number;
+  batchNumber?: string | null;
+  expiryDate?: Date | null;
+  submittedById: string;
+}
+
+// Degrees outside the range up to which an excursion gets each priority
+const PRIORITY_BANDS: { maxDeviation: number; priority: Priority }[] = [
+  { maxDeviation: 1, priority: 'LOW' },
+  { maxDeviation: 3, priority: 'MEDIUM' },
+  { maxDeviation: 5, priority: 'HIGH' },
+  { maxDeviation: Number.POSITIVE_INFINITY, priority: 'CRITICAL' },
+];
+
+const toNumber = (value: Limit): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+export class ColdChainService {
+  /**
+   * Check a receiving temperature against the SKU's storage range and the
+   * receiving zone's range. Returns null when there is no reading or no
+   * limit to check it against.
+   */
+  async checkReading(
+    sku: { temperatureMin: Limit; temperatureMax: Limit } | null,
+    receivingZoneId: string | null | undefined,
+    reading: number | null | undefined
+  ): Promise<TemperatureCheck | null> {
+    if (reading === null || reading === undefined) {
+      return null;
+    }
+
+    const zone = receivingZoneId
+      ? await prisma.zone.findUnique({
+          where: { id: receivingZoneId },
+          select: { temperatureMin: true, temperatureMax: true },
+        })
+      : null;
+
+    const skuMin = toNumber(sku?.temperatureMin);
+    const skuMax = toNumber(sku?.temperatureMax);
+    const zoneMin = toNumber(zone?.temperatureMin);
+    const zoneMax = toNumber(zone?.temperatureMax);
+
+    const hasSku = skuMin !== null || skuMax !== null;
+    const hasZone = zoneMin !== null || zoneMax !== null;
+    if (!hasSku && !hasZone) {
+      return null;
+    }
+
+    const mins = [skuMin, zoneMin].filter((v): v is number => v !== null);
+    const maxes = [skuMax, zoneMax].filter((v): v is number => v !== null);
+    const min = mins.length ? Math.max(...mins) : null;
+    const max = maxes.length ? Math.min(...maxes) : null;
+
+    let deviation = 0;
+    if (min !== null && reading < min) deviation = min - reading;
+    if (max !== null && reading > max) deviation = reading - max;
+    deviation = Math.round(deviation * 100) / 100;
+
+    return {
+      reading,
+      min,
+      max,
+      source: hasSku && hasZone ? 'SKU_AND_ZONE' : hasSku ? 'SKU' : 'ZONE',
+      inRange: deviation === 0,
+      deviation,
+      priority: deviation === 0 ? 'LOW' : PRIORITY_BANDS.find((band) => deviation <= band.maxDeviation)!.priority,
+    };
+  }
+
+  /**
+   * Whether a zone holds a SKU within its storage range: the zone's whole
+   * range must sit inside the SKU's, and stock with no range of its own is
+   * kept out of temperature-controlled zones. Returns the reason a zone is
+   * unsuitable, or null.
+   */
+  checkStorage(
+    sku: { code: string; temperatureControlled: boolean; temperatureMin: Limit; temperatureMax: Limit },
+    zone: { code: string; temperatureMin: Limit; temperatureMax: Limit }
+  ): string | null {
+    const skuMin = toNumber(sku.temperatureMin);
+    const skuMax = toNumber(sku.temperatureMax);
+    const zoneMin = toNumber(zone.temperatureMin);
+    const zoneMax = toNumber(zone.temperatureMax);
+    const range = (min: number | null, max: number | null) => `${min ?? '-'} to ${max ?? '-'}°C`;
+
+    if (skuMin === null && skuMax === null) {
+      if (sku.temperatureControlled) {
+        return null;
+      }
+      return zoneMin !== null || zoneMax !== null
+        ? `${sku.code} is ambient stock; zone ${zone.code} is held at ${range(zoneMin, zoneMax)}`
+        : null;
+    }
+
+    const tooCold = skuMin !== null && (zoneMin === null || zoneMin < skuMin);
+    const tooWarm = skuMax !== null && (zoneMax === null || zoneMax > skuMax);
+    if (!tooCold && !tooWarm) {
+      return null;
+    }
+
+    const held =
+      zoneMin === null && zoneMax === null ? 'has no temperature range' : `is held at ${range(zoneMin, zoneMax)}`;
+    return `${sku.code} must be stored at ${range(skuMin, skuMax)}; zone ${zone.code} ${held}`;
+  }
+
+  /**
+   * Raise a TEMPERATURE_VIOLATION variance for an out-of-range reading.
+   * Critical excursions need a manager; putaway of the line stays blocked
+   * until the variance is resolved.
+   */
+  async raiseExcursion(check: TemperatureCheck, context: TemperatureExcursionContext): Promise<Variance> {
+    const direction =
+      check.min !== null && check.reading < check.min
+        ? `below the ${check.min}°C minimum`
+        : `above the ${check.max}°C maximum`;
+    const limits = { SKU: 'SKU limits', ZONE: 'receiving zone limits', SKU_AND_ZONE: 'SKU and receiving zone limits' };
+
+    return prisma.variance.create({
+      data: {
+        tenantId: context.tenantId,
+        warehouseId: context.warehouseId,
+        receiptType: context.receiptType,
+        receiptId: context.asnId || context.blindReceiptId,
+        receiptLineId: context.receiptLineId,
+        asnId: context.asnId,
+        blindReceiptId: context.blindReceiptId,
+        skuId: context.skuId,
+        skuCode: context.skuCode,
+        productName: context.productName,
+        varianceType: 'TEMPERATURE_VIOLATION',
+        expectedQuantity: context.quantity,
+        receivedQuantity: context.quantity,
+        varianceQuantity: 0,
+        variancePercentage: 0,
+        varianceValue: context.quantity * context.unitCost,
+        reasonCode: 'TEMPERATURE_EXCURSION',
+        reasonDescription: `Reading ${check.reading}°C is ${check.deviation}°C ${direction} (${limits[check.source]})`,
+        temperatureReading: check.reading,
+        temperatureLimitMin: check.min,
+        temperatureLimitMax: check.max,
+        batchNumber: context.batchNumber,
+        expiryDate: context.expiryDate,
+        status: 'PENDING',
+        priority: check.priority,
+        approvalLevel: check.priority === 'CRITICAL' ? 'MANAGER' : 'SUPERVISOR',
+        submittedById: context.submittedById,
+      },
+    });
+  }
+}
+
+export default new ColdChainService();
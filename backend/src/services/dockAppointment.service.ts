@@ -0,0 +1,527 @@
+import { Prisma, DockDoor, DockAppointment, AppointmentStatus, DockDoorType } from '@prisma/client';
+import prisma from '../config/database';
+import {
+  generateSequentialNumber,
+  getZonedDateParts,
+  zonedTimeToUtc,
+} from '../utils/helpers';
+import { AppError } from '../middleware/errorHandler';
+
+/**
+ * Opening window for one weekday, as local "HH:mm" times
+ */
+export interface OperatingWindow {
+  open: string;
+  close: string;
+}
+
+/**
+ * Operating hours keyed by weekday (sun..sat). A missing day means the door
+ * is closed that day; null hours mean the door is always open.
+ */
+export type OperatingHours = Partial<Record<string, OperatingWindow>>;
+
+export interface CreateDockDoorInput {
+  tenantId: string;
+  warehouseId: string;
+  code: string;
+  name: string;
+  doorType?: DockDoorType;
+  slotDurationMinutes?: number;
+  slotCapacity?: number;
+  operatingHours?: OperatingHours | null;
+  timezone?: string;
+  temperatureControlled?: boolean;
+}
+
+export interface BookAppointmentInput {
+  tenantId: string;
+  asnId: string;
+  dockDoorId: string;
+  scheduledStart: Date;
+  scheduledEnd?: Date;
+  carrier?: string;
+  trailerNumber?: string;
+  driverName?: string;
+  notes?: string;
+  createdById: string;
+}
+
+export interface RescheduleAppointmentInput {
+  scheduledStart: Date;
+  scheduledEnd?: Date;
+  dockDoorId?: string;
+  notes?: string;
+}
+
+const ACTIVE_APPOINTMENT_STATUSES: AppointmentStatus[] = ['SCHEDULED', 'CHECKED_IN'];
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map((n) => parseInt(n, 10));
+  return hours * 60 + minutes;
+};
+
+export class DockAppointmentService {
+  /**
+   * Create a dock door
+   */
+  async createDockDoor(data: CreateDockDoorInput): Promise<DockDoor> {
+    const warehouse = await prisma.warehouse.findFirst({
+      where: { id: data.warehouseId, tenantId: data.tenantId },
+    });
+
+    if (!warehouse) {
+      throw new AppError('Warehouse not found', 404);
+    }
+
+    const existing = await prisma.dockDoor.findFirst({
+      where: { warehouseId: data.warehouseId, code: data.code },
+    });
+
+    if (existing) {
+      throw new AppError(`Dock door ${data.code} already exists in this warehouse`, 409);
+    }
+
+    return prisma.dockDoor.create({
+      data: {
+        ...data,
+        operatingHours: data.operatingHours ?? Prisma.JsonNull,
+      },
+    });
+  }
+
+  /**
+   * Get dock doors for a warehouse
+   */
+  async getDockDoors(params: {
+    tenantId: string;
+    warehouseId?: string;
+    includeInactive?: boolean;
+  }): Promise<DockDoor[]> {
+    return prisma.dockDoor.findMany({
+      where: {
+        tenantId: params.tenantId,
+        ...(params.warehouseId && { warehouseId: params.warehouseId }),
+        ...(!params.includeInactive && { isActive: true }),
+      },
+      orderBy: { code: 'asc' },
+    });
+  }
+
+  /**
+   * Update dock door configuration
+   */
+  async updateDockDoor(
+    id: string,
+    tenantId: string,
+    data: Partial<Omit<CreateDockDoorInput, 'tenantId' | 'warehouseId' | 'code'>> & {
+      isActive?: boolean;
+    }
+  ): Promise<DockDoor> {
+    await this.getDockDoor(id, tenantId);
+
+    return prisma.dockDoor.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(data.operatingHours !== undefined && {
+          operatingHours: data.operatingHours ?? Prisma.JsonNull,
+        }),
+      },
+    });
+  }
+
+  /**
+   * Get bookable slots for a dock door on a local calendar date
+   */
+  async getAvailability(dockDoorId: string, tenantId: string, date: string) {
+    const door = await this.getDockDoor(dockDoorId, tenantId);
+    const window = this.getOperatingWindow(door, date);
+
+    if (!window) {
+      return { dockDoor: door, date, slots: [] };
+    }
+
+    const dayStart = zonedTimeToUtc(date, window.open, door.timezone);
+    const dayEnd = zonedTimeToUtc(date, window.close, door.timezone);
+
+    const appointments = await prisma.dockAppointment.findMany({
+      where: {
+        dockDoorId,
+        status: { in: ACTIVE_APPOINTMENT_STATUSES },
+        scheduledStart: { lt: dayEnd },
+        scheduledEnd: { gt: dayStart },
+      },
+      select: { id: true, scheduledStart: true, scheduledEnd: true },
+    });
+
+    const slots = [];
+    for (
+      let minutes = window.open;
+      minutes + door.slotDurationMinutes <= window.close;
+      minutes += door.slotDurationMinutes
+    ) {
+      const start = zonedTimeToUtc(date, minutes, door.timezone);
+      const end = zonedTimeToUtc(date, minutes + door.slotDurationMinutes, door.timezone);
+      const booked = appointments.filter(
+        (appointment) => appointment.scheduledStart < end && appointment.scheduledEnd > start
+      ).length;
+
+      slots.push({
+        start,
+        end,
+        booked,
+        capacity: door.slotCapacity,
+        available: booked < door.slotCapacity,
+      });
+    }
+
+    return { dockDoor: door, date, slots };
+  }
+
+  /**
+   * Book a dock appointment for an ASN
+   */
+  async bookAppointment(data: BookAppointmentInput): Promise<DockAppointment> {
+    const asn = await prisma.aSN.findFirst({
+      where: { id: data.asnId, tenantId: data.tenantId },
+    });
+
+    if (!asn) {
+      throw new AppError('ASN not found', 404);
+    }
+
+    if (asn.shipmentStatus === 'COMPLETED' || asn.shipmentStatus === 'CANCELLED') {
+      throw new AppError(`Cannot book appointment for ${asn.shipmentStatus.toLowerCase()} ASN`, 400);
+    }
+
+    const door = await this.getDockDoor(data.dockDoorId, data.tenantId);
+    const scheduledEnd =
+      data.scheduledEnd ||
+      new Date(data.scheduledStart.getTime() + door.slotDurationMinutes * 60000);
+
+    const lastAppointment = await prisma.dockAppointment.findFirst({
+      where: { tenantId: data.tenantId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const appointmentNumber = generateSequentialNumber(
+      'APT',
+      lastAppointment?.appointmentNumber
+    );
+
+    // The ASN keeps the supplier's promised arrival date; the slot lives on the appointment
+    return prisma.$transaction(async (tx) => {
+      // Lock the ASN too: concurrent bookings for it may be on different doors
+      await tx.$queryRaw`SELECT id FROM asns WHERE id = ${asn.id} FOR UPDATE`;
+
+      const activeAppointment = await tx.dockAppointment.findFirst({
+        where: { asnId: asn.id, status: { in: ACTIVE_APPOINTMENT_STATUSES } },
+      });
+
+      if (activeAppointment) {
+        throw new AppError(
+          `ASN already has appointment ${activeAppointment.appointmentNumber}. Reschedule it instead`,
+          409
+        );
+      }
+
+      await this.assertBookable(tx, door, asn.warehouseId, data.scheduledStart, scheduledEnd);
+
+      return tx.dockAppointment.create({
+        data: {
+          tenantId: data.tenantId,
+          warehouseId: asn.warehouseId,
+          dockDoorId: door.id,
+          asnId: asn.id,
+          appointmentNumber,
+          scheduledStart: data.scheduledStart,
+          scheduledEnd,
+          carrier: data.carrier || asn.carrier,
+          trailerNumber: data.trailerNumber,
+          driverName: data.driverName,
+          notes: data.notes,
+          createdById: data.createdById,
+        },
+        include: { dockDoor: true, asn: true },
+      });
+    });
+  }
+
+  /**
+   * Get appointments for the dock calendar
+   */
+  async getAppointments(params: {
+    tenantId: string;
+    warehouseId?: string;
+    dockDoorId?: string;
+    asnId?: string;
+    status?: AppointmentStatus;
+    dateFrom?: Date;
+    dateTo?: Date;
+  }): Promise<DockAppointment[]> {
+    const { tenantId, warehouseId, dockDoorId, asnId, status, dateFrom, dateTo } = params;
+
+    return prisma.dockAppointment.findMany({
+      where: {
+        tenantId,
+        ...(warehouseId && { warehouseId }),
+        ...(dockDoorId && { dockDoorId }),
+        ...(asnId && { asnId }),
+        ...(status && { status }),
+        ...(dateFrom && { scheduledEnd: { gt: dateFrom } }),
+        ...(dateTo && { scheduledStart: { lt: dateTo } }),
+      },
+      include: {
+        dockDoor: { select: { id: true, code: true, name: true } },
+        asn: {
+          select: {
+            id: true,
+            asnNumber: true,
+            poNumber: true,
+            supplierName: true,
+            shipmentStatus: true,
+            totalExpectedUnits: true,
+          },
+        },
+      },
+      orderBy: { scheduledStart: 'asc' },
+    });
+  }
+
+  /**
+   * Get appointment by ID
+   */
+  async getAppointmentById(id: string, tenantId: string): Promise<DockAppointment> {
+    const appointment = await prisma.dockAppointment.findFirst({
+      where: { id, tenantId },
+      include: {
+        dockDoor: true,
+        asn: true,
+        createdBy: { select: { id: true, firstName: true, lastName: true } },
+        checkedInBy: { select: { id: true, firstName: true, lastName: true } },
+        checkedOutBy: { select: { id: true, firstName: true, lastName: true } },
+      },
+    });
+
+    if (!appointment) {
+      throw new AppError('Appointment not found', 404);
+    }
+
+    return appointment;
+  }
+
+  /**
+   * Move an appointment to a new time and/or door
+   */
+  async rescheduleAppointment(
+    id: string,
+    tenantId: string,
+    data: RescheduleAppointmentInput
+  ): Promise<DockAppointment> {
+    const appointment = await this.getAppointmentById(id, tenantId);
+
+    if (appointment.status !== 'SCHEDULED') {
+      throw new AppError('Only scheduled appointments can be rescheduled', 400);
+    }
+
+    const door = await this.getDockDoor(data.dockDoorId || appointment.dockDoorId, tenantId);
+    const scheduledEnd =
+      data.scheduledEnd ||
+      new Date(data.scheduledStart.getTime() + door.slotDurationMinutes * 60000);
+
+    return prisma.$transaction(async (tx) => {
+      await this.assertBookable(tx, door, appointment.warehouseId, data.scheduledStart, scheduledEnd, id);
+
+      return tx.dockAppointment.update({
+        where: { id },
+        data: {
+          dockDoorId: door.id,
+          scheduledStart: data.scheduledStart,
+          scheduledEnd,
+          rescheduleCount: { increment: 1 },
+          ...(data.notes !== undefined && { notes: data.notes }),
+        },
+        include: { dockDoor: true, asn: true },
+      });
+    });
+  }
+
+  /**
+   * Check a truck in at the dock, marking the ASN as arrived
+   */
+  async checkIn(
+    id: string,
+    tenantId: string,
+    userId: string,
+    data: { trailerNumber?: string; driverName?: string } = {}
+  ): Promise<DockAppointment> {
+    const appointment = await this.getAppointmentById(id, tenantId);
+
+    if (appointment.status !== 'SCHEDULED') {
+      throw new AppError(`Cannot check in ${appointment.status.toLowerCase()} appointment`, 400);
+    }
+
+    const checkedInAt = new Date();
+
+    return prisma.$transaction(async (tx) => {
+      const updated = await tx.dockAppointment.update({
+        where: { id },
+        data: {
+          status: 'CHECKED_IN',
+          checkedInAt,
+          checkedInById: userId,
+          ...(data.trailerNumber && { trailerNumber: data.trailerNumber }),
+          ...(data.driverName && { driverName: data.driverName }),
+        },
+        include: { dockDoor: true, asn: true },
+      });
+
+      await tx.aSN.updateMany({
+        where: {
+          id: appointment.asnId,
+          shipmentStatus: { in: ['CREATED', 'IN_TRANSIT'] },
+        },
+        data: {
+          shipmentStatus: 'ARRIVED',
+          actualArrivalDate: checkedInAt,
+        },
+      });
+
+      return updated;
+    });
+  }
+
+  /**
+   * Check a truck out, freeing the door
+   */
+  async checkOut(id: string, tenantId: string, userId: string): Promise<DockAppointment> {
+    const appointment = await this.getAppointmentById(id, tenantId);
+
+    if (appointment.status !== 'CHECKED_IN') {
+      throw new AppError('Only checked-in appointments can be checked out', 400);
+    }
+
+    return prisma.dockAppointment.update({
+      where: { id },
+      data: {
+        status: 'COMPLETED',
+        checkedOutAt: new Date(),
+        checkedOutById: userId,
+      },
+      include: { dockDoor: true, asn: true },
+    });
+  }
+
+  /**
+   * Cancel a scheduled appointment, or record that the carrier did not show
+   */
+  async cancelAppointment(
+    id: string,
+    tenantId: string,
+    noShow = false
+  ): Promise<DockAppointment> {
+    const appointment = await this.getAppointmentById(id, tenantId);
+
+    if (appointment.status !== 'SCHEDULED') {
+      throw new AppError('Only scheduled appointments can be cancelled', 400);
+    }
+
+    return prisma.dockAppointment.update({
+      where: { id },
+      data: { status: noShow ? 'NO_SHOW' : 'CANCELLED' },
+    });
+  }
+
+  private async getDockDoor(id: string, tenantId: string): Promise<DockDoor> {
+    const door = await prisma.dockDoor.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!door) {
+      throw new AppError('Dock door not found', 404);
+    }
+
+    return door;
+  }
+
+  /**
+   * Resolve a door's opening window (minutes of day) for a local date
+   */
+  private getOperatingWindow(
+    door: DockDoor,
+    date: string
+  ): { open: number; close: number } | null {
+    const hours = door.operatingHours as OperatingHours | null;
+    if (!hours) {
+      return { open: 0, close: 24 * 60 };
+    }
+
+    const weekday = getZonedDateParts(zonedTimeToUtc(date, 12 * 60, door.timezone), door.timezone)
+      .weekday;
+    const window = hours[weekday];
+
+    return window ? { open: toMinutes(window.open), close: toMinutes(window.close) } : null;
+  }
+
+  /**
+   * Validate door, operating hours and slot capacity for a booking
+   */
+  private async assertBookable(
+    tx: Prisma.TransactionClient,
+    door: DockDoor,
+    warehouseId: string,
+    start: Date,
+    end: Date,
+    excludeAppointmentId?: string
+  ): Promise<void> {
+    if (!door.isActive) {
+      throw new AppError(`Dock door ${door.code} is inactive`, 400);
+    }
+
+    if (door.warehouseId !== warehouseId) {
+      throw new AppError('Dock door belongs to a different warehouse than the ASN', 400);
+    }
+
+    if (door.doorType === 'OUTBOUND') {
+      throw new AppError(`Dock door ${door.code} is outbound only`, 400);
+    }
+
+    if (end <= start) {
+      throw new AppError('Appointment end must be after its start', 400);
+    }
+
+    const localStart = getZonedDateParts(start, door.timezone);
+    const localEnd = getZonedDateParts(new Date(end.getTime() - 1), door.timezone);
+    const window = this.getOperatingWindow(door, localStart.date);
+
+    if (
+      !window ||
+      localEnd.date !== localStart.date ||
+      localStart.minutes < window.open ||
+      localEnd.minutes + 1 > window.close
+    ) {
+      throw new AppError(`Appointment is outside operating hours for dock door ${door.code}`, 400);
+    }
+
+    // Hold the door until the caller's transaction ends so concurrent
+    // bookings count each other's appointments
+    await tx.$queryRaw`SELECT id FROM dock_doors WHERE id = ${door.id} FOR UPDATE`;
+
+    const overlapping = await tx.dockAppointment.count({
+      where: {
+        dockDoorId: door.id,
+        status: { in: ACTIVE_APPOINTMENT_STATUSES },
+        scheduledStart: { lt: end },
+        scheduledEnd: { gt: start },
+        ...(excludeAppointmentId && { id: { not: excludeAppointmentId } }),
+      },
+    });
+
+    if (overlapping >= door.slotCapacity) {
+      throw new AppError(`Dock door ${door.code} is already booked for this time`, 409);
+    }
+  }
+}
+
+export default new DockAppointmentService();
@@ -0,0 +1,567 @@
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import { GoodsReceivedNote, Prisma, Variance } from '@prisma/client';
+import prisma from '../config/database';
+import { defaultStorageDriver, getStorageDriver, StorageDriverName } from '../config/storage';
+import { generateSequentialNumber, formatDate } from '../utils/helpers';
+import { AppError } from '../middleware/errorHandler';
+import { PdfDocument } from '../utils/pdf';
+import logger from '../utils/logger';
+
+export type GrnReceiptType = 'ASN' | 'BLIND';
+
+export interface GrnLine {
+  lineNumber: number;
+  skuCode: string;
+  productName: string;
+  uom: string;
+  expectedQuantity: number | null;
+  receivedQuantity: number;
+  acceptedQuantity: number;
+  rejectedQuantity: number;
+  batchNumber: string | null;
+  expiryDate: string | null;
+  lpn: string | null;
+}
+
+export interface GrnVariance {
+  lineNumber: number | null;
+  skuCode: string;
+  varianceType: string;
+  varianceQuantity: number;
+  varianceValue: number | null;
+  reasonCode: string;
+  status: string;
+  resolutionAction: string | null;
+  resolutionNotes: string | null;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+}
+
+export interface GrnSignature {
+  role: string;
+  name: string | null;
+  signedAt: string | null;
+}
+
+/**
+ * Snapshot of a completed receipt. Stored as issued and rendered to PDF;
+ * never recomputed for an existing version.
+ */
+export interface GrnContent {
+  grnNumber: string;
+  version: number;
+  issuedAt: string;
+  amendmentReason: string | null;
+  receipt: {
+    type: GrnReceiptType;
+    id: string;
+    number: string;
+    poNumber: string | null;
+    supplierName: string;
+    carrier: string | null;
+    warehouse: string;
+    arrivedAt: string | null;
+    completedAt: string | null;
+  };
+  lines: GrnLine[];
+  variances: GrnVariance[];
+  totals: {
+    lines: number;
+    expectedUnits: number | null;
+    receivedUnits: number;
+    acceptedUnits: number;
+    rejectedUnits: number;
+    openVariances: number;
+  };
+  signatures: GrnSignature[];
+}
+
+type GrnBody = Omit<GrnContent, 'grnNumber' | 'version' | 'issuedAt' | 'amendmentReason'>;
+
+const OPEN_VARIANCE_STATUSES = ['PENDING', 'NEW', 'UNDER_REVIEW', 'ESCALATED'];
+
+const userName = (user: { firstName: string; lastName: string } | null | undefined): string | null =>
+  user ? `${user.firstName} ${user.lastName}` : null;
+
+const isoDate = (date: Date | null | undefined): string | null => (date ? date.toISOString() : null);
+
+const sum = (values: number[]): number => Math.round(values.reduce((total, value) => total + value, 0) * 100) / 100;
+
+const receiptWhere = (receiptType: GrnReceiptType, receiptId: string) =>
+  receiptType === 'ASN' ? { asnId: receiptId } : { blindReceiptId: receiptId };
+
+export class GrnService {
+  /**
+   * Issue the first GRN for a completed receipt. Returns the existing GRN
+   * if one was already issued.
+   */
+  async issue(receiptType: GrnReceiptType, receiptId: string, issuedById: string): Promise<GoodsReceivedNote> {
+    const existing = await this.findLatest(receiptType, receiptId);
+    if (existing) {
+      return existing;
+    }
+
+    const body = await this.buildBody(receiptType, receiptId);
+    return this.store(body, { receiptType, receiptId, issuedById });
+  }
+
+  /**
+   * Issue the next version of a receipt's GRN. Fails when nothing on the
+   * receipt changed since the latest version.
+   */
+  async amend(
+    receiptType: GrnReceiptType,
+    receiptId: string,
+    tenantId: string,
+    issuedById: string,
+    amendmentReason: string
+  ): Promise<GoodsReceivedNote> {
+    const latest = await this.getLatest(receiptType, receiptId, tenantId);
+    const body = await this.buildBody(receiptType, receiptId);
+
+    if (this.hash(body) === latest.contentHash) {
+      throw new AppError(`Receipt is unchanged since GRN ${latest.grnNumber} version ${latest.version}`, 400);
+    }
+
+    return this.store(body, { receiptType, receiptId, issuedById, previous: latest, amendmentReason });
+  }
+
+  /**
+   * Amend a receipt's GRN after one of its variances was resolved, if a
+   * GRN has been issued and the change affects it. Failures are logged, not
+   * raised, so the variance resolution itself stands.
+   */
+  async amendForVariance(variance: Variance, issuedById: string): Promise<void> {
+    const receiptType = variance.asnId ? 'ASN' : variance.blindReceiptId ? 'BLIND' : null;
+    const receiptId = variance.asnId || variance.blindReceiptId;
+    if (!receiptType || !receiptId) {
+      return;
+    }
+
+    try {
+      const latest = await this.findLatest(receiptType, receiptId);
+      if (!latest) {
+        return;
+      }
+
+      const body = await this.buildBody(receiptType, receiptId);
+      if (this.hash(body) !== latest.contentHash) {
+        await this.store(body, {
+          receiptType,
+          receiptId,
+          issuedById,
+          previous: latest,
+          amendmentReason: `Variance ${variance.skuCode} ${variance.varianceType} ${variance.status.toLowerCase()}`,
+        });
+      }
+    } catch (error) {
+      logger.error(`GRN amendment for variance ${variance.id} failed:`, error);
+    }
+  }
+
+  /**
+   * Get the latest GRN version for a receipt, or a specific version
+   */
+  async getLatest(
+    receiptType: GrnReceiptType,
+    receiptId: string,
+    tenantId: string,
+    version?: number
+  ): Promise<GoodsReceivedNote> {
+    const grn = await prisma.goodsReceivedNote.findFirst({
+      where: { tenantId, ...receiptWhere(receiptType, receiptId), ...(version && { version }) },
+      orderBy: { version: 'desc' },
+    });
+
+    if (!grn) {
+      throw new AppError(version ? `GRN version ${version} not found` : 'No GRN has been issued for this receipt', 404);
+    }
+
+    return grn;
+  }
+
+  /**
+   * List every GRN version for a receipt, newest first
+   */
+  async getVersions(receiptType: GrnReceiptType, receiptId: string, tenantId: string) {
+    return prisma.goodsReceivedNote.findMany({
+      where: { tenantId, ...receiptWhere(receiptType, receiptId) },
+      select: {
+        id: true,
+        grnNumber: true,
+        version: true,
+        contentHash: true,
+        amendmentReason: true,
+        issuedAt: true,
+        issuedBy: { select: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  /**
+   * Open the stored PDF of a GRN version
+   */
+  async openPdf(grn: GoodsReceivedNote): Promise<{ stream: Readable; fileName: string }> {
+    const storage = getStorageDriver(grn.pdfStorageDriver as StorageDriverName);
+
+    try {
+      return {
+        stream: await storage.get(grn.pdfStorageKey),
+        fileName: `${grn.grnNumber}-v${grn.version}.pdf`,
+      };
+    } catch (error) {
+      throw new AppError(`Stored PDF for ${grn.grnNumber} version ${grn.version} is missing`, 500);
+    }
+  }
+
+  private async findLatest(receiptType: GrnReceiptType, receiptId: string): Promise<GoodsReceivedNote | null> {
+    return prisma.goodsReceivedNote.findFirst({
+      where: receiptWhere(receiptType, receiptId),
+      orderBy: { version: 'desc' },
+    });
+  }
+
+  /**
+   * Number the document and record the version, then store its PDF under
+   * the new row's id
+   */
+  private async store(
+    body: GrnBody,
+    options: {
+      receiptType: GrnReceiptType;
+      receiptId: string;
+      issuedById: string;
+      previous?: GoodsReceivedNote;
+      amendmentReason?: string;
+    }
+  ): Promise<GoodsReceivedNote> {
+    const receipt =
+      options.receiptType === 'ASN'
+        ? await prisma.aSN.findUniqueOrThrow({ where: { id: options.receiptId } })
+        : await prisma.blindReceipt.findUniqueOrThrow({ where: { id: options.receiptId } });
+
+    let grnNumber = options.previous?.grnNumber;
+    if (!grnNumber) {
+      const last = await prisma.goodsReceivedNote.findFirst({
+        where: { tenantId: receipt.tenantId, version: 1 },
+        orderBy: { issuedAt: 'desc' },
+      });
+      grnNumber = generateSequentialNumber('GRN', last?.grnNumber);
+    }
+
+    const version = (options.previous?.version ?? 0) + 1;
+    const issuedAt = new Date();
+    const issuer = await prisma.user.findUnique({
+      where: { id: options.issuedById },
+      select: { firstName: true, lastName: true },
+    });
+
+    const content: GrnContent = {
+      grnNumber,
+      version,
+      issuedAt: issuedAt.toISOString(),
+      amendmentReason: options.amendmentReason ?? null,
+      ...body,
+      signatures: [...body.signatures, { role: 'Issued by', name: userName(issuer), signedAt: issuedAt.toISOString() }],
+    };
+
+    const storage = defaultStorageDriver();
+    const id = crypto.randomUUID();
+    const pdfStorageKey = `grn/${receipt.tenantId}/${id}.pdf`;
+    const pdf = this.renderPdf(content);
+
+    // Insert the version first: a concurrent issue of the same number and
+    // version fails on the unique key before it can store a PDF, and the
+    // row is rolled back if the PDF cannot be stored
+    return prisma.$transaction(
+      async (tx) => {
+        const grn = await tx.goodsReceivedNote.create({
+          data: {
+            id,
+            tenantId: receipt.tenantId,
+            warehouseId: receipt.warehouseId,
+            grnNumber,
+            version,
+            receiptType: options.receiptType,
+            ...receiptWhere(options.receiptType, options.receiptId),
+            content: content as unknown as Prisma.InputJsonValue,
+            contentHash: this.hash(body),
+            pdfStorageDriver: storage.name,
+            pdfStorageKey,
+            amendmentReason: options.amendmentReason,
+            issuedById: options.issuedById,
+            issuedAt,
+          },
+        });
+
+        await storage.put(pdfStorageKey, pdf, 'application/pdf', { overwrite: false });
+
+        return grn;
+      },
+      { timeout: 30000 }
+    );
+  }
+
+  /**
+   * Snapshot the receipt's lines, variances and sign-offs
+   */
+  private async buildBody(receiptType: GrnReceiptType, receiptId: string): Promise<GrnBody> {
+    const userSelect = { select: { firstName: true, lastName: true } };
+    const variances = await prisma.variance.findMany({
+      where: receiptWhere(receiptType, receiptId),
+      include: { reviewedBy: userSelect },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    if (receiptType === 'ASN') {
+      const asn = await prisma.aSN.findUnique({
+        where: { id: receiptId },
+        include: {
+          lines: { orderBy: { lineNumber: 'asc' } },
+          warehouse: { select: { code: true, name: true } },
+          receivedBy: userSelect,
+        },
+      });
+
+      if (!asn) {
+        throw new AppError('ASN not found', 404);
+      }
+
+      const lines: GrnLine[] = asn.lines.map((line) => ({
+        lineNumber: line.lineNumber,
+        skuCode: line.skuCode,
+        productName: line.productName,
+        uom: line.uom,
+        expectedQuantity: line.expectedQuantity.toNumber(),
+        receivedQuantity: line.receivedQuantity.toNumber(),
+        acceptedQuantity: line.acceptedQuantity.toNumber(),
+        rejectedQuantity: line.rejectedQuantity.toNumber(),
+        batchNumber: line.batchNumberReceived,
+        expiryDate: isoDate(line.expiryDateReceived),
+        lpn: line.lpnReceived,
+      }));
+
+      return {
+        receipt: {
+          type: 'ASN',
+          id: asn.id,
+          number: asn.asnNumber,
+          poNumber: asn.poNumber,
+          supplierName: asn.supplierName,
+          carrier: asn.carrier,
+          warehouse: `${asn.warehouse.code} - ${asn.warehouse.name}`,
+          arrivedAt: isoDate(asn.actualArrivalDate),
+          completedAt: isoDate(asn.receivedAt),
+        },
+        lines,
+        variances: this.mapVariances(variances, asn.lines),
+        totals: this.totals(lines, variances, true),
+        signatures: [{ role: 'Received by', name: userName(asn.receivedBy), signedAt: isoDate(asn.receivedAt) }],
+      };
+    }
+
+    const receipt = await prisma.blindReceipt.findUnique({
+      where: { id: receiptId },
+      include: {
+        lines: { orderBy: { lineNumber: 'asc' } },
+        warehouse: { select: { code: true, name: true } },
+        submittedBy: userSelect,
+        reviewedBy: userSelect,
+      },
+    });
+
+    if (!receipt) {
+      throw new AppError('Blind receipt not found', 404);
+    }
+
+    // QA inspections supply most of the accept/reject split on blind lines
+    const inspections = await prisma.qAInspection.findMany({
+      where: { blindReceiptId: receiptId, status: 'COMPLETED' },
+      select: { receiptLineId: true, rejectedQuantity: true },
+    });
+    const rejectedByLine = new Map<string, number>();
+    for (const inspection of inspections) {
+      rejectedByLine.set(
+        inspection.receiptLineId,
+        (rejectedByLine.get(inspection.receiptLineId) ?? 0) + (inspection.rejectedQuantity?.toNumber() ?? 0)
+      );
+    }
+
+    const lines: GrnLine[] = receipt.lines.map((line) => {
+      // Units returned or written off by a variance resolution count as rejected too
+      const rejected = (rejectedByLine.get(line.id) ?? 0) + line.rejectedQuantity.toNumber();
+      return {
+        lineNumber: line.lineNumber,
+        skuCode: line.skuCode,
+        productName: line.productName,
+        uom: line.uom,
+        expectedQuantity: null,
+        receivedQuantity: line.quantityReceived.toNumber(),
+        acceptedQuantity: line.quantityReceived.toNumber() - rejected,
+        rejectedQuantity: rejected,
+        batchNumber: line.batchNumber,
+        expiryDate: isoDate(line.expiryDate),
+        lpn: line.lpn,
+      };
+    });
+
+    return {
+      receipt: {
+        type: 'BLIND',
+        id: receipt.id,
+        number: receipt.receiptNumber,
+        poNumber: null,
+        supplierName: receipt.supplierName,
+        carrier: receipt.carrier,
+        warehouse: `${receipt.warehouse.code} - ${receipt.warehouse.name}`,
+        arrivedAt: isoDate(receipt.arrivalTime),
+        completedAt: isoDate(receipt.reviewedAt),
+      },
+      lines,
+      variances: this.mapVariances(variances, receipt.lines),
+      totals: this.totals(lines, variances, false),
+      signatures: [
+        { role: 'Received by', name: userName(receipt.submittedBy), signedAt: isoDate(receipt.submittedAt) },
+        {
+          role: 'Approved by',
+          // Receipts auto-approved on submit have no reviewer
+          name: userName(receipt.reviewedBy) ?? 'Auto-approved within tolerance',
+          signedAt: isoDate(receipt.reviewedAt),
+        },
+      ],
+    };
+  }
+
+  private mapVariances(
+    variances: (Variance & { reviewedBy: { firstName: string; lastName: string } | null })[],
+    lines: { id: string; lineNumber: number }[]
+  ): GrnVariance[] {
+    return variances.map((variance) => ({
+      lineNumber: lines.find((line) => line.id === variance.receiptLineId)?.lineNumber ?? null,
+      skuCode: variance.skuCode,
+      varianceType: variance.varianceType,
+      varianceQuantity: variance.varianceQuantity.toNumber(),
+      varianceValue: variance.varianceValue?.toNumber() ?? null,
+      reasonCode: variance.reasonCode,
+      status: variance.status,
+      resolutionAction: variance.resolutionAction,
+      resolutionNotes: variance.supervisorNotes,
+      resolvedBy: userName(variance.reviewedBy),
+      resolvedAt: isoDate(variance.resolvedAt),
+    }));
+  }
+
+  private totals(lines: GrnLine[], variances: Variance[], hasExpected: boolean): GrnContent['totals'] {
+    return {
+      lines: lines.length,
+      expectedUnits: hasExpected ? sum(lines.map((line) => line.expectedQuantity ?? 0)) : null,
+      receivedUnits: sum(lines.map((line) => line.receivedQuantity)),
+      acceptedUnits: sum(lines.map((line) => line.acceptedQuantity)),
+      rejectedUnits: sum(lines.map((line) => line.rejectedQuantity)),
+      openVariances: variances.filter((variance) => OPEN_VARIANCE_STATUSES.includes(variance.status)).length,
+    };
+  }
+
+  private hash(body: GrnBody): string {
+    return crypto.createHash('sha256').update(JSON.stringify(body)).digest('hex');
+  }
+
+  private renderPdf(content: GrnContent): Buffer {
+    const date = (value: string | null) => (value ? formatDate(new Date(value)) : '-');
+    const qty = (value: number | null) => (value === null ? '-' : String(value));
+
+    const pdf = new PdfDocument(`${content.grnNumber} v${content.version}`)
+      .text('Goods Received Note', { size: 16, bold: true, spacing: 8 })
+      .keyValues([
+        ['GRN', `${content.grnNumber} (version ${content.version})`],
+        ['Issued', content.issuedAt],
+        ...(content.amendmentReason ? [['Amendment', content.amendmentReason] as [string, string]] : []),
+        [content.receipt.type === 'ASN' ? 'ASN' : 'Blind receipt', content.receipt.number],
+        ...(content.receipt.poNumber ? [['PO', content.receipt.poNumber] as [string, string]] : []),
+        ['Supplier', content.receipt.supplierName],
+        ['Carrier', content.receipt.carrier || '-'],
+        ['Warehouse', content.receipt.warehouse],
+        ['Arrived', date(content.receipt.arrivedAt)],
+        ['Completed', date(content.receipt.completedAt)],
+      ])
+      .rule()
+      .space(6)
+      .text('Lines', { size: 12, bold: true, spacing: 4 })
+      .table(
+        [
+          { header: '#', width: 22 },
+          { header: 'SKU', width: 80 },
+          { header: 'Description', width: 110 },
+          { header: 'Expected', width: 45, align: 'right' },
+          { header: 'Received', width: 45, align: 'right' },
+          { header: 'Accepted', width: 45, align: 'right' },
+          { header: 'Rejected', width: 45, align: 'right' },
+          { header: 'Batch', width: 63 },
+          { header: 'Expiry', width: 60 },
+        ],
+        content.lines.map((line) => [
+          String(line.lineNumber),
+          line.skuCode,
+          line.productName,
+          qty(line.expectedQuantity),
+          `${line.receivedQuantity} ${line.uom}`,
+          qty(line.acceptedQuantity),
+          qty(line.rejectedQuantity),
+          line.batchNumber || '-',
+          date(line.expiryDate),
+        ])
+      )
+      .keyValues([
+        [
+          'Totals',
+          `${content.totals.lines} lines, ${content.totals.receivedUnits} received, ` +
+            `${content.totals.acceptedUnits} accepted, ${content.totals.rejectedUnits} rejected` +
+            (content.totals.expectedUnits === null ? '' : ` of ${content.totals.expectedUnits} expected`),
+        ],
+      ])
+      .space(6);
+
+    if (content.variances.length > 0) {
+      pdf
+        .text('Variances', { size: 12, bold: true, spacing: 4 })
+        .table(
+          [
+            { header: 'Line', width: 28 },
+            { header: 'SKU', width: 75 },
+            { header: 'Type', width: 90 },
+            { header: 'Qty', width: 35, align: 'right' },
+            { header: 'Status', width: 65 },
+            { header: 'Resolution', width: 85 },
+            { header: 'By', width: 75 },
+            { header: 'Date', width: 62 },
+          ],
+          content.variances.map((variance) => [
+            variance.lineNumber === null ? '-' : String(variance.lineNumber),
+            variance.skuCode,
+            variance.varianceType,
+            String(variance.varianceQuantity),
+            variance.status,
+            variance.resolutionAction || '-',
+            variance.resolvedBy || '-',
+            date(variance.resolvedAt),
+          ])
+        );
+
+      if (content.totals.openVariances > 0) {
+        pdf.text(`${content.totals.openVariances} variance(s) unresolved at issue`, { bold: true, spacing: 6 });
+      }
+    }
+
+    pdf.rule().space(6).text('Signatures', { size: 12, bold: true, spacing: 6 });
+    for (const signature of content.signatures) {
+      pdf.keyValues([[signature.role, `${signature.name || '-'}   ${date(signature.signedAt)}`]]);
+    }
+    pdf.space(16).keyValues([['Carrier signature', '______________________________']]);
+
+    return pdf.toBuffer();
+  }
+}
+
+export default new GrnService();
@@ -2,6 +2,7 @@ import { LPN, LPNContent, LPNStatus, Prisma } from '@prisma/client';
 import prisma from '../config/database';
 import { generateLPNCode } from '../utils/helpers';
 import { AppError } from '../middleware/errorHandler';
+import binCapacityService from './binCapacity.service';
 
 export interface CreateLPNInput {
   tenantId: string;
@@ -18,6 +19,9 @@ export interface CreateLPNInput {
   }>;
 }
 
+// LPNs whose stock has been put away and counts against their bin
+const STORED_LPN_STATUSES: LPNStatus[] = ['AVAILABLE', 'ALLOCATED'];
+
 export class LPNService {
   /**
    * Create a new LPN
@@ -242,7 +246,8 @@ export class LPNService {
   }
 
   /**
-   * Move LPN to a new location
+   * Move LPN to a new location. Stored LPNs must fit the destination and
+   * take their stock and bin capacity with them.
    */
   async moveLPN(
     id: string,
@@ -267,14 +272,35 @@ export class LPNService {
       throw new AppError('Destination location not found', 404);
     }
 
-    return prisma.lPN.update({
-      where: { id },
-      data: {
-        currentLocationId: destinationLocationId,
-        currentZoneId: destination.zoneId,
-        lastMovedById: movedById,
-        lastMovedAt: new Date(),
-      },
+    const sourceLocationId = lpn.currentLocationId;
+    const stored =
+      !!sourceLocationId &&
+      sourceLocationId !== destinationLocationId &&
+      STORED_LPN_STATUSES.includes(lpn.status);
+    const load = stored ? await binCapacityService.measureLpn(lpn) : null;
+
+    if (load) {
+      binCapacityService.assertFits(destination, load);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      if (load && sourceLocationId) {
+        await binCapacityService.move(sourceLocationId, destinationLocationId, load, tx);
+        await tx.inventory.updateMany({
+          where: { tenantId, lpn: lpn.lpnCode, locationId: sourceLocationId },
+          data: { locationId: destinationLocationId },
+        });
+      }
+
+      return tx.lPN.update({
+        where: { id },
+        data: {
+          currentLocationId: destinationLocationId,
+          currentZoneId: destination.zoneId,
+          lastMovedById: movedById,
+          lastMovedAt: new Date(),
+        },
+      });
     });
   }
 
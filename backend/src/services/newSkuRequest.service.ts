@@ -0,0 +1,361 @@
+import { Prisma, NewSkuRequest, NewSkuRequestStatus, SKU } from '@prisma/client';
+import prisma from '../config/database';
+import { generateSequentialNumber } from '../utils/helpers';
+import { AppError } from '../middleware/errorHandler';
+import { ItemDimensions } from '../utils/dimensions';
+
+/**
+ * SKU master data completed by the catalogue manager. Saved on the request
+ * as a draft until approval creates the SKU from it.
+ */
+export interface SkuDraft {
+  code?: string;
+  name?: string;
+  description?: string;
+  category?: string;
+  gtin?: string;
+  uom?: string;
+  requiresBatchTracking?: boolean;
+  requiresExpiryTracking?: boolean;
+  requiresSerialTracking?: boolean;
+  isPerishable?: boolean;
+  temperatureControlled?: boolean;
+  temperatureMin?: number;
+  temperatureMax?: number;
+  isHazmat?: boolean;
+  hazardClass?: string;
+  unitCost?: number;
+  weightKg?: number;
+  dimensions?: ItemDimensions;
+  imageUrl?: string;
+}
+
+export interface ApproveNewSkuRequestInput {
+  skuDraft?: SkuDraft;
+  // Link to an SKU that already exists instead of creating one
+  existingSkuId?: string;
+}
+
+const REQUEST_INCLUDE = {
+  blindReceipt: { select: { id: true, receiptNumber: true, supplierName: true, status: true } },
+  blindReceiptLine: {
+    select: { id: true, lineNumber: true, quantityReceived: true, photoEvidenceUrls: true, lineStatus: true },
+  },
+  sku: { select: { id: true, code: true, name: true } },
+  reviewedBy: { select: { id: true, firstName: true, lastName: true } },
+};
+
+const volumeM3 = (dimensions?: ItemDimensions | null): number | undefined =>
+  dimensions ? (dimensions.lengthCm * dimensions.widthCm * dimensions.heightCm) / 1_000_000 : undefined;
+
+export class NewSkuRequestService {
+  /**
+   * Open a new SKU request for every line of a blind receipt that the
+   * receiver flagged as a new item and that has no SKU yet
+   */
+  async openForBlindReceipt(blindReceiptId: string): Promise<NewSkuRequest[]> {
+    const receipt = await prisma.blindReceipt.findUnique({
+      where: { id: blindReceiptId },
+      include: {
+        lines: { where: { isNewItem: true, skuId: null, newSkuRequest: null } },
+      },
+    });
+
+    if (!receipt || receipt.lines.length === 0) {
+      return [];
+    }
+
+    const requests: NewSkuRequest[] = [];
+    for (const line of receipt.lines) {
+      const last = await prisma.newSkuRequest.findFirst({
+        where: { tenantId: receipt.tenantId },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      requests.push(
+        await prisma.newSkuRequest.create({
+          data: {
+            tenantId: receipt.tenantId,
+            warehouseId: receipt.warehouseId,
+            requestNumber: generateSequentialNumber('NSR', last?.requestNumber),
+            blindReceiptId,
+            blindReceiptLineId: line.id,
+            proposedCode: line.skuCode,
+            description: line.productName,
+            uom: line.uom,
+            photoUrls: line.photoEvidenceUrls,
+            weightKg: line.weightKg,
+            dimensions: (line.dimensions as Prisma.InputJsonValue | null) ?? undefined,
+            estimatedUnitCost: line.estimatedUnitCost,
+            receiverNotes: line.receiverNotes,
+          },
+        })
+      );
+    }
+
+    return requests;
+  }
+
+  /**
+   * Reject the pending requests of a blind receipt that was itself rejected
+   */
+  async closeForBlindReceipt(blindReceiptId: string, reviewedById: string): Promise<void> {
+    await prisma.newSkuRequest.updateMany({
+      where: { blindReceiptId, status: 'PENDING' },
+      data: {
+        status: 'REJECTED',
+        reviewedById,
+        reviewedAt: new Date(),
+        rejectionReason: 'Blind receipt rejected',
+      },
+    });
+  }
+
+  /**
+   * Get new SKU requests with filters
+   */
+  async getRequests(params: {
+    tenantId: string;
+    warehouseId?: string;
+    status?: NewSkuRequestStatus;
+    search?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const { tenantId, warehouseId, status, search, page = 1, limit = 20 } = params;
+
+    const where: Prisma.NewSkuRequestWhereInput = {
+      tenantId,
+      ...(warehouseId && { warehouseId }),
+      ...(status && { status }),
+      ...(search && {
+        OR: [
+          { requestNumber: { contains: search, mode: 'insensitive' } },
+          { proposedCode: { contains: search, mode: 'insensitive' } },
+          { description: { contains: search, mode: 'insensitive' } },
+          { blindReceipt: { receiptNumber: { contains: search, mode: 'insensitive' } } },
+        ],
+      }),
+    };
+
+    const [requests, total] = await Promise.all([
+      prisma.newSkuRequest.findMany({
+        where,
+        include: REQUEST_INCLUDE,
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.newSkuRequest.count({ where }),
+    ]);
+
+    return {
+      data: requests,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get new SKU request by ID
+   */
+  async getRequestById(id: string, tenantId: string) {
+    const request = await prisma.newSkuRequest.findFirst({
+      where: { id, tenantId },
+      include: REQUEST_INCLUDE,
+    });
+
+    if (!request) {
+      throw new AppError('New SKU request not found', 404);
+    }
+
+    return request;
+  }
+
+  /**
+   * Save the catalogue manager's SKU master data without approving
+   */
+  async updateDraft(id: string, tenantId: string, skuDraft: SkuDraft): Promise<NewSkuRequest> {
+    const request = await this.getPendingRequest(id, tenantId);
+
+    return prisma.newSkuRequest.update({
+      where: { id: request.id },
+      data: {
+        skuDraft: { ...((request.skuDraft as SkuDraft | null) ?? {}), ...skuDraft } as Prisma.InputJsonValue,
+      },
+      include: REQUEST_INCLUDE,
+    });
+  }
+
+  /**
+   * Approve a request: create the SKU from the completed master data (or
+   * link an existing SKU) and attach it to the receipt line, its open QA
+   * inspections and its variances so putaway can proceed
+   */
+  async approve(
+    id: string,
+    tenantId: string,
+    reviewedById: string,
+    input: ApproveNewSkuRequestInput
+  ): Promise<NewSkuRequest> {
+    const request = await this.getPendingRequest(id, tenantId);
+
+    let sku: SKU;
+    if (input.existingSkuId) {
+      const existing = await prisma.sKU.findFirst({
+        where: { id: input.existingSkuId, tenantId },
+      });
+
+      if (!existing) {
+        throw new AppError('SKU not found', 404);
+      }
+
+      sku = existing;
+    } else {
+      const draft = this.completeDraft(request, input.skuDraft);
+
+      const duplicate = await prisma.sKU.findFirst({
+        where: { tenantId, code: draft.code },
+      });
+
+      if (duplicate) {
+        throw new AppError(`SKU code ${draft.code} already exists; link the existing SKU instead`, 409);
+      }
+
+      sku = await prisma.sKU.create({
+        data: {
+          tenantId,
+          code: draft.code!,
+          name: draft.name!,
+          description: draft.description,
+          category: draft.category,
+          gtin: draft.gtin,
+          uom: draft.uom!,
+          requiresBatchTracking: draft.requiresBatchTracking ?? false,
+          requiresExpiryTracking: draft.requiresExpiryTracking ?? false,
+          requiresSerialTracking: draft.requiresSerialTracking ?? false,
+          isPerishable: draft.isPerishable ?? false,
+          temperatureControlled: draft.temperatureControlled ?? false,
+          temperatureMin: draft.temperatureControlled ? draft.temperatureMin : undefined,
+          temperatureMax: draft.temperatureControlled ? draft.temperatureMax : undefined,
+          isHazmat: draft.isHazmat ?? false,
+          hazardClass: draft.isHazmat ? draft.hazardClass : undefined,
+          unitCost: draft.unitCost,
+          weightKg: draft.weightKg,
+          volumeM3: volumeM3(draft.dimensions),
+          dimensions: draft.dimensions as Prisma.InputJsonValue | undefined,
+          imageUrl: draft.imageUrl ?? request.photoUrls[0],
+        },
+      });
+    }
+
+    const [approved] = await prisma.$transaction([
+      prisma.newSkuRequest.update({
+        where: { id: request.id },
+        data: {
+          status: 'APPROVED',
+          skuId: sku.id,
+          ...(input.skuDraft && { skuDraft: input.skuDraft as Prisma.InputJsonValue }),
+          reviewedById,
+          reviewedAt: new Date(),
+        },
+        include: REQUEST_INCLUDE,
+      }),
+      prisma.blindReceiptLine.update({
+        where: { id: request.blindReceiptLineId },
+        data: { skuId: sku.id, skuCode: sku.code, productName: sku.name },
+      }),
+      prisma.qAInspection.updateMany({
+        where: { receiptLineId: request.blindReceiptLineId, skuId: null },
+        data: { skuId: sku.id, skuCode: sku.code, productName: sku.name },
+      }),
+      prisma.variance.updateMany({
+        where: { receiptLineId: request.blindReceiptLineId, skuId: null },
+        data: { skuId: sku.id, skuCode: sku.code, productName: sku.name },
+      }),
+    ]);
+
+    return approved;
+  }
+
+  /**
+   * Reject a request. The receipt line stays without an SKU and cannot be
+   * put away.
+   */
+  async reject(id: string, tenantId: string, reviewedById: string, rejectionReason: string): Promise<NewSkuRequest> {
+    const request = await this.getPendingRequest(id, tenantId);
+
+    return prisma.newSkuRequest.update({
+      where: { id: request.id },
+      data: {
+        status: 'REJECTED',
+        reviewedById,
+        reviewedAt: new Date(),
+        rejectionReason,
+      },
+      include: REQUEST_INCLUDE,
+    });
+  }
+
+  private async getPendingRequest(id: string, tenantId: string): Promise<NewSkuRequest> {
+    const request = await prisma.newSkuRequest.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!request) {
+      throw new AppError('New SKU request not found', 404);
+    }
+
+    if (request.status !== 'PENDING') {
+      throw new AppError(`New SKU request is already ${request.status.toLowerCase()}`, 400);
+    }
+
+    return request;
+  }
+
+  /**
+   * Merge the saved draft, the submitted draft and what the receiver
+   * captured, then check the master data is complete enough to create an SKU
+   */
+  private completeDraft(request: NewSkuRequest, submitted?: SkuDraft): SkuDraft {
+    const draft: SkuDraft = {
+      code: request.proposedCode,
+      name: request.description,
+      uom: request.uom,
+      unitCost: request.estimatedUnitCost?.toNumber(),
+      weightKg: request.weightKg?.toNumber(),
+      dimensions: (request.dimensions as ItemDimensions | null) ?? undefined,
+      ...((request.skuDraft as SkuDraft | null) ?? {}),
+      ...(submitted ?? {}),
+    };
+
+    const missing: string[] = [];
+    if (!draft.code) missing.push('code');
+    if (!draft.name) missing.push('name');
+    if (!draft.uom) missing.push('uom');
+    if (draft.temperatureControlled && draft.temperatureMin === undefined && draft.temperatureMax === undefined) {
+      missing.push('temperatureMin or temperatureMax');
+    }
+    if (draft.isHazmat && !draft.hazardClass) missing.push('hazardClass');
+
+    if (missing.length > 0) {
+      throw new AppError(`SKU master data incomplete: ${missing.join(', ')}`, 400);
+    }
+
+    if (
+      draft.temperatureMin !== undefined &&
+      draft.temperatureMax !== undefined &&
+      draft.temperatureMin > draft.temperatureMax
+    ) {
+      throw new AppError('temperatureMin cannot be above temperatureMax', 400);
+    }
+
+    return draft;
+  }
+}
+
+export default new NewSkuRequestService();
@@ -0,0 +1,122 @@
+import prisma from '../config/database';
+import pickPathService, { PickStop } from './pickPath.service';
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    layoutNode: { findMany: jest.fn() },
+    layoutEdge: { findMany: jest.fn() },
+    layoutObstacle: { findMany: jest.fn() },
+    warehouse: { findUnique: jest.fn() },
+  },
+}));
+
+const mocked = prisma as unknown as {
+  layoutNode: { findMany: jest.Mock };
+  layoutEdge: { findMany: jest.Mock };
+  layoutObstacle: { findMany: jest.Mock };
+  warehouse: { findUnique: jest.Mock };
+};
+
+// Four 20 m aisles A-D, 10 m apart, running north from a front cross-aisle
+// at y = 0 to a back cross-aisle at y = 20. Each aisle has a node every
+// 5 m; the staging area is 5 m in front of aisle A.
+const AISLES = ['A', 'B', 'C', 'D'];
+const DEPTHS = [0, 5, 10, 15, 20];
+
+const nodes = [
+  { id: 'STAGE', code: 'STAGE', nodeType: 'STAGING', xMeters: 0, yMeters: -5 },
+  ...AISLES.flatMap((aisle, i) =>
+    DEPTHS.map((depth) => ({
+      id: `${aisle}${depth}`,
+      code: `${aisle}${depth}`,
+      nodeType: depth === 0 || depth === 20 ? 'CROSS_AISLE' : 'AISLE',
+      xMeters: i * 10,
+      yMeters: depth,
+    }))
+  ),
+];
+
+const edge = (fromNodeId: string, toNodeId: string, lengthMeters: number, aisleCode: string | null = null) => ({
+  fromNodeId,
+  toNodeId,
+  lengthMeters,
+  oneWay: false,
+  edgeType: aisleCode ? 'AISLE' : 'CROSS_AISLE',
+  aisleCode,
+});
+
+const edges = [
+  edge('STAGE', 'A0', 5),
+  ...AISLES.flatMap((aisle) => DEPTHS.slice(1).map((depth) => edge(`${aisle}${depth - 5}`, `${aisle}${depth}`, 5, aisle))),
+  ...AISLES.slice(1).flatMap((aisle, i) => [
+    edge(`${AISLES[i]}0`, `${aisle}0`, 10),
+    edge(`${AISLES[i]}20`, `${aisle}20`, 10),
+  ]),
+];
+
+const bin = (nodeId: string): PickStop => ({
+  id: `location-${nodeId}`,
+  code: `BIN-${nodeId}`,
+  aisleNumber: null,
+  rackNumber: null,
+  layoutNodeId: nodeId,
+  xMeters: null,
+  yMeters: null,
+});
+
+const stops = ['A15', 'B5', 'B15', 'C5', 'D10'].map(bin);
+
+const codes = (plan: { stops: PickStop[] }) => plan.stops.map((stop) => stop.layoutNodeId);
+
+describe('PickPathService.plan', () => {
+  beforeAll(() => {
+    mocked.layoutNode.findMany.mockImplementation(({ where }) => (where.warehouseId === 'warehouse-1' ? nodes : []));
+    mocked.layoutEdge.findMany.mockImplementation(({ where }) => (where.warehouseId === 'warehouse-1' ? edges : []));
+    mocked.layoutObstacle.findMany.mockResolvedValue([]);
+    mocked.warehouse.findUnique.mockResolvedValue({ pickPathStrategy: 'RETURN' });
+  });
+
+  it('S_SHAPE walks each aisle end to end in alternating directions', async () => {
+    const plan = await pickPathService.plan('warehouse-1', stops, 'S_SHAPE');
+
+    expect(plan.strategy).toBe('S_SHAPE');
+    expect(codes(plan)).toEqual(['A15', 'B15', 'B5', 'C5', 'D10']);
+    expect(plan.distanceMeters).toBe(150);
+  });
+
+  it('RETURN enters and leaves every aisle from the front', async () => {
+    const plan = await pickPathService.plan('warehouse-1', stops, 'RETURN');
+
+    expect(codes(plan)).toEqual(['A15', 'B5', 'B15', 'C5', 'D10']);
+    expect(plan.distanceMeters).toBe(160);
+  });
+
+  it('LARGEST_GAP reaches middle-aisle picks from the end on their side of the largest gap', async () => {
+    const plan = await pickPathService.plan('warehouse-1', stops, 'LARGEST_GAP');
+
+    expect(codes(plan)).toEqual(['A15', 'B15', 'D10', 'C5', 'B5']);
+    expect(plan.distanceMeters).toBe(140);
+  });
+
+  it('NEAREST_NEIGHBOR_2OPT visits every bin on a tour no longer than the aisle heuristics', async () => {
+    const plan = await pickPathService.plan('warehouse-1', stops, 'NEAREST_NEIGHBOR_2OPT');
+
+    expect(plan.strategy).toBe('NEAREST_NEIGHBOR_2OPT');
+    expect([...codes(plan)].sort()).toEqual(['A15', 'B15', 'B5', 'C5', 'D10']);
+    expect(plan.distanceMeters).toBeLessThanOrEqual(140);
+  });
+
+  it("uses the warehouse's strategy when none is given", async () => {
+    const plan = await pickPathService.plan('warehouse-1', stops);
+
+    expect(plan.strategy).toBe('RETURN');
+  });
+
+  it('sorts the bins by code when the layout cannot route them', async () => {
+    const plan = await pickPathService.plan('warehouse-2', [bin('D10'), bin('A15')], 'S_SHAPE');
+
+    expect(plan.strategy).toBeNull();
+    expect(codes(plan)).toEqual(['A15', 'D10']);
+  });
+});
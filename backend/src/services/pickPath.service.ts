@@ -0,0 +1,314 @@
+import { Location, PickPathStrategy } from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { calculatePickDuration } from '../utils/helpers';
+import { LayoutAisle } from '../utils/layoutGraph';
+import warehouseLayoutService, {
+  LAYOUT_POSITION_SELECT,
+  LayoutPosition,
+  LayoutRouter,
+  nodePosition,
+} from './warehouseLayout.service';
+
+export type PickStop = Pick<Location, 'id' | 'code'> & LayoutPosition;
+
+export interface PickPathPlan {
+  // Bins in walking order
+  stops: PickStop[];
+  distanceMeters: number;
+  // Strategy that ordered the bins; null when the layout could not route
+  // them and they were only sorted by code
+  strategy: PickPathStrategy | null;
+}
+
+interface AislePicks {
+  aisle: LayoutAisle;
+  front: LayoutPosition;
+  back: LayoutPosition;
+  // Position of the front end along the aisle, and the aisle's length
+  frontOffset: number;
+  length: number;
+  // Ordered from the front end, with their distance from it
+  picks: Array<{ stop: PickStop; depth: number }>;
+}
+
+// 2-opt passes over the tour before settling for the best found so far
+const MAX_TWO_OPT_PASSES = 50;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export class PickPathService {
+  /**
+   * Order the bins of a pick trip with a routing strategy over the
+   * warehouse layout, starting and ending at the depot. The warehouse's
+   * own strategy is used unless one is given.
+   */
+  async plan(warehouseId: string, stops: PickStop[], strategy?: PickPathStrategy): Promise<PickPathPlan> {
+    const [router, warehouse] = await Promise.all([
+      warehouseLayoutService.getRouter(warehouseId),
+      prisma.warehouse.findUnique({
+        where: { id: warehouseId },
+        select: { pickPathStrategy: true },
+      }),
+    ]);
+    const depot = router.depot;
+
+    const routable =
+      depot !== null &&
+      stops.every((stop) => !router.route(depot, stop).estimated && !router.route(stop, depot).estimated);
+
+    if (!routable) {
+      const sorted = [...stops].sort((a, b) => a.code.localeCompare(b.code));
+      return { stops: sorted, distanceMeters: round(this.length(router, [null, ...sorted])), strategy: null };
+    }
+
+    const chosen = strategy || warehouse?.pickPathStrategy || 'S_SHAPE';
+    const waypoints =
+      chosen === 'NEAREST_NEIGHBOR_2OPT' ? this.twoOpt(router, depot, stops) : this.aisleRoute(router, chosen, depot, stops);
+
+    // Aisle ends are waypoints too; keep just the bins
+    const bins = new Set<LayoutPosition>(stops);
+    const visited = new Set<PickStop>();
+    for (const waypoint of waypoints) {
+      if (bins.has(waypoint)) visited.add(waypoint as PickStop);
+    }
+
+    return {
+      stops: [...visited],
+      distanceMeters: round(this.length(router, [depot, ...waypoints, depot])),
+      strategy: chosen,
+    };
+  }
+
+  /**
+   * Plan a pick path through bins given by code without creating a task,
+   * to compare strategies on a warehouse's layout
+   */
+  async preview(tenantId: string, warehouseId: string, locationCodes: string[], strategy?: PickPathStrategy) {
+    const warehouse = await prisma.warehouse.findFirst({
+      where: { id: warehouseId, tenantId },
+      select: { id: true },
+    });
+
+    if (!warehouse) {
+      throw new AppError('Warehouse not found', 404);
+    }
+
+    const locations = await prisma.location.findMany({
+      where: { warehouseId, code: { in: locationCodes } },
+      select: { id: true, code: true, ...LAYOUT_POSITION_SELECT },
+    });
+
+    const missing = locationCodes.filter((code) => !locations.some((location) => location.code === code));
+    if (missing.length > 0) {
+      throw new AppError(`Location not found: ${[...new Set(missing)].join(', ')}`, 404);
+    }
+
+    const plan = await this.plan(warehouseId, locations, strategy);
+
+    return {
+      strategy: plan.strategy,
+      optimized: plan.strategy !== null,
+      locationCodes: plan.stops.map((stop) => stop.code),
+      distanceMeters: plan.distanceMeters,
+      durationMinutes: calculatePickDuration(plan.distanceMeters, plan.stops.length),
+    };
+  }
+
+  /**
+   * Walk the aisles holding picks in order across the floor, starting
+   * from the side nearest the depot. Bins outside any aisle are visited
+   * last, nearest first.
+   *
+   * - S_SHAPE: walk each aisle end to end, alternating direction
+   * - RETURN: enter and leave each aisle from its front end
+   * - LARGEST_GAP: walk the first and last aisles end to end; reach the
+   *   picks in the aisles between from whichever end is on their side of
+   *   the aisle's largest gap
+   */
+  private aisleRoute(
+    router: LayoutRouter,
+    strategy: Exclude<PickPathStrategy, 'NEAREST_NEIGHBOR_2OPT'>,
+    depot: LayoutPosition,
+    stops: PickStop[]
+  ): LayoutPosition[] {
+    const { aisles, outside } = this.groupByAisle(router, depot, stops);
+    const waypoints: LayoutPosition[] = [];
+
+    if (strategy === 'RETURN' || (strategy === 'LARGEST_GAP' && aisles.length < 2)) {
+      for (const aisle of aisles) {
+        waypoints.push(aisle.front, ...aisle.picks.map((pick) => pick.stop), aisle.front);
+      }
+    } else if (strategy === 'S_SHAPE') {
+      aisles.forEach((aisle, index) => {
+        const picks = aisle.picks.map((pick) => pick.stop);
+
+        if (index % 2 === 1) {
+          waypoints.push(aisle.back, ...picks.reverse(), aisle.front);
+        } else {
+          // An odd last aisle is left the way it was entered
+          waypoints.push(aisle.front, ...picks, ...(index < aisles.length - 1 ? [aisle.back] : []));
+        }
+      });
+    } else {
+      const first = aisles[0];
+      const last = aisles[aisles.length - 1];
+      const middle = aisles.slice(1, -1).map((aisle) => ({ aisle, ...this.splitAtLargestGap(aisle) }));
+
+      waypoints.push(first.front, ...first.picks.map((pick) => pick.stop), first.back);
+      for (const { aisle, fromBack } of middle) {
+        if (fromBack.length > 0) waypoints.push(aisle.back, ...[...fromBack].reverse(), aisle.back);
+      }
+      waypoints.push(last.back, ...last.picks.map((pick) => pick.stop).reverse(), last.front);
+      for (const { aisle, fromFront } of [...middle].reverse()) {
+        if (fromFront.length > 0) waypoints.push(aisle.front, ...fromFront, aisle.front);
+      }
+    }
+
+    const position = waypoints.length > 0 ? waypoints[waypoints.length - 1] : depot;
+    return [...waypoints, ...this.nearestNeighbour(router, position, outside)];
+  }
+
+  /**
+   * Place each bin in its aisle, ordered from the aisle's front end (the
+   * end nearer the depot), and order the aisles across the floor from the
+   * side nearer the depot
+   */
+  private groupByAisle(
+    router: LayoutRouter,
+    depot: LayoutPosition,
+    stops: PickStop[]
+  ): { aisles: AislePicks[]; outside: PickStop[] } {
+    const grouped = new Map<LayoutAisle, AislePicks>();
+    const outside: PickStop[] = [];
+
+    for (const stop of stops) {
+      const place = router.locate(stop);
+      if (!place) {
+        outside.push(stop);
+        continue;
+      }
+
+      if (!grouped.has(place.aisle)) {
+        const low = nodePosition(place.aisle.low.id);
+        const high = nodePosition(place.aisle.high.id);
+        const lowFirst = router.route(depot, low).distanceMeters <= router.route(depot, high).distanceMeters;
+
+        grouped.set(place.aisle, {
+          aisle: place.aisle,
+          front: lowFirst ? low : high,
+          back: lowFirst ? high : low,
+          frontOffset: (lowFirst ? place.aisle.low : place.aisle.high)[place.aisle.axis],
+          length: Math.abs(place.aisle.high[place.aisle.axis] - place.aisle.low[place.aisle.axis]),
+          picks: [],
+        });
+      }
+
+      const entry = grouped.get(place.aisle)!;
+      entry.picks.push({ stop, depth: Math.abs(place.offset - entry.frontOffset) });
+    }
+
+    const aisles = router.aisles.filter((aisle) => grouped.has(aisle)).map((aisle) => grouped.get(aisle)!);
+    for (const aisle of aisles) {
+      aisle.picks.sort((a, b) => a.depth - b.depth);
+    }
+
+    if (
+      aisles.length > 1 &&
+      router.route(depot, aisles[aisles.length - 1].front).distanceMeters <
+        router.route(depot, aisles[0].front).distanceMeters
+    ) {
+      aisles.reverse();
+    }
+
+    return { aisles, outside };
+  }
+
+  /**
+   * Split an aisle's picks at the largest gap between consecutive picks or
+   * the aisle ends: picks before it are reached from the front, the rest
+   * from the back
+   */
+  private splitAtLargestGap(aisle: AislePicks): { fromFront: PickStop[]; fromBack: PickStop[] } {
+    const depths = [0, ...aisle.picks.map((pick) => pick.depth), aisle.length];
+
+    let gapAt = 0;
+    for (let i = 1; i < depths.length - 1; i++) {
+      if (depths[i + 1] - depths[i] > depths[gapAt + 1] - depths[gapAt]) gapAt = i;
+    }
+
+    const stops = aisle.picks.map((pick) => pick.stop);
+    return { fromFront: stops.slice(0, gapAt), fromBack: stops.slice(gapAt) };
+  }
+
+  /**
+   * Tour from the depot built by always walking to the nearest remaining
+   * bin, then improved by 2-opt until no reversal shortens it. Aisles can
+   * be one-way, so each candidate tour is priced in full.
+   */
+  private twoOpt(router: LayoutRouter, depot: LayoutPosition, stops: PickStop[]): PickStop[] {
+    const points = [depot, ...stops];
+    const cost = points.map((from) => points.map((to) => router.route(from, to).distanceMeters));
+    const length = (tour: number[]) => tour.reduce((total, point, i) => total + cost[point][tour[(i + 1) % tour.length]], 0);
+
+    const tour = [0];
+    const remaining = new Set(stops.map((_, index) => index + 1));
+    while (remaining.size > 0) {
+      const current = tour[tour.length - 1];
+      const next = [...remaining].reduce((best, point) => (cost[current][point] < cost[current][best] ? point : best));
+      tour.push(next);
+      remaining.delete(next);
+    }
+
+    let best = tour;
+    let bestLength = length(best);
+    for (let pass = 0, improved = true; improved && pass < MAX_TWO_OPT_PASSES; pass++) {
+      improved = false;
+      for (let i = 1; i < best.length - 1; i++) {
+        for (let j = i + 1; j < best.length; j++) {
+          const candidate = [...best.slice(0, i), ...best.slice(i, j + 1).reverse(), ...best.slice(j + 1)];
+          const candidateLength = length(candidate);
+          if (candidateLength < bestLength - 1e-9) {
+            best = candidate;
+            bestLength = candidateLength;
+            improved = true;
+          }
+        }
+      }
+    }
+
+    return best.slice(1).map((point) => stops[point - 1]);
+  }
+
+  /**
+   * Visit bins by always walking to the nearest remaining one
+   */
+  private nearestNeighbour(router: LayoutRouter, from: LayoutPosition, stops: PickStop[]): PickStop[] {
+    const ordered: PickStop[] = [];
+    const remaining = [...stops];
+    let position = from;
+
+    while (remaining.length > 0) {
+      const distances = remaining.map((stop) => router.route(position, stop).distanceMeters);
+      const [stop] = remaining.splice(distances.indexOf(Math.min(...distances)), 1);
+      ordered.push(stop);
+      position = stop;
+    }
+
+    return ordered;
+  }
+
+  /**
+   * Walking distance through positions in order; a null first position is
+   * the router's default start
+   */
+  private length(router: LayoutRouter, positions: Array<LayoutPosition | null>): number {
+    let total = 0;
+    for (let i = 1; i < positions.length; i++) {
+      total += router.route(positions[i - 1], positions[i]!).distanceMeters;
+    }
+    return total;
+  }
+}
+
+export default new PickPathService();
@@ -10,6 +10,9 @@ import { prisma } from '../config/database';
 import { AppError } from '../middleware/errorHandler';
 import { eventBus } from '../config/redis';
 import { logger } from '../utils/logger';
+import { calculatePickDuration } from '../utils/helpers';
+import pickPathService, { PickPathPlan } from './pickPath.service';
+import { LAYOUT_POSITION_SELECT } from './warehouseLayout.service';
 
 export interface CreatePickTaskDTO {
   tenantId: string;
@@ -89,8 +92,8 @@ export class PickTaskService {
             }
           }
 
-          // Optimize pick path if enabled
-          const optimizedLines = await this.optimizePickPath(pickLines);
+          // Sequence lines along the warehouse's pick path
+          const { lines: optimizedLines, plan } = await this.optimizePickPath(order.warehouseId, pickLines);
 
           // Get priority from order
           const priority = order.priority;
@@ -107,7 +110,10 @@ export class PickTaskService {
               priority,
               totalLines: optimizedLines.length,
               totalUnits,
-              pickPathOptimized: true,
+              pickPathOptimized: plan.strategy !== null,
+              pickPathStrategy: plan.strategy,
+              estimatedDistanceMeters: plan.distanceMeters,
+              estimatedDurationMinutes: calculatePickDuration(plan.distanceMeters, optimizedLines.length),
             },
           });
 
@@ -460,27 +466,29 @@ export class PickTaskService {
   }
 
   /**
-   * Optimize pick path based on location
+   * Optimize pick path over the warehouse layout, keeping lines for the
+   * same location together
    */
-  private async optimizePickPath(pickLines: any[]): Promise<any[]> {
-    // Simple optimization: sort by location code
-    // In a real implementation, this would use warehouse layout and pathfinding
+  private async optimizePickPath(
+    warehouseId: string,
+    pickLines: any[]
+  ): Promise<{ lines: any[]; plan: PickPathPlan }> {
     const locations = await prisma.location.findMany({
       where: {
         id: { in: pickLines.map((line) => line.locationId) },
       },
+      select: { id: true, code: true, ...LAYOUT_POSITION_SELECT },
     });
 
-    const locationMap = new Map(locations.map((loc) => [loc.id, loc]));
+    const plan = await pickPathService.plan(warehouseId, locations);
+    const visitOrder = new Map(plan.stops.map((stop, index) => [stop.id, index]));
 
-    return pickLines.sort((a, b) => {
-      const locA = locationMap.get(a.locationId);
-      const locB = locationMap.get(b.locationId);
-
-      if (!locA || !locB) return 0;
+    const lines = [...pickLines].sort(
+      (a, b) =>
+        (visitOrder.get(a.locationId) ?? plan.stops.length) - (visitOrder.get(b.locationId) ?? plan.stops.length)
+    );
 
-      return locA.code.localeCompare(locB.code);
-    });
+    return { lines, plan };
   }
 
   /**
@@ -0,0 +1,778 @@
+import {
+  Prisma,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderLineStatus,
+  PurchaseOrderStatus,
+} from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+
+export interface PurchaseOrderLineInput {
+  lineNumber: number;
+  skuId: string;
+  orderedQuantity: number;
+  uom?: string;
+  unitCost?: number;
+}
+
+export interface CreatePurchaseOrderInput {
+  tenantId: string;
+  warehouseId: string;
+  poNumber: string;
+  supplierId: string;
+  orderDate?: Date;
+  expectedDeliveryDate?: Date;
+  currency?: string;
+  overReceiptTolerancePercent?: number;
+  notes?: string;
+  draft?: boolean;
+  createdById: string;
+  lines: PurchaseOrderLineInput[];
+}
+
+export interface UpdatePurchaseOrderInput {
+  expectedDeliveryDate?: Date | null;
+  currency?: string;
+  overReceiptTolerancePercent?: number;
+  notes?: string | null;
+}
+
+// Statuses that accept new receipts and line changes
+const RECEIVABLE_STATUSES: PurchaseOrderStatus[] = ['OPEN', 'PARTIALLY_RECEIVED'];
+const EDITABLE_STATUSES: PurchaseOrderStatus[] = ['DRAFT', 'OPEN', 'PARTIALLY_RECEIVED'];
+const CLOSED_LINE_STATUSES: PurchaseOrderLineStatus[] = ['SHORT_CLOSED', 'CANCELLED'];
+
+// Close reason of a PO closed by refreshPurchaseOrder rather than by a user
+const AUTO_CLOSE_REASON = 'Fully received';
+
+export class PurchaseOrderService {
+  /**
+   * Create a purchase order with lines
+   */
+  async createPurchaseOrder(data: CreatePurchaseOrderInput): Promise<PurchaseOrder> {
+    const existing = await prisma.purchaseOrder.findUnique({
+      where: { tenantId_poNumber: { tenantId: data.tenantId, poNumber: data.poNumber } },
+    });
+
+    if (existing) {
+      throw new AppError(`Purchase order ${data.poNumber} already exists`, 409);
+    }
+
+    const supplier = await prisma.supplier.findFirst({
+      where: { id: data.supplierId, tenantId: data.tenantId },
+    });
+
+    if (!supplier) {
+      throw new AppError('Supplier not found', 404);
+    }
+
+    this.assertUniqueLineNumbers(data.lines);
+    const skus = await this.loadSKUs(data.tenantId, data.lines.map((line) => line.skuId));
+
+    return prisma.purchaseOrder.create({
+      data: {
+        tenantId: data.tenantId,
+        warehouseId: data.warehouseId,
+        poNumber: data.poNumber,
+        supplierId: data.supplierId,
+        status: data.draft ? 'DRAFT' : 'OPEN',
+        orderDate: data.orderDate,
+        expectedDeliveryDate: data.expectedDeliveryDate,
+        currency: data.currency,
+        overReceiptTolerancePercent: data.overReceiptTolerancePercent,
+        notes: data.notes,
+        totalOrderedQuantity: data.lines.reduce((sum, line) => sum + line.orderedQuantity, 0),
+        createdById: data.createdById,
+        lines: {
+          create: data.lines.map((line) => {
+            const sku = skus.get(line.skuId)!;
+            return {
+              tenantId: data.tenantId,
+              lineNumber: line.lineNumber,
+              skuId: sku.id,
+              skuCode: sku.code,
+              productName: sku.name,
+              orderedQuantity: line.orderedQuantity,
+              uom: line.uom || sku.uom,
+              unitCost: line.unitCost ?? sku.unitCost,
+            };
+          }),
+        },
+      },
+      include: {
+        lines: { orderBy: { lineNumber: 'asc' } },
+        supplier: true,
+      },
+    });
+  }
+
+  /**
+   * Get purchase orders with filters
+   */
+  async getPurchaseOrders(params: {
+    tenantId: string;
+    warehouseId?: string;
+    supplierId?: string;
+    status?: PurchaseOrderStatus;
+    search?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const { tenantId, warehouseId, supplierId, status, search, page = 1, limit = 20 } = params;
+
+    const where: Prisma.PurchaseOrderWhereInput = {
+      tenantId,
+      ...(warehouseId && { warehouseId }),
+      ...(supplierId && { supplierId }),
+      ...(status && { status }),
+      ...(search && { poNumber: { contains: search, mode: 'insensitive' } }),
+    };
+
+    const [purchaseOrders, total] = await Promise.all([
+      prisma.purchaseOrder.findMany({
+        where,
+        include: {
+          supplier: { select: { id: true, code: true, name: true } },
+          _count: { select: { lines: true, asns: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.purchaseOrder.count({ where }),
+    ]);
+
+    return {
+      data: purchaseOrders,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get purchase order with lines, linked ASNs and open quantities
+   */
+  async getPurchaseOrderById(id: string, tenantId: string) {
+    const purchaseOrder = await prisma.purchaseOrder.findFirst({
+      where: { id, tenantId },
+      include: {
+        supplier: true,
+        warehouse: { select: { id: true, code: true, name: true } },
+        lines: {
+          include: {
+            sku: { select: { id: true, code: true, name: true, gtin: true } },
+            asnLines: {
+              select: {
+                id: true,
+                asnId: true,
+                lineNumber: true,
+                expectedQuantity: true,
+                receivedQuantity: true,
+                lineStatus: true,
+                asn: { select: { asnNumber: true, shipmentStatus: true } },
+              },
+            },
+            blindReceiptLines: {
+              select: {
+                id: true,
+                blindReceiptId: true,
+                quantityReceived: true,
+                lineStatus: true,
+                blindReceipt: { select: { receiptNumber: true, status: true } },
+              },
+            },
+          },
+          orderBy: { lineNumber: 'asc' },
+        },
+        asns: {
+          select: {
+            id: true,
+            asnNumber: true,
+            shipmentStatus: true,
+            expectedArrivalDate: true,
+            actualArrivalDate: true,
+            totalExpectedUnits: true,
+            totalReceivedUnits: true,
+          },
+          orderBy: { expectedArrivalDate: 'asc' },
+        },
+        createdBy: { select: { id: true, firstName: true, lastName: true } },
+        closedBy: { select: { id: true, firstName: true, lastName: true } },
+      },
+    });
+
+    if (!purchaseOrder) {
+      throw new AppError('Purchase order not found', 404);
+    }
+
+    return {
+      ...purchaseOrder,
+      lines: purchaseOrder.lines.map((line) => ({
+        ...line,
+        openQuantity: this.openQuantity(line),
+      })),
+    };
+  }
+
+  /**
+   * Update purchase order header
+   */
+  async updatePurchaseOrder(
+    id: string,
+    tenantId: string,
+    data: UpdatePurchaseOrderInput
+  ): Promise<PurchaseOrder> {
+    await this.getEditable(id, tenantId);
+
+    return prisma.purchaseOrder.update({
+      where: { id },
+      data,
+    });
+  }
+
+  /**
+   * Release a draft purchase order for receiving
+   */
+  async openPurchaseOrder(id: string, tenantId: string): Promise<PurchaseOrder> {
+    const purchaseOrder = await this.getEditable(id, tenantId);
+
+    if (purchaseOrder.status !== 'DRAFT') {
+      throw new AppError('Only draft purchase orders can be opened', 400);
+    }
+
+    const lineCount = await prisma.purchaseOrderLine.count({ where: { purchaseOrderId: id } });
+    if (lineCount === 0) {
+      throw new AppError('Cannot open a purchase order with no lines', 400);
+    }
+
+    return prisma.purchaseOrder.update({
+      where: { id },
+      data: { status: 'OPEN' },
+    });
+  }
+
+  /**
+   * Add a line to a purchase order
+   */
+  async addLine(
+    purchaseOrderId: string,
+    tenantId: string,
+    data: PurchaseOrderLineInput
+  ): Promise<PurchaseOrderLine> {
+    await this.getEditable(purchaseOrderId, tenantId);
+
+    const duplicate = await prisma.purchaseOrderLine.findUnique({
+      where: { purchaseOrderId_lineNumber: { purchaseOrderId, lineNumber: data.lineNumber } },
+    });
+
+    if (duplicate) {
+      throw new AppError(`Line ${data.lineNumber} already exists on this purchase order`, 409);
+    }
+
+    const sku = (await this.loadSKUs(tenantId, [data.skuId])).get(data.skuId)!;
+
+    const line = await prisma.purchaseOrderLine.create({
+      data: {
+        tenantId,
+        purchaseOrderId,
+        lineNumber: data.lineNumber,
+        skuId: sku.id,
+        skuCode: sku.code,
+        productName: sku.name,
+        orderedQuantity: data.orderedQuantity,
+        uom: data.uom || sku.uom,
+        unitCost: data.unitCost ?? sku.unitCost,
+      },
+    });
+
+    await this.refreshPurchaseOrder(purchaseOrderId);
+    return line;
+  }
+
+  /**
+   * Update ordered quantity or cost of a line. The ordered quantity
+   * cannot drop below what has already been received.
+   */
+  async updateLine(
+    lineId: string,
+    tenantId: string,
+    data: { orderedQuantity?: number; unitCost?: number }
+  ): Promise<PurchaseOrderLine> {
+    const line = await this.getLine(lineId, tenantId);
+    await this.getEditable(line.purchaseOrderId, tenantId);
+
+    if (CLOSED_LINE_STATUSES.includes(line.status)) {
+      throw new AppError(`Line ${line.lineNumber} is ${line.status}`, 400);
+    }
+
+    if (data.orderedQuantity !== undefined && data.orderedQuantity < line.receivedQuantity.toNumber()) {
+      throw new AppError(
+        `Ordered quantity cannot be less than the ${line.receivedQuantity.toNumber()} already received`,
+        400
+      );
+    }
+
+    const updated = await prisma.purchaseOrderLine.update({
+      where: { id: lineId },
+      data,
+    });
+
+    await this.refreshLine(lineId);
+    return updated;
+  }
+
+  /**
+   * Delete a line that has no receipts or linked ASN lines
+   */
+  async deleteLine(lineId: string, tenantId: string): Promise<void> {
+    const line = await this.getLine(lineId, tenantId);
+    await this.getEditable(line.purchaseOrderId, tenantId);
+
+    const [asnLines, blindLines] = await Promise.all([
+      prisma.aSNLine.count({ where: { purchaseOrderLineId: lineId } }),
+      prisma.blindReceiptLine.count({ where: { purchaseOrderLineId: lineId } }),
+    ]);
+
+    if (asnLines > 0 || blindLines > 0 || line.receivedQuantity.toNumber() > 0) {
+      throw new AppError('Cannot delete a line that is linked to receipts; short-close it instead', 400);
+    }
+
+    await prisma.purchaseOrderLine.delete({ where: { id: lineId } });
+    await this.refreshPurchaseOrder(line.purchaseOrderId);
+  }
+
+  /**
+   * Short-close a purchase order: the remaining open quantity will not be
+   * delivered. Lines not fully received become SHORT_CLOSED.
+   */
+  async shortClose(
+    id: string,
+    tenantId: string,
+    closedById: string,
+    reason: string
+  ): Promise<PurchaseOrder> {
+    const purchaseOrder = await this.getEditable(id, tenantId);
+
+    if (purchaseOrder.status === 'DRAFT') {
+      throw new AppError('Draft purchase orders should be cancelled, not short-closed', 400);
+    }
+
+    await this.assertNoInboundASNs(id);
+    return this.closeRemaining(id, closedById, reason);
+  }
+
+  /**
+   * Cancel a purchase order. If anything has already been received it is
+   * short-closed instead so the receipts stay accounted for.
+   */
+  async cancelPurchaseOrder(
+    id: string,
+    tenantId: string,
+    closedById: string,
+    reason: string
+  ): Promise<PurchaseOrder> {
+    await this.getEditable(id, tenantId);
+    await this.assertNoInboundASNs(id);
+
+    const received = await prisma.purchaseOrderLine.aggregate({
+      where: { purchaseOrderId: id },
+      _sum: { receivedQuantity: true },
+    });
+
+    if ((received._sum.receivedQuantity?.toNumber() || 0) > 0) {
+      return this.closeRemaining(id, closedById, reason);
+    }
+
+    await prisma.purchaseOrderLine.updateMany({
+      where: { purchaseOrderId: id },
+      data: { status: 'CANCELLED' },
+    });
+
+    return prisma.purchaseOrder.update({
+      where: { id },
+      data: {
+        status: 'CANCELLED',
+        closedAt: new Date(),
+        closedById,
+        closeReason: reason,
+      },
+    });
+  }
+
+  /**
+   * Link an ASN to a purchase order, matching ASN lines to open PO lines by SKU.
+   * Lines already linked keep their PO line; unmatched lines are reported.
+   * Runs in the given transaction, or in its own.
+   */
+  async linkASN(
+    purchaseOrderId: string,
+    asnId: string,
+    tenantId: string,
+    tx?: Prisma.TransactionClient
+  ): Promise<{ linkedLines: number; unmatchedLines: number[] }> {
+    if (!tx) {
+      return prisma.$transaction((client) => this.linkASN(purchaseOrderId, asnId, tenantId, client));
+    }
+
+    const purchaseOrder = await tx.purchaseOrder.findFirst({
+      where: { id: purchaseOrderId, tenantId },
+      include: { lines: true },
+    });
+
+    if (!purchaseOrder) {
+      throw new AppError('Purchase order not found', 404);
+    }
+
+    if (!RECEIVABLE_STATUSES.includes(purchaseOrder.status)) {
+      throw new AppError(`Purchase order ${purchaseOrder.poNumber} is ${purchaseOrder.status}`, 400);
+    }
+
+    const asn = await tx.aSN.findFirst({
+      where: { id: asnId, tenantId },
+      include: { lines: true },
+    });
+
+    if (!asn) {
+      throw new AppError('ASN not found', 404);
+    }
+
+    if (asn.supplierId !== purchaseOrder.supplierId) {
+      throw new AppError('ASN supplier does not match the purchase order supplier', 400);
+    }
+
+    if (asn.purchaseOrderId && asn.purchaseOrderId !== purchaseOrderId) {
+      throw new AppError('ASN is already linked to another purchase order', 409);
+    }
+
+    const openLines = purchaseOrder.lines
+      .filter((line) => !CLOSED_LINE_STATUSES.includes(line.status))
+      .sort((a, b) => this.openQuantity(b) - this.openQuantity(a));
+
+    const unmatchedLines: number[] = [];
+    let linkedLines = 0;
+
+    for (const asnLine of asn.lines) {
+      if (asnLine.purchaseOrderLineId) {
+        linkedLines++;
+        continue;
+      }
+
+      const match = openLines.find((line) => line.skuId === asnLine.skuId);
+      if (!match) {
+        unmatchedLines.push(asnLine.lineNumber);
+        continue;
+      }
+
+      linkedLines++;
+      await tx.aSNLine.update({
+        where: { id: asnLine.id },
+        data: { purchaseOrderLineId: match.id },
+      });
+    }
+
+    await tx.aSN.update({
+      where: { id: asnId },
+      data: { purchaseOrderId, poNumber: purchaseOrder.poNumber },
+    });
+
+    await this.refreshPurchaseOrder(purchaseOrderId, tx);
+    return { linkedLines, unmatchedLines };
+  }
+
+  /**
+   * Find a receivable purchase order by number for a supplier
+   */
+  async findReceivableByNumber(
+    tenantId: string,
+    supplierId: string,
+    poNumber: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<PurchaseOrder | null> {
+    return client.purchaseOrder.findFirst({
+      where: {
+        tenantId,
+        supplierId,
+        poNumber,
+        status: { in: RECEIVABLE_STATUSES },
+      },
+    });
+  }
+
+  /**
+   * Check a receipt against the PO line: the PO must be open and the total
+   * received (across all ASNs and blind receipts) must stay within the
+   * ordered quantity plus the PO's over-receipt tolerance.
+   */
+  async assertWithinOrder(
+    purchaseOrderLineId: string,
+    quantity: number,
+    exclude: { asnLineId?: string; blindReceiptLineId?: string } = {}
+  ): Promise<void> {
+    const line = await prisma.purchaseOrderLine.findUnique({
+      where: { id: purchaseOrderLineId },
+      include: { purchaseOrder: true },
+    });
+
+    if (!line) {
+      throw new AppError('Purchase order line not found', 404);
+    }
+
+    const { purchaseOrder } = line;
+
+    if (!RECEIVABLE_STATUSES.includes(purchaseOrder.status)) {
+      throw new AppError(
+        `Purchase order ${purchaseOrder.poNumber} is ${purchaseOrder.status} and cannot be received against`,
+        400
+      );
+    }
+
+    if (CLOSED_LINE_STATUSES.includes(line.status)) {
+      throw new AppError(`Purchase order ${purchaseOrder.poNumber} line ${line.lineNumber} is ${line.status}`, 400);
+    }
+
+    const alreadyReceived = await this.sumReceived(purchaseOrderLineId, exclude, true);
+    const ordered = line.orderedQuantity.toNumber();
+    const allowed = ordered * (1 + purchaseOrder.overReceiptTolerancePercent.toNumber() / 100);
+
+    if (alreadyReceived + quantity > allowed + 1e-9) {
+      throw new AppError(
+        `Over-receipt on PO ${purchaseOrder.poNumber} line ${line.lineNumber}: ordered ${ordered}, ` +
+          `already received ${alreadyReceived}, receiving ${quantity} exceeds the allowed ${allowed}`,
+        400
+      );
+    }
+  }
+
+  /**
+   * Recalculate a PO line's received quantity from its receipts and
+   * roll the change up to the purchase order
+   */
+  async refreshLine(purchaseOrderLineId: string): Promise<void> {
+    const line = await prisma.purchaseOrderLine.findUnique({
+      where: { id: purchaseOrderLineId },
+    });
+
+    if (!line) return;
+
+    const received = await this.sumReceived(purchaseOrderLineId);
+    const ordered = line.orderedQuantity.toNumber();
+
+    let status: PurchaseOrderLineStatus = line.status;
+    if (!CLOSED_LINE_STATUSES.includes(line.status)) {
+      if (received >= ordered) status = 'RECEIVED';
+      else if (received > 0) status = 'PARTIALLY_RECEIVED';
+      else status = 'OPEN';
+    }
+
+    await prisma.purchaseOrderLine.update({
+      where: { id: purchaseOrderLineId },
+      data: { receivedQuantity: received, status },
+    });
+
+    await this.refreshPurchaseOrder(line.purchaseOrderId);
+  }
+
+  /**
+   * Refresh several PO lines (e.g. all lines touched by a receipt)
+   */
+  async refreshLines(purchaseOrderLineIds: (string | null)[]): Promise<void> {
+    for (const id of new Set(purchaseOrderLineIds.filter((id): id is string => !!id))) {
+      await this.refreshLine(id);
+    }
+  }
+
+  /**
+   * Roll line quantities up to the purchase order and close it
+   * automatically once every line is received or short-closed. A PO closed
+   * this way reopens if a reversal or correction leaves a line short.
+   */
+  async refreshPurchaseOrder(purchaseOrderId: string, client: Prisma.TransactionClient = prisma): Promise<void> {
+    const purchaseOrder = await client.purchaseOrder.findUnique({
+      where: { id: purchaseOrderId },
+      include: { lines: true },
+    });
+
+    if (!purchaseOrder) return;
+
+    const totalOrderedQuantity = purchaseOrder.lines.reduce(
+      (sum, line) => sum + line.orderedQuantity.toNumber(),
+      0
+    );
+    const totalReceivedQuantity = purchaseOrder.lines.reduce(
+      (sum, line) => sum + line.receivedQuantity.toNumber(),
+      0
+    );
+
+    let status = purchaseOrder.status;
+    let closedAt = purchaseOrder.closedAt;
+    let closeReason = purchaseOrder.closeReason;
+
+    const autoClosed =
+      (status === 'CLOSED' || status === 'SHORT_CLOSED') &&
+      closeReason === AUTO_CLOSE_REASON &&
+      !purchaseOrder.closedById;
+
+    if ((RECEIVABLE_STATUSES.includes(status) || autoClosed) && purchaseOrder.lines.length > 0) {
+      const activeLines = purchaseOrder.lines.filter((line) => !CLOSED_LINE_STATUSES.includes(line.status));
+      const allReceived = activeLines.every((line) => line.status === 'RECEIVED');
+
+      if (allReceived) {
+        status = activeLines.length === purchaseOrder.lines.length ? 'CLOSED' : 'SHORT_CLOSED';
+        closedAt = autoClosed ? closedAt : new Date();
+        closeReason = AUTO_CLOSE_REASON;
+      } else {
+        status = totalReceivedQuantity > 0 ? 'PARTIALLY_RECEIVED' : 'OPEN';
+        closedAt = null;
+        closeReason = null;
+      }
+    }
+
+    await client.purchaseOrder.update({
+      where: { id: purchaseOrderId },
+      data: {
+        totalOrderedQuantity,
+        totalReceivedQuantity,
+        status,
+        closedAt,
+        closeReason,
+      },
+    });
+  }
+
+  private openQuantity(line: Pick<PurchaseOrderLine, 'orderedQuantity' | 'receivedQuantity' | 'status'>): number {
+    if (CLOSED_LINE_STATUSES.includes(line.status)) return 0;
+    return Math.max(line.orderedQuantity.toNumber() - line.receivedQuantity.toNumber(), 0);
+  }
+
+  /**
+   * Sum received quantities across ASN lines and blind receipt lines.
+   * Blind receipt lines count once approved; for over-receipt checks
+   * (includePending) lines awaiting approval count too.
+   */
+  private async sumReceived(
+    purchaseOrderLineId: string,
+    exclude: { asnLineId?: string; blindReceiptLineId?: string } = {},
+    includePending = false
+  ): Promise<number> {
+    const [asnTotal, blindTotal] = await Promise.all([
+      prisma.aSNLine.aggregate({
+        where: {
+          purchaseOrderLineId,
+          receivedAt: { not: null },
+          asn: { shipmentStatus: { not: 'CANCELLED' } },
+          ...(exclude.asnLineId && { id: { not: exclude.asnLineId } }),
+        },
+        _sum: { receivedQuantity: true },
+      }),
+      prisma.blindReceiptLine.aggregate({
+        where: {
+          purchaseOrderLineId,
+          blindReceipt: { status: { not: 'REJECTED' } },
+          ...(includePending
+            ? { lineStatus: { not: 'REJECTED' } }
+            : { lineStatus: 'COMPLETED' }),
+          ...(exclude.blindReceiptLineId && { id: { not: exclude.blindReceiptLineId } }),
+        },
+        _sum: { quantityReceived: true },
+      }),
+    ]);
+
+    return (
+      (asnTotal._sum.receivedQuantity?.toNumber() || 0) +
+      (blindTotal._sum.quantityReceived?.toNumber() || 0)
+    );
+  }
+
+  private async closeRemaining(id: string, closedById: string, reason: string): Promise<PurchaseOrder> {
+    await prisma.purchaseOrderLine.updateMany({
+      where: { purchaseOrderId: id, status: { in: ['OPEN', 'PARTIALLY_RECEIVED'] } },
+      data: { status: 'SHORT_CLOSED' },
+    });
+
+    return prisma.purchaseOrder.update({
+      where: { id },
+      data: {
+        status: 'SHORT_CLOSED',
+        closedAt: new Date(),
+        closedById,
+        closeReason: reason,
+      },
+    });
+  }
+
+  private async assertNoInboundASNs(purchaseOrderId: string): Promise<void> {
+    const inbound = await prisma.aSN.findMany({
+      where: {
+        purchaseOrderId,
+        shipmentStatus: { notIn: ['COMPLETED', 'CANCELLED'] },
+      },
+      select: { asnNumber: true },
+    });
+
+    if (inbound.length > 0) {
+      throw new AppError(
+        `Purchase order has ASNs still in progress: ${inbound.map((asn) => asn.asnNumber).join(', ')}`,
+        400
+      );
+    }
+  }
+
+  private async getEditable(id: string, tenantId: string): Promise<PurchaseOrder> {
+    const purchaseOrder = await prisma.purchaseOrder.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!purchaseOrder) {
+      throw new AppError('Purchase order not found', 404);
+    }
+
+    if (!EDITABLE_STATUSES.includes(purchaseOrder.status)) {
+      throw new AppError(`Purchase order is ${purchaseOrder.status}`, 400);
+    }
+
+    return purchaseOrder;
+  }
+
+  private async getLine(lineId: string, tenantId: string): Promise<PurchaseOrderLine> {
+    const line = await prisma.purchaseOrderLine.findFirst({
+      where: { id: lineId, tenantId },
+    });
+
+    if (!line) {
+      throw new AppError('Purchase order line not found', 404);
+    }
+
+    return line;
+  }
+
+  private assertUniqueLineNumbers(lines: PurchaseOrderLineInput[]): void {
+    const seen = new Set<number>();
+    for (const line of lines) {
+      if (seen.has(line.lineNumber)) {
+        throw new AppError(`Duplicate line number ${line.lineNumber}`, 400);
+      }
+      seen.add(line.lineNumber);
+    }
+  }
+
+  private async loadSKUs(tenantId: string, skuIds: string[]) {
+    const skus = await prisma.sKU.findMany({
+      where: { tenantId, id: { in: skuIds } },
+    });
+
+    const byId = new Map(skus.map((sku) => [sku.id, sku]));
+    const missing = skuIds.filter((id) => !byId.has(id));
+    if (missing.length > 0) {
+      throw new AppError(`SKU not found: ${missing.join(', ')}`, 404);
+    }
+
+    return byId;
+  }
+}
+
+export default new PurchaseOrderService();
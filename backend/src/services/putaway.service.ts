@@ -1,16 +1,45 @@
-import { Prisma, PutawayTask, PutawayStatus, SKU, Location } from '@prisma/client';
+import {
+  Prisma,
+  PutawayTask,
+  PutawayStatus,
+  PutawayEquipmentType,
+  Location,
+  InventoryStatus,
+  ZoneType,
+} from '@prisma/client';
 import prisma from '../config/database';
 import { generateSequentialNumber, calculatePutawayDuration } from '../utils/helpers';
 import { AppError } from '../middleware/errorHandler';
+import putawayRuleService, { PutawaySubject } from './putawayRule.service';
+import binCapacityService, { BinLoad } from './binCapacity.service';
+import putawayOverrideService, { PutawayOverrideInput } from './putawayOverride.service';
+import warehouseLayoutService from './warehouseLayout.service';
+
+/**
+ * What one trip on each kind of equipment can carry
+ */
+export const PUTAWAY_EQUIPMENT_CAPACITY: Record<
+  PutawayEquipmentType,
+  { maxWeightKg: number; maxVolumeM3: number; maxStops: number }
+> = {
+  CART: { maxWeightKg: 250, maxVolumeM3: 1.2, maxStops: 12 },
+  PALLET_JACK: { maxWeightKg: 1000, maxVolumeM3: 1.8, maxStops: 20 },
+  FORKLIFT: { maxWeightKg: 1000, maxVolumeM3: 1.8, maxStops: 8 },
+};
 
 export interface CreatePutawayTasksInput {
   tenantId: string;
   warehouseId: string;
-  receiptType: 'ASN' | 'BLIND';
+  receiptType: 'ASN' | 'BLIND' | 'RETURN';
   receiptId: string;
   sourceLocationId: string;
+  // Restrict destinations to one zone type (e.g. QUARANTINE for graded returns)
+  zoneType?: ZoneType;
+  // Status the stock is posted with on completion; non-AVAILABLE stock is not allocatable
+  inventoryStatus?: InventoryStatus;
   items: Array<{
     skuId: string;
+    receiptLineId?: string;
     quantity: number;
     batchNumber?: string;
     expiryDate?: Date;
@@ -32,6 +61,10 @@ export class PutawayService {
   async generatePutawayTasks(input: CreatePutawayTasksInput): Promise<PutawayTask[]> {
     const tasks: PutawayTask[] = [];
 
+    await this.assertReleasedForPutaway(input);
+
+    const router = await warehouseLayoutService.getRouter(input.warehouseId);
+
     for (const item of input.items) {
       const sku = await prisma.sKU.findUnique({
         where: { id: item.skuId },
@@ -41,17 +74,22 @@ export class PutawayService {
         throw new AppError(`SKU not found: ${item.skuId}`, 404);
       }
 
-      // Determine putaway strategy and destination
-      const destination = await this.determineDestination(
+      // Determine putaway strategy and a destination the load fits
+      const subject: PutawaySubject = {
         sku,
-        input.warehouseId,
-        item.quantity,
-        item.expiryDate
-      );
-
-      if (!destination) {
+        warehouseId: input.warehouseId,
+        quantity: item.quantity,
+        expiryDate: item.expiryDate,
+        lpn: item.lpn,
+      };
+      const destination = input.zoneType
+        ? await putawayRuleService.resolveZoneDestination(subject, input.zoneType)
+        : await putawayRuleService.resolveDestination(input.tenantId, subject);
+
+      if (!destination.location || !destination.strategy) {
         throw new AppError(
-          `No suitable location found for SKU: ${sku.code}`,
+          `${input.zoneType ? `No available ${input.zoneType} location` : 'No suitable location found'} ` +
+            `for SKU: ${sku.code} (${destination.explanation.summary})`,
           400
         );
       }
@@ -61,62 +99,76 @@ export class PutawayService {
         where: { id: input.sourceLocationId },
       });
 
-      // Calculate estimated duration
-      const distanceMeters = this.calculateDistance(
-        sourceLocation,
-        destination.location
-      );
+      // Walk from the receiving location over the warehouse layout
+      const distanceMeters =
+        Math.round(router.route(sourceLocation, destination.location).distanceMeters * 100) / 100;
       const estimatedDuration = calculatePutawayDuration(
         distanceMeters,
         item.quantity
       );
 
-      // Generate task number
-      const lastTask = await prisma.putawayTask.findFirst({
-        where: { tenantId: input.tenantId },
-        orderBy: { createdAt: 'desc' },
-      });
-
-      const taskNumber = generateSequentialNumber('PA', lastTask?.taskNumber);
+      const equipmentType = await this.chooseEquipment(
+        input.tenantId,
+        destination.location,
+        destination.load,
+        item.lpn
+      );
 
-      // Create putaway task
-      const task = await prisma.putawayTask.create({
-        data: {
-          tenantId: input.tenantId,
-          warehouseId: input.warehouseId,
-          taskNumber,
-          receiptType: input.receiptType,
-          receiptId: input.receiptId,
-          status: 'PENDING',
-          priority: sku.velocity === 'FAST' ? 'HIGH' : 'NORMAL',
-          skuId: item.skuId,
-          skuCode: sku.code,
-          productName: sku.name,
-          quantityToPutaway: item.quantity,
-          batchNumber: item.batchNumber,
-          expiryDate: item.expiryDate,
-          lpn: item.lpn,
-          serialNumbers: item.serialNumbers || [],
-          sourceLocationId: input.sourceLocationId,
-          sourceLocationCode: sourceLocation?.code || '',
-          destinationLocationId: destination.location.id,
-          destinationLocationCode: destination.location.code,
-          destinationZoneId: destination.location.zoneId,
-          putawayStrategy: destination.strategy,
-          estimatedDurationMinutes: estimatedDuration,
-          distanceMeters,
-          specialHandling: {
-            temperatureControlled: sku.temperatureControlled,
-            hazmat: sku.isHazmat,
+      // The bin may have filled since it was chosen; the task is only
+      // created if its units, weight and cube can still be reserved there
+      const { location, strategy } = destination;
+      const task = await prisma.$transaction(async (tx) => {
+        // Generate task number
+        const lastTask = await tx.putawayTask.findFirst({
+          where: { tenantId: input.tenantId },
+          orderBy: { createdAt: 'desc' },
+        });
+
+        const taskNumber = generateSequentialNumber('PA', lastTask?.taskNumber);
+
+        // Create putaway task
+        const created = await tx.putawayTask.create({
+          data: {
+            tenantId: input.tenantId,
+            warehouseId: input.warehouseId,
+            taskNumber,
+            receiptType: input.receiptType,
+            receiptId: input.receiptId,
+            receiptLineId: item.receiptLineId,
+            status: 'PENDING',
+            priority: sku.velocity === 'FAST' ? 'HIGH' : 'NORMAL',
+            skuId: item.skuId,
+            skuCode: sku.code,
+            productName: sku.name,
+            quantityToPutaway: item.quantity,
+            weightKg: destination.load.weightKg,
+            volumeM3: destination.load.volumeM3,
+            batchNumber: item.batchNumber,
+            expiryDate: item.expiryDate,
+            lpn: item.lpn,
+            serialNumbers: item.serialNumbers || [],
+            sourceLocationId: input.sourceLocationId,
+            sourceLocationCode: sourceLocation?.code || '',
+            destinationLocationId: location.id,
+            destinationLocationCode: location.code,
+            destinationZoneId: location.zoneId,
+            equipmentType,
+            putawayStrategy: strategy,
+            putawayExplanation: destination.explanation as unknown as Prisma.InputJsonValue,
+            inventoryStatus: input.inventoryStatus || 'AVAILABLE',
+            estimatedDurationMinutes: estimatedDuration,
+            distanceMeters,
+            specialHandling: {
+              temperatureControlled: sku.temperatureControlled,
+              hazmat: sku.isHazmat,
+            },
           },
-        },
-      });
+        });
 
-      // Reserve bin capacity
-      await this.reserveBinCapacity(
-        destination.location.id,
-        item.quantity
-      );
+        await binCapacityService.reserveIfFits(created, location.id, destination.load, tx);
+
+        return created;
+      });
 
       tasks.push(task);
     }
@@ -125,336 +177,97 @@ export class PutawayService {
   }
 
   /**
-   * Determine optimal destination location for putaway
+   * Receipt lines may only be put away once QA inspection releases any hold
+   * and any temperature excursion on them has been resolved
    */
-  private async determineDestination(
-    sku: SKU,
-    warehouseId: string,
-    quantity: number,
-    expiryDate?: Date
-  ): Promise<{ location: Location; strategy: string } | null> {
-    // Strategy priority:
-    // 1. Hazmat → Hazmat zones
-    // 2. Temperature → Temperature-controlled zones
-    // 3. FEFO (perishable) → Earliest expiry bins
-    // 4. FIFO (batch-tracked) → Oldest batch bins
-    // 5. Velocity → Fast-movers to pick faces
-    // 6. Consolidation → Same SKU bins
-    // 7. Bulk → High-capacity bins in reserve
-
-    // Hazmat items
-    if (sku.isHazmat) {
-      const location = await this.findHazmatLocation(warehouseId, quantity, sku.hazardClass);
-      if (location) {
-        return { location, strategy: 'Hazmat_Zone' };
-      }
-    }
+  private async assertReleasedForPutaway(input: CreatePutawayTasksInput): Promise<void> {
+    const lineIds = input.items
+      .map((item) => item.receiptLineId)
+      .filter((id): id is string => !!id);
 
-    // Temperature-controlled items
-    if (sku.temperatureControlled) {
-      const location = await this.findTemperatureControlledLocation(
-        warehouseId,
-        quantity,
-        sku.temperatureMin?.toNumber(),
-        sku.temperatureMax?.toNumber()
-      );
-      if (location) {
-        return { location, strategy: 'Temperature_Zone' };
-      }
+    if (lineIds.length === 0 || input.receiptType === 'RETURN') {
+      return;
     }
 
-    // FEFO for perishable items
-    if (sku.isPerishable && expiryDate) {
-      const location = await this.findFEFOLocation(
-        warehouseId,
-        sku.id,
-        quantity,
-        expiryDate
+    const held =
+      input.receiptType === 'ASN'
+        ? await prisma.aSNLine.findMany({
+            where: { id: { in: lineIds }, qaHold: true },
+            select: { lineNumber: true },
+          })
+        : await prisma.blindReceiptLine.findMany({
+            where: { id: { in: lineIds }, qaHold: true },
+            select: { lineNumber: true },
+          });
+
+    if (held.length > 0) {
+      throw new AppError(
+        `Lines ${held.map((line) => line.lineNumber).join(', ')} are on QA hold pending inspection`,
+        400
       );
-      if (location) {
-        return { location, strategy: 'FEFO' };
-      }
-    }
-
-    // FIFO for batch-tracked items
-    if (sku.requiresBatchTracking && !sku.isPerishable) {
-      const location = await this.findFIFOLocation(warehouseId, sku.id, quantity);
-      if (location) {
-        return { location, strategy: 'FIFO' };
-      }
     }
 
-    // Velocity-based for fast-movers
-    if (sku.velocity === 'FAST' || sku.abcClassification === 'A') {
-      const location = await this.findPickFaceLocation(warehouseId, sku.id, quantity);
-      if (location) {
-        return { location, strategy: 'Velocity_Based' };
-      }
-    }
-
-    // Consolidation - try to place with existing SKU
-    const location = await this.findConsolidationLocation(
-      warehouseId,
-      sku.id,
-      quantity
-    );
-    if (location) {
-      return { location, strategy: 'Consolidation' };
-    }
+    if (input.receiptType === 'BLIND') {
+      const onboarding = await prisma.blindReceiptLine.findMany({
+        where: { id: { in: lineIds }, isNewItem: true, skuId: null },
+        select: { lineNumber: true },
+      });
 
-    // Bulk storage for slow-movers
-    if (sku.velocity === 'SLOW' || sku.abcClassification === 'C') {
-      const location = await this.findBulkStorageLocation(warehouseId, quantity);
-      if (location) {
-        return { location, strategy: 'Bulk_Storage' };
+      if (onboarding.length > 0) {
+        throw new AppError(
+          `Lines ${onboarding.map((line) => line.lineNumber).join(', ')} are awaiting new SKU approval`,
+          400
+        );
       }
     }
 
-    // Fallback - any available location
-    const fallbackLocation = await this.findAnyAvailableLocation(warehouseId, quantity);
-    if (fallbackLocation) {
-      return { location: fallbackLocation, strategy: 'General_Storage' };
-    }
-
-    return null;
-  }
-
-  /**
-   * Find hazmat-certified location
-   */
-  private async findHazmatLocation(
-    warehouseId: string,
-    quantity: number,
-    hazardClass?: string | null
-  ): Promise<Location | null> {
-    return prisma.location.findFirst({
-      where: {
-        warehouseId,
-        status: 'ACTIVE',
-        hazmatCertified: true,
-        temporarilyLocked: false,
-        zone: {
-          zoneType: 'HAZMAT',
-        },
-        currentCapacityUsed: {
-          lt: prisma.location.fields.maxCapacity,
-        },
-      },
-      orderBy: [
-        { currentCapacityUsed: 'asc' },
-      ],
-    });
-  }
-
-  /**
-   * Find temperature-controlled location
-   */
-  private async findTemperatureControlledLocation(
-    warehouseId: string,
-    quantity: number,
-    tempMin?: number,
-    tempMax?: number
-  ): Promise<Location | null> {
-    return prisma.location.findFirst({
-      where: {
-        warehouseId,
-        status: 'ACTIVE',
-        refrigerated: true,
-        temporarilyLocked: false,
-        zone: {
-          temperatureControlled: true,
-        },
-        currentCapacityUsed: {
-          lt: prisma.location.fields.maxCapacity,
-        },
-      },
-      orderBy: [
-        { currentCapacityUsed: 'asc' },
-      ],
-    });
-  }
-
-  /**
-   * Find location for FEFO (First Expired, First Out)
-   */
-  private async findFEFOLocation(
-    warehouseId: string,
-    skuId: string,
-    quantity: number,
-    expiryDate: Date
-  ): Promise<Location | null> {
-    // Try to find bins with same SKU for consolidation
-    return prisma.location.findFirst({
-      where: {
-        warehouseId,
-        status: 'ACTIVE',
-        temporarilyLocked: false,
-        zone: {
-          zoneType: { in: ['STORAGE', 'PICK_FACE'] },
-        },
-        currentCapacityUsed: {
-          lt: prisma.location.fields.maxCapacity,
-        },
-      },
-      orderBy: [
-        { heightLevel: 'asc' }, // Lower shelves for easy access
-        { currentCapacityUsed: 'asc' },
-      ],
-    });
-  }
-
-  /**
-   * Find location for FIFO (First In, First Out)
-   */
-  private async findFIFOLocation(
-    warehouseId: string,
-    skuId: string,
-    quantity: number
-  ): Promise<Location | null> {
-    return prisma.location.findFirst({
-      where: {
-        warehouseId,
-        status: 'ACTIVE',
-        temporarilyLocked: false,
-        currentCapacityUsed: {
-          lt: prisma.location.fields.maxCapacity,
-        },
-      },
-      orderBy: [
-        { currentCapacityUsed: 'asc' },
-      ],
-    });
-  }
-
-  /**
-   * Find pick face location for fast-moving items
-   */
-  private async findPickFaceLocation(
-    warehouseId: string,
-    skuId: string,
-    quantity: number
-  ): Promise<Location | null> {
-    return prisma.location.findFirst({
+    const excursions = await prisma.variance.findMany({
       where: {
-        warehouseId,
-        status: 'ACTIVE',
-        temporarilyLocked: false,
-        locationType: 'PICK_FACE',
-        zone: {
-          zoneType: 'PICK_FACE',
-        },
-        currentCapacityUsed: {
-          lt: prisma.location.fields.maxCapacity,
-        },
+        receiptLineId: { in: lineIds },
+        varianceType: 'TEMPERATURE_VIOLATION',
+        status: { in: ['PENDING', 'NEW', 'UNDER_REVIEW', 'ESCALATED'] },
       },
-      orderBy: [
-        { heightLevel: 'asc' }, // Lower shelves first
-        { currentCapacityUsed: 'asc' },
-      ],
+      select: { skuCode: true },
     });
-  }
 
-  /**
-   * Find location for consolidation (same SKU)
-   */
-  private async findConsolidationLocation(
-    warehouseId: string,
-    skuId: string,
-    quantity: number
-  ): Promise<Location | null> {
-    // This is simplified - in real implementation, you'd check inventory records
-    return prisma.location.findFirst({
-      where: {
-        warehouseId,
-        status: 'ACTIVE',
-        temporarilyLocked: false,
-        currentCapacityUsed: {
-          lt: prisma.location.fields.maxCapacity,
-        },
-      },
-      orderBy: [
-        { currentCapacityUsed: 'desc' }, // Fill existing bins first
-      ],
-    });
+    if (excursions.length > 0) {
+      throw new AppError(
+        `Unresolved temperature excursions block putaway of ${excursions.map((v) => v.skuCode).join(', ')}`,
+        400
+      );
+    }
   }
 
   /**
-   * Find bulk storage location for slow-moving items
+   * Equipment needed to carry a load to a bin: a forklift above the second
+   * level, a pallet jack for pallets and loads too big for a cart
    */
-  private async findBulkStorageLocation(
-    warehouseId: string,
-    quantity: number
-  ): Promise<Location | null> {
-    return prisma.location.findFirst({
-      where: {
-        warehouseId,
-        status: 'ACTIVE',
-        temporarilyLocked: false,
-        locationType: 'RESERVE',
-        zone: {
-          zoneType: 'RESERVE',
-        },
-        currentCapacityUsed: {
-          lt: prisma.location.fields.maxCapacity,
-        },
-      },
-      orderBy: [
-        { maxCapacity: 'desc' }, // Largest bins first
-        { currentCapacityUsed: 'asc' },
-      ],
-    });
-  }
+  private async chooseEquipment(
+    tenantId: string,
+    destination: Location,
+    load: BinLoad,
+    lpnCode?: string
+  ): Promise<PutawayEquipmentType> {
+    if (destination.heightLevel > 2) {
+      return 'FORKLIFT';
+    }
 
-  /**
-   * Find any available location (fallback)
-   */
-  private async findAnyAvailableLocation(
-    warehouseId: string,
-    quantity: number
-  ): Promise<Location | null> {
-    return prisma.location.findFirst({
-      where: {
-        warehouseId,
-        status: 'ACTIVE',
-        temporarilyLocked: false,
-        locationType: { in: ['STORAGE', 'RESERVE'] },
-        currentCapacityUsed: {
-          lt: prisma.location.fields.maxCapacity,
-        },
-      },
-      orderBy: [
-        { currentCapacityUsed: 'asc' },
-      ],
-    });
-  }
+    const cart = PUTAWAY_EQUIPMENT_CAPACITY.CART;
+    if ((load.weightKg ?? 0) > cart.maxWeightKg || (load.volumeM3 ?? 0) > cart.maxVolumeM3) {
+      return 'PALLET_JACK';
+    }
 
-  /**
-   * Reserve bin capacity for putaway task
-   */
-  private async reserveBinCapacity(
-    locationId: string,
-    quantity: number
-  ): Promise<void> {
-    await prisma.location.update({
-      where: { id: locationId },
-      data: {
-        reservedCapacity: {
-          increment: quantity,
-        },
-      },
-    });
-  }
+    if (lpnCode) {
+      const lpn = await prisma.lPN.findFirst({
+        where: { tenantId, lpnCode },
+        select: { lpnType: true },
+      });
+      if (lpn?.lpnType === 'PALLET') {
+        return 'PALLET_JACK';
+      }
+    }
 
-  /**
-   * Calculate distance between two locations (simplified)
-   */
-  private calculateDistance(
-    source: Location | null,
-    destination: Location
-  ): number {
-    // Simplified distance calculation
-    // In real implementation, use warehouse layout/coordinates
-    return 50; // Default 50 meters
+    return 'CART';
   }
 
   /**
@@ -477,13 +290,17 @@ export class PutawayService {
       throw new AppError('Task already assigned or completed', 400);
     }
 
-    return prisma.putawayTask.update({
-      where: { id: taskId },
-      data: {
-        status: 'ASSIGNED',
-        operatorUserId,
-        assignedAt: new Date(),
-      },
+    return prisma.$transaction(async (tx) => {
+      await binCapacityService.renew(task, tx);
+
+      return tx.putawayTask.update({
+        where: { id: taskId },
+        data: {
+          status: 'ASSIGNED',
+          operatorUserId,
+          assignedAt: new Date(),
+        },
+      });
     });
   }
 
@@ -503,23 +320,68 @@ export class PutawayService {
       throw new AppError('Task cannot be started', 400);
     }
 
-    return prisma.putawayTask.update({
-      where: { id: taskId },
-      data: {
-        status: 'IN_PROGRESS',
-        startedAt: new Date(),
-      },
+    return prisma.$transaction(async (tx) => {
+      await binCapacityService.renew(task, tx);
+
+      return tx.putawayTask.update({
+        where: { id: taskId },
+        data: {
+          status: 'IN_PROGRESS',
+          startedAt: new Date(),
+        },
+      });
+    });
+  }
+
+  /**
+   * Cancel an open putaway task and give back the bin space it holds
+   */
+  async cancelTask(taskId: string, tenantId: string, reason?: string): Promise<PutawayTask> {
+    const task = await prisma.putawayTask.findFirst({
+      where: { id: taskId, tenantId },
+    });
+
+    if (!task) {
+      throw new AppError('Putaway task not found', 404);
+    }
+
+    if (task.status === 'COMPLETED' || task.status === 'CANCELLED') {
+      throw new AppError(`Task is already ${task.status.toLowerCase()}`, 400);
+    }
+
+    const stop = await prisma.putawayBatchStop.findFirst({
+      where: { taskId, status: 'PENDING', batch: { status: { in: ['PENDING', 'ASSIGNED', 'IN_PROGRESS'] } } },
+      include: { batch: { select: { batchNumber: true } } },
+    });
+
+    if (stop) {
+      throw new AppError(`Task is a stop on trip ${stop.batch.batchNumber}; skip it there first`, 400);
+    }
+
+    return prisma.$transaction(async (tx) => {
+      await binCapacityService.releaseTask(task.id, reason || 'Task cancelled', tx);
+
+      return tx.putawayTask.update({
+        where: { id: taskId },
+        data: {
+          status: 'CANCELLED',
+          operatorNotes: reason || task.operatorNotes,
+        },
+      });
     });
   }
 
   /**
-   * Complete putaway task
+   * Complete putaway task, optionally in a bin the operator chose instead
+   * of the suggested one. A short completion leaves a pending task for the
+   * rest.
    */
   async completeTask(
     taskId: string,
     tenantId: string,
     actualQuantity?: number,
-    operatorNotes?: string
+    operatorNotes?: string,
+    override?: PutawayOverrideInput
   ): Promise<PutawayTask> {
     const task = await prisma.putawayTask.findFirst({
       where: { id: taskId, tenantId },
@@ -533,34 +395,311 @@ export class PutawayService {
       throw new AppError('Task must be in progress to complete', 400);
     }
 
+    const planned = task.quantityToPutaway.toNumber();
+    const confirmedQuantity = actualQuantity ?? planned;
+
+    if (confirmedQuantity > planned) {
+      throw new AppError(`Cannot put away more than the ${planned} units planned for task ${task.taskNumber}`, 400);
+    }
+
+    const overrideLocation =
+      override && override.locationCode !== task.destinationLocationCode
+        ? await putawayOverrideService.resolveOverride(task, override.locationCode, confirmedQuantity)
+        : null;
+
+    return prisma.$transaction(async (tx) => {
+      const current = overrideLocation
+        ? await putawayOverrideService.applyOverride(tx, task, overrideLocation, override!, confirmedQuantity)
+        : task;
+
+      const completed = await this.finishTask(tx, current, confirmedQuantity, operatorNotes);
+
+      // Units left on the dock go back to the pending pool as a task of their own
+      if (confirmedQuantity < planned) {
+        await this.createRemainderTask(tx, current, planned - confirmedQuantity);
+      }
+
+      return completed;
+    });
+  }
+
+  /**
+   * Store the confirmed quantity of an in-progress task and close it, inside
+   * the caller's transaction
+   */
+  async finishTask(
+    tx: Prisma.TransactionClient,
+    task: PutawayTask,
+    confirmedQuantity: number,
+    operatorNotes?: string
+  ): Promise<PutawayTask> {
     const completedAt = new Date();
     const actualDuration = task.startedAt
       ? Math.round((completedAt.getTime() - task.startedAt.getTime()) / (1000 * 60))
       : null;
 
-    // Update bin capacity
+    // Close the task first so a second completion cannot post the stock again
+    const claimed = await tx.putawayTask.updateMany({
+      where: { id: task.id, status: 'IN_PROGRESS' },
+      data: {
+        status: 'COMPLETED',
+        quantityConfirmed: confirmedQuantity,
+        completedAt,
+        actualDurationMinutes: actualDuration,
+        operatorNotes,
+      },
+    });
+
+    if (claimed.count === 0) {
+      throw new AppError(`Task ${task.taskNumber} is no longer in progress`, 409);
+    }
+
+    // Move the reservation into stored units, weight and cube
     if (task.destinationLocationId) {
-      await prisma.location.update({
-        where: { id: task.destinationLocationId },
+      await binCapacityService.commit(
+        task.id,
+        task.destinationLocationId,
+        binCapacityService.taskLoad(task, confirmedQuantity),
+        tx
+      );
+
+      // Post on-hand stock so the received goods become allocatable
+      await this.postInventory(tx, task, task.destinationLocationId, confirmedQuantity);
+    }
+
+    if (task.receiptType === 'RETURN') {
+      await this.completeReturnDisposition(tx, task);
+    }
+
+    return tx.putawayTask.findUniqueOrThrow({ where: { id: task.id } });
+  }
+
+  /**
+   * Open a pending task for units a partly completed task left at its
+   * source, reserving them in the same bin, inside the caller's transaction
+   */
+  async createRemainderTask(
+    tx: Prisma.TransactionClient,
+    task: PutawayTask,
+    quantity: number
+  ): Promise<PutawayTask> {
+    const load = binCapacityService.taskLoad(task, quantity);
+
+    const lastTask = await tx.putawayTask.findFirst({
+      where: { tenantId: task.tenantId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const remainder = await tx.putawayTask.create({
+      data: {
+        tenantId: task.tenantId,
+        warehouseId: task.warehouseId,
+        taskNumber: generateSequentialNumber('PA', lastTask?.taskNumber),
+        receiptType: task.receiptType,
+        receiptId: task.receiptId,
+        receiptLineId: task.receiptLineId,
+        status: 'PENDING',
+        priority: task.priority,
+        skuId: task.skuId,
+        skuCode: task.skuCode,
+        productName: task.productName,
+        quantityToPutaway: quantity,
+        weightKg: load.weightKg,
+        volumeM3: load.volumeM3,
+        batchNumber: task.batchNumber,
+        expiryDate: task.expiryDate,
+        lpn: task.lpn,
+        // The confirmed units were stored with the task's first serials
+        serialNumbers: task.serialNumbers.slice(Math.floor(task.quantityToPutaway.toNumber() - quantity)),
+        sourceLocationId: task.sourceLocationId,
+        sourceLocationCode: task.sourceLocationCode,
+        destinationLocationId: task.destinationLocationId,
+        destinationLocationCode: task.destinationLocationCode,
+        destinationZoneId: task.destinationZoneId,
+        equipmentType: task.equipmentType,
+        putawayStrategy: task.putawayStrategy,
+        putawayExplanation: task.putawayExplanation ?? undefined,
+        inventoryStatus: task.inventoryStatus,
+        estimatedDurationMinutes: calculatePutawayDuration(Number(task.distanceMeters ?? 0), quantity),
+        distanceMeters: task.distanceMeters,
+        specialHandling: task.specialHandling ?? undefined,
+        remainderOfTaskId: task.id,
+      },
+    });
+
+    if (task.destinationLocationId) {
+      await binCapacityService.reserve(remainder, task.destinationLocationId, load, tx);
+    }
+
+    return remainder;
+  }
+
+  /**
+   * Post putaway quantity to Inventory at the destination location and
+   * write a RECEIVE ledger entry pointing back to the receipt line
+   */
+  private async postInventory(
+    tx: Prisma.TransactionClient,
+    task: PutawayTask,
+    locationId: string,
+    quantity: number
+  ): Promise<void> {
+    const product = await this.resolveProductForSku(tx, task.tenantId, task.skuId);
+
+    // Serialized units are tracked one inventory row per serial
+    const serials = task.serialNumbers.slice(0, Math.floor(quantity));
+    const buckets: Array<{ serialNumber: string | null; quantity: number }> = serials.map(
+      (serialNumber) => ({ serialNumber, quantity: 1 })
+    );
+    if (quantity > serials.length) {
+      buckets.push({ serialNumber: null, quantity: quantity - serials.length });
+    }
+
+    const referenceType = {
+      ASN: 'ASN_LINE',
+      BLIND: 'BLIND_RECEIPT_LINE',
+      RETURN: 'RETURN_LINE',
+    }[task.receiptType];
+    const referenceId = task.receiptLineId || task.receiptId;
+    const available = task.inventoryStatus === 'AVAILABLE';
+
+    for (const bucket of buckets) {
+      const existing = bucket.serialNumber
+        ? null
+        : await tx.inventory.findFirst({
+            where: {
+              tenantId: task.tenantId,
+              warehouseId: task.warehouseId,
+              locationId,
+              productId: product.id,
+              batchNumber: task.batchNumber,
+              expiryDate: task.expiryDate,
+              lpn: task.lpn,
+              serialNumber: null,
+              status: task.inventoryStatus,
+            },
+          });
+
+      const inventory = existing
+        ? await tx.inventory.update({
+            where: { id: existing.id },
+            data: {
+              quantityOnHand: { increment: bucket.quantity },
+              ...(available && { quantityAvailable: { increment: bucket.quantity } }),
+            },
+          })
+        : await tx.inventory.create({
+            data: {
+              tenantId: task.tenantId,
+              warehouseId: task.warehouseId,
+              locationId,
+              productId: product.id,
+              batchNumber: task.batchNumber,
+              serialNumber: bucket.serialNumber,
+              lpn: task.lpn,
+              expiryDate: task.expiryDate,
+              receivedDate: new Date(),
+              quantityOnHand: bucket.quantity,
+              quantityAvailable: available ? bucket.quantity : 0,
+              status: task.inventoryStatus,
+            },
+          });
+
+      await tx.inventoryTransaction.create({
         data: {
-          currentCapacityUsed: {
-            increment: actualQuantity || task.quantityToPutaway.toNumber(),
-          },
-          reservedCapacity: {
-            decrement: task.quantityToPutaway.toNumber(),
-          },
+          tenantId: task.tenantId,
+          inventoryId: inventory.id,
+          transactionType: 'RECEIVE',
+          quantity: bucket.quantity,
+          referenceType,
+          referenceId,
+          notes: `Received via putaway task ${task.taskNumber}`,
         },
       });
     }
 
-    return prisma.putawayTask.update({
-      where: { id: taskId },
+    // Keep the LPN in step with the stock it carries
+    if (task.lpn) {
+      await tx.lPN.updateMany({
+        where: { tenantId: task.tenantId, lpnCode: task.lpn },
+        data: {
+          currentLocationId: locationId,
+          currentZoneId: task.destinationZoneId,
+          ...(available && { status: 'AVAILABLE' }),
+          lastMovedById: task.operatorUserId,
+          lastMovedAt: new Date(),
+        },
+      });
+    }
+  }
+
+  /**
+   * Mark the graded return unit behind a putaway task as dispositioned and
+   * close its RMA once every received unit has been dispositioned
+   */
+  private async completeReturnDisposition(
+    tx: Prisma.TransactionClient,
+    task: PutawayTask
+  ): Promise<void> {
+    await tx.returnUnit.updateMany({
+      where: { putawayTaskId: task.id },
+      data: { dispositionStatus: 'COMPLETED' },
+    });
+
+    if (!task.receiptId) return;
+
+    const [rma, openUnits] = await Promise.all([
+      tx.returnAuthorization.findUnique({ where: { id: task.receiptId } }),
+      tx.returnUnit.count({
+        where: { returnAuthorizationId: task.receiptId, dispositionStatus: { not: 'COMPLETED' } },
+      }),
+    ]);
+
+    if (rma?.status === 'RECEIVED' && openUnits === 0) {
+      await tx.returnAuthorization.update({
+        where: { id: rma.id },
+        data: { status: 'CLOSED', closedAt: new Date() },
+      });
+    }
+  }
+
+  /**
+   * Resolve the order-side Product for a receiving SKU, creating it from the
+   * SKU master the first time the SKU is received
+   */
+  private async resolveProductForSku(
+    tx: Prisma.TransactionClient,
+    tenantId: string,
+    skuId: string
+  ) {
+    const sku = await tx.sKU.findUnique({
+      where: { id: skuId },
+    });
+
+    if (!sku) {
+      throw new AppError(`SKU not found: ${skuId}`, 404);
+    }
+
+    const product = await tx.product.findUnique({
+      where: { tenantId_sku: { tenantId, sku: sku.code } },
+    });
+
+    if (product) {
+      return product;
+    }
+
+    return tx.product.create({
       data: {
-        status: 'COMPLETED',
-        quantityConfirmed: actualQuantity || task.quantityToPutaway,
-        completedAt,
-        actualDurationMinutes: actualDuration,
-        operatorNotes,
+        tenantId,
+        sku: sku.code,
+        name: sku.name,
+        description: sku.description,
+        uom: sku.uom,
+        weight: sku.weightKg,
+        dimensions: sku.dimensions ?? undefined,
+        isBatchTracked: sku.requiresBatchTracking,
+        isSerialTracked: sku.requiresSerialTracking,
+        isTemperatureControlled: sku.temperatureControlled,
       },
     });
   }
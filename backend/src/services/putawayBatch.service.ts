@@ -0,0 +1,612 @@
+import {
+  Prisma,
+  PutawayBatch,
+  PutawayBatchStatus,
+  PutawayEquipmentType,
+  PutawayStatus,
+  PutawayTask,
+  Location,
+} from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { generateSequentialNumber, calculatePutawayDuration } from '../utils/helpers';
+import putawayService, { PUTAWAY_EQUIPMENT_CAPACITY } from './putaway.service';
+import putawayOverrideService, { PutawayOverrideInput } from './putawayOverride.service';
+import binCapacityService from './binCapacity.service';
+import warehouseLayoutService, { LAYOUT_POSITION_SELECT, LayoutPosition, LayoutRouter } from './warehouseLayout.service';
+
+export interface CreatePutawayBatchesInput {
+  warehouseId: string;
+  zoneId?: string;
+  equipmentType?: PutawayEquipmentType;
+  // Override the equipment's default trip capacity
+  maxStops?: number;
+  maxWeightKg?: number;
+  maxVolumeM3?: number;
+  // Hand the trips straight to an operator
+  operatorUserId?: string;
+}
+
+type LocationPosition = Pick<Location, 'id' | 'code'> & LayoutPosition;
+
+type BatchableTask = PutawayTask & {
+  sourceLocation: LocationPosition | null;
+  destinationLocation: LocationPosition | null;
+};
+
+interface PlannedStop {
+  task: BatchableTask;
+  distanceFromPreviousMeters: number;
+}
+
+const POSITION_SELECT = { id: true, code: true, ...LAYOUT_POSITION_SELECT };
+
+const BATCH_DETAIL_INCLUDE = Prisma.validator<Prisma.PutawayBatchInclude>()({
+  destinationZone: { select: { id: true, code: true, name: true } },
+  operator: { select: { id: true, firstName: true, lastName: true } },
+  stops: {
+    orderBy: { sequence: 'asc' },
+    include: {
+      task: {
+        include: {
+          sku: { select: { code: true, name: true, imageUrl: true } },
+          destinationLocation: { select: { code: true, aisleNumber: true, rackNumber: true, shelfNumber: true } },
+        },
+      },
+    },
+  },
+});
+
+// Task states released back to the pending pool when their stop is skipped
+const OPEN_TASK_STATUSES: PutawayStatus[] = ['PENDING', 'ASSIGNED', 'IN_PROGRESS'];
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export class PutawayBatchService {
+  /**
+   * Group pending putaway tasks into trips by destination zone and
+   * equipment, up to the equipment's capacity, with stops sequenced by
+   * walking distance
+   */
+  async createBatches(
+    tenantId: string,
+    input: CreatePutawayBatchesInput,
+    userId: string
+  ): Promise<PutawayBatch[]> {
+    const tasks: BatchableTask[] = await prisma.putawayTask.findMany({
+      where: {
+        tenantId,
+        warehouseId: input.warehouseId,
+        status: 'PENDING',
+        taskType: 'STANDARD',
+        destinationLocationId: { not: null },
+        ...(input.zoneId && { destinationZoneId: input.zoneId }),
+        ...(input.equipmentType && { equipmentType: input.equipmentType }),
+      },
+      include: {
+        sourceLocation: { select: POSITION_SELECT },
+        destinationLocation: { select: POSITION_SELECT },
+      },
+      orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+    });
+
+    if (tasks.length === 0) {
+      throw new AppError('No pending putaway tasks to batch', 400);
+    }
+
+    const groups = new Map<string, BatchableTask[]>();
+    for (const task of tasks) {
+      const key = `${task.destinationZoneId}|${task.equipmentType}`;
+      groups.set(key, [...(groups.get(key) || []), task]);
+    }
+
+    const trips = [...groups.values()].flatMap((group) => this.fillTrips(group, input));
+    const router = await warehouseLayoutService.getRouter(input.warehouseId);
+
+    const lastBatch = await prisma.putawayBatch.findFirst({
+      where: { tenantId },
+      orderBy: { createdAt: 'desc' },
+    });
+    let lastNumber = lastBatch?.batchNumber;
+
+    return prisma.$transaction(async (tx) => {
+      const batches: PutawayBatch[] = [];
+
+      for (const trip of trips) {
+        const stops = this.sequenceStops(trip, router);
+        const taskIds = trip.map((task) => task.id);
+        const totalUnits = trip.reduce((total, task) => total + task.quantityToPutaway.toNumber(), 0);
+        const totalDistance = round(stops.reduce((total, stop) => total + stop.distanceFromPreviousMeters, 0));
+        const batchNumber = generateSequentialNumber('PB', lastNumber);
+        lastNumber = batchNumber;
+
+        // Claim the tasks; another trip built at the same time may have taken some
+        const claimed = await tx.putawayTask.updateMany({
+          where: { id: { in: taskIds }, status: 'PENDING', taskType: 'STANDARD' },
+          data: {
+            taskType: 'BATCH',
+            ...(input.operatorUserId && {
+              status: 'ASSIGNED',
+              operatorUserId: input.operatorUserId,
+              assignedAt: new Date(),
+            }),
+          },
+        });
+
+        if (claimed.count !== taskIds.length) {
+          throw new AppError('Some putaway tasks were picked up while building trips; try again', 409);
+        }
+
+        const batch = await tx.putawayBatch.create({
+          data: {
+            tenantId,
+            warehouseId: input.warehouseId,
+            batchNumber,
+            status: input.operatorUserId ? 'ASSIGNED' : 'PENDING',
+            equipmentType: trip[0].equipmentType,
+            destinationZoneId: trip[0].destinationZoneId,
+            operatorUserId: input.operatorUserId,
+            totalUnits,
+            totalWeightKg: this.total(trip, 'weightKg'),
+            totalVolumeM3: this.total(trip, 'volumeM3'),
+            totalDistanceMeters: totalDistance,
+            estimatedDurationMinutes: calculatePutawayDuration(totalDistance, totalUnits),
+            createdById: userId,
+            assignedAt: input.operatorUserId ? new Date() : undefined,
+            stops: {
+              create: stops.map((stop, index) => ({
+                taskId: stop.task.id,
+                sequence: index + 1,
+                distanceFromPreviousMeters: round(stop.distanceFromPreviousMeters),
+              })),
+            },
+          },
+          include: BATCH_DETAIL_INCLUDE,
+        });
+
+        batches.push(batch);
+      }
+
+      return batches;
+    });
+  }
+
+  /**
+   * Split one zone/equipment group into trips, in priority order, closing a
+   * trip when the next task would exceed its stop, weight or cube limit. A
+   * task too big for any trip travels alone.
+   */
+  private fillTrips(group: BatchableTask[], input: CreatePutawayBatchesInput): BatchableTask[][] {
+    const capacity = PUTAWAY_EQUIPMENT_CAPACITY[group[0].equipmentType];
+    const maxStops = input.maxStops ?? capacity.maxStops;
+    const maxWeightKg = input.maxWeightKg ?? capacity.maxWeightKg;
+    const maxVolumeM3 = input.maxVolumeM3 ?? capacity.maxVolumeM3;
+
+    const trips: BatchableTask[][] = [];
+    let trip: BatchableTask[] = [];
+    let weight = 0;
+    let volume = 0;
+
+    for (const task of group) {
+      const taskWeight = Number(task.weightKg ?? 0);
+      const taskVolume = Number(task.volumeM3 ?? 0);
+      const full =
+        trip.length >= maxStops || weight + taskWeight > maxWeightKg || volume + taskVolume > maxVolumeM3;
+
+      if (trip.length > 0 && full) {
+        trips.push(trip);
+        trip = [];
+        weight = 0;
+        volume = 0;
+      }
+
+      trip.push(task);
+      weight += taskWeight;
+      volume += taskVolume;
+    }
+
+    if (trip.length > 0) {
+      trips.push(trip);
+    }
+
+    return trips;
+  }
+
+  /**
+   * Order a trip's stops by always walking to the nearest remaining bin
+   * over the warehouse layout, starting from where the first task is
+   * picked up
+   */
+  private sequenceStops(trip: BatchableTask[], router: LayoutRouter): PlannedStop[] {
+    const stops: PlannedStop[] = [];
+    const remaining = [...trip];
+    let position: LayoutPosition | null = trip[0].sourceLocation;
+
+    while (remaining.length > 0) {
+      let nearest = 0;
+      let nearestDistance = Infinity;
+
+      remaining.forEach((task, index) => {
+        const distance = router.route(position, task.destinationLocation!).distanceMeters;
+        if (distance < nearestDistance) {
+          nearest = index;
+          nearestDistance = distance;
+        }
+      });
+
+      const [task] = remaining.splice(nearest, 1);
+      stops.push({ task, distanceFromPreviousMeters: nearestDistance });
+      position = task.destinationLocation!;
+    }
+
+    return stops;
+  }
+
+  /**
+   * Sum of a measured quantity across a trip; null when any task is unmeasured
+   */
+  private total(trip: BatchableTask[], field: 'weightKg' | 'volumeM3'): number | null {
+    if (trip.some((task) => task[field] === null)) {
+      return null;
+    }
+
+    return trip.reduce((total, task) => total + Number(task[field]), 0);
+  }
+
+  /**
+   * Get putaway batches with filters
+   */
+  async getBatches(params: {
+    tenantId: string;
+    warehouseId?: string;
+    operatorUserId?: string;
+    status?: PutawayBatchStatus;
+    page?: number;
+    limit?: number;
+  }) {
+    const { tenantId, warehouseId, operatorUserId, status, page = 1, limit = 50 } = params;
+
+    const where: Prisma.PutawayBatchWhereInput = {
+      tenantId,
+      ...(warehouseId && { warehouseId }),
+      ...(operatorUserId && { operatorUserId }),
+      ...(status && { status }),
+    };
+
+    const [batches, total] = await Promise.all([
+      prisma.putawayBatch.findMany({
+        where,
+        include: {
+          destinationZone: { select: { code: true, name: true } },
+          operator: { select: { id: true, firstName: true, lastName: true } },
+          _count: { select: { stops: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.putawayBatch.count({ where }),
+    ]);
+
+    return {
+      data: batches,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get a putaway batch with its stops in walking order
+   */
+  async getBatchById(batchId: string, tenantId: string) {
+    const batch = await prisma.putawayBatch.findFirst({
+      where: { id: batchId, tenantId },
+      include: BATCH_DETAIL_INCLUDE,
+    });
+
+    if (!batch) {
+      throw new AppError('Putaway batch not found', 404);
+    }
+
+    return batch;
+  }
+
+  /**
+   * Assign a putaway batch, and every task on it, to an operator
+   */
+  async assignBatch(batchId: string, operatorUserId: string, tenantId: string) {
+    const batch = await this.findBatch(batchId, tenantId);
+
+    if (batch.status !== 'PENDING') {
+      throw new AppError('Batch already assigned or started', 400);
+    }
+
+    const assignedAt = new Date();
+
+    await prisma.$transaction(async (tx) => {
+      await this.renewReservations(tx, batchId);
+
+      await tx.putawayTask.updateMany({
+        where: { batchStops: { some: { batchId, status: 'PENDING' } }, status: 'PENDING' },
+        data: { status: 'ASSIGNED', operatorUserId, assignedAt },
+      });
+
+      await tx.putawayBatch.update({
+        where: { id: batchId },
+        data: { status: 'ASSIGNED', operatorUserId, assignedAt },
+      });
+    });
+
+    return this.getBatchById(batchId, tenantId);
+  }
+
+  /**
+   * Start a putaway batch; the operator starting an unassigned batch takes it
+   */
+  async startBatch(batchId: string, tenantId: string, userId: string) {
+    const batch = await this.findBatch(batchId, tenantId);
+
+    if (batch.status !== 'ASSIGNED' && batch.status !== 'PENDING') {
+      throw new AppError('Batch cannot be started', 400);
+    }
+
+    const operatorUserId = batch.operatorUserId || userId;
+    const startedAt = new Date();
+
+    await prisma.$transaction(async (tx) => {
+      await this.renewReservations(tx, batchId);
+
+      await tx.putawayTask.updateMany({
+        where: {
+          batchStops: { some: { batchId, status: 'PENDING' } },
+          status: { in: ['PENDING', 'ASSIGNED'] },
+        },
+        data: { status: 'IN_PROGRESS', operatorUserId, startedAt },
+      });
+
+      await tx.putawayBatch.update({
+        where: { id: batchId },
+        data: {
+          status: 'IN_PROGRESS',
+          operatorUserId,
+          assignedAt: batch.assignedAt || startedAt,
+          startedAt,
+        },
+      });
+    });
+
+    return this.getBatchById(batchId, tenantId);
+  }
+
+  /**
+   * Confirm the units put away at one stop, optionally in a bin the operator
+   * chose instead of the suggested one. Fewer units than planned marks the
+   * stop partial and opens a pending task for the rest; the trip closes once
+   * every stop is resolved.
+   */
+  async completeStop(
+    batchId: string,
+    stopId: string,
+    tenantId: string,
+    actualQuantity?: number,
+    operatorNotes?: string,
+    override?: PutawayOverrideInput
+  ) {
+    const { stop } = await this.findWorkableStop(batchId, stopId, tenantId);
+    const task = stop.task;
+
+    if (task.status !== 'IN_PROGRESS') {
+      throw new AppError(`Task ${task.taskNumber} is ${task.status.toLowerCase()}; skip this stop instead`, 400);
+    }
+
+    const planned = task.quantityToPutaway.toNumber();
+    const confirmedQuantity = actualQuantity ?? planned;
+
+    if (confirmedQuantity > planned) {
+      throw new AppError(`Cannot put away more than the ${planned} units planned for task ${task.taskNumber}`, 400);
+    }
+
+    const overrideLocation =
+      override && override.locationCode !== task.destinationLocationCode
+        ? await putawayOverrideService.resolveOverride(task, override.locationCode, confirmedQuantity)
+        : null;
+
+    await prisma.$transaction(async (tx) => {
+      const current = overrideLocation
+        ? await putawayOverrideService.applyOverride(tx, task, overrideLocation, override!, confirmedQuantity)
+        : task;
+
+      await putawayService.finishTask(tx, current, confirmedQuantity, operatorNotes);
+
+      // Units left on the dock go back to the pending pool as a task of their own
+      if (confirmedQuantity < planned) {
+        await putawayService.createRemainderTask(tx, current, planned - confirmedQuantity);
+      }
+
+      await tx.putawayBatchStop.update({
+        where: { id: stopId },
+        data: {
+          status: confirmedQuantity < planned ? 'PARTIAL' : 'COMPLETED',
+          quantityConfirmed: confirmedQuantity,
+          completedAt: new Date(),
+        },
+      });
+
+      await this.closeIfDone(tx, batchId);
+    });
+
+    return this.getBatchById(batchId, tenantId);
+  }
+
+  /**
+   * Skip a stop; its task goes back to the pending pool for another trip
+   */
+  async skipStop(batchId: string, stopId: string, tenantId: string, reason: string) {
+    const { stop } = await this.findWorkableStop(batchId, stopId, tenantId);
+
+    await prisma.$transaction(async (tx) => {
+      await this.skipStops(tx, [stop.id], reason);
+      await this.closeIfDone(tx, batchId);
+    });
+
+    return this.getBatchById(batchId, tenantId);
+  }
+
+  /**
+   * End a trip early, skipping every stop not yet visited
+   */
+  async finishBatch(batchId: string, tenantId: string, reason?: string) {
+    const batch = await this.findBatch(batchId, tenantId);
+
+    if (batch.status !== 'IN_PROGRESS') {
+      throw new AppError('Only a batch in progress can be finished', 400);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const open = await tx.putawayBatchStop.findMany({
+        where: { batchId, status: 'PENDING' },
+        select: { id: true },
+      });
+
+      await this.skipStops(tx, open.map((stop) => stop.id), reason || 'Trip ended before this stop');
+      await this.closeIfDone(tx, batchId);
+    });
+
+    return this.getBatchById(batchId, tenantId);
+  }
+
+  /**
+   * Cancel a batch that has not started and release its tasks
+   */
+  async cancelBatch(batchId: string, tenantId: string) {
+    const batch = await this.findBatch(batchId, tenantId);
+
+    if (batch.status !== 'PENDING' && batch.status !== 'ASSIGNED') {
+      throw new AppError('Only a batch that has not started can be cancelled', 400);
+    }
+
+    await prisma.$transaction(async (tx) => {
+      const stops = await tx.putawayBatchStop.findMany({
+        where: { batchId },
+        select: { id: true },
+      });
+
+      await this.skipStops(tx, stops.map((stop) => stop.id), 'Trip cancelled');
+
+      await tx.putawayBatch.update({
+        where: { id: batchId },
+        data: { status: 'CANCELLED', completedAt: new Date() },
+      });
+    });
+
+    return this.getBatchById(batchId, tenantId);
+  }
+
+  private async findBatch(batchId: string, tenantId: string): Promise<PutawayBatch> {
+    const batch = await prisma.putawayBatch.findFirst({
+      where: { id: batchId, tenantId },
+    });
+
+    if (!batch) {
+      throw new AppError('Putaway batch not found', 404);
+    }
+
+    return batch;
+  }
+
+  /**
+   * A stop still to be visited on a batch in progress
+   */
+  private async findWorkableStop(batchId: string, stopId: string, tenantId: string) {
+    const batch = await this.findBatch(batchId, tenantId);
+
+    if (batch.status !== 'IN_PROGRESS') {
+      throw new AppError('Batch must be in progress to work its stops', 400);
+    }
+
+    const stop = await prisma.putawayBatchStop.findFirst({
+      where: { id: stopId, batchId },
+      include: { task: true },
+    });
+
+    if (!stop) {
+      throw new AppError('Batch stop not found', 404);
+    }
+
+    if (stop.status !== 'PENDING') {
+      throw new AppError(`Stop ${stop.sequence} has already been ${stop.status.toLowerCase()}`, 400);
+    }
+
+    return { batch, stop };
+  }
+
+  /**
+   * Keep the bin space held for every task still to be put away on a batch
+   */
+  private async renewReservations(tx: Prisma.TransactionClient, batchId: string): Promise<void> {
+    const tasks = await tx.putawayTask.findMany({
+      where: { batchStops: { some: { batchId, status: 'PENDING' } }, status: { in: OPEN_TASK_STATUSES } },
+    });
+
+    for (const task of tasks) {
+      await binCapacityService.renew(task, tx);
+    }
+  }
+
+  /**
+   * Mark stops skipped and put their open tasks back in the pending pool,
+   * keeping the destination and its reservation. Tasks on hold stay on hold.
+   */
+  private async skipStops(tx: Prisma.TransactionClient, stopIds: string[], reason: string): Promise<void> {
+    if (stopIds.length === 0) return;
+
+    const onStops = { batchStops: { some: { id: { in: stopIds } } } };
+
+    await tx.putawayTask.updateMany({
+      where: { ...onStops, status: 'ON_HOLD' },
+      data: { taskType: 'STANDARD' },
+    });
+
+    await tx.putawayTask.updateMany({
+      where: { ...onStops, status: { in: OPEN_TASK_STATUSES } },
+      data: {
+        status: 'PENDING',
+        taskType: 'STANDARD',
+        operatorUserId: null,
+        assignedAt: null,
+        startedAt: null,
+      },
+    });
+
+    await tx.putawayBatchStop.updateMany({
+      where: { id: { in: stopIds } },
+      data: { status: 'SKIPPED', skipReason: reason, completedAt: new Date() },
+    });
+  }
+
+  /**
+   * Close a batch in progress once no stop is left to visit
+   */
+  private async closeIfDone(tx: Prisma.TransactionClient, batchId: string): Promise<void> {
+    const stops = await tx.putawayBatchStop.findMany({
+      where: { batchId },
+      select: { status: true },
+    });
+
+    if (stops.some((stop) => stop.status === 'PENDING')) return;
+
+    await tx.putawayBatch.update({
+      where: { id: batchId },
+      data: {
+        status: stops.every((stop) => stop.status === 'COMPLETED') ? 'COMPLETED' : 'PARTIALLY_COMPLETED',
+        completedAt: new Date(),
+      },
+    });
+  }
+}
+
+export default new PutawayBatchService();
@@ -0,0 +1,313 @@
+import { Prisma, PutawayOverrideReason, PutawayTask } from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import binCapacityService, { LocationWithZone } from './binCapacity.service';
+import coldChainService from './coldChain.service';
+
+export interface PutawayOverrideInput {
+  locationCode: string;
+  reasonCode: PutawayOverrideReason;
+  notes?: string;
+  // User confirming the putaway, recorded when the task has no operator
+  userId: string;
+}
+
+export interface PutawayOverrideCheck {
+  valid: boolean;
+  location: { id: string; code: string; zoneCode: string; zoneType: string } | null;
+  reasons: string[];
+}
+
+export interface PutawayOverrideReportFilters {
+  warehouseId?: string;
+  dateFrom?: Date;
+  dateTo?: Date;
+  groupBy: 'location' | 'operator';
+  limit?: number;
+}
+
+export interface PutawayOverrideReportRow {
+  id: string;
+  label: string;
+  completedTasks: number;
+  overrides: number;
+  overrideRate: number;
+  reasons: Partial<Record<PutawayOverrideReason, number>>;
+}
+
+const rate = (part: number, whole: number): number =>
+  whole > 0 ? Math.round((part / whole) * 10000) / 100 : 0;
+
+export class PutawayOverrideService {
+  /**
+   * Check whether an operator may put a task away in a different bin than
+   * the one suggested, without changing anything
+   */
+  async checkOverride(
+    taskId: string,
+    tenantId: string,
+    locationCode: string,
+    quantity?: number
+  ): Promise<PutawayOverrideCheck> {
+    const task = await prisma.putawayTask.findFirst({
+      where: { id: taskId, tenantId },
+    });
+
+    if (!task) {
+      throw new AppError('Putaway task not found', 404);
+    }
+
+    const { location, reasons } = await this.evaluate(
+      task,
+      locationCode,
+      quantity ?? task.quantityToPutaway.toNumber()
+    );
+
+    return {
+      valid: reasons.length === 0,
+      location: location && {
+        id: location.id,
+        code: location.code,
+        zoneCode: location.zone.code,
+        zoneType: location.zone.zoneType,
+      },
+      reasons,
+    };
+  }
+
+  /**
+   * The bin an override names, once it passes the zone and capacity checks
+   */
+  async resolveOverride(task: PutawayTask, locationCode: string, quantity: number): Promise<LocationWithZone> {
+    const { location, reasons } = await this.evaluate(task, locationCode, quantity);
+
+    if (!location || reasons.length > 0) {
+      throw new AppError(`Cannot put away ${task.taskNumber} in ${locationCode}: ${reasons.join('; ')}`, 400);
+    }
+
+    return location;
+  }
+
+  /**
+   * Point a task at the override bin: move its reservation from the
+   * suggested bin, record the override and return the updated task
+   */
+  async applyOverride(
+    tx: Prisma.TransactionClient,
+    task: PutawayTask,
+    location: LocationWithZone,
+    input: PutawayOverrideInput,
+    quantity: number
+  ): Promise<PutawayTask> {
+    // resolveOverride only accepts tasks that have a suggested bin
+    const originalLocationId = task.destinationLocationId!;
+    const reserved = binCapacityService.taskLoad(task, task.quantityToPutaway.toNumber());
+
+    await binCapacityService.releaseTask(task.id, `Overridden to ${location.code}`, tx);
+    await binCapacityService.reserveIfFits(task, location.id, reserved, tx);
+
+    await tx.putawayOverride.create({
+      data: {
+        tenantId: task.tenantId,
+        warehouseId: task.warehouseId,
+        taskId: task.id,
+        originalLocationId,
+        originalLocationCode: task.destinationLocationCode || '',
+        overrideLocationId: location.id,
+        overrideLocationCode: location.code,
+        reasonCode: input.reasonCode,
+        notes: input.notes,
+        quantity,
+        operatorUserId: task.operatorUserId || input.userId,
+      },
+    });
+
+    return tx.putawayTask.update({
+      where: { id: task.id },
+      data: {
+        destinationLocationId: location.id,
+        destinationLocationCode: location.code,
+        destinationZoneId: location.zoneId,
+        operatorUserId: task.operatorUserId || input.userId,
+      },
+    });
+  }
+
+  /**
+   * Override counts against completed putaways, per suggested bin or per
+   * operator
+   */
+  async getOverrideReport(tenantId: string, filters: PutawayOverrideReportFilters) {
+    const { warehouseId, dateFrom, dateTo, groupBy, limit = 50 } = filters;
+    const period = dateFrom || dateTo ? { gte: dateFrom, lte: dateTo } : undefined;
+
+    const overrideWhere: Prisma.PutawayOverrideWhereInput = {
+      tenantId,
+      ...(warehouseId && { warehouseId }),
+      ...(period && { createdAt: period }),
+    };
+    const taskWhere: Prisma.PutawayTaskWhereInput = {
+      tenantId,
+      status: 'COMPLETED',
+      ...(warehouseId && { warehouseId }),
+      ...(period && { completedAt: period }),
+    };
+
+    const overrides = await prisma.putawayOverride.findMany({
+      where: overrideWhere,
+      select: { originalLocationId: true, operatorUserId: true, reasonCode: true },
+    });
+
+    // A bin's suggestions are the tasks that went there as suggested plus
+    // the tasks overridden away from it
+    const completed =
+      groupBy === 'location'
+        ? (
+            await prisma.putawayTask.groupBy({
+              by: ['destinationLocationId'],
+              where: { ...taskWhere, overrides: { none: {} } },
+              _count: { _all: true },
+            })
+          ).map((group) => ({ id: group.destinationLocationId, count: group._count._all }))
+        : (
+            await prisma.putawayTask.groupBy({
+              by: ['operatorUserId'],
+              where: taskWhere,
+              _count: { _all: true },
+            })
+          ).map((group) => ({ id: group.operatorUserId, count: group._count._all }));
+
+    const rows = new Map<string, Omit<PutawayOverrideReportRow, 'label' | 'overrideRate'>>();
+    const row = (id: string) => {
+      if (!rows.has(id)) {
+        rows.set(id, { id, completedTasks: 0, overrides: 0, reasons: {} });
+      }
+      return rows.get(id)!;
+    };
+
+    for (const group of completed) {
+      if (group.id) row(group.id).completedTasks += group.count;
+    }
+
+    const byReason: Partial<Record<PutawayOverrideReason, number>> = {};
+    for (const override of overrides) {
+      byReason[override.reasonCode] = (byReason[override.reasonCode] || 0) + 1;
+
+      const id = groupBy === 'location' ? override.originalLocationId : override.operatorUserId;
+      if (!id) continue;
+
+      const entry = row(id);
+      entry.overrides += 1;
+      entry.reasons[override.reasonCode] = (entry.reasons[override.reasonCode] || 0) + 1;
+      if (groupBy === 'location') entry.completedTasks += 1;
+    }
+
+    const labels = await this.labels(groupBy, [...rows.keys()]);
+    const report: PutawayOverrideReportRow[] = [...rows.values()]
+      .map((entry) => ({
+        ...entry,
+        label: labels.get(entry.id) || entry.id,
+        overrideRate: rate(entry.overrides, entry.completedTasks),
+      }))
+      .sort((a, b) => b.overrideRate - a.overrideRate || b.overrides - a.overrides)
+      .slice(0, limit);
+
+    const totalCompleted = await prisma.putawayTask.count({ where: taskWhere });
+
+    return {
+      groupBy,
+      totalCompleted,
+      totalOverrides: overrides.length,
+      overrideRate: rate(overrides.length, totalCompleted),
+      byReason,
+      rows: report,
+    };
+  }
+
+  /**
+   * Why a task cannot go to a bin: the bin must be open, in the task's
+   * warehouse, suit the SKU's hazmat and temperature needs, keep held stock
+   * in the same kind of zone and have room for the load
+   */
+  private async evaluate(
+    task: PutawayTask,
+    locationCode: string,
+    quantity: number
+  ): Promise<{ location: LocationWithZone | null; reasons: string[] }> {
+    const location = await prisma.location.findFirst({
+      where: { warehouseId: task.warehouseId, code: locationCode },
+      include: { zone: { select: { code: true, zoneType: true, temperatureMin: true, temperatureMax: true } } },
+    });
+
+    if (!location) {
+      return { location: null, reasons: [`Location ${locationCode} not found in this warehouse`] };
+    }
+
+    if (!task.destinationLocationId) {
+      return { location, reasons: ['Task has no suggested location to override'] };
+    }
+
+    if (location.id === task.destinationLocationId) {
+      return { location, reasons: ['This is the suggested location; no override is needed'] };
+    }
+
+    const reasons: string[] = [];
+
+    if (location.status !== 'ACTIVE' || location.temporarilyLocked) {
+      reasons.push(`Location is ${location.temporarilyLocked ? 'locked' : location.status.toLowerCase()}`);
+    }
+
+    const [sku, original] = await Promise.all([
+      prisma.sKU.findUnique({ where: { id: task.skuId } }),
+      prisma.location.findUnique({
+        where: { id: task.destinationLocationId },
+        include: { zone: { select: { zoneType: true } } },
+      }),
+    ]);
+
+    if (!sku) {
+      throw new AppError(`SKU not found: ${task.skuId}`, 404);
+    }
+
+    if (sku.isHazmat && !location.hazmatCertified && location.zone.zoneType !== 'HAZMAT') {
+      reasons.push(`${sku.code} is hazmat; location is not hazmat certified`);
+    }
+
+    if (sku.temperatureControlled && !location.refrigerated && location.zone.zoneType !== 'REFRIGERATED') {
+      reasons.push(`${sku.code} is temperature controlled; location is not refrigerated`);
+    }
+
+    const temperature = coldChainService.checkStorage(sku, location.zone);
+    if (temperature) {
+      reasons.push(temperature);
+    }
+
+    // Quarantined, damaged or held stock stays in the kind of zone it was sent to
+    if (task.inventoryStatus !== 'AVAILABLE' && original && original.zone.zoneType !== location.zone.zoneType) {
+      reasons.push(`${task.inventoryStatus} stock must stay in a ${original.zone.zoneType} zone`);
+    }
+
+    const load = await binCapacityService.measureLoad(sku, quantity, task.lpn);
+    reasons.push(...binCapacityService.rejections(location, load));
+
+    return { location, reasons };
+  }
+
+  private async labels(groupBy: 'location' | 'operator', ids: string[]): Promise<Map<string, string>> {
+    if (groupBy === 'location') {
+      const locations = await prisma.location.findMany({
+        where: { id: { in: ids } },
+        select: { id: true, code: true },
+      });
+      return new Map(locations.map((location) => [location.id, location.code]));
+    }
+
+    const users = await prisma.user.findMany({
+      where: { id: { in: ids } },
+      select: { id: true, firstName: true, lastName: true },
+    });
+    return new Map(users.map((user) => [user.id, `${user.firstName} ${user.lastName}`]));
+  }
+}
+
+export default new PutawayOverrideService();
@@ -0,0 +1,737 @@
+import {
+  Prisma,
+  PutawayRule,
+  PutawayStrategyType,
+  SKU,
+  Location,
+  LocationType,
+  ZoneType,
+} from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import binCapacityService, { BinLoad, BinRejection, LocationWithZone } from './binCapacity.service';
+
+export interface PutawayRuleInput {
+  tenantId: string;
+  warehouseId?: string | null;
+  name: string;
+  description?: string;
+  priority?: number;
+  skuIds?: string[];
+  skuCategories?: string[];
+  abcClasses?: string[];
+  velocities?: string[];
+  hazardClasses?: string[];
+  isHazmat?: boolean | null;
+  temperatureControlled?: boolean | null;
+  isPerishable?: boolean | null;
+  requiresBatchTracking?: boolean | null;
+  zoneTypes?: ZoneType[];
+  locationTypes?: LocationType[];
+  refrigerated?: boolean | null;
+  hazmatCertified?: boolean | null;
+  minHeightLevel?: number | null;
+  maxHeightLevel?: number | null;
+  strategies: PutawayStrategyType[];
+  excludedZoneTypes?: ZoneType[];
+  excludedZoneIds?: string[];
+  excludedLocationIds?: string[];
+  isActive?: boolean;
+  createdById?: string;
+}
+
+/**
+ * What is being put away; the facts rules are matched on
+ */
+export interface PutawaySubject {
+  sku: SKU;
+  warehouseId: string;
+  quantity: number;
+  expiryDate?: Date;
+  lpn?: string | null;
+}
+
+export interface StrategyAttempt {
+  strategy: PutawayStrategyType;
+  outcome: 'SELECTED' | 'NO_LOCATION' | 'SKIPPED';
+  reason?: string;
+}
+
+export interface RuleEvaluation {
+  ruleId: string | null;
+  ruleName: string;
+  matched: boolean;
+  reason: string;
+  attempts: StrategyAttempt[];
+}
+
+/**
+ * "Why this bin": stored on the putaway task and returned by simulation
+ */
+export interface PutawayExplanation {
+  source: 'RULE' | 'DEFAULT' | 'ZONE_RESTRICTION';
+  ruleId: string | null;
+  ruleName: string | null;
+  strategy: PutawayStrategyType | null;
+  summary: string;
+  load: BinLoad;
+  location: {
+    id: string;
+    code: string;
+    zoneId: string;
+    zoneCode: string;
+    zoneType: ZoneType;
+    capacityUsed: number;
+    maxCapacity: number;
+    weightKg: number;
+    maxWeightKg: number | null;
+    volumeM3: number;
+    maxVolumeM3: number | null;
+    maxHeightCm: number | null;
+  } | null;
+  rules: RuleEvaluation[];
+  // Bins passed over because the load did not fit
+  rejections: BinRejection[];
+  evaluatedAt: string;
+}
+
+export interface PutawayDecision {
+  location: Location | null;
+  // Label stored as the task's putawayStrategy
+  strategy: string | null;
+  load: BinLoad;
+  explanation: PutawayExplanation;
+}
+
+export interface PutawaySimulationInput {
+  warehouseId: string;
+  zoneType?: ZoneType;
+  items: Array<{
+    skuId: string;
+    quantity: number;
+    expiryDate?: Date;
+    lpn?: string;
+  }>;
+}
+
+type RuleDefinition = Omit<
+  PutawayRule,
+  'id' | 'tenantId' | 'description' | 'isActive' | 'createdById' | 'createdAt' | 'updatedAt'
+> & { id: string | null };
+
+// Fields of a rule that reference other records or must agree with each other
+type RuleTargets = Pick<
+  PutawayRuleInput,
+  | 'warehouseId'
+  | 'strategies'
+  | 'minHeightLevel'
+  | 'maxHeightLevel'
+  | 'zoneTypes'
+  | 'excludedZoneTypes'
+  | 'skuIds'
+  | 'excludedZoneIds'
+  | 'excludedLocationIds'
+>;
+
+interface StrategyDefinition {
+  label: string;
+  where: Prisma.LocationWhereInput;
+  orderBy: Prisma.LocationOrderByWithRelationInput[];
+  // Returns why the strategy cannot run for this subject
+  unavailable?: (subject: PutawaySubject) => string | null;
+}
+
+const STRATEGIES: Record<PutawayStrategyType, StrategyDefinition> = {
+  HAZMAT_ZONE: {
+    label: 'Hazmat_Zone',
+    where: { hazmatCertified: true, zone: { zoneType: 'HAZMAT' } },
+    orderBy: [{ currentCapacityUsed: 'asc' }],
+  },
+  TEMPERATURE_ZONE: {
+    label: 'Temperature_Zone',
+    where: { refrigerated: true, zone: { temperatureControlled: true } },
+    orderBy: [{ currentCapacityUsed: 'asc' }],
+  },
+  FEFO: {
+    label: 'FEFO',
+    where: { zone: { zoneType: { in: ['STORAGE', 'PICK_FACE'] } } },
+    // Lower shelves for easy access
+    orderBy: [{ heightLevel: 'asc' }, { currentCapacityUsed: 'asc' }],
+    unavailable: (subject) => (subject.expiryDate ? null : 'No expiry date on the receipt'),
+  },
+  FIFO: {
+    label: 'FIFO',
+    where: {},
+    orderBy: [{ currentCapacityUsed: 'asc' }],
+  },
+  PICK_FACE: {
+    label: 'Velocity_Based',
+    where: { locationType: 'PICK_FACE', zone: { zoneType: 'PICK_FACE' } },
+    orderBy: [{ heightLevel: 'asc' }, { currentCapacityUsed: 'asc' }],
+  },
+  CONSOLIDATION: {
+    label: 'Consolidation',
+    where: {},
+    // Fill existing bins first
+    orderBy: [{ currentCapacityUsed: 'desc' }],
+  },
+  BULK_STORAGE: {
+    label: 'Bulk_Storage',
+    where: { locationType: 'RESERVE', zone: { zoneType: 'RESERVE' } },
+    // Largest bins first
+    orderBy: [{ maxCapacity: 'desc' }, { currentCapacityUsed: 'asc' }],
+  },
+  GENERAL_STORAGE: {
+    label: 'General_Storage',
+    where: { locationType: { in: ['STORAGE', 'RESERVE'] } },
+    orderBy: [{ currentCapacityUsed: 'asc' }],
+  },
+};
+
+const builtIn = (
+  name: string,
+  strategies: PutawayStrategyType[],
+  conditions: Partial<RuleDefinition> = {}
+): RuleDefinition => ({
+  id: null,
+  warehouseId: null,
+  name,
+  priority: 0,
+  skuIds: [],
+  skuCategories: [],
+  abcClasses: [],
+  velocities: [],
+  hazardClasses: [],
+  isHazmat: null,
+  temperatureControlled: null,
+  isPerishable: null,
+  requiresBatchTracking: null,
+  zoneTypes: [],
+  locationTypes: [],
+  refrigerated: null,
+  hazmatCertified: null,
+  minHeightLevel: null,
+  maxHeightLevel: null,
+  strategies,
+  excludedZoneTypes: [],
+  excludedZoneIds: [],
+  excludedLocationIds: [],
+  ...conditions,
+});
+
+// Order used by warehouses that have not configured any rules
+const DEFAULT_RULES: RuleDefinition[] = [
+  builtIn('Hazmat', ['HAZMAT_ZONE'], { isHazmat: true }),
+  builtIn('Temperature controlled', ['TEMPERATURE_ZONE'], { temperatureControlled: true }),
+  builtIn('Perishable', ['FEFO'], { isPerishable: true }),
+  builtIn('Batch tracked', ['FIFO'], { requiresBatchTracking: true, isPerishable: false }),
+  builtIn('Fast movers', ['PICK_FACE'], { velocities: ['FAST'] }),
+  builtIn('A items', ['PICK_FACE'], { abcClasses: ['A'] }),
+  builtIn('Consolidation', ['CONSOLIDATION']),
+  builtIn('Slow movers', ['BULK_STORAGE'], { velocities: ['SLOW'] }),
+  builtIn('C items', ['BULK_STORAGE'], { abcClasses: ['C'] }),
+  builtIn('General storage', ['GENERAL_STORAGE']),
+];
+
+type SkuFlag = 'isHazmat' | 'temperatureControlled' | 'isPerishable' | 'requiresBatchTracking';
+
+const FLAG_CONDITIONS: Array<{ field: SkuFlag; label: string }> = [
+  { field: 'isHazmat', label: 'hazmat' },
+  { field: 'temperatureControlled', label: 'temperature controlled' },
+  { field: 'isPerishable', label: 'perishable' },
+  { field: 'requiresBatchTracking', label: 'batch tracked' },
+];
+
+const describeLoad = (load: BinLoad): string =>
+  [
+    `${load.units} units`,
+    load.weightKg !== null && `${Math.round(load.weightKg * 1000) / 1000} kg`,
+    load.volumeM3 !== null && `${Math.round(load.volumeM3 * 1000) / 1000} m3`,
+    load.heightCm !== null && `${load.heightCm} cm tall`,
+  ]
+    .filter(Boolean)
+    .join(', ');
+
+const availableLocation = (warehouseId: string): Prisma.LocationWhereInput => ({
+  warehouseId,
+  status: 'ACTIVE',
+  temporarilyLocked: false,
+  currentCapacityUsed: {
+    lt: prisma.location.fields.maxCapacity,
+  },
+});
+
+export class PutawayRuleService {
+  /**
+   * Get putaway rules
+   */
+  async getRules(params: {
+    tenantId: string;
+    warehouseId?: string;
+    includeInactive?: boolean;
+  }): Promise<PutawayRule[]> {
+    const { tenantId, warehouseId, includeInactive } = params;
+
+    return prisma.putawayRule.findMany({
+      where: {
+        tenantId,
+        ...(warehouseId && { OR: [{ warehouseId }, { warehouseId: null }] }),
+        ...(!includeInactive && { isActive: true }),
+      },
+      include: {
+        warehouse: { select: { id: true, code: true, name: true } },
+      },
+      orderBy: [{ priority: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  /**
+   * Get putaway rule by ID
+   */
+  async getRuleById(id: string, tenantId: string): Promise<PutawayRule> {
+    const rule = await prisma.putawayRule.findFirst({
+      where: { id, tenantId },
+      include: {
+        warehouse: { select: { id: true, code: true, name: true } },
+      },
+    });
+
+    if (!rule) {
+      throw new AppError('Putaway rule not found', 404);
+    }
+
+    return rule;
+  }
+
+  /**
+   * Create a putaway rule
+   */
+  async createRule(data: PutawayRuleInput): Promise<PutawayRule> {
+    await this.validateRule(data.tenantId, data);
+
+    return prisma.putawayRule.create({ data });
+  }
+
+  /**
+   * Update a putaway rule
+   */
+  async updateRule(
+    id: string,
+    tenantId: string,
+    data: Partial<Omit<PutawayRuleInput, 'tenantId' | 'createdById'>>
+  ): Promise<PutawayRule> {
+    const rule = await this.getRuleById(id, tenantId);
+    await this.validateRule(tenantId, { ...rule, ...data });
+
+    return prisma.putawayRule.update({
+      where: { id },
+      data,
+    });
+  }
+
+  /**
+   * Delete a putaway rule. Tasks keep the explanation they were created with.
+   */
+  async deleteRule(id: string, tenantId: string): Promise<void> {
+    await this.getRuleById(id, tenantId);
+
+    await prisma.putawayRule.delete({ where: { id } });
+  }
+
+  /**
+   * Choose a destination bin. Rules run in priority order, warehouse rules
+   * ahead of tenant-wide ones at the same priority; within a matching rule
+   * each strategy is tried in turn. Returns a null location, with the
+   * explanation of everything tried, when nothing fits.
+   */
+  async resolveDestination(tenantId: string, subject: PutawaySubject): Promise<PutawayDecision> {
+    const configured = await this.getApplicableRules(tenantId, subject.warehouseId);
+    const source = configured.length > 0 ? 'RULE' : 'DEFAULT';
+    const rules = configured.length > 0 ? configured : DEFAULT_RULES;
+    const load = await binCapacityService.measureLoad(subject.sku, subject.quantity, subject.lpn);
+    const evaluations: RuleEvaluation[] = [];
+    const rejections = new Map<string, BinRejection>();
+
+    for (const rule of rules) {
+      const mismatch = this.mismatch(rule, subject.sku);
+
+      if (mismatch) {
+        evaluations.push({ ruleId: rule.id, ruleName: rule.name, matched: false, reason: mismatch, attempts: [] });
+        continue;
+      }
+
+      const evaluation: RuleEvaluation = {
+        ruleId: rule.id,
+        ruleName: rule.name,
+        matched: true,
+        reason: this.describeConditions(rule),
+        attempts: [],
+      };
+      evaluations.push(evaluation);
+
+      for (const strategy of rule.strategies) {
+        const definition = STRATEGIES[strategy];
+        const unavailable = definition.unavailable?.(subject);
+
+        if (unavailable) {
+          evaluation.attempts.push({ strategy, outcome: 'SKIPPED', reason: unavailable });
+          continue;
+        }
+
+        const fit = await binCapacityService.findFit(
+          {
+            ...availableLocation(subject.warehouseId),
+            AND: [definition.where, this.scopeWhere(rule)],
+          },
+          definition.orderBy,
+          load
+        );
+        fit.rejections.forEach((rejection) => rejections.set(rejection.locationId, rejection));
+
+        if (!fit.location) {
+          evaluation.attempts.push({
+            strategy,
+            outcome: 'NO_LOCATION',
+            ...(fit.rejections.length > 0 && { reason: `${fit.rejections.length} bins too small` }),
+          });
+          continue;
+        }
+
+        evaluation.attempts.push({ strategy, outcome: 'SELECTED' });
+
+        const ruleLabel = source === 'RULE' ? `Rule "${rule.name}"` : `Built-in rule "${rule.name}"`;
+        const location = fit.location;
+        const summary = `${ruleLabel} matched (${evaluation.reason}); ${strategy} chose ${location.code} in zone ${location.zone.code}`;
+
+        return {
+          location,
+          strategy: definition.label,
+          load,
+          explanation: this.explain({
+            source,
+            rule,
+            strategy,
+            location,
+            load,
+            rules: evaluations,
+            rejections: [...rejections.values()],
+            summary,
+          }),
+        };
+      }
+    }
+
+    const summary = !evaluations.some((evaluation) => evaluation.matched)
+      ? 'No rule matched the SKU'
+      : this.describeNoFit(load, [...rejections.values()], 'No matching rule found an available location');
+
+    return {
+      location: null,
+      strategy: null,
+      load,
+      explanation: this.explain({
+        source,
+        rule: null,
+        strategy: null,
+        location: null,
+        load,
+        rules: evaluations,
+        rejections: [...rejections.values()],
+        summary,
+      }),
+    };
+  }
+
+  /**
+   * Choose a bin in a zone of the given type (quarantine, returns, ...).
+   * Receipts restricted to a zone bypass the rules.
+   */
+  async resolveZoneDestination(subject: PutawaySubject, zoneType: ZoneType): Promise<PutawayDecision> {
+    const load = await binCapacityService.measureLoad(subject.sku, subject.quantity, subject.lpn);
+    const { location, rejections } = await binCapacityService.findFit(
+      {
+        ...availableLocation(subject.warehouseId),
+        zone: { zoneType },
+      },
+      [{ currentCapacityUsed: 'asc' }],
+      load
+    );
+
+    const summary = location
+      ? `Receipt restricted to ${zoneType} zones; chose ${location.code} in zone ${location.zone.code}`
+      : this.describeNoFit(load, rejections, `No available ${zoneType} location`);
+
+    return {
+      location,
+      strategy: location ? `${zoneType}_Zone` : null,
+      load,
+      explanation: this.explain({
+        source: 'ZONE_RESTRICTION',
+        rule: null,
+        strategy: null,
+        location,
+        load,
+        rules: [],
+        rejections,
+        summary,
+      }),
+    };
+  }
+
+  /**
+   * Show where a hypothetical receipt would go, without creating tasks or
+   * reserving capacity. Each item is placed independently.
+   */
+  async simulate(tenantId: string, input: PutawaySimulationInput) {
+    const warehouse = await prisma.warehouse.findFirst({
+      where: { id: input.warehouseId, tenantId },
+    });
+
+    if (!warehouse) {
+      throw new AppError('Warehouse not found', 404);
+    }
+
+    const skus = await prisma.sKU.findMany({
+      where: { tenantId, id: { in: input.items.map((item) => item.skuId) } },
+    });
+    const skuById = new Map(skus.map((sku) => [sku.id, sku]));
+
+    const results = [];
+
+    for (const item of input.items) {
+      const sku = skuById.get(item.skuId);
+
+      if (!sku) {
+        throw new AppError(`SKU not found: ${item.skuId}`, 404);
+      }
+
+      const subject: PutawaySubject = {
+        sku,
+        warehouseId: input.warehouseId,
+        quantity: item.quantity,
+        expiryDate: item.expiryDate,
+        lpn: item.lpn,
+      };
+      const decision = input.zoneType
+        ? await this.resolveZoneDestination(subject, input.zoneType)
+        : await this.resolveDestination(tenantId, subject);
+
+      results.push({
+        skuId: sku.id,
+        skuCode: sku.code,
+        quantity: item.quantity,
+        destinationLocationId: decision.location?.id ?? null,
+        destinationLocationCode: decision.location?.code ?? null,
+        destinationZoneId: decision.location?.zoneId ?? null,
+        putawayStrategy: decision.strategy,
+        explanation: decision.explanation,
+      });
+    }
+
+    return {
+      warehouseId: input.warehouseId,
+      placed: results.filter((result) => result.destinationLocationId).length,
+      unplaced: results.filter((result) => !result.destinationLocationId).length,
+      items: results,
+    };
+  }
+
+  private async getApplicableRules(tenantId: string, warehouseId: string): Promise<PutawayRule[]> {
+    const rules = await prisma.putawayRule.findMany({
+      where: {
+        tenantId,
+        isActive: true,
+        OR: [{ warehouseId: null }, { warehouseId }],
+      },
+      orderBy: [{ priority: 'asc' }, { createdAt: 'asc' }],
+    });
+
+    return rules.sort((a, b) => a.priority - b.priority || Number(!a.warehouseId) - Number(!b.warehouseId));
+  }
+
+  /**
+   * Returns why the SKU does not satisfy the rule, or null when it does
+   */
+  private mismatch(rule: RuleDefinition, sku: SKU): string | null {
+    if (rule.skuIds.length > 0 && !rule.skuIds.includes(sku.id)) {
+      return `SKU ${sku.code} is not listed`;
+    }
+
+    const lists: Array<[string[], string | null, string]> = [
+      [rule.skuCategories, sku.category, 'category'],
+      [rule.abcClasses, sku.abcClassification, 'ABC class'],
+      [rule.velocities, sku.velocity, 'velocity'],
+      [rule.hazardClasses, sku.hazardClass, 'hazard class'],
+    ];
+
+    for (const [values, actual, label] of lists) {
+      if (values.length > 0 && (!actual || !values.includes(actual))) {
+        return `${label} ${actual ?? 'not set'} is not one of ${values.join(', ')}`;
+      }
+    }
+
+    for (const { field, label } of FLAG_CONDITIONS) {
+      if (rule[field] !== null && rule[field] !== sku[field]) {
+        return rule[field] ? `SKU is not ${label}` : `SKU is ${label}`;
+      }
+    }
+
+    return null;
+  }
+
+  private describeConditions(rule: RuleDefinition): string {
+    const conditions = [
+      rule.skuIds.length > 0 && 'listed SKU',
+      rule.skuCategories.length > 0 && `category ${rule.skuCategories.join('/')}`,
+      rule.abcClasses.length > 0 && `ABC class ${rule.abcClasses.join('/')}`,
+      rule.velocities.length > 0 && `velocity ${rule.velocities.join('/')}`,
+      rule.hazardClasses.length > 0 && `hazard class ${rule.hazardClasses.join('/')}`,
+      ...FLAG_CONDITIONS.map(({ field, label }) => rule[field] !== null && (rule[field] ? label : `not ${label}`)),
+    ].filter((condition): condition is string => !!condition);
+
+    return conditions.length > 0 ? conditions.join(', ') : 'any SKU';
+  }
+
+  /**
+   * Restrict candidate bins to the rule's zones and location attributes,
+   * minus its exclusions
+   */
+  private scopeWhere(rule: RuleDefinition): Prisma.LocationWhereInput {
+    const zoneType =
+      rule.zoneTypes.length > 0 || rule.excludedZoneTypes.length > 0
+        ? {
+            ...(rule.zoneTypes.length > 0 && { in: rule.zoneTypes }),
+            ...(rule.excludedZoneTypes.length > 0 && { notIn: rule.excludedZoneTypes }),
+          }
+        : undefined;
+
+    return {
+      ...(zoneType && { zone: { zoneType } }),
+      ...(rule.locationTypes.length > 0 && { locationType: { in: rule.locationTypes } }),
+      ...(rule.refrigerated !== null && { refrigerated: rule.refrigerated }),
+      ...(rule.hazmatCertified !== null && { hazmatCertified: rule.hazmatCertified }),
+      ...((rule.minHeightLevel !== null || rule.maxHeightLevel !== null) && {
+        heightLevel: {
+          ...(rule.minHeightLevel !== null && { gte: rule.minHeightLevel }),
+          ...(rule.maxHeightLevel !== null && { lte: rule.maxHeightLevel }),
+        },
+      }),
+      ...(rule.excludedZoneIds.length > 0 && { zoneId: { notIn: rule.excludedZoneIds } }),
+      ...(rule.excludedLocationIds.length > 0 && { id: { notIn: rule.excludedLocationIds } }),
+    };
+  }
+
+  /**
+   * Summarise why nothing fits, naming the first bin passed over
+   */
+  private describeNoFit(load: BinLoad, rejections: BinRejection[], fallback: string): string {
+    if (rejections.length === 0) return fallback;
+
+    const [first] = rejections;
+    return `No bin fits ${describeLoad(load)}; ${rejections.length} checked, e.g. ${first.locationCode}: ${first.reasons.join(', ')}`;
+  }
+
+  private explain(params: {
+    source: PutawayExplanation['source'];
+    rule: RuleDefinition | null;
+    strategy: PutawayStrategyType | null;
+    location: LocationWithZone | null;
+    load: BinLoad;
+    rules: RuleEvaluation[];
+    rejections: BinRejection[];
+    summary: string;
+  }): PutawayExplanation {
+    const { rule, location } = params;
+
+    return {
+      source: params.source,
+      ruleId: rule?.id ?? null,
+      ruleName: rule?.name ?? null,
+      strategy: params.strategy,
+      summary: params.summary,
+      load: params.load,
+      location: location && {
+        id: location.id,
+        code: location.code,
+        zoneId: location.zoneId,
+        zoneCode: location.zone.code,
+        zoneType: location.zone.zoneType,
+        capacityUsed: Number(location.currentCapacityUsed),
+        maxCapacity: Number(location.maxCapacity),
+        weightKg: Number(location.currentWeightKg),
+        maxWeightKg: location.maxWeightKg === null ? null : Number(location.maxWeightKg),
+        volumeM3: Number(location.currentVolumeM3),
+        maxVolumeM3: location.maxVolumeM3 === null ? null : Number(location.maxVolumeM3),
+        maxHeightCm: location.maxHeightCm === null ? null : Number(location.maxHeightCm),
+      },
+      rules: params.rules,
+      rejections: params.rejections,
+      evaluatedAt: new Date().toISOString(),
+    };
+  }
+
+  private async validateRule(tenantId: string, data: RuleTargets): Promise<void> {
+    if (data.strategies.length === 0) {
+      throw new AppError('At least one strategy is required', 400);
+    }
+
+    if (
+      data.minHeightLevel !== null &&
+      data.minHeightLevel !== undefined &&
+      data.maxHeightLevel !== null &&
+      data.maxHeightLevel !== undefined &&
+      data.minHeightLevel > data.maxHeightLevel
+    ) {
+      throw new AppError('minHeightLevel cannot be above maxHeightLevel', 400);
+    }
+
+    const conflicting = (data.zoneTypes ?? []).filter((zoneType) => data.excludedZoneTypes?.includes(zoneType));
+    if (conflicting.length > 0) {
+      throw new AppError(`Zone types both allowed and excluded: ${conflicting.join(', ')}`, 400);
+    }
+
+    if (data.warehouseId) {
+      const warehouse = await prisma.warehouse.findFirst({
+        where: { id: data.warehouseId, tenantId },
+      });
+
+      if (!warehouse) {
+        throw new AppError('Warehouse not found', 404);
+      }
+    }
+
+    if (data.skuIds?.length) {
+      const found = await prisma.sKU.count({
+        where: { tenantId, id: { in: data.skuIds } },
+      });
+
+      if (found !== new Set(data.skuIds).size) {
+        throw new AppError('One or more SKUs not found', 404);
+      }
+    }
+
+    const warehouseScope = data.warehouseId ? { id: data.warehouseId } : { tenantId };
+
+    if (data.excludedZoneIds?.length) {
+      const found = await prisma.zone.count({
+        where: { id: { in: data.excludedZoneIds }, warehouse: warehouseScope },
+      });
+
+      if (found !== new Set(data.excludedZoneIds).size) {
+        throw new AppError('One or more excluded zones not found', 404);
+      }
+    }
+
+    if (data.excludedLocationIds?.length) {
+      const found = await prisma.location.count({
+        where: { id: { in: data.excludedLocationIds }, warehouse: warehouseScope },
+      });
+
+      if (found !== new Set(data.excludedLocationIds).size) {
+        throw new AppError('One or more excluded locations not found', 404);
+      }
+    }
+  }
+}
+
+export default new PutawayRuleService();
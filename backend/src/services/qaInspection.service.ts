@@ -0,0 +1,768 @@
+import {
+  Prisma,
+  QAInspection,
+  QAInspectionPlan,
+  QAInspectionResult,
+  QAInspectionStatus,
+  QAPlanScope,
+  PutawayTask,
+} from '@prisma/client';
+import prisma from '../config/database';
+import { generateSequentialNumber } from '../utils/helpers';
+import { AppError } from '../middleware/errorHandler';
+import putawayService from './putaway.service';
+
+/**
+ * One lot-size bracket of a single sampling plan. Lots up to maxLotSize
+ * (null = no upper bound) inspect sampleSize units and pass with at most
+ * acceptNumber defects; rejectNumber defects or more fails the lot.
+ */
+export interface SamplingRule {
+  maxLotSize: number | null;
+  sampleSize: number;
+  acceptNumber: number;
+  rejectNumber?: number;
+}
+
+export interface ChecklistItem {
+  code: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface ChecklistResult {
+  code: string;
+  passed: boolean;
+  notes?: string;
+}
+
+export interface InspectionPlanInput {
+  tenantId: string;
+  name: string;
+  description?: string;
+  scope: QAPlanScope;
+  supplierId?: string;
+  skuId?: string;
+  aqlLevel?: number;
+  samplingRules: SamplingRule[];
+  checklist: ChecklistItem[];
+  requirePhotos?: boolean;
+  isActive?: boolean;
+}
+
+export interface OpenInspectionInput {
+  tenantId: string;
+  warehouseId: string;
+  receiptType: 'ASN' | 'BLIND';
+  asnId?: string;
+  blindReceiptId?: string;
+  receiptLineId: string;
+  skuId?: string | null;
+  skuCode: string;
+  productName: string;
+  supplierId?: string | null;
+  batchNumber?: string | null;
+  lotSize: number;
+}
+
+export interface RecordInspectionResultInput {
+  result: QAInspectionResult;
+  quantityInspected: number;
+  defectsFound: number;
+  checklistResults?: ChecklistResult[];
+  photoUrls?: string[];
+  notes?: string;
+  releasedQuantity?: number;
+  releaseConditions?: string;
+  // Serials of the units released on a conditional release of a
+  // serial-tracked lot
+  releasedSerialNumbers?: string[];
+  sourceLocationId?: string;
+}
+
+// Most specific scope wins
+const SCOPE_PRECEDENCE: QAPlanScope[] = ['SKU', 'SUPPLIER', 'TENANT'];
+
+// General inspection level II sample sizes with AQL 2.5 acceptance numbers
+const DEFAULT_SAMPLING: SamplingRule[] = [
+  { maxLotSize: 8, sampleSize: 2, acceptNumber: 0 },
+  { maxLotSize: 15, sampleSize: 3, acceptNumber: 0 },
+  { maxLotSize: 25, sampleSize: 5, acceptNumber: 0 },
+  { maxLotSize: 50, sampleSize: 8, acceptNumber: 0 },
+  { maxLotSize: 90, sampleSize: 13, acceptNumber: 1 },
+  { maxLotSize: 150, sampleSize: 20, acceptNumber: 1 },
+  { maxLotSize: 280, sampleSize: 32, acceptNumber: 2 },
+  { maxLotSize: 500, sampleSize: 50, acceptNumber: 3 },
+  { maxLotSize: 1200, sampleSize: 80, acceptNumber: 5 },
+  { maxLotSize: 3200, sampleSize: 125, acceptNumber: 7 },
+  { maxLotSize: 10000, sampleSize: 200, acceptNumber: 10 },
+  { maxLotSize: null, sampleSize: 315, acceptNumber: 14 },
+];
+
+const DEFAULT_CHECKLIST: ChecklistItem[] = [
+  { code: 'VISUAL', description: 'No visible damage, contamination or tampering', required: true },
+  { code: 'LABELLING', description: 'Labels, batch and expiry match the receipt', required: true },
+];
+
+const OPEN_STATUSES: QAInspectionStatus[] = ['PENDING', 'IN_PROGRESS'];
+
+export class QAInspectionService {
+  /**
+   * Create an inspection plan
+   */
+  async createPlan(data: InspectionPlanInput): Promise<QAInspectionPlan> {
+    const target = await this.validateTarget(data.tenantId, data);
+    await this.assertNoActiveDuplicate(data.tenantId, data.scope, target);
+
+    return prisma.qAInspectionPlan.create({
+      data: {
+        ...data,
+        ...target,
+        samplingRules: this.sortRules(data.samplingRules) as unknown as Prisma.InputJsonValue,
+        checklist: data.checklist as unknown as Prisma.InputJsonValue,
+      },
+    });
+  }
+
+  /**
+   * Get inspection plans
+   */
+  async getPlans(params: {
+    tenantId: string;
+    scope?: QAPlanScope;
+    supplierId?: string;
+    skuId?: string;
+    includeInactive?: boolean;
+  }): Promise<QAInspectionPlan[]> {
+    const { tenantId, scope, supplierId, skuId, includeInactive } = params;
+
+    return prisma.qAInspectionPlan.findMany({
+      where: {
+        tenantId,
+        ...(scope && { scope }),
+        ...(supplierId && { supplierId }),
+        ...(skuId && { skuId }),
+        ...(!includeInactive && { isActive: true }),
+      },
+      include: {
+        supplier: { select: { id: true, code: true, name: true } },
+        sku: { select: { id: true, code: true, name: true } },
+      },
+      orderBy: [{ scope: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  /**
+   * Get inspection plan by ID
+   */
+  async getPlanById(id: string, tenantId: string): Promise<QAInspectionPlan> {
+    const plan = await prisma.qAInspectionPlan.findFirst({
+      where: { id, tenantId },
+      include: {
+        supplier: { select: { id: true, code: true, name: true } },
+        sku: { select: { id: true, code: true, name: true } },
+      },
+    });
+
+    if (!plan) {
+      throw new AppError('Inspection plan not found', 404);
+    }
+
+    return plan;
+  }
+
+  /**
+   * Update an inspection plan. Open inspections keep the sampling and
+   * checklist they were created with.
+   */
+  async updatePlan(
+    id: string,
+    tenantId: string,
+    data: Partial<Omit<InspectionPlanInput, 'tenantId' | 'scope' | 'supplierId' | 'skuId'>>
+  ): Promise<QAInspectionPlan> {
+    const plan = await this.getPlanById(id, tenantId);
+
+    if (data.isActive && !plan.isActive) {
+      await this.assertNoActiveDuplicate(tenantId, plan.scope, plan, id);
+    }
+
+    return prisma.qAInspectionPlan.update({
+      where: { id },
+      data: {
+        ...data,
+        ...(data.samplingRules && {
+          samplingRules: this.sortRules(data.samplingRules) as unknown as Prisma.InputJsonValue,
+        }),
+        ...(data.checklist && { checklist: data.checklist as unknown as Prisma.InputJsonValue }),
+      },
+    });
+  }
+
+  /**
+   * Deactivate an inspection plan
+   */
+  async deactivatePlan(id: string, tenantId: string): Promise<QAInspectionPlan> {
+    await this.getPlanById(id, tenantId);
+
+    return prisma.qAInspectionPlan.update({
+      where: { id },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * Resolve the plan for a receipt line: SKU > supplier > tenant > built-in default
+   */
+  async resolvePlan(
+    tenantId: string,
+    target: { skuId?: string | null; supplierId?: string | null }
+  ): Promise<{
+    plan: QAInspectionPlan | null;
+    aqlLevel: number;
+    samplingRules: SamplingRule[];
+    checklist: ChecklistItem[];
+    requirePhotos: boolean;
+  }> {
+    const candidates = await prisma.qAInspectionPlan.findMany({
+      where: {
+        tenantId,
+        isActive: true,
+        OR: [
+          ...(target.skuId ? [{ scope: 'SKU' as const, skuId: target.skuId }] : []),
+          ...(target.supplierId ? [{ scope: 'SUPPLIER' as const, supplierId: target.supplierId }] : []),
+          { scope: 'TENANT' },
+        ],
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    for (const scope of SCOPE_PRECEDENCE) {
+      const plan = candidates.find((candidate) => candidate.scope === scope);
+      if (plan) {
+        return {
+          plan,
+          aqlLevel: plan.aqlLevel.toNumber(),
+          samplingRules: plan.samplingRules as unknown as SamplingRule[],
+          checklist: plan.checklist as unknown as ChecklistItem[],
+          requirePhotos: plan.requirePhotos,
+        };
+      }
+    }
+
+    return {
+      plan: null,
+      aqlLevel: 2.5,
+      samplingRules: DEFAULT_SAMPLING,
+      checklist: DEFAULT_CHECKLIST,
+      requirePhotos: false,
+    };
+  }
+
+  /**
+   * Pick the sampling bracket for a lot. Lots larger than every bracket use
+   * the largest one; the sample never exceeds the lot.
+   */
+  getSampling(
+    rules: SamplingRule[],
+    lotSize: number
+  ): { sampleSize: number; acceptNumber: number; rejectNumber: number } {
+    const sorted = this.sortRules(rules);
+    const rule =
+      sorted.find((r) => r.maxLotSize === null || lotSize <= r.maxLotSize) || sorted[sorted.length - 1];
+
+    return {
+      sampleSize: Math.max(1, Math.min(rule.sampleSize, Math.ceil(lotSize))),
+      acceptNumber: rule.acceptNumber,
+      rejectNumber: rule.rejectNumber ?? rule.acceptNumber + 1,
+    };
+  }
+
+  /**
+   * Open an inspection for a held receipt line, replacing any open
+   * inspection for the same line (e.g. when the line is re-received)
+   */
+  async openInspection(data: OpenInspectionInput): Promise<QAInspection> {
+    await this.cancelOpenInspections({ receiptLineId: data.receiptLineId });
+
+    const resolved = await this.resolvePlan(data.tenantId, data);
+    const sampling = this.getSampling(resolved.samplingRules, data.lotSize);
+
+    const lastInspection = await prisma.qAInspection.findFirst({
+      where: { tenantId: data.tenantId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return prisma.qAInspection.create({
+      data: {
+        tenantId: data.tenantId,
+        warehouseId: data.warehouseId,
+        inspectionNumber: generateSequentialNumber('QI', lastInspection?.inspectionNumber),
+        planId: resolved.plan?.id,
+        receiptType: data.receiptType,
+        asnId: data.asnId,
+        blindReceiptId: data.blindReceiptId,
+        receiptLineId: data.receiptLineId,
+        skuId: data.skuId,
+        skuCode: data.skuCode,
+        productName: data.productName,
+        supplierId: data.supplierId,
+        batchNumber: data.batchNumber,
+        lotSize: data.lotSize,
+        ...sampling,
+        aqlLevel: resolved.aqlLevel,
+        checklist: resolved.checklist as unknown as Prisma.InputJsonValue,
+        requirePhotos: resolved.requirePhotos,
+      },
+    });
+  }
+
+  /**
+   * Open inspections for the held lines of a blind receipt once they are accepted
+   */
+  async openForBlindReceipt(blindReceiptId: string, lineIds: string[]): Promise<QAInspection[]> {
+    const receipt = await prisma.blindReceipt.findUnique({
+      where: { id: blindReceiptId },
+      include: { lines: { where: { id: { in: lineIds }, qaHold: true } } },
+    });
+
+    if (!receipt || receipt.lines.length === 0) {
+      return [];
+    }
+
+    const supplier = await prisma.supplier.findFirst({
+      where: {
+        tenantId: receipt.tenantId,
+        name: { equals: receipt.supplierName, mode: 'insensitive' },
+      },
+    });
+
+    const inspections: QAInspection[] = [];
+    for (const line of receipt.lines) {
+      inspections.push(
+        await this.openInspection({
+          tenantId: receipt.tenantId,
+          warehouseId: receipt.warehouseId,
+          receiptType: 'BLIND',
+          blindReceiptId,
+          receiptLineId: line.id,
+          skuId: line.skuId,
+          skuCode: line.skuCode,
+          productName: line.productName,
+          supplierId: supplier?.id,
+          batchNumber: line.batchNumber,
+          lotSize: line.quantityReceived.toNumber(),
+        })
+      );
+    }
+
+    return inspections;
+  }
+
+  /**
+   * Cancel open inspections for a receipt line or a whole receipt
+   */
+  async cancelOpenInspections(where: {
+    receiptLineId?: string;
+    asnId?: string;
+    blindReceiptId?: string;
+  }): Promise<void> {
+    await prisma.qAInspection.updateMany({
+      where: { ...where, status: { in: OPEN_STATUSES } },
+      data: { status: 'CANCELLED', completedAt: new Date() },
+    });
+  }
+
+  /**
+   * Get inspections with filters
+   */
+  async getInspections(params: {
+    tenantId: string;
+    warehouseId?: string;
+    status?: QAInspectionStatus;
+    result?: QAInspectionResult;
+    assignedToId?: string;
+    search?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const { tenantId, warehouseId, status, result, assignedToId, search, page = 1, limit = 20 } = params;
+
+    const where: Prisma.QAInspectionWhereInput = {
+      tenantId,
+      ...(warehouseId && { warehouseId }),
+      ...(status && { status }),
+      ...(result && { result }),
+      ...(assignedToId && { assignedToId }),
+      ...(search && {
+        OR: [
+          { inspectionNumber: { contains: search, mode: 'insensitive' } },
+          { skuCode: { contains: search, mode: 'insensitive' } },
+          { batchNumber: { contains: search, mode: 'insensitive' } },
+          { asn: { asnNumber: { contains: search, mode: 'insensitive' } } },
+          { blindReceipt: { receiptNumber: { contains: search, mode: 'insensitive' } } },
+        ],
+      }),
+    };
+
+    const [inspections, total] = await Promise.all([
+      prisma.qAInspection.findMany({
+        where,
+        include: {
+          asn: { select: { id: true, asnNumber: true } },
+          blindReceipt: { select: { id: true, receiptNumber: true } },
+          supplier: { select: { id: true, code: true, name: true } },
+          assignedTo: { select: { id: true, firstName: true, lastName: true } },
+        },
+        orderBy: { createdAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.qAInspection.count({ where }),
+    ]);
+
+    return {
+      data: inspections,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get inspection by ID
+   */
+  async getInspectionById(id: string, tenantId: string) {
+    const inspection = await prisma.qAInspection.findFirst({
+      where: { id, tenantId },
+      include: {
+        plan: { select: { id: true, name: true, scope: true } },
+        asn: { select: { id: true, asnNumber: true } },
+        blindReceipt: { select: { id: true, receiptNumber: true } },
+        supplier: { select: { id: true, code: true, name: true } },
+        variance: { select: { id: true, status: true, varianceQuantity: true } },
+        assignedTo: { select: { id: true, firstName: true, lastName: true } },
+        inspectedBy: { select: { id: true, firstName: true, lastName: true } },
+      },
+    });
+
+    if (!inspection) {
+      throw new AppError('Inspection not found', 404);
+    }
+
+    return inspection;
+  }
+
+  /**
+   * Start an inspection, assigning it to the inspector if unassigned
+   */
+  async startInspection(id: string, tenantId: string, userId: string): Promise<QAInspection> {
+    const inspection = await this.getInspectionById(id, tenantId);
+
+    if (inspection.status !== 'PENDING') {
+      throw new AppError(`Inspection is ${inspection.status}`, 400);
+    }
+
+    return prisma.qAInspection.update({
+      where: { id },
+      data: {
+        status: 'IN_PROGRESS',
+        assignedToId: inspection.assignedToId || userId,
+        startedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Record the inspection result and act on it.
+   *
+   * PASS releases the whole lot; CONDITIONAL releases the given quantity
+   * under the recorded conditions. Released stock is taken off QA hold and
+   * put away from the staging location. Any rejected quantity (the whole lot
+   * on FAIL) stays on hold and raises a QUALITY_ISSUE variance. A
+   * conditional release of a serial-tracked lot names the released serials.
+   */
+  async recordResult(
+    id: string,
+    tenantId: string,
+    inspectedById: string,
+    input: RecordInspectionResultInput
+  ): Promise<{ inspection: QAInspection; putawayTasks: PutawayTask[] }> {
+    const inspection = await this.getInspectionById(id, tenantId);
+
+    if (!OPEN_STATUSES.includes(inspection.status)) {
+      throw new AppError(`Inspection is ${inspection.status}`, 400);
+    }
+
+    const lotSize = inspection.lotSize.toNumber();
+    const checklist = inspection.checklist as unknown as ChecklistItem[];
+    const results = input.checklistResults || [];
+
+    if (input.quantityInspected < inspection.sampleSize) {
+      throw new AppError(`At least ${inspection.sampleSize} units must be inspected`, 400);
+    }
+
+    if (input.defectsFound > input.quantityInspected) {
+      throw new AppError('Defects found cannot exceed the quantity inspected', 400);
+    }
+
+    const unanswered = checklist.filter(
+      (item) => item.required && !results.some((result) => result.code === item.code)
+    );
+    if (unanswered.length > 0) {
+      throw new AppError(`Checklist items not answered: ${unanswered.map((item) => item.code).join(', ')}`, 400);
+    }
+
+    if (inspection.requirePhotos && !input.photoUrls?.length) {
+      throw new AppError('This inspection plan requires photo evidence', 400);
+    }
+
+    const failedChecks = results.filter((result) => !result.passed);
+    const failedRequired = failedChecks.filter((result) =>
+      checklist.some((item) => item.code === result.code && item.required)
+    );
+
+    if (
+      input.result === 'PASS' &&
+      (input.defectsFound >= inspection.rejectNumber || failedRequired.length > 0)
+    ) {
+      throw new AppError(
+        failedRequired.length > 0
+          ? `Required checks failed (${failedRequired.map((r) => r.code).join(', ')}); record FAIL or a conditional release`
+          : `${input.defectsFound} defects reach the reject number of ${inspection.rejectNumber}; record FAIL or a conditional release`,
+        400
+      );
+    }
+
+    let releasedQuantity = 0;
+    if (input.result === 'PASS') {
+      releasedQuantity = lotSize;
+    } else if (input.result === 'CONDITIONAL') {
+      if (!input.releaseConditions) {
+        throw new AppError('Release conditions are required for a conditional release', 400);
+      }
+      if (!input.releasedQuantity || input.releasedQuantity > lotSize) {
+        throw new AppError(`Released quantity must be between 1 and the lot size of ${lotSize}`, 400);
+      }
+      releasedQuantity = input.releasedQuantity;
+    }
+    const rejectedQuantity = lotSize - releasedQuantity;
+
+    if (releasedQuantity > 0) {
+      if (!inspection.skuId) {
+        throw new AppError(`${inspection.skuCode} has no SKU and cannot be released to putaway`, 400);
+      }
+      if (!input.sourceLocationId) {
+        throw new AppError('A staging location is required to release stock to putaway', 400);
+      }
+    }
+
+    const line =
+      inspection.receiptType === 'ASN'
+        ? await prisma.aSNLine.findUniqueOrThrow({ where: { id: inspection.receiptLineId } })
+        : null;
+    const blindLine =
+      inspection.receiptType === 'BLIND'
+        ? await prisma.blindReceiptLine.findUniqueOrThrow({ where: { id: inspection.receiptLineId } })
+        : null;
+
+    const lotSerials = line?.serialNumbers ?? blindLine?.serialNumbers ?? [];
+    const releasedSerials =
+      input.result === 'CONDITIONAL' && lotSerials.length > 0
+        ? this.releasedSerials(lotSerials, releasedQuantity, input.releasedSerialNumbers)
+        : lotSerials;
+
+    const completed = await prisma.$transaction(async (tx) => {
+      // Claim the inspection first so a repeated submit cannot act on it twice
+      const claimed = await tx.qAInspection.updateMany({
+        where: { id, status: { in: OPEN_STATUSES } },
+        data: { status: 'COMPLETED' },
+      });
+
+      if (claimed.count === 0) {
+        throw new AppError(`Inspection ${inspection.inspectionNumber} is no longer open`, 409);
+      }
+
+      let varianceId: string | undefined;
+
+      if (rejectedQuantity > 0) {
+        const unitCost = inspection.skuId
+          ? (await tx.sKU.findUnique({ where: { id: inspection.skuId } }))?.unitCost?.toNumber() || 0
+          : 0;
+        const findings = [
+          `${input.defectsFound} defects in ${input.quantityInspected} inspected`,
+          ...failedChecks.map((check) => `${check.code} failed${check.notes ? `: ${check.notes}` : ''}`),
+        ];
+
+        const variance = await tx.variance.create({
+          data: {
+            tenantId,
+            warehouseId: inspection.warehouseId,
+            receiptType: inspection.receiptType,
+            receiptId: inspection.asnId || inspection.blindReceiptId,
+            receiptLineId: inspection.receiptLineId,
+            asnId: inspection.asnId,
+            blindReceiptId: inspection.blindReceiptId,
+            skuId: inspection.skuId,
+            skuCode: inspection.skuCode,
+            productName: inspection.productName,
+            varianceType: 'QUALITY_ISSUE',
+            expectedQuantity: lotSize,
+            receivedQuantity: lotSize,
+            varianceQuantity: -rejectedQuantity,
+            variancePercentage: Math.round((rejectedQuantity / lotSize) * 10000) / 100,
+            varianceValue: rejectedQuantity * unitCost,
+            reasonCode: input.result === 'FAIL' ? 'QA_FAILED' : 'QA_PARTIAL_REJECT',
+            reasonDescription: `Inspection ${inspection.inspectionNumber}: ${findings.join('; ')}`,
+            receiverNotes: input.notes,
+            photoEvidenceUrls: input.photoUrls || [],
+            batchNumber: inspection.batchNumber,
+            priority: 'HIGH',
+            submittedById: inspectedById,
+          },
+        });
+        varianceId = variance.id;
+      }
+
+      if (inspection.receiptType === 'ASN') {
+        await tx.aSNLine.update({
+          where: { id: inspection.receiptLineId },
+          data: {
+            acceptedQuantity: releasedQuantity,
+            rejectedQuantity,
+            qaHold: releasedQuantity === 0,
+          },
+        });
+      } else {
+        await tx.blindReceiptLine.update({
+          where: { id: inspection.receiptLineId },
+          data: { qaHold: releasedQuantity === 0 },
+        });
+      }
+
+      return tx.qAInspection.update({
+        where: { id },
+        data: {
+          status: 'COMPLETED',
+          result: input.result,
+          quantityInspected: input.quantityInspected,
+          defectsFound: input.defectsFound,
+          checklistResults: results as unknown as Prisma.InputJsonValue,
+          photoUrls: input.photoUrls || [],
+          notes: input.notes,
+          releasedQuantity,
+          rejectedQuantity,
+          releaseConditions: input.releaseConditions,
+          varianceId,
+          inspectedById,
+          assignedToId: inspection.assignedToId || inspectedById,
+          startedAt: inspection.startedAt || new Date(),
+          completedAt: new Date(),
+        },
+      });
+    });
+
+    if (releasedQuantity === 0) {
+      return { inspection: completed, putawayTasks: [] };
+    }
+
+    // The hold is released at this point, so a putaway that cannot be
+    // placed now can be generated later from the putaway screen
+    const putawayTasks = await putawayService.generatePutawayTasks({
+      tenantId,
+      warehouseId: inspection.warehouseId,
+      receiptType: inspection.receiptType as 'ASN' | 'BLIND',
+      receiptId: (inspection.asnId || inspection.blindReceiptId)!,
+      sourceLocationId: input.sourceLocationId!,
+      items: [
+        {
+          skuId: inspection.skuId!,
+          receiptLineId: inspection.receiptLineId,
+          quantity: releasedQuantity,
+          batchNumber: (line?.batchNumberReceived ?? blindLine?.batchNumber) || undefined,
+          expiryDate: (line?.expiryDateReceived ?? blindLine?.expiryDate) || undefined,
+          lpn: (line?.lpnReceived ?? blindLine?.lpn) || undefined,
+          serialNumbers: releasedSerials,
+        },
+      ],
+    });
+
+    return { inspection: completed, putawayTasks };
+  }
+
+  /**
+   * Check the serials named on a conditional release: one per released
+   * unit, each from the inspected lot
+   */
+  private releasedSerials(lotSerials: string[], releasedQuantity: number, serialNumbers?: string[]): string[] {
+    const released = [...new Set(serialNumbers || [])];
+
+    if (released.length !== releasedQuantity) {
+      throw new AppError(`Name the ${releasedQuantity} serial numbers released from this serial-tracked lot`, 400);
+    }
+
+    const unknown = released.filter((serial) => !lotSerials.includes(serial));
+    if (unknown.length > 0) {
+      throw new AppError(`Serial numbers not in the inspected lot: ${unknown.join(', ')}`, 400);
+    }
+
+    return released;
+  }
+
+  private sortRules(rules: SamplingRule[]): SamplingRule[] {
+    return [...rules].sort(
+      (a, b) => (a.maxLotSize ?? Number.POSITIVE_INFINITY) - (b.maxLotSize ?? Number.POSITIVE_INFINITY)
+    );
+  }
+
+  /**
+   * Check the scope has exactly the target it needs and that the target exists
+   */
+  private async validateTarget(
+    tenantId: string,
+    data: Pick<InspectionPlanInput, 'scope' | 'supplierId' | 'skuId'>
+  ): Promise<{ supplierId: string | null; skuId: string | null }> {
+    switch (data.scope) {
+      case 'SUPPLIER': {
+        if (!data.supplierId) throw new AppError('supplierId is required for SUPPLIER scope', 400);
+        const supplier = await prisma.supplier.findFirst({ where: { id: data.supplierId, tenantId } });
+        if (!supplier) throw new AppError('Supplier not found', 404);
+        return { supplierId: data.supplierId, skuId: null };
+      }
+      case 'SKU': {
+        if (!data.skuId) throw new AppError('skuId is required for SKU scope', 400);
+        const sku = await prisma.sKU.findFirst({ where: { id: data.skuId, tenantId } });
+        if (!sku) throw new AppError('SKU not found', 404);
+        return { supplierId: null, skuId: data.skuId };
+      }
+      default:
+        return { supplierId: null, skuId: null };
+    }
+  }
+
+  private async assertNoActiveDuplicate(
+    tenantId: string,
+    scope: QAPlanScope,
+    target: { supplierId?: string | null; skuId?: string | null },
+    excludeId?: string
+  ): Promise<void> {
+    const existing = await prisma.qAInspectionPlan.findFirst({
+      where: {
+        tenantId,
+        scope,
+        isActive: true,
+        supplierId: target.supplierId ?? null,
+        skuId: target.skuId ?? null,
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+
+    if (existing) {
+      throw new AppError(`An active ${scope} inspection plan already exists: ${existing.name}`, 409);
+    }
+  }
+}
+
+export default new QAInspectionService();
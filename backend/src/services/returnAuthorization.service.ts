@@ -0,0 +1,791 @@
+import {
+  Prisma,
+  ItemCondition,
+  InventoryStatus,
+  OrderStatus,
+  ReturnAuthorization,
+  ReturnDisposalTask,
+  ReturnGrade,
+  ReturnStatus,
+  ReturnUnit,
+  ZoneType,
+} from '@prisma/client';
+import prisma from '../config/database';
+import { generateSequentialNumber } from '../utils/helpers';
+import { AppError } from '../middleware/errorHandler';
+import putawayService from './putaway.service';
+
+export interface CreateReturnAuthorizationInput {
+  tenantId: string;
+  orderId: string;
+  shipmentId?: string;
+  returnReason: string;
+  customerNotes?: string;
+  carrier?: string;
+  trackingNumber?: string;
+  expiresAt?: Date;
+  authorizedById: string;
+  lines: Array<{
+    orderLineId: string;
+    quantity: number;
+    reasonCode: string;
+    serialNumbers?: string[];
+  }>;
+}
+
+export interface GradeReturnUnitInput {
+  unitId: string;
+  grade: ReturnGrade;
+  condition?: ItemCondition;
+  gradingNotes?: string;
+  supplierId?: string;
+}
+
+export interface ReceiveReturnUnitInput {
+  returnLineId: string;
+  quantity?: number;
+  serialNumber?: string;
+  batchNumber?: string;
+  expiryDate?: Date;
+  lpn?: string;
+  condition: ItemCondition;
+  grade?: ReturnGrade;
+  gradingNotes?: string;
+  photoEvidenceUrls?: string[];
+  supplierId?: string;
+}
+
+// Orders that have left the building and can be returned against
+const RETURNABLE_ORDER_STATUSES: OrderStatus[] = ['SHIPPED', 'PARTIALLY_SHIPPED', 'DELIVERED'];
+const RECEIVABLE_STATUSES: ReturnStatus[] = ['AUTHORIZED', 'RECEIVING'];
+
+// Grades that put stock back on a shelf, and where it goes
+const PUTAWAY_GRADES: Partial<Record<ReturnGrade, { zoneType?: ZoneType; inventoryStatus: InventoryStatus }>> = {
+  RESTOCK: { inventoryStatus: 'AVAILABLE' },
+  REFURBISH: { zoneType: 'RETURNS', inventoryStatus: 'ON_HOLD' },
+  QUARANTINE: { zoneType: 'QUARANTINE', inventoryStatus: 'QUARANTINE' },
+};
+
+export class ReturnAuthorizationService {
+  /**
+   * Authorize a customer return against shipped order lines
+   */
+  async createReturnAuthorization(data: CreateReturnAuthorizationInput): Promise<ReturnAuthorization> {
+    const order = await prisma.order.findFirst({
+      where: { id: data.orderId, tenantId: data.tenantId },
+      include: {
+        orderLines: { include: { product: true } },
+        shipments: { include: { shipmentLines: true } },
+      },
+    });
+
+    if (!order) {
+      throw new AppError('Order not found', 404);
+    }
+
+    if (!RETURNABLE_ORDER_STATUSES.includes(order.status)) {
+      throw new AppError(`Order ${order.orderNumber} is ${order.status} and cannot be returned`, 400);
+    }
+
+    const shipments = data.shipmentId
+      ? order.shipments.filter((shipment) => shipment.id === data.shipmentId)
+      : order.shipments;
+
+    if (data.shipmentId && shipments.length === 0) {
+      throw new AppError('Shipment not found for this order', 404);
+    }
+
+    const shipmentLines = shipments.flatMap((shipment) => shipment.shipmentLines);
+
+    const lastRMA = await prisma.returnAuthorization.findFirst({
+      where: { tenantId: data.tenantId },
+      orderBy: { createdAt: 'desc' },
+    });
+    const rmaNumber = generateSequentialNumber('RMA', lastRMA?.rmaNumber);
+
+    const lines: Prisma.ReturnAuthorizationLineCreateWithoutReturnAuthorizationInput[] = [];
+    const requested = new Map<string, number>();
+
+    for (const [index, input] of data.lines.entries()) {
+      const orderLine = order.orderLines.find((line) => line.id === input.orderLineId);
+      if (!orderLine) {
+        throw new AppError(`Order line not found: ${input.orderLineId}`, 404);
+      }
+
+      const shipped = shipmentLines.filter((line) => line.orderLineId === orderLine.id);
+      const active: Prisma.ReturnAuthorizationLineWhereInput = {
+        orderLineId: orderLine.id,
+        status: { not: 'CANCELLED' },
+        returnAuthorization: { status: { not: 'CANCELLED' } },
+      };
+
+      // Nothing may go back beyond what the order line shipped in total...
+      const authorized = await prisma.returnAuthorizationLine.aggregate({
+        where: active,
+        _sum: { quantityAuthorized: true },
+      });
+      let returnable = orderLine.quantityShipped.toNumber() - (authorized._sum.quantityAuthorized?.toNumber() || 0);
+
+      // ...nor beyond what this shipment carried, less returns already raised against it
+      if (data.shipmentId) {
+        const authorizedOnShipment = await prisma.returnAuthorizationLine.aggregate({
+          where: {
+            ...active,
+            OR: [
+              { shipmentLineId: { in: shipped.map((line) => line.id) } },
+              { returnAuthorization: { shipmentId: data.shipmentId } },
+            ],
+          },
+          _sum: { quantityAuthorized: true },
+        });
+        const shippedQuantity = shipped.reduce((sum, line) => sum + line.quantityShipped.toNumber(), 0);
+        returnable = Math.min(
+          returnable,
+          shippedQuantity - (authorizedOnShipment._sum.quantityAuthorized?.toNumber() || 0)
+        );
+      }
+
+      // Earlier lines of this request for the same order line count too
+      returnable -= requested.get(orderLine.id) || 0;
+      requested.set(orderLine.id, (requested.get(orderLine.id) || 0) + input.quantity);
+
+      if (input.quantity > returnable) {
+        throw new AppError(
+          `Line ${orderLine.lineNumber} (${orderLine.product.sku}): only ${Math.max(returnable, 0)} units can be returned`,
+          400
+        );
+      }
+
+      // Returned serials must be ones we actually shipped
+      const shippedSerials = shipped.flatMap((line) => line.serialNumbers);
+      const unknownSerials = (input.serialNumbers || []).filter((serial) => !shippedSerials.includes(serial));
+      if (unknownSerials.length > 0) {
+        throw new AppError(`Serial numbers not shipped on this order: ${unknownSerials.join(', ')}`, 400);
+      }
+      if ((input.serialNumbers?.length || 0) > input.quantity) {
+        throw new AppError(`Line ${orderLine.lineNumber}: more serial numbers than units authorized`, 400);
+      }
+
+      const batches = [...new Set(shipped.map((line) => line.batchNumber).filter((batch): batch is string => !!batch))];
+      const sku = await prisma.sKU.findUnique({
+        where: { tenantId_code: { tenantId: data.tenantId, code: orderLine.product.sku } },
+      });
+
+      lines.push({
+        tenantId: data.tenantId,
+        lineNumber: index + 1,
+        orderLine: { connect: { id: orderLine.id } },
+        ...(shipped.length === 1 && { shipmentLine: { connect: { id: shipped[0].id } } }),
+        product: { connect: { id: orderLine.productId } },
+        ...(sku && { sku: { connect: { id: sku.id } } }),
+        skuCode: orderLine.product.sku,
+        productName: orderLine.product.name,
+        quantityAuthorized: input.quantity,
+        batchNumber: batches.length === 1 ? batches[0] : undefined,
+        serialNumbers: input.serialNumbers?.length ? input.serialNumbers : shippedSerials,
+        reasonCode: input.reasonCode,
+      });
+    }
+
+    return prisma.returnAuthorization.create({
+      data: {
+        tenantId: data.tenantId,
+        warehouseId: order.warehouseId,
+        rmaNumber,
+        orderId: order.id,
+        shipmentId: data.shipmentId,
+        customerId: order.customerId,
+        returnReason: data.returnReason,
+        customerNotes: data.customerNotes,
+        carrier: data.carrier,
+        trackingNumber: data.trackingNumber,
+        expiresAt: data.expiresAt,
+        totalAuthorizedUnits: data.lines.reduce((sum, line) => sum + line.quantity, 0),
+        authorizedById: data.authorizedById,
+        lines: { create: lines },
+      },
+      include: {
+        lines: { orderBy: { lineNumber: 'asc' } },
+      },
+    });
+  }
+
+  /**
+   * Get return authorizations with filters
+   */
+  async getReturnAuthorizations(params: {
+    tenantId: string;
+    warehouseId?: string;
+    status?: ReturnStatus;
+    orderId?: string;
+    search?: string;
+    page?: number;
+    limit?: number;
+  }) {
+    const { tenantId, warehouseId, status, orderId, search, page = 1, limit = 20 } = params;
+
+    const where: Prisma.ReturnAuthorizationWhereInput = {
+      tenantId,
+      ...(warehouseId && { warehouseId }),
+      ...(status && { status }),
+      ...(orderId && { orderId }),
+      ...(search && {
+        OR: [
+          { rmaNumber: { contains: search, mode: 'insensitive' } },
+          { trackingNumber: { contains: search, mode: 'insensitive' } },
+          { order: { orderNumber: { contains: search, mode: 'insensitive' } } },
+        ],
+      }),
+    };
+
+    const [rmas, total] = await Promise.all([
+      prisma.returnAuthorization.findMany({
+        where,
+        include: {
+          order: { select: { id: true, orderNumber: true } },
+          customer: { select: { id: true, code: true, name: true } },
+          _count: { select: { lines: true, units: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.returnAuthorization.count({ where }),
+    ]);
+
+    return {
+      data: rmas,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get return authorization with lines, received units and their dispositions
+   */
+  async getReturnAuthorizationById(id: string, tenantId: string) {
+    const rma = await prisma.returnAuthorization.findFirst({
+      where: { id, tenantId },
+      include: {
+        order: { select: { id: true, orderNumber: true, status: true } },
+        shipment: { select: { id: true, shipmentNumber: true, trackingNumber: true } },
+        customer: { select: { id: true, code: true, name: true } },
+        receivingLocation: { select: { id: true, code: true } },
+        lines: {
+          include: {
+            units: {
+              include: {
+                putawayTask: {
+                  select: { id: true, taskNumber: true, status: true, destinationLocationCode: true },
+                },
+                disposalTask: { select: { id: true, taskNumber: true, status: true } },
+              },
+              orderBy: { receivedAt: 'asc' },
+            },
+          },
+          orderBy: { lineNumber: 'asc' },
+        },
+        authorizedBy: { select: { id: true, firstName: true, lastName: true } },
+        receivedBy: { select: { id: true, firstName: true, lastName: true } },
+      },
+    });
+
+    if (!rma) {
+      throw new AppError('Return authorization not found', 404);
+    }
+
+    return rma;
+  }
+
+  /**
+   * Cancel a return authorization that has not been received
+   */
+  async cancelReturnAuthorization(id: string, tenantId: string): Promise<ReturnAuthorization> {
+    const rma = await prisma.returnAuthorization.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!rma) {
+      throw new AppError('Return authorization not found', 404);
+    }
+
+    if (rma.status !== 'AUTHORIZED') {
+      throw new AppError('Only returns that have not been received can be cancelled', 400);
+    }
+
+    await prisma.returnAuthorizationLine.updateMany({
+      where: { returnAuthorizationId: id },
+      data: { status: 'CANCELLED' },
+    });
+
+    return prisma.returnAuthorization.update({
+      where: { id },
+      data: { status: 'CANCELLED', cancelledAt: new Date() },
+    });
+  }
+
+  /**
+   * Receive returned units at a returns staging location. Serialized items
+   * are received one unit per serial. Units received with a grade are
+   * dispositioned straight away.
+   */
+  async receiveUnits(
+    id: string,
+    tenantId: string,
+    receivedById: string,
+    receivingLocationId: string,
+    units: ReceiveReturnUnitInput[]
+  ): Promise<ReturnUnit[]> {
+    const rma = await prisma.returnAuthorization.findFirst({
+      where: { id, tenantId },
+      include: {
+        lines: { include: { sku: true, units: { select: { serialNumber: true } } } },
+      },
+    });
+
+    if (!rma) {
+      throw new AppError('Return authorization not found', 404);
+    }
+
+    if (!RECEIVABLE_STATUSES.includes(rma.status)) {
+      throw new AppError(`Return ${rma.rmaNumber} is ${rma.status}`, 400);
+    }
+
+    if (rma.expiresAt && rma.expiresAt < new Date()) {
+      throw new AppError(`Return ${rma.rmaNumber} expired on ${rma.expiresAt.toISOString().split('T')[0]}`, 400);
+    }
+
+    const location = await prisma.location.findFirst({
+      where: { id: receivingLocationId, warehouseId: rma.warehouseId },
+    });
+
+    if (!location) {
+      throw new AppError('Receiving location not found in this warehouse', 404);
+    }
+
+    const receiving = new Map<string, number>();
+    const seenSerials = new Set<string>();
+
+    for (const unit of units) {
+      const line = rma.lines.find((l) => l.id === unit.returnLineId);
+      if (!line) {
+        throw new AppError(`Return line not found: ${unit.returnLineId}`, 404);
+      }
+
+      const quantity = unit.serialNumber ? 1 : unit.quantity ?? 1;
+
+      if (unit.serialNumber) {
+        if (line.serialNumbers.length > 0 && !line.serialNumbers.includes(unit.serialNumber)) {
+          throw new AppError(`Serial ${unit.serialNumber} is not authorized for return on line ${line.lineNumber}`, 400);
+        }
+        if (seenSerials.has(unit.serialNumber) || line.units.some((u) => u.serialNumber === unit.serialNumber)) {
+          throw new AppError(`Serial ${unit.serialNumber} has already been received`, 409);
+        }
+        seenSerials.add(unit.serialNumber);
+      } else if (line.sku?.requiresSerialTracking) {
+        throw new AppError(`${line.skuCode} is serial-tracked; receive each unit with its serial number`, 400);
+      }
+
+      const total = (receiving.get(line.id) || line.quantityReceived.toNumber()) + quantity;
+      if (total > line.quantityAuthorized.toNumber()) {
+        throw new AppError(
+          `Line ${line.lineNumber}: receiving ${total} exceeds the ${line.quantityAuthorized.toNumber()} authorized`,
+          400
+        );
+      }
+      receiving.set(line.id, total);
+    }
+
+    const created = await prisma.$transaction(async (tx) => {
+      const records: ReturnUnit[] = [];
+
+      for (const unit of units) {
+        const line = rma.lines.find((l) => l.id === unit.returnLineId)!;
+        records.push(
+          await tx.returnUnit.create({
+            data: {
+              tenantId,
+              returnAuthorizationId: id,
+              returnLineId: line.id,
+              quantity: unit.serialNumber ? 1 : unit.quantity ?? 1,
+              serialNumber: unit.serialNumber,
+              batchNumber: unit.batchNumber || line.batchNumber,
+              expiryDate: unit.expiryDate,
+              lpn: unit.lpn,
+              condition: unit.condition,
+              photoEvidenceUrls: unit.photoEvidenceUrls || [],
+              gradingNotes: unit.gradingNotes,
+              receivedById,
+            },
+          })
+        );
+      }
+
+      for (const [lineId, quantityReceived] of receiving) {
+        const line = rma.lines.find((l) => l.id === lineId)!;
+        await tx.returnAuthorizationLine.update({
+          where: { id: lineId },
+          data: {
+            quantityReceived,
+            status: quantityReceived >= line.quantityAuthorized.toNumber() ? 'RECEIVED' : 'PARTIALLY_RECEIVED',
+          },
+        });
+      }
+
+      return records;
+    });
+
+    await this.updateReceiptStatus(id, receivedById, receivingLocationId);
+
+    // Grade whatever was graded at the receiving station
+    const grades: GradeReturnUnitInput[] = [];
+    units.forEach((unit, index) => {
+      if (unit.grade) {
+        grades.push({
+          unitId: created[index].id,
+          grade: unit.grade,
+          gradingNotes: unit.gradingNotes,
+          supplierId: unit.supplierId,
+        });
+      }
+    });
+
+    if (grades.length > 0) {
+      const graded = new Map(
+        (await this.gradeUnits(id, tenantId, receivedById, grades)).map((unit) => [unit.id, unit])
+      );
+      return created.map((unit) => graded.get(unit.id) || unit);
+    }
+
+    return created;
+  }
+
+  /**
+   * Grade received units and create the task their grade calls for:
+   * restock, refurbish and quarantine units get a putaway task to the
+   * matching zone; scrap and return-to-vendor units get a disposal task.
+   */
+  async gradeUnits(
+    id: string,
+    tenantId: string,
+    gradedById: string,
+    grades: GradeReturnUnitInput[]
+  ): Promise<ReturnUnit[]> {
+    const rma = await prisma.returnAuthorization.findFirst({
+      where: { id, tenantId },
+    });
+
+    if (!rma) {
+      throw new AppError('Return authorization not found', 404);
+    }
+
+    const units = await prisma.returnUnit.findMany({
+      where: { id: { in: grades.map((g) => g.unitId) }, returnAuthorizationId: id },
+      include: { returnLine: true },
+    });
+    const byId = new Map(units.map((unit) => [unit.id, unit]));
+
+    // Validate everything before creating any tasks
+    for (const input of grades) {
+      const unit = byId.get(input.unitId);
+      if (!unit) {
+        throw new AppError(`Return unit not found: ${input.unitId}`, 404);
+      }
+      if (unit.dispositionStatus !== 'PENDING_GRADING') {
+        throw new AppError(`Unit ${unit.serialNumber || unit.id} has already been graded`, 400);
+      }
+
+      const condition = input.condition || unit.condition;
+      if (input.grade === 'RESTOCK') {
+        if (condition !== 'GOOD') {
+          throw new AppError(`Only units in GOOD condition can be restocked (unit is ${condition})`, 400);
+        }
+        if (unit.expiryDate && unit.expiryDate < new Date()) {
+          throw new AppError('Expired units cannot be restocked', 400);
+        }
+      }
+
+      if (PUTAWAY_GRADES[input.grade] && !unit.returnLine.skuId) {
+        throw new AppError(`${unit.returnLine.skuCode} has no receiving SKU and cannot be put away`, 400);
+      }
+      if (PUTAWAY_GRADES[input.grade] && !rma.receivingLocationId) {
+        throw new AppError('Return has no receiving location', 400);
+      }
+    }
+
+    const graded: ReturnUnit[] = [];
+
+    for (const input of grades) {
+      const unit = byId.get(input.unitId)!;
+      const line = unit.returnLine;
+      const putaway = PUTAWAY_GRADES[input.grade];
+      const gradeData = {
+        grade: input.grade,
+        condition: input.condition || unit.condition,
+        gradingNotes: input.gradingNotes ?? unit.gradingNotes,
+        gradedById,
+        gradedAt: new Date(),
+        dispositionStatus: 'TASK_CREATED' as const,
+      };
+
+      if (putaway) {
+        const [task] = await putawayService.generatePutawayTasks({
+          tenantId,
+          warehouseId: rma.warehouseId,
+          receiptType: 'RETURN',
+          receiptId: rma.id,
+          sourceLocationId: rma.receivingLocationId!,
+          zoneType: putaway.zoneType,
+          inventoryStatus: putaway.inventoryStatus,
+          items: [
+            {
+              skuId: line.skuId!,
+              receiptLineId: line.id,
+              quantity: unit.quantity.toNumber(),
+              batchNumber: unit.batchNumber || undefined,
+              expiryDate: unit.expiryDate || undefined,
+              lpn: unit.lpn || undefined,
+              serialNumbers: unit.serialNumber ? [unit.serialNumber] : [],
+            },
+          ],
+        });
+
+        graded.push(
+          await prisma.returnUnit.update({
+            where: { id: unit.id },
+            data: { ...gradeData, putawayTaskId: task.id },
+          })
+        );
+      } else {
+        const task = await this.createDisposalTask(rma, unit, input);
+
+        graded.push(
+          await prisma.returnUnit.update({
+            where: { id: unit.id },
+            data: { ...gradeData, disposalTaskId: task.id },
+          })
+        );
+      }
+    }
+
+    return graded;
+  }
+
+  /**
+   * Get disposal (scrap / return-to-vendor) tasks
+   */
+  async getDisposalTasks(params: {
+    tenantId: string;
+    warehouseId?: string;
+    status?: 'PENDING' | 'COMPLETED' | 'CANCELLED';
+    disposalType?: 'SCRAP' | 'RETURN_TO_VENDOR';
+  }): Promise<ReturnDisposalTask[]> {
+    return prisma.returnDisposalTask.findMany({
+      where: {
+        tenantId: params.tenantId,
+        ...(params.warehouseId && { warehouseId: params.warehouseId }),
+        ...(params.status && { status: params.status }),
+        ...(params.disposalType && { disposalType: params.disposalType }),
+      },
+      include: {
+        supplier: { select: { id: true, code: true, name: true } },
+        units: { select: { id: true, returnAuthorizationId: true, serialNumber: true, condition: true } },
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Confirm a unit has been scrapped or shipped back to the vendor
+   */
+  async completeDisposalTask(
+    taskId: string,
+    tenantId: string,
+    completedById: string,
+    data: { referenceNumber?: string; notes?: string }
+  ): Promise<ReturnDisposalTask> {
+    const task = await prisma.returnDisposalTask.findFirst({
+      where: { id: taskId, tenantId },
+      include: { units: { select: { returnAuthorizationId: true } } },
+    });
+
+    if (!task) {
+      throw new AppError('Disposal task not found', 404);
+    }
+
+    if (task.status !== 'PENDING') {
+      throw new AppError(`Disposal task is ${task.status}`, 400);
+    }
+
+    if (task.disposalType === 'RETURN_TO_VENDOR' && !data.referenceNumber) {
+      throw new AppError('A vendor return authorization number is required', 400);
+    }
+
+    const completed = await prisma.$transaction(async (tx) => {
+      await tx.returnUnit.updateMany({
+        where: { disposalTaskId: taskId },
+        data: { dispositionStatus: 'COMPLETED' },
+      });
+
+      return tx.returnDisposalTask.update({
+        where: { id: taskId },
+        data: {
+          status: 'COMPLETED',
+          referenceNumber: data.referenceNumber,
+          notes: data.notes ?? task.notes,
+          completedById,
+          completedAt: new Date(),
+        },
+      });
+    });
+
+    for (const rmaId of new Set(task.units.map((unit) => unit.returnAuthorizationId))) {
+      await this.closeIfDispositioned(rmaId);
+    }
+
+    return completed;
+  }
+
+  private async createDisposalTask(
+    rma: ReturnAuthorization,
+    unit: ReturnUnit & { returnLine: { skuId: string | null; skuCode: string; productName: string } },
+    input: GradeReturnUnitInput
+  ): Promise<ReturnDisposalTask> {
+    let supplierId = input.supplierId;
+
+    if (input.grade === 'RETURN_TO_VENDOR' && !supplierId && unit.returnLine.skuId) {
+      const supplierItem = await prisma.supplierItem.findFirst({
+        where: { tenantId: rma.tenantId, skuId: unit.returnLine.skuId, isActive: true },
+        orderBy: { createdAt: 'asc' },
+      });
+      supplierId = supplierItem?.supplierId;
+    }
+
+    if (input.grade === 'RETURN_TO_VENDOR' && !supplierId) {
+      throw new AppError(`No supplier found for ${unit.returnLine.skuCode}; specify supplierId`, 400);
+    }
+
+    const lastTask = await prisma.returnDisposalTask.findFirst({
+      where: { tenantId: rma.tenantId },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return prisma.returnDisposalTask.create({
+      data: {
+        tenantId: rma.tenantId,
+        warehouseId: rma.warehouseId,
+        taskNumber: generateSequentialNumber('RD', lastTask?.taskNumber),
+        disposalType: input.grade,
+        supplierId,
+        skuId: unit.returnLine.skuId,
+        skuCode: unit.returnLine.skuCode,
+        productName: unit.returnLine.productName,
+        quantity: unit.quantity,
+        batchNumber: unit.batchNumber,
+        serialNumbers: unit.serialNumber ? [unit.serialNumber] : [],
+        notes: input.gradingNotes,
+      },
+    });
+  }
+
+  /**
+   * Roll line receipts up to the RMA. Once every line is received the
+   * shipment and order are marked returned if nothing shipped remains out.
+   */
+  private async updateReceiptStatus(
+    id: string,
+    receivedById: string,
+    receivingLocationId: string
+  ): Promise<void> {
+    const rma = await prisma.returnAuthorization.findUniqueOrThrow({
+      where: { id },
+      include: { lines: true },
+    });
+
+    const totalReceivedUnits = rma.lines.reduce((sum, line) => sum + line.quantityReceived.toNumber(), 0);
+    const fullyReceived = rma.lines.every((line) => line.status === 'RECEIVED' || line.status === 'CANCELLED');
+
+    await prisma.returnAuthorization.update({
+      where: { id },
+      data: {
+        totalReceivedUnits,
+        receivingLocationId,
+        status: fullyReceived ? 'RECEIVED' : 'RECEIVING',
+        ...(fullyReceived && { receivedById, receivedAt: new Date() }),
+      },
+    });
+
+    if (fullyReceived) {
+      await this.markOrderReturned(rma.orderId, rma.shipmentId, rma.rmaNumber);
+    }
+  }
+
+  private async markOrderReturned(orderId: string, shipmentId: string | null, rmaNumber: string): Promise<void> {
+    const [order, returned] = await Promise.all([
+      prisma.order.findUniqueOrThrow({ where: { id: orderId } }),
+      prisma.returnAuthorizationLine.aggregate({
+        where: { orderLine: { orderId }, status: { not: 'CANCELLED' } },
+        _sum: { quantityReceived: true },
+      }),
+    ]);
+    const returnedUnits = returned._sum.quantityReceived?.toNumber() || 0;
+
+    if (shipmentId) {
+      const [shipped, returnedFromShipment] = await Promise.all([
+        prisma.shipmentLine.aggregate({ where: { shipmentId }, _sum: { quantityShipped: true } }),
+        prisma.returnAuthorizationLine.aggregate({
+          where: { returnAuthorization: { shipmentId }, status: { not: 'CANCELLED' } },
+          _sum: { quantityReceived: true },
+        }),
+      ]);
+
+      if (
+        (returnedFromShipment._sum.quantityReceived?.toNumber() || 0) >=
+        (shipped._sum.quantityShipped?.toNumber() || 0)
+      ) {
+        await prisma.shipment.update({
+          where: { id: shipmentId },
+          data: { deliveryStatus: 'RETURNED' },
+        });
+      }
+    }
+
+    if (returnedUnits >= order.totalUnitsShipped.toNumber()) {
+      await prisma.order.update({
+        where: { id: orderId },
+        data: { status: 'RETURNED' },
+      });
+    }
+
+    await prisma.orderEvent.create({
+      data: {
+        orderId,
+        eventType: 'return_received',
+        description: `Return ${rmaNumber} received`,
+        metadata: { rmaNumber, returnedUnits },
+      },
+    });
+  }
+
+  private async closeIfDispositioned(id: string): Promise<void> {
+    const [rma, openUnits] = await Promise.all([
+      prisma.returnAuthorization.findUnique({ where: { id } }),
+      prisma.returnUnit.count({
+        where: { returnAuthorizationId: id, dispositionStatus: { not: 'COMPLETED' } },
+      }),
+    ]);
+
+    if (rma?.status === 'RECEIVED' && openUnits === 0) {
+      await prisma.returnAuthorization.update({
+        where: { id },
+        data: { status: 'CLOSED', closedAt: new Date() },
+      });
+    }
+  }
+}
+
+export default new ReturnAuthorizationService();
@@ -0,0 +1,549 @@
+import { Prisma, SupplierClaim, SupplierClaimStatus, Variance, VarianceType } from '@prisma/client';
+import prisma from '../config/database';
+import { generateSequentialNumber, formatDate } from '../utils/helpers';
+import { AppError } from '../middleware/errorHandler';
+import { PdfDocument } from '../utils/pdf';
+import logger from '../utils/logger';
+
+export interface GetSupplierClaimsParams {
+  tenantId: string;
+  warehouseId?: string;
+  supplierId?: string;
+  asnId?: string;
+  status?: SupplierClaimStatus;
+  page?: number;
+  limit?: number;
+}
+
+// Variance types the supplier is liable for
+export const CLAIMABLE_VARIANCE_TYPES: VarianceType[] = ['SHORTAGE', 'DAMAGED', 'WRONG_ITEM'];
+
+// Sent to the supplier and awaiting credit
+const OUTSTANDING_STATUSES: SupplierClaimStatus[] = ['SENT', 'ACKNOWLEDGED', 'DISPUTED'];
+
+// Lines can be revalued before sending, or after a dispute before resending
+const EDITABLE_STATUSES: SupplierClaimStatus[] = ['DRAFT', 'DISPUTED'];
+
+const CLAIM_TRANSITIONS: Record<SupplierClaimStatus, SupplierClaimStatus[]> = {
+  DRAFT: ['SENT'],
+  SENT: ['ACKNOWLEDGED', 'DISPUTED', 'CREDITED'],
+  ACKNOWLEDGED: ['DISPUTED', 'CREDITED'],
+  DISPUTED: ['SENT', 'CREDITED'],
+  CREDITED: [],
+};
+
+const CLAIM_INCLUDE = {
+  supplier: { select: { id: true, code: true, name: true, contactName: true, contactEmail: true, address: true } },
+  asn: { select: { id: true, asnNumber: true, poNumber: true, actualArrivalDate: true } },
+  warehouse: { select: { id: true, code: true, name: true } },
+  createdBy: { select: { id: true, firstName: true, lastName: true } },
+  sentBy: { select: { id: true, firstName: true, lastName: true } },
+  lines: {
+    include: { variance: { select: { id: true, status: true, resolutionAction: true, reasonCode: true } } },
+    orderBy: { createdAt: 'asc' as const },
+  },
+};
+
+const roundMoney = (value: number): number => Math.round(value * 100) / 100;
+
+export class SupplierClaimService {
+  /**
+   * Add an approved variance to its ASN's draft claim, opening one if
+   * needed. Variances that are not claimable, not on an ASN or already
+   * claimed are skipped. Failures are logged so the variance approval
+   * stands; the variance is picked up again by generateClaims.
+   */
+  async addVariance(variance: Variance, createdById: string): Promise<void> {
+    if (
+      variance.status !== 'APPROVED' ||
+      !variance.asnId ||
+      !CLAIMABLE_VARIANCE_TYPES.includes(variance.varianceType)
+    ) {
+      return;
+    }
+
+    try {
+      await this.claimVariances(variance.asnId, [variance.id], createdById);
+    } catch (error) {
+      logger.error(`Adding variance ${variance.id} to a supplier claim failed:`, error);
+    }
+  }
+
+  /**
+   * Take a variance whose resolution is being reversed off its claim. Only
+   * claims that have not been sent, or are being reworked after a dispute,
+   * can lose lines.
+   */
+  async releaseVariance(tx: Prisma.TransactionClient, varianceId: string): Promise<void> {
+    const line = await tx.supplierClaimLine.findUnique({
+      where: { varianceId },
+      include: { claim: true },
+    });
+
+    if (!line) {
+      return;
+    }
+
+    if (!EDITABLE_STATUSES.includes(line.claim.status)) {
+      throw new AppError(`Variance is on ${line.claim.status} claim ${line.claim.claimNumber}`, 400);
+    }
+
+    await tx.supplierClaimLine.delete({ where: { id: line.id } });
+    await this.updateTotal(line.claimId, tx);
+  }
+
+  /**
+   * Group every approved, unclaimed claimable variance into draft claims
+   * per supplier and ASN
+   */
+  async generateClaims(tenantId: string, createdById: string, warehouseId?: string) {
+    const variances = await prisma.variance.findMany({
+      where: {
+        tenantId,
+        ...(warehouseId && { warehouseId }),
+        status: 'APPROVED',
+        varianceType: { in: CLAIMABLE_VARIANCE_TYPES },
+        asnId: { not: null },
+        claimLine: { is: null },
+      },
+      select: { id: true, asnId: true },
+    });
+
+    const byAsn = new Map<string, string[]>();
+    for (const variance of variances) {
+      byAsn.set(variance.asnId!, [...(byAsn.get(variance.asnId!) ?? []), variance.id]);
+    }
+
+    const claims: SupplierClaim[] = [];
+    for (const [asnId, varianceIds] of byAsn) {
+      claims.push(await this.claimVariances(asnId, varianceIds, createdById));
+    }
+
+    return { claims, varianceCount: variances.length };
+  }
+
+  /**
+   * Get supplier claims with pagination
+   */
+  async getClaims(params: GetSupplierClaimsParams) {
+    const { tenantId, warehouseId, supplierId, asnId, status, page = 1, limit = 20 } = params;
+
+    const where: Prisma.SupplierClaimWhereInput = {
+      tenantId,
+      ...(warehouseId && { warehouseId }),
+      ...(supplierId && { supplierId }),
+      ...(asnId && { asnId }),
+      ...(status && { status }),
+    };
+
+    const [claims, total] = await Promise.all([
+      prisma.supplierClaim.findMany({
+        where,
+        include: {
+          supplier: { select: { id: true, code: true, name: true } },
+          asn: { select: { id: true, asnNumber: true } },
+          _count: { select: { lines: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      prisma.supplierClaim.count({ where }),
+    ]);
+
+    return {
+      data: claims,
+      pagination: {
+        total,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  /**
+   * Get supplier claim by ID with its lines
+   */
+  async getClaimById(id: string, tenantId: string) {
+    const claim = await prisma.supplierClaim.findFirst({
+      where: { id, tenantId },
+      include: CLAIM_INCLUDE,
+    });
+
+    if (!claim) {
+      throw new AppError('Supplier claim not found', 404);
+    }
+
+    return claim;
+  }
+
+  /**
+   * Override a line's unit cost, e.g. with the negotiated purchase price
+   */
+  async overrideLineCost(
+    claimId: string,
+    lineId: string,
+    tenantId: string,
+    unitCost: number,
+    overrideReason: string
+  ) {
+    const claim = await this.getClaimById(claimId, tenantId);
+
+    if (!EDITABLE_STATUSES.includes(claim.status)) {
+      throw new AppError(`Lines of a ${claim.status} claim cannot be changed`, 400);
+    }
+
+    const line = claim.lines.find((l) => l.id === lineId);
+    if (!line) {
+      throw new AppError('Claim line not found', 404);
+    }
+
+    await prisma.supplierClaimLine.update({
+      where: { id: lineId },
+      data: {
+        unitCost,
+        unitCostOverridden: true,
+        overrideReason,
+        amount: roundMoney(line.quantity.toNumber() * unitCost),
+      },
+    });
+    await this.updateTotal(claimId);
+
+    return this.getClaimById(claimId, tenantId);
+  }
+
+  /**
+   * Send the claim to the supplier, numbering its debit note on first send
+   */
+  async send(id: string, tenantId: string, sentById: string, notes?: string) {
+    const claim = await this.getClaimById(id, tenantId);
+    this.assertTransition(claim, 'SENT');
+
+    if (claim.lines.length === 0 || claim.totalAmount.lte(0)) {
+      throw new AppError('Claim has no value to send', 400);
+    }
+
+    let debitNoteNumber = claim.debitNoteNumber;
+    if (!debitNoteNumber) {
+      const last = await prisma.supplierClaim.findFirst({
+        where: { tenantId, debitNoteNumber: { not: null } },
+        orderBy: { debitNoteNumber: 'desc' },
+      });
+      debitNoteNumber = generateSequentialNumber('DN', last?.debitNoteNumber ?? undefined);
+    }
+
+    return prisma.supplierClaim.update({
+      where: { id },
+      data: {
+        status: 'SENT',
+        draftAsnId: null,
+        debitNoteNumber,
+        sentById,
+        sentAt: new Date(),
+        disputeReason: null,
+        ...(notes !== undefined && { notes }),
+      },
+      include: CLAIM_INCLUDE,
+    });
+  }
+
+  /**
+   * Record the supplier's acknowledgement of the claim
+   */
+  async acknowledge(id: string, tenantId: string) {
+    const claim = await this.getClaimById(id, tenantId);
+    this.assertTransition(claim, 'ACKNOWLEDGED');
+
+    return prisma.supplierClaim.update({
+      where: { id },
+      data: { status: 'ACKNOWLEDGED', acknowledgedAt: new Date() },
+      include: CLAIM_INCLUDE,
+    });
+  }
+
+  /**
+   * Record that the supplier disputes the claim. Lines can then be revalued
+   * and the claim sent again.
+   */
+  async dispute(id: string, tenantId: string, disputeReason: string) {
+    const claim = await this.getClaimById(id, tenantId);
+    this.assertTransition(claim, 'DISPUTED');
+
+    return prisma.supplierClaim.update({
+      where: { id },
+      data: { status: 'DISPUTED', disputeReason, disputedAt: new Date() },
+      include: CLAIM_INCLUDE,
+    });
+  }
+
+  /**
+   * Close the claim with the credit the supplier issued, which may be less
+   * than claimed
+   */
+  async credit(id: string, tenantId: string, creditedAmount: number, creditReference?: string) {
+    const claim = await this.getClaimById(id, tenantId);
+    this.assertTransition(claim, 'CREDITED');
+
+    if (creditedAmount > claim.totalAmount.toNumber()) {
+      throw new AppError(`Credit exceeds the claimed ${claim.totalAmount.toFixed(2)}`, 400);
+    }
+
+    return prisma.supplierClaim.update({
+      where: { id },
+      data: { status: 'CREDITED', creditedAmount, creditReference, creditedAt: new Date() },
+      include: CLAIM_INCLUDE,
+    });
+  }
+
+  /**
+   * Outstanding claim value per supplier, largest first. Drafts are
+   * reported separately as value not yet claimed.
+   */
+  async getOutstandingBySupplier(tenantId: string, warehouseId?: string) {
+    const claims = await prisma.supplierClaim.findMany({
+      where: {
+        tenantId,
+        ...(warehouseId && { warehouseId }),
+        status: { in: [...OUTSTANDING_STATUSES, 'DRAFT'] },
+      },
+      select: {
+        status: true,
+        totalAmount: true,
+        sentAt: true,
+        supplier: { select: { id: true, code: true, name: true } },
+      },
+    });
+
+    const now = Date.now();
+    const suppliers = new Map<
+      string,
+      {
+        supplier: { id: string; code: string; name: string };
+        outstandingClaims: number;
+        outstandingAmount: number;
+        byStatus: Record<string, { count: number; amount: number }>;
+        oldestSentAt: Date | null;
+        oldestAgeDays: number | null;
+        draftClaims: number;
+        draftAmount: number;
+      }
+    >();
+
+    for (const claim of claims) {
+      const row = suppliers.get(claim.supplier.id) ?? {
+        supplier: claim.supplier,
+        outstandingClaims: 0,
+        outstandingAmount: 0,
+        byStatus: {},
+        oldestSentAt: null,
+        oldestAgeDays: null,
+        draftClaims: 0,
+        draftAmount: 0,
+      };
+      const amount = claim.totalAmount.toNumber();
+
+      if (claim.status === 'DRAFT') {
+        row.draftClaims++;
+        row.draftAmount = roundMoney(row.draftAmount + amount);
+      } else {
+        row.outstandingClaims++;
+        row.outstandingAmount = roundMoney(row.outstandingAmount + amount);
+        const status = row.byStatus[claim.status] ?? { count: 0, amount: 0 };
+        row.byStatus[claim.status] = { count: status.count + 1, amount: roundMoney(status.amount + amount) };
+
+        if (claim.sentAt && (!row.oldestSentAt || claim.sentAt < row.oldestSentAt)) {
+          row.oldestSentAt = claim.sentAt;
+          row.oldestAgeDays = Math.floor((now - claim.sentAt.getTime()) / (24 * 60 * 60 * 1000));
+        }
+      }
+
+      suppliers.set(claim.supplier.id, row);
+    }
+
+    const data = [...suppliers.values()].sort(
+      (a, b) => b.outstandingAmount - a.outstandingAmount || b.draftAmount - a.draftAmount
+    );
+
+    return {
+      data,
+      totals: {
+        outstandingClaims: data.reduce((total, row) => total + row.outstandingClaims, 0),
+        outstandingAmount: roundMoney(data.reduce((total, row) => total + row.outstandingAmount, 0)),
+        draftAmount: roundMoney(data.reduce((total, row) => total + row.draftAmount, 0)),
+      },
+    };
+  }
+
+  /**
+   * Render the claim's debit note. Only sent claims have one.
+   */
+  async getDebitNote(id: string, tenantId: string): Promise<{ filename: string; content: Buffer }> {
+    const claim = await this.getClaimById(id, tenantId);
+
+    if (!claim.debitNoteNumber) {
+      throw new AppError('Debit note is issued when the claim is sent', 400);
+    }
+
+    const tenant = await prisma.tenant.findUniqueOrThrow({ where: { id: tenantId }, select: { name: true } });
+
+    const doc = new PdfDocument(claim.debitNoteNumber)
+      .text(`Debit Note ${claim.debitNoteNumber}`, { size: 16, bold: true, spacing: 8 })
+      .keyValues([
+        ['From', `${tenant.name} - ${claim.warehouse.name}`],
+        ['To', `${claim.supplier.name} (${claim.supplier.code})`],
+        ...(claim.supplier.contactName ? [['Attention', claim.supplier.contactName] as [string, string]] : []),
+        ['Claim', claim.claimNumber],
+        ['Date', formatDate(claim.sentAt ?? new Date())],
+        ['ASN', claim.asn.asnNumber],
+        ...(claim.asn.poNumber ? [['PO', claim.asn.poNumber] as [string, string]] : []),
+        ...(claim.asn.actualArrivalDate
+          ? [['Received', formatDate(claim.asn.actualArrivalDate)] as [string, string]]
+          : []),
+      ])
+      .rule()
+      .space(6)
+      .table(
+        [
+          { header: 'SKU', width: 85 },
+          { header: 'Description', width: 160 },
+          { header: 'Reason', width: 80 },
+          { header: 'Qty', width: 50, align: 'right' },
+          { header: 'Unit cost', width: 65, align: 'right' },
+          { header: 'Amount', width: 75, align: 'right' },
+        ],
+        claim.lines.map((line) => [
+          line.skuCode,
+          line.productName,
+          line.varianceType.replace(/_/g, ' '),
+          line.quantity.toString(),
+          line.unitCost.toFixed(2),
+          line.amount.toFixed(2),
+        ])
+      )
+      .rule()
+      .keyValues([['Total claimed', claim.totalAmount.toFixed(2)]]);
+
+    if (claim.notes) {
+      doc.space(6).keyValues([['Notes', claim.notes]]);
+    }
+
+    doc
+      .space(10)
+      .text('Please issue a credit note for the amount above, quoting this debit note number.', { size: 9 });
+
+    return { filename: `${claim.debitNoteNumber}.pdf`, content: doc.toBuffer() };
+  }
+
+  /**
+   * Add variances of one ASN to its open draft claim, creating the claim if
+   * there is none, and revalue the total
+   */
+  private async claimVariances(asnId: string, varianceIds: string[], createdById: string): Promise<SupplierClaim> {
+    const asn = await prisma.aSN.findUniqueOrThrow({
+      where: { id: asnId },
+      select: { id: true, tenantId: true, warehouseId: true, supplierId: true },
+    });
+
+    const variances = await prisma.variance.findMany({
+      where: { id: { in: varianceIds }, claimLine: { is: null } },
+      include: {
+        sku: { select: { unitCost: true } },
+        resolutions: {
+          where: { status: 'APPLIED' },
+          orderBy: { appliedAt: 'desc' },
+          take: 1,
+          select: { quantity: true },
+        },
+      },
+    });
+
+    return prisma.$transaction(async (tx) => {
+      // Drafts opened before draftAsnId existed are picked up by status;
+      // new drafts are keyed on the ASN so concurrent callers share one
+      let claim = await tx.supplierClaim.findFirst({
+        where: { asnId, status: 'DRAFT' },
+      });
+
+      if (!claim) {
+        const last = await tx.supplierClaim.findFirst({
+          where: { tenantId: asn.tenantId },
+          orderBy: { createdAt: 'desc' },
+        });
+
+        claim = await tx.supplierClaim.upsert({
+          where: { draftAsnId: asnId },
+          update: {},
+          create: {
+            tenantId: asn.tenantId,
+            warehouseId: asn.warehouseId,
+            claimNumber: generateSequentialNumber('CLM', last?.claimNumber),
+            supplierId: asn.supplierId,
+            asnId,
+            draftAsnId: asnId,
+            createdById,
+          },
+        });
+      }
+
+      if (variances.length > 0) {
+        await tx.supplierClaimLine.createMany({
+          data: variances.map((variance) => {
+            const quantity = this.claimQuantity(variance, variance.resolutions[0]?.quantity ?? null);
+            const unitCost = variance.sku?.unitCost?.toNumber() ?? 0;
+            return {
+              claimId: claim!.id,
+              varianceId: variance.id,
+              skuId: variance.skuId,
+              skuCode: variance.skuCode,
+              productName: variance.productName,
+              varianceType: variance.varianceType,
+              quantity,
+              unitCost,
+              amount: roundMoney(quantity * unitCost),
+            };
+          }),
+          skipDuplicates: true,
+        });
+      }
+
+      return this.updateTotal(claim.id, tx);
+    });
+  }
+
+  /**
+   * Units the supplier is charged for: the shortfall for a shortage, and
+   * for damaged or wrong items the units returned or written off by the
+   * applied resolution, or else every unit received against the variance
+   */
+  private claimQuantity(variance: Variance, resolvedQuantity: Prisma.Decimal | null): number {
+    if (variance.varianceType === 'SHORTAGE') {
+      return Math.abs(variance.varianceQuantity.toNumber());
+    }
+
+    return resolvedQuantity?.toNumber() || variance.receivedQuantity.toNumber();
+  }
+
+  private async updateTotal(
+    claimId: string,
+    client: Prisma.TransactionClient = prisma
+  ): Promise<SupplierClaim> {
+    const total = await client.supplierClaimLine.aggregate({
+      where: { claimId },
+      _sum: { amount: true },
+    });
+
+    return client.supplierClaim.update({
+      where: { id: claimId },
+      data: { totalAmount: total._sum.amount ?? 0 },
+    });
+  }
+
+  private assertTransition(claim: SupplierClaim, to: SupplierClaimStatus): void {
+    if (!CLAIM_TRANSITIONS[claim.status].includes(to)) {
+      throw new AppError(`Cannot move a ${claim.status} claim to ${to}`, 400);
+    }
+  }
+}
+
+export default new SupplierClaimService();
@@ -0,0 +1,514 @@
+import { Prisma, SupplierScorecardConfig, VarianceType } from '@prisma/client';
+import { stringify } from 'csv-stringify/sync';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { formatDate, startOfWeek, startOfMonth } from '../utils/helpers';
+import { PdfDocument } from '../utils/pdf';
+
+export type ScorecardWeights = Pick<
+  SupplierScorecardConfig,
+  | 'onTimeWeight'
+  | 'fillRateWeight'
+  | 'damageWeight'
+  | 'wrongItemWeight'
+  | 'temperatureWeight'
+  | 'labellingWeight'
+  | 'onTimeGraceHours'
+>;
+
+export interface ScorecardParams {
+  tenantId: string;
+  warehouseId?: string;
+  dateFrom?: Date;
+  dateTo?: Date;
+}
+
+/**
+ * Rates are percentages (0-100); null when the period has nothing to measure
+ */
+export interface SupplierMetrics {
+  asnCount: number;
+  arrivedCount: number;
+  onTimeCount: number;
+  lateCount: number;
+  onTimeRate: number | null;
+  expectedUnits: number;
+  receivedUnits: number;
+  fillRate: number | null;
+  linesReceived: number;
+  damagedLines: number;
+  wrongItemLines: number;
+  temperatureViolations: number;
+  missingLabelLines: number;
+  damageRate: number | null;
+  wrongItemRate: number | null;
+  temperatureViolationRate: number | null;
+  labellingComplianceRate: number | null;
+  compositeScore: number | null;
+}
+
+export interface TrendPoint extends SupplierMetrics {
+  period: string;
+  periodStart: Date;
+}
+
+type ScorecardASN = Prisma.ASNGetPayload<{
+  select: {
+    id: true;
+    supplierId: true;
+    expectedArrivalDate: true;
+    actualArrivalDate: true;
+    receivedAt: true;
+    shipmentStatus: true;
+    lines: { select: { id: true; expectedQuantity: true; receivedQuantity: true } };
+  };
+}>;
+
+type ScorecardVariance = { asnId: string | null; receiptLineId: string | null; varianceType: VarianceType };
+
+const DEFAULT_WEIGHTS: ScorecardWeights = {
+  onTimeWeight: 25,
+  fillRateWeight: 25,
+  damageWeight: 15,
+  wrongItemWeight: 15,
+  temperatureWeight: 10,
+  labellingWeight: 10,
+  onTimeGraceHours: 24,
+};
+
+const SCORED_VARIANCE_TYPES: VarianceType[] = [
+  'DAMAGED',
+  'WRONG_ITEM',
+  'TEMPERATURE_VIOLATION',
+  'MISSING_LABEL',
+];
+
+const DEFAULT_PERIOD_DAYS = 90;
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const rate = (numerator: number, denominator: number): number | null =>
+  denominator > 0 ? round((numerator / denominator) * 100) : null;
+
+export class SupplierScorecardService {
+  /**
+   * Get the tenant's scorecard weights, falling back to defaults
+   */
+  async getConfig(tenantId: string): Promise<ScorecardWeights> {
+    const config = await prisma.supplierScorecardConfig.findUnique({
+      where: { tenantId },
+    });
+
+    return config || { ...DEFAULT_WEIGHTS };
+  }
+
+  /**
+   * Update the tenant's scorecard weights
+   */
+  async updateConfig(
+    tenantId: string,
+    data: Partial<ScorecardWeights>,
+    updatedById: string
+  ): Promise<SupplierScorecardConfig> {
+    const current = await this.getConfig(tenantId);
+    const merged = { ...current, ...data };
+
+    const totalWeight =
+      merged.onTimeWeight +
+      merged.fillRateWeight +
+      merged.damageWeight +
+      merged.wrongItemWeight +
+      merged.temperatureWeight +
+      merged.labellingWeight;
+
+    if (totalWeight <= 0) {
+      throw new AppError('At least one scorecard weight must be greater than zero', 400);
+    }
+
+    return prisma.supplierScorecardConfig.upsert({
+      where: { tenantId },
+      create: { ...DEFAULT_WEIGHTS, ...data, tenantId, updatedById },
+      update: { ...data, updatedById },
+    });
+  }
+
+  /**
+   * Scorecards for all suppliers with ASNs due in the period, best first
+   */
+  async getScorecards(params: ScorecardParams) {
+    const { dateFrom, dateTo } = this.resolvePeriod(params);
+    const weights = await this.getConfig(params.tenantId);
+    const { asns, variances } = await this.loadReceipts({ ...params, dateFrom, dateTo });
+
+    const suppliers = await prisma.supplier.findMany({
+      where: {
+        tenantId: params.tenantId,
+        id: { in: [...new Set(asns.map((asn) => asn.supplierId))] },
+      },
+      select: { id: true, code: true, name: true },
+    });
+
+    const data = suppliers
+      .map((supplier) => {
+        const supplierAsns = asns.filter((asn) => asn.supplierId === supplier.id);
+        return {
+          supplier,
+          metrics: this.computeMetrics(supplierAsns, variances, weights),
+        };
+      })
+      .sort((a, b) => (b.metrics.compositeScore ?? -1) - (a.metrics.compositeScore ?? -1));
+
+    return {
+      period: { dateFrom, dateTo },
+      weights,
+      data,
+    };
+  }
+
+  /**
+   * Scorecard for one supplier with weekly and monthly trend series
+   */
+  async getSupplierScorecard(supplierId: string, params: ScorecardParams) {
+    const supplier = await prisma.supplier.findFirst({
+      where: { id: supplierId, tenantId: params.tenantId },
+      select: { id: true, code: true, name: true, contactName: true, contactEmail: true },
+    });
+
+    if (!supplier) {
+      throw new AppError('Supplier not found', 404);
+    }
+
+    const { dateFrom, dateTo } = this.resolvePeriod(params);
+    const weights = await this.getConfig(params.tenantId);
+    const { asns, variances } = await this.loadReceipts({
+      ...params,
+      dateFrom,
+      dateTo,
+      supplierId,
+    });
+
+    return {
+      supplier,
+      period: { dateFrom, dateTo },
+      weights,
+      metrics: this.computeMetrics(asns, variances, weights),
+      trends: {
+        weekly: this.buildTrend(asns, variances, weights, startOfWeek),
+        monthly: this.buildTrend(asns, variances, weights, startOfMonth),
+      },
+    };
+  }
+
+  /**
+   * Export scorecards as CSV or PDF. With a supplierId the export contains
+   * that supplier's weekly and monthly trend instead of the ranking.
+   */
+  async exportScorecards(
+    params: ScorecardParams & { supplierId?: string },
+    format: 'csv' | 'pdf'
+  ): Promise<{ filename: string; contentType: string; content: Buffer }> {
+    const stamp = formatDate(new Date());
+
+    if (params.supplierId) {
+      const scorecard = await this.getSupplierScorecard(params.supplierId, params);
+      const rows = [
+        { label: 'Period total', metrics: scorecard.metrics },
+        ...scorecard.trends.monthly.map((point) => ({ label: `Month ${point.period}`, metrics: point })),
+        ...scorecard.trends.weekly.map((point) => ({ label: `Week of ${point.period}`, metrics: point })),
+      ];
+      const filename = `scorecard-${scorecard.supplier.code}-${stamp}.${format}`;
+
+      if (format === 'csv') {
+        return {
+          filename,
+          contentType: 'text/csv',
+          content: Buffer.from(this.toCsv(rows.map((row) => ({ Period: row.label, ...this.metricColumns(row.metrics) })))),
+        };
+      }
+
+      const doc = this.startPdf(`Supplier Scorecard - ${scorecard.supplier.name}`, scorecard.period, scorecard.weights);
+      doc.table(this.pdfColumns('Period'), rows.map((row) => this.pdfRow(row.label, row.metrics)));
+      return { filename, contentType: 'application/pdf', content: doc.toBuffer() };
+    }
+
+    const scorecards = await this.getScorecards(params);
+    const filename = `supplier-scorecards-${stamp}.${format}`;
+
+    if (format === 'csv') {
+      return {
+        filename,
+        contentType: 'text/csv',
+        content: Buffer.from(
+          this.toCsv(
+            scorecards.data.map((row) => ({
+              'Supplier Code': row.supplier.code,
+              'Supplier Name': row.supplier.name,
+              ...this.metricColumns(row.metrics),
+            }))
+          )
+        ),
+      };
+    }
+
+    const doc = this.startPdf('Supplier Scorecards', scorecards.period, scorecards.weights);
+    doc.table(
+      this.pdfColumns('Supplier'),
+      scorecards.data.map((row) => this.pdfRow(`${row.supplier.code} ${row.supplier.name}`, row.metrics))
+    );
+    return { filename, contentType: 'application/pdf', content: doc.toBuffer() };
+  }
+
+  /**
+   * Calculate scorecard metrics for a set of ASNs.
+   *
+   * On-time counts arrivals within the grace period of the expected date;
+   * ASNs that are overdue and still not arrived count as late. Fill rate
+   * caps each line at its expected quantity so overages do not mask
+   * shortages. Variance rates are per received line.
+   */
+  computeMetrics(
+    asns: ScorecardASN[],
+    variances: ScorecardVariance[],
+    weights: ScorecardWeights
+  ): SupplierMetrics {
+    const graceMs = weights.onTimeGraceHours * 60 * 60 * 1000;
+    const now = Date.now();
+    const asnIds = new Set(asns.map((asn) => asn.id));
+
+    let arrivedCount = 0;
+    let onTimeCount = 0;
+    let lateCount = 0;
+    let expectedUnits = 0;
+    let receivedUnits = 0;
+    let filledUnits = 0;
+    let linesReceived = 0;
+
+    for (const asn of asns) {
+      const due = asn.expectedArrivalDate.getTime() + graceMs;
+
+      if (asn.actualArrivalDate) {
+        arrivedCount++;
+        if (asn.actualArrivalDate.getTime() <= due) onTimeCount++;
+        else lateCount++;
+      } else if (due < now) {
+        lateCount++;
+      }
+
+      if (asn.receivedAt || asn.shipmentStatus === 'COMPLETED') {
+        for (const line of asn.lines) {
+          const expected = line.expectedQuantity.toNumber();
+          const received = line.receivedQuantity.toNumber();
+          expectedUnits += expected;
+          receivedUnits += received;
+          filledUnits += Math.min(received, expected);
+          linesReceived++;
+        }
+      }
+    }
+
+    const affectedLines = (type: VarianceType): number => {
+      const keys = new Set<string>();
+      variances
+        .filter((variance) => variance.varianceType === type && variance.asnId && asnIds.has(variance.asnId))
+        .forEach((variance, index) => keys.add(variance.receiptLineId || `${variance.asnId}:${index}`));
+      return keys.size;
+    };
+
+    const damagedLines = affectedLines('DAMAGED');
+    const wrongItemLines = affectedLines('WRONG_ITEM');
+    const temperatureViolations = affectedLines('TEMPERATURE_VIOLATION');
+    const missingLabelLines = affectedLines('MISSING_LABEL');
+
+    const damageRate = rate(damagedLines, linesReceived);
+    const wrongItemRate = rate(wrongItemLines, linesReceived);
+    const temperatureViolationRate = rate(temperatureViolations, linesReceived);
+    const labellingFailureRate = rate(missingLabelLines, linesReceived);
+
+    const metrics: SupplierMetrics = {
+      asnCount: asns.length,
+      arrivedCount,
+      onTimeCount,
+      lateCount,
+      onTimeRate: rate(onTimeCount, onTimeCount + lateCount),
+      expectedUnits: round(expectedUnits),
+      receivedUnits: round(receivedUnits),
+      fillRate: rate(filledUnits, expectedUnits),
+      linesReceived,
+      damagedLines,
+      wrongItemLines,
+      temperatureViolations,
+      missingLabelLines,
+      damageRate,
+      wrongItemRate,
+      temperatureViolationRate,
+      labellingComplianceRate: labellingFailureRate === null ? null : round(100 - labellingFailureRate),
+      compositeScore: null,
+    };
+
+    // Weighted average of the components that could be measured
+    const components: [number | null, number][] = [
+      [metrics.onTimeRate, weights.onTimeWeight],
+      [metrics.fillRate, weights.fillRateWeight],
+      [damageRate === null ? null : 100 - damageRate, weights.damageWeight],
+      [wrongItemRate === null ? null : 100 - wrongItemRate, weights.wrongItemWeight],
+      [temperatureViolationRate === null ? null : 100 - temperatureViolationRate, weights.temperatureWeight],
+      [metrics.labellingComplianceRate, weights.labellingWeight],
+    ];
+
+    const measured = components.filter(([score, weight]) => score !== null && weight > 0);
+    const totalWeight = measured.reduce((sum, [, weight]) => sum + weight, 0);
+    if (totalWeight > 0) {
+      metrics.compositeScore = round(
+        measured.reduce((sum, [score, weight]) => sum + score! * weight, 0) / totalWeight
+      );
+    }
+
+    return metrics;
+  }
+
+  private buildTrend(
+    asns: ScorecardASN[],
+    variances: ScorecardVariance[],
+    weights: ScorecardWeights,
+    bucketStart: (date: Date) => Date
+  ): TrendPoint[] {
+    const buckets = new Map<string, { start: Date; asns: ScorecardASN[] }>();
+
+    for (const asn of asns) {
+      const start = bucketStart(asn.expectedArrivalDate);
+      const key = formatDate(start);
+      if (!buckets.has(key)) buckets.set(key, { start, asns: [] });
+      buckets.get(key)!.asns.push(asn);
+    }
+
+    return [...buckets.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([key, bucket]) => ({
+        period: bucketStart === startOfMonth ? key.substring(0, 7) : key,
+        periodStart: bucket.start,
+        ...this.computeMetrics(bucket.asns, variances, weights),
+      }));
+  }
+
+  private resolvePeriod(params: ScorecardParams): { dateFrom: Date; dateTo: Date } {
+    const dateTo = params.dateTo || new Date();
+    const dateFrom =
+      params.dateFrom || new Date(dateTo.getTime() - DEFAULT_PERIOD_DAYS * 24 * 60 * 60 * 1000);
+
+    if (dateFrom > dateTo) {
+      throw new AppError('dateFrom must be before dateTo', 400);
+    }
+
+    return { dateFrom, dateTo };
+  }
+
+  private async loadReceipts(
+    params: ScorecardParams & { dateFrom: Date; dateTo: Date; supplierId?: string }
+  ): Promise<{ asns: ScorecardASN[]; variances: ScorecardVariance[] }> {
+    const asns = await prisma.aSN.findMany({
+      where: {
+        tenantId: params.tenantId,
+        ...(params.warehouseId && { warehouseId: params.warehouseId }),
+        ...(params.supplierId && { supplierId: params.supplierId }),
+        shipmentStatus: { not: 'CANCELLED' },
+        expectedArrivalDate: { gte: params.dateFrom, lte: params.dateTo },
+      },
+      select: {
+        id: true,
+        supplierId: true,
+        expectedArrivalDate: true,
+        actualArrivalDate: true,
+        receivedAt: true,
+        shipmentStatus: true,
+        lines: { select: { id: true, expectedQuantity: true, receivedQuantity: true } },
+      },
+    });
+
+    const variances = asns.length
+      ? await prisma.variance.findMany({
+          where: {
+            tenantId: params.tenantId,
+            asnId: { in: asns.map((asn) => asn.id) },
+            varianceType: { in: SCORED_VARIANCE_TYPES },
+            status: { not: 'REJECTED' },
+          },
+          select: { asnId: true, receiptLineId: true, varianceType: true },
+        })
+      : [];
+
+    return { asns, variances };
+  }
+
+  private metricColumns(metrics: SupplierMetrics): Record<string, string | number> {
+    const pct = (value: number | null) => (value === null ? '' : value);
+    return {
+      'Composite Score': pct(metrics.compositeScore),
+      ASNs: metrics.asnCount,
+      'On-Time %': pct(metrics.onTimeRate),
+      'Late ASNs': metrics.lateCount,
+      'Fill Rate %': pct(metrics.fillRate),
+      'Expected Units': metrics.expectedUnits,
+      'Received Units': metrics.receivedUnits,
+      'Lines Received': metrics.linesReceived,
+      'Damage %': pct(metrics.damageRate),
+      'Wrong Item %': pct(metrics.wrongItemRate),
+      'Temperature Violation %': pct(metrics.temperatureViolationRate),
+      'Labelling Compliance %': pct(metrics.labellingComplianceRate),
+    };
+  }
+
+  private toCsv(rows: Record<string, string | number>[]): string {
+    return stringify(rows, { header: true });
+  }
+
+  private startPdf(
+    title: string,
+    period: { dateFrom: Date; dateTo: Date },
+    weights: ScorecardWeights
+  ): PdfDocument {
+    return new PdfDocument(title)
+      .text(title, { size: 16, bold: true, spacing: 8 })
+      .keyValues([
+        ['Period', `${formatDate(period.dateFrom)} to ${formatDate(period.dateTo)}`],
+        ['Generated', new Date().toISOString()],
+        [
+          'Weights',
+          `On-time ${weights.onTimeWeight}, Fill ${weights.fillRateWeight}, Damage ${weights.damageWeight}, ` +
+            `Wrong item ${weights.wrongItemWeight}, Temperature ${weights.temperatureWeight}, Labelling ${weights.labellingWeight}`,
+        ],
+      ])
+      .rule()
+      .space(6);
+  }
+
+  private pdfColumns(firstHeader: string) {
+    return [
+      { header: firstHeader, width: 145 },
+      { header: 'Score', width: 45, align: 'right' as const },
+      { header: 'ASNs', width: 35, align: 'right' as const },
+      { header: 'On-time', width: 50, align: 'right' as const },
+      { header: 'Fill', width: 45, align: 'right' as const },
+      { header: 'Damage', width: 50, align: 'right' as const },
+      { header: 'Wrong', width: 45, align: 'right' as const },
+      { header: 'Temp', width: 45, align: 'right' as const },
+      { header: 'Labels', width: 55, align: 'right' as const },
+    ];
+  }
+
+  private pdfRow(label: string, metrics: SupplierMetrics): string[] {
+    const pct = (value: number | null) => (value === null ? '-' : `${value.toFixed(1)}%`);
+    return [
+      label,
+      metrics.compositeScore === null ? '-' : metrics.compositeScore.toFixed(1),
+      String(metrics.asnCount),
+      pct(metrics.onTimeRate),
+      pct(metrics.fillRate),
+      pct(metrics.damageRate),
+      pct(metrics.wrongItemRate),
+      pct(metrics.temperatureViolationRate),
+      pct(metrics.labellingComplianceRate),
+    ];
+  }
+}
+
+export default new SupplierScorecardService();
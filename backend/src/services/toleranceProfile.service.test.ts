@@ -0,0 +1,91 @@
+import { ReceivingToleranceProfile, ToleranceScope } from '@prisma/client';
+import prisma from '../config/database';
+import toleranceProfileService from './toleranceProfile.service';
+
+jest.mock('../config/database', () => ({
+  __esModule: true,
+  default: {
+    receivingToleranceProfile: { findMany: jest.fn() },
+  },
+}));
+
+const findMany = prisma.receivingToleranceProfile.findMany as jest.Mock;
+
+const profile = (scope: ToleranceScope, overTolerancePercent: number): ReceivingToleranceProfile =>
+  ({
+    id: `profile-${scope}`,
+    name: `${scope} profile`,
+    scope,
+    autoAcceptOverPercent: 1,
+    autoAcceptUnderPercent: 1,
+    autoAcceptQuantity: null,
+    autoAcceptValue: null,
+    overTolerancePercent,
+    underTolerancePercent: overTolerancePercent,
+    toleranceQuantity: null,
+    toleranceValue: null,
+    criticalPercent: 50,
+    criticalValue: 100000,
+  }) as unknown as ReceivingToleranceProfile;
+
+const target = { skuId: 'sku-1', skuCategory: 'FROZEN', supplierId: 'supplier-1' };
+
+// 8% over: a supervisor can approve it under a 10% tolerance but not under 5%
+const line = { expectedQuantity: 100, receivedQuantity: 108, unitCost: 2 };
+
+describe('ToleranceProfileService.evaluateLine', () => {
+  beforeEach(() => {
+    findMany.mockReset();
+  });
+
+  it.each([
+    ['SKU', [profile('TENANT', 5), profile('SUPPLIER', 5), profile('SKU_CATEGORY', 5), profile('SKU', 10)]],
+    ['SKU_CATEGORY', [profile('TENANT', 5), profile('SUPPLIER', 5), profile('SKU_CATEGORY', 10)]],
+    ['SUPPLIER', [profile('TENANT', 5), profile('SUPPLIER', 10)]],
+    ['TENANT', [profile('TENANT', 10)]],
+  ])('applies the %s profile ahead of any less specific one', async (scope, candidates) => {
+    findMany.mockResolvedValue(candidates);
+
+    const evaluation = await toleranceProfileService.evaluateLine('tenant-1', target, line);
+
+    expect(evaluation.profileId).toBe(`profile-${scope}`);
+    expect(evaluation.outcome).toBe('SUPERVISOR');
+    expect(evaluation.variancePercentage).toBeCloseTo(8);
+    expect(evaluation.varianceValue).toBe(16);
+  });
+
+  it('falls back to the environment defaults when no profile applies', async () => {
+    findMany.mockResolvedValue([]);
+
+    const evaluation = await toleranceProfileService.evaluateLine('tenant-1', target, line);
+
+    expect(evaluation.profileId).toBeNull();
+    expect(evaluation.profileName).toBe('Default');
+  });
+
+  it('only queries the scopes the line has a target for', async () => {
+    findMany.mockResolvedValue([profile('TENANT', 10)]);
+
+    await toleranceProfileService.evaluateLine('tenant-1', { supplierId: 'supplier-1' }, line);
+
+    expect(findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          tenantId: 'tenant-1',
+          isActive: true,
+          OR: [{ scope: 'SUPPLIER', supplierId: 'supplier-1' }, { scope: 'TENANT' }],
+        },
+      })
+    );
+  });
+
+  it('sends a variance outside the resolved tolerance to a manager', async () => {
+    findMany.mockResolvedValue([profile('TENANT', 10), profile('SKU', 5)]);
+
+    const evaluation = await toleranceProfileService.evaluateLine('tenant-1', target, line);
+
+    expect(evaluation.outcome).toBe('MANAGER');
+    expect(evaluation.priority).toBe('HIGH');
+    expect(evaluation.reasons).toContain('Outside SKU profile supervisor tolerance (over)');
+  });
+});
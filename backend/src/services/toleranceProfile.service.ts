@@ -0,0 +1,433 @@
+import {
+  Prisma,
+  ReceivingToleranceProfile,
+  ToleranceScope,
+  ApprovalLevel,
+  Priority,
+} from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+
+export interface ToleranceProfileInput {
+  tenantId: string;
+  name: string;
+  description?: string;
+  scope: ToleranceScope;
+  supplierId?: string;
+  skuCategory?: string;
+  skuId?: string;
+  autoAcceptOverPercent?: number;
+  autoAcceptUnderPercent?: number;
+  autoAcceptQuantity?: number | null;
+  autoAcceptValue?: number | null;
+  overTolerancePercent?: number;
+  underTolerancePercent?: number;
+  toleranceQuantity?: number | null;
+  toleranceValue?: number | null;
+  criticalPercent?: number;
+  criticalValue?: number;
+  isActive?: boolean;
+}
+
+export interface ToleranceTarget {
+  skuId?: string | null;
+  skuCategory?: string | null;
+  supplierId?: string | null;
+}
+
+/**
+ * Numeric view of a profile used for evaluation. Built either from a stored
+ * profile or from the VARIANCE_* environment defaults when none applies.
+ */
+export interface ToleranceRules {
+  profileId: string | null;
+  profileName: string;
+  scope: ToleranceScope | 'DEFAULT';
+  autoAcceptOverPercent: number;
+  autoAcceptUnderPercent: number;
+  autoAcceptQuantity: number | null;
+  autoAcceptValue: number | null;
+  overTolerancePercent: number;
+  underTolerancePercent: number;
+  toleranceQuantity: number | null;
+  toleranceValue: number | null;
+  criticalPercent: number;
+  criticalValue: number;
+}
+
+export type ToleranceOutcome = 'AUTO_ACCEPT' | 'SUPERVISOR' | 'MANAGER';
+
+export interface ToleranceEvaluation {
+  outcome: ToleranceOutcome;
+  approvalLevel: ApprovalLevel | null;
+  priority: Priority;
+  varianceQuantity: number;
+  variancePercentage: number;
+  varianceValue: number;
+  profileId: string | null;
+  profileName: string;
+  reasons: string[];
+}
+
+// Most specific scope wins
+const SCOPE_PRECEDENCE: ToleranceScope[] = ['SKU', 'SKU_CATEGORY', 'SUPPLIER', 'TENANT'];
+
+const toNumber = (value: Prisma.Decimal | number | null | undefined): number | null =>
+  value === null || value === undefined ? null : Number(value);
+
+export class ToleranceProfileService {
+  /**
+   * Create a tolerance profile
+   */
+  async createProfile(data: ToleranceProfileInput): Promise<ReceivingToleranceProfile> {
+    const target = await this.validateTarget(data.tenantId, data);
+    await this.assertNoActiveDuplicate(data.tenantId, data.scope, target);
+
+    return prisma.receivingToleranceProfile.create({
+      data: {
+        ...data,
+        ...target,
+      },
+    });
+  }
+
+  /**
+   * Get tolerance profiles
+   */
+  async getProfiles(params: {
+    tenantId: string;
+    scope?: ToleranceScope;
+    supplierId?: string;
+    skuId?: string;
+    includeInactive?: boolean;
+  }): Promise<ReceivingToleranceProfile[]> {
+    const { tenantId, scope, supplierId, skuId, includeInactive } = params;
+
+    return prisma.receivingToleranceProfile.findMany({
+      where: {
+        tenantId,
+        ...(scope && { scope }),
+        ...(supplierId && { supplierId }),
+        ...(skuId && { skuId }),
+        ...(!includeInactive && { isActive: true }),
+      },
+      include: {
+        supplier: { select: { id: true, code: true, name: true } },
+        sku: { select: { id: true, code: true, name: true } },
+      },
+      orderBy: [{ scope: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  /**
+   * Get tolerance profile by ID
+   */
+  async getProfileById(id: string, tenantId: string): Promise<ReceivingToleranceProfile> {
+    const profile = await prisma.receivingToleranceProfile.findFirst({
+      where: { id, tenantId },
+      include: {
+        supplier: { select: { id: true, code: true, name: true } },
+        sku: { select: { id: true, code: true, name: true } },
+      },
+    });
+
+    if (!profile) {
+      throw new AppError('Tolerance profile not found', 404);
+    }
+
+    return profile;
+  }
+
+  /**
+   * Update a tolerance profile. Scope and target cannot be changed;
+   * create a new profile instead.
+   */
+  async updateProfile(
+    id: string,
+    tenantId: string,
+    data: Partial<Omit<ToleranceProfileInput, 'tenantId' | 'scope' | 'supplierId' | 'skuCategory' | 'skuId'>>
+  ): Promise<ReceivingToleranceProfile> {
+    const profile = await this.getProfileById(id, tenantId);
+
+    if (data.isActive && !profile.isActive) {
+      await this.assertNoActiveDuplicate(tenantId, profile.scope, profile, id);
+    }
+
+    return prisma.receivingToleranceProfile.update({
+      where: { id },
+      data,
+    });
+  }
+
+  /**
+   * Deactivate a tolerance profile. Profiles are kept so existing
+   * variances still show which rules they were raised under.
+   */
+  async deactivateProfile(id: string, tenantId: string): Promise<ReceivingToleranceProfile> {
+    await this.getProfileById(id, tenantId);
+
+    return prisma.receivingToleranceProfile.update({
+      where: { id },
+      data: { isActive: false },
+    });
+  }
+
+  /**
+   * Resolve the rules that apply to a receipt line.
+   * Precedence: SKU > SKU category > supplier > tenant > environment defaults.
+   */
+  async resolveRules(tenantId: string, target: ToleranceTarget): Promise<ToleranceRules> {
+    const candidates = await prisma.receivingToleranceProfile.findMany({
+      where: {
+        tenantId,
+        isActive: true,
+        OR: [
+          ...(target.skuId ? [{ scope: 'SKU' as const, skuId: target.skuId }] : []),
+          ...(target.skuCategory
+            ? [{ scope: 'SKU_CATEGORY' as const, skuCategory: target.skuCategory }]
+            : []),
+          ...(target.supplierId ? [{ scope: 'SUPPLIER' as const, supplierId: target.supplierId }] : []),
+          { scope: 'TENANT' },
+        ],
+      },
+      orderBy: { updatedAt: 'desc' },
+    });
+
+    for (const scope of SCOPE_PRECEDENCE) {
+      const match = candidates.find((profile) => profile.scope === scope);
+      if (match) return this.toRules(match);
+    }
+
+    return this.getDefaultRules();
+  }
+
+  /**
+   * Built-in rules used when a tenant has not configured any profile
+   */
+  getDefaultRules(): ToleranceRules {
+    const autoAcceptPercent = parseFloat(process.env.VARIANCE_AUTO_APPROVE_PERCENTAGE || '2');
+    const tolerancePercent = parseFloat(process.env.VARIANCE_SUPERVISOR_REVIEW_PERCENTAGE || '10');
+
+    return {
+      profileId: null,
+      profileName: 'Default',
+      scope: 'DEFAULT',
+      autoAcceptOverPercent: autoAcceptPercent,
+      autoAcceptUnderPercent: autoAcceptPercent,
+      autoAcceptQuantity: null,
+      autoAcceptValue: parseFloat(process.env.VARIANCE_AUTO_APPROVE_VALUE || '100'),
+      overTolerancePercent: tolerancePercent,
+      underTolerancePercent: tolerancePercent,
+      toleranceQuantity: null,
+      toleranceValue: parseFloat(process.env.VARIANCE_MANAGER_APPROVAL_VALUE || '500'),
+      criticalPercent: 20,
+      criticalValue: 5000,
+    };
+  }
+
+  /**
+   * Evaluate a received quantity against tolerance rules.
+   *
+   * A variance falls inside a band when it is within the percentage OR the
+   * absolute quantity allowance, AND within the value cap (if set). Inside the
+   * auto-accept band the line is accepted without review; inside the tolerance
+   * band a supervisor approves; anything beyond needs a manager.
+   * Unplanned receipts (nothing expected) are judged on quantity and value only.
+   */
+  evaluate(
+    rules: ToleranceRules,
+    input: { expectedQuantity: number; receivedQuantity: number; unitCost: number }
+  ): ToleranceEvaluation {
+    const { expectedQuantity, receivedQuantity, unitCost } = input;
+    const varianceQuantity = receivedQuantity - expectedQuantity;
+    const absQuantity = Math.abs(varianceQuantity);
+    const variancePercentage =
+      expectedQuantity === 0 ? 0 : (varianceQuantity / expectedQuantity) * 100;
+    const absPercentage = Math.abs(variancePercentage);
+    const varianceValue = absQuantity * unitCost;
+    const isOver = varianceQuantity > 0;
+    const isUnplanned = expectedQuantity === 0;
+
+    const within = (percent: number, quantity: number | null, value: number | null) => {
+      const percentOk = !isUnplanned && absPercentage <= percent;
+      const quantityOk = quantity !== null && absQuantity <= quantity;
+      const valueOk = value === null || varianceValue <= value;
+      return (percentOk || quantityOk) && valueOk;
+    };
+
+    const base = {
+      varianceQuantity,
+      variancePercentage,
+      varianceValue,
+      profileId: rules.profileId,
+      profileName: rules.profileName,
+    };
+
+    if (varianceQuantity === 0) {
+      return { ...base, outcome: 'AUTO_ACCEPT', approvalLevel: null, priority: 'LOW', reasons: [] };
+    }
+
+    const direction = isOver ? 'over' : 'under';
+    const reasons: string[] = [];
+
+    if (
+      within(
+        isOver ? rules.autoAcceptOverPercent : rules.autoAcceptUnderPercent,
+        rules.autoAcceptQuantity,
+        rules.autoAcceptValue
+      )
+    ) {
+      return {
+        ...base,
+        outcome: 'AUTO_ACCEPT',
+        approvalLevel: null,
+        priority: 'LOW',
+        reasons: [`Within ${rules.profileName} auto-accept band (${direction})`],
+      };
+    }
+
+    reasons.push(`Outside ${rules.profileName} auto-accept band (${direction})`);
+
+    const withinTolerance = within(
+      isOver ? rules.overTolerancePercent : rules.underTolerancePercent,
+      rules.toleranceQuantity,
+      rules.toleranceValue
+    );
+
+    if (!withinTolerance) {
+      reasons.push(`Outside ${rules.profileName} supervisor tolerance (${direction})`);
+    }
+
+    const isCritical =
+      (!isUnplanned && absPercentage > rules.criticalPercent) || varianceValue > rules.criticalValue;
+    if (isCritical) {
+      reasons.push('Exceeds critical variance threshold');
+    }
+
+    let priority: Priority = 'MEDIUM';
+    if (isCritical) priority = 'CRITICAL';
+    else if (!withinTolerance) priority = 'HIGH';
+
+    return {
+      ...base,
+      outcome: withinTolerance ? 'SUPERVISOR' : 'MANAGER',
+      approvalLevel: withinTolerance ? 'SUPERVISOR' : 'MANAGER',
+      priority,
+      reasons,
+    };
+  }
+
+  /**
+   * Resolve the applicable rules and evaluate in one step
+   */
+  async evaluateLine(
+    tenantId: string,
+    target: ToleranceTarget,
+    input: { expectedQuantity: number; receivedQuantity: number; unitCost: number }
+  ): Promise<ToleranceEvaluation> {
+    const rules = await this.resolveRules(tenantId, target);
+    return this.evaluate(rules, input);
+  }
+
+  /**
+   * Preview how a quantity would be treated for a SKU/supplier
+   */
+  async simulate(
+    tenantId: string,
+    params: { skuId: string; supplierId?: string; expectedQuantity: number; receivedQuantity: number }
+  ): Promise<ToleranceEvaluation & { rules: ToleranceRules }> {
+    const sku = await prisma.sKU.findFirst({
+      where: { id: params.skuId, tenantId },
+    });
+
+    if (!sku) {
+      throw new AppError('SKU not found', 404);
+    }
+
+    const rules = await this.resolveRules(tenantId, {
+      skuId: sku.id,
+      skuCategory: sku.category,
+      supplierId: params.supplierId,
+    });
+
+    return {
+      ...this.evaluate(rules, {
+        expectedQuantity: params.expectedQuantity,
+        receivedQuantity: params.receivedQuantity,
+        unitCost: sku.unitCost?.toNumber() || 0,
+      }),
+      rules,
+    };
+  }
+
+  private toRules(profile: ReceivingToleranceProfile): ToleranceRules {
+    return {
+      profileId: profile.id,
+      profileName: profile.name,
+      scope: profile.scope,
+      autoAcceptOverPercent: Number(profile.autoAcceptOverPercent),
+      autoAcceptUnderPercent: Number(profile.autoAcceptUnderPercent),
+      autoAcceptQuantity: toNumber(profile.autoAcceptQuantity),
+      autoAcceptValue: toNumber(profile.autoAcceptValue),
+      overTolerancePercent: Number(profile.overTolerancePercent),
+      underTolerancePercent: Number(profile.underTolerancePercent),
+      toleranceQuantity: toNumber(profile.toleranceQuantity),
+      toleranceValue: toNumber(profile.toleranceValue),
+      criticalPercent: Number(profile.criticalPercent),
+      criticalValue: Number(profile.criticalValue),
+    };
+  }
+
+  /**
+   * Check the scope has exactly the target it needs and that the target exists
+   */
+  private async validateTarget(
+    tenantId: string,
+    data: Pick<ToleranceProfileInput, 'scope' | 'supplierId' | 'skuCategory' | 'skuId'>
+  ): Promise<ToleranceTarget> {
+    switch (data.scope) {
+      case 'SUPPLIER': {
+        if (!data.supplierId) throw new AppError('supplierId is required for SUPPLIER scope', 400);
+        const supplier = await prisma.supplier.findFirst({ where: { id: data.supplierId, tenantId } });
+        if (!supplier) throw new AppError('Supplier not found', 404);
+        return { supplierId: data.supplierId, skuCategory: null, skuId: null };
+      }
+      case 'SKU_CATEGORY':
+        if (!data.skuCategory) throw new AppError('skuCategory is required for SKU_CATEGORY scope', 400);
+        return { supplierId: null, skuCategory: data.skuCategory, skuId: null };
+      case 'SKU': {
+        if (!data.skuId) throw new AppError('skuId is required for SKU scope', 400);
+        const sku = await prisma.sKU.findFirst({ where: { id: data.skuId, tenantId } });
+        if (!sku) throw new AppError('SKU not found', 404);
+        return { supplierId: null, skuCategory: null, skuId: data.skuId };
+      }
+      default:
+        return { supplierId: null, skuCategory: null, skuId: null };
+    }
+  }
+
+  private async assertNoActiveDuplicate(
+    tenantId: string,
+    scope: ToleranceScope,
+    target: ToleranceTarget,
+    excludeId?: string
+  ): Promise<void> {
+    const existing = await prisma.receivingToleranceProfile.findFirst({
+      where: {
+        tenantId,
+        scope,
+        isActive: true,
+        supplierId: target.supplierId ?? null,
+        skuCategory: target.skuCategory ?? null,
+        skuId: target.skuId ?? null,
+        ...(excludeId && { id: { not: excludeId } }),
+      },
+    });
+
+    if (existing) {
+      throw new AppError(`An active ${scope} tolerance profile already exists: ${existing.name}`, 409);
+    }
+  }
+}
+
+export default new ToleranceProfileService();
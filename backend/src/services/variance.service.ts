@@ -1,6 +1,11 @@
-import { Variance, VarianceStatus, ResolutionAction, Prisma } from '@prisma/client';
+import { Variance, VarianceStatus, ResolutionAction, Prisma, UserRole } from '@prisma/client';
 import prisma from '../config/database';
 import { AppError } from '../middleware/errorHandler';
+import grnService from './grn.service';
+import supplierClaimService from './supplierClaim.service';
+import varianceSlaService from './varianceSla.service';
+import approvalService, { ApprovalSubject } from './approval.service';
+import varianceResolutionService, { ApplyResolutionInput } from './varianceResolution.service';
 
 export interface GetVariancesParams {
   tenantId: string;
@@ -18,11 +23,31 @@ export interface ResolveVarianceInput {
   varianceId: string;
   tenantId: string;
   reviewedById: string;
+  reviewerRole: UserRole;
   resolutionAction: ResolutionAction;
   supervisorNotes: string;
   adjustedQuantity?: number;
+  // Units to return to the supplier or write off
+  quantity?: number;
+  supplierId?: string;
 }
 
+/**
+ * Resolution approved at the first step of a multi-step approval chain,
+ * which the remaining steps approve as is
+ */
+interface ProposedResolution {
+  approvalRequestId: string;
+  action: ResolutionAction;
+  adjustedQuantity: number | null;
+  quantity: number | null;
+  supplierId: string | null;
+  proposedById: string;
+}
+
+// Escalated variances stay resolvable by the approver they were escalated to
+const RESOLVABLE_STATUSES: VarianceStatus[] = ['PENDING', 'UNDER_REVIEW', 'ESCALATED'];
+
 export class VarianceService {
   /**
    * Get variance by ID
@@ -245,44 +270,92 @@ export class VarianceService {
         id: input.varianceId,
         tenantId: input.tenantId,
       },
-      include: {
-        asn: true,
-      },
     });
 
     if (!variance) {
       throw new AppError('Variance not found', 404);
     }
 
-    if (variance.status !== 'PENDING' && variance.status !== 'UNDER_REVIEW') {
+    if (!RESOLVABLE_STATUSES.includes(variance.status)) {
       throw new AppError('Variance already resolved', 400);
     }
 
-    const resolvedVariance = await prisma.variance.update({
-      where: { id: input.varianceId },
-      data: {
-        status: 'APPROVED',
-        resolutionAction: input.resolutionAction,
-        supervisorNotes: input.supervisorNotes,
-        reviewedById: input.reviewedById,
-        reviewedAt: new Date(),
-        resolvedAt: new Date(),
-      },
-    });
+    const resolution = {
+      action: input.resolutionAction,
+      appliedById: input.reviewedById,
+      adjustedQuantity: input.adjustedQuantity,
+      quantity: input.quantity,
+      supplierId: input.supplierId,
+      notes: input.supervisorNotes,
+    };
 
-    // If adjusting quantity, update the corresponding ASN line or blind receipt line
-    if (input.adjustedQuantity !== undefined && variance.receiptLineId) {
-      if (variance.receiptType === 'ASN') {
-        await prisma.aSNLine.update({
-          where: { id: variance.receiptLineId },
+    // Refuse actions that cannot be carried out before recording a decision
+    await varianceResolutionService.validate(variance, resolution);
+
+    const proposal = variance.proposedResolution as unknown as ProposedResolution | null;
+
+    const { resolved, variance: resolvedVariance } = await prisma.$transaction(async (tx) => {
+      const approval = await approvalService.decide(
+        this.toApprovalSubject(variance),
+        { id: input.reviewedById, tenantId: input.tenantId, role: input.reviewerRole },
+        'APPROVED',
+        input.supervisorNotes,
+        tx
+      );
+
+      // Later steps of a chain confirm the resolution the first approver chose
+      const proposed = approval && proposal?.approvalRequestId === approval.id ? proposal : null;
+      if (proposed && !this.sameResolution(proposed, resolution)) {
+        throw new AppError(
+          `An earlier approver approved ${proposed.action} for this variance; approve the same resolution or reject it`,
+          409
+        );
+      }
+
+      // Further approvers in the chain still have to sign off
+      if (approval?.status === 'PENDING') {
+        return {
+          resolved: false,
+          variance: await tx.variance.update({
+            where: { id: input.varianceId },
+            data: {
+              status: variance.status === 'PENDING' ? 'UNDER_REVIEW' : variance.status,
+              reviewedById: input.reviewedById,
+              reviewedAt: new Date(),
+              ...(!proposed && {
+                proposedResolution: this.toProposal(approval.id, resolution) as unknown as Prisma.InputJsonValue,
+              }),
+            },
+          }),
+        };
+      }
+
+      await varianceResolutionService.apply(tx, variance, resolution);
+
+      return {
+        resolved: true,
+        variance: await tx.variance.update({
+          where: { id: input.varianceId },
           data: {
-            acceptedQuantity: input.adjustedQuantity,
-            lineStatus: 'COMPLETED',
+            status: 'APPROVED',
+            resolutionAction: input.resolutionAction,
+            supervisorNotes: input.supervisorNotes,
+            reviewedById: input.reviewedById,
+            reviewedAt: new Date(),
+            resolvedAt: new Date(),
           },
-        });
-      }
+        }),
+      };
+    });
+
+    if (!resolved) {
+      return resolvedVariance;
     }
 
+    await varianceResolutionService.refreshPurchaseOrder(resolvedVariance);
+    await grnService.amendForVariance(resolvedVariance, input.reviewedById);
+    await supplierClaimService.addVariance(resolvedVariance, input.reviewedById);
+
     return resolvedVariance;
   }
 
@@ -293,6 +366,7 @@ export class VarianceService {
     varianceId: string,
     tenantId: string,
     reviewedById: string,
+    reviewerRole: UserRole,
     supervisorNotes: string
   ): Promise<Variance> {
     const variance = await prisma.variance.findFirst({
@@ -306,33 +380,41 @@ export class VarianceService {
       throw new AppError('Variance not found', 404);
     }
 
-    if (variance.status !== 'PENDING' && variance.status !== 'UNDER_REVIEW') {
+    if (!RESOLVABLE_STATUSES.includes(variance.status)) {
       throw new AppError('Variance already resolved', 400);
     }
 
-    const rejectedVariance = await prisma.variance.update({
-      where: { id: varianceId },
-      data: {
-        status: 'REJECTED',
-        resolutionAction: 'REJECT_LINE',
+    // The receipt line goes back to the receiver for correction
+    const rejectedVariance = await prisma.$transaction(async (tx) => {
+      await approvalService.decide(
+        this.toApprovalSubject(variance),
+        { id: reviewedById, tenantId, role: reviewerRole },
+        'REJECTED',
         supervisorNotes,
-        reviewedById,
-        reviewedAt: new Date(),
-        resolvedAt: new Date(),
-      },
+        tx
+      );
+
+      await varianceResolutionService.apply(tx, variance, {
+        action: 'REJECT_LINE',
+        appliedById: reviewedById,
+        notes: supervisorNotes,
+      });
+
+      return tx.variance.update({
+        where: { id: varianceId },
+        data: {
+          status: 'REJECTED',
+          resolutionAction: 'REJECT_LINE',
+          supervisorNotes,
+          reviewedById,
+          reviewedAt: new Date(),
+          resolvedAt: new Date(),
+        },
+      });
     });
 
-    // Update corresponding receipt line to correction needed
-    if (variance.receiptLineId) {
-      if (variance.receiptType === 'ASN') {
-        await prisma.aSNLine.update({
-          where: { id: variance.receiptLineId },
-          data: {
-            lineStatus: 'CORRECTION_NEEDED',
-          },
-        });
-      }
-    }
+    await varianceResolutionService.refreshPurchaseOrder(rejectedVariance);
+    await grnService.amendForVariance(rejectedVariance, reviewedById);
 
     return rejectedVariance;
   }
@@ -357,6 +439,12 @@ export class VarianceService {
       throw new AppError('Variance not found', 404);
     }
 
+    // Route the variance again so the new approver can act on it
+    await approvalService.cancel('VARIANCE', varianceId, tenantId);
+
+    // The new approver gets a fresh SLA window
+    const slaDueAt = await varianceSlaService.getDueAt(tenantId, variance.priority, new Date());
+
     return prisma.variance.update({
       where: { id: varianceId },
       data: {
@@ -364,6 +452,7 @@ export class VarianceService {
         escalatedToId,
         escalatedAt: new Date(),
         supervisorNotes: escalationNotes,
+        ...(slaDueAt && { slaDueAt, slaWarnedAt: null }),
       },
     });
   }
@@ -386,6 +475,44 @@ export class VarianceService {
     });
   }
 
+  /**
+   * Facts the approval engine routes a variance on
+   */
+  private toProposal(approvalRequestId: string, resolution: ApplyResolutionInput): ProposedResolution {
+    return {
+      approvalRequestId,
+      action: resolution.action,
+      adjustedQuantity: resolution.adjustedQuantity ?? null,
+      quantity: resolution.quantity ?? null,
+      supplierId: resolution.supplierId ?? null,
+      proposedById: resolution.appliedById,
+    };
+  }
+
+  private sameResolution(proposed: ProposedResolution, resolution: ApplyResolutionInput): boolean {
+    return (
+      proposed.action === resolution.action &&
+      proposed.adjustedQuantity === (resolution.adjustedQuantity ?? null) &&
+      proposed.quantity === (resolution.quantity ?? null) &&
+      proposed.supplierId === (resolution.supplierId ?? null)
+    );
+  }
+
+  private toApprovalSubject(variance: Variance): ApprovalSubject {
+    return {
+      tenantId: variance.tenantId,
+      documentType: 'VARIANCE',
+      documentId: variance.id,
+      documentNumber: variance.skuCode,
+      warehouseId: variance.warehouseId,
+      value: variance.varianceValue?.toNumber() ?? null,
+      percentage: variance.variancePercentage.toNumber(),
+      requestedById: variance.submittedById,
+      approvalLevel: variance.approvalLevel,
+      escalatedToId: variance.escalatedToId,
+    };
+  }
+
   /**
    * Calculate average resolution time
    */
@@ -480,6 +607,92 @@ export class VarianceService {
       .sort((a: any, b: any) => b.varianceCount - a.varianceCount)
       .slice(0, limit);
   }
+
+  /**
+   * Temperature excursions grouped by supplier and by carrier
+   */
+  async getTemperatureExcursionReport(params: {
+    tenantId: string;
+    warehouseId?: string;
+    dateFrom?: Date;
+    dateTo?: Date;
+  }) {
+    const { tenantId, warehouseId, dateFrom, dateTo } = params;
+
+    const excursions = await prisma.variance.findMany({
+      where: {
+        tenantId,
+        varianceType: 'TEMPERATURE_VIOLATION',
+        ...(warehouseId && { warehouseId }),
+        ...((dateFrom || dateTo) && {
+          submittedAt: {
+            ...(dateFrom && { gte: dateFrom }),
+            ...(dateTo && { lte: dateTo }),
+          },
+        }),
+      },
+      include: {
+        asn: { select: { asnNumber: true, carrier: true, supplier: { select: { id: true, name: true } } } },
+        blindReceipt: { select: { receiptNumber: true, carrier: true, supplierName: true } },
+      },
+      orderBy: { submittedAt: 'desc' },
+    });
+
+    const rows = excursions.map((variance) => {
+      const reading = variance.temperatureReading?.toNumber() ?? null;
+      const min = variance.temperatureLimitMin?.toNumber() ?? null;
+      const max = variance.temperatureLimitMax?.toNumber() ?? null;
+      let deviation = 0;
+      if (reading !== null && min !== null && reading < min) deviation = min - reading;
+      if (reading !== null && max !== null && reading > max) deviation = reading - max;
+
+      return {
+        id: variance.id,
+        receiptNumber: variance.asn?.asnNumber || variance.blindReceipt?.receiptNumber || null,
+        supplierName: variance.asn?.supplier.name || variance.blindReceipt?.supplierName || 'Unknown',
+        carrier: variance.asn?.carrier || variance.blindReceipt?.carrier || 'Unknown',
+        skuCode: variance.skuCode,
+        productName: variance.productName,
+        temperatureReading: reading,
+        temperatureLimitMin: min,
+        temperatureLimitMax: max,
+        deviation: Math.round(deviation * 100) / 100,
+        priority: variance.priority,
+        status: variance.status,
+        submittedAt: variance.submittedAt,
+      };
+    });
+
+    const groupBy = (key: 'supplierName' | 'carrier') => {
+      const groups = rows.reduce((acc, row) => {
+        const name = row[key];
+        if (!acc[name]) {
+          acc[name] = { name, excursions: 0, open: 0, critical: 0, maxDeviation: 0, totalDeviation: 0 };
+        }
+        acc[name].excursions++;
+        if (!['APPROVED', 'REJECTED'].includes(row.status)) acc[name].open++;
+        if (row.priority === 'CRITICAL') acc[name].critical++;
+        acc[name].maxDeviation = Math.max(acc[name].maxDeviation, row.deviation);
+        acc[name].totalDeviation += row.deviation;
+        return acc;
+      }, {} as Record<string, { name: string; excursions: number; open: number; critical: number; maxDeviation: number; totalDeviation: number }>);
+
+      return Object.values(groups)
+        .map(({ totalDeviation, ...group }) => ({
+          ...group,
+          averageDeviation: Math.round((totalDeviation / group.excursions) * 100) / 100,
+        }))
+        .sort((a, b) => b.excursions - a.excursions);
+    };
+
+    return {
+      totalExcursions: rows.length,
+      openExcursions: rows.filter((row) => !['APPROVED', 'REJECTED'].includes(row.status)).length,
+      bySupplier: groupBy('supplierName'),
+      byCarrier: groupBy('carrier'),
+      excursions: rows,
+    };
+  }
 }
 
 export default new VarianceService();
@@ -0,0 +1,718 @@
+import {
+  Prisma,
+  ReceivingShift,
+  UserRole,
+  VarianceAnalyticsDimension,
+  VarianceAnalyticsMetric,
+  VarianceReport,
+  VarianceStatus,
+  VarianceTrendInterval,
+  VarianceType,
+} from '@prisma/client';
+import { stringify } from 'csv-stringify/sync';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { formatDate, getZonedDateParts, startOfDay, startOfWeek, startOfMonth } from '../utils/helpers';
+
+export interface VarianceAnalyticsFilters {
+  warehouseId?: string;
+  receiptType?: 'ASN' | 'BLIND';
+  varianceTypes?: VarianceType[];
+  statuses?: VarianceStatus[];
+  dateFrom?: Date;
+  dateTo?: Date;
+  // Rolling window used when no dateFrom is given, e.g. by saved reports
+  periodDays?: number;
+}
+
+export interface ParetoRow {
+  key: string;
+  label: string;
+  count: number;
+  quantity: number;
+  value: number;
+  share: number;
+  cumulativeShare: number;
+  // Part of the few causes that make up the first 80% of the total
+  vitalFew: boolean;
+}
+
+export interface TrendPoint {
+  period: string;
+  periodStart: Date;
+  count: number;
+  quantity: number;
+  value: number;
+  // Metric per dimension key, for the top keys of the period
+  breakdown?: Record<string, number>;
+}
+
+export interface ShiftInput {
+  warehouseId?: string | null;
+  name: string;
+  startTime: string;
+  endTime: string;
+  timezone?: string;
+  isActive?: boolean;
+}
+
+export interface VarianceReportInput {
+  name: string;
+  description?: string;
+  dimension: VarianceAnalyticsDimension;
+  metric?: VarianceAnalyticsMetric;
+  interval?: VarianceTrendInterval;
+  filters?: Omit<VarianceAnalyticsFilters, 'dateFrom' | 'dateTo'> & { dateFrom?: string; dateTo?: string };
+  isShared?: boolean;
+}
+
+type AnalyticsActor = { id: string; tenantId: string; role: UserRole };
+
+type ShiftWindow = Pick<ReceivingShift, 'warehouseId' | 'name' | 'startTime' | 'endTime' | 'timezone'>;
+
+const analyticsSelect = Prisma.validator<Prisma.VarianceSelect>()({
+  id: true,
+  warehouseId: true,
+  receiptType: true,
+  skuId: true,
+  skuCode: true,
+  productName: true,
+  varianceType: true,
+  reasonCode: true,
+  varianceQuantity: true,
+  varianceValue: true,
+  status: true,
+  priority: true,
+  submittedAt: true,
+  submittedById: true,
+  submittedBy: { select: { firstName: true, lastName: true } },
+  asn: { select: { asnNumber: true, carrier: true, supplier: { select: { name: true } } } },
+  blindReceipt: { select: { receiptNumber: true, carrier: true, supplierName: true } },
+});
+
+type AnalyticsVariance = Prisma.VarianceGetPayload<{ select: typeof analyticsSelect }>;
+
+/**
+ * A variance flattened to the attributes it can be broken down by
+ */
+interface VarianceFacts {
+  id: string;
+  receiptType: string;
+  receiptNumber: string | null;
+  skuCode: string;
+  productName: string;
+  varianceType: VarianceType;
+  reasonCode: string;
+  quantity: number;
+  value: number;
+  status: VarianceStatus;
+  priority: string;
+  submittedAt: Date;
+  keys: Record<VarianceAnalyticsDimension, { key: string; label: string }>;
+}
+
+// Used until a tenant configures its own shifts
+const DEFAULT_SHIFTS: ShiftWindow[] = [
+  { warehouseId: null, name: 'Day', startTime: '06:00', endTime: '14:00', timezone: 'UTC' },
+  { warehouseId: null, name: 'Evening', startTime: '14:00', endTime: '22:00', timezone: 'UTC' },
+  { warehouseId: null, name: 'Night', startTime: '22:00', endTime: '06:00', timezone: 'UTC' },
+];
+
+const DEFAULT_PERIOD_DAYS = 90;
+
+const PARETO_THRESHOLD = 80;
+
+// Trend breakdowns show this many keys and fold the rest into "Other"
+const TREND_BREAKDOWN_KEYS = 5;
+
+const ADMIN_ROLES: UserRole[] = ['TENANT_ADMIN', 'PLATFORM_ADMIN'];
+
+const INTERVAL_START: Record<VarianceTrendInterval, (date: Date) => Date> = {
+  DAY: startOfDay,
+  WEEK: startOfWeek,
+  MONTH: startOfMonth,
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+const toMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map((n) => parseInt(n, 10));
+  return hours * 60 + minutes;
+};
+
+export class VarianceAnalyticsService {
+  /**
+   * Pareto breakdown of variances by one dimension, largest first, with
+   * each key's share and the running cumulative share
+   */
+  async getPareto(
+    tenantId: string,
+    filters: VarianceAnalyticsFilters,
+    dimension: VarianceAnalyticsDimension,
+    metric: VarianceAnalyticsMetric = 'COUNT'
+  ) {
+    const period = this.resolvePeriod(filters);
+    const facts = await this.loadFacts(tenantId, { ...filters, ...period });
+
+    return {
+      period,
+      dimension,
+      metric,
+      totals: this.totals(facts),
+      data: this.buildPareto(facts, dimension, metric),
+    };
+  }
+
+  /**
+   * Variance counts, quantities and values per day, week or month. With a
+   * dimension each point also breaks the metric down by the top keys.
+   */
+  async getTrends(
+    tenantId: string,
+    filters: VarianceAnalyticsFilters,
+    interval: VarianceTrendInterval = 'WEEK',
+    dimension?: VarianceAnalyticsDimension,
+    metric: VarianceAnalyticsMetric = 'COUNT'
+  ) {
+    const period = this.resolvePeriod(filters);
+    const facts = await this.loadFacts(tenantId, { ...filters, ...period });
+
+    return {
+      period,
+      interval,
+      dimension: dimension ?? null,
+      metric,
+      data: this.buildTrend(facts, interval, dimension, metric),
+    };
+  }
+
+  /**
+   * The individual variances behind one bar of a Pareto breakdown
+   */
+  async getDrillDown(
+    tenantId: string,
+    filters: VarianceAnalyticsFilters,
+    dimension: VarianceAnalyticsDimension,
+    key: string,
+    page = 1,
+    limit = 50
+  ) {
+    const period = this.resolvePeriod(filters);
+    const facts = (await this.loadFacts(tenantId, { ...filters, ...period }))
+      .filter((fact) => fact.keys[dimension].key === key)
+      .sort((a, b) => b.submittedAt.getTime() - a.submittedAt.getTime());
+
+    return {
+      period,
+      dimension,
+      key,
+      data: facts.slice((page - 1) * limit, page * limit).map((fact) => this.toRow(fact)),
+      pagination: {
+        total: facts.length,
+        page,
+        limit,
+        totalPages: Math.ceil(facts.length / limit),
+      },
+    };
+  }
+
+  /**
+   * Export a Pareto breakdown, trend or the matching variances as CSV
+   */
+  async exportCsv(
+    tenantId: string,
+    filters: VarianceAnalyticsFilters,
+    view: 'pareto' | 'trends' | 'variances',
+    options: {
+      dimension?: VarianceAnalyticsDimension;
+      metric?: VarianceAnalyticsMetric;
+      interval?: VarianceTrendInterval;
+      key?: string;
+    }
+  ): Promise<{ filename: string; contentType: string; content: Buffer }> {
+    const period = this.resolvePeriod(filters);
+    let facts = await this.loadFacts(tenantId, { ...filters, ...period });
+    const stamp = formatDate(new Date());
+    let rows: Record<string, string | number>[];
+
+    if (view === 'pareto') {
+      if (!options.dimension) {
+        throw new AppError('dimension is required for a Pareto export', 400);
+      }
+      rows = this.buildPareto(facts, options.dimension, options.metric ?? 'COUNT').map((row) => ({
+        [options.dimension!]: row.label,
+        Count: row.count,
+        Quantity: row.quantity,
+        Value: row.value,
+        'Share %': row.share,
+        'Cumulative %': row.cumulativeShare,
+        'Vital Few': row.vitalFew ? 'Yes' : 'No',
+      }));
+    } else if (view === 'trends') {
+      rows = this.buildTrend(facts, options.interval ?? 'WEEK', options.dimension, options.metric ?? 'COUNT').map(
+        (point) => ({
+          Period: point.period,
+          Count: point.count,
+          Quantity: point.quantity,
+          Value: point.value,
+          ...point.breakdown,
+        })
+      );
+    } else {
+      if (options.dimension && options.key) {
+        facts = facts.filter((fact) => fact.keys[options.dimension!].key === options.key);
+      }
+      rows = facts.map((fact) => {
+        const row = this.toRow(fact);
+        return {
+          'Submitted At': row.submittedAt.toISOString(),
+          'Receipt Type': row.receiptType,
+          'Receipt Number': row.receiptNumber ?? '',
+          'SKU Code': row.skuCode,
+          'Product Name': row.productName,
+          'Variance Type': row.varianceType,
+          'Reason Code': row.reasonCode,
+          Quantity: row.quantity,
+          Value: row.value,
+          Status: row.status,
+          Priority: row.priority,
+          Supplier: row.supplier,
+          Carrier: row.carrier,
+          Receiver: row.receiver,
+          Shift: row.shift,
+        };
+      });
+    }
+
+    return {
+      filename: `variance-${view}-${stamp}.csv`,
+      contentType: 'text/csv',
+      content: Buffer.from(stringify(rows, { header: true })),
+    };
+  }
+
+  /**
+   * Get receiving shifts, warehouse-specific shifts first
+   */
+  async getShifts(tenantId: string, warehouseId?: string): Promise<ReceivingShift[]> {
+    return prisma.receivingShift.findMany({
+      where: {
+        tenantId,
+        ...(warehouseId && { OR: [{ warehouseId }, { warehouseId: null }] }),
+      },
+      orderBy: [{ warehouseId: { sort: 'asc', nulls: 'last' } }, { startTime: 'asc' }],
+    });
+  }
+
+  /**
+   * Create a receiving shift
+   */
+  async createShift(tenantId: string, data: ShiftInput): Promise<ReceivingShift> {
+    this.validateShift(data);
+
+    const existing = await prisma.receivingShift.findFirst({
+      where: { tenantId, warehouseId: data.warehouseId ?? null, name: data.name },
+    });
+
+    if (existing) {
+      throw new AppError(`Shift ${data.name} already exists`, 409);
+    }
+
+    return prisma.receivingShift.create({
+      data: { ...data, tenantId },
+    });
+  }
+
+  /**
+   * Update a receiving shift
+   */
+  async updateShift(id: string, tenantId: string, data: Partial<ShiftInput>): Promise<ReceivingShift> {
+    const shift = await prisma.receivingShift.findFirst({ where: { id, tenantId } });
+
+    if (!shift) {
+      throw new AppError('Shift not found', 404);
+    }
+
+    this.validateShift({ ...shift, ...data });
+
+    return prisma.receivingShift.update({
+      where: { id },
+      data,
+    });
+  }
+
+  /**
+   * Delete a receiving shift
+   */
+  async deleteShift(id: string, tenantId: string): Promise<void> {
+    const shift = await prisma.receivingShift.findFirst({ where: { id, tenantId } });
+
+    if (!shift) {
+      throw new AppError('Shift not found', 404);
+    }
+
+    await prisma.receivingShift.delete({ where: { id } });
+  }
+
+  /**
+   * Get the user's own saved reports and those shared within the tenant
+   */
+  async getReports(actor: AnalyticsActor): Promise<VarianceReport[]> {
+    return prisma.varianceReport.findMany({
+      where: {
+        tenantId: actor.tenantId,
+        OR: [{ createdById: actor.id }, { isShared: true }],
+      },
+      include: { createdBy: { select: { id: true, firstName: true, lastName: true } } },
+      orderBy: { name: 'asc' },
+    });
+  }
+
+  /**
+   * Get a saved report
+   */
+  async getReportById(id: string, actor: AnalyticsActor): Promise<VarianceReport> {
+    const report = await prisma.varianceReport.findFirst({
+      where: {
+        id,
+        tenantId: actor.tenantId,
+        OR: [{ createdById: actor.id }, { isShared: true }],
+      },
+    });
+
+    if (!report) {
+      throw new AppError('Report not found', 404);
+    }
+
+    return report;
+  }
+
+  /**
+   * Save a report definition
+   */
+  async createReport(data: VarianceReportInput, actor: AnalyticsActor): Promise<VarianceReport> {
+    const existing = await prisma.varianceReport.findFirst({
+      where: { tenantId: actor.tenantId, createdById: actor.id, name: data.name },
+    });
+
+    if (existing) {
+      throw new AppError(`You already have a report named ${data.name}`, 409);
+    }
+
+    const { filters, ...definition } = data;
+
+    return prisma.varianceReport.create({
+      data: {
+        ...definition,
+        filters: (filters ?? {}) as Prisma.InputJsonValue,
+        tenantId: actor.tenantId,
+        createdById: actor.id,
+      },
+    });
+  }
+
+  /**
+   * Update a saved report. Only its owner or an admin may change it.
+   */
+  async updateReport(
+    id: string,
+    data: Partial<VarianceReportInput>,
+    actor: AnalyticsActor
+  ): Promise<VarianceReport> {
+    await this.getOwnedReport(id, actor);
+    const { filters, ...definition } = data;
+
+    return prisma.varianceReport.update({
+      where: { id },
+      data: {
+        ...definition,
+        ...(filters && { filters: filters as Prisma.InputJsonValue }),
+      },
+    });
+  }
+
+  /**
+   * Delete a saved report. Only its owner or an admin may delete it.
+   */
+  async deleteReport(id: string, actor: AnalyticsActor): Promise<void> {
+    await this.getOwnedReport(id, actor);
+    await prisma.varianceReport.delete({ where: { id } });
+  }
+
+  /**
+   * Run a saved report: its Pareto breakdown and trend
+   */
+  async runReport(id: string, actor: AnalyticsActor) {
+    const report = await this.getReportById(id, actor);
+    const filters = this.reportFilters(report);
+
+    const [pareto, trends] = await Promise.all([
+      this.getPareto(actor.tenantId, filters, report.dimension, report.metric),
+      this.getTrends(actor.tenantId, filters, report.interval, report.dimension, report.metric),
+    ]);
+
+    return { report, pareto, trends };
+  }
+
+  /**
+   * Export a saved report's Pareto breakdown, trend or variances as CSV
+   */
+  async exportReport(id: string, actor: AnalyticsActor, view: 'pareto' | 'trends' | 'variances') {
+    const report = await this.getReportById(id, actor);
+
+    return this.exportCsv(actor.tenantId, this.reportFilters(report), view, {
+      dimension: report.dimension,
+      metric: report.metric,
+      interval: report.interval,
+    });
+  }
+
+  private reportFilters(report: VarianceReport): VarianceAnalyticsFilters {
+    const stored = (report.filters ?? {}) as VarianceReportInput['filters'] & object;
+
+    return {
+      ...stored,
+      dateFrom: stored.dateFrom ? new Date(stored.dateFrom) : undefined,
+      dateTo: stored.dateTo ? new Date(stored.dateTo) : undefined,
+    };
+  }
+
+  private async getOwnedReport(id: string, actor: AnalyticsActor): Promise<VarianceReport> {
+    const report = await prisma.varianceReport.findFirst({
+      where: { id, tenantId: actor.tenantId },
+    });
+
+    if (!report) {
+      throw new AppError('Report not found', 404);
+    }
+
+    if (report.createdById !== actor.id && !ADMIN_ROLES.includes(actor.role)) {
+      throw new AppError('Only the owner of a report can change it', 403);
+    }
+
+    return report;
+  }
+
+  private validateShift(data: Pick<ShiftInput, 'startTime' | 'endTime' | 'timezone'>): void {
+    if (data.startTime === data.endTime) {
+      throw new AppError('A shift must end at a different time than it starts', 400);
+    }
+
+    try {
+      new Intl.DateTimeFormat('en-US', { timeZone: data.timezone || 'UTC' });
+    } catch {
+      throw new AppError(`Unknown time zone: ${data.timezone}`, 400);
+    }
+  }
+
+  private resolvePeriod(filters: VarianceAnalyticsFilters): { dateFrom: Date; dateTo: Date } {
+    const dateTo = filters.dateTo || new Date();
+    const days = filters.periodDays ?? DEFAULT_PERIOD_DAYS;
+    const dateFrom = filters.dateFrom || new Date(dateTo.getTime() - days * 24 * 60 * 60 * 1000);
+
+    if (dateFrom > dateTo) {
+      throw new AppError('dateFrom must be before dateTo', 400);
+    }
+
+    return { dateFrom, dateTo };
+  }
+
+  /**
+   * Load ASN and blind receipt variances in the period and resolve the
+   * key of each dimension
+   */
+  private async loadFacts(
+    tenantId: string,
+    filters: VarianceAnalyticsFilters & { dateFrom: Date; dateTo: Date }
+  ): Promise<VarianceFacts[]> {
+    const [variances, shifts] = await Promise.all([
+      prisma.variance.findMany({
+        where: {
+          tenantId,
+          receiptType: filters.receiptType ?? { in: ['ASN', 'BLIND'] },
+          submittedAt: { gte: filters.dateFrom, lte: filters.dateTo },
+          ...(filters.warehouseId && { warehouseId: filters.warehouseId }),
+          ...(filters.varianceTypes?.length && { varianceType: { in: filters.varianceTypes } }),
+          ...(filters.statuses?.length && { status: { in: filters.statuses } }),
+        },
+        select: analyticsSelect,
+      }),
+      prisma.receivingShift.findMany({
+        where: { tenantId, isActive: true },
+      }),
+    ]);
+
+    return variances.map((variance) => this.toFacts(variance, shifts));
+  }
+
+  private toFacts(variance: AnalyticsVariance, shifts: ShiftWindow[]): VarianceFacts {
+    const supplier = variance.asn?.supplier.name || variance.blindReceipt?.supplierName || 'Unknown';
+    const carrier = variance.asn?.carrier || variance.blindReceipt?.carrier || 'Unknown';
+    const receiver = `${variance.submittedBy.firstName} ${variance.submittedBy.lastName}`;
+    const shift = this.findShift(variance.submittedAt, variance.warehouseId, shifts);
+
+    return {
+      id: variance.id,
+      receiptType: variance.receiptType,
+      receiptNumber: variance.asn?.asnNumber || variance.blindReceipt?.receiptNumber || null,
+      skuCode: variance.skuCode,
+      productName: variance.productName,
+      varianceType: variance.varianceType,
+      reasonCode: variance.reasonCode,
+      quantity: Math.abs(variance.varianceQuantity.toNumber()),
+      value: Math.abs(variance.varianceValue?.toNumber() ?? 0),
+      status: variance.status,
+      priority: variance.priority,
+      submittedAt: variance.submittedAt,
+      keys: {
+        REASON_CODE: { key: variance.reasonCode, label: variance.reasonCode },
+        VARIANCE_TYPE: { key: variance.varianceType, label: variance.varianceType },
+        SKU: { key: variance.skuCode, label: `${variance.skuCode} ${variance.productName}` },
+        // Blind receipts only carry the supplier's name, so suppliers are matched by name
+        SUPPLIER: { key: supplier.trim().toLowerCase(), label: supplier },
+        CARRIER: { key: carrier.trim().toLowerCase(), label: carrier },
+        RECEIVER: { key: variance.submittedById, label: receiver },
+        SHIFT: { key: shift, label: shift },
+      },
+    };
+  }
+
+  /**
+   * Name of the shift the instant falls in. A warehouse's own shifts take
+   * precedence over tenant-wide ones; shifts ending before they start run
+   * past midnight.
+   */
+  private findShift(submittedAt: Date, warehouseId: string, shifts: ShiftWindow[]): string {
+    const own = shifts.filter((shift) => shift.warehouseId === warehouseId);
+    const tenantWide = shifts.filter((shift) => shift.warehouseId === null);
+    const candidates = own.length > 0 ? own : tenantWide.length > 0 ? tenantWide : DEFAULT_SHIFTS;
+
+    const match = candidates.find((shift) => {
+      const minutes = getZonedDateParts(submittedAt, shift.timezone).minutes;
+      const start = toMinutes(shift.startTime);
+      const end = toMinutes(shift.endTime);
+      return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+    });
+
+    return match?.name ?? 'Unassigned';
+  }
+
+  private metricOf(fact: Pick<VarianceFacts, 'quantity' | 'value'>, metric: VarianceAnalyticsMetric): number {
+    if (metric === 'QUANTITY') return fact.quantity;
+    if (metric === 'VALUE') return fact.value;
+    return 1;
+  }
+
+  private totals(facts: VarianceFacts[]) {
+    return {
+      count: facts.length,
+      quantity: round(facts.reduce((sum, fact) => sum + fact.quantity, 0)),
+      value: round(facts.reduce((sum, fact) => sum + fact.value, 0)),
+    };
+  }
+
+  private buildPareto(
+    facts: VarianceFacts[],
+    dimension: VarianceAnalyticsDimension,
+    metric: VarianceAnalyticsMetric
+  ): ParetoRow[] {
+    const groups = new Map<string, { key: string; label: string; count: number; quantity: number; value: number }>();
+
+    for (const fact of facts) {
+      const { key, label } = fact.keys[dimension];
+      const group = groups.get(key) ?? { key, label, count: 0, quantity: 0, value: 0 };
+      group.count++;
+      group.quantity += fact.quantity;
+      group.value += fact.value;
+      groups.set(key, group);
+    }
+
+    const measure = (row: { count: number; quantity: number; value: number }) =>
+      metric === 'COUNT' ? row.count : metric === 'QUANTITY' ? row.quantity : row.value;
+    const rows = [...groups.values()].sort((a, b) => measure(b) - measure(a));
+    const total = rows.reduce((sum, row) => sum + measure(row), 0);
+
+    let cumulative = 0;
+    return rows.map((row) => {
+      const share = total > 0 ? (measure(row) / total) * 100 : 0;
+      const vitalFew = cumulative < PARETO_THRESHOLD;
+      cumulative += share;
+
+      return {
+        ...row,
+        quantity: round(row.quantity),
+        value: round(row.value),
+        share: round(share),
+        cumulativeShare: round(cumulative),
+        vitalFew,
+      };
+    });
+  }
+
+  private buildTrend(
+    facts: VarianceFacts[],
+    interval: VarianceTrendInterval,
+    dimension: VarianceAnalyticsDimension | undefined,
+    metric: VarianceAnalyticsMetric
+  ): TrendPoint[] {
+    const bucketStart = INTERVAL_START[interval];
+    const topKeys = dimension
+      ? new Map(
+          this.buildPareto(facts, dimension, metric)
+            .slice(0, TREND_BREAKDOWN_KEYS)
+            .map((row) => [row.key, row.label])
+        )
+      : null;
+    const buckets = new Map<string, TrendPoint>();
+
+    for (const fact of facts) {
+      const start = bucketStart(fact.submittedAt);
+      const key = formatDate(start);
+      if (!buckets.has(key)) {
+        buckets.set(key, {
+          period: interval === 'MONTH' ? key.substring(0, 7) : key,
+          periodStart: start,
+          count: 0,
+          quantity: 0,
+          value: 0,
+          ...(topKeys && { breakdown: {} }),
+        });
+      }
+
+      const point = buckets.get(key)!;
+      point.count++;
+      point.quantity = round(point.quantity + fact.quantity);
+      point.value = round(point.value + fact.value);
+
+      if (dimension && point.breakdown) {
+        const label = topKeys!.get(fact.keys[dimension].key) ?? 'Other';
+        point.breakdown[label] = round((point.breakdown[label] ?? 0) + this.metricOf(fact, metric));
+      }
+    }
+
+    return [...buckets.entries()].sort(([a], [b]) => a.localeCompare(b)).map(([, point]) => point);
+  }
+
+  private toRow(fact: VarianceFacts) {
+    return {
+      id: fact.id,
+      submittedAt: fact.submittedAt,
+      receiptType: fact.receiptType,
+      receiptNumber: fact.receiptNumber,
+      skuCode: fact.skuCode,
+      productName: fact.productName,
+      varianceType: fact.varianceType,
+      reasonCode: fact.reasonCode,
+      quantity: fact.quantity,
+      value: fact.value,
+      status: fact.status,
+      priority: fact.priority,
+      supplier: fact.keys.SUPPLIER.label,
+      carrier: fact.keys.CARRIER.label,
+      receiver: fact.keys.RECEIVER.label,
+      shift: fact.keys.SHIFT.label,
+    };
+  }
+}
+
+export default new VarianceAnalyticsService();
@@ -0,0 +1,665 @@
+import {
+  Prisma,
+  LineStatus,
+  PutawayStatus,
+  ResolutionAction,
+  ReturnGrade,
+  Variance,
+  VarianceResolution,
+} from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { generateSequentialNumber } from '../utils/helpers';
+import logger from '../utils/logger';
+import grnService from './grn.service';
+import purchaseOrderService from './purchaseOrder.service';
+import supplierClaimService from './supplierClaim.service';
+import binCapacityService, { BinLoad } from './binCapacity.service';
+import varianceSlaService from './varianceSla.service';
+
+type Client = Prisma.TransactionClient | typeof prisma;
+
+export interface ApplyResolutionInput {
+  action: ResolutionAction;
+  appliedById: string;
+  adjustedQuantity?: number;
+  // Units to return or write off; defaults to the variance quantity
+  quantity?: number;
+  supplierId?: string;
+  notes?: string;
+}
+
+/**
+ * A side effect of a resolution, recorded as a delta so it can be undone
+ * even if the record has changed since
+ */
+export type ResolutionEffect =
+  | {
+      type: 'RECEIPT_LINE';
+      lineType: 'ASN_LINE' | 'BLIND_RECEIPT_LINE';
+      lineId: string;
+      // Accepted quantity on ASN lines, received quantity on blind lines
+      quantityDelta: number;
+      rejectedDelta: number;
+      statusBefore: LineStatus;
+      statusAfter: LineStatus;
+    }
+  | {
+      type: 'PUTAWAY_TASK';
+      taskId: string;
+      taskNumber: string;
+      quantityDelta: number;
+      // Reserved load released with the units; absent on older records
+      weightKgDelta?: number | null;
+      volumeM3Delta?: number | null;
+      statusBefore: PutawayStatus;
+      statusAfter: PutawayStatus;
+    }
+  | {
+      type: 'INVENTORY';
+      inventoryId: string;
+      quantityDelta: number;
+      affectsAvailable: boolean;
+    }
+  | {
+      type: 'DISPOSAL_TASK';
+      taskId: string;
+      taskNumber: string;
+      disposalType: ReturnGrade;
+      quantity: number;
+    };
+
+interface ReceiptLineState {
+  lineType: 'ASN_LINE' | 'BLIND_RECEIPT_LINE';
+  id: string;
+  quantity: number;
+  rejected: number;
+  status: LineStatus;
+}
+
+interface ResolutionPlan {
+  line: ReceiptLineState | null;
+  quantityDelta: number;
+  rejectedDelta: number;
+  status: LineStatus | null;
+  // Units that have to come back out of the dock, putaway or stock
+  removeQuantity: number;
+  disposal: { disposalType: ReturnGrade; quantity: number; supplierId: string | null } | null;
+}
+
+// Actions taken through the approve route; rejection and escalation have their own
+const APPROVAL_ACTIONS: ResolutionAction[] = ['APPROVE_AS_IS', 'ADJUST_QUANTITY', 'RETURN_TO_SUPPLIER', 'WRITE_OFF'];
+
+// Putaway tasks not yet picked up can simply be shortened
+const OPEN_PUTAWAY_STATUSES: PutawayStatus[] = ['PENDING', 'ASSIGNED'];
+
+const LINE_REFERENCE_TYPES = ['ASN_LINE', 'BLIND_RECEIPT_LINE'];
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+export class VarianceResolutionService {
+  /**
+   * Check an approval action can be carried out before any decision is
+   * recorded against the variance
+   */
+  async validate(variance: Variance, input: ApplyResolutionInput): Promise<void> {
+    if (!APPROVAL_ACTIONS.includes(input.action)) {
+      throw new AppError(`${input.action} cannot be used to approve a variance`, 400);
+    }
+
+    await this.plan(prisma, variance, input);
+  }
+
+  /**
+   * Carry out a resolution's side effects on the receipt line, putaway
+   * tasks and stock, and record them for the audit trail
+   */
+  async apply(
+    tx: Prisma.TransactionClient,
+    variance: Variance,
+    input: ApplyResolutionInput
+  ): Promise<VarianceResolution> {
+    const plan = await this.plan(tx, variance, input);
+    const effects: ResolutionEffect[] = [];
+
+    if (plan.line && plan.status) {
+      await this.updateLine(tx, plan.line, plan.quantityDelta, plan.rejectedDelta, plan.status);
+      effects.push({
+        type: 'RECEIPT_LINE',
+        lineType: plan.line.lineType,
+        lineId: plan.line.id,
+        quantityDelta: plan.quantityDelta,
+        rejectedDelta: plan.rejectedDelta,
+        statusBefore: plan.line.status,
+        statusAfter: plan.status,
+      });
+    }
+
+    if (plan.line && plan.removeQuantity > 0) {
+      effects.push(...(await this.removeStock(tx, variance, plan.line, plan.removeQuantity, input.action)));
+    }
+
+    if (plan.disposal) {
+      const last = await tx.returnDisposalTask.findFirst({
+        where: { tenantId: variance.tenantId },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      const task = await tx.returnDisposalTask.create({
+        data: {
+          tenantId: variance.tenantId,
+          warehouseId: variance.warehouseId,
+          taskNumber: generateSequentialNumber('RD', last?.taskNumber),
+          disposalType: plan.disposal.disposalType,
+          supplierId: plan.disposal.supplierId,
+          varianceId: variance.id,
+          skuId: variance.skuId,
+          skuCode: variance.skuCode,
+          productName: variance.productName,
+          quantity: plan.disposal.quantity,
+          batchNumber: variance.batchNumber,
+          serialNumbers: [],
+          notes: input.notes,
+        },
+      });
+
+      effects.push({
+        type: 'DISPOSAL_TASK',
+        taskId: task.id,
+        taskNumber: task.taskNumber,
+        disposalType: task.disposalType,
+        quantity: plan.disposal.quantity,
+      });
+    }
+
+    return tx.varianceResolution.create({
+      data: {
+        tenantId: variance.tenantId,
+        varianceId: variance.id,
+        action: input.action,
+        quantity: plan.disposal?.quantity ?? (plan.removeQuantity || undefined),
+        adjustedQuantity: input.adjustedQuantity,
+        effects: effects as unknown as Prisma.InputJsonValue,
+        notes: input.notes,
+        appliedById: input.appliedById,
+      },
+    });
+  }
+
+  /**
+   * Undo the latest resolution of a variance and reopen it for review.
+   * Fails if anything it created has moved on, e.g. a completed disposal
+   * task, a started putaway task or a claim already sent to the supplier.
+   */
+  async reverse(varianceId: string, tenantId: string, reversedById: string, reason: string): Promise<Variance> {
+    const variance = await prisma.variance.findFirst({
+      where: { id: varianceId, tenantId },
+    });
+
+    if (!variance) {
+      throw new AppError('Variance not found', 404);
+    }
+
+    const resolution = await prisma.varianceResolution.findFirst({
+      where: { varianceId, status: 'APPLIED' },
+      orderBy: { appliedAt: 'desc' },
+    });
+
+    if (!resolution || !['APPROVED', 'REJECTED'].includes(variance.status)) {
+      throw new AppError('Variance has no resolution to reverse', 400);
+    }
+
+    const effects = resolution.effects as unknown as ResolutionEffect[];
+    const slaDueAt = await varianceSlaService.getDueAt(tenantId, variance.priority, new Date());
+
+    const reopened = await prisma.$transaction(async (tx) => {
+      await supplierClaimService.releaseVariance(tx, varianceId);
+
+      for (const effect of [...effects].reverse()) {
+        await this.undo(tx, variance, effect);
+      }
+
+      await tx.varianceResolution.update({
+        where: { id: resolution.id },
+        data: {
+          status: 'REVERSED',
+          reversedById,
+          reversedAt: new Date(),
+          reversalReason: reason,
+        },
+      });
+
+      return tx.variance.update({
+        where: { id: varianceId },
+        data: {
+          status: 'PENDING',
+          resolutionAction: null,
+          resolvedAt: null,
+          supervisorNotes: `Resolution reversed: ${reason}`,
+          ...(slaDueAt && { slaDueAt, slaWarnedAt: null }),
+        },
+      });
+    });
+
+    logger.info(`Variance ${varianceId} resolution ${resolution.action} reversed by ${reversedById}`);
+
+    await this.refreshPurchaseOrder(reopened);
+    await grnService.amendForVariance(reopened, reversedById);
+
+    return reopened;
+  }
+
+  /**
+   * Get the resolutions applied to a variance, newest first
+   */
+  async getResolutions(varianceId: string, tenantId: string) {
+    return prisma.varianceResolution.findMany({
+      where: { varianceId, tenantId },
+      include: {
+        appliedBy: { select: { id: true, firstName: true, lastName: true } },
+        reversedBy: { select: { id: true, firstName: true, lastName: true } },
+      },
+      orderBy: { appliedAt: 'desc' },
+    });
+  }
+
+  /**
+   * Recalculate received quantities on the purchase order line behind a
+   * blind receipt line once its quantity or status has changed
+   */
+  async refreshPurchaseOrder(variance: Variance): Promise<void> {
+    if (variance.receiptType !== 'BLIND' || !variance.receiptLineId) {
+      return;
+    }
+
+    const line = await prisma.blindReceiptLine.findUnique({
+      where: { id: variance.receiptLineId },
+      select: { purchaseOrderLineId: true },
+    });
+
+    await purchaseOrderService.refreshLines([line?.purchaseOrderLineId ?? null]);
+  }
+
+  /**
+   * Work out what a resolution changes, validating it against the current
+   * state of the receipt line
+   */
+  private async plan(client: Client, variance: Variance, input: ApplyResolutionInput): Promise<ResolutionPlan> {
+    const line = await this.loadLine(client, variance);
+    const plan: ResolutionPlan = {
+      line,
+      quantityDelta: 0,
+      rejectedDelta: 0,
+      status: null,
+      removeQuantity: 0,
+      disposal: null,
+    };
+
+    switch (input.action) {
+      case 'APPROVE_AS_IS':
+        plan.status = 'COMPLETED';
+        break;
+
+      case 'ADJUST_QUANTITY': {
+        if (input.adjustedQuantity === undefined) {
+          throw new AppError('adjustedQuantity is required to adjust the quantity', 400);
+        }
+        plan.status = 'COMPLETED';
+        if (line) {
+          plan.quantityDelta = round(input.adjustedQuantity - line.quantity);
+          if (input.adjustedQuantity < line.rejected) {
+            throw new AppError(`${line.rejected} units of this line have already been rejected`, 400);
+          }
+          plan.removeQuantity = Math.max(0, -plan.quantityDelta);
+        }
+        break;
+      }
+
+      case 'RETURN_TO_SUPPLIER':
+      case 'WRITE_OFF': {
+        if (input.quantity === undefined && variance.varianceType === 'SHORTAGE') {
+          throw new AppError('Specify the quantity to return or write off', 400);
+        }
+        const quantity = input.quantity ?? Math.abs(variance.varianceQuantity.toNumber());
+        if (quantity <= 0) {
+          throw new AppError('Specify the quantity to return or write off', 400);
+        }
+
+        plan.status = 'COMPLETED';
+        if (line) {
+          const accepted = this.acceptedQuantity(line);
+          if (quantity > accepted) {
+            throw new AppError(`Only ${accepted} accepted units of ${variance.skuCode} are available`, 400);
+          }
+          // ASN lines move units from accepted to rejected; blind lines only record the rejection
+          plan.quantityDelta = line.lineType === 'ASN_LINE' ? -quantity : 0;
+          plan.rejectedDelta = quantity;
+          plan.removeQuantity = quantity;
+        }
+
+        plan.disposal = {
+          disposalType: input.action === 'WRITE_OFF' ? 'SCRAP' : 'RETURN_TO_VENDOR',
+          quantity,
+          supplierId: input.action === 'RETURN_TO_SUPPLIER' ? await this.findSupplier(client, variance, input) : null,
+        };
+        break;
+      }
+
+      case 'REJECT_LINE':
+        plan.status = 'CORRECTION_NEEDED';
+        break;
+
+      case 'ESCALATE':
+        break;
+    }
+
+    return plan;
+  }
+
+  /**
+   * Load the receipt line a variance was raised on. Returns have no
+   * receipt line of their own and are resolved through RMA grading.
+   */
+  private async loadLine(client: Client, variance: Variance): Promise<ReceiptLineState | null> {
+    if (!variance.receiptLineId) {
+      return null;
+    }
+
+    if (variance.receiptType === 'ASN') {
+      const line = await client.aSNLine.findUnique({ where: { id: variance.receiptLineId } });
+      return line
+        ? {
+            lineType: 'ASN_LINE',
+            id: line.id,
+            quantity: line.acceptedQuantity.toNumber(),
+            rejected: line.rejectedQuantity.toNumber(),
+            status: line.lineStatus,
+          }
+        : null;
+    }
+
+    if (variance.receiptType === 'BLIND') {
+      const line = await client.blindReceiptLine.findUnique({ where: { id: variance.receiptLineId } });
+      return line
+        ? {
+            lineType: 'BLIND_RECEIPT_LINE',
+            id: line.id,
+            quantity: line.quantityReceived.toNumber(),
+            rejected: line.rejectedQuantity.toNumber(),
+            status: line.lineStatus,
+          }
+        : null;
+    }
+
+    return null;
+  }
+
+  private acceptedQuantity(line: ReceiptLineState): number {
+    return line.lineType === 'ASN_LINE' ? line.quantity : round(line.quantity - line.rejected);
+  }
+
+  private async findSupplier(client: Client, variance: Variance, input: ApplyResolutionInput): Promise<string> {
+    let supplierId = input.supplierId;
+
+    if (!supplierId && variance.asnId) {
+      const asn = await client.aSN.findUnique({ where: { id: variance.asnId }, select: { supplierId: true } });
+      supplierId = asn?.supplierId;
+    }
+
+    if (!supplierId && variance.skuId) {
+      const supplierItem = await client.supplierItem.findFirst({
+        where: { tenantId: variance.tenantId, skuId: variance.skuId, isActive: true },
+        orderBy: { createdAt: 'asc' },
+      });
+      supplierId = supplierItem?.supplierId;
+    }
+
+    if (!supplierId) {
+      throw new AppError(`No supplier found for ${variance.skuCode}; specify supplierId`, 400);
+    }
+
+    return supplierId;
+  }
+
+  private async updateLine(
+    tx: Prisma.TransactionClient,
+    line: { lineType: 'ASN_LINE' | 'BLIND_RECEIPT_LINE'; id: string },
+    quantityDelta: number,
+    rejectedDelta: number,
+    lineStatus: LineStatus
+  ): Promise<void> {
+    if (line.lineType === 'ASN_LINE') {
+      await tx.aSNLine.update({
+        where: { id: line.id },
+        data: {
+          acceptedQuantity: { increment: quantityDelta },
+          rejectedQuantity: { increment: rejectedDelta },
+          lineStatus,
+        },
+      });
+    } else {
+      await tx.blindReceiptLine.update({
+        where: { id: line.id },
+        data: {
+          quantityReceived: { increment: quantityDelta },
+          rejectedQuantity: { increment: rejectedDelta },
+          lineStatus,
+        },
+      });
+    }
+  }
+
+  /**
+   * Take units of a receipt line back out of the warehouse: first from
+   * what is still on the dock, then from putaway tasks not yet started,
+   * then from stock already put away
+   */
+  private async removeStock(
+    tx: Prisma.TransactionClient,
+    variance: Variance,
+    line: ReceiptLineState,
+    quantity: number,
+    action: ResolutionAction
+  ): Promise<ResolutionEffect[]> {
+    const effects: ResolutionEffect[] = [];
+
+    const tasks = await tx.putawayTask.findMany({
+      where: { receiptLineId: line.id, status: { not: 'CANCELLED' } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const tasked = tasks.reduce(
+      (sum, task) =>
+        sum + (task.status === 'COMPLETED' ? task.quantityConfirmed : task.quantityToPutaway).toNumber(),
+      0
+    );
+    let remaining = round(quantity - Math.max(0, this.acceptedQuantity(line) - tasked));
+
+    for (const task of tasks.filter((t) => OPEN_PUTAWAY_STATUSES.includes(t.status))) {
+      if (remaining <= 0) break;
+
+      const taken = Math.min(task.quantityToPutaway.toNumber(), remaining);
+      const statusAfter: PutawayStatus = taken === task.quantityToPutaway.toNumber() ? 'CANCELLED' : task.status;
+      const released = binCapacityService.taskLoad(task, taken);
+
+      await tx.putawayTask.update({
+        where: { id: task.id },
+        data: {
+          quantityToPutaway: { decrement: taken },
+          ...(released.weightKg !== null && { weightKg: { decrement: released.weightKg } }),
+          ...(released.volumeM3 !== null && { volumeM3: { decrement: released.volumeM3 } }),
+          status: statusAfter,
+        },
+      });
+      if (task.destinationLocationId) {
+        await binCapacityService.release(
+          task.id,
+          task.destinationLocationId,
+          released,
+          'Quantity removed by variance resolution',
+          tx
+        );
+      }
+
+      effects.push({
+        type: 'PUTAWAY_TASK',
+        taskId: task.id,
+        taskNumber: task.taskNumber,
+        quantityDelta: -taken,
+        weightKgDelta: released.weightKg === null ? null : -released.weightKg,
+        volumeM3Delta: released.volumeM3 === null ? null : -released.volumeM3,
+        statusBefore: task.status,
+        statusAfter,
+      });
+      remaining = round(remaining - taken);
+    }
+
+    if (remaining > 0) {
+      const receipts = await tx.inventoryTransaction.findMany({
+        where: {
+          tenantId: variance.tenantId,
+          transactionType: 'RECEIVE',
+          referenceType: { in: LINE_REFERENCE_TYPES },
+          referenceId: line.id,
+        },
+        include: { inventory: true },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      const inventories = [...new Map(receipts.map((r) => [r.inventoryId, r.inventory])).values()];
+
+      for (const inventory of inventories) {
+        if (remaining <= 0) break;
+
+        const affectsAvailable = inventory.status === 'AVAILABLE';
+        const free = affectsAvailable
+          ? inventory.quantityAvailable.toNumber()
+          : inventory.quantityOnHand.toNumber() - inventory.quantityAllocated.toNumber();
+        const taken = Math.min(free, remaining);
+        if (taken <= 0) continue;
+
+        await this.adjustInventory(tx, variance, inventory.id, inventory.locationId, -taken, affectsAvailable, action);
+        effects.push({ type: 'INVENTORY', inventoryId: inventory.id, quantityDelta: -taken, affectsAvailable });
+        remaining = round(remaining - taken);
+      }
+    }
+
+    if (remaining > 0) {
+      throw new AppError(
+        `${remaining} units of ${variance.skuCode} are no longer in stock (allocated or shipped)`,
+        400
+      );
+    }
+
+    return effects;
+  }
+
+  /**
+   * Post an ADJUST ledger entry against the variance and move on-hand stock
+   * and bin capacity with it
+   */
+  private async adjustInventory(
+    tx: Prisma.TransactionClient,
+    variance: Variance,
+    inventoryId: string,
+    locationId: string,
+    quantity: number,
+    affectsAvailable: boolean,
+    note: string
+  ): Promise<void> {
+    await tx.inventory.update({
+      where: { id: inventoryId },
+      data: {
+        quantityOnHand: { increment: quantity },
+        ...(affectsAvailable && { quantityAvailable: { increment: quantity } }),
+      },
+    });
+    const sku = variance.skuId ? await tx.sKU.findUnique({ where: { id: variance.skuId } }) : null;
+    const load: BinLoad = sku
+      ? binCapacityService.itemLoad(sku, quantity)
+      : { units: quantity, weightKg: null, volumeM3: null, heightCm: null };
+    await binCapacityService.store(locationId, load, tx);
+    await tx.inventoryTransaction.create({
+      data: {
+        tenantId: variance.tenantId,
+        inventoryId,
+        transactionType: 'ADJUST',
+        quantity,
+        referenceType: 'VARIANCE',
+        referenceId: variance.id,
+        notes: `${note} for variance on ${variance.skuCode}`,
+      },
+    });
+  }
+
+  /**
+   * Undo one recorded effect
+   */
+  private async undo(tx: Prisma.TransactionClient, variance: Variance, effect: ResolutionEffect): Promise<void> {
+    switch (effect.type) {
+      case 'RECEIPT_LINE':
+        await this.updateLine(
+          tx,
+          { lineType: effect.lineType, id: effect.lineId },
+          -effect.quantityDelta,
+          -effect.rejectedDelta,
+          effect.statusBefore
+        );
+        break;
+
+      case 'PUTAWAY_TASK': {
+        const task = await tx.putawayTask.findUniqueOrThrow({ where: { id: effect.taskId } });
+        if (task.status !== effect.statusAfter) {
+          throw new AppError(`Putaway task ${effect.taskNumber} is ${task.status} and can no longer be restored`, 400);
+        }
+        const restored: BinLoad = {
+          units: -effect.quantityDelta,
+          weightKg: effect.weightKgDelta ? -effect.weightKgDelta : null,
+          volumeM3: effect.volumeM3Delta ? -effect.volumeM3Delta : null,
+          heightCm: null,
+        };
+        await tx.putawayTask.update({
+          where: { id: task.id },
+          data: {
+            quantityToPutaway: { increment: restored.units },
+            ...(restored.weightKg !== null && { weightKg: { increment: restored.weightKg } }),
+            ...(restored.volumeM3 !== null && { volumeM3: { increment: restored.volumeM3 } }),
+            status: effect.statusBefore,
+          },
+        });
+        if (task.destinationLocationId) {
+          await binCapacityService.reserve(task, task.destinationLocationId, restored, tx);
+        }
+        break;
+      }
+
+      case 'INVENTORY': {
+        const inventory = await tx.inventory.findUniqueOrThrow({ where: { id: effect.inventoryId } });
+        await this.adjustInventory(
+          tx,
+          variance,
+          inventory.id,
+          inventory.locationId,
+          -effect.quantityDelta,
+          effect.affectsAvailable,
+          'Reversal'
+        );
+        break;
+      }
+
+      case 'DISPOSAL_TASK': {
+        const task = await tx.returnDisposalTask.findUniqueOrThrow({ where: { id: effect.taskId } });
+        if (task.status === 'COMPLETED') {
+          throw new AppError(`Disposal task ${effect.taskNumber} is already completed`, 400);
+        }
+        await tx.returnDisposalTask.update({
+          where: { id: task.id },
+          data: { status: 'CANCELLED' },
+        });
+        break;
+      }
+    }
+  }
+}
+
+export default new VarianceResolutionService();
@@ -0,0 +1,442 @@
+import { Priority, Prisma, UserRole, Variance, VarianceSlaPolicy, VarianceStatus } from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import logger from '../utils/logger';
+import approvalService from './approval.service';
+
+export interface SlaPolicySettings {
+  priority: Priority;
+  resolutionMinutes: number;
+  warningMinutes: number;
+  isActive: boolean;
+}
+
+export interface SlaRunResult {
+  scheduled: number;
+  warned: number;
+  breached: number;
+  escalated: number;
+}
+
+// Unresolved variances the SLA clock runs for
+const OPEN_STATUSES: VarianceStatus[] = ['PENDING', 'NEW', 'UNDER_REVIEW', 'ESCALATED'];
+
+const DEFAULT_POLICIES: Record<Priority, { resolutionMinutes: number; warningMinutes: number }> = {
+  CRITICAL: { resolutionMinutes: 2 * 60, warningMinutes: 30 },
+  URGENT: { resolutionMinutes: 4 * 60, warningMinutes: 60 },
+  HIGH: { resolutionMinutes: 8 * 60, warningMinutes: 2 * 60 },
+  MEDIUM: { resolutionMinutes: 24 * 60, warningMinutes: 4 * 60 },
+  NORMAL: { resolutionMinutes: 24 * 60, warningMinutes: 4 * 60 },
+  STANDARD: { resolutionMinutes: 24 * 60, warningMinutes: 4 * 60 },
+  LOW: { resolutionMinutes: 72 * 60, warningMinutes: 8 * 60 },
+};
+
+// Each breach escalates one step up this chain
+const ESCALATION_CHAIN: UserRole[] = ['RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN'];
+
+const MINUTE_MS = 60 * 1000;
+
+type SlaVariance = Pick<
+  Variance,
+  | 'id'
+  | 'tenantId'
+  | 'warehouseId'
+  | 'skuCode'
+  | 'priority'
+  | 'approvalLevel'
+  | 'status'
+  | 'escalatedToId'
+  | 'slaDueAt'
+  | 'slaWarnedAt'
+  | 'slaBreachedAt'
+> & { escalatedTo: { role: UserRole } | null };
+
+export class VarianceSlaService {
+  /**
+   * Get the tenant's SLA policy for every priority, falling back to defaults
+   */
+  async getPolicies(tenantId: string): Promise<SlaPolicySettings[]> {
+    const policies = await prisma.varianceSlaPolicy.findMany({ where: { tenantId } });
+
+    return (Object.keys(DEFAULT_POLICIES) as Priority[]).map((priority) => {
+      const policy = policies.find((p) => p.priority === priority);
+      return policy
+        ? {
+            priority,
+            resolutionMinutes: policy.resolutionMinutes,
+            warningMinutes: policy.warningMinutes,
+            isActive: policy.isActive,
+          }
+        : { priority, ...DEFAULT_POLICIES[priority], isActive: true };
+    });
+  }
+
+  /**
+   * Set the SLA policy for a priority. Variances already on the clock keep
+   * their deadline.
+   */
+  async updatePolicy(
+    tenantId: string,
+    priority: Priority,
+    data: Partial<Omit<SlaPolicySettings, 'priority'>>,
+    updatedById: string
+  ): Promise<VarianceSlaPolicy> {
+    const current = (await this.getPolicies(tenantId)).find((p) => p.priority === priority);
+    if (!current) {
+      throw new AppError(`Unknown priority ${priority}`, 400);
+    }
+
+    const merged = { ...current, ...data };
+
+    if (merged.warningMinutes >= merged.resolutionMinutes) {
+      throw new AppError('Warning must come before the resolution deadline', 400);
+    }
+
+    return prisma.varianceSlaPolicy.upsert({
+      where: { tenantId_priority: { tenantId, priority } },
+      create: { ...merged, tenantId, updatedById },
+      update: { ...data, updatedById },
+    });
+  }
+
+  /**
+   * Deadline for a variance of this priority starting at the given time, or
+   * null when the priority has no active SLA
+   */
+  async getDueAt(tenantId: string, priority: Priority, from: Date): Promise<Date | null> {
+    const policy = (await this.getPolicies(tenantId)).find((p) => p.priority === priority)!;
+    return policy.isActive ? new Date(from.getTime() + policy.resolutionMinutes * MINUTE_MS) : null;
+  }
+
+  /**
+   * Start the clock on new variances, warn approvers of deadlines coming up
+   * and escalate breached variances to the next approver. Runs on a
+   * schedule; each variance is warned and escalated once per deadline.
+   */
+  async runChecks(now = new Date()): Promise<SlaRunResult> {
+    const result: SlaRunResult = { scheduled: 0, warned: 0, breached: 0, escalated: 0 };
+    const policiesByTenant = new Map<string, SlaPolicySettings[]>();
+    const policiesFor = async (tenantId: string) => {
+      if (!policiesByTenant.has(tenantId)) {
+        policiesByTenant.set(tenantId, await this.getPolicies(tenantId));
+      }
+      return policiesByTenant.get(tenantId)!;
+    };
+
+    const unscheduled = await prisma.variance.findMany({
+      where: { status: { in: OPEN_STATUSES }, slaDueAt: null },
+      select: { id: true, tenantId: true, priority: true, submittedAt: true, escalatedAt: true },
+    });
+
+    for (const variance of unscheduled) {
+      const policy = (await policiesFor(variance.tenantId)).find((p) => p.priority === variance.priority)!;
+      if (!policy.isActive) continue;
+
+      const start = variance.escalatedAt ?? variance.submittedAt;
+      await prisma.variance.update({
+        where: { id: variance.id },
+        data: { slaDueAt: new Date(start.getTime() + policy.resolutionMinutes * MINUTE_MS) },
+      });
+      result.scheduled++;
+    }
+
+    // Longest warning window bounds which deadlines are worth loading
+    const maxWarningMinutes = Math.max(
+      ...Object.values(DEFAULT_POLICIES).map((p) => p.warningMinutes),
+      ...(await prisma.varianceSlaPolicy.findMany({ select: { warningMinutes: true } })).map((p) => p.warningMinutes)
+    );
+
+    const due = await prisma.variance.findMany({
+      where: {
+        status: { in: OPEN_STATUSES },
+        slaDueAt: { lte: new Date(now.getTime() + maxWarningMinutes * MINUTE_MS) },
+      },
+      select: {
+        id: true,
+        tenantId: true,
+        warehouseId: true,
+        skuCode: true,
+        priority: true,
+        approvalLevel: true,
+        status: true,
+        escalatedToId: true,
+        slaDueAt: true,
+        slaWarnedAt: true,
+        slaBreachedAt: true,
+        escalatedTo: { select: { role: true } },
+      },
+    });
+
+    for (const variance of due) {
+      const policy = (await policiesFor(variance.tenantId)).find((p) => p.priority === variance.priority)!;
+      const dueAt = variance.slaDueAt!;
+
+      try {
+        if (dueAt <= now) {
+          // Breaches are handled once per deadline; escalation sets a new one
+          if (variance.slaBreachedAt && variance.slaBreachedAt >= dueAt) continue;
+
+          const escalated = await this.handleBreach(variance, policy, now);
+          result.breached++;
+          if (escalated) result.escalated++;
+        } else if (
+          !variance.slaWarnedAt &&
+          dueAt.getTime() - now.getTime() <= policy.warningMinutes * MINUTE_MS
+        ) {
+          await this.handleWarning(variance, now);
+          result.warned++;
+        }
+      } catch (error) {
+        logger.error(`Variance SLA check for ${variance.id} failed:`, error);
+      }
+    }
+
+    if (result.warned || result.breached) {
+      logger.info(
+        `Variance SLA: ${result.warned} warned, ${result.breached} breached, ${result.escalated} escalated`
+      );
+    }
+
+    return result;
+  }
+
+  /**
+   * SLA warnings and breaches for variances the user is responsible for,
+   * newest first. Only variances that are still open are included.
+   */
+  async getAlerts(tenantId: string, userId: string) {
+    return prisma.varianceSlaEvent.findMany({
+      where: {
+        tenantId,
+        notifiedUserIds: { has: userId },
+        variance: { status: { in: OPEN_STATUSES } },
+      },
+      include: {
+        variance: {
+          select: { id: true, skuCode: true, productName: true, varianceType: true, status: true, slaDueAt: true },
+        },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    });
+  }
+
+  /**
+   * SLA performance: open variances at risk or overdue now, and breach
+   * counts and resolution times for variances resolved in the period
+   */
+  async getMetrics(params: { tenantId: string; warehouseId?: string; dateFrom?: Date; dateTo?: Date }) {
+    const dateTo = params.dateTo || new Date();
+    const dateFrom = params.dateFrom || new Date(dateTo.getTime() - 30 * 24 * 60 * MINUTE_MS);
+    const now = new Date();
+    const scope = { tenantId: params.tenantId, ...(params.warehouseId && { warehouseId: params.warehouseId }) };
+
+    const [open, resolved, events] = await Promise.all([
+      prisma.variance.findMany({
+        where: { ...scope, status: { in: OPEN_STATUSES } },
+        select: { slaDueAt: true, slaWarnedAt: true },
+      }),
+      prisma.variance.findMany({
+        where: { ...scope, resolvedAt: { gte: dateFrom, lte: dateTo } },
+        select: { priority: true, submittedAt: true, resolvedAt: true, slaBreachedAt: true, slaEscalationCount: true },
+      }),
+      prisma.varianceSlaEvent.groupBy({
+        by: ['eventType'],
+        where: { ...scope, createdAt: { gte: dateFrom, lte: dateTo } },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const escalations = await prisma.varianceSlaEvent.count({
+      where: { ...scope, eventType: 'BREACH', escalatedToId: { not: null }, createdAt: { gte: dateFrom, lte: dateTo } },
+    });
+
+    const byPriority = new Map<Priority, { resolved: number; breached: number; totalMinutes: number }>();
+    for (const variance of resolved) {
+      const row = byPriority.get(variance.priority) ?? { resolved: 0, breached: 0, totalMinutes: 0 };
+      row.resolved++;
+      if (variance.slaBreachedAt) row.breached++;
+      row.totalMinutes += (variance.resolvedAt!.getTime() - variance.submittedAt.getTime()) / MINUTE_MS;
+      byPriority.set(variance.priority, row);
+    }
+
+    const policies = await this.getPolicies(params.tenantId);
+    const breachedCount = resolved.filter((variance) => variance.slaBreachedAt).length;
+    const eventCount = (type: string) => events.find((e) => e.eventType === type)?._count._all ?? 0;
+
+    return {
+      period: { dateFrom, dateTo },
+      open: {
+        total: open.length,
+        atRisk: open.filter((v) => v.slaDueAt && v.slaDueAt > now && v.slaWarnedAt).length,
+        overdue: open.filter((v) => v.slaDueAt && v.slaDueAt <= now).length,
+      },
+      resolved: {
+        total: resolved.length,
+        breached: breachedCount,
+        breachRate: resolved.length > 0 ? Math.round((breachedCount / resolved.length) * 10000) / 100 : null,
+      },
+      events: {
+        warnings: eventCount('WARNING'),
+        breaches: eventCount('BREACH'),
+        autoEscalations: escalations,
+      },
+      byPriority: policies
+        .filter((policy) => byPriority.has(policy.priority))
+        .map((policy) => {
+          const row = byPriority.get(policy.priority)!;
+          return {
+            priority: policy.priority,
+            resolutionMinutes: policy.resolutionMinutes,
+            resolved: row.resolved,
+            breached: row.breached,
+            averageResolutionMinutes: Math.round(row.totalMinutes / row.resolved),
+          };
+        }),
+    };
+  }
+
+  private async handleWarning(variance: SlaVariance, now: Date): Promise<void> {
+    const recipients = await this.getAssignees(variance);
+
+    await prisma.$transaction([
+      prisma.varianceSlaEvent.create({
+        data: {
+          tenantId: variance.tenantId,
+          warehouseId: variance.warehouseId,
+          varianceId: variance.id,
+          eventType: 'WARNING',
+          priority: variance.priority,
+          dueAt: variance.slaDueAt!,
+          notifiedUserIds: recipients,
+        },
+      }),
+      prisma.variance.update({ where: { id: variance.id }, data: { slaWarnedAt: now } }),
+    ]);
+
+    logger.warn(
+      `Variance ${variance.id} (${variance.skuCode}, ${variance.priority}) is due ${variance.slaDueAt!.toISOString()}`
+    );
+  }
+
+  /**
+   * Record the breach and escalate to the next role up the chain. Returns
+   * whether the variance was escalated; at the top of the chain the breach
+   * is only recorded, and a variance resolved in the meantime is left alone.
+   */
+  private async handleBreach(variance: SlaVariance, policy: SlaPolicySettings, now: Date): Promise<boolean> {
+    const dueAt = variance.slaDueAt!;
+    const nextApprover = await this.findNextApprover(variance);
+    const recipients = [...new Set([...(await this.getAssignees(variance)), ...(nextApprover ? [nextApprover.id] : [])])];
+
+    // Everyone above a supervisor approves at manager level
+    const data: Prisma.VarianceUncheckedUpdateManyInput = nextApprover
+      ? {
+          slaBreachedAt: now,
+          status: 'ESCALATED',
+          escalatedToId: nextApprover.id,
+          escalatedAt: now,
+          approvalLevel: 'MANAGER',
+          slaDueAt: new Date(now.getTime() + policy.resolutionMinutes * MINUTE_MS),
+          slaWarnedAt: null,
+          slaEscalationCount: { increment: 1 },
+        }
+      : { slaBreachedAt: now };
+
+    const breached = await prisma.$transaction(async (tx) => {
+      // Resolved while the next approver was being looked up: leave it closed
+      const updated = await tx.variance.updateMany({
+        where: { id: variance.id, status: { in: OPEN_STATUSES } },
+        data,
+      });
+      if (updated.count === 0) {
+        return false;
+      }
+
+      await tx.varianceSlaEvent.create({
+        data: {
+          tenantId: variance.tenantId,
+          warehouseId: variance.warehouseId,
+          varianceId: variance.id,
+          eventType: 'BREACH',
+          priority: variance.priority,
+          dueAt,
+          minutesOverdue: Math.max(0, Math.floor((now.getTime() - dueAt.getTime()) / MINUTE_MS)),
+          notifiedUserIds: recipients,
+          escalatedFromId: variance.escalatedToId,
+          escalatedToId: nextApprover?.id,
+        },
+      });
+
+      return true;
+    });
+
+    if (!breached) {
+      return false;
+    }
+
+    if (nextApprover) {
+      // Route the variance again so the new approver can act on it
+      await approvalService.cancel('VARIANCE', variance.id, variance.tenantId);
+    }
+
+    logger.warn(
+      `Variance ${variance.id} (${variance.skuCode}) breached its ${variance.priority} SLA` +
+        (nextApprover ? `; escalated to ${nextApprover.role} ${nextApprover.id}` : '; no approver left to escalate to')
+    );
+
+    return !!nextApprover;
+  }
+
+  /**
+   * The approver the variance was escalated to, or everyone who can approve
+   * it at its approval level
+   */
+  private async getAssignees(variance: SlaVariance): Promise<string[]> {
+    if (variance.escalatedToId) {
+      return [variance.escalatedToId];
+    }
+
+    const users = await prisma.user.findMany({
+      where: {
+        tenantId: variance.tenantId,
+        isActive: true,
+        role: variance.approvalLevel === 'MANAGER' ? 'WAREHOUSE_MANAGER' : 'RECEIVING_SUPERVISOR',
+      },
+      select: { id: true },
+    });
+
+    return users.map((user) => user.id);
+  }
+
+  /**
+   * Active user one step up the escalation chain with the fewest open
+   * escalations, or null at the top of the chain
+   */
+  private async findNextApprover(variance: SlaVariance): Promise<{ id: string; role: UserRole } | null> {
+    const currentRole: UserRole =
+      variance.escalatedTo?.role ?? (variance.approvalLevel === 'MANAGER' ? 'WAREHOUSE_MANAGER' : 'RECEIVING_SUPERVISOR');
+    const currentIndex = Math.max(ESCALATION_CHAIN.indexOf(currentRole), 0);
+
+    for (const role of ESCALATION_CHAIN.slice(currentIndex + 1)) {
+      const users = await prisma.user.findMany({
+        where: { tenantId: variance.tenantId, isActive: true, role },
+        select: { id: true, role: true },
+      });
+      if (users.length === 0) continue;
+
+      const load = await prisma.variance.groupBy({
+        by: ['escalatedToId'],
+        where: { escalatedToId: { in: users.map((user) => user.id) }, status: 'ESCALATED' },
+        _count: { _all: true },
+      });
+      const openEscalations = (userId: string) => load.find((row) => row.escalatedToId === userId)?._count._all ?? 0;
+
+      return users.sort((a, b) => openEscalations(a.id) - openEscalations(b.id))[0];
+    }
+
+    return null;
+  }
+}
+
+export default new VarianceSlaService();
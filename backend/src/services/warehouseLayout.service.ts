@@ -0,0 +1,717 @@
+import crypto from 'crypto';
+import { parse } from 'csv-parse/sync';
+import { Prisma, LayoutEdgeType, LayoutNodeType, Location, PickPathStrategy } from '@prisma/client';
+import prisma from '../config/database';
+import { AppError } from '../middleware/errorHandler';
+import { calculatePutawayDuration, estimateWalkingDistance } from '../utils/helpers';
+import {
+  LayoutAisle,
+  LayoutGraph,
+  LayoutPoint,
+  buildAisles,
+  buildLayoutGraph,
+  nearestNode,
+  planarDistance,
+  segmentCrossesBox,
+  shortestPaths,
+} from '../utils/layoutGraph';
+
+export type LayoutFormat = 'CSV' | 'JSON';
+
+export interface LayoutDocument {
+  nodes: Array<{ code: string; type: LayoutNodeType; x: number; y: number; z: number }>;
+  edges: Array<{
+    from: string;
+    to: string;
+    type: LayoutEdgeType;
+    aisle?: string;
+    // Defaults to the straight-line distance between the two nodes
+    lengthMeters?: number;
+    oneWay: boolean;
+  }>;
+  obstacles: Array<{ code: string; description?: string; minX: number; minY: number; maxX: number; maxY: number }>;
+  // Bin positions; bins without a node are linked to the nearest one in the clear
+  locations: Array<{ code: string; x: number; y: number; z?: number; node?: string }>;
+}
+
+export interface ImportLayoutInput {
+  tenantId: string;
+  warehouseId: string;
+  format: LayoutFormat;
+  document: string;
+}
+
+export interface LayoutImportSummary {
+  nodes: number;
+  edges: number;
+  obstacles: number;
+  locations: number;
+}
+
+// Location fields needed to place a bin on the layout
+export type LayoutPosition = Pick<Location, 'aisleNumber' | 'rackNumber' | 'layoutNodeId' | 'xMeters' | 'yMeters'>;
+
+export const LAYOUT_POSITION_SELECT = Prisma.validator<Prisma.LocationSelect>()({
+  aisleNumber: true,
+  rackNumber: true,
+  layoutNodeId: true,
+  xMeters: true,
+  yMeters: true,
+});
+
+export interface LayoutRoute {
+  distanceMeters: number;
+  // Estimated from aisle and rack numbers because the layout could not route it
+  estimated: boolean;
+}
+
+export interface LayoutRouter {
+  hasLayout: boolean;
+  // A null start is the warehouse's first dock, or the front cross-aisle
+  route(from: LayoutPosition | null, to: LayoutPosition): LayoutRoute;
+  // Aisles with a code on their aisle edges, ordered across the floor
+  aisles: LayoutAisle[];
+  // Where picking trips start and end: the first staging node, else the first dock
+  depot: LayoutPosition | null;
+  // The aisle a bin is reached from and how far along it the bin sits
+  locate(position: LayoutPosition): { aisle: LayoutAisle; offset: number } | null;
+}
+
+export interface TravelEstimate {
+  distanceMeters: number;
+  durationMinutes: number;
+  hasLayout: boolean;
+  legs: Array<{ from: string | null; to: string; distanceMeters: number; estimated: boolean }>;
+}
+
+const NODE_TYPES: LayoutNodeType[] = ['AISLE', 'CROSS_AISLE', 'DOCK', 'STAGING'];
+const EDGE_TYPES: LayoutEdgeType[] = ['AISLE', 'CROSS_AISLE'];
+
+// Routers are rebuilt at most this often, or straight after an import
+const ROUTER_CACHE_MS = 5 * 60 * 1000;
+
+const MAX_REPORTED_ISSUES = 20;
+
+const FRONT_CROSS_AISLE = { aisleNumber: null, rackNumber: null };
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * A layout node as a routable position
+ */
+export const nodePosition = (nodeId: string): LayoutPosition => ({
+  aisleNumber: null,
+  rackNumber: null,
+  layoutNodeId: nodeId,
+  xMeters: null,
+  yMeters: null,
+});
+
+export class WarehouseLayoutService {
+  private routers = new Map<string, { router: LayoutRouter; expiresAt: number }>();
+
+  /**
+   * Replace a warehouse's layout with one read from CSV or JSON. The whole
+   * document is checked first and nothing is saved if any part is invalid.
+   */
+  async importLayout(input: ImportLayoutInput): Promise<LayoutImportSummary> {
+    const warehouse = await prisma.warehouse.findFirst({
+      where: { id: input.warehouseId, tenantId: input.tenantId },
+      select: { id: true },
+    });
+
+    if (!warehouse) {
+      throw new AppError('Warehouse not found', 404);
+    }
+
+    const { layout, issues } = input.format === 'CSV' ? this.parseCsv(input.document) : this.parseJson(input.document);
+    const locationIds = new Map<string, string>();
+
+    if (issues.length === 0) {
+      issues.push(...(await this.check(input.warehouseId, layout, locationIds)));
+    }
+
+    if (issues.length > 0) {
+      const shown = issues.slice(0, MAX_REPORTED_ISSUES).join('; ');
+      const more = issues.length > MAX_REPORTED_ISSUES ? ` (and ${issues.length - MAX_REPORTED_ISSUES} more)` : '';
+      throw new AppError(`Invalid layout: ${shown}${more}`, 400);
+    }
+
+    const nodeIds = new Map(layout.nodes.map((node) => [node.code, crypto.randomUUID()]));
+    const graph = buildLayoutGraph(
+      layout.nodes.map((node) => ({ id: nodeIds.get(node.code)!, code: node.code, x: node.x, y: node.y })),
+      [],
+      layout.obstacles
+    );
+    const scope = { tenantId: input.tenantId, warehouseId: input.warehouseId };
+
+    await prisma.$transaction(
+      async (tx) => {
+        await tx.location.updateMany({
+          where: { warehouseId: input.warehouseId, layoutNodeId: { not: null } },
+          data: { layoutNodeId: null },
+        });
+        await tx.layoutEdge.deleteMany({ where: { warehouseId: input.warehouseId } });
+        await tx.layoutNode.deleteMany({ where: { warehouseId: input.warehouseId } });
+        await tx.layoutObstacle.deleteMany({ where: { warehouseId: input.warehouseId } });
+
+        await tx.layoutNode.createMany({
+          data: layout.nodes.map((node) => ({
+            ...scope,
+            id: nodeIds.get(node.code)!,
+            code: node.code,
+            nodeType: node.type,
+            xMeters: node.x,
+            yMeters: node.y,
+            zMeters: node.z,
+          })),
+        });
+
+        const positions = new Map(layout.nodes.map((node) => [node.code, node]));
+        await tx.layoutEdge.createMany({
+          data: layout.edges.map((edge) => ({
+            ...scope,
+            fromNodeId: nodeIds.get(edge.from)!,
+            toNodeId: nodeIds.get(edge.to)!,
+            edgeType: edge.type,
+            aisleCode: edge.aisle,
+            lengthMeters: round(edge.lengthMeters ?? planarDistance(positions.get(edge.from)!, positions.get(edge.to)!)),
+            oneWay: edge.oneWay,
+          })),
+        });
+
+        await tx.layoutObstacle.createMany({
+          data: layout.obstacles.map((obstacle) => ({
+            ...scope,
+            code: obstacle.code,
+            description: obstacle.description,
+            minXMeters: obstacle.minX,
+            minYMeters: obstacle.minY,
+            maxXMeters: obstacle.maxX,
+            maxYMeters: obstacle.maxY,
+          })),
+        });
+
+        for (const entry of layout.locations) {
+          await tx.location.update({
+            where: { id: locationIds.get(entry.code)! },
+            data: {
+              xMeters: entry.x,
+              yMeters: entry.y,
+              zMeters: entry.z,
+              layoutNodeId: entry.node ? nodeIds.get(entry.node)! : nearestNode(graph, entry)!.id,
+            },
+          });
+        }
+
+        await tx.warehouse.update({
+          where: { id: input.warehouseId },
+          data: { layoutUpdatedAt: new Date() },
+        });
+      },
+      // Large floors update thousands of bins
+      { timeout: 60000 }
+    );
+
+    this.routers.delete(input.warehouseId);
+
+    return {
+      nodes: layout.nodes.length,
+      edges: layout.edges.length,
+      obstacles: layout.obstacles.length,
+      locations: layout.locations.length,
+    };
+  }
+
+  /**
+   * Get a warehouse's layout graph, with how many bins are placed on it
+   */
+  async getLayout(tenantId: string, warehouseId: string) {
+    const warehouse = await prisma.warehouse.findFirst({
+      where: { id: warehouseId, tenantId },
+      select: { id: true, code: true, layoutUpdatedAt: true, pickPathStrategy: true },
+    });
+
+    if (!warehouse) {
+      throw new AppError('Warehouse not found', 404);
+    }
+
+    const [nodes, edges, obstacles, totalLocations, linkedLocations] = await Promise.all([
+      prisma.layoutNode.findMany({ where: { warehouseId }, orderBy: { code: 'asc' } }),
+      prisma.layoutEdge.findMany({
+        where: { warehouseId },
+        include: {
+          fromNode: { select: { code: true } },
+          toNode: { select: { code: true } },
+        },
+      }),
+      prisma.layoutObstacle.findMany({ where: { warehouseId }, orderBy: { code: 'asc' } }),
+      prisma.location.count({ where: { warehouseId } }),
+      prisma.location.count({ where: { warehouseId, layoutNodeId: { not: null } } }),
+    ]);
+
+    return {
+      warehouse,
+      nodes,
+      edges,
+      obstacles,
+      locations: {
+        total: totalLocations,
+        linked: linkedLocations,
+      },
+    };
+  }
+
+  /**
+   * Choose how pick tasks in a warehouse are routed
+   */
+  async setPickPathStrategy(tenantId: string, warehouseId: string, strategy: PickPathStrategy) {
+    const warehouse = await prisma.warehouse.findFirst({
+      where: { id: warehouseId, tenantId },
+      select: { id: true },
+    });
+
+    if (!warehouse) {
+      throw new AppError('Warehouse not found', 404);
+    }
+
+    return prisma.warehouse.update({
+      where: { id: warehouseId },
+      data: { pickPathStrategy: strategy },
+      select: { id: true, code: true, pickPathStrategy: true },
+    });
+  }
+
+  /**
+   * Estimate the walk through a list of bins in the order given, and how
+   * long it takes including handling the quantity
+   */
+  async estimateTravel(
+    tenantId: string,
+    warehouseId: string,
+    params: { fromLocationCode?: string; locationCodes: string[]; quantity?: number }
+  ): Promise<TravelEstimate> {
+    const warehouse = await prisma.warehouse.findFirst({
+      where: { id: warehouseId, tenantId },
+      select: { id: true },
+    });
+
+    if (!warehouse) {
+      throw new AppError('Warehouse not found', 404);
+    }
+
+    const codes = [...(params.fromLocationCode ? [params.fromLocationCode] : []), ...params.locationCodes];
+    const locations = await prisma.location.findMany({
+      where: { warehouseId, code: { in: codes } },
+      select: { code: true, ...LAYOUT_POSITION_SELECT },
+    });
+    const byCode = new Map(locations.map((location) => [location.code, location]));
+
+    const missing = codes.filter((code) => !byCode.has(code));
+    if (missing.length > 0) {
+      throw new AppError(`Location not found: ${[...new Set(missing)].join(', ')}`, 404);
+    }
+
+    const router = await this.getRouter(warehouseId);
+    let position: (typeof locations)[number] | null = params.fromLocationCode
+      ? byCode.get(params.fromLocationCode)!
+      : null;
+
+    const legs = params.locationCodes.map((code) => {
+      const to = byCode.get(code)!;
+      const leg = router.route(position, to);
+      const from = position ? position.code : null;
+      position = to;
+      return { from, to: code, distanceMeters: round(leg.distanceMeters), estimated: leg.estimated };
+    });
+
+    const distanceMeters = round(legs.reduce((total, leg) => total + leg.distanceMeters, 0));
+
+    return {
+      distanceMeters,
+      durationMinutes: calculatePutawayDuration(distanceMeters, params.quantity ?? 0),
+      hasLayout: router.hasLayout,
+      legs,
+    };
+  }
+
+  /**
+   * Walking-distance router for a warehouse. Without an imported layout,
+   * or for bins the layout cannot reach, distances fall back to the
+   * aisle and rack estimate.
+   */
+  async getRouter(warehouseId: string): Promise<LayoutRouter> {
+    const cached = this.routers.get(warehouseId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.router;
+    }
+
+    const [nodes, edges, obstacles] = await Promise.all([
+      prisma.layoutNode.findMany({ where: { warehouseId }, orderBy: { code: 'asc' } }),
+      prisma.layoutEdge.findMany({ where: { warehouseId } }),
+      prisma.layoutObstacle.findMany({ where: { warehouseId } }),
+    ]);
+
+    const graph =
+      nodes.length > 0
+        ? buildLayoutGraph(
+            nodes.map((node) => ({ id: node.id, code: node.code, x: Number(node.xMeters), y: Number(node.yMeters) })),
+            edges.map((edge) => ({
+              fromNodeId: edge.fromNodeId,
+              toNodeId: edge.toNodeId,
+              lengthMeters: Number(edge.lengthMeters),
+              oneWay: edge.oneWay,
+            })),
+            obstacles.map((obstacle) => ({
+              minX: Number(obstacle.minXMeters),
+              minY: Number(obstacle.minYMeters),
+              maxX: Number(obstacle.maxXMeters),
+              maxY: Number(obstacle.maxYMeters),
+            }))
+          )
+        : null;
+    const dock = nodes.find((node) => node.nodeType === 'DOCK');
+    const depot = nodes.find((node) => node.nodeType === 'STAGING') || dock;
+    const aisles = graph
+      ? buildAisles(
+          graph,
+          edges
+            .filter((edge) => edge.edgeType === 'AISLE' && edge.aisleCode)
+            .map((edge) => ({ fromNodeId: edge.fromNodeId, toNodeId: edge.toNodeId, aisleCode: edge.aisleCode! }))
+        )
+      : [];
+
+    const router = this.createRouter(graph, aisles, dock?.id, depot?.id);
+    this.routers.set(warehouseId, { router, expiresAt: Date.now() + ROUTER_CACHE_MS });
+
+    return router;
+  }
+
+  private createRouter(
+    graph: LayoutGraph | null,
+    aisles: LayoutAisle[],
+    dockNodeId?: string,
+    depotNodeId?: string
+  ): LayoutRouter {
+    const estimate = (from: LayoutPosition | null, to: LayoutPosition): LayoutRoute => ({
+      distanceMeters: estimateWalkingDistance(from || FRONT_CROSS_AISLE, to),
+      estimated: true,
+    });
+
+    if (!graph) {
+      return { hasLayout: false, route: estimate, aisles: [], depot: null, locate: () => null };
+    }
+
+    const paths = new Map<string, Map<string, number>>();
+    const pathsFrom = (nodeId: string) => {
+      if (!paths.has(nodeId)) paths.set(nodeId, shortestPaths(graph, nodeId));
+      return paths.get(nodeId)!;
+    };
+
+    const pointOf = (position: LayoutPosition): LayoutPoint | null =>
+      position.xMeters !== null && position.yMeters !== null
+        ? { x: Number(position.xMeters), y: Number(position.yMeters) }
+        : null;
+
+    // The node a bin is reached from, and the walk between them
+    const access = (position: LayoutPosition): { nodeId: string; meters: number } | null => {
+      const point = pointOf(position);
+      const node =
+        (position.layoutNodeId && graph.nodes.get(position.layoutNodeId)) || (point && nearestNode(graph, point));
+
+      if (!node) {
+        return null;
+      }
+
+      return { nodeId: node.id, meters: point ? planarDistance(point, node) : 0 };
+    };
+
+    const aisleOfNode = new Map<string, LayoutAisle>();
+    for (const aisle of aisles) {
+      for (const nodeId of aisle.nodeIds) aisleOfNode.set(nodeId, aisle);
+    }
+
+    return {
+      hasLayout: true,
+      route: (from, to) => {
+        const start = from ? access(from) : dockNodeId ? { nodeId: dockNodeId, meters: 0 } : null;
+        const end = access(to);
+        const between = start && end ? pathsFrom(start.nodeId).get(end.nodeId) : undefined;
+
+        if (!start || !end || between === undefined) {
+          return estimate(from, to);
+        }
+
+        return { distanceMeters: start.meters + between + end.meters, estimated: false };
+      },
+      aisles,
+      depot: depotNodeId ? nodePosition(depotNodeId) : null,
+      locate: (position) => {
+        const reached = access(position);
+        const aisle = reached && aisleOfNode.get(reached.nodeId);
+        if (!aisle) {
+          return null;
+        }
+
+        const point = pointOf(position) || graph.nodes.get(reached.nodeId)!;
+        return { aisle, offset: point[aisle.axis] };
+      },
+    };
+  }
+
+  /**
+   * Check references between the parts of a layout, that edges avoid
+   * obstacles and that every bin exists and can reach a node; fills in the
+   * ids of the bins named
+   */
+  private async check(warehouseId: string, layout: LayoutDocument, locationIds: Map<string, string>): Promise<string[]> {
+    const issues: string[] = [];
+    const duplicates = (label: string, codes: string[]) => {
+      const seen = new Set<string>();
+      for (const code of codes) {
+        if (seen.has(code)) issues.push(`${label} ${code} appears more than once`);
+        seen.add(code);
+      }
+    };
+
+    if (layout.nodes.length === 0) {
+      issues.push('Layout has no nodes');
+    }
+
+    duplicates('Node', layout.nodes.map((node) => node.code));
+    duplicates('Obstacle', layout.obstacles.map((obstacle) => obstacle.code));
+    duplicates('Location', layout.locations.map((location) => location.code));
+
+    const nodes = new Map(layout.nodes.map((node) => [node.code, node]));
+
+    for (const obstacle of layout.obstacles) {
+      if (obstacle.minX >= obstacle.maxX || obstacle.minY >= obstacle.maxY) {
+        issues.push(`Obstacle ${obstacle.code} must have min coordinates below its max coordinates`);
+      }
+    }
+
+    for (const edge of layout.edges) {
+      const from = nodes.get(edge.from);
+      const to = nodes.get(edge.to);
+      const label = `Edge ${edge.from} -> ${edge.to}`;
+
+      if (!from || !to) {
+        issues.push(`${label} references an unknown node`);
+        continue;
+      }
+      if (edge.from === edge.to) {
+        issues.push(`${label} starts and ends at the same node`);
+        continue;
+      }
+      if (edge.lengthMeters !== undefined && edge.lengthMeters <= 0) {
+        issues.push(`${label} must have a positive length`);
+      }
+
+      const blocking = layout.obstacles.find((obstacle) => segmentCrossesBox(from, to, obstacle));
+      if (blocking) {
+        issues.push(`${label} crosses obstacle ${blocking.code}`);
+      }
+    }
+
+    const known = await prisma.location.findMany({
+      where: { warehouseId, code: { in: layout.locations.map((location) => location.code) } },
+      select: { id: true, code: true },
+    });
+    for (const location of known) {
+      locationIds.set(location.code, location.id);
+    }
+
+    const graph = buildLayoutGraph(
+      layout.nodes.map((node) => ({ id: node.code, code: node.code, x: node.x, y: node.y })),
+      [],
+      layout.obstacles
+    );
+
+    for (const location of layout.locations) {
+      if (!locationIds.has(location.code)) {
+        issues.push(`Location ${location.code} does not exist in this warehouse`);
+      } else if (location.node && !nodes.has(location.node)) {
+        issues.push(`Location ${location.code} references unknown node ${location.node}`);
+      } else if (!location.node && !nearestNode(graph, location)) {
+        issues.push(`Location ${location.code} cannot reach any node without crossing an obstacle`);
+      }
+    }
+
+    return issues;
+  }
+
+  /**
+   * Read a CSV layout: one row per node, edge, obstacle or bin, told apart
+   * by the record column. Obstacles use x,y as their min corner and
+   * max_x,max_y as the max corner.
+   */
+  private parseCsv(document: string): { layout: LayoutDocument; issues: string[] } {
+    const layout: LayoutDocument = { nodes: [], edges: [], obstacles: [], locations: [] };
+    const issues: string[] = [];
+
+    let rows: Array<Record<string, string>>;
+    try {
+      rows = parse(document, { columns: true, skip_empty_lines: true, trim: true });
+    } catch (error) {
+      return { layout, issues: [`CSV could not be read: ${(error as Error).message}`] };
+    }
+
+    rows.forEach((row, index) => {
+      // Line 1 is the header
+      const line = `Line ${index + 2}`;
+      const number = (column: string, required = true) => this.number(row[column], `${line}: ${column}`, issues, required);
+      const record = (row.record || '').toUpperCase();
+
+      switch (record) {
+        case 'NODE':
+          layout.nodes.push({
+            code: this.text(row.code, `${line}: code`, issues),
+            type: this.choice(row.type, NODE_TYPES, `${line}: type`, issues),
+            x: number('x')!,
+            y: number('y')!,
+            z: number('z', false) ?? 0,
+          });
+          break;
+        case 'EDGE':
+          layout.edges.push({
+            from: this.text(row.from, `${line}: from`, issues),
+            to: this.text(row.to, `${line}: to`, issues),
+            type: this.choice(row.type, EDGE_TYPES, `${line}: type`, issues),
+            aisle: row.aisle || undefined,
+            lengthMeters: number('length', false),
+            oneWay: ['true', 'yes', '1'].includes((row.one_way || '').toLowerCase()),
+          });
+          break;
+        case 'OBSTACLE':
+          layout.obstacles.push({
+            code: this.text(row.code, `${line}: code`, issues),
+            description: row.description || undefined,
+            minX: number('x')!,
+            minY: number('y')!,
+            maxX: number('max_x')!,
+            maxY: number('max_y')!,
+          });
+          break;
+        case 'LOCATION':
+          layout.locations.push({
+            code: this.text(row.code, `${line}: code`, issues),
+            x: number('x')!,
+            y: number('y')!,
+            z: number('z', false),
+            node: row.node || undefined,
+          });
+          break;
+        default:
+          issues.push(`${line}: record must be NODE, EDGE, OBSTACLE or LOCATION`);
+      }
+    });
+
+    return { layout, issues };
+  }
+
+  /**
+   * Read a JSON layout: { nodes, edges, obstacles, locations } arrays
+   * shaped like LayoutDocument
+   */
+  private parseJson(document: string): { layout: LayoutDocument; issues: string[] } {
+    const layout: LayoutDocument = { nodes: [], edges: [], obstacles: [], locations: [] };
+    const issues: string[] = [];
+
+    let raw: Record<string, unknown>;
+    try {
+      raw = JSON.parse(document);
+    } catch (error) {
+      return { layout, issues: [`JSON could not be read: ${(error as Error).message}`] };
+    }
+
+    const list = (key: keyof LayoutDocument): Array<Record<string, unknown>> => {
+      const value = raw?.[key];
+      if (value === undefined) return [];
+      if (!Array.isArray(value)) {
+        issues.push(`${key} must be an array`);
+        return [];
+      }
+      return value;
+    };
+
+    list('nodes').forEach((node, index) => {
+      const at = `nodes[${index}]`;
+      layout.nodes.push({
+        code: this.text(node.code, `${at}.code`, issues),
+        type: this.choice(node.type, NODE_TYPES, `${at}.type`, issues),
+        x: this.number(node.x, `${at}.x`, issues)!,
+        y: this.number(node.y, `${at}.y`, issues)!,
+        z: this.number(node.z, `${at}.z`, issues, false) ?? 0,
+      });
+    });
+
+    list('edges').forEach((edge, index) => {
+      const at = `edges[${index}]`;
+      layout.edges.push({
+        from: this.text(edge.from, `${at}.from`, issues),
+        to: this.text(edge.to, `${at}.to`, issues),
+        type: this.choice(edge.type, EDGE_TYPES, `${at}.type`, issues),
+        aisle: typeof edge.aisle === 'string' ? edge.aisle : undefined,
+        lengthMeters: this.number(edge.lengthMeters, `${at}.lengthMeters`, issues, false),
+        oneWay: edge.oneWay === true,
+      });
+    });
+
+    list('obstacles').forEach((obstacle, index) => {
+      const at = `obstacles[${index}]`;
+      layout.obstacles.push({
+        code: this.text(obstacle.code, `${at}.code`, issues),
+        description: typeof obstacle.description === 'string' ? obstacle.description : undefined,
+        minX: this.number(obstacle.minX, `${at}.minX`, issues)!,
+        minY: this.number(obstacle.minY, `${at}.minY`, issues)!,
+        maxX: this.number(obstacle.maxX, `${at}.maxX`, issues)!,
+        maxY: this.number(obstacle.maxY, `${at}.maxY`, issues)!,
+      });
+    });
+
+    list('locations').forEach((location, index) => {
+      const at = `locations[${index}]`;
+      layout.locations.push({
+        code: this.text(location.code, `${at}.code`, issues),
+        x: this.number(location.x, `${at}.x`, issues)!,
+        y: this.number(location.y, `${at}.y`, issues)!,
+        z: this.number(location.z, `${at}.z`, issues, false),
+        node: typeof location.node === 'string' ? location.node : undefined,
+      });
+    });
+
+    return { layout, issues };
+  }
+
+  private text(value: unknown, label: string, issues: string[]): string {
+    if (typeof value !== 'string' || value.trim() === '') {
+      issues.push(`${label} is required`);
+      return '';
+    }
+    return value.trim();
+  }
+
+  private number(value: unknown, label: string, issues: string[], required = true): number | undefined {
+    if (value === undefined || value === null || value === '') {
+      if (required) issues.push(`${label} is required`);
+      return undefined;
+    }
+
+    const parsed = typeof value === 'number' ? value : Number(value);
+    if (!Number.isFinite(parsed)) {
+      issues.push(`${label} must be a number`);
+      return undefined;
+    }
+    return parsed;
+  }
+
+  private choice<T extends string>(value: unknown, options: T[], label: string, issues: string[]): T {
+    const upper = typeof value === 'string' ? value.trim().toUpperCase() : '';
+    if (!options.includes(upper as T)) {
+      issues.push(`${label} must be one of ${options.join(', ')}`);
+    }
+    return upper as T;
+  }
+}
+
+export default new WarehouseLayoutService();
@@ -0,0 +1,8 @@
+/**
+ * Measured size of a SKU unit or an LPN, as stored in their dimensions JSON
+ */
+export interface ItemDimensions {
+  lengthCm: number;
+  widthCm: number;
+  heightCm: number;
+}
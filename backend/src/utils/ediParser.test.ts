@@ -0,0 +1,198 @@
+import { detectEDIFormat, parseASNDocument, parseDESADV, parseX12856 } from './ediParser';
+
+const ISA =
+  'ISA*00*          *00*          *ZZ*SENDERID       *ZZ*RECEIVERID     *250601*1200*U*00401*000000001*0*P*>~';
+
+const GS = 'GS*SH*SENDERID*RECEIVERID*20250601*1200*1*X*004010~';
+const UNB = "UNA:+.? '\nUNB+UNOC:3+SENDER:14+RECEIVER:14+250601:1200+REF1'";
+
+const x12 = (...segments: string[]): string => [ISA, GS, ...segments.map((segment) => `${segment}~`)].join('\n');
+
+const desadv = (...segments: string[]): string => [UNB, ...segments.map((segment) => `${segment}'`)].join('\n');
+
+describe('detectEDIFormat', () => {
+  it('detects the format from the envelope', () => {
+    expect(detectEDIFormat(`\uFEFF${ISA}`)).toBe('X12_856');
+    expect(detectEDIFormat("UNB+UNOC:3+SENDER'")).toBe('EDIFACT_DESADV');
+    expect(detectEDIFormat('<xml/>')).toBeNull();
+  });
+
+  it('reports an unrecognised document', () => {
+    const document = parseASNDocument('<xml/>');
+
+    expect(document.shipments).toEqual([]);
+    expect(document.issues[0].message).toContain('Unrecognised document');
+  });
+});
+
+describe('parseX12856', () => {
+  const notice = x12(
+    'ST*856*0001',
+    'BSN*00*SHIP-1*20250601*1200',
+    'DTM*017*20250605',
+    'TD5*B*2*UPSN',
+    'REF*CN*1Z999',
+    'N1*SF*Acme Supply*92*SUP-1',
+    'N1*ST*Main DC*92*DC1',
+    'HL*1**S',
+    'HL*2*1*O',
+    'PRF*PO-100',
+    'HL*3*2*I',
+    'LIN**VP*SKU-A*UP*09506000134352',
+    'SN1**10*EA',
+    'REF*LT*LOT-1',
+    'DTM*036*20261231',
+    'LIN**VP*SKU-B',
+    'SN1**5*CS',
+    'PID*F****Widget B',
+    'CTT*3',
+    'SE*20*0001',
+    'GE*1*1',
+    'IEA*1*000000001'
+  );
+
+  it('reads the envelope and shipment header', () => {
+    const document = parseX12856(notice);
+
+    expect(document.issues).toEqual([]);
+    expect(document.senderId).toBe('SENDERID');
+    expect(document.controlNumber).toBe('000000001');
+    expect(document.shipments).toHaveLength(1);
+    expect(document.shipments[0]).toMatchObject({
+      shipmentId: 'SHIP-1',
+      shipDate: new Date(Date.UTC(2025, 5, 1, 12, 0)),
+      expectedArrivalDate: new Date(Date.UTC(2025, 5, 5)),
+      carrier: 'UPSN',
+      trackingNumber: '1Z999',
+      supplierCode: 'SUP-1',
+      supplierName: 'Acme Supply',
+      shipToCode: 'DC1',
+      poNumbers: ['PO-100'],
+    });
+  });
+
+  it('keeps each LIN under one HL item as its own line', () => {
+    const [first, second] = parseX12856(notice).shipments[0].items;
+
+    expect(first).toMatchObject({
+      lineNumber: 1,
+      poNumber: 'PO-100',
+      supplierItemCode: 'SKU-A',
+      gtin: '09506000134352',
+      quantity: 10,
+      uom: 'EA',
+      batchNumber: 'LOT-1',
+      expiryDate: new Date(Date.UTC(2026, 11, 31)),
+    });
+    expect(second).toMatchObject({
+      lineNumber: 2,
+      poNumber: 'PO-100',
+      supplierItemCode: 'SKU-B',
+      quantity: 5,
+      uom: 'CS',
+      description: 'Widget B',
+    });
+    expect(second.gtin).toBeUndefined();
+    expect(second.batchNumber).toBeUndefined();
+    expect(first.endSegmentIndex).toBe(second.segmentIndex);
+  });
+
+  it('reports invalid quantities, dates and trailer counts', () => {
+    const document = parseX12856(
+      x12(
+        'ST*856*0001',
+        'BSN*00*SHIP-2*20250601',
+        'HL*1**S',
+        'HL*2*1*I',
+        'LIN**VP*SKU-A',
+        'SN1**0*EA',
+        'DTM*036*20250231',
+        'SE*99*0001'
+      )
+    );
+
+    expect(document.issues.map((issue) => [issue.segmentId, issue.severity])).toEqual([
+      ['SN1', 'ERROR'],
+      ['DTM', 'ERROR'],
+      ['SE', 'WARNING'],
+    ]);
+  });
+
+  it('reports a ship notice without items and a truncated header', () => {
+    expect(parseX12856(x12('ST*856*0001', 'BSN*00*SHIP-3*20250601', 'SE*3*0001')).issues).toEqual([
+      expect.objectContaining({ segmentId: 'ST', message: 'Ship notice contains no items' }),
+    ]);
+    expect(parseX12856('ISA*00').issues[0].message).toBe('Missing or truncated ISA interchange header');
+  });
+});
+
+describe('parseDESADV', () => {
+  const advice = desadv(
+    'UNH+1+DESADV:D:96A:UN',
+    'BGM+351+DN-1+9',
+    'DTM+11:20250601:102',
+    'DTM+132:20250605:102',
+    'RFF+ON:PO-200',
+    'NAD+SU+SUP-2::9++Acme?+Co',
+    'NAD+DP+DC1::9',
+    'CPS+1',
+    'GIN+BJ+PALLET-1',
+    'LIN+1++09506000134352:SRV',
+    'PIA+1+SKU-C:SA',
+    'IMD+F++:::Widget C',
+    'QTY+12:20:EA',
+    'GIN+BX+LOT-9',
+    'DTM+361:20261231:102',
+    'LIN+2++SKU-D:SA',
+    'QTY+12:4.5',
+    'UNT+18+1',
+    'UNZ+1+REF1'
+  );
+
+  it('reads the interchange and despatch header', () => {
+    const document = parseDESADV(advice);
+
+    expect(document.issues).toEqual([]);
+    expect(document.senderId).toBe('SENDER');
+    expect(document.controlNumber).toBe('REF1');
+    expect(document.shipments[0]).toMatchObject({
+      shipmentId: 'DN-1',
+      shipDate: new Date(Date.UTC(2025, 5, 1)),
+      expectedArrivalDate: new Date(Date.UTC(2025, 5, 5)),
+      supplierCode: 'SUP-2',
+      supplierName: 'Acme+Co',
+      shipToCode: 'DC1',
+      poNumbers: ['PO-200'],
+    });
+  });
+
+  it('reads line items with their package, codes, batch and expiry', () => {
+    const [first, second] = parseDESADV(advice).shipments[0].items;
+
+    expect(first).toMatchObject({
+      lineNumber: 1,
+      poNumber: 'PO-200',
+      packId: 'PALLET-1',
+      gtin: '09506000134352',
+      supplierItemCode: 'SKU-C',
+      description: 'Widget C',
+      quantity: 20,
+      uom: 'EA',
+      batchNumber: 'LOT-9',
+      expiryDate: new Date(Date.UTC(2026, 11, 31)),
+    });
+    expect(second).toMatchObject({ lineNumber: 2, packId: 'PALLET-1', supplierItemCode: 'SKU-D', quantity: 4.5 });
+    expect(second.gtin).toBeUndefined();
+    expect(first.endSegmentIndex).toBe(second.segmentIndex);
+  });
+
+  it('reports a wrong message type and items without codes or quantities', () => {
+    const document = parseDESADV(desadv('UNH+1+ORDERS:D:96A:UN', 'BGM+351+DN-2+9', 'LIN+1', 'UNT+4+1'));
+
+    expect(document.issues.map((issue) => issue.message)).toEqual([
+      'Message type ORDERS is not DESADV',
+      'Item 1 has no supplier item code, buyer item code or GTIN',
+      'Item 1 has no shipped quantity',
+    ]);
+  });
+});
@@ -0,0 +1,737 @@
+// ==========================================
+// EDI ADVANCE SHIP NOTICE PARSER
+// X12 856 and EDIFACT DESADV
+// ==========================================
+
+export type EDIFormat = 'X12_856' | 'EDIFACT_DESADV';
+
+export interface EDISegmentIssue {
+  segmentIndex: number;
+  segmentId: string;
+  element?: number;
+  severity: 'ERROR' | 'WARNING';
+  message: string;
+}
+
+export interface ParsedASNItem {
+  segmentIndex: number;
+  // First segment after the item's own; unset if the document ends first
+  endSegmentIndex?: number;
+  lineNumber: number;
+  poNumber?: string;
+  packId?: string;
+  supplierItemCode?: string;
+  buyerItemCode?: string;
+  gtin?: string;
+  description?: string;
+  quantity?: number;
+  uom?: string;
+  batchNumber?: string;
+  expiryDate?: Date;
+  serialNumbers: string[];
+}
+
+export interface ParsedASNShipment {
+  segmentIndex: number;
+  shipmentId?: string;
+  shipDate?: Date;
+  expectedArrivalDate?: Date;
+  carrier?: string;
+  trackingNumber?: string;
+  supplierCode?: string;
+  supplierName?: string;
+  shipToCode?: string;
+  poNumbers: string[];
+  items: ParsedASNItem[];
+}
+
+export interface ParsedASNDocument {
+  format: EDIFormat;
+  controlNumber?: string;
+  senderId?: string;
+  shipments: ParsedASNShipment[];
+  issues: EDISegmentIssue[];
+}
+
+interface Segment {
+  index: number;
+  id: string;
+  elements: string[][];
+}
+
+/**
+ * Read a component from a segment (element 0 is the segment tag)
+ */
+const el = (segment: Segment, element: number, component = 0): string | undefined => {
+  const value = segment.elements[element]?.[component];
+  return value !== undefined && value.trim() !== '' ? value.trim() : undefined;
+};
+
+/**
+ * Parse CCYYMMDD / YYMMDD (optionally followed by HHMM) into a UTC date
+ */
+const parseEDIDate = (value?: string, time?: string): Date | undefined => {
+  if (!value || !/^\d{6}(\d{2})?(\d{4})?$/.test(value)) return undefined;
+
+  const full = value.length === 6 ? `20${value}` : value;
+  const year = parseInt(full.substring(0, 4), 10);
+  const month = parseInt(full.substring(4, 6), 10) - 1;
+  const day = parseInt(full.substring(6, 8), 10);
+  const clock = (time || full.substring(8, 12) || '0000').padEnd(4, '0');
+  const date = new Date(
+    Date.UTC(year, month, day, parseInt(clock.substring(0, 2), 10), parseInt(clock.substring(2, 4), 10))
+  );
+
+  return date.getUTCMonth() === month && date.getUTCDate() === day ? date : undefined;
+};
+
+const parseQuantity = (value?: string): number | undefined => {
+  if (!value) return undefined;
+  const quantity = Number(value.replace(',', '.'));
+  return Number.isFinite(quantity) ? quantity : undefined;
+};
+
+/**
+ * Detect the document format from its envelope
+ */
+export const detectEDIFormat = (raw: string): EDIFormat | null => {
+  const text = raw.replace(/^\uFEFF/, '').trimStart();
+  if (text.startsWith('ISA')) return 'X12_856';
+  if (/^(UNA|UNB|UNH)/.test(text)) return 'EDIFACT_DESADV';
+  return null;
+};
+
+// ==========================================
+// X12 856
+// ==========================================
+
+const tokenizeX12 = (raw: string): Segment[] => {
+  const text = raw.replace(/^\uFEFF/, '').trimStart();
+  const elementSeparator = text[3];
+  const componentSeparator = text[104];
+  const segmentTerminator = text[105];
+
+  return text
+    .split(segmentTerminator)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0)
+    .map((segment, i) => {
+      const elements = segment
+        .split(elementSeparator)
+        .map((element) => element.split(componentSeparator));
+      return { index: i + 1, id: elements[0][0], elements };
+    });
+};
+
+/**
+ * Parse an X12 856 Ship Notice/Manifest
+ */
+export const parseX12856 = (raw: string): ParsedASNDocument => {
+  const document: ParsedASNDocument = { format: 'X12_856', shipments: [], issues: [] };
+  const text = raw.replace(/^\uFEFF/, '').trimStart();
+
+  if (!text.startsWith('ISA') || text.length < 106) {
+    document.issues.push({
+      segmentIndex: 1,
+      segmentId: 'ISA',
+      severity: 'ERROR',
+      message: 'Missing or truncated ISA interchange header',
+    });
+    return document;
+  }
+
+  const segments = tokenizeX12(text);
+  let shipment: ParsedASNShipment | null = null;
+  let item: ParsedASNItem | null = null;
+  // The item described by the most recent LIN segment
+  let linItem: ParsedASNItem | null = null;
+  let poNumber: string | undefined;
+  let packId: string | undefined;
+  let transactionStart = 0;
+  let hlCount = 0;
+
+  const newItem = (segment: Segment): ParsedASNItem => {
+    const created: ParsedASNItem = {
+      segmentIndex: segment.index,
+      lineNumber: shipment!.items.length + 1,
+      poNumber,
+      packId,
+      serialNumbers: [],
+    };
+    shipment!.items.push(created);
+    return created;
+  };
+
+  for (const segment of segments) {
+    if (!shipment && !['ISA', 'GS', 'ST', 'GE', 'IEA'].includes(segment.id)) {
+      document.issues.push({
+        segmentIndex: segment.index,
+        segmentId: segment.id,
+        severity: 'ERROR',
+        message: 'Segment found outside of an ST/SE transaction set',
+      });
+      continue;
+    }
+
+    // An item runs up to the next hierarchical level or the end of its transaction set
+    if (item && ['HL', 'SE', 'ST'].includes(segment.id)) {
+      item.endSegmentIndex = segment.index;
+    }
+
+    switch (segment.id) {
+      case 'ISA':
+        document.senderId = el(segment, 6);
+        document.controlNumber = el(segment, 13);
+        break;
+
+      case 'ST':
+        if (el(segment, 1) !== '856') {
+          document.issues.push({
+            segmentIndex: segment.index,
+            segmentId: 'ST',
+            element: 1,
+            severity: 'ERROR',
+            message: `Transaction set ${el(segment, 1) || '(blank)'} is not an 856 ship notice`,
+          });
+        }
+        shipment = { segmentIndex: segment.index, poNumbers: [], items: [] };
+        document.shipments.push(shipment);
+        item = null;
+        poNumber = undefined;
+        packId = undefined;
+        transactionStart = segment.index;
+        hlCount = 0;
+        break;
+
+      case 'BSN':
+        shipment!.shipmentId = el(segment, 2);
+        shipment!.shipDate = parseEDIDate(el(segment, 3), el(segment, 4));
+        if (!shipment!.shipmentId) {
+          document.issues.push({
+            segmentIndex: segment.index,
+            segmentId: 'BSN',
+            element: 2,
+            severity: 'WARNING',
+            message: 'Shipment identification is missing',
+          });
+        }
+        break;
+
+      case 'HL': {
+        hlCount++;
+        const level = el(segment, 3);
+        if (level === 'O') {
+          poNumber = undefined;
+          packId = undefined;
+          item = null;
+        } else if (level === 'P' || level === 'T') {
+          packId = undefined;
+          item = null;
+        } else if (level === 'I') {
+          item = newItem(segment);
+        } else if (level !== 'S') {
+          document.issues.push({
+            segmentIndex: segment.index,
+            segmentId: 'HL',
+            element: 3,
+            severity: 'WARNING',
+            message: `Unsupported hierarchical level code ${level || '(blank)'}`,
+          });
+        }
+        break;
+      }
+
+      case 'TD5':
+        shipment!.carrier = el(segment, 3) || el(segment, 5) || shipment!.carrier;
+        break;
+
+      case 'REF': {
+        const qualifier = el(segment, 1);
+        const value = el(segment, 2);
+        if (item && (qualifier === 'LT' || qualifier === 'BT')) {
+          item.batchNumber = value;
+        } else if (item && (qualifier === 'SE' || qualifier === 'SN')) {
+          if (value) item.serialNumbers.push(value);
+        } else if (qualifier === 'CN' || (qualifier === 'BM' && !shipment!.trackingNumber)) {
+          shipment!.trackingNumber = value;
+        }
+        break;
+      }
+
+      case 'DTM': {
+        const qualifier = el(segment, 1);
+        const date = parseEDIDate(el(segment, 2), el(segment, 3));
+        if (!date) {
+          document.issues.push({
+            segmentIndex: segment.index,
+            segmentId: 'DTM',
+            element: 2,
+            severity: 'ERROR',
+            message: `Invalid date ${el(segment, 2) || '(blank)'} for qualifier ${qualifier}`,
+          });
+          break;
+        }
+        if (item && qualifier === '036') {
+          item.expiryDate = date;
+        } else if (qualifier === '011') {
+          shipment!.shipDate = date;
+        } else if (qualifier === '017' || qualifier === '067') {
+          shipment!.expectedArrivalDate = date;
+        }
+        break;
+      }
+
+      case 'N1': {
+        const entity = el(segment, 1);
+        if (entity === 'SF' || entity === 'SU' || entity === 'VN') {
+          shipment!.supplierName = el(segment, 2);
+          shipment!.supplierCode = el(segment, 4);
+        } else if (entity === 'ST') {
+          shipment!.shipToCode = el(segment, 4);
+        }
+        break;
+      }
+
+      case 'PRF':
+        poNumber = el(segment, 1);
+        if (poNumber && !shipment!.poNumbers.includes(poNumber)) {
+          shipment!.poNumbers.push(poNumber);
+        }
+        break;
+
+      case 'MAN':
+        packId = el(segment, 2);
+        break;
+
+      case 'LIN': {
+        // Each LIN is its own line, so a further LIN under the same HL item starts another one
+        if (item && item === linItem) {
+          item.endSegmentIndex = segment.index;
+          item = null;
+        }
+        const target: ParsedASNItem = item || newItem(segment);
+        item = target;
+        linItem = target;
+        for (let i = 2; i + 1 < segment.elements.length; i += 2) {
+          const qualifier = el(segment, i);
+          const value = el(segment, i + 1);
+          if (!qualifier || !value) continue;
+          if (['VP', 'VN', 'SA'].includes(qualifier)) target.supplierItemCode = value;
+          else if (['BP', 'IN'].includes(qualifier)) target.buyerItemCode = value;
+          else if (['UP', 'UK', 'EN', 'UA', 'EU'].includes(qualifier)) target.gtin = value;
+          else if (qualifier === 'LT') target.batchNumber = value;
+          else if (qualifier === 'SN') target.serialNumbers.push(value);
+        }
+        break;
+      }
+
+      case 'SN1': {
+        const target: ParsedASNItem = item || newItem(segment);
+        item = target;
+        target.quantity = parseQuantity(el(segment, 2));
+        target.uom = el(segment, 3);
+        if (target.quantity === undefined || target.quantity <= 0) {
+          document.issues.push({
+            segmentIndex: segment.index,
+            segmentId: 'SN1',
+            element: 2,
+            severity: 'ERROR',
+            message: `Invalid shipped quantity ${el(segment, 2) || '(blank)'}`,
+          });
+        }
+        break;
+      }
+
+      case 'PID':
+        if (item) item.description = el(segment, 5);
+        break;
+
+      case 'CTT':
+        if (parseInt(el(segment, 1) || '0', 10) !== hlCount) {
+          document.issues.push({
+            segmentIndex: segment.index,
+            segmentId: 'CTT',
+            element: 1,
+            severity: 'WARNING',
+            message: `CTT reports ${el(segment, 1)} hierarchical levels but ${hlCount} were found`,
+          });
+        }
+        break;
+
+      case 'SE': {
+        const expected = parseInt(el(segment, 1) || '0', 10);
+        const actual = segment.index - transactionStart + 1;
+        if (expected !== actual) {
+          document.issues.push({
+            segmentIndex: segment.index,
+            segmentId: 'SE',
+            element: 1,
+            severity: 'WARNING',
+            message: `SE reports ${expected} segments but the transaction set has ${actual}`,
+          });
+        }
+        shipment = null;
+        item = null;
+        break;
+      }
+
+      default:
+        break;
+    }
+  }
+
+  validateShipments(document, 'HL');
+  return document;
+};
+
+// ==========================================
+// EDIFACT DESADV
+// ==========================================
+
+const splitEscaped = (text: string, separator: string, release: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === release && i + 1 < text.length) {
+      current += ch + text[i + 1];
+      i++;
+    } else if (ch === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+
+  return parts;
+};
+
+const unescapeEDIFACT = (value: string, release: string): string => {
+  let result = '';
+  for (let i = 0; i < value.length; i++) {
+    if (value[i] === release && i + 1 < value.length) i++;
+    result += value[i];
+  }
+  return result;
+};
+
+const tokenizeEDIFACT = (raw: string): Segment[] => {
+  let text = raw.replace(/^\uFEFF/, '').trimStart();
+  let componentSeparator = ':';
+  let elementSeparator = '+';
+  let release = '?';
+  let segmentTerminator = "'";
+
+  if (text.startsWith('UNA')) {
+    componentSeparator = text[3];
+    elementSeparator = text[4];
+    release = text[6];
+    segmentTerminator = text[8];
+    text = text.substring(9);
+  }
+
+  return splitEscaped(text, segmentTerminator, release)
+    .map((segment) => segment.trim())
+    .filter((segment) => segment.length > 0)
+    .map((segment, i) => {
+      const elements = splitEscaped(segment, elementSeparator, release).map((element) =>
+        splitEscaped(element, componentSeparator, release).map((component) =>
+          unescapeEDIFACT(component, release)
+        )
+      );
+      return { index: i + 1, id: elements[0][0], elements };
+    });
+};
+
+/**
+ * Parse an EDIFACT DESADV despatch advice
+ */
+export const parseDESADV = (raw: string): ParsedASNDocument => {
+  const document: ParsedASNDocument = { format: 'EDIFACT_DESADV', shipments: [], issues: [] };
+  const segments = tokenizeEDIFACT(raw);
+  let shipment: ParsedASNShipment | null = null;
+  let item: ParsedASNItem | null = null;
+  let poNumber: string | undefined;
+  let packId: string | undefined;
+  let messageStart = 0;
+
+  for (const segment of segments) {
+    if (!shipment && !['UNA', 'UNB', 'UNG', 'UNH', 'UNE', 'UNZ'].includes(segment.id)) {
+      document.issues.push({
+        segmentIndex: segment.index,
+        segmentId: segment.id,
+        severity: 'ERROR',
+        message: 'Segment found outside of a UNH/UNT message',
+      });
+      continue;
+    }
+
+    // An item runs up to the next line item, package or the end of its message
+    if (item && ['LIN', 'CPS', 'UNT', 'UNH'].includes(segment.id)) {
+      item.endSegmentIndex = segment.index;
+    }
+
+    switch (segment.id) {
+      case 'UNB':
+        document.senderId = el(segment, 2);
+        document.controlNumber = el(segment, 5);
+        break;
+
+      case 'UNH':
+        if (el(segment, 2) !== 'DESADV') {
+          document.issues.push({
+            segmentIndex: segment.index,
+            segmentId: 'UNH',
+            element: 2,
+            severity: 'ERROR',
+            message: `Message type ${el(segment, 2) || '(blank)'} is not DESADV`,
+          });
+        }
+        shipment = { segmentIndex: segment.index, poNumbers: [], items: [] };
+        document.shipments.push(shipment);
+        item = null;
+        poNumber = undefined;
+        packId = undefined;
+        messageStart = segment.index;
+        break;
+
+      case 'BGM':
+        shipment!.shipmentId = el(segment, 2);
+        if (!shipment!.shipmentId) {
+          document.issues.push({
+            segmentIndex: segment.index,
+            segmentId: 'BGM',
+            element: 2,
+            severity: 'WARNING',
+            message: 'Despatch advice number is missing',
+          });
+        }
+        break;
+
+      case 'DTM': {
+        const qualifier = el(segment, 1, 0);
+        const value = el(segment, 1, 1);
+        const date = parseEDIDate(value);
+        if (!date) {
+          document.issues.push({
+            segmentIndex: segment.index,
+            segmentId: 'DTM',
+            element: 1,
+            severity: 'ERROR',
+            message: `Invalid date ${value || '(blank)'} for qualifier ${qualifier}`,
+          });
+          break;
+        }
+        if (item && (qualifier === '36' || qualifier === '361')) {
+          item.expiryDate = date;
+        } else if (qualifier === '11') {
+          shipment!.shipDate = date;
+        } else if (qualifier === '132' || qualifier === '17' || qualifier === '2') {
+          shipment!.expectedArrivalDate = date;
+        }
+        break;
+      }
+
+      case 'RFF': {
+        const qualifier = el(segment, 1, 0);
+        const value = el(segment, 1, 1);
+        if (qualifier === 'ON') {
+          if (item) {
+            item.poNumber = value;
+          } else {
+            poNumber = value;
+          }
+          if (value && !shipment!.poNumbers.includes(value)) {
+            shipment!.poNumbers.push(value);
+          }
+        } else if (qualifier === 'CN' || (qualifier === 'BM' && !shipment!.trackingNumber)) {
+          shipment!.trackingNumber = value;
+        }
+        break;
+      }
+
+      case 'NAD': {
+        const party = el(segment, 1);
+        if (party === 'SU' || party === 'SE') {
+          shipment!.supplierCode = el(segment, 2);
+          shipment!.supplierName = el(segment, 4) || el(segment, 3);
+        } else if (party === 'ST' || party === 'DP') {
+          shipment!.shipToCode = el(segment, 2);
+        } else if (party === 'CA' && !shipment!.carrier) {
+          shipment!.carrier = el(segment, 4) || el(segment, 2);
+        }
+        break;
+      }
+
+      case 'TDT':
+        shipment!.carrier = el(segment, 5) || el(segment, 5, 3) || shipment!.carrier;
+        break;
+
+      case 'CPS':
+        packId = undefined;
+        item = null;
+        break;
+
+      case 'GIN': {
+        const qualifier = el(segment, 1);
+        const values = segment.elements
+          .slice(2)
+          .map((element) => element[0]?.trim())
+          .filter((value): value is string => !!value);
+        if (qualifier === 'BJ' && !item) {
+          packId = values[0];
+        } else if (item && qualifier === 'BX') {
+          item.batchNumber = values[0];
+        } else if (item && qualifier === 'BN') {
+          item.serialNumbers.push(...values);
+        }
+        break;
+      }
+
+      case 'LIN': {
+        item = {
+          segmentIndex: segment.index,
+          lineNumber: shipment!.items.length + 1,
+          poNumber,
+          packId,
+          serialNumbers: [],
+        };
+        shipment!.items.push(item);
+        const itemNumber = el(segment, 3, 0);
+        const itemType = el(segment, 3, 1);
+        if (itemNumber) {
+          if (itemType === 'SA') item.supplierItemCode = itemNumber;
+          else if (itemType === 'IN' || itemType === 'BP') item.buyerItemCode = itemNumber;
+          else item.gtin = itemNumber;
+        }
+        break;
+      }
+
+      case 'PIA':
+        if (!item) break;
+        for (const element of segment.elements.slice(2)) {
+          const value = element[0]?.trim();
+          const type = element[1]?.trim();
+          if (!value) continue;
+          if (type === 'SA') item.supplierItemCode = value;
+          else if (type === 'IN' || type === 'BP') item.buyerItemCode = value;
+          else if (type === 'SRV' || type === 'EN' || type === 'UP') item.gtin = value;
+          else if (type === 'NB') item.batchNumber = value;
+        }
+        break;
+
+      case 'IMD':
+        if (item) item.description = el(segment, 3, 3) || el(segment, 3, 0);
+        break;
+
+      case 'QTY': {
+        if (!item || el(segment, 1, 0) !== '12') break;
+        item.quantity = parseQuantity(el(segment, 1, 1));
+        item.uom = el(segment, 1, 2) || item.uom;
+        if (item.quantity === undefined || item.quantity <= 0) {
+          document.issues.push({
+            segmentIndex: segment.index,
+            segmentId: 'QTY',
+            element: 1,
+            severity: 'ERROR',
+            message: `Invalid despatch quantity ${el(segment, 1, 1) || '(blank)'}`,
+          });
+        }
+        break;
+      }
+
+      case 'UNT': {
+        const expected = parseInt(el(segment, 1) || '0', 10);
+        const actual = segment.index - messageStart + 1;
+        if (expected !== actual) {
+          document.issues.push({
+            segmentIndex: segment.index,
+            segmentId: 'UNT',
+            element: 1,
+            severity: 'WARNING',
+            message: `UNT reports ${expected} segments but the message has ${actual}`,
+          });
+        }
+        shipment = null;
+        item = null;
+        break;
+      }
+
+      default:
+        break;
+    }
+  }
+
+  validateShipments(document, 'LIN');
+  return document;
+};
+
+/**
+ * Report shipments and items that cannot become ASN lines
+ */
+const validateShipments = (document: ParsedASNDocument, itemSegmentId: string): void => {
+  if (document.shipments.length === 0) {
+    document.issues.push({
+      segmentIndex: 1,
+      segmentId: document.format === 'X12_856' ? 'ST' : 'UNH',
+      severity: 'ERROR',
+      message: 'Document contains no ship notice',
+    });
+  }
+
+  for (const shipment of document.shipments) {
+    if (shipment.items.length === 0) {
+      document.issues.push({
+        segmentIndex: shipment.segmentIndex,
+        segmentId: document.format === 'X12_856' ? 'ST' : 'UNH',
+        severity: 'ERROR',
+        message: 'Ship notice contains no items',
+      });
+    }
+
+    for (const item of shipment.items) {
+      if (!item.supplierItemCode && !item.gtin && !item.buyerItemCode) {
+        document.issues.push({
+          segmentIndex: item.segmentIndex,
+          segmentId: itemSegmentId,
+          severity: 'ERROR',
+          message: `Item ${item.lineNumber} has no supplier item code, buyer item code or GTIN`,
+        });
+      }
+      if (item.quantity === undefined) {
+        document.issues.push({
+          segmentIndex: item.segmentIndex,
+          segmentId: itemSegmentId,
+          severity: 'ERROR',
+          message: `Item ${item.lineNumber} has no shipped quantity`,
+        });
+      }
+    }
+  }
+};
+
+/**
+ * Parse an ASN document, detecting the format when not given
+ */
+export const parseASNDocument = (raw: string, format?: EDIFormat): ParsedASNDocument => {
+  const detected = format || detectEDIFormat(raw);
+
+  if (detected === 'X12_856') return parseX12856(raw);
+  if (detected === 'EDIFACT_DESADV') return parseDESADV(raw);
+
+  return {
+    format: 'X12_856',
+    shipments: [],
+    issues: [
+      {
+        segmentIndex: 1,
+        segmentId: raw.trimStart().substring(0, 3),
+        severity: 'ERROR',
+        message: 'Unrecognised document: expected an X12 ISA or EDIFACT UNA/UNB envelope',
+      },
+    ],
+  };
+};
@@ -0,0 +1,104 @@
+import { calculateGS1CheckDigit, gtinLookupKeys, isValidGS1CheckDigit, parseGS1 } from './gs1Parser';
+
+const GS = '\u001d';
+
+describe('parseGS1', () => {
+  it('parses raw scanner output with a symbology identifier and FNC1 separators', () => {
+    const result = parseGS1(`]C10109506000134352${GS}10LOT-42${GS}21SN001`);
+
+    expect(result.valid).toBe(true);
+    expect(result.gtin).toBe('09506000134352');
+    expect(result.batchNumber).toBe('LOT-42');
+    expect(result.serialNumber).toBe('SN001');
+  });
+
+  it('ignores a leading FNC1 and one after a fixed-length element', () => {
+    const result = parseGS1(`${GS}0109506000134352${GS}17250630`);
+
+    expect(result.valid).toBe(true);
+    expect(result.gtin).toBe('09506000134352');
+    expect(result.expiryDate).toBe('2025-06-30');
+  });
+
+  it('parses the bracketed human-readable form', () => {
+    const result = parseGS1('(00)106141411234567897(37)24');
+
+    expect(result.valid).toBe(true);
+    expect(result.sscc).toBe('106141411234567897');
+    expect(result.count).toBe(24);
+    expect(result.elements.map((element) => element.ai)).toEqual(['00', '37']);
+  });
+
+  it('keeps brackets that are part of a value in the bracketed form', () => {
+    const result = parseGS1('(01)09506000134352(10)AB(12)C(21)X1');
+
+    expect(result.valid).toBe(true);
+    expect(result.batchNumber).toBe('AB(12)C');
+    expect(result.serialNumber).toBe('X1');
+  });
+
+  it('reports an invalid check digit with the expected digit', () => {
+    const result = parseGS1('(01)09506000134353');
+
+    expect(result.valid).toBe(false);
+    expect(result.gtin).toBeUndefined();
+    expect(result.errors[0]).toMatchObject({ ai: '01' });
+    expect(result.errors[0].message).toContain('expected 2');
+  });
+
+  it('applies the decimal position of AI 310x to the net weight', () => {
+    expect(parseGS1('(3103)000150').netWeightKg).toBe(0.15);
+    expect(parseGS1('(3100)000150').netWeightKg).toBe(150);
+
+    const result = parseGS1('3102012345');
+    expect(result.netWeightKg).toBe(123.45);
+    expect(result.elements[0]).toMatchObject({ ai: '3102', raw: '012345' });
+  });
+
+  it('treats a day of 00 as the last day of the month', () => {
+    expect(parseGS1('17250600').expiryDate).toBe('2025-06-30');
+    expect(parseGS1('17240200').expiryDate).toBe('2024-02-29');
+    expect(parseGS1('11250200').productionDate).toBe('2025-02-28');
+  });
+
+  it('rejects impossible dates', () => {
+    expect(parseGS1('17251301').errors[0].message).toContain('not a valid YYMMDD date');
+    expect(parseGS1('17250231').valid).toBe(false);
+  });
+
+  it('reports unsupported AIs and non-GS1 input', () => {
+    expect(parseGS1('').errors[0].message).toBe('Barcode is empty');
+    expect(parseGS1('ABC123').errors[0].message).toContain('Not a GS1 element string');
+    expect(parseGS1('99123').errors[0].message).toContain('Unsupported Application Identifier');
+  });
+
+  it('rejects a truncated fixed-length element', () => {
+    const result = parseGS1(`01095060001343${GS}10A`);
+
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].message).toBe('(01) GTIN must be 14 characters');
+  });
+});
+
+describe('GS1 check digits', () => {
+  it('calculates the mod-10 check digit', () => {
+    expect(calculateGS1CheckDigit('0950600013435')).toBe(2);
+    expect(calculateGS1CheckDigit('10614141123456789')).toBe(7);
+  });
+
+  it('validates the trailing check digit', () => {
+    expect(isValidGS1CheckDigit('09506000134352')).toBe(true);
+    expect(isValidGS1CheckDigit('09506000134359')).toBe(false);
+    expect(isValidGS1CheckDigit('0950600013435A')).toBe(false);
+  });
+});
+
+describe('gtinLookupKeys', () => {
+  it('returns the GTIN-14, -13 and -12 forms', () => {
+    expect(gtinLookupKeys('09506000134352')).toEqual(['09506000134352', '9506000134352', '506000134352']);
+  });
+
+  it('adds the GTIN-8 form when the GTIN-14 is zero-padded', () => {
+    expect(gtinLookupKeys('96385074')).toEqual(['00000096385074', '0000096385074', '000096385074', '96385074']);
+  });
+});
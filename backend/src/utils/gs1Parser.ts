@@ -0,0 +1,310 @@
+// ==========================================
+// GS1 APPLICATION IDENTIFIER PARSER
+// GS1-128 and GS1 DataMatrix element strings
+// ==========================================
+
+export type GS1AI = '00' | '01' | '02' | '10' | '11' | '17' | '21' | '310' | '37';
+
+export interface GS1Element {
+  ai: string;
+  label: string;
+  raw: string;
+  value: string | number;
+}
+
+export interface GS1ParseError {
+  ai?: string;
+  position: number;
+  message: string;
+}
+
+export interface GS1ParseResult {
+  raw: string;
+  elements: GS1Element[];
+  sscc?: string;
+  gtin?: string;
+  contentGtin?: string;
+  batchNumber?: string;
+  productionDate?: string;
+  expiryDate?: string;
+  serialNumber?: string;
+  netWeightKg?: number;
+  count?: number;
+  errors: GS1ParseError[];
+  valid: boolean;
+}
+
+interface AIDefinition {
+  label: string;
+  /** Data length for fixed-length AIs (excluding the AI itself) */
+  length?: number;
+  /** Maximum data length for variable-length AIs */
+  maxLength?: number;
+  format: 'numeric' | 'alphanumeric' | 'date';
+  checkDigit?: boolean;
+}
+
+const GROUP_SEPARATOR = '\u001d';
+const LEADING_SEPARATORS = new RegExp(`^${GROUP_SEPARATOR}+`);
+
+const AI_DEFINITIONS: Record<string, AIDefinition> = {
+  '00': { label: 'SSCC', length: 18, format: 'numeric', checkDigit: true },
+  '01': { label: 'GTIN', length: 14, format: 'numeric', checkDigit: true },
+  '02': { label: 'Content GTIN', length: 14, format: 'numeric', checkDigit: true },
+  '10': { label: 'Batch/Lot', maxLength: 20, format: 'alphanumeric' },
+  '11': { label: 'Production Date', length: 6, format: 'date' },
+  '17': { label: 'Expiry Date', length: 6, format: 'date' },
+  '21': { label: 'Serial Number', maxLength: 20, format: 'alphanumeric' },
+  '310': { label: 'Net Weight (kg)', length: 6, format: 'numeric' },
+  '37': { label: 'Count', maxLength: 8, format: 'numeric' },
+};
+
+// GS1 AI encodable character set 82
+const CSET_82 = /^[!"%&'()*+,\-./0-9:;<=>?A-Z_a-z]+$/;
+
+/**
+ * Calculate the GS1 mod-10 check digit for a digit string (without its check digit)
+ */
+export const calculateGS1CheckDigit = (digits: string): number => {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    const digit = parseInt(digits[digits.length - 1 - i], 10);
+    sum += i % 2 === 0 ? digit * 3 : digit;
+  }
+  return (10 - (sum % 10)) % 10;
+};
+
+/**
+ * Validate the trailing check digit of a GTIN or SSCC
+ */
+export const isValidGS1CheckDigit = (value: string): boolean => {
+  if (!/^\d{2,}$/.test(value)) return false;
+  return calculateGS1CheckDigit(value.slice(0, -1)) === parseInt(value.slice(-1), 10);
+};
+
+/**
+ * Convert a GS1 YYMMDD date to ISO (YYYY-MM-DD).
+ * The century is chosen so the year falls within -49/+50 years of today,
+ * and a day of 00 means the last day of the month.
+ */
+const parseGS1Date = (value: string): string | null => {
+  const yy = parseInt(value.substring(0, 2), 10);
+  const month = parseInt(value.substring(2, 4), 10);
+  let day = parseInt(value.substring(4, 6), 10);
+
+  if (month < 1 || month > 12) return null;
+
+  const currentYear = new Date().getUTCFullYear();
+  const currentCentury = Math.floor(currentYear / 100) * 100;
+  let year = currentCentury + yy;
+  if (year - currentYear > 50) year -= 100;
+  if (currentYear - year > 49) year += 100;
+
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day === 0) day = lastDay;
+  if (day > lastDay) return null;
+
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+};
+
+const matchAI = (data: string, position: number): string | null => {
+  const twoDigit = data.substring(position, position + 2);
+  if (twoDigit === '31') {
+    const threeDigit = data.substring(position, position + 3);
+    return threeDigit === '310' ? '310' : null;
+  }
+  return AI_DEFINITIONS[twoDigit] ? twoDigit : null;
+};
+
+// A bracketed AI in the human-readable form, e.g. (01) or (3103)
+const AI_TOKEN = /\((\d{2,4})\)/g;
+
+const isAIToken = (digits: string): boolean => {
+  const ai = matchAI(digits, 0);
+  return ai !== null && digits.length === (ai === '310' ? ai.length + 1 : ai.length);
+};
+
+/**
+ * Strip symbology identifiers and normalise the human-readable "(AI)value" form
+ * to an FNC1-separated element string. The form is split only at supported AIs
+ * in brackets, since values may themselves contain brackets.
+ */
+const normaliseBarcode = (raw: string): string => {
+  let data = raw.trim().replace(/^\](C1|e0|d2|Q3|J1)/, '');
+
+  if (data.startsWith('(')) {
+    const readable = data;
+    const tokens = [...readable.matchAll(AI_TOKEN)].filter((token) => isAIToken(token[1]));
+
+    if (tokens.length > 0 && tokens[0].index === 0) {
+      data = tokens
+        .map((token, i) => {
+          const valueEnd = i + 1 < tokens.length ? tokens[i + 1].index! : readable.length;
+          return token[1] + readable.substring(token.index! + token[0].length, valueEnd);
+        })
+        .join(GROUP_SEPARATOR);
+    }
+  }
+
+  return data.replace(LEADING_SEPARATORS, '');
+};
+
+/**
+ * Parse a GS1-128 or GS1 DataMatrix element string.
+ * Accepts raw scanner output (with FNC1 as GS, optional symbology identifier)
+ * and the bracketed human-readable form, e.g. (01)09506000134352(17)250630(10)ABC.
+ */
+export const parseGS1 = (raw: string): GS1ParseResult => {
+  const result: GS1ParseResult = { raw, elements: [], errors: [], valid: false };
+  const data = normaliseBarcode(raw || '');
+
+  if (!data) {
+    result.errors.push({ position: 0, message: 'Barcode is empty' });
+    return result;
+  }
+
+  if (!/^\d{2}/.test(data)) {
+    result.errors.push({ position: 0, message: 'Not a GS1 element string: expected a numeric Application Identifier' });
+    return result;
+  }
+
+  let position = 0;
+  while (position < data.length) {
+    if (data[position] === GROUP_SEPARATOR) {
+      position++;
+      continue;
+    }
+
+    const ai = matchAI(data, position);
+    if (!ai) {
+      result.errors.push({
+        position,
+        message: `Unsupported Application Identifier (${data.substring(position, position + 4)}...)`,
+      });
+      break;
+    }
+
+    const definition = AI_DEFINITIONS[ai];
+    let aiLabel = ai;
+    let decimals = 0;
+    let dataStart = position + ai.length;
+
+    if (ai === '310') {
+      decimals = parseInt(data[dataStart], 10);
+      if (isNaN(decimals)) {
+        result.errors.push({ ai, position, message: 'AI 310x is missing its decimal-position digit' });
+        break;
+      }
+      aiLabel = `310${decimals}`;
+      dataStart++;
+    }
+
+    let value: string;
+    let next: number;
+    if (definition.length) {
+      value = data.substring(dataStart, dataStart + definition.length);
+      next = dataStart + definition.length;
+      if (value.length < definition.length || value.includes(GROUP_SEPARATOR)) {
+        result.errors.push({
+          ai: aiLabel,
+          position,
+          message: `(${aiLabel}) ${definition.label} must be ${definition.length} characters`,
+        });
+        break;
+      }
+    } else {
+      const separator = data.indexOf(GROUP_SEPARATOR, dataStart);
+      next = separator === -1 ? data.length : separator;
+      value = data.substring(dataStart, next);
+      if (value.length === 0 || value.length > definition.maxLength!) {
+        result.errors.push({
+          ai: aiLabel,
+          position,
+          message: `(${aiLabel}) ${definition.label} must be 1-${definition.maxLength} characters, got ${value.length}`,
+        });
+        position = next;
+        continue;
+      }
+    }
+
+    position = next;
+
+    if (definition.format !== 'alphanumeric' && !/^\d+$/.test(value)) {
+      result.errors.push({ ai: aiLabel, position: dataStart, message: `(${aiLabel}) ${definition.label} must be numeric` });
+      continue;
+    }
+
+    if (definition.format === 'alphanumeric' && !CSET_82.test(value)) {
+      result.errors.push({ ai: aiLabel, position: dataStart, message: `(${aiLabel}) ${definition.label} contains invalid characters` });
+      continue;
+    }
+
+    if (definition.checkDigit && !isValidGS1CheckDigit(value)) {
+      const expected = calculateGS1CheckDigit(value.slice(0, -1));
+      result.errors.push({
+        ai: aiLabel,
+        position: dataStart,
+        message: `(${aiLabel}) ${definition.label} ${value} has an invalid check digit (expected ${expected})`,
+      });
+      continue;
+    }
+
+    let parsed: string | number = value;
+    switch (ai) {
+      case '00':
+        result.sscc = value;
+        break;
+      case '01':
+        result.gtin = value;
+        break;
+      case '02':
+        result.contentGtin = value;
+        break;
+      case '10':
+        result.batchNumber = value;
+        break;
+      case '11':
+      case '17': {
+        const date = parseGS1Date(value);
+        if (!date) {
+          result.errors.push({ ai, position: dataStart, message: `(${ai}) ${definition.label} ${value} is not a valid YYMMDD date` });
+          continue;
+        }
+        parsed = date;
+        if (ai === '11') result.productionDate = date;
+        else result.expiryDate = date;
+        break;
+      }
+      case '21':
+        result.serialNumber = value;
+        break;
+      case '310':
+        parsed = parseInt(value, 10) / Math.pow(10, decimals);
+        result.netWeightKg = parsed;
+        break;
+      case '37':
+        parsed = parseInt(value, 10);
+        result.count = parsed;
+        break;
+    }
+
+    result.elements.push({ ai: aiLabel, label: definition.label, raw: value, value: parsed });
+  }
+
+  if (result.errors.length === 0 && result.elements.length === 0) {
+    result.errors.push({ position: 0, message: 'No Application Identifiers found' });
+  }
+
+  result.valid = result.errors.length === 0;
+  return result;
+};
+
+/**
+ * Candidate stored forms of a GTIN-14 (GTIN-14, -13, -12 and -8 without leading zeros)
+ */
+export const gtinLookupKeys = (gtin: string): string[] => {
+  const gtin14 = gtin.padStart(14, '0');
+  const keys = [gtin14, gtin14.substring(1), gtin14.substring(2)];
+  if (gtin14.startsWith('000000')) keys.push(gtin14.substring(6));
+  return keys;
+};
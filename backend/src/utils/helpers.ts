@@ -59,73 +59,6 @@ export const calculateVarianceQuantity = (
   return rec - exp;
 };
 
-/**
- * Determine variance priority based on percentage and value
- * @param variancePercentage - Variance percentage
- * @param varianceValue - Variance value in currency
- * @returns Priority level
- */
-export const determineVariancePriority = (
-  variancePercentage: number,
-  varianceValue: number
-): 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' => {
-  const absPercentage = Math.abs(variancePercentage);
-  const absValue = Math.abs(varianceValue);
-
-  if (absValue > 5000 || absPercentage > 20) return 'CRITICAL';
-  if (absValue > 500 || absPercentage > 10) return 'HIGH';
-  if (absValue > 100 || absPercentage > 2) return 'MEDIUM';
-  return 'LOW';
-};
-
-/**
- * Check if variance requires supervisor approval
- * @param variancePercentage - Variance percentage
- * @param varianceValue - Variance value in currency
- * @returns True if supervisor approval required
- */
-export const requiresSupervisorApproval = (
-  variancePercentage: number,
-  varianceValue: number
-): boolean => {
-  const absPercentage = Math.abs(variancePercentage);
-  const absValue = Math.abs(varianceValue);
-
-  const autoApprovePercentage = parseFloat(
-    process.env.VARIANCE_AUTO_APPROVE_PERCENTAGE || '2'
-  );
-  const autoApproveValue = parseFloat(
-    process.env.VARIANCE_AUTO_APPROVE_VALUE || '100'
-  );
-
-  return absPercentage >= autoApprovePercentage || absValue >= autoApproveValue;
-};
-
-/**
- * Check if variance requires manager approval
- * @param variancePercentage - Variance percentage
- * @param varianceValue - Variance value in currency
- * @returns True if manager approval required
- */
-export const requiresManagerApproval = (
-  variancePercentage: number,
-  varianceValue: number
-): boolean => {
-  const absPercentage = Math.abs(variancePercentage);
-  const absValue = Math.abs(varianceValue);
-
-  const managerApprovalPercentage = parseFloat(
-    process.env.VARIANCE_SUPERVISOR_REVIEW_PERCENTAGE || '10'
-  );
-  const managerApprovalValue = parseFloat(
-    process.env.VARIANCE_MANAGER_APPROVAL_VALUE || '500'
-  );
-
-  return (
-    absPercentage > managerApprovalPercentage || absValue > managerApprovalValue
-  );
-};
-
 /**
  * Format date to YYYY-MM-DD
  * @param date - Date to format
@@ -229,3 +162,140 @@ export const calculatePutawayDuration = (
 
   return Math.ceil(walkingTime + handlingTime);
 };
+
+/**
+ * Calculate estimated pick duration based on distance and lines picked
+ * @param distanceMeters - Distance walked in meters
+ * @param lines - Number of pick lines
+ * @returns Estimated duration in minutes
+ */
+export const calculatePickDuration = (
+  distanceMeters: number,
+  lines: number
+): number => {
+  // Base time: 3 minutes per 100 meters walking
+  // Plus: 1 minute per line to find, pick and confirm
+  const walkingTime = (distanceMeters / 100) * 3;
+  const handlingTime = lines;
+
+  return Math.ceil(walkingTime + handlingTime);
+};
+
+// Centre-to-centre spacing of aisles and width of one rack bay, in meters
+const AISLE_PITCH_METERS = 3.5;
+const BAY_WIDTH_METERS = 1.5;
+
+/**
+ * Estimate the walking distance between two locations from their aisle and
+ * rack numbers. Aisles are entered from a front cross-aisle, so changing
+ * aisle means walking back out to it; locations without an aisle (docks,
+ * staging) sit on that cross-aisle.
+ * @param from - Aisle and rack of the starting location
+ * @param to - Aisle and rack of the destination location
+ * @returns Estimated distance in meters
+ */
+export const estimateWalkingDistance = (
+  from: { aisleNumber: string | null; rackNumber: string | null },
+  to: { aisleNumber: string | null; rackNumber: string | null }
+): number => {
+  const position = (value: string | null) => {
+    const match = value?.match(/\d+/);
+    return match ? parseInt(match[0], 10) : 0;
+  };
+
+  const fromAisle = position(from.aisleNumber);
+  const toAisle = position(to.aisleNumber);
+  const fromBay = from.aisleNumber ? position(from.rackNumber) : 0;
+  const toBay = to.aisleNumber ? position(to.rackNumber) : 0;
+
+  if (from.aisleNumber && from.aisleNumber === to.aisleNumber) {
+    return Math.abs(fromBay - toBay) * BAY_WIDTH_METERS;
+  }
+
+  return Math.abs(fromAisle - toAisle) * AISLE_PITCH_METERS + (fromBay + toBay) * BAY_WIDTH_METERS;
+};
+
+/**
+ * Get the local calendar date, weekday and minute-of-day of an instant in a time zone
+ * @param date - Instant to convert
+ * @param timeZone - IANA time zone name
+ * @returns Local date (YYYY-MM-DD), weekday (sun..sat) and minutes since local midnight
+ */
+export const getZonedDateParts = (
+  date: Date,
+  timeZone: string
+): { date: string; weekday: string; minutes: number } => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(date);
+
+  const part = (type: string) => parts.find((p) => p.type === type)?.value || '';
+
+  return {
+    date: `${part('year')}-${part('month')}-${part('day')}`,
+    weekday: part('weekday').toLowerCase(),
+    minutes: parseInt(part('hour'), 10) * 60 + parseInt(part('minute'), 10),
+  };
+};
+
+/**
+ * Convert a local date and minute-of-day in a time zone to a UTC instant
+ * @param localDate - Local calendar date (YYYY-MM-DD)
+ * @param minutes - Minutes since local midnight
+ * @param timeZone - IANA time zone name
+ * @returns UTC instant
+ */
+export const zonedTimeToUtc = (
+  localDate: string,
+  minutes: number,
+  timeZone: string
+): Date => {
+  const [year, month, day] = localDate.split('-').map((n) => parseInt(n, 10));
+  const wallClock = Date.UTC(year, month - 1, day) + minutes * 60000;
+
+  const offsetAt = (instant: number) => {
+    const local = getZonedDateParts(new Date(instant), timeZone);
+    const [y, m, d] = local.date.split('-').map((n) => parseInt(n, 10));
+    return Date.UTC(y, m - 1, d) + local.minutes * 60000 - Math.floor(instant / 60000) * 60000;
+  };
+
+  // Re-check the offset at the candidate instant to settle DST transitions
+  let instant = wallClock - offsetAt(wallClock);
+  instant = wallClock - offsetAt(instant);
+
+  return new Date(instant);
+};
+
+/**
+ * Start (UTC midnight) of the day containing the date
+ * @param date - Instant within the day
+ * @returns Midnight UTC
+ */
+export const startOfDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+/**
+ * Monday (UTC) of the ISO week containing the date
+ * @param date - Instant within the week
+ * @returns Midnight UTC on Monday
+ */
+export const startOfWeek = (date: Date): Date => {
+  const start = startOfDay(date);
+  start.setUTCDate(start.getUTCDate() - ((start.getUTCDay() + 6) % 7));
+  return start;
+};
+
+/**
+ * First day (UTC) of the month containing the date
+ * @param date - Instant within the month
+ * @returns Midnight UTC on the 1st
+ */
+export const startOfMonth = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
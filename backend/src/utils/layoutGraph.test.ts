@@ -0,0 +1,93 @@
+import { buildAisles, buildLayoutGraph, nearestNode, planarDistance, segmentCrossesBox, shortestPaths } from './layoutGraph';
+
+const node = (id: string, x: number, y: number) => ({ id, code: id, x, y });
+
+describe('planarDistance', () => {
+  it('measures the straight line between two points', () => {
+    expect(planarDistance({ x: 0, y: 0 }, { x: 3, y: 4 })).toBe(5);
+  });
+});
+
+describe('segmentCrossesBox', () => {
+  const box = { minX: 2, minY: 2, maxX: 4, maxY: 4 };
+
+  it('detects a segment passing through the box', () => {
+    expect(segmentCrossesBox({ x: 0, y: 3 }, { x: 6, y: 3 }, box)).toBe(true);
+    expect(segmentCrossesBox({ x: 0, y: 0 }, { x: 6, y: 6 }, box)).toBe(true);
+  });
+
+  it('ignores segments that stop short of, run along or touch the box', () => {
+    expect(segmentCrossesBox({ x: 0, y: 3 }, { x: 1.5, y: 3 }, box)).toBe(false);
+    expect(segmentCrossesBox({ x: 0, y: 2 }, { x: 6, y: 2 }, box)).toBe(false);
+    expect(segmentCrossesBox({ x: 0, y: 6 }, { x: 4, y: 4 }, box)).toBe(false);
+  });
+});
+
+describe('shortestPaths', () => {
+  const graph = buildLayoutGraph(
+    [node('A', 0, 0), node('B', 10, 0), node('C', 10, 10), node('D', 0, 10), node('E', 50, 50)],
+    [
+      { fromNodeId: 'A', toNodeId: 'B', lengthMeters: 10, oneWay: false },
+      { fromNodeId: 'B', toNodeId: 'C', lengthMeters: 10, oneWay: false },
+      { fromNodeId: 'C', toNodeId: 'D', lengthMeters: 10, oneWay: false },
+      { fromNodeId: 'A', toNodeId: 'D', lengthMeters: 5, oneWay: true },
+    ]
+  );
+
+  it('finds the shortest walk to every reachable node', () => {
+    expect(shortestPaths(graph, 'A')).toEqual(
+      new Map([
+        ['A', 0],
+        ['B', 10],
+        ['D', 5],
+        ['C', 15],
+      ])
+    );
+  });
+
+  it('only walks one-way edges in their direction', () => {
+    expect(shortestPaths(graph, 'D').get('A')).toBe(30);
+  });
+
+  it('leaves unconnected nodes out', () => {
+    expect(shortestPaths(graph, 'A').has('E')).toBe(false);
+  });
+});
+
+describe('nearestNode', () => {
+  it('skips nodes that cannot be reached without crossing an obstacle', () => {
+    const graph = buildLayoutGraph(
+      [node('NEAR', 4, 0), node('FAR', 0, 6)],
+      [],
+      [{ minX: 1, minY: -1, maxX: 3, maxY: 1 }]
+    );
+
+    expect(nearestNode(graph, { x: 0, y: 0 })?.id).toBe('FAR');
+    expect(nearestNode(buildLayoutGraph([node('NEAR', 4, 0)], [], graph.obstacles), { x: 0, y: 0 })).toBeNull();
+  });
+});
+
+describe('buildAisles', () => {
+  const graph = buildLayoutGraph(
+    [node('A0', 0, 0), node('A10', 0, 10), node('A20', 0, 20), node('B0', 10, 0), node('B20', 10, 20)],
+    []
+  );
+
+  it('groups aisle edges by code with their direction and end nodes, ordered across the floor', () => {
+    const aisles = buildAisles(graph, [
+      { fromNodeId: 'B20', toNodeId: 'B0', aisleCode: 'B' },
+      { fromNodeId: 'A10', toNodeId: 'A20', aisleCode: 'A' },
+      { fromNodeId: 'A0', toNodeId: 'A10', aisleCode: 'A' },
+    ]);
+
+    expect(aisles.map((aisle) => [aisle.code, aisle.axis, aisle.cross, aisle.low.id, aisle.high.id])).toEqual([
+      ['A', 'y', 0, 'A0', 'A20'],
+      ['B', 'y', 10, 'B0', 'B20'],
+    ]);
+    expect([...aisles[0].nodeIds].sort()).toEqual(['A0', 'A10', 'A20']);
+  });
+
+  it('drops aisles whose nodes are not in the graph', () => {
+    expect(buildAisles(graph, [{ fromNodeId: 'A0', toNodeId: 'MISSING', aisleCode: 'X' }])).toEqual([]);
+  });
+});
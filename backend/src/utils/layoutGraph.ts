@@ -0,0 +1,252 @@
+// ==========================================
+// WAREHOUSE LAYOUT ROUTING
+// Shortest paths over the walkable floor graph; heights (z) do not add
+// to travel
+// ==========================================
+
+export interface LayoutPoint {
+  x: number;
+  y: number;
+}
+
+export interface LayoutGraphNode extends LayoutPoint {
+  id: string;
+  code: string;
+}
+
+export interface LayoutGraphEdge {
+  fromNodeId: string;
+  toNodeId: string;
+  lengthMeters: number;
+  // Walkable from fromNode to toNode only
+  oneWay: boolean;
+}
+
+export interface LayoutBox {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+export interface LayoutGraph {
+  nodes: Map<string, LayoutGraphNode>;
+  // Nodes reachable in one step from each node, with the edge length
+  adjacency: Map<string, Array<{ nodeId: string; lengthMeters: number }>>;
+  obstacles: LayoutBox[];
+}
+
+/**
+ * Straight-line distance between two points on the floor
+ * @param a - First point
+ * @param b - Second point
+ * @returns Distance in meters
+ */
+export const planarDistance = (a: LayoutPoint, b: LayoutPoint): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Whether the straight segment between two points passes through the inside
+ * of a box. Running along or touching the box's boundary does not count.
+ * @param a - Segment start
+ * @param b - Segment end
+ * @param box - Obstacle footprint
+ * @returns True if the segment enters the box
+ */
+export const segmentCrossesBox = (a: LayoutPoint, b: LayoutPoint, box: LayoutBox): boolean => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  let enter = 0;
+  let exit = 1;
+
+  // Clip the segment against each side of the box in turn
+  const sides: Array<[number, number]> = [
+    [-dx, a.x - box.minX],
+    [dx, box.maxX - a.x],
+    [-dy, a.y - box.minY],
+    [dy, box.maxY - a.y],
+  ];
+
+  for (const [direction, room] of sides) {
+    if (direction === 0) {
+      if (room <= 0) return false;
+      continue;
+    }
+
+    const t = room / direction;
+    if (direction < 0) {
+      if (t > exit) return false;
+      enter = Math.max(enter, t);
+    } else {
+      if (t < enter) return false;
+      exit = Math.min(exit, t);
+    }
+  }
+
+  return exit - enter > 1e-9;
+};
+
+/**
+ * Build the walkable graph from nodes and edges
+ * @param nodes - Layout nodes
+ * @param edges - Walkways; two-way unless marked one-way
+ * @param obstacles - Areas that cannot be walked through
+ * @returns Graph ready for routing
+ */
+export const buildLayoutGraph = (
+  nodes: LayoutGraphNode[],
+  edges: LayoutGraphEdge[],
+  obstacles: LayoutBox[] = []
+): LayoutGraph => {
+  const graph: LayoutGraph = {
+    nodes: new Map(nodes.map((node) => [node.id, node])),
+    adjacency: new Map(nodes.map((node) => [node.id, []])),
+    obstacles,
+  };
+
+  for (const edge of edges) {
+    graph.adjacency.get(edge.fromNodeId)?.push({ nodeId: edge.toNodeId, lengthMeters: edge.lengthMeters });
+    if (!edge.oneWay) {
+      graph.adjacency.get(edge.toNodeId)?.push({ nodeId: edge.fromNodeId, lengthMeters: edge.lengthMeters });
+    }
+  }
+
+  return graph;
+};
+
+/**
+ * Shortest walking distance from one node to every node it can reach
+ * (Dijkstra over a binary heap)
+ * @param graph - Layout graph
+ * @param sourceNodeId - Starting node
+ * @returns Distance in meters per reachable node
+ */
+export const shortestPaths = (graph: LayoutGraph, sourceNodeId: string): Map<string, number> => {
+  const distances = new Map<string, number>([[sourceNodeId, 0]]);
+  const settled = new Set<string>();
+  const heap: Array<[number, string]> = [[0, sourceNodeId]];
+
+  const push = (entry: [number, string]) => {
+    heap.push(entry);
+    let i = heap.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (heap[parent][0] <= heap[i][0]) break;
+      [heap[parent], heap[i]] = [heap[i], heap[parent]];
+      i = parent;
+    }
+  };
+
+  const pop = (): [number, string] => {
+    const top = heap[0];
+    const last = heap.pop()!;
+    if (heap.length > 0) {
+      heap[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < heap.length && heap[left][0] < heap[smallest][0]) smallest = left;
+        if (right < heap.length && heap[right][0] < heap[smallest][0]) smallest = right;
+        if (smallest === i) break;
+        [heap[smallest], heap[i]] = [heap[i], heap[smallest]];
+        i = smallest;
+      }
+    }
+    return top;
+  };
+
+  while (heap.length > 0) {
+    const [distance, nodeId] = pop();
+    if (settled.has(nodeId)) continue;
+    settled.add(nodeId);
+
+    for (const next of graph.adjacency.get(nodeId) || []) {
+      const candidate = distance + next.lengthMeters;
+      if (candidate < (distances.get(next.nodeId) ?? Infinity)) {
+        distances.set(next.nodeId, candidate);
+        push([candidate, next.nodeId]);
+      }
+    }
+  }
+
+  return distances;
+};
+
+/**
+ * Closest node that can be walked to in a straight line without crossing
+ * an obstacle
+ * @param graph - Layout graph
+ * @param point - Position on the floor
+ * @returns Nearest node, or null if none is in the clear
+ */
+export const nearestNode = (graph: LayoutGraph, point: LayoutPoint): LayoutGraphNode | null => {
+  let nearest: LayoutGraphNode | null = null;
+  let nearestDistance = Infinity;
+
+  for (const node of graph.nodes.values()) {
+    const distance = planarDistance(point, node);
+    if (distance >= nearestDistance) continue;
+    if (graph.obstacles.some((box) => segmentCrossesBox(point, node, box))) continue;
+
+    nearest = node;
+    nearestDistance = distance;
+  }
+
+  return nearest;
+};
+
+export interface LayoutAisle {
+  code: string;
+  // Direction the aisle runs in
+  axis: 'x' | 'y';
+  // Position across the floor, perpendicular to the aisle
+  cross: number;
+  // End nodes at the low and high ends along the axis
+  low: LayoutGraphNode;
+  high: LayoutGraphNode;
+  nodeIds: Set<string>;
+}
+
+/**
+ * Group aisle edges into aisles by aisle code, with each aisle's direction
+ * and end nodes
+ * @param graph - Layout graph
+ * @param edges - Aisle edges with their aisle codes
+ * @returns Aisles ordered across the floor
+ */
+export const buildAisles = (
+  graph: LayoutGraph,
+  edges: Array<{ fromNodeId: string; toNodeId: string; aisleCode: string }>
+): LayoutAisle[] => {
+  const members = new Map<string, Set<string>>();
+  for (const edge of edges) {
+    const nodeIds = members.get(edge.aisleCode) || new Set<string>();
+    nodeIds.add(edge.fromNodeId);
+    nodeIds.add(edge.toNodeId);
+    members.set(edge.aisleCode, nodeIds);
+  }
+
+  const aisles: LayoutAisle[] = [];
+  for (const [code, nodeIds] of members) {
+    const nodes = [...nodeIds].map((id) => graph.nodes.get(id)).filter((node): node is LayoutGraphNode => !!node);
+    if (nodes.length < 2) continue;
+
+    const spread = (axis: 'x' | 'y') =>
+      Math.max(...nodes.map((node) => node[axis])) - Math.min(...nodes.map((node) => node[axis]));
+    const axis = spread('x') > spread('y') ? 'x' : 'y';
+    const across = axis === 'x' ? 'y' : 'x';
+    const sorted = [...nodes].sort((a, b) => a[axis] - b[axis]);
+
+    aisles.push({
+      code,
+      axis,
+      cross: nodes.reduce((total, node) => total + node[across], 0) / nodes.length,
+      low: sorted[0],
+      high: sorted[sorted.length - 1],
+      nodeIds,
+    });
+  }
+
+  return aisles.sort((a, b) => a.cross - b.cross);
+};
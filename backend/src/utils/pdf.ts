@@ -0,0 +1,214 @@
+// ==========================================
+// MINIMAL PDF WRITER
+// Text, rules and simple tables on A4 pages using the standard
+// Helvetica fonts, for reports and printable documents
+// ==========================================
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  x?: number;
+  /** Extra space after the line, in points */
+  spacing?: number;
+}
+
+export interface PdfTableColumn {
+  header: string;
+  width: number;
+  align?: 'left' | 'right';
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+
+// Approximate Helvetica advance width as a fraction of the font size
+const AVERAGE_CHAR_WIDTH = 0.52;
+
+/**
+ * Escape a string for a PDF literal and drop characters outside WinAnsi
+ */
+const escapePdfText = (value: string): string =>
+  value
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+
+const estimateWidth = (value: string, size: number): number =>
+  value.length * size * AVERAGE_CHAR_WIDTH;
+
+const fitText = (value: string, width: number, size: number): string => {
+  const maxChars = Math.floor(width / (size * AVERAGE_CHAR_WIDTH));
+  return value.length <= maxChars ? value : `${value.substring(0, Math.max(maxChars - 3, 0))}...`;
+};
+
+export class PdfDocument {
+  private pages: string[][] = [];
+  private y = 0;
+
+  constructor(private readonly title?: string) {
+    this.addPage();
+  }
+
+  /**
+   * Start a new page
+   */
+  addPage(): this {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+    return this;
+  }
+
+  /**
+   * Write a single line of text, wrapping to a new page when full
+   */
+  text(value: string, options: PdfTextOptions = {}): this {
+    const { size = 10, bold = false, x = MARGIN, spacing = 4 } = options;
+    this.ensureSpace(size + spacing);
+    this.y -= size;
+    this.drawText(value, x, this.y, size, bold);
+    this.y -= spacing;
+    return this;
+  }
+
+  /**
+   * Label/value pairs laid out in two columns
+   */
+  keyValues(pairs: [string, string][], options: { size?: number; labelWidth?: number } = {}): this {
+    const { size = 10, labelWidth = 140 } = options;
+    for (const [label, value] of pairs) {
+      this.ensureSpace(size + 4);
+      this.y -= size;
+      this.drawText(label, MARGIN, this.y, size, true);
+      this.drawText(fitText(value, PAGE_WIDTH - MARGIN * 2 - labelWidth, size), MARGIN + labelWidth, this.y, size, false);
+      this.y -= 4;
+    }
+    return this;
+  }
+
+  /**
+   * Horizontal rule across the printable width
+   */
+  rule(): this {
+    this.ensureSpace(8);
+    this.y -= 4;
+    this.current().push(`${MARGIN} ${this.y} m ${PAGE_WIDTH - MARGIN} ${this.y} l 0.5 w S`);
+    this.y -= 4;
+    return this;
+  }
+
+  /**
+   * Vertical gap
+   */
+  space(points = 10): this {
+    this.ensureSpace(points);
+    this.y -= points;
+    return this;
+  }
+
+  /**
+   * Table with a bold header row, repeated after page breaks.
+   * Cell text is truncated to the column width.
+   */
+  table(columns: PdfTableColumn[], rows: string[][], options: { size?: number } = {}): this {
+    const { size = 8 } = options;
+    const rowHeight = size + 5;
+
+    const drawRow = (cells: string[], bold: boolean) => {
+      this.y -= rowHeight;
+      let x = MARGIN;
+      columns.forEach((column, index) => {
+        const cell = fitText(cells[index] ?? '', column.width - 4, size);
+        const cellX = column.align === 'right' ? x + column.width - 4 - estimateWidth(cell, size) : x;
+        this.drawText(cell, cellX, this.y + 3, size, bold);
+        x += column.width;
+      });
+    };
+
+    const drawHeader = () => {
+      drawRow(columns.map((column) => column.header), true);
+      this.current().push(`${MARGIN} ${this.y} m ${PAGE_WIDTH - MARGIN} ${this.y} l 0.5 w S`);
+    };
+
+    this.ensureSpace(rowHeight * 2);
+    drawHeader();
+
+    for (const row of rows) {
+      if (this.y - rowHeight < MARGIN) {
+        this.addPage();
+        drawHeader();
+      }
+      drawRow(row, false);
+    }
+
+    this.y -= 6;
+    return this;
+  }
+
+  /**
+   * Serialise the document
+   */
+  toBuffer(): Buffer {
+    const objects: string[] = [];
+    const fontRefs = '/Font << /F1 3 0 R /F2 4 0 R >>';
+    const pageCount = this.pages.length;
+    const pageIds = this.pages.map((_, index) => 5 + index * 2);
+
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(' ')}] /Count ${pageCount} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+
+    this.pages.forEach((operations, index) => {
+      const footer = `BT /F1 8 Tf ${MARGIN} 20 Td (${escapePdfText(
+        `${this.title ? `${this.title} - ` : ''}Page ${index + 1} of ${pageCount}`
+      )}) Tj ET`;
+      const stream = [...operations, footer].join('\n');
+      const pageId = pageIds[index];
+
+      objects[pageId] =
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << ${fontRefs} >> /Contents ${pageId + 1} 0 R >>`;
+      objects[pageId + 1] =
+        `<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`;
+    });
+
+    const infoId = objects.length;
+    if (this.title) {
+      objects[infoId] = `<< /Title (${escapePdfText(this.title)}) >>`;
+    }
+
+    let output = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = Buffer.byteLength(output, 'latin1');
+      output += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xrefOffset = Buffer.byteLength(output, 'latin1');
+    output += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      output += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    output += `trailer\n<< /Size ${objects.length} /Root 1 0 R${this.title ? ` /Info ${infoId} 0 R` : ''} >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, 'latin1');
+  }
+
+  private current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  private ensureSpace(height: number): void {
+    if (this.y - height < MARGIN) {
+      this.addPage();
+    }
+  }
+
+  private drawText(value: string, x: number, y: number, size: number, bold: boolean): void {
+    this.current().push(
+      `BT /${bold ? 'F2' : 'F1'} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapePdfText(value)}) Tj ET`
+    );
+  }
+}
@@ -56,6 +56,7 @@ export const createASNLineSchema = z.object({
   batchNumberExpected: z.string().optional(),
   expiryDateExpected: z.string().datetime().optional(),
   lpnExpected: z.string().optional(),
+  purchaseOrderLineId: z.string().uuid().optional(),
 });
 
 export const createASNSchema = z.object({
@@ -87,6 +88,7 @@ export const receiveASNLineSchema = z.object({
   qaHold: z.boolean().optional(),
   photoEvidenceUrls: z.array(z.string().url()).optional(),
   varianceNotes: z.string().optional(),
+  gs1Barcodes: z.array(z.string().min(1)).optional(),
 });
 
 export const updateASNStatusSchema = z.object({
@@ -94,6 +96,103 @@ export const updateASNStatusSchema = z.object({
   actualArrivalDate: z.string().datetime().optional(),
 });
 
+// ==========================================
+// ASN IMPORT SCHEMAS
+// ==========================================
+
+export const importASNDocumentSchema = z.object({
+  warehouseId: z.string().uuid(),
+  document: z.string().min(1, 'EDI document is required'),
+  format: z.enum(['X12_856', 'EDIFACT_DESADV']).optional(),
+  fileName: z.string().optional(),
+  supplierId: z.string().uuid().optional(),
+  autoCommit: z.boolean().optional(),
+});
+
+export const updateStagedImportLineSchema = z
+  .object({
+    skuId: z.string().uuid().optional(),
+    excluded: z.boolean().optional(),
+  })
+  .refine((data) => data.skuId !== undefined || data.excluded !== undefined, {
+    message: 'Either skuId or excluded is required',
+  });
+
+export const commitASNImportSchema = z.object({
+  allowPartial: z.boolean().optional(),
+});
+
+// ==========================================
+// DOCK SCHEDULING SCHEMAS
+// ==========================================
+
+const timeOfDaySchema = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$|^24:00$/, 'Time must be HH:mm');
+
+export const operatingHoursSchema = z
+  .record(
+    z.enum(['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']),
+    z
+      .object({ open: timeOfDaySchema, close: timeOfDaySchema })
+      .refine((window) => window.open < window.close, {
+        message: 'Closing time must be after opening time',
+      })
+  )
+  .nullable();
+
+export const createDockDoorSchema = z.object({
+  warehouseId: z.string().uuid(),
+  code: z.string().min(1, 'Door code is required'),
+  name: z.string().min(1, 'Door name is required'),
+  doorType: z.enum(['INBOUND', 'OUTBOUND', 'MIXED']).optional(),
+  slotDurationMinutes: z.number().int().min(5).max(24 * 60).optional(),
+  slotCapacity: z.number().int().positive().optional(),
+  operatingHours: operatingHoursSchema.optional(),
+  timezone: z.string().optional(),
+  temperatureControlled: z.boolean().optional(),
+});
+
+export const updateDockDoorSchema = createDockDoorSchema
+  .omit({ warehouseId: true, code: true })
+  .partial()
+  .extend({
+    isActive: z.boolean().optional(),
+  });
+
+export const bookAppointmentSchema = z.object({
+  asnId: z.string().uuid(),
+  dockDoorId: z.string().uuid(),
+  scheduledStart: z.string().datetime(),
+  scheduledEnd: z.string().datetime().optional(),
+  carrier: z.string().optional(),
+  trailerNumber: z.string().optional(),
+  driverName: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+export const rescheduleAppointmentSchema = z.object({
+  scheduledStart: z.string().datetime(),
+  scheduledEnd: z.string().datetime().optional(),
+  dockDoorId: z.string().uuid().optional(),
+  notes: z.string().optional(),
+});
+
+export const checkInAppointmentSchema = z.object({
+  trailerNumber: z.string().optional(),
+  driverName: z.string().optional(),
+});
+
+export const cancelAppointmentSchema = z.object({
+  noShow: z.boolean().optional(),
+});
+
+// ==========================================
+// BARCODE SCHEMAS
+// ==========================================
+
+export const parseBarcodeSchema = z.object({
+  barcode: z.string().min(1, 'Barcode is required'),
+});
+
 // ==========================================
 // BLIND RECEIPT SCHEMAS
 // ==========================================
@@ -114,6 +213,12 @@ export const createBlindReceiptSchema = z.object({
   specialNotes: z.string().optional(),
 });
 
+const itemDimensionsSchema = z.object({
+  lengthCm: z.number().positive(),
+  widthCm: z.number().positive(),
+  heightCm: z.number().positive(),
+});
+
 export const addBlindReceiptLineSchema = z.object({
   lineNumber: z.number().int().positive(),
   skuId: z.string().uuid().optional(),
@@ -131,6 +236,10 @@ export const addBlindReceiptLineSchema = z.object({
   estimatedUnitCost: z.number().optional(),
   photoEvidenceUrls: z.array(z.string().url()).optional(),
   receiverNotes: z.string().optional(),
+  purchaseOrderLineId: z.string().uuid().optional(),
+  isNewItem: z.boolean().optional(),
+  weightKg: z.number().positive().optional(),
+  dimensions: itemDimensionsSchema.optional(),
 });
 
 export const updateBlindReceiptLineSchema = addBlindReceiptLineSchema.partial();
@@ -147,27 +256,541 @@ export const rejectBlindReceiptSchema = z.object({
 // VARIANCE SCHEMAS
 // ==========================================
 
-export const resolveVarianceSchema = z.object({
-  resolutionAction: z.enum([
-    'APPROVE_AS_IS',
-    'ADJUST_QUANTITY',
-    'REJECT_LINE',
-    'ESCALATE',
-    'RETURN_TO_SUPPLIER',
-  ]),
-  supervisorNotes: z.string().min(1, 'Supervisor notes are required'),
-  adjustedQuantity: z.number().nonnegative().optional(),
-});
+export const resolveVarianceSchema = z
+  .object({
+    resolutionAction: z.enum([
+      'APPROVE_AS_IS',
+      'ADJUST_QUANTITY',
+      'REJECT_LINE',
+      'ESCALATE',
+      'RETURN_TO_SUPPLIER',
+      'WRITE_OFF',
+    ]),
+    supervisorNotes: z.string().min(1, 'Supervisor notes are required'),
+    adjustedQuantity: z.number().nonnegative().optional(),
+    quantity: z.number().positive().optional(),
+    supplierId: z.string().uuid().optional(),
+  })
+  .refine((data) => data.resolutionAction !== 'ADJUST_QUANTITY' || data.adjustedQuantity !== undefined, {
+    message: 'adjustedQuantity is required to adjust the quantity',
+    path: ['adjustedQuantity'],
+  });
 
 export const rejectVarianceSchema = z.object({
   supervisorNotes: z.string().min(1, 'Supervisor notes are required'),
 });
 
+export const reverseVarianceResolutionSchema = z.object({
+  reason: z.string().min(1, 'A reason is required to reverse a resolution'),
+});
+
 export const escalateVarianceSchema = z.object({
   escalatedToId: z.string().uuid(),
   escalationNotes: z.string().min(1, 'Escalation notes are required'),
 });
 
+export const updateVarianceSlaPolicySchema = z
+  .object({
+    resolutionMinutes: z.number().int().positive().optional(),
+    warningMinutes: z.number().int().nonnegative().optional(),
+    isActive: z.boolean().optional(),
+  })
+  .refine((data) => Object.keys(data).length > 0, {
+    message: 'Provide at least one setting to update',
+  });
+
+// ==========================================
+// TOLERANCE PROFILE SCHEMAS
+// ==========================================
+
+const toleranceBandsSchema = z.object({
+  description: z.string().optional(),
+  autoAcceptOverPercent: z.number().min(0).max(100).optional(),
+  autoAcceptUnderPercent: z.number().min(0).max(100).optional(),
+  autoAcceptQuantity: z.number().nonnegative().nullable().optional(),
+  autoAcceptValue: z.number().nonnegative().nullable().optional(),
+  overTolerancePercent: z.number().min(0).max(999).optional(),
+  underTolerancePercent: z.number().min(0).max(100).optional(),
+  toleranceQuantity: z.number().nonnegative().nullable().optional(),
+  toleranceValue: z.number().nonnegative().nullable().optional(),
+  criticalPercent: z.number().min(0).max(999).optional(),
+  criticalValue: z.number().nonnegative().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const createToleranceProfileSchema = toleranceBandsSchema
+  .extend({
+    name: z.string().min(1, 'Name is required').max(100),
+    scope: z.enum(['TENANT', 'SUPPLIER', 'SKU_CATEGORY', 'SKU']),
+    supplierId: z.string().uuid().optional(),
+    skuCategory: z.string().min(1).optional(),
+    skuId: z.string().uuid().optional(),
+  })
+  .refine(
+    (data) =>
+      (data.autoAcceptOverPercent ?? 0) <= (data.overTolerancePercent ?? 10) &&
+      (data.autoAcceptUnderPercent ?? 0) <= (data.underTolerancePercent ?? 10),
+    { message: 'Auto-accept percentages cannot exceed the supervisor tolerance' }
+  );
+
+export const updateToleranceProfileSchema = toleranceBandsSchema.extend({
+  name: z.string().min(1).max(100).optional(),
+});
+
+export const simulateToleranceSchema = z.object({
+  skuId: z.string().uuid(),
+  supplierId: z.string().uuid().optional(),
+  expectedQuantity: z.number().nonnegative(),
+  receivedQuantity: z.number().nonnegative(),
+});
+
+// ==========================================
+// SUPPLIER SCORECARD SCHEMAS
+// ==========================================
+
+export const updateScorecardConfigSchema = z.object({
+  onTimeWeight: z.number().int().min(0).max(100).optional(),
+  fillRateWeight: z.number().int().min(0).max(100).optional(),
+  damageWeight: z.number().int().min(0).max(100).optional(),
+  wrongItemWeight: z.number().int().min(0).max(100).optional(),
+  temperatureWeight: z.number().int().min(0).max(100).optional(),
+  labellingWeight: z.number().int().min(0).max(100).optional(),
+  onTimeGraceHours: z.number().int().min(0).max(168).optional(),
+});
+
+// ==========================================
+// PURCHASE ORDER SCHEMAS
+// ==========================================
+
+export const purchaseOrderLineSchema = z.object({
+  lineNumber: z.number().int().positive(),
+  skuId: z.string().uuid(),
+  orderedQuantity: z.number().positive(),
+  uom: z.string().optional(),
+  unitCost: z.number().nonnegative().optional(),
+});
+
+export const createPurchaseOrderSchema = z.object({
+  warehouseId: z.string().uuid(),
+  poNumber: z.string().min(1, 'PO number is required').max(50),
+  supplierId: z.string().uuid(),
+  orderDate: z.string().datetime().optional(),
+  expectedDeliveryDate: z.string().datetime().optional(),
+  currency: z.string().length(3).optional(),
+  overReceiptTolerancePercent: z.number().min(0).max(100).optional(),
+  notes: z.string().optional(),
+  draft: z.boolean().optional(),
+  lines: z.array(purchaseOrderLineSchema).min(1, 'At least one line item is required'),
+});
+
+export const updatePurchaseOrderSchema = z.object({
+  expectedDeliveryDate: z.string().datetime().nullable().optional(),
+  currency: z.string().length(3).optional(),
+  overReceiptTolerancePercent: z.number().min(0).max(100).optional(),
+  notes: z.string().nullable().optional(),
+});
+
+export const updatePurchaseOrderLineSchema = z.object({
+  orderedQuantity: z.number().positive().optional(),
+  unitCost: z.number().nonnegative().optional(),
+});
+
+export const closePurchaseOrderSchema = z.object({
+  reason: z.string().min(1, 'Reason is required'),
+});
+
+export const linkPurchaseOrderASNSchema = z.object({
+  asnId: z.string().uuid(),
+});
+
+// ==========================================
+// RETURNS (RMA) SCHEMAS
+// ==========================================
+
+const itemConditionSchema = z.enum(['GOOD', 'DAMAGED', 'EXPIRED', 'UNKNOWN']);
+const returnGradeSchema = z.enum(['RESTOCK', 'REFURBISH', 'QUARANTINE', 'SCRAP', 'RETURN_TO_VENDOR']);
+
+export const createReturnAuthorizationSchema = z.object({
+  orderId: z.string().uuid(),
+  shipmentId: z.string().uuid().optional(),
+  returnReason: z.string().min(1, 'Return reason is required'),
+  customerNotes: z.string().optional(),
+  carrier: z.string().optional(),
+  trackingNumber: z.string().optional(),
+  expiresAt: z.string().datetime().optional(),
+  lines: z.array(
+    z.object({
+      orderLineId: z.string().uuid(),
+      quantity: z.number().positive(),
+      reasonCode: z.string().min(1),
+      serialNumbers: z.array(z.string().min(1)).optional(),
+    })
+  ).min(1, 'At least one line is required'),
+});
+
+export const receiveReturnUnitsSchema = z.object({
+  receivingLocationId: z.string().uuid(),
+  units: z.array(
+    z.object({
+      returnLineId: z.string().uuid(),
+      quantity: z.number().positive().optional(),
+      serialNumber: z.string().min(1).optional(),
+      batchNumber: z.string().optional(),
+      expiryDate: z.string().datetime().optional(),
+      lpn: z.string().optional(),
+      condition: itemConditionSchema,
+      grade: returnGradeSchema.optional(),
+      gradingNotes: z.string().optional(),
+      photoEvidenceUrls: z.array(z.string().url()).optional(),
+      supplierId: z.string().uuid().optional(),
+    })
+  ).min(1, 'At least one unit is required'),
+});
+
+export const gradeReturnUnitsSchema = z.object({
+  grades: z.array(
+    z.object({
+      unitId: z.string().uuid(),
+      grade: returnGradeSchema,
+      condition: itemConditionSchema.optional(),
+      gradingNotes: z.string().optional(),
+      supplierId: z.string().uuid().optional(),
+    })
+  ).min(1, 'At least one grade is required'),
+});
+
+export const completeDisposalTaskSchema = z.object({
+  referenceNumber: z.string().optional(),
+  notes: z.string().optional(),
+});
+
+// ==========================================
+// QA INSPECTION SCHEMAS
+// ==========================================
+
+const samplingRuleSchema = z
+  .object({
+    maxLotSize: z.number().positive().nullable(),
+    sampleSize: z.number().int().positive(),
+    acceptNumber: z.number().int().nonnegative(),
+    rejectNumber: z.number().int().positive().optional(),
+  })
+  .refine((rule) => rule.rejectNumber === undefined || rule.rejectNumber > rule.acceptNumber, {
+    message: 'Reject number must be greater than the accept number',
+  });
+
+const checklistItemSchema = z.object({
+  code: z.string().min(1).max(50),
+  description: z.string().min(1).max(500),
+  required: z.boolean().optional(),
+});
+
+const inspectionPlanFieldsSchema = z.object({
+  description: z.string().optional(),
+  aqlLevel: z.number().positive().max(100).optional(),
+  samplingRules: z.array(samplingRuleSchema).min(1, 'At least one sampling rule is required'),
+  checklist: z.array(checklistItemSchema),
+  requirePhotos: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const createInspectionPlanSchema = inspectionPlanFieldsSchema.extend({
+  name: z.string().min(1, 'Name is required').max(100),
+  scope: z.enum(['TENANT', 'SUPPLIER', 'SKU']),
+  supplierId: z.string().uuid().optional(),
+  skuId: z.string().uuid().optional(),
+});
+
+export const updateInspectionPlanSchema = inspectionPlanFieldsSchema.partial().extend({
+  name: z.string().min(1).max(100).optional(),
+});
+
+export const recordInspectionResultSchema = z
+  .object({
+    result: z.enum(['PASS', 'FAIL', 'CONDITIONAL']),
+    quantityInspected: z.number().int().nonnegative(),
+    defectsFound: z.number().int().nonnegative(),
+    checklistResults: z
+      .array(
+        z.object({
+          code: z.string().min(1),
+          passed: z.boolean(),
+          notes: z.string().optional(),
+        })
+      )
+      .optional(),
+    photoUrls: z.array(z.string().url()).optional(),
+    notes: z.string().optional(),
+    releasedQuantity: z.number().positive().optional(),
+    releaseConditions: z.string().min(1).optional(),
+    releasedSerialNumbers: z.array(z.string().min(1)).optional(),
+    sourceLocationId: z.string().uuid().optional(),
+  })
+  .refine((data) => data.result === 'FAIL' || !!data.sourceLocationId, {
+    message: 'sourceLocationId is required to release stock to putaway',
+    path: ['sourceLocationId'],
+  });
+
+// ==========================================
+// NEW SKU ONBOARDING SCHEMAS
+// ==========================================
+
+const skuDraftSchema = z.object({
+  code: z.string().min(1).max(50).optional(),
+  name: z.string().min(1).max(200).optional(),
+  description: z.string().optional(),
+  category: z.string().optional(),
+  gtin: z.string().optional(),
+  uom: z.string().min(1).optional(),
+  requiresBatchTracking: z.boolean().optional(),
+  requiresExpiryTracking: z.boolean().optional(),
+  requiresSerialTracking: z.boolean().optional(),
+  isPerishable: z.boolean().optional(),
+  temperatureControlled: z.boolean().optional(),
+  temperatureMin: z.number().optional(),
+  temperatureMax: z.number().optional(),
+  isHazmat: z.boolean().optional(),
+  hazardClass: z.string().optional(),
+  unitCost: z.number().nonnegative().optional(),
+  weightKg: z.number().positive().optional(),
+  dimensions: itemDimensionsSchema.optional(),
+  imageUrl: z.string().url().optional(),
+});
+
+export const updateNewSkuRequestSchema = z.object({
+  skuDraft: skuDraftSchema,
+});
+
+export const approveNewSkuRequestSchema = z
+  .object({
+    skuDraft: skuDraftSchema.optional(),
+    existingSkuId: z.string().uuid().optional(),
+  })
+  .refine((data) => !(data.skuDraft && data.existingSkuId), {
+    message: 'Provide either skuDraft or existingSkuId, not both',
+  });
+
+export const rejectNewSkuRequestSchema = z.object({
+  rejectionReason: z.string().min(1, 'Rejection reason is required'),
+});
+
+// ==========================================
+// ATTACHMENT SCHEMAS
+// ==========================================
+
+const attachmentEntityTypeSchema = z.enum([
+  'ASN',
+  'ASN_LINE',
+  'BLIND_RECEIPT',
+  'BLIND_RECEIPT_LINE',
+  'VARIANCE',
+  'RETURN_AUTHORIZATION',
+  'RETURN_LINE',
+  'QA_INSPECTION',
+  'NEW_SKU_REQUEST',
+  'PURCHASE_ORDER',
+]);
+
+export const uploadAttachmentSchema = z
+  .object({
+    entityType: attachmentEntityTypeSchema.optional(),
+    entityId: z.string().uuid().optional(),
+  })
+  .refine((data) => !data.entityType === !data.entityId, {
+    message: 'entityType and entityId must be given together',
+  });
+
+export const linkAttachmentSchema = z.object({
+  entityType: attachmentEntityTypeSchema,
+  entityId: z.string().uuid(),
+});
+
+export const cleanupAttachmentsSchema = z.object({
+  graceHours: z.number().nonnegative().optional(),
+});
+
+// ==========================================
+// GOODS RECEIVED NOTE SCHEMAS
+// ==========================================
+
+export const amendGrnSchema = z.object({
+  reason: z.string().min(1).max(500),
+});
+
+// ==========================================
+// SUPPLIER CLAIM SCHEMAS
+// ==========================================
+
+export const generateSupplierClaimsSchema = z.object({
+  warehouseId: z.string().uuid().optional(),
+});
+
+export const overrideClaimLineCostSchema = z.object({
+  unitCost: z.number().nonnegative(),
+  reason: z.string().min(1).max(500),
+});
+
+export const sendSupplierClaimSchema = z.object({
+  notes: z.string().max(1000).optional(),
+});
+
+export const disputeSupplierClaimSchema = z.object({
+  reason: z.string().min(1).max(1000),
+});
+
+export const creditSupplierClaimSchema = z.object({
+  creditedAmount: z.number().nonnegative(),
+  creditReference: z.string().max(100).optional(),
+});
+
+// ==========================================
+// APPROVAL CHAIN SCHEMAS
+// ==========================================
+
+const approvalDocumentTypeSchema = z.enum(['VARIANCE', 'BLIND_RECEIPT', 'INVENTORY_ADJUSTMENT']);
+
+const approverRoleSchema = z.enum([
+  'PLATFORM_ADMIN',
+  'TENANT_ADMIN',
+  'WAREHOUSE_MANAGER',
+  'RECEIVING_SUPERVISOR',
+  'WAREHOUSE_RECEIVER',
+  'QA_INSPECTOR',
+  'BUYER',
+  'PUTAWAY_OPERATOR',
+]);
+
+const approvalStepSchema = z
+  .object({
+    sequence: z.number().int().positive(),
+    name: z.string().min(1).max(100),
+    approverRoles: z.array(approverRoleSchema).optional(),
+    approverUserId: z.string().uuid().nullable().optional(),
+  })
+  .refine((step) => !!step.approverUserId || (step.approverRoles?.length ?? 0) > 0, {
+    message: 'Each step needs an approver role or user',
+  });
+
+const approvalChainFieldsSchema = z.object({
+  description: z.string().max(500).optional(),
+  warehouseId: z.string().uuid().nullable().optional(),
+  requesterRole: approverRoleSchema.nullable().optional(),
+  minValue: z.number().nonnegative().nullable().optional(),
+  maxValue: z.number().positive().nullable().optional(),
+  minPercentage: z.number().nonnegative().nullable().optional(),
+  maxPercentage: z.number().positive().nullable().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const createApprovalChainSchema = approvalChainFieldsSchema.extend({
+  name: z.string().min(1, 'Name is required').max(100),
+  documentType: approvalDocumentTypeSchema,
+  steps: z.array(approvalStepSchema).min(1, 'At least one step is required'),
+});
+
+export const updateApprovalChainSchema = approvalChainFieldsSchema.extend({
+  name: z.string().min(1).max(100).optional(),
+  steps: z.array(approvalStepSchema).min(1).optional(),
+});
+
+export const evaluateApprovalSchema = z.object({
+  documentType: approvalDocumentTypeSchema,
+  warehouseId: z.string().uuid().optional(),
+  value: z.number().optional(),
+  percentage: z.number().optional(),
+  requestedById: z.string().uuid().optional(),
+});
+
+export const recordApprovalDecisionSchema = z.object({
+  decision: z.enum(['APPROVED', 'REJECTED']),
+  comments: z.string().max(1000).optional(),
+  documentNumber: z.string().max(100).optional(),
+  warehouseId: z.string().uuid().optional(),
+  value: z.number().optional(),
+  percentage: z.number().optional(),
+  requestedById: z.string().uuid().optional(),
+});
+
+export const createApprovalDelegationSchema = z
+  .object({
+    delegatorId: z.string().uuid().optional(),
+    delegateId: z.string().uuid(),
+    documentType: approvalDocumentTypeSchema.nullable().optional(),
+    startsAt: z.string().datetime(),
+    endsAt: z.string().datetime(),
+    reason: z.string().max(500).optional(),
+  })
+  .refine((data) => new Date(data.endsAt) > new Date(data.startsAt), {
+    message: 'Delegation must end after it starts',
+  });
+
+// ==========================================
+// VARIANCE ANALYTICS SCHEMAS
+// ==========================================
+
+const varianceTypeSchema = z.enum([
+  'NONE',
+  'SHORTAGE',
+  'OVERAGE',
+  'DAMAGED',
+  'WRONG_ITEM',
+  'MISSING',
+  'EXPIRED',
+  'QUALITY_ISSUE',
+  'TEMPERATURE_VIOLATION',
+  'MISSING_LABEL',
+]);
+
+const varianceStatusSchema = z.enum(['PENDING', 'NEW', 'UNDER_REVIEW', 'APPROVED', 'REJECTED', 'ESCALATED']);
+
+const analyticsDimensionSchema = z.enum([
+  'REASON_CODE',
+  'VARIANCE_TYPE',
+  'SKU',
+  'SUPPLIER',
+  'CARRIER',
+  'RECEIVER',
+  'SHIFT',
+]);
+
+const analyticsMetricSchema = z.enum(['COUNT', 'QUANTITY', 'VALUE']);
+
+const trendIntervalSchema = z.enum(['DAY', 'WEEK', 'MONTH']);
+
+export const createReceivingShiftSchema = z.object({
+  warehouseId: z.string().uuid().nullable().optional(),
+  name: z.string().min(1, 'Shift name is required'),
+  startTime: timeOfDaySchema,
+  endTime: timeOfDaySchema,
+  timezone: z.string().optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const updateReceivingShiftSchema = createReceivingShiftSchema.partial();
+
+const varianceReportFiltersSchema = z.object({
+  warehouseId: z.string().uuid().optional(),
+  receiptType: z.enum(['ASN', 'BLIND']).optional(),
+  varianceTypes: z.array(varianceTypeSchema).optional(),
+  statuses: z.array(varianceStatusSchema).optional(),
+  // Rolling window in days; ignored when dateFrom is set
+  periodDays: z.number().int().min(1).max(730).optional(),
+  dateFrom: z.string().datetime().optional(),
+  dateTo: z.string().datetime().optional(),
+});
+
+export const createVarianceReportSchema = z.object({
+  name: z.string().min(1, 'Report name is required'),
+  description: z.string().optional(),
+  dimension: analyticsDimensionSchema,
+  metric: analyticsMetricSchema.optional(),
+  interval: trendIntervalSchema.optional(),
+  filters: varianceReportFiltersSchema.optional(),
+  isShared: z.boolean().optional(),
+});
+
+export const updateVarianceReportSchema = createVarianceReportSchema.partial();
+
 // ==========================================
 // PUTAWAY SCHEMAS
 // ==========================================
@@ -181,6 +804,7 @@ export const createPutawayTasksSchema = z.object({
   items: z.array(
     z.object({
       skuId: z.string().uuid(),
+      receiptLineId: z.string().uuid().optional(),
       quantity: z.number().positive(),
       batchNumber: z.string().optional(),
       expiryDate: z.string().datetime().optional(),
@@ -194,9 +818,136 @@ export const assignPutawayTaskSchema = z.object({
   operatorUserId: z.string().uuid(),
 });
 
+const putawayOverrideSchema = z.object({
+  locationCode: z.string().min(1, 'Location is required'),
+  reasonCode: z.enum([
+    'LOCATION_BLOCKED',
+    'LOCATION_FULL',
+    'LOCATION_DAMAGED',
+    'LABEL_MISMATCH',
+    'CLOSER_LOCATION',
+    'OTHER',
+  ]),
+  notes: z.string().max(500).optional(),
+});
+
 export const completePutawayTaskSchema = z.object({
   actualQuantity: z.number().nonnegative().optional(),
   operatorNotes: z.string().optional(),
+  // Put away in a different bin than the one suggested
+  override: putawayOverrideSchema.optional(),
+});
+
+export const checkPutawayOverrideSchema = z.object({
+  locationCode: z.string().min(1, 'Location is required'),
+  quantity: z.number().positive().optional(),
+});
+
+const zoneTypeSchema = z.enum([
+  'RECEIVING',
+  'STORAGE',
+  'PICK_FACE',
+  'RESERVE',
+  'PACKING',
+  'SHIPPING',
+  'HAZMAT',
+  'REFRIGERATED',
+  'FROZEN',
+  'QUARANTINE',
+  'RETURNS',
+]);
+
+const putawayStrategySchema = z.enum([
+  'HAZMAT_ZONE',
+  'TEMPERATURE_ZONE',
+  'FEFO',
+  'FIFO',
+  'PICK_FACE',
+  'CONSOLIDATION',
+  'BULK_STORAGE',
+  'GENERAL_STORAGE',
+]);
+
+const putawayRuleFieldsSchema = z.object({
+  description: z.string().max(500).optional(),
+  warehouseId: z.string().uuid().nullable().optional(),
+  priority: z.number().int().nonnegative().optional(),
+  skuIds: z.array(z.string().uuid()).optional(),
+  skuCategories: z.array(z.string().min(1)).optional(),
+  abcClasses: z.array(z.enum(['A', 'B', 'C'])).optional(),
+  velocities: z.array(z.enum(['FAST', 'MEDIUM', 'SLOW'])).optional(),
+  hazardClasses: z.array(z.string().min(1)).optional(),
+  isHazmat: z.boolean().nullable().optional(),
+  temperatureControlled: z.boolean().nullable().optional(),
+  isPerishable: z.boolean().nullable().optional(),
+  requiresBatchTracking: z.boolean().nullable().optional(),
+  zoneTypes: z.array(zoneTypeSchema).optional(),
+  locationTypes: z
+    .array(z.enum(['DOCK', 'STAGING', 'STORAGE', 'PICK_FACE', 'RESERVE', 'PACKING_STATION', 'SHIPPING_DOCK']))
+    .optional(),
+  refrigerated: z.boolean().nullable().optional(),
+  hazmatCertified: z.boolean().nullable().optional(),
+  minHeightLevel: z.number().int().nonnegative().nullable().optional(),
+  maxHeightLevel: z.number().int().nonnegative().nullable().optional(),
+  excludedZoneTypes: z.array(zoneTypeSchema).optional(),
+  excludedZoneIds: z.array(z.string().uuid()).optional(),
+  excludedLocationIds: z.array(z.string().uuid()).optional(),
+  isActive: z.boolean().optional(),
+});
+
+export const createPutawayRuleSchema = putawayRuleFieldsSchema.extend({
+  name: z.string().min(1, 'Name is required').max(100),
+  strategies: z.array(putawayStrategySchema).min(1, 'At least one strategy is required'),
+});
+
+export const updatePutawayRuleSchema = putawayRuleFieldsSchema.extend({
+  name: z.string().min(1).max(100).optional(),
+  strategies: z.array(putawayStrategySchema).min(1).optional(),
+});
+
+export const simulatePutawaySchema = z.object({
+  warehouseId: z.string().uuid(),
+  zoneType: zoneTypeSchema.optional(),
+  items: z.array(
+    z.object({
+      skuId: z.string().uuid(),
+      quantity: z.number().positive(),
+      expiryDate: z.string().datetime().optional(),
+      lpn: z.string().optional(),
+    })
+  ).min(1, 'At least one item is required'),
+});
+
+export const createPutawayBatchesSchema = z.object({
+  warehouseId: z.string().uuid(),
+  zoneId: z.string().uuid().optional(),
+  equipmentType: z.enum(['CART', 'PALLET_JACK', 'FORKLIFT']).optional(),
+  maxStops: z.number().int().positive().optional(),
+  maxWeightKg: z.number().positive().optional(),
+  maxVolumeM3: z.number().positive().optional(),
+  operatorUserId: z.string().uuid().optional(),
+});
+
+export const completePutawayStopSchema = z.object({
+  actualQuantity: z.number().nonnegative().optional(),
+  operatorNotes: z.string().optional(),
+  override: putawayOverrideSchema.optional(),
+});
+
+export const skipPutawayStopSchema = z.object({
+  reason: z.string().min(1, 'Reason is required').max(500),
+});
+
+export const finishPutawayBatchSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+export const cancelPutawayTaskSchema = z.object({
+  reason: z.string().max(500).optional(),
+});
+
+export const reconcileCapacitySchema = z.object({
+  warehouseId: z.string().uuid('Invalid warehouse ID'),
 });
 
 // ==========================================
@@ -232,6 +983,32 @@ export const splitLPNSchema = z.object({
   ).min(1, 'At least one item is required'),
 });
 
+// ==========================================
+// WAREHOUSE LAYOUT SCHEMAS
+// ==========================================
+
+export const importWarehouseLayoutSchema = z.object({
+  format: z.enum(['CSV', 'JSON']),
+  document: z.string().min(1, 'Layout document is required'),
+});
+
+const pickPathStrategySchema = z.enum(['S_SHAPE', 'RETURN', 'LARGEST_GAP', 'NEAREST_NEIGHBOR_2OPT']);
+
+export const updatePickPathStrategySchema = z.object({
+  pickPathStrategy: pickPathStrategySchema,
+});
+
+export const previewPickPathSchema = z.object({
+  locationCodes: z.array(z.string().min(1)).min(1, 'At least one location is required'),
+  strategy: pickPathStrategySchema.optional(),
+});
+
+export const estimateTravelSchema = z.object({
+  fromLocationCode: z.string().min(1).optional(),
+  locationCodes: z.array(z.string().min(1)).min(1, 'At least one location is required'),
+  quantity: z.number().nonnegative().optional(),
+});
+
 // ==========================================
 // QUERY SCHEMAS
 // ==========================================
@@ -252,6 +1029,129 @@ export const asnQuerySchema = paginationSchema.merge(dateRangeSchema).extend({
   supplierId: z.string().uuid().optional(),
 });
 
+export const asnImportQuerySchema = paginationSchema.extend({
+  warehouseId: z.string().uuid().optional(),
+  status: z.enum(['STAGED', 'COMMITTED', 'FAILED', 'DISCARDED']).optional(),
+});
+
+export const dockAppointmentQuerySchema = dateRangeSchema.extend({
+  warehouseId: z.string().uuid().optional(),
+  dockDoorId: z.string().uuid().optional(),
+  asnId: z.string().uuid().optional(),
+  status: z.enum(['SCHEDULED', 'CHECKED_IN', 'COMPLETED', 'CANCELLED', 'NO_SHOW']).optional(),
+});
+
+export const dockAvailabilityQuerySchema = z.object({
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+});
+
+export const scorecardQuerySchema = dateRangeSchema.extend({
+  warehouseId: z.string().uuid().optional(),
+});
+
+export const scorecardExportQuerySchema = scorecardQuerySchema.extend({
+  format: z.enum(['csv', 'pdf']).optional(),
+  supplierId: z.string().uuid().optional(),
+});
+
+export const purchaseOrderQuerySchema = paginationSchema.extend({
+  warehouseId: z.string().uuid().optional(),
+  supplierId: z.string().uuid().optional(),
+  status: z.enum(['DRAFT', 'OPEN', 'PARTIALLY_RECEIVED', 'CLOSED', 'SHORT_CLOSED', 'CANCELLED']).optional(),
+  search: z.string().optional(),
+});
+
+export const returnAuthorizationQuerySchema = paginationSchema.extend({
+  warehouseId: z.string().uuid().optional(),
+  orderId: z.string().uuid().optional(),
+  status: z.enum(['AUTHORIZED', 'RECEIVING', 'RECEIVED', 'CLOSED', 'CANCELLED']).optional(),
+  search: z.string().optional(),
+});
+
+export const disposalTaskQuerySchema = z.object({
+  warehouseId: z.string().uuid().optional(),
+  status: z.enum(['PENDING', 'COMPLETED', 'CANCELLED']).optional(),
+  disposalType: z.enum(['SCRAP', 'RETURN_TO_VENDOR']).optional(),
+});
+
+export const qaInspectionQuerySchema = paginationSchema.extend({
+  warehouseId: z.string().uuid().optional(),
+  status: z.enum(['PENDING', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED']).optional(),
+  result: z.enum(['PASS', 'FAIL', 'CONDITIONAL']).optional(),
+  assignedToId: z.string().uuid().optional(),
+  search: z.string().optional(),
+});
+
+export const newSkuRequestQuerySchema = paginationSchema.extend({
+  warehouseId: z.string().uuid().optional(),
+  status: z.enum(['PENDING', 'APPROVED', 'REJECTED']).optional(),
+  search: z.string().optional(),
+});
+
+export const attachmentQuerySchema = z.object({
+  entityType: attachmentEntityTypeSchema,
+  entityId: z.string().uuid(),
+});
+
+export const grnQuerySchema = z.object({
+  format: z.enum(['json', 'pdf']).optional(),
+  version: z.string().regex(/^\d+$/).transform(Number).optional(),
+});
+
+export const varianceSlaMetricsQuerySchema = dateRangeSchema.extend({
+  warehouseId: z.string().uuid().optional(),
+});
+
+export const approvalChainQuerySchema = z.object({
+  documentType: approvalDocumentTypeSchema.optional(),
+  warehouseId: z.string().uuid().optional(),
+  includeInactive: z.enum(['true', 'false']).optional(),
+});
+
+export const varianceAnalyticsQuerySchema = dateRangeSchema.extend({
+  warehouseId: z.string().uuid().optional(),
+  receiptType: z.enum(['ASN', 'BLIND']).optional(),
+  // Comma-separated lists
+  varianceTypes: z.string().optional(),
+  statuses: z.string().optional(),
+  periodDays: z.string().regex(/^\d+$/).optional(),
+});
+
+export const varianceParetoQuerySchema = varianceAnalyticsQuerySchema.extend({
+  dimension: analyticsDimensionSchema,
+  metric: analyticsMetricSchema.optional(),
+});
+
+export const varianceTrendQuerySchema = varianceAnalyticsQuerySchema.extend({
+  interval: trendIntervalSchema.optional(),
+  dimension: analyticsDimensionSchema.optional(),
+  metric: analyticsMetricSchema.optional(),
+});
+
+export const varianceDrillDownQuerySchema = varianceAnalyticsQuerySchema.merge(paginationSchema).extend({
+  dimension: analyticsDimensionSchema,
+  key: z.string().min(1),
+});
+
+export const varianceAnalyticsExportQuerySchema = varianceAnalyticsQuerySchema.extend({
+  view: z.enum(['pareto', 'trends', 'variances']),
+  dimension: analyticsDimensionSchema.optional(),
+  metric: analyticsMetricSchema.optional(),
+  interval: trendIntervalSchema.optional(),
+  key: z.string().optional(),
+});
+
+export const varianceReportExportQuerySchema = z.object({
+  view: z.enum(['pareto', 'trends', 'variances']).optional(),
+});
+
+export const supplierClaimQuerySchema = paginationSchema.extend({
+  warehouseId: z.string().uuid().optional(),
+  supplierId: z.string().uuid().optional(),
+  asnId: z.string().uuid().optional(),
+  status: z.enum(['DRAFT', 'SENT', 'ACKNOWLEDGED', 'CREDITED', 'DISPUTED']).optional(),
+});
+
 export const blindReceiptQuerySchema = paginationSchema.merge(dateRangeSchema).extend({
   warehouseId: z.string().uuid().optional(),
   status: z.enum(['DRAFT', 'SUBMITTED', 'PENDING_APPROVAL', 'APPROVED', 'REJECTED']).optional(),
@@ -281,6 +1181,27 @@ export const putawayQuerySchema = paginationSchema.extend({
   status: z.enum(['PENDING', 'ASSIGNED', 'IN_PROGRESS', 'COMPLETED', 'CANCELLED', 'ON_HOLD']).optional(),
 });
 
+export const putawayRuleQuerySchema = z.object({
+  warehouseId: z.string().uuid().optional(),
+  includeInactive: z.enum(['true', 'false']).optional(),
+});
+
+export const putawayOverrideReportQuerySchema = dateRangeSchema.extend({
+  warehouseId: z.string().uuid().optional(),
+  groupBy: z.enum(['location', 'operator']),
+  limit: z.string().regex(/^\d+$/).optional(),
+});
+
+export const capacityReconciliationQuerySchema = paginationSchema.extend({
+  warehouseId: z.string().uuid().optional(),
+});
+
+export const putawayBatchQuerySchema = paginationSchema.extend({
+  warehouseId: z.string().uuid().optional(),
+  operatorUserId: z.string().uuid().optional(),
+  status: z.enum(['PENDING', 'ASSIGNED', 'IN_PROGRESS', 'COMPLETED', 'PARTIALLY_COMPLETED', 'CANCELLED']).optional(),
+});
+
 export const lpnQuerySchema = paginationSchema.extend({
   warehouseId: z.string().uuid().optional(),
   status: z.enum(['RECEIVING', 'AVAILABLE', 'ALLOCATED', 'PICKED', 'SHIPPED', 'CONSUMED', 'ARCHIVED']).optional(),
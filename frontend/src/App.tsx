@@ -19,16 +19,30 @@ import { DashboardPage } from './pages/dashboard/DashboardPage';
 import { ASNListPage } from './pages/asn/ASNListPage';
 import { ASNDetailPage } from './pages/asn/ASNDetailPage';
 import { ASNReceivingPage } from './pages/asn/ASNReceivingPage';
+import { DockCalendarPage } from './pages/asn/DockCalendarPage';
 
 // Blind Receipt Pages
 import { BlindReceiptListPage } from './pages/blindReceipt/BlindReceiptListPage';
 import { BlindReceiptCreatePage } from './pages/blindReceipt/BlindReceiptCreatePage';
+import { NewSkuRequestPage } from './pages/blindReceipt/NewSkuRequestPage';
 
 // Variance Pages
 import { VarianceListPage } from './pages/variance/VarianceListPage';
+import { TemperatureExcursionPage } from './pages/variance/TemperatureExcursionPage';
+
+// Supplier Pages
+import { SupplierScorecardPage } from './pages/supplier/SupplierScorecardPage';
+import { SupplierClaimsPage } from './pages/supplier/SupplierClaimsPage';
+
+// QA Pages
+import { QAInspectionPage } from './pages/qa/QAInspectionPage';
+
+// Returns Pages
+import { ReturnsReceivingPage } from './pages/returns/ReturnsReceivingPage';
 
 // Putaway Pages
 import { PutawayListPage } from './pages/putaway/PutawayListPage';
+import { PutawayExecutePage } from './pages/putaway/PutawayExecutePage';
 
 // LPN Pages
 import { LPNListPage } from './pages/lpn/LPNListPage';
@@ -88,18 +102,33 @@ function App() {
 
           {/* ASN Routes */}
           <Route path="/asn" element={<ASNListPage />} />
+          <Route path="/asn/dock-calendar" element={<DockCalendarPage />} />
           <Route path="/asn/:id" element={<ASNDetailPage />} />
           <Route path="/asn/:id/receive" element={<ASNReceivingPage />} />
 
           {/* Blind Receipt Routes */}
           <Route path="/blind-receipts" element={<BlindReceiptListPage />} />
           <Route path="/blind-receipts/create" element={<BlindReceiptCreatePage />} />
+          <Route path="/sku-requests" element={<NewSkuRequestPage />} />
 
           {/* Variance Routes */}
           <Route path="/variances" element={<VarianceListPage />} />
+          <Route path="/variances/temperature-excursions" element={<TemperatureExcursionPage />} />
+
+          {/* Supplier Routes */}
+          <Route path="/suppliers/scorecards" element={<SupplierScorecardPage />} />
+          <Route path="/suppliers/claims" element={<SupplierClaimsPage />} />
+
+          {/* QA Routes */}
+          <Route path="/qa-inspections" element={<QAInspectionPage />} />
+
+          {/* Returns Routes */}
+          <Route path="/returns" element={<ReturnsReceivingPage />} />
 
           {/* Putaway Routes */}
           <Route path="/putaway" element={<PutawayListPage />} />
+          <Route path="/putaway/:id/execute" element={<PutawayExecutePage />} />
+          <Route path="/putaway/batches/:batchId/execute" element={<PutawayExecutePage />} />
 
           {/* LPN Routes */}
           <Route path="/lpn" element={<LPNListPage />} />
@@ -1,6 +1,7 @@
 import { Outlet, Link, useLocation, useNavigate } from 'react-router-dom';
 import { useAuthStore, useUIStore } from '../store';
 import { cn } from '../utils/helpers';
+import { UserRole } from '../types';
 
 // ==========================================
 // DASHBOARD LAYOUT
@@ -14,15 +15,50 @@ export const DashboardLayout: React.FC = () => {
   const isSidebarOpen = useUIStore((state) => state.isSidebarOpen);
   const setSidebarOpen = useUIStore((state) => state.setSidebarOpen);
 
-  const navigation = [
+  const navItems: { name: string; href: string; icon: string; roles?: UserRole[] }[] = [
     { name: 'Dashboard', href: '/', icon: '📊' },
     { name: 'ASN Receiving', href: '/asn', icon: '📦' },
     { name: 'Blind Receipts', href: '/blind-receipts', icon: '📝' },
+    {
+      name: 'New SKU Requests',
+      href: '/sku-requests',
+      icon: '🆕',
+      roles: ['BUYER', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'],
+    },
     { name: 'Variances', href: '/variances', icon: '⚠️' },
+    {
+      name: 'Cold Chain',
+      href: '/variances/temperature-excursions',
+      icon: '🌡️',
+      roles: ['RECEIVING_SUPERVISOR', 'QA_INSPECTOR', 'WAREHOUSE_MANAGER', 'BUYER', 'PLATFORM_ADMIN'],
+    },
+    {
+      name: 'QA Inspections',
+      href: '/qa-inspections',
+      icon: '🔬',
+      roles: ['QA_INSPECTOR', 'RECEIVING_SUPERVISOR', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'],
+    },
+    { name: 'Returns', href: '/returns', icon: '↩️' },
     { name: 'Putaway Tasks', href: '/putaway', icon: '🏭' },
     { name: 'LPN Management', href: '/lpn', icon: '🏷️' },
+    {
+      name: 'Supplier Scorecards',
+      href: '/suppliers/scorecards',
+      icon: '📈',
+      roles: ['BUYER', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'],
+    },
+    {
+      name: 'Supplier Claims',
+      href: '/suppliers/claims',
+      icon: '💸',
+      roles: ['BUYER', 'WAREHOUSE_MANAGER', 'TENANT_ADMIN', 'PLATFORM_ADMIN'],
+    },
   ];
 
+  const navigation = navItems.filter(
+    (item) => !item.roles || (user && item.roles.includes(user.role))
+  );
+
   const handleLogout = async () => {
     await logout();
     navigate('/login');
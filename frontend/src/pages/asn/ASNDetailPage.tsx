@@ -11,7 +11,8 @@ import {
   Table,
   ConfirmModal,
 } from '../../components/ui';
-import { formatDate, formatDateTime, formatNumber } from '../../utils/helpers';
+import { downloadBlob, formatDate, formatDateTime, formatNumber } from '../../utils/helpers';
+import asnService from '../../services/asn.service';
 import { showErrorToast, showSuccessToast } from '../../store/uiStore';
 
 export const ASNDetailPage: React.FC = () => {
@@ -62,6 +63,16 @@ export const ASNDetailPage: React.FC = () => {
     }
   };
 
+  const handleDownloadGRN = async () => {
+    if (!currentASN) return;
+    try {
+      const blob = await asnService.downloadGRN(currentASN.id);
+      downloadBlob(blob, `GRN-${currentASN.asnNumber}.pdf`);
+    } catch (error) {
+      showErrorToast('Failed to download GRN');
+    }
+  };
+
   if (isLoading || !currentASN) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -138,6 +149,15 @@ export const ASNDetailPage: React.FC = () => {
         </div>
 
         <div className="flex space-x-3">
+          {(currentASN.shipmentStatus === 'CREATED' ||
+            currentASN.shipmentStatus === 'IN_TRANSIT') && (
+            <Button
+              variant="secondary"
+              onClick={() => navigate(`/asn/dock-calendar?asnId=${currentASN.id}`)}
+            >
+              Book Dock Slot
+            </Button>
+          )}
           {currentASN.shipmentStatus === 'IN_TRANSIT' && (
             <Button variant="primary" onClick={handleMarkArrived}>
               Mark as Arrived
@@ -156,6 +176,11 @@ export const ASNDetailPage: React.FC = () => {
               Continue Receiving
             </Button>
           )}
+          {currentASN.shipmentStatus === 'COMPLETED' && (
+            <Button variant="secondary" onClick={handleDownloadGRN}>
+              Download GRN
+            </Button>
+          )}
           {currentASN.shipmentStatus !== 'COMPLETED' &&
             currentASN.shipmentStatus !== 'CANCELLED' && (
               <Button variant="danger" onClick={() => setShowCancelModal(true)}>
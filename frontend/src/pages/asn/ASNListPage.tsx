@@ -181,7 +181,12 @@ export const ASNListPage: React.FC = () => {
             Manage Advanced Shipping Notices and receiving operations
           </p>
         </div>
-        <Button variant="primary">Create ASN</Button>
+        <div className="flex space-x-3">
+          <Button variant="secondary" onClick={() => navigate('/asn/dock-calendar')}>
+            Dock Calendar
+          </Button>
+          <Button variant="primary">Create ASN</Button>
+        </div>
       </div>
 
       {/* Filters */}
@@ -16,7 +16,9 @@ import {
 } from '../../components/ui';
 import { formatNumber } from '../../utils/helpers';
 import { showErrorToast, showSuccessToast } from '../../store/uiStore';
-import { ItemCondition } from '../../types';
+import attachmentService from '../../services/attachment.service';
+import barcodeService, { ResolvedGS1Barcode } from '../../services/barcode.service';
+import { GS1ParseError, ItemCondition } from '../../types';
 
 export const ASNReceivingPage: React.FC = () => {
   const { id } = useParams<{ id: string }>();
@@ -27,6 +29,8 @@ export const ASNReceivingPage: React.FC = () => {
   const [selectedLine, setSelectedLine] = useState<any>(null);
   const [receiveModal, setReceiveModal] = useState(false);
   const [scannedSKU, setScannedSKU] = useState('');
+  const [gs1Scan, setGs1Scan] = useState('');
+  const [gs1Errors, setGs1Errors] = useState<GS1ParseError[]>([]);
 
   // Receiving form state
   const [receivingData, setReceivingData] = useState({
@@ -40,6 +44,9 @@ export const ASNReceivingPage: React.FC = () => {
     varianceNotes: '',
     qaHold: false,
     temperatureReading: '',
+    serialNumbers: [] as string[],
+    netWeight: '',
+    gs1Barcodes: [] as string[],
     photoEvidence: [] as File[],
   });
 
@@ -49,26 +56,85 @@ export const ASNReceivingPage: React.FC = () => {
     }
   }, [id]);
 
-  // Handle SKU scan
-  const handleSKUScan = (code: string) => {
+  // Did the scanned GTIN resolve to a line's SKU?
+  const lineMatchesGTIN = (line: any, gs1: ResolvedGS1Barcode) => !!gs1.sku && gs1.sku.id === line.skuId;
+
+  // Parse a scan on the server, which also resolves its GTIN to a SKU
+  const parseScan = async (code: string): Promise<ResolvedGS1Barcode | null> => {
+    try {
+      return await barcodeService.parseGS1(code);
+    } catch (error: any) {
+      showErrorToast('Scan failed', error.error || 'Could not read the barcode');
+      return null;
+    }
+  };
+
+  // Handle SKU scan (plain SKU code/barcode or a GS1 label)
+  const handleSKUScan = async (code: string) => {
     setScannedSKU(code);
+    const gs1 = await parseScan(code);
+    if (!gs1) return;
+    const gtin = gs1.gtin || gs1.contentGtin;
+
     const line = currentASN?.lines?.find(
-      (l) => l.sku?.skuCode === code || l.sku?.barcode === code
+      (l: any) =>
+        l.lineStatus === 'PENDING' &&
+        (l.sku?.skuCode === code ||
+          l.sku?.barcode === code ||
+          (gs1.valid && gtin && lineMatchesGTIN(l, gs1)))
     );
 
     if (line) {
-      setSelectedLine(line);
-      setReceiveModal(true);
-      setReceivingData((prev) => ({
-        ...prev,
-        receivedQuantity: line.expectedQuantity,
-        acceptedQuantity: line.expectedQuantity,
-      }));
+      handleSelectLine(line);
+      if (gs1.valid) {
+        applyGS1(code, gs1, line);
+      }
+    } else if (gtin && !gs1.valid) {
+      showErrorToast('Invalid GS1 barcode', gs1.errors.map((e) => e.message).join('; '));
     } else {
-      showErrorToast('SKU not found', `No line found for SKU: ${code}`);
+      showErrorToast('SKU not found', `No line found for ${gtin ? `GTIN ${gtin}` : `SKU: ${code}`}`);
+    }
+  };
+
+  // Auto-fill batch, expiry, serial, SSCC and net weight from a GS1 label
+  const applyGS1Scan = async (code: string) => {
+    setGs1Scan('');
+    const gs1 = await parseScan(code);
+    if (gs1) {
+      applyGS1(code, gs1, selectedLine);
     }
   };
 
+  const applyGS1 = (code: string, gs1: ResolvedGS1Barcode, line: any) => {
+    if (!gs1.valid) {
+      setGs1Errors(gs1.errors);
+      showErrorToast('Invalid GS1 barcode', gs1.errors.map((e) => e.message).join('; '));
+      return;
+    }
+
+    const gtin = gs1.gtin || gs1.contentGtin;
+    if (gtin && line?.sku?.gtin && !lineMatchesGTIN(line, gs1)) {
+      const error = { ai: '01', position: 0, message: `GTIN ${gtin} does not match SKU ${line.sku.skuCode}` };
+      setGs1Errors([error]);
+      showErrorToast('Wrong item scanned', error.message);
+      return;
+    }
+
+    setGs1Errors([]);
+    setReceivingData((prev) => ({
+      ...prev,
+      batchNumberReceived: gs1.batchNumber || prev.batchNumberReceived,
+      expiryDateReceived: gs1.expiryDate || prev.expiryDateReceived,
+      lpnReceived: gs1.sscc || prev.lpnReceived,
+      netWeight: gs1.netWeightKg !== undefined ? String(gs1.netWeightKg) : prev.netWeight,
+      serialNumbers:
+        gs1.serialNumber && !prev.serialNumbers.includes(gs1.serialNumber)
+          ? [...prev.serialNumbers, gs1.serialNumber]
+          : prev.serialNumbers,
+      gs1Barcodes: prev.gs1Barcodes.includes(code) ? prev.gs1Barcodes : [...prev.gs1Barcodes, code],
+    }));
+  };
+
   // Handle manual line selection
   const handleSelectLine = (line: any) => {
     setSelectedLine(line);
@@ -84,8 +150,12 @@ export const ASNReceivingPage: React.FC = () => {
       varianceNotes: '',
       qaHold: false,
       temperatureReading: '',
+      serialNumbers: [],
+      netWeight: '',
+      gs1Barcodes: [],
       photoEvidence: [],
     });
+    setGs1Errors([]);
   };
 
   // Handle receive submission
@@ -96,15 +166,25 @@ export const ASNReceivingPage: React.FC = () => {
       const hasVariance =
         receivingData.receivedQuantity !== selectedLine.expectedQuantity;
 
+      const { netWeight, photoEvidence, ...data } = receivingData;
+
       await receiveASNLine(currentASN.id, selectedLine.id, {
-        ...receivingData,
+        ...data,
         temperatureReading: receivingData.temperatureReading
           ? parseFloat(receivingData.temperatureReading)
           : undefined,
+        weight: netWeight ? parseFloat(netWeight) : undefined,
         varianceType: hasVariance ? 'QUANTITY' : undefined,
-        photoEvidenceUrls: [], // In real app, upload files first
       });
 
+      if (photoEvidence.length > 0) {
+        try {
+          await attachmentService.upload(photoEvidence, { entityType: 'ASN_LINE', entityId: selectedLine.id });
+        } catch (error: any) {
+          showErrorToast('Line received, but photo upload failed', error.error);
+        }
+      }
+
       showSuccessToast('Line received successfully');
       setReceiveModal(false);
       setSelectedLine(null);
@@ -120,8 +200,12 @@ export const ASNReceivingPage: React.FC = () => {
         varianceNotes: '',
         qaHold: false,
         temperatureReading: '',
+        serialNumbers: [],
+        netWeight: '',
+        gs1Barcodes: [],
         photoEvidence: [],
       });
+      setGs1Errors([]);
 
       // Refresh ASN data
       await fetchASNById(currentASN.id);
@@ -218,7 +302,7 @@ export const ASNReceivingPage: React.FC = () => {
             <BarcodeInput
               value={scannedSKU}
               onChange={setScannedSKU}
-              placeholder="Scan or enter SKU code"
+              placeholder="Scan SKU code or GS1 label"
               onScan={handleSKUScan}
             />
           </CardBody>
@@ -325,6 +409,29 @@ export const ASNReceivingPage: React.FC = () => {
               </p>
             </div>
 
+            {/* GS1 Label Scan */}
+            <div>
+              <BarcodeInput
+                label="Scan GS1 Label"
+                value={gs1Scan}
+                onChange={setGs1Scan}
+                placeholder="Scan GS1-128 / DataMatrix to auto-fill"
+                onScan={(code) => applyGS1Scan(code)}
+              />
+              {gs1Errors.length > 0 && (
+                <ul className="mt-2 space-y-1 text-sm text-danger-600">
+                  {gs1Errors.map((error, index) => (
+                    <li key={index}>{error.message}</li>
+                  ))}
+                </ul>
+              )}
+              {receivingData.gs1Barcodes.length > 0 && (
+                <p className="mt-1 text-xs text-gray-500">
+                  {receivingData.gs1Barcodes.length} label(s) scanned
+                </p>
+              )}
+            </div>
+
             {/* Quantities */}
             <div className="grid grid-cols-3 gap-4">
               <Input
@@ -403,6 +510,43 @@ export const ASNReceivingPage: React.FC = () => {
               placeholder="Scan or enter LPN"
             />
 
+            {/* Serials & Net Weight */}
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">
+                  Serial Numbers ({receivingData.serialNumbers.length})
+                </label>
+                <div className="flex flex-wrap gap-1">
+                  {receivingData.serialNumbers.map((serial) => (
+                    <button
+                      key={serial}
+                      onClick={() =>
+                        setReceivingData((prev) => ({
+                          ...prev,
+                          serialNumbers: prev.serialNumbers.filter((s) => s !== serial),
+                        }))
+                      }
+                      className="rounded bg-gray-100 px-2 py-0.5 text-xs text-gray-700 hover:bg-danger-50"
+                    >
+                      {serial} ✕
+                    </button>
+                  ))}
+                  {receivingData.serialNumbers.length === 0 && (
+                    <span className="text-sm text-gray-400">Scan labels to capture serials</span>
+                  )}
+                </div>
+              </div>
+              <Input
+                type="number"
+                label="Net Weight (kg)"
+                value={receivingData.netWeight}
+                onChange={(e) =>
+                  setReceivingData((prev) => ({ ...prev, netWeight: e.target.value }))
+                }
+                placeholder="Optional"
+              />
+            </div>
+
             {/* Variance (if any) */}
             {receivingData.receivedQuantity !== selectedLine.expectedQuantity && (
               <div className="border-l-4 border-warning-500 bg-warning-50 p-4 rounded">
@@ -0,0 +1,420 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import dockService from '../../services/dock.service';
+import asnService from '../../services/asn.service';
+import {
+  Card,
+  CardHeader,
+  CardBody,
+  Button,
+  Input,
+  Select,
+  StatusBadge,
+  Modal,
+  Textarea,
+} from '../../components/ui';
+import { ASN, DockAppointment, DockDoor, DockSlot } from '../../types';
+import { formatDate, formatDateTime, formatNumber } from '../../utils/helpers';
+import { showErrorToast, showSuccessToast } from '../../store/uiStore';
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const toDateInput = (date: Date) => {
+  const offset = date.getTimezoneOffset() * 60000;
+  return new Date(date.getTime() - offset).toISOString().split('T')[0];
+};
+
+const formatTime = (date: string) =>
+  new Date(date).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+export const DockCalendarPage: React.FC = () => {
+  const [searchParams] = useSearchParams();
+  const [date, setDate] = useState(toDateInput(new Date()));
+  const [doors, setDoors] = useState<DockDoor[]>([]);
+  const [appointments, setAppointments] = useState<DockAppointment[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Booking
+  const [bookModal, setBookModal] = useState(false);
+  const [openASNs, setOpenASNs] = useState<ASN[]>([]);
+  const [slots, setSlots] = useState<DockSlot[]>([]);
+  const [booking, setBooking] = useState({
+    asnId: searchParams.get('asnId') || '',
+    dockDoorId: '',
+    slotStart: '',
+    trailerNumber: '',
+    driverName: '',
+    notes: '',
+  });
+
+  // Selected appointment
+  const [selected, setSelected] = useState<DockAppointment | null>(null);
+  const [reschedule, setReschedule] = useState({ dockDoorId: '', scheduledStart: '' });
+
+  useEffect(() => {
+    loadDoors();
+    if (searchParams.get('asnId')) {
+      openBookModal();
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAppointments();
+  }, [date]);
+
+  useEffect(() => {
+    if (bookModal && booking.dockDoorId) {
+      loadSlots(booking.dockDoorId);
+    }
+  }, [bookModal, booking.dockDoorId, date]);
+
+  const loadDoors = async () => {
+    try {
+      setDoors(await dockService.getDockDoors());
+    } catch (error) {
+      showErrorToast('Failed to load dock doors');
+    }
+  };
+
+  const loadAppointments = async () => {
+    setIsLoading(true);
+    try {
+      const dayStart = new Date(`${date}T00:00:00`);
+      const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+      const data = await dockService.getAppointments({
+        dateFrom: dayStart.toISOString(),
+        dateTo: dayEnd.toISOString(),
+      });
+      setAppointments(data.filter((a) => a.status !== 'CANCELLED'));
+    } catch (error) {
+      showErrorToast('Failed to load appointments');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadSlots = async (dockDoorId: string) => {
+    try {
+      const availability = await dockService.getAvailability(dockDoorId, date);
+      setSlots(availability.slots);
+    } catch (error) {
+      setSlots([]);
+      showErrorToast('Failed to load door availability');
+    }
+  };
+
+  const openBookModal = async () => {
+    setBookModal(true);
+    try {
+      const [created, inTransit] = await Promise.all([
+        asnService.getASNs({ status: 'CREATED', limit: 100 }),
+        asnService.getASNs({ status: 'IN_TRANSIT', limit: 100 }),
+      ]);
+      setOpenASNs([...created.data, ...inTransit.data]);
+    } catch (error) {
+      showErrorToast('Failed to load ASNs');
+    }
+  };
+
+  const handleBook = async () => {
+    if (!booking.asnId || !booking.dockDoorId || !booking.slotStart) {
+      showErrorToast('Select an ASN, door and slot');
+      return;
+    }
+    try {
+      const appointment = await dockService.bookAppointment({
+        asnId: booking.asnId,
+        dockDoorId: booking.dockDoorId,
+        scheduledStart: booking.slotStart,
+        trailerNumber: booking.trailerNumber || undefined,
+        driverName: booking.driverName || undefined,
+        notes: booking.notes || undefined,
+      });
+      showSuccessToast('Appointment booked', appointment.appointmentNumber);
+      setBookModal(false);
+      setBooking({ asnId: '', dockDoorId: '', slotStart: '', trailerNumber: '', driverName: '', notes: '' });
+      loadAppointments();
+    } catch (error: any) {
+      showErrorToast('Failed to book appointment', error?.error);
+    }
+  };
+
+  const selectAppointment = (appointment: DockAppointment) => {
+    setSelected(appointment);
+    setReschedule({
+      dockDoorId: appointment.dockDoorId,
+      scheduledStart: toDateInput(new Date(appointment.scheduledStart)) +
+        'T' + new Date(appointment.scheduledStart).toTimeString().substring(0, 5),
+    });
+  };
+
+  const runAction = async (action: () => Promise<DockAppointment>, message: string) => {
+    try {
+      await action();
+      showSuccessToast(message);
+      setSelected(null);
+      loadAppointments();
+    } catch (error: any) {
+      showErrorToast('Action failed', error?.error);
+    }
+  };
+
+  const shiftDay = (days: number) => {
+    const next = new Date(`${date}T00:00:00`);
+    next.setDate(next.getDate() + days);
+    setDate(toDateInput(next));
+  };
+
+  const grid = useMemo(() => {
+    const byDoorHour: Record<string, DockAppointment[]> = {};
+    appointments.forEach((appointment) => {
+      const start = new Date(appointment.scheduledStart);
+      if (toDateInput(start) !== date) return;
+      const key = `${appointment.dockDoorId}-${start.getHours()}`;
+      byDoorHour[key] = [...(byDoorHour[key] || []), appointment];
+    });
+    return byDoorHour;
+  }, [appointments, date]);
+
+  const inboundDoors = doors.filter((door) => door.doorType !== 'OUTBOUND');
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="flex items-center space-x-2">
+            <Link to="/asn" className="text-gray-400 hover:text-gray-600">
+              <svg className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 19l-7-7 7-7" />
+              </svg>
+            </Link>
+            <h1 className="text-2xl font-bold text-gray-900">Dock Calendar</h1>
+          </div>
+          <p className="mt-1 text-sm text-gray-600">
+            Inbound appointments by dock door for {formatDate(`${date}T00:00:00`)}
+          </p>
+        </div>
+        <Button variant="primary" onClick={openBookModal}>Book Appointment</Button>
+      </div>
+
+      {/* Date navigation */}
+      <Card>
+        <CardBody>
+          <div className="flex items-center space-x-3">
+            <Button variant="ghost" onClick={() => shiftDay(-1)}>← Previous</Button>
+            <div className="w-48">
+              <Input type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+            </div>
+            <Button variant="ghost" onClick={() => setDate(toDateInput(new Date()))}>Today</Button>
+            <Button variant="ghost" onClick={() => shiftDay(1)}>Next →</Button>
+            <span className="ml-auto text-sm text-gray-600">
+              {appointments.length} appointments · {inboundDoors.length} doors
+            </span>
+          </div>
+        </CardBody>
+      </Card>
+
+      {/* Calendar grid */}
+      <Card>
+        <CardHeader title="Schedule" />
+        <CardBody padding="none">
+          {isLoading ? (
+            <div className="p-8 text-center text-gray-500">Loading...</div>
+          ) : inboundDoors.length === 0 ? (
+            <div className="p-8 text-center text-gray-500">No inbound dock doors configured</div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full border-collapse text-sm">
+                <thead>
+                  <tr className="bg-gray-50">
+                    <th className="w-20 border-b px-3 py-2 text-left text-gray-600">Time</th>
+                    {inboundDoors.map((door) => (
+                      <th key={door.id} className="border-b border-l px-3 py-2 text-left">
+                        <p className="font-medium text-gray-900">{door.code}</p>
+                        <p className="text-xs font-normal text-gray-500">
+                          {door.name} · {door.slotCapacity} per {door.slotDurationMinutes} min
+                        </p>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {HOURS.map((hour) => (
+                    <tr key={hour} className="align-top">
+                      <td className="border-b px-3 py-2 text-gray-500">
+                        {hour.toString().padStart(2, '0')}:00
+                      </td>
+                      {inboundDoors.map((door) => (
+                        <td key={door.id} className="h-12 border-b border-l px-2 py-1">
+                          {(grid[`${door.id}-${hour}`] || []).map((appointment) => (
+                            <button
+                              key={appointment.id}
+                              onClick={() => selectAppointment(appointment)}
+                              className="mb-1 block w-full rounded border border-primary-200 bg-primary-50 px-2 py-1 text-left hover:bg-primary-100"
+                            >
+                              <div className="flex items-center justify-between">
+                                <span className="font-medium text-primary-700">
+                                  {appointment.asn?.asnNumber}
+                                </span>
+                                <StatusBadge status={appointment.status} />
+                              </div>
+                              <p className="text-xs text-gray-600">
+                                {formatTime(appointment.scheduledStart)}–{formatTime(appointment.scheduledEnd)}
+                                {appointment.asn?.supplierName && ` · ${appointment.asn.supplierName}`}
+                              </p>
+                            </button>
+                          ))}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </CardBody>
+      </Card>
+
+      {/* Book Modal */}
+      <Modal isOpen={bookModal} onClose={() => setBookModal(false)} title="Book Dock Appointment" size="lg">
+        <div className="space-y-4">
+          <Select
+            label="ASN"
+            value={booking.asnId}
+            onChange={(e) => setBooking({ ...booking, asnId: e.target.value })}
+            options={[
+              { value: '', label: 'Select ASN...' },
+              ...openASNs.map((asn) => ({
+                value: asn.id,
+                label: `${asn.asnNumber} · ${asn.supplierName} · due ${formatDate(asn.expectedArrivalDate)}`,
+              })),
+            ]}
+            required
+          />
+          <div className="grid grid-cols-2 gap-4">
+            <Select
+              label="Dock Door"
+              value={booking.dockDoorId}
+              onChange={(e) => setBooking({ ...booking, dockDoorId: e.target.value, slotStart: '' })}
+              options={[
+                { value: '', label: 'Select door...' },
+                ...inboundDoors.map((door) => ({ value: door.id, label: `${door.code} – ${door.name}` })),
+              ]}
+              required
+            />
+            <Input label="Date" type="date" value={date} onChange={(e) => setDate(e.target.value)} />
+          </div>
+          {booking.dockDoorId && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Slot</label>
+              {slots.length === 0 ? (
+                <p className="text-sm text-gray-500">Door is closed on this date</p>
+              ) : (
+                <div className="grid grid-cols-4 gap-2">
+                  {slots.map((slot) => (
+                    <button
+                      key={slot.start}
+                      disabled={!slot.available}
+                      onClick={() => setBooking({ ...booking, slotStart: slot.start })}
+                      className={`rounded border-2 px-2 py-1 text-sm ${
+                        booking.slotStart === slot.start
+                          ? 'border-primary-600 bg-primary-50 text-primary-700'
+                          : slot.available
+                          ? 'border-gray-300 hover:border-primary-400'
+                          : 'cursor-not-allowed border-gray-200 bg-gray-100 text-gray-400'
+                      }`}
+                    >
+                      {formatTime(slot.start)}
+                      <span className="block text-xs">{slot.booked}/{slot.capacity} booked</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+          <div className="grid grid-cols-2 gap-4">
+            <Input label="Trailer Number" value={booking.trailerNumber} onChange={(e) => setBooking({ ...booking, trailerNumber: e.target.value })} />
+            <Input label="Driver Name" value={booking.driverName} onChange={(e) => setBooking({ ...booking, driverName: e.target.value })} />
+          </div>
+          <Textarea label="Notes" value={booking.notes} onChange={(e) => setBooking({ ...booking, notes: e.target.value })} rows={2} />
+          <div className="flex justify-end space-x-3 pt-4 border-t">
+            <Button variant="ghost" onClick={() => setBookModal(false)}>Cancel</Button>
+            <Button variant="primary" onClick={handleBook}>Book</Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Appointment Modal */}
+      <Modal isOpen={!!selected} onClose={() => setSelected(null)} title={`Appointment ${selected?.appointmentNumber || ''}`} size="lg">
+        {selected && (
+          <div className="space-y-4">
+            <div className="bg-gray-50 p-4 rounded">
+              <div className="grid grid-cols-2 gap-3 text-sm">
+                <div><p className="text-gray-600">ASN</p><Link to={`/asn/${selected.asnId}`} className="font-medium text-primary-600">{selected.asn?.asnNumber}</Link></div>
+                <div><p className="text-gray-600">Status</p><StatusBadge status={selected.status} /></div>
+                <div><p className="text-gray-600">Supplier</p><p className="font-medium">{selected.asn?.supplierName || '-'}</p></div>
+                <div><p className="text-gray-600">Expected Units</p><p className="font-medium">{formatNumber(Number(selected.asn?.totalExpectedUnits || 0))}</p></div>
+                <div><p className="text-gray-600">Door</p><p className="font-medium">{selected.dockDoor?.code}</p></div>
+                <div><p className="text-gray-600">Slot</p><p className="font-medium">{formatTime(selected.scheduledStart)}–{formatTime(selected.scheduledEnd)}</p></div>
+                <div><p className="text-gray-600">Carrier / Trailer</p><p className="font-medium">{selected.carrier || '-'} / {selected.trailerNumber || '-'}</p></div>
+                <div><p className="text-gray-600">Rescheduled</p><p className="font-medium">{selected.rescheduleCount} times</p></div>
+                {selected.checkedInAt && (
+                  <div><p className="text-gray-600">Checked In</p><p className="font-medium">{formatDateTime(selected.checkedInAt)}</p></div>
+                )}
+                {selected.checkedOutAt && (
+                  <div><p className="text-gray-600">Checked Out</p><p className="font-medium">{formatDateTime(selected.checkedOutAt)}</p></div>
+                )}
+              </div>
+            </div>
+
+            {selected.status === 'SCHEDULED' && (
+              <div className="grid grid-cols-3 gap-3 items-end">
+                <Select
+                  label="Move to Door"
+                  value={reschedule.dockDoorId}
+                  onChange={(e) => setReschedule({ ...reschedule, dockDoorId: e.target.value })}
+                  options={inboundDoors.map((door) => ({ value: door.id, label: door.code }))}
+                />
+                <Input
+                  label="New Start"
+                  type="datetime-local"
+                  value={reschedule.scheduledStart}
+                  onChange={(e) => setReschedule({ ...reschedule, scheduledStart: e.target.value })}
+                />
+                <Button
+                  variant="secondary"
+                  onClick={() =>
+                    runAction(
+                      () =>
+                        dockService.rescheduleAppointment(selected.id, {
+                          dockDoorId: reschedule.dockDoorId,
+                          scheduledStart: new Date(reschedule.scheduledStart).toISOString(),
+                        }),
+                      'Appointment rescheduled'
+                    )
+                  }
+                >
+                  Reschedule
+                </Button>
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-3 pt-4 border-t">
+              {selected.status === 'SCHEDULED' && (
+                <>
+                  <Button variant="ghost" onClick={() => runAction(() => dockService.cancelAppointment(selected.id, true), 'Marked as no-show')}>No-Show</Button>
+                  <Button variant="danger" onClick={() => runAction(() => dockService.cancelAppointment(selected.id), 'Appointment cancelled')}>Cancel</Button>
+                  <Button variant="primary" onClick={() => runAction(() => dockService.checkIn(selected.id), 'Truck checked in')}>Check In</Button>
+                </>
+              )}
+              {selected.status === 'CHECKED_IN' && (
+                <Button variant="primary" onClick={() => runAction(() => dockService.checkOut(selected.id), 'Truck checked out')}>Check Out</Button>
+              )}
+            </div>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
@@ -36,6 +36,12 @@ export const BlindReceiptCreatePage: React.FC = () => {
     qaHold: false,
     estimatedUnitCost: '',
     receiverNotes: '',
+    isNewItem: false,
+    weightKg: '',
+    lengthCm: '',
+    widthCm: '',
+    heightCm: '',
+    photoEvidenceUrls: '',
   });
 
   const handleAddLine = () => {
@@ -44,6 +50,8 @@ export const BlindReceiptCreatePage: React.FC = () => {
       return;
     }
 
+    const hasDimensions = currentLine.lengthCm && currentLine.widthCm && currentLine.heightCm;
+
     const newLine: AddBlindReceiptLineInput = {
       skuCode: currentLine.skuCode,
       productName: currentLine.productName,
@@ -57,7 +65,12 @@ export const BlindReceiptCreatePage: React.FC = () => {
       qaHold: currentLine.qaHold,
       estimatedUnitCost: currentLine.estimatedUnitCost ? parseFloat(currentLine.estimatedUnitCost) : undefined,
       receiverNotes: currentLine.receiverNotes || undefined,
-      photoEvidenceUrls: [],
+      photoEvidenceUrls: currentLine.photoEvidenceUrls.split('\n').map((url) => url.trim()).filter(Boolean),
+      isNewItem: currentLine.isNewItem,
+      weightKg: currentLine.isNewItem && currentLine.weightKg ? parseFloat(currentLine.weightKg) : undefined,
+      dimensions: currentLine.isNewItem && hasDimensions
+        ? { lengthCm: parseFloat(currentLine.lengthCm), widthCm: parseFloat(currentLine.widthCm), heightCm: parseFloat(currentLine.heightCm) }
+        : undefined,
     };
 
     setLines([...lines, newLine]);
@@ -74,6 +87,12 @@ export const BlindReceiptCreatePage: React.FC = () => {
       qaHold: false,
       estimatedUnitCost: '',
       receiverNotes: '',
+      isNewItem: false,
+      weightKg: '',
+      lengthCm: '',
+      widthCm: '',
+      heightCm: '',
+      photoEvidenceUrls: '',
     });
     showSuccessToast('Line added');
   };
@@ -256,6 +275,19 @@ export const BlindReceiptCreatePage: React.FC = () => {
                     <label htmlFor="qaHold" className="ml-2 text-sm text-gray-700">QA Hold</label>
                   </div>
                 </div>
+                <div className="flex items-center">
+                  <input type="checkbox" id="isNewItem" checked={currentLine.isNewItem} onChange={(e) => setCurrentLine({...currentLine, isNewItem: e.target.checked})} className="h-4 w-4 text-primary-600 focus:ring-primary-500 border-gray-300 rounded" />
+                  <label htmlFor="isNewItem" className="ml-2 text-sm text-gray-700">New item (not in catalogue) - raise a new SKU request</label>
+                </div>
+                {currentLine.isNewItem && (
+                  <div className="grid grid-cols-4 gap-4">
+                    <Input type="number" step="0.001" label="Weight (kg)" value={currentLine.weightKg} onChange={(e) => setCurrentLine({...currentLine, weightKg: e.target.value})} />
+                    <Input type="number" step="0.1" label="Length (cm)" value={currentLine.lengthCm} onChange={(e) => setCurrentLine({...currentLine, lengthCm: e.target.value})} />
+                    <Input type="number" step="0.1" label="Width (cm)" value={currentLine.widthCm} onChange={(e) => setCurrentLine({...currentLine, widthCm: e.target.value})} />
+                    <Input type="number" step="0.1" label="Height (cm)" value={currentLine.heightCm} onChange={(e) => setCurrentLine({...currentLine, heightCm: e.target.value})} />
+                  </div>
+                )}
+                <Textarea label="Photo URLs (one per line)" value={currentLine.photoEvidenceUrls} onChange={(e) => setCurrentLine({...currentLine, photoEvidenceUrls: e.target.value})} rows={2} />
                 <Textarea label="Receiver Notes" value={currentLine.receiverNotes} onChange={(e) => setCurrentLine({...currentLine, receiverNotes: e.target.value})} rows={2} />
                 <Button variant="success" onClick={handleAddLine} className="w-full">Add Line to Receipt</Button>
               </div>
@@ -270,7 +302,7 @@ export const BlindReceiptCreatePage: React.FC = () => {
                   {lines.map((line, index) => (
                     <div key={index} className="flex items-center justify-between p-4 bg-gray-50 rounded-lg">
                       <div>
-                        <p className="font-medium">{line.skuCode} - {line.productName}</p>
+                        <p className="font-medium">{line.skuCode} - {line.productName}{line.isNewItem && <span className="ml-2 text-xs text-warning-600">NEW ITEM</span>}</p>
                         <p className="text-sm text-gray-600">{line.quantityReceived} {line.uom} | Condition: {line.condition}</p>
                       </div>
                       <Button size="sm" variant="danger" onClick={() => handleRemoveLine(index)}>Remove</Button>
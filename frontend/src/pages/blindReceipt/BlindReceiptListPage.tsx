@@ -18,7 +18,7 @@ import {
   Modal,
   Textarea,
 } from '../../components/ui';
-import { formatDate, formatDateTime } from '../../utils/helpers';
+import { downloadBlob, formatDate, formatDateTime } from '../../utils/helpers';
 import { BlindReceipt, BlindReceiptStatus } from '../../types';
 import { showErrorToast, showSuccessToast } from '../../store/uiStore';
 
@@ -83,6 +83,15 @@ export const BlindReceiptListPage: React.FC = () => {
     });
   };
 
+  const handleDownloadGRN = async (receipt: BlindReceipt) => {
+    try {
+      const blob = await blindReceiptService.downloadGRN(receipt.id);
+      downloadBlob(blob, `GRN-${receipt.receiptNumber}.pdf`);
+    } catch (error) {
+      showErrorToast('Failed to download GRN');
+    }
+  };
+
   const handleSubmitReview = async () => {
     if (!selectedReceipt) return;
 
@@ -189,6 +198,18 @@ export const BlindReceiptListPage: React.FC = () => {
               Continue
             </Button>
           )}
+          {receipt.status === 'APPROVED' && (
+            <Button
+              size="sm"
+              variant="secondary"
+              onClick={(e) => {
+                e.stopPropagation();
+                handleDownloadGRN(receipt);
+              }}
+            >
+              GRN
+            </Button>
+          )}
           <Button
             size="sm"
             variant="ghost"
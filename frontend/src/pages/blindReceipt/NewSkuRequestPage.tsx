@@ -0,0 +1,436 @@
+import { useEffect, useState } from 'react';
+import newSkuRequestService from '../../services/newSkuRequest.service';
+import {
+  Card,
+  CardHeader,
+  CardBody,
+  Button,
+  Input,
+  Textarea,
+  Select,
+  Modal,
+  Table,
+  Pagination,
+  StatusBadge,
+} from '../../components/ui';
+import { ItemDimensions, NewSkuRequest, NewSkuRequestStatus, SkuDraft } from '../../types';
+import { formatDate, formatNumber } from '../../utils/helpers';
+import { showErrorToast, showSuccessToast } from '../../store/uiStore';
+
+const UOM_OPTIONS = [
+  { value: 'UNIT', label: 'Unit' },
+  { value: 'CASE', label: 'Case' },
+  { value: 'PALLET', label: 'Pallet' },
+  { value: 'KG', label: 'Kilogram' },
+  { value: 'L', label: 'Litre' },
+];
+
+const TRACKING_FLAGS: { key: keyof SkuDraft; label: string }[] = [
+  { key: 'requiresBatchTracking', label: 'Batch tracked' },
+  { key: 'requiresExpiryTracking', label: 'Expiry tracked' },
+  { key: 'requiresSerialTracking', label: 'Serial tracked' },
+  { key: 'isPerishable', label: 'Perishable' },
+  { key: 'temperatureControlled', label: 'Temperature controlled' },
+  { key: 'isHazmat', label: 'Hazardous' },
+];
+
+const formatDimensions = (dimensions?: ItemDimensions) =>
+  dimensions ? `${dimensions.lengthCm} × ${dimensions.widthCm} × ${dimensions.heightCm} cm` : '—';
+
+const optionalNumber = (value: string) => (value === '' ? undefined : parseFloat(value));
+
+export const NewSkuRequestPage: React.FC = () => {
+  const [requests, setRequests] = useState<NewSkuRequest[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageSize] = useState(20);
+  const [isLoading, setIsLoading] = useState(false);
+  const [filters, setFilters] = useState({ search: '', status: 'PENDING' as NewSkuRequestStatus | '' });
+  const [selected, setSelected] = useState<NewSkuRequest | null>(null);
+  const [draft, setDraft] = useState<SkuDraft>({});
+  const [existingSkuId, setExistingSkuId] = useState('');
+  const [rejectionReason, setRejectionReason] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadRequests();
+  }, [filters, currentPage]);
+
+  const loadRequests = async () => {
+    setIsLoading(true);
+    try {
+      const response = await newSkuRequestService.getRequests({
+        search: filters.search || undefined,
+        status: filters.status || undefined,
+        page: currentPage,
+        limit: pageSize,
+      });
+      setRequests(response.data);
+      setTotalCount(response.pagination.total);
+    } catch (error) {
+      showErrorToast('Failed to load new SKU requests');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openRequest = (request: NewSkuRequest) => {
+    setSelected(request);
+    setExistingSkuId('');
+    setRejectionReason('');
+    setDraft({
+      code: request.proposedCode,
+      name: request.description,
+      uom: request.uom,
+      unitCost: request.estimatedUnitCost,
+      weightKg: request.weightKg,
+      dimensions: request.dimensions,
+      ...request.skuDraft,
+    });
+  };
+
+  const closeModal = () => setSelected(null);
+
+  const runAction = async (action: () => Promise<NewSkuRequest>, message: string) => {
+    setIsSubmitting(true);
+    try {
+      await action();
+      showSuccessToast(message);
+      closeModal();
+      loadRequests();
+    } catch (error: any) {
+      showErrorToast(error.error || 'Failed to update request');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleSave = () =>
+    selected && runAction(() => newSkuRequestService.saveDraft(selected.id, draft), 'SKU details saved');
+
+  const handleApprove = () =>
+    selected &&
+    runAction(
+      () =>
+        newSkuRequestService.approve(
+          selected.id,
+          existingSkuId ? { existingSkuId } : { skuDraft: draft }
+        ),
+      'SKU approved and linked to the receipt line'
+    );
+
+  const handleReject = () => {
+    if (!selected) return;
+    if (!rejectionReason) {
+      showErrorToast('Enter a rejection reason');
+      return;
+    }
+    runAction(() => newSkuRequestService.reject(selected.id, rejectionReason), 'Request rejected');
+  };
+
+  const setDimension = (key: keyof ItemDimensions, value: string) => {
+    const dimensions = { lengthCm: 0, widthCm: 0, heightCm: 0, ...draft.dimensions, [key]: parseFloat(value) || 0 };
+    setDraft({ ...draft, dimensions });
+  };
+
+  const statusOptions = [
+    { value: '', label: 'All Statuses' },
+    { value: 'PENDING', label: 'Pending' },
+    { value: 'APPROVED', label: 'Approved' },
+    { value: 'REJECTED', label: 'Rejected' },
+  ];
+
+  const columns = [
+    {
+      key: 'requestNumber',
+      header: 'Request',
+      render: (r: NewSkuRequest) => <span className="font-medium">{r.requestNumber}</span>,
+    },
+    {
+      key: 'receipt',
+      header: 'Receipt',
+      render: (r: NewSkuRequest) => (
+        <div>
+          <p>{r.blindReceipt?.receiptNumber}</p>
+          <p className="text-xs text-gray-500">Line {r.blindReceiptLine?.lineNumber}</p>
+        </div>
+      ),
+    },
+    { key: 'supplier', header: 'Supplier', render: (r: NewSkuRequest) => r.blindReceipt?.supplierName },
+    {
+      key: 'item',
+      header: 'Item',
+      render: (r: NewSkuRequest) => (
+        <div>
+          <p className="font-medium">{r.sku?.code || r.proposedCode}</p>
+          <p className="text-xs text-gray-500">{r.sku?.name || r.description}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'quantity',
+      header: 'Qty',
+      render: (r: NewSkuRequest) => `${formatNumber(r.blindReceiptLine?.quantityReceived || 0)} ${r.uom}`,
+    },
+    { key: 'status', header: 'Status', render: (r: NewSkuRequest) => <StatusBadge status={r.status} /> },
+    { key: 'createdAt', header: 'Raised', render: (r: NewSkuRequest) => formatDate(r.createdAt) },
+    {
+      key: 'actions',
+      header: 'Actions',
+      render: (r: NewSkuRequest) => (
+        <Button size="sm" variant={r.status === 'PENDING' ? 'primary' : 'ghost'} onClick={() => openRequest(r)}>
+          {r.status === 'PENDING' ? 'Complete' : 'View'}
+        </Button>
+      ),
+    },
+  ];
+
+  const totalPages = Math.ceil(totalCount / pageSize);
+  const isPending = selected?.status === 'PENDING';
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">New SKU Requests</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Unknown items received on blind receipts. Putaway is blocked until the SKU is approved.
+        </p>
+      </div>
+
+      <Card>
+        <CardBody>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              placeholder="Search request, code, description or receipt..."
+              value={filters.search}
+              onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+            />
+            <Select
+              value={filters.status}
+              onChange={(e) => setFilters({ ...filters, status: e.target.value as NewSkuRequestStatus | '' })}
+              options={statusOptions}
+            />
+          </div>
+        </CardBody>
+      </Card>
+
+      <Card>
+        <CardHeader title="Requests" subtitle={`${totalCount} requests`} />
+        <CardBody className="p-0">
+          <Table
+            columns={columns}
+            data={requests}
+            keyExtractor={(r) => r.id}
+            isLoading={isLoading}
+            emptyMessage="No new SKU requests found"
+          />
+          {totalCount > 0 && (
+            <Pagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+              totalItems={totalCount}
+              itemsPerPage={pageSize}
+              onPageChange={setCurrentPage}
+            />
+          )}
+        </CardBody>
+      </Card>
+
+      <Modal
+        isOpen={!!selected}
+        onClose={closeModal}
+        title={selected ? `New SKU Request ${selected.requestNumber}` : ''}
+        size="lg"
+        footer={
+          isPending ? (
+            <>
+              <Button variant="danger" onClick={handleReject} isLoading={isSubmitting}>Reject</Button>
+              <Button variant="ghost" onClick={handleSave} isLoading={isSubmitting} disabled={!!existingSkuId}>
+                Save Draft
+              </Button>
+              <Button variant="primary" onClick={handleApprove} isLoading={isSubmitting}>
+                {existingSkuId ? 'Link SKU' : 'Approve SKU'}
+              </Button>
+            </>
+          ) : (
+            <Button variant="ghost" onClick={closeModal}>Close</Button>
+          )
+        }
+      >
+        {selected && (
+          <div className="space-y-4">
+            <div className="bg-gray-50 p-4 rounded grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+              <div><p className="text-gray-600">Receipt</p><p className="font-medium">{selected.blindReceipt?.receiptNumber}</p></div>
+              <div><p className="text-gray-600">Supplier</p><p className="font-medium">{selected.blindReceipt?.supplierName}</p></div>
+              <div><p className="text-gray-600">Weight</p><p className="font-medium">{selected.weightKg ? `${selected.weightKg} kg` : '—'}</p></div>
+              <div><p className="text-gray-600">Dimensions</p><p className="font-medium">{formatDimensions(selected.dimensions)}</p></div>
+            </div>
+
+            {selected.receiverNotes && (
+              <p className="text-sm text-gray-700"><span className="font-medium">Receiver notes:</span> {selected.receiverNotes}</p>
+            )}
+
+            {selected.photoUrls.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {selected.photoUrls.map((url) => (
+                  <a key={url} href={url} target="_blank" rel="noreferrer">
+                    <img src={url} alt="Received item" className="h-20 w-20 object-cover rounded border border-gray-200" />
+                  </a>
+                ))}
+              </div>
+            )}
+
+            {selected.status === 'REJECTED' && (
+              <p className="text-sm text-danger-600">Rejected: {selected.rejectionReason}</p>
+            )}
+            {selected.status === 'APPROVED' && selected.sku && (
+              <p className="text-sm text-success-600">Linked to SKU {selected.sku.code} — {selected.sku.name}</p>
+            )}
+
+            {isPending && (
+              <>
+                <Input
+                  label="Link existing SKU ID (optional)"
+                  placeholder="Use when the item is already in the catalogue"
+                  value={existingSkuId}
+                  onChange={(e) => setExistingSkuId(e.target.value.trim())}
+                />
+
+                {!existingSkuId && (
+                  <>
+                    <div className="grid grid-cols-2 gap-4">
+                      <Input
+                        label="SKU Code"
+                        value={draft.code || ''}
+                        onChange={(e) => setDraft({ ...draft, code: e.target.value })}
+                        required
+                      />
+                      <Select
+                        label="Unit of Measure"
+                        options={UOM_OPTIONS}
+                        value={draft.uom || 'UNIT'}
+                        onChange={(e) => setDraft({ ...draft, uom: e.target.value })}
+                      />
+                    </div>
+                    <Input
+                      label="Name"
+                      value={draft.name || ''}
+                      onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                      required
+                    />
+                    <Textarea
+                      label="Description"
+                      value={draft.description || ''}
+                      onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                      rows={2}
+                    />
+                    <div className="grid grid-cols-3 gap-4">
+                      <Input
+                        label="Category"
+                        value={draft.category || ''}
+                        onChange={(e) => setDraft({ ...draft, category: e.target.value })}
+                      />
+                      <Input
+                        label="GTIN"
+                        value={draft.gtin || ''}
+                        onChange={(e) => setDraft({ ...draft, gtin: e.target.value })}
+                      />
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min={0}
+                        label="Unit Cost"
+                        value={draft.unitCost ?? ''}
+                        onChange={(e) => setDraft({ ...draft, unitCost: optionalNumber(e.target.value) })}
+                      />
+                    </div>
+                    <div className="grid grid-cols-4 gap-4">
+                      <Input
+                        type="number"
+                        step="0.001"
+                        min={0}
+                        label="Weight (kg)"
+                        value={draft.weightKg ?? ''}
+                        onChange={(e) => setDraft({ ...draft, weightKg: optionalNumber(e.target.value) })}
+                      />
+                      <Input
+                        type="number"
+                        min={0}
+                        label="Length (cm)"
+                        value={draft.dimensions?.lengthCm ?? ''}
+                        onChange={(e) => setDimension('lengthCm', e.target.value)}
+                      />
+                      <Input
+                        type="number"
+                        min={0}
+                        label="Width (cm)"
+                        value={draft.dimensions?.widthCm ?? ''}
+                        onChange={(e) => setDimension('widthCm', e.target.value)}
+                      />
+                      <Input
+                        type="number"
+                        min={0}
+                        label="Height (cm)"
+                        value={draft.dimensions?.heightCm ?? ''}
+                        onChange={(e) => setDimension('heightCm', e.target.value)}
+                      />
+                    </div>
+
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                      {TRACKING_FLAGS.map((flag) => (
+                        <label key={flag.key} className="flex items-center gap-2 text-sm">
+                          <input
+                            type="checkbox"
+                            checked={!!draft[flag.key]}
+                            onChange={(e) => setDraft({ ...draft, [flag.key]: e.target.checked })}
+                          />
+                          {flag.label}
+                        </label>
+                      ))}
+                    </div>
+
+                    {draft.temperatureControlled && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <Input
+                          type="number"
+                          step="0.1"
+                          label="Min Temperature (°C)"
+                          value={draft.temperatureMin ?? ''}
+                          onChange={(e) => setDraft({ ...draft, temperatureMin: optionalNumber(e.target.value) })}
+                        />
+                        <Input
+                          type="number"
+                          step="0.1"
+                          label="Max Temperature (°C)"
+                          value={draft.temperatureMax ?? ''}
+                          onChange={(e) => setDraft({ ...draft, temperatureMax: optionalNumber(e.target.value) })}
+                        />
+                      </div>
+                    )}
+
+                    {draft.isHazmat && (
+                      <Input
+                        label="Hazard Class"
+                        placeholder="e.g. 3 (Flammable liquids)"
+                        value={draft.hazardClass || ''}
+                        onChange={(e) => setDraft({ ...draft, hazardClass: e.target.value })}
+                        required
+                      />
+                    )}
+                  </>
+                )}
+
+                <Textarea
+                  label="Rejection Reason (when rejecting)"
+                  value={rejectionReason}
+                  onChange={(e) => setRejectionReason(e.target.value)}
+                  rows={2}
+                />
+              </>
+            )}
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
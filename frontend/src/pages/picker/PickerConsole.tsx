@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { Camera, CheckCircle, AlertTriangle } from 'lucide-react';
 import { toast } from 'react-toastify';
+import barcodeService from '../../services/barcode.service';
 
 export default function PickerConsole() {
   const [scanMode, setScanMode] = useState(false);
@@ -12,9 +13,29 @@ export default function PickerConsole() {
     toast.info('Camera scanning activated');
   };
 
-  const handleManualEntry = () => {
+  const handleManualEntry = async () => {
     if (scannedValue) {
-      toast.success(`Scanned: ${scannedValue}`);
+      let gs1;
+      try {
+        gs1 = await barcodeService.parseGS1(scannedValue);
+      } catch (error: any) {
+        toast.error(error.error || 'Could not read the barcode');
+        return;
+      }
+      if (gs1.valid) {
+        const details = [
+          gs1.gtin && `GTIN ${gs1.gtin}`,
+          gs1.batchNumber && `Batch ${gs1.batchNumber}`,
+          gs1.expiryDate && `Exp ${gs1.expiryDate}`,
+          gs1.serialNumber && `S/N ${gs1.serialNumber}`,
+        ].filter(Boolean);
+        toast.success(`Scanned: ${details.join(' · ')}`);
+      } else if (/^(\]|\(\d{2}\)|0[012]\d{14})/.test(scannedValue)) {
+        toast.error(`Invalid GS1 barcode: ${gs1.errors.map((e) => e.message).join('; ')}`);
+        return;
+      } else {
+        toast.success(`Scanned: ${scannedValue}`);
+      }
       setScannedValue('');
     }
   };
@@ -11,13 +11,131 @@ import {
   Modal,
   Badge,
   StatusBadge,
+  Textarea,
+  Select,
 } from '../../components/ui';
-import { PutawayTask } from '../../types';
+import {
+  PutawayBatch,
+  PutawayOverride,
+  PutawayOverrideCheck,
+  PutawayOverrideReason,
+  PutawayTask,
+} from '../../types';
 import { formatNumber } from '../../utils/helpers';
 import { showErrorToast, showSuccessToast } from '../../store/uiStore';
 
+const EQUIPMENT_LABELS: Record<PutawayBatch['equipmentType'], string> = {
+  CART: 'Cart',
+  PALLET_JACK: 'Pallet jack',
+  FORKLIFT: 'Forklift',
+};
+
+const OVERRIDE_REASONS: Array<{ value: PutawayOverrideReason | ''; label: string }> = [
+  { value: '', label: 'Select a reason' },
+  { value: 'LOCATION_BLOCKED', label: 'Suggested bin blocked' },
+  { value: 'LOCATION_FULL', label: 'Suggested bin full' },
+  { value: 'LOCATION_DAMAGED', label: 'Suggested bin damaged' },
+  { value: 'LABEL_MISMATCH', label: 'Bin label missing or wrong' },
+  { value: 'CLOSER_LOCATION', label: 'Closer suitable bin' },
+  { value: 'OTHER', label: 'Other' },
+];
+
+/**
+ * Confirms putting a task in a scanned bin other than the suggested one:
+ * shows why the bin cannot take it, or asks for a reason code
+ */
+const OverrideModal: React.FC<{
+  taskId: string;
+  expectedLocation?: string;
+  locationCode: string | null;
+  quantity: number;
+  onClose: () => void;
+  onConfirm: (override: PutawayOverride) => void;
+}> = ({ taskId, expectedLocation, locationCode, quantity, onClose, onConfirm }) => {
+  const [check, setCheck] = useState<PutawayOverrideCheck | null>(null);
+  const [reasonCode, setReasonCode] = useState<PutawayOverrideReason | ''>('');
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    setCheck(null);
+    setReasonCode('');
+    setNotes('');
+
+    if (locationCode) {
+      putawayService
+        .checkOverride(taskId, locationCode, quantity)
+        .then(setCheck)
+        .catch(() => showErrorToast('Failed to check location'));
+    }
+  }, [taskId, locationCode]);
+
+  return (
+    <Modal isOpen={!!locationCode} onClose={onClose} title="Use a Different Location?" size="md">
+      <div className="space-y-4">
+        <p className="text-sm text-gray-600">
+          Suggested <span className="font-mono font-medium">{expectedLocation}</span>, scanned{' '}
+          <span className="font-mono font-medium">{locationCode}</span>.
+        </p>
+
+        {!check && <p className="text-sm text-gray-500">Checking location...</p>}
+
+        {check && !check.valid && (
+          <div className="bg-danger-50 border border-danger-200 rounded-lg p-3">
+            <p className="text-sm font-medium text-danger-800">This location cannot take the stock:</p>
+            <ul className="list-disc list-inside text-sm text-danger-700">
+              {check.reasons.map((reason) => (
+                <li key={reason}>{reason}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {check?.valid && (
+          <>
+            <p className="text-sm text-success-700">
+              {check.location?.code} in {check.location?.zoneCode} can take this putaway.
+            </p>
+            <Select
+              label="Reason"
+              value={reasonCode}
+              onChange={(e) => setReasonCode(e.target.value as PutawayOverrideReason | '')}
+              options={OVERRIDE_REASONS}
+              required
+            />
+            <Input
+              label="Notes (Optional)"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </>
+        )}
+
+        <div className="flex justify-end space-x-3 pt-4 border-t">
+          <Button variant="ghost" onClick={onClose}>
+            Rescan
+          </Button>
+          <Button
+            variant="warning"
+            disabled={!check?.valid || !reasonCode}
+            onClick={() =>
+              reasonCode && onConfirm({ locationCode: locationCode!, reasonCode, notes: notes || undefined })
+            }
+          >
+            Use This Location
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
 export const PutawayExecutePage: React.FC = () => {
-  const { id } = useParams<{ id: string }>();
+  const { id, batchId } = useParams<{ id: string; batchId: string }>();
+
+  return batchId ? <PutawayBatchExecution batchId={batchId} /> : <PutawayTaskExecution id={id} />;
+};
+
+const PutawayTaskExecution: React.FC<{ id?: string }> = ({ id }) => {
   const navigate = useNavigate();
 
   const [task, setTask] = useState<PutawayTask | null>(null);
@@ -29,6 +147,8 @@ export const PutawayExecutePage: React.FC = () => {
   const [operatorNotes, setOperatorNotes] = useState('');
   const [showCompleteModal, setShowCompleteModal] = useState(false);
   const [recommendedLocation, setRecommendedLocation] = useState<any>(null);
+  const [overrideCandidate, setOverrideCandidate] = useState<string | null>(null);
+  const [override, setOverride] = useState<PutawayOverride | null>(null);
 
   useEffect(() => {
     if (id) {
@@ -61,19 +181,29 @@ export const PutawayExecutePage: React.FC = () => {
   };
 
   const handleScanLocation = (location: string) => {
-    setScannedLocation(location);
-
     // Verify if scanned location matches recommended or assigned location
     const expectedLocation = task?.destinationLocationCode || recommendedLocation?.locationCode;
 
-    if (expectedLocation && location !== expectedLocation) {
+    if (task?.destinationLocationCode && location !== expectedLocation) {
+      // Offer to override the assigned bin
+      setOverrideCandidate(location);
+    } else if (expectedLocation && location !== expectedLocation) {
       showErrorToast(`Location mismatch! Expected: ${expectedLocation}`);
     } else {
+      setScannedLocation(location);
+      setOverride(null);
       showSuccessToast('Location verified');
       setStep('confirm');
     }
   };
 
+  const handleOverride = (chosen: PutawayOverride) => {
+    setOverride(chosen);
+    setScannedLocation(chosen.locationCode);
+    setOverrideCandidate(null);
+    setStep('confirm');
+  };
+
   const handleComplete = async () => {
     if (!task || !scannedLocation) return;
 
@@ -82,12 +212,13 @@ export const PutawayExecutePage: React.FC = () => {
         destinationLocationId: task.destinationLocationId || recommendedLocation?.id,
         quantityConfirmed: confirmedQuantity,
         operatorNotes,
+        override: override || undefined,
       });
 
       showSuccessToast('Putaway completed successfully');
       navigate('/putaway');
-    } catch (error) {
-      showErrorToast('Failed to complete putaway');
+    } catch (error: any) {
+      showErrorToast(error.response?.data?.message || 'Failed to complete putaway');
     }
   };
 
@@ -275,6 +406,9 @@ export const PutawayExecutePage: React.FC = () => {
                   <div>
                     <p className="text-gray-600">To</p>
                     <p className="font-mono font-medium">{scannedLocation}</p>
+                    {override && (
+                      <Badge variant="warning" size="sm">Override of {task.destinationLocationCode}</Badge>
+                    )}
                   </div>
                   <div>
                     <p className="text-gray-600">SKU</p>
@@ -341,6 +475,15 @@ export const PutawayExecutePage: React.FC = () => {
         </Button>
       </div>
 
+      <OverrideModal
+        taskId={task.id}
+        expectedLocation={task.destinationLocationCode}
+        locationCode={overrideCandidate}
+        quantity={confirmedQuantity}
+        onClose={() => setOverrideCandidate(null)}
+        onConfirm={handleOverride}
+      />
+
       {/* Complete Confirmation Modal */}
       <Modal
         isOpen={showCompleteModal}
@@ -401,3 +544,425 @@ export const PutawayExecutePage: React.FC = () => {
     </div>
   );
 };
+
+/**
+ * Guides the operator through the stops of a putaway trip in walking order
+ */
+const PutawayBatchExecution: React.FC<{ batchId: string }> = ({ batchId }) => {
+  const navigate = useNavigate();
+
+  const [batch, setBatch] = useState<PutawayBatch | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [step, setStep] = useState<'scan_location' | 'confirm'>('scan_location');
+
+  const [scannedLocation, setScannedLocation] = useState('');
+  const [confirmedQuantity, setConfirmedQuantity] = useState(0);
+  const [operatorNotes, setOperatorNotes] = useState('');
+  const [showSkipModal, setShowSkipModal] = useState(false);
+  const [showFinishModal, setShowFinishModal] = useState(false);
+  const [reason, setReason] = useState('');
+  const [overrideCandidate, setOverrideCandidate] = useState<string | null>(null);
+  const [override, setOverride] = useState<PutawayOverride | null>(null);
+
+  const stops = batch?.stops || [];
+  const currentStop = stops.find((stop) => stop.status === 'PENDING');
+  const visited = stops.filter((stop) => stop.status !== 'PENDING').length;
+
+  useEffect(() => {
+    loadBatch();
+  }, [batchId]);
+
+  // Each stop starts with a fresh scan and the planned quantity
+  useEffect(() => {
+    setStep('scan_location');
+    setScannedLocation('');
+    setOverride(null);
+    setOperatorNotes('');
+    setConfirmedQuantity(currentStop?.task.quantityToPutaway || 0);
+  }, [currentStop?.id]);
+
+  const loadBatch = async () => {
+    setIsLoading(true);
+    try {
+      setBatch(await putawayService.getBatchById(batchId));
+    } catch (error) {
+      showErrorToast('Failed to load trip');
+      navigate('/putaway');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const run = async (action: () => Promise<PutawayBatch>, success: string) => {
+    setIsSubmitting(true);
+    try {
+      const updated = await action();
+      setBatch(updated);
+      showSuccessToast(success);
+    } catch (error: any) {
+      showErrorToast(error.response?.data?.message || 'Action failed');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleScanLocation = (location: string) => {
+    const expectedLocation = currentStop?.task.destinationLocationCode;
+
+    if (expectedLocation && location !== expectedLocation) {
+      setOverrideCandidate(location);
+      return;
+    }
+
+    setScannedLocation(location);
+    setOverride(null);
+    showSuccessToast('Location verified');
+    setStep('confirm');
+  };
+
+  const handleOverride = (chosen: PutawayOverride) => {
+    setOverride(chosen);
+    setScannedLocation(chosen.locationCode);
+    setOverrideCandidate(null);
+    setStep('confirm');
+  };
+
+  const handleCompleteStop = () =>
+    currentStop &&
+    run(
+      () =>
+        putawayService.completeStop(batchId, currentStop.id, {
+          actualQuantity: confirmedQuantity,
+          operatorNotes: operatorNotes || undefined,
+          override: override || undefined,
+        }),
+      `Stop ${currentStop.sequence} completed`
+    );
+
+  const handleSkipStop = async () => {
+    if (!currentStop || !reason.trim()) return;
+
+    await run(() => putawayService.skipStop(batchId, currentStop.id, reason.trim()), 'Stop skipped');
+    setShowSkipModal(false);
+    setReason('');
+  };
+
+  const handleFinish = async () => {
+    await run(() => putawayService.finishBatch(batchId, reason.trim() || undefined), 'Trip finished');
+    setShowFinishModal(false);
+    setReason('');
+  };
+
+  if (isLoading || !batch) {
+    return (
+      <div className="flex items-center justify-center min-h-screen">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary-600" />
+      </div>
+    );
+  }
+
+  const notStarted = batch.status === 'PENDING' || batch.status === 'ASSIGNED';
+  const closed = !notStarted && batch.status !== 'IN_PROGRESS';
+
+  return (
+    <div className="max-w-2xl mx-auto space-y-4 p-4">
+      {/* Header */}
+      <div className="bg-white rounded-lg shadow-sm p-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-xl font-bold text-gray-900">Putaway Trip</h1>
+            <p className="text-sm text-gray-600">
+              {batch.batchNumber} · {EQUIPMENT_LABELS[batch.equipmentType]}
+              {batch.destinationZone && ` · ${batch.destinationZone.name}`}
+            </p>
+          </div>
+          <StatusBadge status={batch.status} />
+        </div>
+        <div className="mt-3">
+          <div className="flex justify-between text-xs text-gray-500 mb-1">
+            <span>
+              {visited} of {stops.length} stops
+            </span>
+            <span>
+              {formatNumber(batch.totalDistanceMeters)} m · ~{batch.estimatedDurationMinutes ?? '-'} min
+            </span>
+          </div>
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-primary-600 h-2 rounded-full"
+              style={{ width: `${stops.length ? (visited / stops.length) * 100 : 0}%` }}
+            />
+          </div>
+        </div>
+      </div>
+
+      {/* Start */}
+      {notStarted && (
+        <Card>
+          <CardHeader title="Ready to Start" />
+          <CardBody>
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Load {formatNumber(batch.totalUnits)} units for {stops.length} stops onto the{' '}
+                {EQUIPMENT_LABELS[batch.equipmentType].toLowerCase()}, then start the trip.
+              </p>
+              <Button
+                variant="primary"
+                className="w-full"
+                isLoading={isSubmitting}
+                onClick={() => run(() => putawayService.startBatch(batchId), 'Trip started')}
+              >
+                Start Trip
+              </Button>
+            </div>
+          </CardBody>
+        </Card>
+      )}
+
+      {/* Current stop */}
+      {batch.status === 'IN_PROGRESS' && currentStop && (
+        <Card>
+          <CardHeader title={`Stop ${currentStop.sequence} of ${stops.length}`} />
+          <CardBody>
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <p className="text-xs text-gray-500">SKU</p>
+                  <p className="font-medium">{currentStop.task.skuCode}</p>
+                  <p className="text-xs text-gray-500">{currentStop.task.productName}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-gray-500">Quantity</p>
+                  <p className="text-2xl font-bold text-primary-600">
+                    {formatNumber(currentStop.task.quantityToPutaway)}
+                  </p>
+                </div>
+                {currentStop.task.lpn && (
+                  <div>
+                    <p className="text-xs text-gray-500">LPN</p>
+                    <p className="font-mono font-medium">{currentStop.task.lpn}</p>
+                  </div>
+                )}
+                {currentStop.task.batchNumber && (
+                  <div>
+                    <p className="text-xs text-gray-500">Batch Number</p>
+                    <p className="font-medium">{currentStop.task.batchNumber}</p>
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-success-50 border border-success-200 rounded-lg p-4">
+                <p className="text-sm text-gray-600">
+                  Go to ({formatNumber(currentStop.distanceFromPreviousMeters)} m):
+                </p>
+                <p className="text-3xl font-bold text-success-600 font-mono mt-2">
+                  {currentStop.task.destinationLocationCode}
+                </p>
+              </div>
+
+              {step === 'scan_location' && (
+                <BarcodeInput
+                  onScan={handleScanLocation}
+                  placeholder="Scan location barcode"
+                  label="Destination Location"
+                />
+              )}
+
+              {step === 'confirm' && (
+                <>
+                  <Input
+                    type="number"
+                    label="Confirm Quantity"
+                    value={confirmedQuantity}
+                    onChange={(e) => setConfirmedQuantity(parseInt(e.target.value) || 0)}
+                    max={currentStop.task.quantityToPutaway}
+                    required
+                  />
+
+                  {confirmedQuantity < currentStop.task.quantityToPutaway && (
+                    <div className="bg-warning-50 border border-warning-200 rounded-lg p-3">
+                      <p className="text-sm text-warning-800">
+                        ⚠️ Partial putaway: {formatNumber(confirmedQuantity)} of{' '}
+                        {formatNumber(currentStop.task.quantityToPutaway)} units
+                      </p>
+                    </div>
+                  )}
+
+                  <Input
+                    label="Notes (Optional)"
+                    value={operatorNotes}
+                    onChange={(e) => setOperatorNotes(e.target.value)}
+                    placeholder="Add any notes about this stop..."
+                  />
+
+                  <Button
+                    variant="success"
+                    className="w-full"
+                    isLoading={isSubmitting}
+                    onClick={handleCompleteStop}
+                  >
+                    Complete Stop ({scannedLocation}{override ? ', override' : ''})
+                  </Button>
+                </>
+              )}
+
+              <div className="flex space-x-3">
+                {step === 'confirm' && (
+                  <Button
+                    variant="ghost"
+                    className="flex-1"
+                    onClick={() => setStep('scan_location')}
+                  >
+                    Back
+                  </Button>
+                )}
+                <Button
+                  variant="warning"
+                  className="flex-1"
+                  onClick={() => setShowSkipModal(true)}
+                >
+                  Skip Stop
+                </Button>
+              </div>
+            </div>
+          </CardBody>
+        </Card>
+      )}
+
+      {/* Summary */}
+      {closed && (
+        <Card>
+          <CardHeader title="Trip Complete" />
+          <CardBody>
+            <p className="text-sm text-gray-600">
+              {stops.filter((stop) => stop.status === 'COMPLETED').length} completed,{' '}
+              {stops.filter((stop) => stop.status === 'PARTIAL').length} partial,{' '}
+              {stops.filter((stop) => stop.status === 'SKIPPED').length} skipped. Skipped stops go back to the
+              putaway queue.
+            </p>
+          </CardBody>
+        </Card>
+      )}
+
+      {/* Route */}
+      <Card>
+        <CardHeader title="Route" />
+        <CardBody>
+          <ol className="divide-y divide-gray-100">
+            {stops.map((stop) => (
+              <li
+                key={stop.id}
+                className={`flex items-center justify-between py-2 ${stop.id === currentStop?.id ? 'font-bold' : ''}`}
+              >
+                <div>
+                  <p className="text-sm">
+                    {stop.sequence}. <span className="font-mono">{stop.task.destinationLocationCode}</span>{' '}
+                    <span className="text-gray-500">
+                      {stop.task.skuCode} × {formatNumber(stop.task.quantityToPutaway)}
+                    </span>
+                  </p>
+                  {stop.skipReason && <p className="text-xs text-gray-500">{stop.skipReason}</p>}
+                </div>
+                <StatusBadge status={stop.status} size="sm" />
+              </li>
+            ))}
+          </ol>
+        </CardBody>
+      </Card>
+
+      {/* Actions */}
+      <div className="flex space-x-3">
+        {batch.status === 'IN_PROGRESS' && (
+          <Button
+            variant="warning"
+            className="flex-1"
+            onClick={() => setShowFinishModal(true)}
+          >
+            End Trip
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          className="flex-1"
+          onClick={() => navigate('/putaway')}
+        >
+          {closed ? 'Back to Putaway' : 'Leave'}
+        </Button>
+      </div>
+
+      {currentStop && (
+        <OverrideModal
+          taskId={currentStop.taskId}
+          expectedLocation={currentStop.task.destinationLocationCode}
+          locationCode={overrideCandidate}
+          quantity={confirmedQuantity}
+          onClose={() => setOverrideCandidate(null)}
+          onConfirm={handleOverride}
+        />
+      )}
+
+      {/* Skip Modal */}
+      <Modal
+        isOpen={showSkipModal}
+        onClose={() => setShowSkipModal(false)}
+        title="Skip Stop?"
+        size="md"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            The task goes back to the putaway queue with its destination unchanged.
+          </p>
+          <Textarea
+            label="Reason"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+            placeholder="e.g. Location blocked"
+            required
+          />
+          <div className="flex justify-end space-x-3 pt-4 border-t">
+            <Button variant="ghost" onClick={() => setShowSkipModal(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="warning"
+              isLoading={isSubmitting}
+              disabled={!reason.trim()}
+              onClick={handleSkipStop}
+            >
+              Skip Stop
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Finish Modal */}
+      <Modal
+        isOpen={showFinishModal}
+        onClose={() => setShowFinishModal(false)}
+        title="End Trip?"
+        size="md"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-gray-600">
+            {stops.length - visited} remaining {stops.length - visited === 1 ? 'stop is' : 'stops are'} skipped and
+            returned to the putaway queue.
+          </p>
+          <Textarea
+            label="Reason (Optional)"
+            value={reason}
+            onChange={(e) => setReason(e.target.value)}
+          />
+          <div className="flex justify-end space-x-3 pt-4 border-t">
+            <Button variant="ghost" onClick={() => setShowFinishModal(false)}>
+              Cancel
+            </Button>
+            <Button variant="warning" isLoading={isSubmitting} onClick={handleFinish}>
+              End Trip
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </div>
+  );
+};
@@ -15,7 +15,7 @@ import {
   Badge,
   Modal,
 } from '../../components/ui';
-import { PutawayTask, PutawayStatus } from '../../types';
+import { PutawayBatch, PutawayTask, PutawayStatus } from '../../types';
 import { formatDate, formatDateTime, formatNumber } from '../../utils/helpers';
 import { showErrorToast, showSuccessToast } from '../../store/uiStore';
 
@@ -24,6 +24,8 @@ export const PutawayListPage: React.FC = () => {
   const user = useAuthStore((state) => state.user);
 
   const [tasks, setTasks] = useState<PutawayTask[]>([]);
+  const [openBatches, setOpenBatches] = useState<PutawayBatch[]>([]);
+  const [isBuildingTrips, setIsBuildingTrips] = useState(false);
   const [totalCount, setTotalCount] = useState(0);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize] = useState(20);
@@ -46,6 +48,10 @@ export const PutawayListPage: React.FC = () => {
     loadTasks();
   }, [filters, currentPage]);
 
+  useEffect(() => {
+    loadBatches();
+  }, []);
+
   const loadTasks = async () => {
     setIsLoading(true);
     try {
@@ -67,6 +73,40 @@ export const PutawayListPage: React.FC = () => {
     }
   };
 
+  const loadBatches = async () => {
+    try {
+      const response = await putawayService.getBatches({ limit: 50 });
+      setOpenBatches(
+        response.data.filter((batch) =>
+          ['PENDING', 'ASSIGNED', 'IN_PROGRESS'].includes(batch.status)
+        )
+      );
+    } catch (error) {
+      showErrorToast('Failed to load putaway trips');
+    }
+  };
+
+  const handleBuildTrips = async () => {
+    // Trips are built per warehouse; use the warehouse of the queued work
+    const warehouseId = tasks.find((t) => t.status === 'PENDING' && t.taskType === 'STANDARD')?.warehouseId;
+    if (!warehouseId) {
+      showErrorToast('No pending tasks to group into trips');
+      return;
+    }
+
+    setIsBuildingTrips(true);
+    try {
+      const batches = await putawayService.createBatches({ warehouseId });
+      showSuccessToast(`${batches.length} trip${batches.length > 1 ? 's' : ''} created`);
+      loadTasks();
+      loadBatches();
+    } catch (error: any) {
+      showErrorToast(error.response?.data?.message || 'Failed to build trips');
+    } finally {
+      setIsBuildingTrips(false);
+    }
+  };
+
   const handleAssignTask = async (taskId: string, userId: string) => {
     try {
       await putawayService.assignTask(taskId, { operatorUserId: userId });
@@ -299,11 +339,16 @@ export const PutawayListPage: React.FC = () => {
             Manage putaway operations and task assignments
           </p>
         </div>
-        {selectedTasks.length > 0 && (
-          <Button variant="primary" onClick={() => setAssignModal(true)}>
-            Assign {selectedTasks.length} Task{selectedTasks.length > 1 ? 's' : ''}
+        <div className="flex space-x-3">
+          <Button variant="secondary" isLoading={isBuildingTrips} onClick={handleBuildTrips}>
+            Build Trips
           </Button>
-        )}
+          {selectedTasks.length > 0 && (
+            <Button variant="primary" onClick={() => setAssignModal(true)}>
+              Assign {selectedTasks.length} Task{selectedTasks.length > 1 ? 's' : ''}
+            </Button>
+          )}
+        </div>
       </div>
 
       {/* Filters */}
@@ -400,6 +445,42 @@ export const PutawayListPage: React.FC = () => {
         </Card>
       </div>
 
+      {/* Open Trips */}
+      {openBatches.length > 0 && (
+        <Card>
+          <CardHeader
+            title="Open Trips"
+            subtitle="Pending tasks grouped by zone and equipment, in walking order"
+          />
+          <CardBody>
+            <div className="divide-y divide-gray-100">
+              {openBatches.map((batch) => (
+                <div key={batch.id} className="flex items-center justify-between py-2">
+                  <div>
+                    <p className="font-medium">{batch.batchNumber}</p>
+                    <p className="text-xs text-gray-500">
+                      {batch.destinationZone?.name || 'Mixed zones'} · {batch.equipmentType.replace(/_/g, ' ')} ·{' '}
+                      {batch._count?.stops ?? 0} stops · {formatNumber(batch.totalDistanceMeters)} m
+                      {batch.operator && ` · ${batch.operator.firstName} ${batch.operator.lastName}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <StatusBadge status={batch.status} size="sm" />
+                    <Button
+                      size="sm"
+                      variant="primary"
+                      onClick={() => navigate(`/putaway/batches/${batch.id}/execute`)}
+                    >
+                      {batch.status === 'IN_PROGRESS' ? 'Resume' : 'Open'}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardBody>
+        </Card>
+      )}
+
       {/* Table */}
       <Card>
         <CardHeader
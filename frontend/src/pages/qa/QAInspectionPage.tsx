@@ -0,0 +1,376 @@
+import { useEffect, useState } from 'react';
+import qaInspectionService from '../../services/qaInspection.service';
+import {
+  Card,
+  CardHeader,
+  CardBody,
+  Button,
+  Input,
+  Textarea,
+  Select,
+  Modal,
+  Table,
+  Pagination,
+  BarcodeInput,
+  StatusBadge,
+} from '../../components/ui';
+import { ChecklistResult, QAInspection, QAInspectionResult, QAInspectionStatus } from '../../types';
+import { formatDate, formatNumber } from '../../utils/helpers';
+import { showErrorToast, showSuccessToast } from '../../store/uiStore';
+
+const RESULT_OPTIONS: { value: QAInspectionResult; label: string }[] = [
+  { value: 'PASS', label: 'Pass - release lot' },
+  { value: 'CONDITIONAL', label: 'Conditional release' },
+  { value: 'FAIL', label: 'Fail - keep on hold' },
+];
+
+const emptyResult = {
+  result: 'PASS' as QAInspectionResult,
+  quantityInspected: 0,
+  defectsFound: 0,
+  checklistResults: [] as ChecklistResult[],
+  photoUrls: '',
+  notes: '',
+  releasedQuantity: 0,
+  releaseConditions: '',
+  releasedSerialNumbers: '',
+  sourceLocationId: '',
+};
+
+export const QAInspectionPage: React.FC = () => {
+  const [inspections, setInspections] = useState<QAInspection[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageSize] = useState(20);
+  const [isLoading, setIsLoading] = useState(false);
+  const [filters, setFilters] = useState({ search: '', status: 'PENDING' as QAInspectionStatus | '' });
+  const [selected, setSelected] = useState<QAInspection | null>(null);
+  const [resultData, setResultData] = useState(emptyResult);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadInspections();
+  }, [filters, currentPage]);
+
+  const loadInspections = async () => {
+    setIsLoading(true);
+    try {
+      const response = await qaInspectionService.getInspections({
+        search: filters.search || undefined,
+        status: filters.status || undefined,
+        page: currentPage,
+        limit: pageSize,
+      });
+      setInspections(response.data);
+      setTotalCount(response.pagination.total);
+    } catch (error) {
+      showErrorToast('Failed to load inspections');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openInspection = async (inspection: QAInspection) => {
+    try {
+      const current =
+        inspection.status === 'PENDING'
+          ? await qaInspectionService.startInspection(inspection.id)
+          : await qaInspectionService.getInspectionById(inspection.id);
+      setSelected({ ...inspection, ...current });
+      setResultData({
+        ...emptyResult,
+        quantityInspected: current.sampleSize,
+        releasedQuantity: current.lotSize,
+        checklistResults: current.checklist.map((item) => ({ code: item.code, passed: true })),
+      });
+      loadInspections();
+    } catch (error: any) {
+      showErrorToast(error.error || 'Failed to open inspection');
+    }
+  };
+
+  const setCheck = (code: string, changes: Partial<ChecklistResult>) => {
+    setResultData({
+      ...resultData,
+      checklistResults: resultData.checklistResults.map((check) =>
+        check.code === code ? { ...check, ...changes } : check
+      ),
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!selected) return;
+    setIsSubmitting(true);
+    try {
+      const { inspection, putawayTasks } = await qaInspectionService.recordResult(selected.id, {
+        result: resultData.result,
+        quantityInspected: resultData.quantityInspected,
+        defectsFound: resultData.defectsFound,
+        checklistResults: resultData.checklistResults,
+        photoUrls: resultData.photoUrls.split('\n').map((url) => url.trim()).filter(Boolean),
+        notes: resultData.notes || undefined,
+        releasedQuantity: resultData.result === 'CONDITIONAL' ? resultData.releasedQuantity : undefined,
+        releaseConditions: resultData.result === 'CONDITIONAL' ? resultData.releaseConditions : undefined,
+        releasedSerialNumbers:
+          resultData.result === 'CONDITIONAL'
+            ? resultData.releasedSerialNumbers.split('\n').map((serial) => serial.trim()).filter(Boolean)
+            : undefined,
+        sourceLocationId: resultData.result === 'FAIL' ? undefined : resultData.sourceLocationId,
+      });
+      showSuccessToast(
+        inspection.result === 'FAIL'
+          ? 'Lot failed; quality variance raised'
+          : `Released ${formatNumber(inspection.releasedQuantity || 0)} units, ${putawayTasks.length} putaway task(s) created`
+      );
+      setSelected(null);
+      loadInspections();
+    } catch (error: any) {
+      showErrorToast(error.error || 'Failed to record result');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const statusOptions = [
+    { value: '', label: 'All Statuses' },
+    { value: 'PENDING', label: 'Pending' },
+    { value: 'IN_PROGRESS', label: 'In Progress' },
+    { value: 'COMPLETED', label: 'Completed' },
+    { value: 'CANCELLED', label: 'Cancelled' },
+  ];
+
+  const columns = [
+    {
+      key: 'inspectionNumber',
+      header: 'Inspection',
+      render: (i: QAInspection) => <span className="font-medium">{i.inspectionNumber}</span>,
+    },
+    {
+      key: 'receipt',
+      header: 'Receipt',
+      render: (i: QAInspection) => i.asn?.asnNumber || i.blindReceipt?.receiptNumber,
+    },
+    {
+      key: 'sku',
+      header: 'SKU',
+      render: (i: QAInspection) => (
+        <div>
+          <p className="font-medium">{i.skuCode}</p>
+          <p className="text-xs text-gray-500">{i.productName}</p>
+        </div>
+      ),
+    },
+    { key: 'supplier', header: 'Supplier', render: (i: QAInspection) => i.supplier?.name || '—' },
+    { key: 'lotSize', header: 'Lot', render: (i: QAInspection) => formatNumber(i.lotSize) },
+    {
+      key: 'sampling',
+      header: 'Sample / Ac / Re',
+      render: (i: QAInspection) => `${i.sampleSize} / ${i.acceptNumber} / ${i.rejectNumber}`,
+    },
+    {
+      key: 'status',
+      header: 'Status',
+      render: (i: QAInspection) => <StatusBadge status={i.result || i.status} />,
+    },
+    { key: 'createdAt', header: 'Held Since', render: (i: QAInspection) => formatDate(i.createdAt) },
+    {
+      key: 'actions',
+      header: 'Actions',
+      render: (i: QAInspection) =>
+        (i.status === 'PENDING' || i.status === 'IN_PROGRESS') && (
+          <Button size="sm" variant="primary" onClick={() => openInspection(i)}>
+            {i.status === 'PENDING' ? 'Start' : 'Continue'}
+          </Button>
+        ),
+    },
+  ];
+
+  const totalPages = Math.ceil(totalCount / pageSize);
+  const exceedsReject = selected ? resultData.defectsFound >= selected.rejectNumber : false;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">QA Inspections</h1>
+        <p className="mt-1 text-sm text-gray-600">Inspect held receipts and release them to putaway</p>
+      </div>
+
+      <Card>
+        <CardBody>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Input
+              placeholder="Search inspection, SKU, batch or receipt..."
+              value={filters.search}
+              onChange={(e) => setFilters({ ...filters, search: e.target.value })}
+            />
+            <Select
+              value={filters.status}
+              onChange={(e) => setFilters({ ...filters, status: e.target.value as QAInspectionStatus | '' })}
+              options={statusOptions}
+            />
+          </div>
+        </CardBody>
+      </Card>
+
+      <Card>
+        <CardHeader title="Inspections" subtitle={`${totalCount} inspections`} />
+        <CardBody className="p-0">
+          <Table
+            columns={columns}
+            data={inspections}
+            keyExtractor={(i) => i.id}
+            isLoading={isLoading}
+            emptyMessage="No inspections found"
+          />
+          {totalCount > 0 && (
+            <Pagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+              totalItems={totalCount}
+              itemsPerPage={pageSize}
+              onPageChange={setCurrentPage}
+            />
+          )}
+        </CardBody>
+      </Card>
+
+      <Modal
+        isOpen={!!selected}
+        onClose={() => setSelected(null)}
+        title={selected ? `Inspection ${selected.inspectionNumber}` : ''}
+        size="lg"
+        footer={
+          <>
+            <Button variant="ghost" onClick={() => setSelected(null)}>Cancel</Button>
+            <Button
+              variant={resultData.result === 'FAIL' ? 'danger' : 'primary'}
+              onClick={handleSubmit}
+              isLoading={isSubmitting}
+            >
+              Record Result
+            </Button>
+          </>
+        }
+      >
+        {selected && (
+          <div className="space-y-4">
+            <div className="bg-gray-50 p-4 rounded grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+              <div><p className="text-gray-600">SKU</p><p className="font-medium">{selected.skuCode}</p></div>
+              <div><p className="text-gray-600">Batch</p><p className="font-medium">{selected.batchNumber || '—'}</p></div>
+              <div><p className="text-gray-600">Lot Size</p><p className="font-medium">{formatNumber(selected.lotSize)}</p></div>
+              <div><p className="text-gray-600">AQL</p><p className="font-medium">{selected.aqlLevel ?? '—'}</p></div>
+              <div><p className="text-gray-600">Sample</p><p className="font-medium">{selected.sampleSize}</p></div>
+              <div><p className="text-gray-600">Accept ≤</p><p className="font-medium">{selected.acceptNumber}</p></div>
+              <div><p className="text-gray-600">Reject ≥</p><p className="font-medium">{selected.rejectNumber}</p></div>
+              <div><p className="text-gray-600">Plan</p><p className="font-medium">{selected.plan?.name || 'Default'}</p></div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <Input
+                type="number"
+                min={0}
+                label="Units Inspected"
+                value={resultData.quantityInspected}
+                onChange={(e) => setResultData({ ...resultData, quantityInspected: parseInt(e.target.value) || 0 })}
+              />
+              <Input
+                type="number"
+                min={0}
+                label="Defects Found"
+                value={resultData.defectsFound}
+                onChange={(e) => setResultData({ ...resultData, defectsFound: parseInt(e.target.value) || 0 })}
+                error={exceedsReject ? 'Reaches the reject number' : undefined}
+              />
+            </div>
+
+            <div>
+              <p className="block text-sm font-medium mb-2">Checklist</p>
+              <div className="space-y-2">
+                {selected.checklist.map((item) => {
+                  const check = resultData.checklistResults.find((c) => c.code === item.code);
+                  return (
+                    <div key={item.code} className="flex items-center gap-3 border border-gray-200 rounded p-2">
+                      <input
+                        type="checkbox"
+                        checked={check?.passed ?? false}
+                        onChange={(e) => setCheck(item.code, { passed: e.target.checked })}
+                      />
+                      <span className="flex-1 text-sm">
+                        {item.description}
+                        {item.required && <span className="text-danger-600"> *</span>}
+                      </span>
+                      {check && !check.passed && (
+                        <input
+                          className="border border-gray-300 rounded px-2 py-1 text-sm"
+                          placeholder="Finding"
+                          value={check.notes || ''}
+                          onChange={(e) => setCheck(item.code, { notes: e.target.value })}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+
+            <Textarea
+              label={selected.requirePhotos ? 'Photo URLs (one per line, required)' : 'Photo URLs (one per line)'}
+              value={resultData.photoUrls}
+              onChange={(e) => setResultData({ ...resultData, photoUrls: e.target.value })}
+              rows={2}
+            />
+
+            <Select
+              label="Result"
+              options={RESULT_OPTIONS}
+              value={resultData.result}
+              onChange={(e) => setResultData({ ...resultData, result: e.target.value as QAInspectionResult })}
+            />
+
+            {resultData.result === 'CONDITIONAL' && (
+              <>
+                <Input
+                  type="number"
+                  min={1}
+                  max={selected.lotSize}
+                  label="Quantity Released"
+                  value={resultData.releasedQuantity}
+                  onChange={(e) => setResultData({ ...resultData, releasedQuantity: parseFloat(e.target.value) || 0 })}
+                />
+                <Textarea
+                  label="Release Conditions"
+                  value={resultData.releaseConditions}
+                  onChange={(e) => setResultData({ ...resultData, releaseConditions: e.target.value })}
+                  rows={2}
+                  required
+                />
+                <Textarea
+                  label="Released Serial Numbers (one per line, serial-tracked items only)"
+                  value={resultData.releasedSerialNumbers}
+                  onChange={(e) => setResultData({ ...resultData, releasedSerialNumbers: e.target.value })}
+                  rows={2}
+                />
+              </>
+            )}
+
+            {resultData.result !== 'FAIL' && (
+              <BarcodeInput
+                label="Staging location ID"
+                placeholder="Scan or enter location the stock is put away from"
+                value={resultData.sourceLocationId}
+                onChange={(sourceLocationId) => setResultData({ ...resultData, sourceLocationId })}
+              />
+            )}
+
+            <Textarea
+              label="Notes"
+              value={resultData.notes}
+              onChange={(e) => setResultData({ ...resultData, notes: e.target.value })}
+              rows={2}
+            />
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
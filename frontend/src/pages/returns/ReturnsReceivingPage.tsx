@@ -0,0 +1,348 @@
+import { useEffect, useState } from 'react';
+import returnAuthorizationService from '../../services/returnAuthorization.service';
+import {
+  Card,
+  CardHeader,
+  CardBody,
+  Button,
+  Input,
+  Textarea,
+  Select,
+  Modal,
+  Table,
+  BarcodeInput,
+  StatusBadge,
+} from '../../components/ui';
+import {
+  ItemCondition,
+  ReturnAuthorization,
+  ReturnAuthorizationLine,
+  ReturnGrade,
+  ReturnUnit,
+} from '../../types';
+import { formatNumber } from '../../utils/helpers';
+import { showErrorToast, showSuccessToast } from '../../store/uiStore';
+
+const CONDITION_OPTIONS: { value: ItemCondition; label: string }[] = [
+  { value: 'GOOD', label: 'Good' },
+  { value: 'DAMAGED', label: 'Damaged' },
+  { value: 'EXPIRED', label: 'Expired' },
+  { value: 'UNKNOWN', label: 'Unknown' },
+];
+
+const GRADE_OPTIONS: { value: ReturnGrade; label: string }[] = [
+  { value: 'RESTOCK', label: 'Restock' },
+  { value: 'REFURBISH', label: 'Refurbish' },
+  { value: 'QUARANTINE', label: 'Quarantine' },
+  { value: 'SCRAP', label: 'Scrap' },
+  { value: 'RETURN_TO_VENDOR', label: 'Return to vendor' },
+];
+
+const emptyUnit = {
+  serialNumber: '',
+  quantity: 1,
+  batchNumber: '',
+  condition: 'GOOD' as ItemCondition,
+  grade: '' as ReturnGrade | '',
+  gradingNotes: '',
+};
+
+export const ReturnsReceivingPage: React.FC = () => {
+  const [search, setSearch] = useState('');
+  const [openReturns, setOpenReturns] = useState<ReturnAuthorization[]>([]);
+  const [selected, setSelected] = useState<ReturnAuthorization | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [stagingLocationId, setStagingLocationId] = useState('');
+  const [receiveLine, setReceiveLine] = useState<ReturnAuthorizationLine | null>(null);
+  const [unit, setUnit] = useState(emptyUnit);
+  const [gradeUnit, setGradeUnit] = useState<ReturnUnit | null>(null);
+  const [grade, setGrade] = useState<ReturnGrade>('RESTOCK');
+
+  useEffect(() => {
+    loadReturns();
+  }, []);
+
+  const loadReturns = async (term?: string) => {
+    setIsLoading(true);
+    try {
+      const [authorized, receiving] = await Promise.all([
+        returnAuthorizationService.getReturnAuthorizations({ status: 'AUTHORIZED', search: term }),
+        returnAuthorizationService.getReturnAuthorizations({ status: 'RECEIVING', search: term }),
+      ]);
+      setOpenReturns([...receiving.data, ...authorized.data]);
+    } catch (error) {
+      showErrorToast('Failed to load returns');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectReturn = async (id: string) => {
+    try {
+      setSelected(await returnAuthorizationService.getReturnAuthorizationById(id));
+    } catch (error) {
+      showErrorToast('Failed to load return');
+    }
+  };
+
+  const handleSearch = async (term: string) => {
+    setSearch(term);
+    await loadReturns(term);
+  };
+
+  const openReceive = (line: ReturnAuthorizationLine) => {
+    setReceiveLine(line);
+    setUnit({ ...emptyUnit, batchNumber: line.batchNumber || '' });
+  };
+
+  const handleReceive = async () => {
+    if (!selected || !receiveLine) return;
+    if (!stagingLocationId) {
+      showErrorToast('Scan the returns staging location first');
+      return;
+    }
+
+    try {
+      await returnAuthorizationService.receiveUnits(selected.id, stagingLocationId, [
+        {
+          returnLineId: receiveLine.id,
+          serialNumber: unit.serialNumber || undefined,
+          quantity: unit.serialNumber ? 1 : unit.quantity,
+          batchNumber: unit.batchNumber || undefined,
+          condition: unit.condition,
+          grade: unit.grade || undefined,
+          gradingNotes: unit.gradingNotes || undefined,
+        },
+      ]);
+      showSuccessToast(unit.grade ? 'Unit received and graded' : 'Unit received');
+      setReceiveLine(null);
+      await selectReturn(selected.id);
+      loadReturns(search);
+    } catch (error: any) {
+      showErrorToast(error.error || 'Failed to receive unit');
+    }
+  };
+
+  const handleGrade = async () => {
+    if (!selected || !gradeUnit) return;
+    try {
+      await returnAuthorizationService.gradeUnits(selected.id, [{ unitId: gradeUnit.id, grade }]);
+      showSuccessToast('Unit graded');
+      setGradeUnit(null);
+      await selectReturn(selected.id);
+    } catch (error: any) {
+      showErrorToast(error.error || 'Failed to grade unit');
+    }
+  };
+
+  const returnColumns = [
+    { key: 'rmaNumber', header: 'RMA', render: (rma: ReturnAuthorization) => rma.rmaNumber },
+    { key: 'order', header: 'Order', render: (rma: ReturnAuthorization) => rma.order?.orderNumber },
+    { key: 'customer', header: 'Customer', render: (rma: ReturnAuthorization) => rma.customer?.name },
+    {
+      key: 'units',
+      header: 'Units',
+      render: (rma: ReturnAuthorization) =>
+        `${formatNumber(rma.totalReceivedUnits)} / ${formatNumber(rma.totalAuthorizedUnits)}`,
+    },
+    { key: 'status', header: 'Status', render: (rma: ReturnAuthorization) => <StatusBadge status={rma.status} /> },
+  ];
+
+  const dispositionLabel = (u: ReturnUnit) => {
+    if (u.putawayTask) return `Putaway ${u.putawayTask.taskNumber} → ${u.putawayTask.destinationLocationCode || '—'}`;
+    if (u.disposalTask) return `Disposal ${u.disposalTask.taskNumber}`;
+    return 'Awaiting grade';
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Returns Receiving</h1>
+        <p className="text-gray-600">Receive and grade customer returns against their RMA</p>
+      </div>
+
+      <Card>
+        <CardBody>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <BarcodeInput
+              label="RMA, order or tracking number"
+              value={search}
+              onChange={setSearch}
+              onScan={handleSearch}
+            />
+            <BarcodeInput
+              label="Returns staging location ID"
+              placeholder="Scan or enter location ID"
+              value={stagingLocationId}
+              onChange={setStagingLocationId}
+            />
+          </div>
+        </CardBody>
+      </Card>
+
+      <Card>
+        <CardHeader title="Open Returns" subtitle="Authorized and partly received RMAs" />
+        <CardBody className="p-0">
+          <Table
+            columns={returnColumns}
+            data={openReturns}
+            keyExtractor={(rma) => rma.id}
+            onRowClick={(rma) => selectReturn(rma.id)}
+            isLoading={isLoading}
+            emptyMessage="No open returns"
+          />
+        </CardBody>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader
+            title={`${selected.rmaNumber} · ${selected.order?.orderNumber || ''}`}
+            subtitle={selected.returnReason}
+            action={<StatusBadge status={selected.status} />}
+          />
+          <CardBody>
+            <div className="space-y-6">
+              {selected.lines?.map((line) => (
+                <div key={line.id} className="border border-gray-200 rounded-lg p-4">
+                  <div className="flex justify-between items-start">
+                    <div>
+                      <p className="font-medium">
+                        {line.lineNumber}. {line.skuCode} — {line.productName}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        {formatNumber(line.quantityReceived)} of {formatNumber(line.quantityAuthorized)} received
+                        {line.batchNumber && ` · Batch ${line.batchNumber}`} · Reason: {line.reasonCode}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="primary"
+                      disabled={line.quantityReceived >= line.quantityAuthorized}
+                      onClick={() => openReceive(line)}
+                    >
+                      Receive
+                    </Button>
+                  </div>
+
+                  {line.units && line.units.length > 0 && (
+                    <table className="w-full mt-3 text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500">
+                          <th className="py-1">Serial / Qty</th>
+                          <th>Condition</th>
+                          <th>Grade</th>
+                          <th>Disposition</th>
+                          <th />
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {line.units.map((u) => (
+                          <tr key={u.id} className="border-t border-gray-100">
+                            <td className="py-1">{u.serialNumber || `× ${formatNumber(u.quantity)}`}</td>
+                            <td>{u.condition}</td>
+                            <td>{u.grade ? <StatusBadge status={u.grade} size="sm" /> : '—'}</td>
+                            <td>{dispositionLabel(u)}</td>
+                            <td className="text-right">
+                              {u.dispositionStatus === 'PENDING_GRADING' && (
+                                <Button size="sm" variant="ghost" onClick={() => setGradeUnit(u)}>
+                                  Grade
+                                </Button>
+                              )}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardBody>
+        </Card>
+      )}
+
+      <Modal
+        isOpen={!!receiveLine}
+        onClose={() => setReceiveLine(null)}
+        title={receiveLine ? `Receive ${receiveLine.skuCode}` : ''}
+        footer={
+          <>
+            <Button variant="ghost" onClick={() => setReceiveLine(null)}>Cancel</Button>
+            <Button variant="primary" onClick={handleReceive}>Receive</Button>
+          </>
+        }
+      >
+        <div className="space-y-4">
+          <BarcodeInput
+            label="Serial number"
+            placeholder="Scan serial (serialized items)"
+            value={unit.serialNumber}
+            onChange={(serialNumber) => setUnit({ ...unit, serialNumber })}
+          />
+          {!unit.serialNumber && (
+            <Input
+              type="number"
+              min={1}
+              label="Quantity"
+              value={unit.quantity}
+              onChange={(e) => setUnit({ ...unit, quantity: parseFloat(e.target.value) || 1 })}
+            />
+          )}
+          <Input
+            label="Batch number"
+            value={unit.batchNumber}
+            onChange={(e) => setUnit({ ...unit, batchNumber: e.target.value })}
+          />
+          <Select
+            label="Condition"
+            options={CONDITION_OPTIONS}
+            value={unit.condition}
+            onChange={(e) => setUnit({ ...unit, condition: e.target.value as ItemCondition })}
+          />
+          <Select
+            label="Grade"
+            options={[{ value: '', label: 'Grade later' }, ...GRADE_OPTIONS]}
+            value={unit.grade}
+            onChange={(e) => setUnit({ ...unit, grade: e.target.value as ReturnGrade | '' })}
+          />
+          <Textarea
+            label="Grading notes"
+            value={unit.gradingNotes}
+            onChange={(e) => setUnit({ ...unit, gradingNotes: e.target.value })}
+          />
+        </div>
+      </Modal>
+
+      <Modal
+        isOpen={!!gradeUnit}
+        onClose={() => setGradeUnit(null)}
+        title="Grade Unit"
+        footer={
+          <>
+            <Button variant="ghost" onClick={() => setGradeUnit(null)}>Cancel</Button>
+            <Button variant="primary" onClick={handleGrade}>Save Grade</Button>
+          </>
+        }
+      >
+        <div className="space-y-4">
+          {gradeUnit && (
+            <p className="text-sm text-gray-600">
+              {gradeUnit.serialNumber ? `Serial ${gradeUnit.serialNumber}` : `${formatNumber(gradeUnit.quantity)} units`} ·
+              Condition {gradeUnit.condition}
+            </p>
+          )}
+          <Select
+            label="Grade"
+            options={GRADE_OPTIONS}
+            value={grade}
+            onChange={(e) => setGrade(e.target.value as ReturnGrade)}
+          />
+          <p className="text-xs text-gray-500">
+            Restock, refurbish and quarantine create a putaway task; scrap and return-to-vendor create a disposal task.
+          </p>
+        </div>
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,470 @@
+import { useEffect, useState } from 'react';
+import supplierClaimService, { OutstandingClaimsReport } from '../../services/supplierClaim.service';
+import {
+  Card,
+  CardHeader,
+  CardBody,
+  Button,
+  Input,
+  Textarea,
+  Select,
+  Modal,
+  Table,
+  Pagination,
+  StatusBadge,
+} from '../../components/ui';
+import { SupplierClaim, SupplierClaimLine, SupplierClaimOutstanding, SupplierClaimStatus } from '../../types';
+import { downloadBlob, formatCurrency, formatDate, formatNumber } from '../../utils/helpers';
+import { showErrorToast, showSuccessToast } from '../../store/uiStore';
+
+const EDITABLE_STATUSES: SupplierClaimStatus[] = ['DRAFT', 'DISPUTED'];
+
+export const SupplierClaimsPage: React.FC = () => {
+  const [claims, setClaims] = useState<SupplierClaim[]>([]);
+  const [outstanding, setOutstanding] = useState<OutstandingClaimsReport | null>(null);
+  const [totalCount, setTotalCount] = useState(0);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [pageSize] = useState(20);
+  const [isLoading, setIsLoading] = useState(false);
+  const [status, setStatus] = useState<SupplierClaimStatus | ''>('');
+  const [supplierId, setSupplierId] = useState('');
+  const [selected, setSelected] = useState<SupplierClaim | null>(null);
+  const [costEdits, setCostEdits] = useState<Record<string, { unitCost: string; reason: string }>>({});
+  const [notes, setNotes] = useState('');
+  const [disputeReason, setDisputeReason] = useState('');
+  const [credit, setCredit] = useState({ amount: '', reference: '' });
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  useEffect(() => {
+    loadClaims();
+  }, [status, supplierId, currentPage]);
+
+  useEffect(() => {
+    loadOutstanding();
+  }, []);
+
+  const loadClaims = async () => {
+    setIsLoading(true);
+    try {
+      const response = await supplierClaimService.getClaims({
+        status: status || undefined,
+        supplierId: supplierId || undefined,
+        page: currentPage,
+        limit: pageSize,
+      });
+      setClaims(response.data);
+      setTotalCount(response.pagination.total);
+    } catch (error) {
+      showErrorToast('Failed to load supplier claims');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const loadOutstanding = async () => {
+    try {
+      setOutstanding(await supplierClaimService.getOutstanding());
+    } catch (error) {
+      showErrorToast('Failed to load outstanding claims');
+    }
+  };
+
+  const openClaim = async (claim: SupplierClaim) => {
+    try {
+      const detail = await supplierClaimService.getClaimById(claim.id);
+      setSelected(detail);
+      setCostEdits({});
+      setNotes(detail.notes || '');
+      setDisputeReason('');
+      setCredit({ amount: String(detail.totalAmount), reference: '' });
+    } catch (error) {
+      showErrorToast('Failed to load claim');
+    }
+  };
+
+  const runAction = async (action: () => Promise<SupplierClaim>, message: string, close = true) => {
+    setIsSubmitting(true);
+    try {
+      const claim = await action();
+      showSuccessToast(message);
+      if (close) {
+        setSelected(null);
+      } else {
+        setSelected(claim);
+        setCostEdits({});
+      }
+      loadClaims();
+      loadOutstanding();
+    } catch (error: any) {
+      showErrorToast(error.error || 'Failed to update claim');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const handleGenerate = async () => {
+    try {
+      const response = await supplierClaimService.generateClaims();
+      showSuccessToast(response.message || 'Claims drafted');
+      loadClaims();
+      loadOutstanding();
+    } catch (error) {
+      showErrorToast('Failed to draft claims');
+    }
+  };
+
+  const handleSaveCost = (line: SupplierClaimLine) => {
+    const edit = costEdits[line.id];
+    if (!selected || !edit) return;
+    if (edit.unitCost === '' || !edit.reason) {
+      showErrorToast('Enter a unit cost and reason');
+      return;
+    }
+    runAction(
+      () => supplierClaimService.overrideLineCost(selected.id, line.id, parseFloat(edit.unitCost), edit.reason),
+      'Line revalued',
+      false
+    );
+  };
+
+  const handleDispute = () => {
+    if (!selected) return;
+    if (!disputeReason) {
+      showErrorToast('Enter the dispute reason');
+      return;
+    }
+    runAction(() => supplierClaimService.dispute(selected.id, disputeReason), 'Claim marked as disputed');
+  };
+
+  const handleCredit = () => {
+    if (!selected || credit.amount === '') return;
+    runAction(
+      () => supplierClaimService.credit(selected.id, parseFloat(credit.amount), credit.reference || undefined),
+      'Credit recorded'
+    );
+  };
+
+  const handleDownload = async (claim: SupplierClaim) => {
+    try {
+      const blob = await supplierClaimService.downloadDebitNote(claim.id);
+      downloadBlob(blob, `${claim.debitNoteNumber}.pdf`);
+    } catch (error) {
+      showErrorToast('Failed to download debit note');
+    }
+  };
+
+  const setCostEdit = (line: SupplierClaimLine, field: 'unitCost' | 'reason', value: string) => {
+    const current = costEdits[line.id] || { unitCost: String(line.unitCost), reason: '' };
+    setCostEdits({ ...costEdits, [line.id]: { ...current, [field]: value } });
+  };
+
+  const statusOptions = [
+    { value: '', label: 'All Statuses' },
+    { value: 'DRAFT', label: 'Draft' },
+    { value: 'SENT', label: 'Sent' },
+    { value: 'ACKNOWLEDGED', label: 'Acknowledged' },
+    { value: 'DISPUTED', label: 'Disputed' },
+    { value: 'CREDITED', label: 'Credited' },
+  ];
+
+  const outstandingColumns = [
+    {
+      key: 'supplier',
+      header: 'Supplier',
+      render: (row: SupplierClaimOutstanding) => (
+        <button className="font-medium text-primary-600" onClick={() => setSupplierId(row.supplier.id)}>
+          {row.supplier.code} {row.supplier.name}
+        </button>
+      ),
+    },
+    { key: 'claims', header: 'Open Claims', render: (row: SupplierClaimOutstanding) => row.outstandingClaims },
+    {
+      key: 'amount',
+      header: 'Outstanding',
+      render: (row: SupplierClaimOutstanding) => formatCurrency(row.outstandingAmount),
+    },
+    {
+      key: 'disputed',
+      header: 'Disputed',
+      render: (row: SupplierClaimOutstanding) => formatCurrency(row.byStatus.DISPUTED?.amount || 0),
+    },
+    {
+      key: 'age',
+      header: 'Oldest',
+      render: (row: SupplierClaimOutstanding) => (row.oldestAgeDays === null ? '—' : `${row.oldestAgeDays} days`),
+    },
+    { key: 'draft', header: 'Not Yet Sent', render: (row: SupplierClaimOutstanding) => formatCurrency(row.draftAmount) },
+  ];
+
+  const columns = [
+    {
+      key: 'claimNumber',
+      header: 'Claim',
+      render: (c: SupplierClaim) => (
+        <div>
+          <p className="font-medium">{c.claimNumber}</p>
+          {c.debitNoteNumber && <p className="text-xs text-gray-500">{c.debitNoteNumber}</p>}
+        </div>
+      ),
+    },
+    { key: 'supplier', header: 'Supplier', render: (c: SupplierClaim) => c.supplier?.name },
+    { key: 'asn', header: 'ASN', render: (c: SupplierClaim) => c.asn?.asnNumber },
+    { key: 'lines', header: 'Lines', render: (c: SupplierClaim) => c._count?.lines ?? 0 },
+    { key: 'amount', header: 'Amount', render: (c: SupplierClaim) => formatCurrency(Number(c.totalAmount)) },
+    { key: 'status', header: 'Status', render: (c: SupplierClaim) => <StatusBadge status={c.status} /> },
+    { key: 'createdAt', header: 'Raised', render: (c: SupplierClaim) => formatDate(c.createdAt) },
+    {
+      key: 'actions',
+      header: 'Actions',
+      render: (c: SupplierClaim) => (
+        <Button size="sm" variant={c.status === 'DRAFT' ? 'primary' : 'ghost'} onClick={() => openClaim(c)}>
+          {c.status === 'DRAFT' ? 'Review' : 'View'}
+        </Button>
+      ),
+    },
+  ];
+
+  const totalPages = Math.ceil(totalCount / pageSize);
+  const isEditable = !!selected && EDITABLE_STATUSES.includes(selected.status);
+  const canSend = selected?.status === 'DRAFT' || selected?.status === 'DISPUTED';
+  const canSettle = selected?.status === 'SENT' || selected?.status === 'ACKNOWLEDGED';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Supplier Claims</h1>
+          <p className="mt-1 text-sm text-gray-600">
+            Approved shortages, damages and wrong items claimed back from suppliers.
+          </p>
+        </div>
+        <Button variant="secondary" onClick={handleGenerate}>
+          Draft Claims
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader
+          title="Outstanding by Supplier"
+          subtitle={
+            outstanding
+              ? `${outstanding.totals.outstandingClaims} open claims, ${formatCurrency(outstanding.totals.outstandingAmount)} outstanding`
+              : undefined
+          }
+        />
+        <CardBody className="p-0">
+          <Table
+            columns={outstandingColumns}
+            data={outstanding?.data || []}
+            keyExtractor={(row) => row.supplier.id}
+            emptyMessage="No outstanding claims"
+          />
+        </CardBody>
+      </Card>
+
+      <Card>
+        <CardBody>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Select
+              value={status}
+              onChange={(e) => {
+                setStatus(e.target.value as SupplierClaimStatus | '');
+                setCurrentPage(1);
+              }}
+              options={statusOptions}
+            />
+            {supplierId && (
+              <Button variant="ghost" onClick={() => setSupplierId('')}>
+                Show all suppliers
+              </Button>
+            )}
+          </div>
+        </CardBody>
+      </Card>
+
+      <Card>
+        <CardHeader title="Claims" subtitle={`${totalCount} claims`} />
+        <CardBody className="p-0">
+          <Table
+            columns={columns}
+            data={claims}
+            keyExtractor={(c) => c.id}
+            isLoading={isLoading}
+            emptyMessage="No supplier claims found"
+          />
+          {totalCount > 0 && (
+            <Pagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+              totalItems={totalCount}
+              itemsPerPage={pageSize}
+              onPageChange={setCurrentPage}
+            />
+          )}
+        </CardBody>
+      </Card>
+
+      <Modal
+        isOpen={!!selected}
+        onClose={() => setSelected(null)}
+        title={selected ? `Claim ${selected.claimNumber}` : ''}
+        size="xl"
+        footer={
+          <>
+            {selected?.debitNoteNumber && (
+              <Button variant="ghost" onClick={() => handleDownload(selected)}>
+                Debit Note
+              </Button>
+            )}
+            {selected?.status === 'SENT' && (
+              <Button
+                variant="secondary"
+                onClick={() => runAction(() => supplierClaimService.acknowledge(selected.id), 'Claim acknowledged')}
+                isLoading={isSubmitting}
+              >
+                Acknowledged
+              </Button>
+            )}
+            {canSettle && (
+              <Button variant="danger" onClick={handleDispute} isLoading={isSubmitting}>
+                Disputed
+              </Button>
+            )}
+            {(canSettle || selected?.status === 'DISPUTED') && (
+              <Button variant="success" onClick={handleCredit} isLoading={isSubmitting}>
+                Record Credit
+              </Button>
+            )}
+            {canSend && (
+              <Button
+                variant="primary"
+                onClick={() =>
+                  runAction(() => supplierClaimService.send(selected!.id, notes || undefined), 'Claim sent')
+                }
+                isLoading={isSubmitting}
+              >
+                {selected?.status === 'DISPUTED' ? 'Resend' : 'Send to Supplier'}
+              </Button>
+            )}
+          </>
+        }
+      >
+        {selected && (
+          <div className="space-y-4">
+            <div className="bg-gray-50 p-4 rounded grid grid-cols-2 md:grid-cols-4 gap-3 text-sm">
+              <div><p className="text-gray-600">Supplier</p><p className="font-medium">{selected.supplier?.name}</p></div>
+              <div><p className="text-gray-600">ASN</p><p className="font-medium">{selected.asn?.asnNumber}</p></div>
+              <div><p className="text-gray-600">Status</p><StatusBadge status={selected.status} /></div>
+              <div><p className="text-gray-600">Total</p><p className="font-medium">{formatCurrency(Number(selected.totalAmount))}</p></div>
+            </div>
+
+            {selected.status === 'DISPUTED' && (
+              <p className="text-sm text-danger-600">Disputed: {selected.disputeReason}</p>
+            )}
+            {selected.status === 'CREDITED' && (
+              <p className="text-sm text-success-600">
+                Credited {formatCurrency(Number(selected.creditedAmount || 0))}
+                {selected.creditReference && ` (${selected.creditReference})`}
+              </p>
+            )}
+
+            <table className="min-w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b">
+                  <th className="py-2">SKU</th>
+                  <th>Reason</th>
+                  <th className="text-right">Qty</th>
+                  <th className="text-right">Unit Cost</th>
+                  <th className="text-right">Amount</th>
+                  {isEditable && <th className="pl-4">Override</th>}
+                </tr>
+              </thead>
+              <tbody>
+                {selected.lines?.map((line) => (
+                  <tr key={line.id} className="border-b align-top">
+                    <td className="py-2">
+                      <p className="font-medium">{line.skuCode}</p>
+                      <p className="text-xs text-gray-500">{line.productName}</p>
+                    </td>
+                    <td>{line.varianceType.replace(/_/g, ' ')}</td>
+                    <td className="text-right">{formatNumber(Number(line.quantity))}</td>
+                    <td className="text-right">
+                      {formatCurrency(Number(line.unitCost))}
+                      {line.unitCostOverridden && (
+                        <p className="text-xs text-gray-500" title={line.overrideReason}>overridden</p>
+                      )}
+                    </td>
+                    <td className="text-right">{formatCurrency(Number(line.amount))}</td>
+                    {isEditable && (
+                      <td className="pl-4">
+                        <div className="flex gap-2">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min={0}
+                            value={costEdits[line.id]?.unitCost ?? String(line.unitCost)}
+                            onChange={(e) => setCostEdit(line, 'unitCost', e.target.value)}
+                          />
+                          <Input
+                            placeholder="Reason"
+                            value={costEdits[line.id]?.reason ?? ''}
+                            onChange={(e) => setCostEdit(line, 'reason', e.target.value)}
+                          />
+                          <Button
+                            size="sm"
+                            variant="secondary"
+                            onClick={() => handleSaveCost(line)}
+                            disabled={!costEdits[line.id]}
+                            isLoading={isSubmitting}
+                          >
+                            Save
+                          </Button>
+                        </div>
+                      </td>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {canSend && (
+              <Textarea
+                label="Notes for the supplier"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+              />
+            )}
+
+            {canSettle && (
+              <Textarea
+                label="Dispute Reason (when disputed)"
+                value={disputeReason}
+                onChange={(e) => setDisputeReason(e.target.value)}
+                rows={2}
+              />
+            )}
+
+            {(canSettle || selected.status === 'DISPUTED') && (
+              <div className="grid grid-cols-2 gap-4">
+                <Input
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  label="Credited Amount"
+                  value={credit.amount}
+                  onChange={(e) => setCredit({ ...credit, amount: e.target.value })}
+                />
+                <Input
+                  label="Credit Note Reference"
+                  value={credit.reference}
+                  onChange={(e) => setCredit({ ...credit, reference: e.target.value })}
+                />
+              </div>
+            )}
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,307 @@
+import { useEffect, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+} from 'recharts';
+import supplierScorecardService from '../../services/supplierScorecard.service';
+import { Card, CardHeader, CardBody, Button, Input, Modal, Table } from '../../components/ui';
+import {
+  ScorecardWeights,
+  SupplierMetrics,
+  SupplierScorecard,
+  SupplierScorecardSummary,
+} from '../../types';
+import { cn, downloadBlob, formatNumber } from '../../utils/helpers';
+import { showErrorToast, showSuccessToast } from '../../store/uiStore';
+
+type ScorecardRow = SupplierScorecardSummary['data'][number];
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const formatRate = (value: number | null) => (value === null ? '—' : `${value.toFixed(1)}%`);
+
+const scoreColor = (score: number | null) => {
+  if (score === null) return 'text-gray-400';
+  if (score >= 90) return 'text-success-600';
+  if (score >= 75) return 'text-warning-600';
+  return 'text-danger-600';
+};
+
+const WEIGHT_FIELDS: { key: keyof ScorecardWeights; label: string }[] = [
+  { key: 'onTimeWeight', label: 'On-time arrival' },
+  { key: 'fillRateWeight', label: 'Fill rate' },
+  { key: 'damageWeight', label: 'Damage' },
+  { key: 'wrongItemWeight', label: 'Wrong item' },
+  { key: 'temperatureWeight', label: 'Temperature' },
+  { key: 'labellingWeight', label: 'Labelling' },
+  { key: 'onTimeGraceHours', label: 'On-time grace (hours)' },
+];
+
+export const SupplierScorecardPage: React.FC = () => {
+  const [dateFrom, setDateFrom] = useState(toDateInput(new Date(Date.now() - 90 * 24 * 60 * 60 * 1000)));
+  const [dateTo, setDateTo] = useState(toDateInput(new Date()));
+  const [summary, setSummary] = useState<SupplierScorecardSummary | null>(null);
+  const [selected, setSelected] = useState<SupplierScorecard | null>(null);
+  const [granularity, setGranularity] = useState<'weekly' | 'monthly'>('weekly');
+  const [isLoading, setIsLoading] = useState(false);
+  const [weightsModal, setWeightsModal] = useState(false);
+  const [weights, setWeights] = useState<ScorecardWeights | null>(null);
+
+  const period = () => ({
+    dateFrom: new Date(`${dateFrom}T00:00:00`).toISOString(),
+    dateTo: new Date(`${dateTo}T23:59:59`).toISOString(),
+  });
+
+  useEffect(() => {
+    loadScorecards();
+  }, [dateFrom, dateTo]);
+
+  const loadScorecards = async () => {
+    setIsLoading(true);
+    try {
+      const data = await supplierScorecardService.getScorecards(period());
+      setSummary(data);
+      if (selected) {
+        await selectSupplier(selected.supplier.id);
+      }
+    } catch (error) {
+      showErrorToast('Failed to load supplier scorecards');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const selectSupplier = async (supplierId: string) => {
+    try {
+      setSelected(await supplierScorecardService.getSupplierScorecard(supplierId, period()));
+    } catch (error) {
+      showErrorToast('Failed to load supplier scorecard');
+    }
+  };
+
+  const handleExport = async (format: 'csv' | 'pdf', supplierId?: string) => {
+    try {
+      const blob = await supplierScorecardService.exportScorecards(format, { ...period(), supplierId });
+      const name = supplierId && selected ? `scorecard-${selected.supplier.code}` : 'supplier-scorecards';
+      downloadBlob(blob, `${name}-${dateTo}.${format}`);
+    } catch (error) {
+      showErrorToast('Export failed');
+    }
+  };
+
+  const openWeights = () => {
+    setWeights(summary?.weights || null);
+    setWeightsModal(true);
+  };
+
+  const handleSaveWeights = async () => {
+    if (!weights) return;
+    try {
+      await supplierScorecardService.updateConfig(weights);
+      showSuccessToast('Scorecard weights updated');
+      setWeightsModal(false);
+      loadScorecards();
+    } catch (error: any) {
+      showErrorToast(error.error || 'Failed to update weights');
+    }
+  };
+
+  const columns = [
+    {
+      key: 'supplier',
+      header: 'Supplier',
+      render: (row: ScorecardRow) => (
+        <div>
+          <p className="font-medium">{row.supplier.name}</p>
+          <p className="text-xs text-gray-500">{row.supplier.code}</p>
+        </div>
+      ),
+    },
+    {
+      key: 'score',
+      header: 'Score',
+      render: (row: ScorecardRow) => (
+        <span className={cn('text-lg font-bold', scoreColor(row.metrics.compositeScore))}>
+          {row.metrics.compositeScore === null ? '—' : row.metrics.compositeScore.toFixed(1)}
+        </span>
+      ),
+    },
+    { key: 'asns', header: 'ASNs', render: (row: ScorecardRow) => row.metrics.asnCount },
+    { key: 'onTime', header: 'On-Time', render: (row: ScorecardRow) => formatRate(row.metrics.onTimeRate) },
+    { key: 'fill', header: 'Fill Rate', render: (row: ScorecardRow) => formatRate(row.metrics.fillRate) },
+    { key: 'damage', header: 'Damage', render: (row: ScorecardRow) => formatRate(row.metrics.damageRate) },
+    { key: 'wrongItem', header: 'Wrong Item', render: (row: ScorecardRow) => formatRate(row.metrics.wrongItemRate) },
+    {
+      key: 'temperature',
+      header: 'Temp. Violations',
+      render: (row: ScorecardRow) => formatRate(row.metrics.temperatureViolationRate),
+    },
+    {
+      key: 'labelling',
+      header: 'Labelling',
+      render: (row: ScorecardRow) => formatRate(row.metrics.labellingComplianceRate),
+    },
+  ];
+
+  const trend = selected ? selected.trends[granularity] : [];
+
+  const metricTiles = (metrics: SupplierMetrics) => [
+    { label: 'Composite Score', value: metrics.compositeScore === null ? '—' : metrics.compositeScore.toFixed(1) },
+    { label: 'On-Time Arrival', value: formatRate(metrics.onTimeRate), detail: `${metrics.lateCount} late of ${metrics.onTimeCount + metrics.lateCount}` },
+    { label: 'Fill Rate', value: formatRate(metrics.fillRate), detail: `${formatNumber(metrics.receivedUnits)} / ${formatNumber(metrics.expectedUnits)} units` },
+    { label: 'Damage', value: formatRate(metrics.damageRate), detail: `${metrics.damagedLines} of ${metrics.linesReceived} lines` },
+    { label: 'Wrong Item', value: formatRate(metrics.wrongItemRate), detail: `${metrics.wrongItemLines} lines` },
+    { label: 'Temperature Violations', value: formatRate(metrics.temperatureViolationRate), detail: `${metrics.temperatureViolations} lines` },
+    { label: 'Labelling Compliance', value: formatRate(metrics.labellingComplianceRate), detail: `${metrics.missingLabelLines} missing labels` },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Supplier Scorecards</h1>
+          <p className="text-gray-600">Delivery punctuality and receiving quality by supplier</p>
+        </div>
+        <div className="flex space-x-2">
+          <Button variant="ghost" onClick={openWeights}>Weights</Button>
+          <Button variant="secondary" onClick={() => handleExport('csv')}>Export CSV</Button>
+          <Button variant="secondary" onClick={() => handleExport('pdf')}>Export PDF</Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardBody>
+          <div className="flex flex-wrap gap-4 items-end">
+            <Input type="date" label="From" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            <Input type="date" label="To" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+            {summary && (
+              <p className="text-sm text-gray-500 pb-2">
+                {summary.data.length} supplier{summary.data.length === 1 ? '' : 's'} with ASNs due in this period
+              </p>
+            )}
+          </div>
+        </CardBody>
+      </Card>
+
+      <Card>
+        <CardHeader title="Ranking" subtitle="Click a supplier for trends" />
+        <CardBody className="p-0">
+          <Table
+            columns={columns}
+            data={summary?.data || []}
+            keyExtractor={(row) => row.supplier.id}
+            onRowClick={(row) => selectSupplier(row.supplier.id)}
+            isLoading={isLoading}
+            emptyMessage="No ASNs due in this period"
+          />
+        </CardBody>
+      </Card>
+
+      {selected && (
+        <Card>
+          <CardHeader
+            title={`${selected.supplier.name} (${selected.supplier.code})`}
+            subtitle={selected.supplier.contactName || selected.supplier.contactEmail}
+            action={
+              <div className="flex space-x-2">
+                <Button size="sm" variant="secondary" onClick={() => handleExport('csv', selected.supplier.id)}>
+                  CSV
+                </Button>
+                <Button size="sm" variant="secondary" onClick={() => handleExport('pdf', selected.supplier.id)}>
+                  PDF
+                </Button>
+                <Button size="sm" variant="ghost" onClick={() => setSelected(null)}>
+                  Close
+                </Button>
+              </div>
+            }
+          />
+          <CardBody>
+            <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4 mb-6">
+              {metricTiles(selected.metrics).map((tile) => (
+                <div key={tile.label} className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">{tile.label}</p>
+                  <p className="text-xl font-bold text-gray-900">{tile.value}</p>
+                  {tile.detail && <p className="text-xs text-gray-500">{tile.detail}</p>}
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end space-x-2 mb-2">
+              <Button
+                size="sm"
+                variant={granularity === 'weekly' ? 'primary' : 'ghost'}
+                onClick={() => setGranularity('weekly')}
+              >
+                Weekly
+              </Button>
+              <Button
+                size="sm"
+                variant={granularity === 'monthly' ? 'primary' : 'ghost'}
+                onClick={() => setGranularity('monthly')}
+              >
+                Monthly
+              </Button>
+            </div>
+
+            {trend.length === 0 ? (
+              <p className="text-center py-8 text-gray-500">No trend data for this period</p>
+            ) : (
+              <div className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={trend}>
+                    <CartesianGrid strokeDasharray="3 3" />
+                    <XAxis dataKey="period" />
+                    <YAxis domain={[0, 100]} />
+                    <Tooltip formatter={(value: number) => `${value?.toFixed?.(1) ?? value}`} />
+                    <Legend />
+                    <Line type="monotone" dataKey="compositeScore" name="Score" stroke="#2563eb" strokeWidth={2} connectNulls />
+                    <Line type="monotone" dataKey="onTimeRate" name="On-time %" stroke="#16a34a" connectNulls />
+                    <Line type="monotone" dataKey="fillRate" name="Fill %" stroke="#d97706" connectNulls />
+                    <Line type="monotone" dataKey="damageRate" name="Damage %" stroke="#dc2626" connectNulls />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            )}
+          </CardBody>
+        </Card>
+      )}
+
+      <Modal
+        isOpen={weightsModal}
+        onClose={() => setWeightsModal(false)}
+        title="Composite Score Weights"
+        footer={
+          <>
+            <Button variant="ghost" onClick={() => setWeightsModal(false)}>Cancel</Button>
+            <Button variant="primary" onClick={handleSaveWeights}>Save</Button>
+          </>
+        }
+      >
+        {weights && (
+          <div className="grid grid-cols-2 gap-4">
+            {WEIGHT_FIELDS.map((field) => (
+              <Input
+                key={field.key}
+                type="number"
+                min={0}
+                label={field.label}
+                value={weights[field.key]}
+                onChange={(e) => setWeights({ ...weights, [field.key]: parseInt(e.target.value, 10) || 0 })}
+              />
+            ))}
+            <p className="col-span-2 text-xs text-gray-500">
+              Weights are relative; metrics without data in a period are left out of the score.
+            </p>
+          </div>
+        )}
+      </Modal>
+    </div>
+  );
+};
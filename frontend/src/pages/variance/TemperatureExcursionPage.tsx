@@ -0,0 +1,145 @@
+import { useEffect, useState } from 'react';
+import varianceService from '../../services/variance.service';
+import { Card, CardHeader, CardBody, Input, Table, Badge, StatusBadge } from '../../components/ui';
+import { TemperatureExcursion, TemperatureExcursionGroup, TemperatureExcursionReport } from '../../types';
+import { formatDateTime } from '../../utils/helpers';
+import { showErrorToast } from '../../store/uiStore';
+
+const toDateInput = (date: Date) => date.toISOString().split('T')[0];
+
+const formatRange = (min: number | null, max: number | null) => {
+  if (min !== null && max !== null) return `${min}–${max}°C`;
+  if (min !== null) return `≥ ${min}°C`;
+  if (max !== null) return `≤ ${max}°C`;
+  return '—';
+};
+
+export const TemperatureExcursionPage: React.FC = () => {
+  const [dateFrom, setDateFrom] = useState(toDateInput(new Date(Date.now() - 30 * 24 * 60 * 60 * 1000)));
+  const [dateTo, setDateTo] = useState(toDateInput(new Date()));
+  const [report, setReport] = useState<TemperatureExcursionReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    loadReport();
+  }, [dateFrom, dateTo]);
+
+  const loadReport = async () => {
+    setIsLoading(true);
+    try {
+      const data = await varianceService.getTemperatureExcursionReport({
+        dateFrom: new Date(`${dateFrom}T00:00:00`).toISOString(),
+        dateTo: new Date(`${dateTo}T23:59:59`).toISOString(),
+      });
+      setReport(data);
+    } catch (error) {
+      showErrorToast('Failed to load temperature excursions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const groupColumns = (label: string) => [
+    { key: 'name', header: label, render: (g: TemperatureExcursionGroup) => <span className="font-medium">{g.name}</span> },
+    { key: 'excursions', header: 'Excursions', render: (g: TemperatureExcursionGroup) => g.excursions },
+    { key: 'open', header: 'Open', render: (g: TemperatureExcursionGroup) => g.open },
+    {
+      key: 'critical',
+      header: 'Critical',
+      render: (g: TemperatureExcursionGroup) => (
+        <span className={g.critical > 0 ? 'text-danger-600 font-medium' : ''}>{g.critical}</span>
+      ),
+    },
+    { key: 'averageDeviation', header: 'Avg Deviation', render: (g: TemperatureExcursionGroup) => `${g.averageDeviation}°C` },
+    { key: 'maxDeviation', header: 'Max Deviation', render: (g: TemperatureExcursionGroup) => `${g.maxDeviation}°C` },
+  ];
+
+  const excursionColumns = [
+    { key: 'submittedAt', header: 'Received', render: (e: TemperatureExcursion) => formatDateTime(e.submittedAt) },
+    { key: 'receiptNumber', header: 'Receipt', render: (e: TemperatureExcursion) => e.receiptNumber || '—' },
+    { key: 'supplierName', header: 'Supplier', render: (e: TemperatureExcursion) => e.supplierName },
+    { key: 'carrier', header: 'Carrier', render: (e: TemperatureExcursion) => e.carrier },
+    { key: 'skuCode', header: 'SKU', render: (e: TemperatureExcursion) => <span className="font-medium">{e.skuCode}</span> },
+    {
+      key: 'reading',
+      header: 'Reading',
+      render: (e: TemperatureExcursion) => (
+        <span className="text-danger-600 font-medium">
+          {e.temperatureReading}°C
+          <span className="text-gray-500 font-normal"> ({formatRange(e.temperatureLimitMin, e.temperatureLimitMax)})</span>
+        </span>
+      ),
+    },
+    { key: 'deviation', header: 'Deviation', render: (e: TemperatureExcursion) => `${e.deviation}°C` },
+    { key: 'priority', header: 'Priority', render: (e: TemperatureExcursion) => <Badge status={e.priority}>{e.priority}</Badge> },
+    { key: 'status', header: 'Status', render: (e: TemperatureExcursion) => <StatusBadge status={e.status} /> },
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-gray-900">Cold-Chain Excursions</h1>
+        <p className="mt-1 text-sm text-gray-600">
+          Out-of-range receiving temperatures. Putaway of affected lines is blocked until the variance is resolved.
+        </p>
+      </div>
+
+      <Card>
+        <CardBody>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Input type="date" label="From" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            <Input type="date" label="To" value={dateTo} onChange={(e) => setDateTo(e.target.value)} />
+            <div>
+              <p className="text-sm text-gray-600">Excursions</p>
+              <p className="mt-1 text-2xl font-bold text-gray-900">{report?.totalExcursions ?? 0}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-600">Awaiting Resolution</p>
+              <p className="mt-1 text-2xl font-bold text-warning-600">{report?.openExcursions ?? 0}</p>
+            </div>
+          </div>
+        </CardBody>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader title="By Supplier" />
+          <CardBody className="p-0">
+            <Table
+              columns={groupColumns('Supplier')}
+              data={report?.bySupplier || []}
+              keyExtractor={(g) => g.name}
+              isLoading={isLoading}
+              emptyMessage="No excursions"
+            />
+          </CardBody>
+        </Card>
+        <Card>
+          <CardHeader title="By Carrier" />
+          <CardBody className="p-0">
+            <Table
+              columns={groupColumns('Carrier')}
+              data={report?.byCarrier || []}
+              keyExtractor={(g) => g.name}
+              isLoading={isLoading}
+              emptyMessage="No excursions"
+            />
+          </CardBody>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader title="Excursions" />
+        <CardBody className="p-0">
+          <Table
+            columns={excursionColumns}
+            data={report?.excursions || []}
+            keyExtractor={(e) => e.id}
+            isLoading={isLoading}
+            emptyMessage="No temperature excursions in this period"
+          />
+        </CardBody>
+      </Card>
+    </div>
+  );
+};
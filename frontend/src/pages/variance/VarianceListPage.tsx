@@ -5,12 +5,21 @@ import { Variance, VarianceStatus, VarianceType, ResolutionAction } from '../../
 import { formatDate, formatDateTime, formatNumber } from '../../utils/helpers';
 import { showErrorToast, showSuccessToast } from '../../store/uiStore';
 
+const OPEN_STATUSES: VarianceStatus[] = ['PENDING', 'UNDER_REVIEW', 'ESCALATED'];
+
+const formatDuration = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const mins = minutes % 60;
+  return hours > 0 ? `${hours}h ${mins}m` : `${mins}m`;
+};
+
 export const VarianceListPage: React.FC = () => {
   const [variances, setVariances] = useState<Variance[]>([]);
   const [totalCount, setTotalCount] = useState(0);
   const [currentPage, setCurrentPage] = useState(1);
   const [pageSize] = useState(20);
   const [isLoading, setIsLoading] = useState(false);
+  const [now, setNow] = useState(Date.now());
   const [reviewModal, setReviewModal] = useState(false);
   const [selectedVariance, setSelectedVariance] = useState<Variance | null>(null);
   const [reviewData, setReviewData] = useState({
@@ -30,6 +39,11 @@ export const VarianceListPage: React.FC = () => {
     loadVariances();
   }, [filters, currentPage]);
 
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 60000);
+    return () => clearInterval(timer);
+  }, []);
+
   const loadVariances = async () => {
     setIsLoading(true);
     try {
@@ -64,8 +78,12 @@ export const VarianceListPage: React.FC = () => {
   const handleSubmitReview = async () => {
     if (!selectedVariance) return;
     try {
-      await varianceService.resolveVariance(selectedVariance.id, reviewData);
-      showSuccessToast(`Variance ${reviewData.resolutionAction.toLowerCase()}d`);
+      const updated = await varianceService.resolveVariance(selectedVariance.id, reviewData);
+      showSuccessToast(
+        reviewData.resolutionAction === 'APPROVE' && updated.status !== 'APPROVED'
+          ? 'Approval recorded; awaiting further approvers'
+          : `Variance ${reviewData.resolutionAction.toLowerCase()}d`
+      );
       setReviewModal(false);
       setSelectedVariance(null);
       loadVariances();
@@ -127,13 +145,42 @@ export const VarianceListPage: React.FC = () => {
     {
       key: 'priority',
       header: 'Priority',
-      render: (v: Variance) => <Badge status={v.priority}>{v.priority}</Badge>,
+      render: (v: Variance) => (
+        <div className="flex items-center space-x-1">
+          <Badge status={v.priority}>{v.priority}</Badge>
+          {v.approvalLevel === 'MANAGER' && (
+            <span className="text-xs text-gray-500" title="Outside supervisor tolerance">Manager</span>
+          )}
+        </div>
+      ),
     },
     {
       key: 'status',
       header: 'Status',
       render: (v: Variance) => <StatusBadge status={v.status} />,
     },
+    {
+      key: 'sla',
+      header: 'SLA',
+      render: (v: Variance) => {
+        if (!v.slaDueAt || !OPEN_STATUSES.includes(v.status)) {
+          return <span className="text-gray-400">—</span>;
+        }
+        const minutesLeft = Math.round((new Date(v.slaDueAt).getTime() - now) / 60000);
+        const warning = Boolean(v.slaWarnedAt);
+        return (
+          <span
+            className={minutesLeft < 0 ? 'text-danger-600 font-medium' : warning ? 'text-warning-600 font-medium' : 'text-gray-700'}
+            title={`Due ${formatDateTime(v.slaDueAt)}`}
+          >
+            {minutesLeft < 0 ? `Overdue ${formatDuration(-minutesLeft)}` : `${formatDuration(minutesLeft)} left`}
+            {(v.slaEscalationCount || 0) > 0 && (
+              <span className="ml-1 text-xs text-gray-500">(escalated ×{v.slaEscalationCount})</span>
+            )}
+          </span>
+        );
+      },
+    },
     {
       key: 'createdAt',
       header: 'Created',
@@ -144,7 +191,7 @@ export const VarianceListPage: React.FC = () => {
       header: 'Actions',
       render: (v: Variance) => (
         <div className="flex space-x-2">
-          {v.status === 'PENDING' && (
+          {OPEN_STATUSES.includes(v.status) && (
             <Button size="sm" variant="primary" onClick={() => handleReview(v)}>
               Review
             </Button>
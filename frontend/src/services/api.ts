@@ -131,6 +131,12 @@ class ApiClient {
     return response.data;
   }
 
+  // File download (CSV, PDF)
+  async download(url: string, params?: any): Promise<Blob> {
+    const response = await this.client.get<Blob>(url, { params, responseType: 'blob' });
+    return response.data;
+  }
+
   // File upload with multipart/form-data
   async upload<T>(url: string, formData: FormData): Promise<T> {
     const response = await this.client.post<T>(url, formData, {
@@ -2,6 +2,10 @@ import apiClient from './api';
 import {
   ASN,
   ASNLine,
+  ASNImport,
+  ASNImportStatus,
+  EDIFormat,
+  GoodsReceivedNote,
   APIResponse,
   PaginatedResponse,
   ShipmentStatus,
@@ -31,6 +35,7 @@ export interface CreateASNInput {
     batchNumberExpected?: string;
     expiryDateExpected?: string;
     lpnExpected?: string;
+    purchaseOrderLineId?: string;
   }>;
 }
 
@@ -58,6 +63,8 @@ export interface ReceiveASNLineInput {
   photoEvidenceUrls?: string[];
   qaHold?: boolean;
   temperatureReading?: number;
+  weight?: number;
+  gs1Barcodes?: string[];
 }
 
 export interface ASNQueryParams {
@@ -72,6 +79,22 @@ export interface ASNQueryParams {
   limit?: number;
 }
 
+export interface ImportASNDocumentInput {
+  warehouseId: string;
+  document: string;
+  format?: EDIFormat;
+  fileName?: string;
+  supplierId?: string;
+  autoCommit?: boolean;
+}
+
+export interface ASNImportQueryParams {
+  warehouseId?: string;
+  status?: ASNImportStatus;
+  page?: number;
+  limit?: number;
+}
+
 class ASNService {
   /**
    * Create new ASN
@@ -172,6 +195,21 @@ class ASNService {
     return response.data;
   }
 
+  /**
+   * Get the latest goods received note issued on completion
+   */
+  async getGRN(id: string): Promise<GoodsReceivedNote> {
+    const response = await apiClient.get<APIResponse<GoodsReceivedNote>>(`/asn/${id}/grn`);
+    return response.data;
+  }
+
+  /**
+   * Download a goods received note as PDF, latest version by default
+   */
+  async downloadGRN(id: string, version?: number): Promise<Blob> {
+    return apiClient.download(`/asn/${id}/grn`, { format: 'pdf', version });
+  }
+
   /**
    * Cancel ASN
    */
@@ -210,6 +248,79 @@ class ASNService {
     await apiClient.delete(`/asn/${asnId}/lines/${lineId}`);
   }
 
+  /**
+   * Import EDI ship notice (X12 856 / EDIFACT DESADV)
+   */
+  async importDocument(data: ImportASNDocumentInput): Promise<ASNImport> {
+    const response = await apiClient.post<APIResponse<ASNImport>>(
+      '/asn/imports',
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Get EDI imports
+   */
+  async getImports(
+    params: ASNImportQueryParams
+  ): Promise<PaginatedResponse<ASNImport>> {
+    return await apiClient.get<PaginatedResponse<ASNImport>>(
+      '/asn/imports',
+      params
+    );
+  }
+
+  /**
+   * Get EDI import with staged shipments
+   */
+  async getImportById(importId: string): Promise<ASNImport> {
+    const response = await apiClient.get<APIResponse<ASNImport>>(
+      `/asn/imports/${importId}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Assign a SKU to, or exclude, a staged import line
+   */
+  async updateStagedLine(
+    importId: string,
+    shipmentIndex: number,
+    lineIndex: number,
+    data: { skuId?: string; excluded?: boolean }
+  ): Promise<ASNImport> {
+    const response = await apiClient.patch<APIResponse<ASNImport>>(
+      `/asn/imports/${importId}/shipments/${shipmentIndex}/lines/${lineIndex}`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Commit staged import, creating ASNs
+   */
+  async commitImport(
+    importId: string,
+    allowPartial?: boolean
+  ): Promise<ASNImport> {
+    const response = await apiClient.post<APIResponse<ASNImport>>(
+      `/asn/imports/${importId}/commit`,
+      { allowPartial }
+    );
+    return response.data;
+  }
+
+  /**
+   * Discard staged import
+   */
+  async discardImport(importId: string): Promise<ASNImport> {
+    const response = await apiClient.delete<APIResponse<ASNImport>>(
+      `/asn/imports/${importId}`
+    );
+    return response.data;
+  }
+
   /**
    * Get ASN receiving statistics
    */
@@ -0,0 +1,67 @@
+import apiClient from './api';
+import { APIResponse, Attachment, AttachmentEntityType } from '../types';
+
+// ==========================================
+// ATTACHMENT SERVICE
+// ==========================================
+
+export interface AttachmentTarget {
+  entityType: AttachmentEntityType;
+  entityId: string;
+}
+
+class AttachmentService {
+  /**
+   * Upload files, optionally linking them to an entity
+   */
+  async upload(files: File[], target?: AttachmentTarget): Promise<Attachment[]> {
+    const formData = new FormData();
+    files.forEach((file) => formData.append('files', file));
+    if (target) {
+      formData.append('entityType', target.entityType);
+      formData.append('entityId', target.entityId);
+    }
+
+    const response = await apiClient.upload<APIResponse<Attachment[]>>('/attachments', formData);
+    return response.data;
+  }
+
+  /**
+   * Get attachments linked to an entity
+   */
+  async getForEntity(target: AttachmentTarget): Promise<Attachment[]> {
+    const response = await apiClient.get<APIResponse<Attachment[]>>('/attachments', target);
+    return response.data;
+  }
+
+  /**
+   * Get attachment by ID with fresh download URLs
+   */
+  async getById(id: string): Promise<Attachment> {
+    const response = await apiClient.get<APIResponse<Attachment>>(`/attachments/${id}`);
+    return response.data;
+  }
+
+  /**
+   * Link an attachment to another entity
+   */
+  async link(id: string, target: AttachmentTarget): Promise<void> {
+    await apiClient.post(`/attachments/${id}/links`, target);
+  }
+
+  /**
+   * Unlink an attachment from an entity
+   */
+  async unlink(id: string, target: AttachmentTarget): Promise<void> {
+    await apiClient.delete(`/attachments/${id}/links/${target.entityType}/${target.entityId}`);
+  }
+
+  /**
+   * Delete an attachment
+   */
+  async delete(id: string): Promise<void> {
+    await apiClient.delete(`/attachments/${id}`);
+  }
+}
+
+export default new AttachmentService();
@@ -0,0 +1,30 @@
+import apiClient from './api';
+import { APIResponse, GS1ParseResult } from '../types';
+
+// ==========================================
+// BARCODE SERVICE
+// ==========================================
+
+export interface ResolvedGS1Barcode extends GS1ParseResult {
+  sku: {
+    id: string;
+    code: string;
+    name: string;
+    gtin?: string;
+  } | null;
+}
+
+class BarcodeService {
+  /**
+   * Parse GS1 barcode on the server and resolve its GTIN to a SKU
+   */
+  async parseGS1(barcode: string): Promise<ResolvedGS1Barcode> {
+    const response = await apiClient.post<APIResponse<ResolvedGS1Barcode>>(
+      '/barcodes/gs1/parse',
+      { barcode }
+    );
+    return response.data;
+  }
+}
+
+export default new BarcodeService();
@@ -4,6 +4,7 @@ import {
   BlindReceiptLine,
   BlindReceiptStatus,
   ItemCondition,
+  ItemDimensions,
   APIResponse,
   PaginatedResponse,
 } from '../types';
@@ -52,6 +53,10 @@ export interface AddBlindReceiptLineInput {
   estimatedUnitCost?: number;
   photoEvidenceUrls?: string[];
   receiverNotes?: string;
+  purchaseOrderLineId?: string;
+  isNewItem?: boolean;
+  weightKg?: number;
+  dimensions?: ItemDimensions;
 }
 
 export interface ReviewBlindReceiptInput {
@@ -199,6 +204,13 @@ class BlindReceiptService {
     return response.data;
   }
 
+  /**
+   * Download the goods received note issued on approval as PDF
+   */
+  async downloadGRN(id: string, version?: number): Promise<Blob> {
+    return apiClient.download(`/blind-receipts/${id}/grn`, { format: 'pdf', version });
+  }
+
   /**
    * Get blind receipts pending approval
    */
@@ -0,0 +1,173 @@
+import apiClient from './api';
+import {
+  APIResponse,
+  AppointmentStatus,
+  DockAppointment,
+  DockDoor,
+  DockDoorType,
+  DockSlot,
+  OperatingHours,
+} from '../types';
+
+// ==========================================
+// DOCK SCHEDULING SERVICE
+// ==========================================
+
+export interface DockDoorInput {
+  warehouseId: string;
+  code: string;
+  name: string;
+  doorType?: DockDoorType;
+  slotDurationMinutes?: number;
+  slotCapacity?: number;
+  operatingHours?: OperatingHours | null;
+  timezone?: string;
+  temperatureControlled?: boolean;
+}
+
+export interface BookAppointmentInput {
+  asnId: string;
+  dockDoorId: string;
+  scheduledStart: string;
+  scheduledEnd?: string;
+  carrier?: string;
+  trailerNumber?: string;
+  driverName?: string;
+  notes?: string;
+}
+
+export interface RescheduleAppointmentInput {
+  scheduledStart: string;
+  scheduledEnd?: string;
+  dockDoorId?: string;
+  notes?: string;
+}
+
+export interface AppointmentQueryParams {
+  warehouseId?: string;
+  dockDoorId?: string;
+  asnId?: string;
+  status?: AppointmentStatus;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+class DockService {
+  /**
+   * Get dock doors
+   */
+  async getDockDoors(warehouseId?: string): Promise<DockDoor[]> {
+    const response = await apiClient.get<APIResponse<DockDoor[]>>('/dock/doors', {
+      warehouseId,
+    });
+    return response.data;
+  }
+
+  /**
+   * Create dock door
+   */
+  async createDockDoor(data: DockDoorInput): Promise<DockDoor> {
+    const response = await apiClient.post<APIResponse<DockDoor>>('/dock/doors', data);
+    return response.data;
+  }
+
+  /**
+   * Update dock door
+   */
+  async updateDockDoor(
+    id: string,
+    data: Partial<Omit<DockDoorInput, 'warehouseId' | 'code'>> & { isActive?: boolean }
+  ): Promise<DockDoor> {
+    const response = await apiClient.patch<APIResponse<DockDoor>>(
+      `/dock/doors/${id}`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Get bookable slots for a door on a date (YYYY-MM-DD)
+   */
+  async getAvailability(
+    dockDoorId: string,
+    date: string
+  ): Promise<{ dockDoor: DockDoor; date: string; slots: DockSlot[] }> {
+    const response = await apiClient.get<
+      APIResponse<{ dockDoor: DockDoor; date: string; slots: DockSlot[] }>
+    >(`/dock/doors/${dockDoorId}/availability`, { date });
+    return response.data;
+  }
+
+  /**
+   * Get appointments for the dock calendar
+   */
+  async getAppointments(params: AppointmentQueryParams): Promise<DockAppointment[]> {
+    const response = await apiClient.get<APIResponse<DockAppointment[]>>(
+      '/dock/appointments',
+      params
+    );
+    return response.data;
+  }
+
+  /**
+   * Book appointment for an ASN
+   */
+  async bookAppointment(data: BookAppointmentInput): Promise<DockAppointment> {
+    const response = await apiClient.post<APIResponse<DockAppointment>>(
+      '/dock/appointments',
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Reschedule appointment
+   */
+  async rescheduleAppointment(
+    id: string,
+    data: RescheduleAppointmentInput
+  ): Promise<DockAppointment> {
+    const response = await apiClient.patch<APIResponse<DockAppointment>>(
+      `/dock/appointments/${id}/reschedule`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Check truck in
+   */
+  async checkIn(
+    id: string,
+    data?: { trailerNumber?: string; driverName?: string }
+  ): Promise<DockAppointment> {
+    const response = await apiClient.post<APIResponse<DockAppointment>>(
+      `/dock/appointments/${id}/check-in`,
+      data || {}
+    );
+    return response.data;
+  }
+
+  /**
+   * Check truck out
+   */
+  async checkOut(id: string): Promise<DockAppointment> {
+    const response = await apiClient.post<APIResponse<DockAppointment>>(
+      `/dock/appointments/${id}/check-out`
+    );
+    return response.data;
+  }
+
+  /**
+   * Cancel appointment (or mark as no-show)
+   */
+  async cancelAppointment(id: string, noShow?: boolean): Promise<DockAppointment> {
+    const response = await apiClient.post<APIResponse<DockAppointment>>(
+      `/dock/appointments/${id}/cancel`,
+      { noShow }
+    );
+    return response.data;
+  }
+}
+
+export default new DockService();
@@ -8,6 +8,18 @@ export { default as blindReceiptService } from './blindReceipt.service';
 export { default as varianceService } from './variance.service';
 export { default as putawayService } from './putaway.service';
 export { default as lpnService } from './lpn.service';
+export { default as dockService } from './dock.service';
+export { default as barcodeService } from './barcode.service';
+export { default as toleranceProfileService } from './toleranceProfile.service';
+export { default as supplierScorecardService } from './supplierScorecard.service';
+export { default as purchaseOrderService } from './purchaseOrder.service';
+export { default as returnAuthorizationService } from './returnAuthorization.service';
+export { default as qaInspectionService } from './qaInspection.service';
+export { default as newSkuRequestService } from './newSkuRequest.service';
+export { default as attachmentService } from './attachment.service';
+export { default as supplierClaimService } from './supplierClaim.service';
+export { default as varianceAnalyticsService } from './varianceAnalytics.service';
+export { default as warehouseLayoutService } from './warehouseLayout.service';
 
 // Export types
 export * from './auth.service';
@@ -16,3 +28,15 @@ export * from './blindReceipt.service';
 export * from './variance.service';
 export * from './putaway.service';
 export * from './lpn.service';
+export * from './dock.service';
+export * from './barcode.service';
+export * from './toleranceProfile.service';
+export * from './supplierScorecard.service';
+export * from './purchaseOrder.service';
+export * from './returnAuthorization.service';
+export * from './qaInspection.service';
+export * from './newSkuRequest.service';
+export * from './attachment.service';
+export * from './supplierClaim.service';
+export * from './varianceAnalytics.service';
+export * from './warehouseLayout.service';
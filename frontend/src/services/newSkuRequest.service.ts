@@ -0,0 +1,64 @@
+import apiClient from './api';
+import { APIResponse, NewSkuRequest, NewSkuRequestStatus, PaginatedResponse, SkuDraft } from '../types';
+
+// ==========================================
+// NEW SKU REQUEST SERVICE
+// ==========================================
+
+export interface NewSkuRequestQueryParams {
+  page?: number;
+  limit?: number;
+  warehouseId?: string;
+  status?: NewSkuRequestStatus;
+  search?: string;
+}
+
+export interface ApproveNewSkuRequestInput {
+  skuDraft?: SkuDraft;
+  existingSkuId?: string;
+}
+
+class NewSkuRequestService {
+  /**
+   * Get new SKU requests with filters
+   */
+  async getRequests(params?: NewSkuRequestQueryParams): Promise<PaginatedResponse<NewSkuRequest>> {
+    return await apiClient.get<PaginatedResponse<NewSkuRequest>>('/sku-requests', params);
+  }
+
+  /**
+   * Get new SKU request by ID
+   */
+  async getRequestById(id: string): Promise<NewSkuRequest> {
+    const response = await apiClient.get<APIResponse<NewSkuRequest>>(`/sku-requests/${id}`);
+    return response.data;
+  }
+
+  /**
+   * Save SKU master data without approving
+   */
+  async saveDraft(id: string, skuDraft: SkuDraft): Promise<NewSkuRequest> {
+    const response = await apiClient.patch<APIResponse<NewSkuRequest>>(`/sku-requests/${id}`, { skuDraft });
+    return response.data;
+  }
+
+  /**
+   * Approve a request, creating or linking the SKU
+   */
+  async approve(id: string, data: ApproveNewSkuRequestInput): Promise<NewSkuRequest> {
+    const response = await apiClient.post<APIResponse<NewSkuRequest>>(`/sku-requests/${id}/approve`, data);
+    return response.data;
+  }
+
+  /**
+   * Reject a request
+   */
+  async reject(id: string, rejectionReason: string): Promise<NewSkuRequest> {
+    const response = await apiClient.post<APIResponse<NewSkuRequest>>(`/sku-requests/${id}/reject`, {
+      rejectionReason,
+    });
+    return response.data;
+  }
+}
+
+export default new NewSkuRequestService();
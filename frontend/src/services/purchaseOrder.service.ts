@@ -0,0 +1,148 @@
+import apiClient from './api';
+import {
+  APIResponse,
+  PaginatedResponse,
+  PurchaseOrder,
+  PurchaseOrderLine,
+  PurchaseOrderStatus,
+} from '../types';
+
+// ==========================================
+// PURCHASE ORDER SERVICE
+// ==========================================
+
+export interface PurchaseOrderLineInput {
+  lineNumber: number;
+  skuId: string;
+  orderedQuantity: number;
+  uom?: string;
+  unitCost?: number;
+}
+
+export interface CreatePurchaseOrderInput {
+  warehouseId: string;
+  poNumber: string;
+  supplierId: string;
+  orderDate?: string;
+  expectedDeliveryDate?: string;
+  currency?: string;
+  overReceiptTolerancePercent?: number;
+  notes?: string;
+  draft?: boolean;
+  lines: PurchaseOrderLineInput[];
+}
+
+export interface PurchaseOrderQueryParams {
+  page?: number;
+  limit?: number;
+  warehouseId?: string;
+  supplierId?: string;
+  status?: PurchaseOrderStatus;
+  search?: string;
+}
+
+class PurchaseOrderService {
+  /**
+   * Get purchase orders with filters
+   */
+  async getPurchaseOrders(params?: PurchaseOrderQueryParams): Promise<PaginatedResponse<PurchaseOrder>> {
+    return await apiClient.get<PaginatedResponse<PurchaseOrder>>('/purchase-orders', params);
+  }
+
+  /**
+   * Get purchase order with lines and linked ASNs
+   */
+  async getPurchaseOrderById(id: string): Promise<PurchaseOrder> {
+    const response = await apiClient.get<APIResponse<PurchaseOrder>>(`/purchase-orders/${id}`);
+    return response.data;
+  }
+
+  /**
+   * Create purchase order
+   */
+  async createPurchaseOrder(data: CreatePurchaseOrderInput): Promise<PurchaseOrder> {
+    const response = await apiClient.post<APIResponse<PurchaseOrder>>('/purchase-orders', data);
+    return response.data;
+  }
+
+  /**
+   * Update purchase order header
+   */
+  async updatePurchaseOrder(
+    id: string,
+    data: Partial<Pick<CreatePurchaseOrderInput, 'expectedDeliveryDate' | 'currency' | 'overReceiptTolerancePercent' | 'notes'>>
+  ): Promise<PurchaseOrder> {
+    const response = await apiClient.patch<APIResponse<PurchaseOrder>>(`/purchase-orders/${id}`, data);
+    return response.data;
+  }
+
+  /**
+   * Release a draft purchase order for receiving
+   */
+  async openPurchaseOrder(id: string): Promise<PurchaseOrder> {
+    const response = await apiClient.post<APIResponse<PurchaseOrder>>(`/purchase-orders/${id}/open`);
+    return response.data;
+  }
+
+  /**
+   * Add line to purchase order
+   */
+  async addLine(id: string, data: PurchaseOrderLineInput): Promise<PurchaseOrderLine> {
+    const response = await apiClient.post<APIResponse<PurchaseOrderLine>>(`/purchase-orders/${id}/lines`, data);
+    return response.data;
+  }
+
+  /**
+   * Update purchase order line
+   */
+  async updateLine(
+    lineId: string,
+    data: { orderedQuantity?: number; unitCost?: number }
+  ): Promise<PurchaseOrderLine> {
+    const response = await apiClient.patch<APIResponse<PurchaseOrderLine>>(
+      `/purchase-orders/lines/${lineId}`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Delete purchase order line
+   */
+  async deleteLine(lineId: string): Promise<void> {
+    await apiClient.delete(`/purchase-orders/lines/${lineId}`);
+  }
+
+  /**
+   * Short-close remaining open quantities
+   */
+  async shortClose(id: string, reason: string): Promise<PurchaseOrder> {
+    const response = await apiClient.post<APIResponse<PurchaseOrder>>(`/purchase-orders/${id}/short-close`, {
+      reason,
+    });
+    return response.data;
+  }
+
+  /**
+   * Cancel purchase order
+   */
+  async cancelPurchaseOrder(id: string, reason: string): Promise<PurchaseOrder> {
+    const response = await apiClient.post<APIResponse<PurchaseOrder>>(`/purchase-orders/${id}/cancel`, {
+      reason,
+    });
+    return response.data;
+  }
+
+  /**
+   * Link an ASN to the purchase order
+   */
+  async linkASN(id: string, asnId: string): Promise<{ linkedLines: number; unmatchedLines: number[] }> {
+    const response = await apiClient.post<APIResponse<{ linkedLines: number; unmatchedLines: number[] }>>(
+      `/purchase-orders/${id}/link-asn`,
+      { asnId }
+    );
+    return response.data;
+  }
+}
+
+export default new PurchaseOrderService();
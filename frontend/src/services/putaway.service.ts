@@ -2,6 +2,16 @@ import apiClient from './api';
 import {
   PutawayTask,
   PutawayStatus,
+  PutawayRule,
+  PutawaySimulationResult,
+  PutawayBatch,
+  PutawayBatchStatus,
+  PutawayEquipmentType,
+  PutawayOverride,
+  PutawayOverrideCheck,
+  PutawayOverrideReport,
+  CapacityReconciliation,
+  ZoneType,
   APIResponse,
   PaginatedResponse,
 } from '../types';
@@ -43,6 +53,40 @@ export interface CompletePutawayTaskInput {
   destinationLocationId: string;
   quantityConfirmed: number;
   operatorNotes?: string;
+  override?: PutawayOverride;
+}
+
+export type PutawayRuleInput = Partial<
+  Omit<PutawayRule, 'id' | 'tenantId' | 'warehouse' | 'createdAt' | 'updatedAt'>
+>;
+
+export interface SimulatePutawayInput {
+  warehouseId: string;
+  zoneType?: ZoneType;
+  items: Array<{
+    skuId: string;
+    quantity: number;
+    expiryDate?: string;
+    lpn?: string;
+  }>;
+}
+
+export interface CreatePutawayBatchesInput {
+  warehouseId: string;
+  zoneId?: string;
+  equipmentType?: PutawayEquipmentType;
+  maxStops?: number;
+  maxWeightKg?: number;
+  maxVolumeM3?: number;
+  operatorUserId?: string;
+}
+
+export interface PutawayBatchQueryParams {
+  warehouseId?: string;
+  operatorUserId?: string;
+  status?: PutawayBatchStatus;
+  page?: number;
+  limit?: number;
 }
 
 export interface PutawayQueryParams {
@@ -142,6 +186,63 @@ class PutawayService {
     return response.data;
   }
 
+  /**
+   * Check a bin scanned instead of the suggested one
+   */
+  async checkOverride(
+    id: string,
+    locationCode: string,
+    quantity?: number
+  ): Promise<PutawayOverrideCheck> {
+    const response = await apiClient.post<APIResponse<PutawayOverrideCheck>>(
+      `/putaway/${id}/override/check`,
+      { locationCode, quantity }
+    );
+    return response.data;
+  }
+
+  /**
+   * Get putaway override rates per bin or per operator
+   */
+  async getOverrideReport(params: {
+    groupBy: 'location' | 'operator';
+    warehouseId?: string;
+    dateFrom?: string;
+    dateTo?: string;
+    limit?: number;
+  }): Promise<PutawayOverrideReport> {
+    const response = await apiClient.get<APIResponse<PutawayOverrideReport>>(
+      '/putaway/overrides/report',
+      params
+    );
+    return response.data;
+  }
+
+  /**
+   * Recompute bin capacity for a warehouse and correct any drift
+   */
+  async reconcileCapacity(warehouseId: string): Promise<CapacityReconciliation> {
+    const response = await apiClient.post<APIResponse<CapacityReconciliation>>(
+      '/putaway/capacity/reconcile',
+      { warehouseId }
+    );
+    return response.data;
+  }
+
+  /**
+   * Get capacity reconciliation runs, newest first
+   */
+  async getReconciliations(params: {
+    warehouseId?: string;
+    page?: number;
+    limit?: number;
+  }): Promise<PaginatedResponse<CapacityReconciliation>> {
+    return await apiClient.get<PaginatedResponse<CapacityReconciliation>>(
+      '/putaway/capacity/reconciliations',
+      params
+    );
+  }
+
   /**
    * Cancel putaway task
    */
@@ -259,6 +360,178 @@ class PutawayService {
     );
     return response.data;
   }
+
+  /**
+   * Get putaway rules
+   */
+  async getRules(params?: {
+    warehouseId?: string;
+    includeInactive?: boolean;
+  }): Promise<PutawayRule[]> {
+    const response = await apiClient.get<APIResponse<PutawayRule[]>>(
+      '/putaway/rules',
+      params
+    );
+    return response.data;
+  }
+
+  /**
+   * Get putaway rule by ID
+   */
+  async getRuleById(id: string): Promise<PutawayRule> {
+    const response = await apiClient.get<APIResponse<PutawayRule>>(
+      `/putaway/rules/${id}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Create putaway rule
+   */
+  async createRule(data: PutawayRuleInput): Promise<PutawayRule> {
+    const response = await apiClient.post<APIResponse<PutawayRule>>(
+      '/putaway/rules',
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Update putaway rule
+   */
+  async updateRule(id: string, data: PutawayRuleInput): Promise<PutawayRule> {
+    const response = await apiClient.put<APIResponse<PutawayRule>>(
+      `/putaway/rules/${id}`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Delete putaway rule
+   */
+  async deleteRule(id: string): Promise<void> {
+    await apiClient.delete(`/putaway/rules/${id}`);
+  }
+
+  /**
+   * Show where a hypothetical receipt would be put away
+   */
+  async simulate(data: SimulatePutawayInput): Promise<PutawaySimulationResult> {
+    const response = await apiClient.post<APIResponse<PutawaySimulationResult>>(
+      '/putaway/simulate',
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Group pending putaway tasks into trips
+   */
+  async createBatches(data: CreatePutawayBatchesInput): Promise<PutawayBatch[]> {
+    const response = await apiClient.post<APIResponse<PutawayBatch[]>>(
+      '/putaway/batches',
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Get putaway batches with filters
+   */
+  async getBatches(
+    params: PutawayBatchQueryParams
+  ): Promise<PaginatedResponse<PutawayBatch>> {
+    return await apiClient.get<PaginatedResponse<PutawayBatch>>(
+      '/putaway/batches',
+      params
+    );
+  }
+
+  /**
+   * Get putaway batch by ID with its stops
+   */
+  async getBatchById(batchId: string): Promise<PutawayBatch> {
+    const response = await apiClient.get<APIResponse<PutawayBatch>>(
+      `/putaway/batches/${batchId}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Assign putaway batch to operator
+   */
+  async assignBatch(
+    batchId: string,
+    data: AssignPutawayTaskInput
+  ): Promise<PutawayBatch> {
+    const response = await apiClient.post<APIResponse<PutawayBatch>>(
+      `/putaway/batches/${batchId}/assign`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Start putaway batch
+   */
+  async startBatch(batchId: string): Promise<PutawayBatch> {
+    const response = await apiClient.post<APIResponse<PutawayBatch>>(
+      `/putaway/batches/${batchId}/start`
+    );
+    return response.data;
+  }
+
+  /**
+   * Confirm the putaway at one stop of a batch
+   */
+  async completeStop(
+    batchId: string,
+    stopId: string,
+    data: { actualQuantity?: number; operatorNotes?: string; override?: PutawayOverride }
+  ): Promise<PutawayBatch> {
+    const response = await apiClient.post<APIResponse<PutawayBatch>>(
+      `/putaway/batches/${batchId}/stops/${stopId}/complete`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Skip one stop of a batch
+   */
+  async skipStop(
+    batchId: string,
+    stopId: string,
+    reason: string
+  ): Promise<PutawayBatch> {
+    const response = await apiClient.post<APIResponse<PutawayBatch>>(
+      `/putaway/batches/${batchId}/stops/${stopId}/skip`,
+      { reason }
+    );
+    return response.data;
+  }
+
+  /**
+   * End a batch, skipping the stops not yet visited
+   */
+  async finishBatch(batchId: string, reason?: string): Promise<PutawayBatch> {
+    const response = await apiClient.post<APIResponse<PutawayBatch>>(
+      `/putaway/batches/${batchId}/finish`,
+      { reason }
+    );
+    return response.data;
+  }
+
+  /**
+   * Cancel a batch that has not started
+   */
+  async cancelBatch(batchId: string): Promise<PutawayBatch> {
+    const response = await apiClient.post<APIResponse<PutawayBatch>>(
+      `/putaway/batches/${batchId}/cancel`
+    );
+    return response.data;
+  }
 }
 
 export default new PutawayService();
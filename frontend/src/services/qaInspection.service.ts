@@ -0,0 +1,129 @@
+import apiClient from './api';
+import {
+  APIResponse,
+  ChecklistItem,
+  ChecklistResult,
+  PaginatedResponse,
+  PutawayTask,
+  QAInspection,
+  QAInspectionPlan,
+  QAInspectionResult,
+  QAInspectionStatus,
+  QAPlanScope,
+  SamplingRule,
+} from '../types';
+
+// ==========================================
+// QA INSPECTION SERVICE
+// ==========================================
+
+export interface InspectionPlanInput {
+  name: string;
+  description?: string;
+  scope: QAPlanScope;
+  supplierId?: string;
+  skuId?: string;
+  aqlLevel?: number;
+  samplingRules: SamplingRule[];
+  checklist: ChecklistItem[];
+  requirePhotos?: boolean;
+}
+
+export interface RecordInspectionResultInput {
+  result: QAInspectionResult;
+  quantityInspected: number;
+  defectsFound: number;
+  checklistResults?: ChecklistResult[];
+  photoUrls?: string[];
+  notes?: string;
+  releasedQuantity?: number;
+  releaseConditions?: string;
+  releasedSerialNumbers?: string[];
+  sourceLocationId?: string;
+}
+
+export interface QAInspectionQueryParams {
+  page?: number;
+  limit?: number;
+  warehouseId?: string;
+  status?: QAInspectionStatus;
+  result?: QAInspectionResult;
+  assignedToId?: string;
+  search?: string;
+}
+
+class QAInspectionService {
+  /**
+   * Get inspection plans
+   */
+  async getPlans(params?: { scope?: QAPlanScope; includeInactive?: boolean }): Promise<QAInspectionPlan[]> {
+    const response = await apiClient.get<APIResponse<QAInspectionPlan[]>>('/qa-inspections/plans', params);
+    return response.data;
+  }
+
+  /**
+   * Create an inspection plan
+   */
+  async createPlan(data: InspectionPlanInput): Promise<QAInspectionPlan> {
+    const response = await apiClient.post<APIResponse<QAInspectionPlan>>('/qa-inspections/plans', data);
+    return response.data;
+  }
+
+  /**
+   * Update an inspection plan
+   */
+  async updatePlan(
+    id: string,
+    data: Partial<Omit<InspectionPlanInput, 'scope' | 'supplierId' | 'skuId'>> & { isActive?: boolean }
+  ): Promise<QAInspectionPlan> {
+    const response = await apiClient.patch<APIResponse<QAInspectionPlan>>(`/qa-inspections/plans/${id}`, data);
+    return response.data;
+  }
+
+  /**
+   * Deactivate an inspection plan
+   */
+  async deactivatePlan(id: string): Promise<QAInspectionPlan> {
+    const response = await apiClient.delete<APIResponse<QAInspectionPlan>>(`/qa-inspections/plans/${id}`);
+    return response.data;
+  }
+
+  /**
+   * Get inspections with filters
+   */
+  async getInspections(params?: QAInspectionQueryParams): Promise<PaginatedResponse<QAInspection>> {
+    return await apiClient.get<PaginatedResponse<QAInspection>>('/qa-inspections', params);
+  }
+
+  /**
+   * Get inspection by ID
+   */
+  async getInspectionById(id: string): Promise<QAInspection> {
+    const response = await apiClient.get<APIResponse<QAInspection>>(`/qa-inspections/${id}`);
+    return response.data;
+  }
+
+  /**
+   * Start an inspection
+   */
+  async startInspection(id: string): Promise<QAInspection> {
+    const response = await apiClient.post<APIResponse<QAInspection>>(`/qa-inspections/${id}/start`);
+    return response.data;
+  }
+
+  /**
+   * Record the inspection result
+   */
+  async recordResult(
+    id: string,
+    data: RecordInspectionResultInput
+  ): Promise<{ inspection: QAInspection; putawayTasks: PutawayTask[] }> {
+    const response = await apiClient.post<APIResponse<{ inspection: QAInspection; putawayTasks: PutawayTask[] }>>(
+      `/qa-inspections/${id}/result`,
+      data
+    );
+    return response.data;
+  }
+}
+
+export default new QAInspectionService();
@@ -0,0 +1,148 @@
+import apiClient from './api';
+import {
+  APIResponse,
+  ItemCondition,
+  PaginatedResponse,
+  ReturnAuthorization,
+  ReturnDisposalTask,
+  ReturnGrade,
+  ReturnStatus,
+  ReturnUnit,
+} from '../types';
+
+// ==========================================
+// RETURNS (RMA) SERVICE
+// ==========================================
+
+export interface CreateReturnAuthorizationInput {
+  orderId: string;
+  shipmentId?: string;
+  returnReason: string;
+  customerNotes?: string;
+  carrier?: string;
+  trackingNumber?: string;
+  expiresAt?: string;
+  lines: Array<{
+    orderLineId: string;
+    quantity: number;
+    reasonCode: string;
+    serialNumbers?: string[];
+  }>;
+}
+
+export interface ReceiveReturnUnitInput {
+  returnLineId: string;
+  quantity?: number;
+  serialNumber?: string;
+  batchNumber?: string;
+  expiryDate?: string;
+  lpn?: string;
+  condition: ItemCondition;
+  grade?: ReturnGrade;
+  gradingNotes?: string;
+  photoEvidenceUrls?: string[];
+  supplierId?: string;
+}
+
+export interface GradeReturnUnitInput {
+  unitId: string;
+  grade: ReturnGrade;
+  condition?: ItemCondition;
+  gradingNotes?: string;
+  supplierId?: string;
+}
+
+export interface ReturnAuthorizationQueryParams {
+  page?: number;
+  limit?: number;
+  warehouseId?: string;
+  orderId?: string;
+  status?: ReturnStatus;
+  search?: string;
+}
+
+class ReturnAuthorizationService {
+  /**
+   * Get return authorizations with filters
+   */
+  async getReturnAuthorizations(
+    params?: ReturnAuthorizationQueryParams
+  ): Promise<PaginatedResponse<ReturnAuthorization>> {
+    return await apiClient.get<PaginatedResponse<ReturnAuthorization>>('/returns', params);
+  }
+
+  /**
+   * Get return authorization with lines and received units
+   */
+  async getReturnAuthorizationById(id: string): Promise<ReturnAuthorization> {
+    const response = await apiClient.get<APIResponse<ReturnAuthorization>>(`/returns/${id}`);
+    return response.data;
+  }
+
+  /**
+   * Authorize a customer return
+   */
+  async createReturnAuthorization(data: CreateReturnAuthorizationInput): Promise<ReturnAuthorization> {
+    const response = await apiClient.post<APIResponse<ReturnAuthorization>>('/returns', data);
+    return response.data;
+  }
+
+  /**
+   * Cancel a return authorization
+   */
+  async cancelReturnAuthorization(id: string): Promise<ReturnAuthorization> {
+    const response = await apiClient.post<APIResponse<ReturnAuthorization>>(`/returns/${id}/cancel`);
+    return response.data;
+  }
+
+  /**
+   * Receive returned units at a staging location
+   */
+  async receiveUnits(
+    id: string,
+    receivingLocationId: string,
+    units: ReceiveReturnUnitInput[]
+  ): Promise<ReturnUnit[]> {
+    const response = await apiClient.post<APIResponse<ReturnUnit[]>>(`/returns/${id}/receive`, {
+      receivingLocationId,
+      units,
+    });
+    return response.data;
+  }
+
+  /**
+   * Grade received units
+   */
+  async gradeUnits(id: string, grades: GradeReturnUnitInput[]): Promise<ReturnUnit[]> {
+    const response = await apiClient.post<APIResponse<ReturnUnit[]>>(`/returns/${id}/grade`, { grades });
+    return response.data;
+  }
+
+  /**
+   * Get scrap and return-to-vendor tasks
+   */
+  async getDisposalTasks(params?: {
+    warehouseId?: string;
+    status?: ReturnDisposalTask['status'];
+    disposalType?: ReturnDisposalTask['disposalType'];
+  }): Promise<ReturnDisposalTask[]> {
+    const response = await apiClient.get<APIResponse<ReturnDisposalTask[]>>('/returns/disposal-tasks', params);
+    return response.data;
+  }
+
+  /**
+   * Complete a disposal task
+   */
+  async completeDisposalTask(
+    taskId: string,
+    data: { referenceNumber?: string; notes?: string }
+  ): Promise<ReturnDisposalTask> {
+    const response = await apiClient.post<APIResponse<ReturnDisposalTask>>(
+      `/returns/disposal-tasks/${taskId}/complete`,
+      data
+    );
+    return response.data;
+  }
+}
+
+export default new ReturnAuthorizationService();
@@ -0,0 +1,116 @@
+import apiClient from './api';
+import {
+  APIResponse,
+  PaginatedResponse,
+  SupplierClaim,
+  SupplierClaimOutstanding,
+  SupplierClaimStatus,
+} from '../types';
+
+// ==========================================
+// SUPPLIER CLAIM SERVICE
+// ==========================================
+
+export interface SupplierClaimQueryParams {
+  page?: number;
+  limit?: number;
+  warehouseId?: string;
+  supplierId?: string;
+  asnId?: string;
+  status?: SupplierClaimStatus;
+}
+
+export interface OutstandingClaimsReport {
+  data: SupplierClaimOutstanding[];
+  totals: {
+    outstandingClaims: number;
+    outstandingAmount: number;
+    draftAmount: number;
+  };
+}
+
+class SupplierClaimService {
+  /**
+   * Get supplier claims with filters
+   */
+  async getClaims(params?: SupplierClaimQueryParams): Promise<PaginatedResponse<SupplierClaim>> {
+    return await apiClient.get<PaginatedResponse<SupplierClaim>>('/supplier-claims', params);
+  }
+
+  /**
+   * Get outstanding claim value per supplier
+   */
+  async getOutstanding(warehouseId?: string): Promise<OutstandingClaimsReport> {
+    return await apiClient.get<OutstandingClaimsReport>('/supplier-claims/outstanding', { warehouseId });
+  }
+
+  /**
+   * Get supplier claim by ID with its lines
+   */
+  async getClaimById(id: string): Promise<SupplierClaim> {
+    const response = await apiClient.get<APIResponse<SupplierClaim>>(`/supplier-claims/${id}`);
+    return response.data;
+  }
+
+  /**
+   * Draft claims for approved variances not yet claimed
+   */
+  async generateClaims(warehouseId?: string): Promise<APIResponse<SupplierClaim[]>> {
+    return await apiClient.post<APIResponse<SupplierClaim[]>>('/supplier-claims/generate', { warehouseId });
+  }
+
+  /**
+   * Override a claim line's unit cost
+   */
+  async overrideLineCost(id: string, lineId: string, unitCost: number, reason: string): Promise<SupplierClaim> {
+    const response = await apiClient.patch<APIResponse<SupplierClaim>>(`/supplier-claims/${id}/lines/${lineId}`, {
+      unitCost,
+      reason,
+    });
+    return response.data;
+  }
+
+  /**
+   * Send a claim to the supplier
+   */
+  async send(id: string, notes?: string): Promise<SupplierClaim> {
+    const response = await apiClient.post<APIResponse<SupplierClaim>>(`/supplier-claims/${id}/send`, { notes });
+    return response.data;
+  }
+
+  /**
+   * Record the supplier's acknowledgement
+   */
+  async acknowledge(id: string): Promise<SupplierClaim> {
+    const response = await apiClient.post<APIResponse<SupplierClaim>>(`/supplier-claims/${id}/acknowledge`);
+    return response.data;
+  }
+
+  /**
+   * Record a supplier dispute
+   */
+  async dispute(id: string, reason: string): Promise<SupplierClaim> {
+    const response = await apiClient.post<APIResponse<SupplierClaim>>(`/supplier-claims/${id}/dispute`, { reason });
+    return response.data;
+  }
+
+  /**
+   * Record the supplier's credit
+   */
+  async credit(id: string, creditedAmount: number, creditReference?: string): Promise<SupplierClaim> {
+    const response = await apiClient.post<APIResponse<SupplierClaim>>(`/supplier-claims/${id}/credit`, {
+      creditedAmount,
+      creditReference,
+    });
+    return response.data;
+  }
+
+  /**
+   * Download a claim's debit note as PDF
+   */
+  async downloadDebitNote(id: string): Promise<Blob> {
+    return apiClient.download(`/supplier-claims/${id}/debit-note`);
+  }
+}
+
+export default new SupplierClaimService();
@@ -0,0 +1,77 @@
+import apiClient from './api';
+import {
+  APIResponse,
+  ScorecardWeights,
+  SupplierScorecard,
+  SupplierScorecardSummary,
+} from '../types';
+
+// ==========================================
+// SUPPLIER SCORECARD SERVICE
+// ==========================================
+
+export interface ScorecardQueryParams {
+  dateFrom?: string;
+  dateTo?: string;
+  warehouseId?: string;
+}
+
+class SupplierScorecardService {
+  /**
+   * Get scorecards for all suppliers
+   */
+  async getScorecards(params?: ScorecardQueryParams): Promise<SupplierScorecardSummary> {
+    const response = await apiClient.get<APIResponse<SupplierScorecardSummary>>(
+      '/supplier-scorecards',
+      params
+    );
+    return response.data;
+  }
+
+  /**
+   * Get one supplier's scorecard with weekly and monthly trends
+   */
+  async getSupplierScorecard(
+    supplierId: string,
+    params?: ScorecardQueryParams
+  ): Promise<SupplierScorecard> {
+    const response = await apiClient.get<APIResponse<SupplierScorecard>>(
+      `/supplier-scorecards/${supplierId}`,
+      params
+    );
+    return response.data;
+  }
+
+  /**
+   * Get composite score weights
+   */
+  async getConfig(): Promise<ScorecardWeights> {
+    const response = await apiClient.get<APIResponse<ScorecardWeights>>(
+      '/supplier-scorecards/config'
+    );
+    return response.data;
+  }
+
+  /**
+   * Update composite score weights
+   */
+  async updateConfig(data: Partial<ScorecardWeights>): Promise<ScorecardWeights> {
+    const response = await apiClient.put<APIResponse<ScorecardWeights>>(
+      '/supplier-scorecards/config',
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Export scorecards (or one supplier's trend) as CSV or PDF
+   */
+  async exportScorecards(
+    format: 'csv' | 'pdf',
+    params?: ScorecardQueryParams & { supplierId?: string }
+  ): Promise<Blob> {
+    return apiClient.download('/supplier-scorecards/export', { ...params, format });
+  }
+}
+
+export default new SupplierScorecardService();
@@ -0,0 +1,115 @@
+import apiClient from './api';
+import {
+  APIResponse,
+  ToleranceEvaluation,
+  ToleranceProfile,
+  ToleranceRules,
+  ToleranceScope,
+} from '../types';
+
+// ==========================================
+// TOLERANCE PROFILE SERVICE
+// ==========================================
+
+export interface ToleranceProfileInput extends Partial<ToleranceRules> {
+  name: string;
+  description?: string;
+  scope: ToleranceScope;
+  supplierId?: string;
+  skuCategory?: string;
+  skuId?: string;
+  isActive?: boolean;
+}
+
+export interface SimulateToleranceInput {
+  skuId: string;
+  supplierId?: string;
+  expectedQuantity: number;
+  receivedQuantity: number;
+}
+
+class ToleranceProfileService {
+  /**
+   * Get tolerance profiles
+   */
+  async getProfiles(params?: {
+    scope?: ToleranceScope;
+    supplierId?: string;
+    skuId?: string;
+    includeInactive?: boolean;
+  }): Promise<ToleranceProfile[]> {
+    const response = await apiClient.get<APIResponse<ToleranceProfile[]>>(
+      '/tolerance-profiles',
+      params
+    );
+    return response.data;
+  }
+
+  /**
+   * Get rules applied when no profile matches
+   */
+  async getDefaultRules(): Promise<ToleranceRules> {
+    const response = await apiClient.get<APIResponse<ToleranceRules>>(
+      '/tolerance-profiles/defaults'
+    );
+    return response.data;
+  }
+
+  /**
+   * Get tolerance profile by ID
+   */
+  async getProfileById(id: string): Promise<ToleranceProfile> {
+    const response = await apiClient.get<APIResponse<ToleranceProfile>>(
+      `/tolerance-profiles/${id}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Create tolerance profile
+   */
+  async createProfile(data: ToleranceProfileInput): Promise<ToleranceProfile> {
+    const response = await apiClient.post<APIResponse<ToleranceProfile>>(
+      '/tolerance-profiles',
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Update tolerance profile
+   */
+  async updateProfile(
+    id: string,
+    data: Partial<Omit<ToleranceProfileInput, 'scope' | 'supplierId' | 'skuCategory' | 'skuId'>>
+  ): Promise<ToleranceProfile> {
+    const response = await apiClient.patch<APIResponse<ToleranceProfile>>(
+      `/tolerance-profiles/${id}`,
+      data
+    );
+    return response.data;
+  }
+
+  /**
+   * Deactivate tolerance profile
+   */
+  async deactivateProfile(id: string): Promise<ToleranceProfile> {
+    const response = await apiClient.delete<APIResponse<ToleranceProfile>>(
+      `/tolerance-profiles/${id}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Preview how a received quantity would be treated
+   */
+  async simulate(data: SimulateToleranceInput): Promise<ToleranceEvaluation> {
+    const response = await apiClient.post<APIResponse<ToleranceEvaluation>>(
+      '/tolerance-profiles/simulate',
+      data
+    );
+    return response.data;
+  }
+}
+
+export default new ToleranceProfileService();
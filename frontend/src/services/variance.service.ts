@@ -7,6 +7,7 @@ import {
   APIResponse,
   PaginatedResponse,
   VarianceStatistics,
+  TemperatureExcursionReport,
 } from '../types';
 
 // ==========================================
@@ -45,6 +46,9 @@ export interface ResolveVarianceInput {
   resolutionAction: ResolutionAction;
   supervisorNotes?: string;
   adjustedQuantity?: number;
+  // Units to return to the supplier or write off
+  quantity?: number;
+  supplierId?: string;
 }
 
 export interface EscalateVarianceInput {
@@ -167,6 +171,21 @@ class VarianceService {
     return response.data;
   }
 
+  /**
+   * Get temperature excursions grouped by supplier and carrier
+   */
+  async getTemperatureExcursionReport(params?: {
+    warehouseId?: string;
+    dateFrom?: string;
+    dateTo?: string;
+  }): Promise<TemperatureExcursionReport> {
+    const response = await apiClient.get<APIResponse<TemperatureExcursionReport>>(
+      '/variances/reports/temperature-excursions',
+      params
+    );
+    return response.data;
+  }
+
   /**
    * Get variances by supplier
    */
@@ -0,0 +1,205 @@
+import apiClient from './api';
+import {
+  APIResponse,
+  PaginatedResponse,
+  ReceivingShift,
+  VarianceAnalyticsDimension,
+  VarianceAnalyticsMetric,
+  VarianceAnalyticsRow,
+  VariancePareto,
+  VarianceReport,
+  VarianceReportFilters,
+  VarianceStatus,
+  VarianceTrend,
+  VarianceTrendInterval,
+  VarianceType,
+} from '../types';
+
+// ==========================================
+// VARIANCE ANALYTICS SERVICE
+// ==========================================
+
+export interface VarianceAnalyticsQueryParams {
+  dateFrom?: string;
+  dateTo?: string;
+  periodDays?: number;
+  warehouseId?: string;
+  receiptType?: 'ASN' | 'BLIND';
+  varianceTypes?: VarianceType[];
+  statuses?: VarianceStatus[];
+}
+
+export interface VarianceReportInput {
+  name: string;
+  description?: string;
+  dimension: VarianceAnalyticsDimension;
+  metric?: VarianceAnalyticsMetric;
+  interval?: VarianceTrendInterval;
+  filters?: VarianceReportFilters;
+  isShared?: boolean;
+}
+
+export type VarianceAnalyticsView = 'pareto' | 'trends' | 'variances';
+
+// Lists are sent comma-separated
+const toQuery = (params?: VarianceAnalyticsQueryParams) => ({
+  ...params,
+  varianceTypes: params?.varianceTypes?.join(','),
+  statuses: params?.statuses?.join(','),
+});
+
+class VarianceAnalyticsService {
+  /**
+   * Get a Pareto breakdown of variances by one dimension
+   */
+  async getPareto(
+    dimension: VarianceAnalyticsDimension,
+    metric?: VarianceAnalyticsMetric,
+    params?: VarianceAnalyticsQueryParams
+  ): Promise<VariancePareto> {
+    const response = await apiClient.get<APIResponse<VariancePareto>>(
+      '/variance-analytics/pareto',
+      { ...toQuery(params), dimension, metric }
+    );
+    return response.data;
+  }
+
+  /**
+   * Get variance trends, optionally broken down by a dimension
+   */
+  async getTrends(
+    interval: VarianceTrendInterval,
+    params?: VarianceAnalyticsQueryParams & {
+      dimension?: VarianceAnalyticsDimension;
+      metric?: VarianceAnalyticsMetric;
+    }
+  ): Promise<VarianceTrend> {
+    const response = await apiClient.get<APIResponse<VarianceTrend>>(
+      '/variance-analytics/trends',
+      { ...toQuery(params), dimension: params?.dimension, metric: params?.metric, interval }
+    );
+    return response.data;
+  }
+
+  /**
+   * Get the variances behind one key of a breakdown
+   */
+  async getDrillDown(
+    dimension: VarianceAnalyticsDimension,
+    key: string,
+    params?: VarianceAnalyticsQueryParams & { page?: number; limit?: number }
+  ): Promise<PaginatedResponse<VarianceAnalyticsRow>> {
+    return await apiClient.get<PaginatedResponse<VarianceAnalyticsRow>>(
+      '/variance-analytics/variances',
+      { ...toQuery(params), page: params?.page, limit: params?.limit, dimension, key }
+    );
+  }
+
+  /**
+   * Export a breakdown, trend or variance list as CSV
+   */
+  async exportCsv(
+    view: VarianceAnalyticsView,
+    params?: VarianceAnalyticsQueryParams & {
+      dimension?: VarianceAnalyticsDimension;
+      metric?: VarianceAnalyticsMetric;
+      interval?: VarianceTrendInterval;
+      key?: string;
+    }
+  ): Promise<Blob> {
+    return apiClient.download('/variance-analytics/export', {
+      ...toQuery(params),
+      dimension: params?.dimension,
+      metric: params?.metric,
+      interval: params?.interval,
+      key: params?.key,
+      view,
+    });
+  }
+
+  /**
+   * Get receiving shifts
+   */
+  async getShifts(warehouseId?: string): Promise<ReceivingShift[]> {
+    const response = await apiClient.get<APIResponse<ReceivingShift[]>>(
+      '/variance-analytics/shifts',
+      { warehouseId }
+    );
+    return response.data;
+  }
+
+  /**
+   * Create a receiving shift
+   */
+  async createShift(
+    data: Omit<ReceivingShift, 'id' | 'timezone' | 'isActive'> & { timezone?: string; isActive?: boolean }
+  ): Promise<ReceivingShift> {
+    const response = await apiClient.post<APIResponse<ReceivingShift>>('/variance-analytics/shifts', data);
+    return response.data;
+  }
+
+  /**
+   * Update a receiving shift
+   */
+  async updateShift(id: string, data: Partial<ReceivingShift>): Promise<ReceivingShift> {
+    const response = await apiClient.put<APIResponse<ReceivingShift>>(`/variance-analytics/shifts/${id}`, data);
+    return response.data;
+  }
+
+  /**
+   * Delete a receiving shift
+   */
+  async deleteShift(id: string): Promise<void> {
+    await apiClient.delete(`/variance-analytics/shifts/${id}`);
+  }
+
+  /**
+   * Get own and shared saved reports
+   */
+  async getReports(): Promise<VarianceReport[]> {
+    const response = await apiClient.get<APIResponse<VarianceReport[]>>('/variance-analytics/reports');
+    return response.data;
+  }
+
+  /**
+   * Save a report definition
+   */
+  async createReport(data: VarianceReportInput): Promise<VarianceReport> {
+    const response = await apiClient.post<APIResponse<VarianceReport>>('/variance-analytics/reports', data);
+    return response.data;
+  }
+
+  /**
+   * Update a saved report definition
+   */
+  async updateReport(id: string, data: Partial<VarianceReportInput>): Promise<VarianceReport> {
+    const response = await apiClient.put<APIResponse<VarianceReport>>(`/variance-analytics/reports/${id}`, data);
+    return response.data;
+  }
+
+  /**
+   * Delete a saved report
+   */
+  async deleteReport(id: string): Promise<void> {
+    await apiClient.delete(`/variance-analytics/reports/${id}`);
+  }
+
+  /**
+   * Run a saved report
+   */
+  async runReport(id: string): Promise<{ report: VarianceReport; pareto: VariancePareto; trends: VarianceTrend }> {
+    const response = await apiClient.get<
+      APIResponse<{ report: VarianceReport; pareto: VariancePareto; trends: VarianceTrend }>
+    >(`/variance-analytics/reports/${id}/run`);
+    return response.data;
+  }
+
+  /**
+   * Export a saved report as CSV
+   */
+  async exportReport(id: string, view: VarianceAnalyticsView = 'pareto'): Promise<Blob> {
+    return apiClient.download(`/variance-analytics/reports/${id}/export`, { view });
+  }
+}
+
+export default new VarianceAnalyticsService();
@@ -0,0 +1,87 @@
+import apiClient from './api';
+import {
+  APIResponse,
+  LayoutImportSummary,
+  PickPathPreview,
+  PickPathStrategy,
+  TravelEstimate,
+  WarehouseLayout,
+} from '../types';
+
+// ==========================================
+// WAREHOUSE LAYOUT SERVICE
+// ==========================================
+
+export interface TravelEstimateInput {
+  fromLocationCode?: string;
+  locationCodes: string[];
+  quantity?: number;
+}
+
+class WarehouseLayoutService {
+  /**
+   * Get a warehouse's layout graph
+   */
+  async getLayout(warehouseId: string): Promise<WarehouseLayout> {
+    const response = await apiClient.get<APIResponse<WarehouseLayout>>(
+      `/warehouse-layouts/${warehouseId}`
+    );
+    return response.data;
+  }
+
+  /**
+   * Replace a warehouse's layout from a CSV or JSON document
+   */
+  async importLayout(
+    warehouseId: string,
+    format: 'CSV' | 'JSON',
+    document: string
+  ): Promise<LayoutImportSummary> {
+    const response = await apiClient.put<APIResponse<LayoutImportSummary>>(
+      `/warehouse-layouts/${warehouseId}`,
+      { format, document }
+    );
+    return response.data;
+  }
+
+  /**
+   * Estimate walking distance and duration through locations in order
+   */
+  async estimateTravel(warehouseId: string, input: TravelEstimateInput): Promise<TravelEstimate> {
+    const response = await apiClient.post<APIResponse<TravelEstimate>>(
+      `/warehouse-layouts/${warehouseId}/travel`,
+      input
+    );
+    return response.data;
+  }
+
+  /**
+   * Choose how pick tasks in a warehouse are routed
+   */
+  async setPickPathStrategy(
+    warehouseId: string,
+    pickPathStrategy: PickPathStrategy
+  ): Promise<{ id: string; code: string; pickPathStrategy: PickPathStrategy }> {
+    const response = await apiClient.put<
+      APIResponse<{ id: string; code: string; pickPathStrategy: PickPathStrategy }>
+    >(`/warehouse-layouts/${warehouseId}/pick-path-strategy`, { pickPathStrategy });
+    return response.data;
+  }
+
+  /**
+   * Plan a pick path through locations without creating a pick task
+   */
+  async previewPickPath(
+    warehouseId: string,
+    locationCodes: string[],
+    strategy?: PickPathStrategy
+  ): Promise<PickPathPreview> {
+    const response = await apiClient.post<APIResponse<PickPathPreview>>(
+      `/warehouse-layouts/${warehouseId}/pick-path/preview`,
+      { locationCodes, strategy }
+    );
+    return response.data;
+  }
+}
+
+export default new WarehouseLayoutService();
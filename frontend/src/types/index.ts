@@ -95,6 +95,7 @@ export interface ASNLine {
   photoEvidenceUrls: string[];
   qaHold: boolean;
   temperatureReading?: number;
+  purchaseOrderLineId?: string;
   createdAt: string;
   updatedAt: string;
   receivedAt?: string;
@@ -106,6 +107,7 @@ export interface ASN {
   warehouseId: string;
   asnNumber: string;
   poNumber?: string;
+  purchaseOrderId?: string;
   supplierId: string;
   supplierName: string;
   carrier?: string;
@@ -131,6 +133,182 @@ export interface ASN {
   lines?: ASNLine[];
 }
 
+// ==========================================
+// GS1 BARCODE TYPES
+// ==========================================
+
+export interface GS1Element {
+  ai: string;
+  label: string;
+  raw: string;
+  value: string | number;
+}
+
+export interface GS1ParseError {
+  ai?: string;
+  position: number;
+  message: string;
+}
+
+export interface GS1ParseResult {
+  raw: string;
+  elements: GS1Element[];
+  sscc?: string;
+  gtin?: string;
+  contentGtin?: string;
+  batchNumber?: string;
+  productionDate?: string;
+  expiryDate?: string;
+  serialNumber?: string;
+  netWeightKg?: number;
+  count?: number;
+  errors: GS1ParseError[];
+  valid: boolean;
+}
+
+// ==========================================
+// ASN IMPORT (EDI) TYPES
+// ==========================================
+
+export type EDIFormat = 'X12_856' | 'EDIFACT_DESADV';
+
+export type ASNImportStatus = 'STAGED' | 'COMMITTING' | 'COMMITTED' | 'FAILED' | 'DISCARDED';
+
+export interface EDISegmentIssue {
+  segmentIndex: number;
+  segmentId: string;
+  element?: number;
+  severity: 'ERROR' | 'WARNING';
+  message: string;
+}
+
+export interface StagedImportLine {
+  lineIndex: number;
+  segmentIndex: number;
+  lineNumber: number;
+  poNumber?: string;
+  packId?: string;
+  supplierItemCode?: string;
+  buyerItemCode?: string;
+  gtin?: string;
+  description?: string;
+  quantity?: number;
+  uom?: string;
+  batchNumber?: string;
+  expiryDate?: string;
+  serialNumbers: string[];
+  skuId?: string;
+  skuCode?: string;
+  productName?: string;
+  matchedBy?: 'SUPPLIER_ITEM' | 'GTIN' | 'SKU_CODE' | 'MANUAL';
+  errors: string[];
+  excluded: boolean;
+}
+
+export interface StagedImportShipment {
+  shipmentIndex: number;
+  segmentIndex: number;
+  shipmentId?: string;
+  supplierId?: string;
+  supplierCode?: string;
+  supplierName?: string;
+  carrier?: string;
+  trackingNumber?: string;
+  shipDate?: string;
+  expectedArrivalDate?: string;
+  poNumbers: string[];
+  errors: string[];
+  asnId?: string;
+  lines: StagedImportLine[];
+}
+
+export interface ASNImport {
+  id: string;
+  tenantId: string;
+  warehouseId: string;
+  format: EDIFormat;
+  fileName?: string;
+  controlNumber?: string;
+  senderId?: string;
+  supplierId?: string;
+  status: ASNImportStatus;
+  stagedData: StagedImportShipment[];
+  errors: EDISegmentIssue[];
+  errorCount: number;
+  warningCount: number;
+  asnIds: string[];
+  importedById: string;
+  committedById?: string;
+  committedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ==========================================
+// DOCK SCHEDULING TYPES
+// ==========================================
+
+export type DockDoorType = 'INBOUND' | 'OUTBOUND' | 'MIXED';
+
+export type AppointmentStatus =
+  | 'SCHEDULED'
+  | 'CHECKED_IN'
+  | 'COMPLETED'
+  | 'CANCELLED'
+  | 'NO_SHOW';
+
+export type OperatingHours = Partial<
+  Record<'sun' | 'mon' | 'tue' | 'wed' | 'thu' | 'fri' | 'sat', { open: string; close: string }>
+>;
+
+export interface DockDoor {
+  id: string;
+  tenantId: string;
+  warehouseId: string;
+  code: string;
+  name: string;
+  doorType: DockDoorType;
+  slotDurationMinutes: number;
+  slotCapacity: number;
+  operatingHours?: OperatingHours | null;
+  timezone: string;
+  temperatureControlled: boolean;
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DockSlot {
+  start: string;
+  end: string;
+  booked: number;
+  capacity: number;
+  available: boolean;
+}
+
+export interface DockAppointment {
+  id: string;
+  tenantId: string;
+  warehouseId: string;
+  dockDoorId: string;
+  asnId: string;
+  appointmentNumber: string;
+  scheduledStart: string;
+  scheduledEnd: string;
+  status: AppointmentStatus;
+  carrier?: string;
+  trailerNumber?: string;
+  driverName?: string;
+  notes?: string;
+  rescheduleCount: number;
+  checkedInAt?: string;
+  checkedOutAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  dockDoor?: Pick<DockDoor, 'id' | 'code' | 'name'>;
+  asn?: Pick<ASN, 'id' | 'asnNumber' | 'poNumber' | 'supplierName' | 'shipmentStatus' | 'totalExpectedUnits'>;
+}
+
 // ==========================================
 // BLIND RECEIPT TYPES
 // ==========================================
@@ -165,6 +343,10 @@ export interface BlindReceiptLine {
   photoEvidenceUrls: string[];
   receiverNotes?: string;
   supervisorNotes?: string;
+  purchaseOrderLineId?: string;
+  isNewItem: boolean;
+  weightKg?: number;
+  dimensions?: ItemDimensions;
   createdAt: string;
   updatedAt: string;
 }
@@ -216,7 +398,8 @@ export type ResolutionAction =
   | 'ADJUST_QUANTITY'
   | 'REJECT_LINE'
   | 'ESCALATE'
-  | 'RETURN_TO_SUPPLIER';
+  | 'RETURN_TO_SUPPLIER'
+  | 'WRITE_OFF';
 
 export interface Variance {
   id: string;
@@ -241,9 +424,13 @@ export interface Variance {
   receiverNotes?: string;
   photoEvidenceUrls: string[];
   temperatureReading?: number;
+  temperatureLimitMin?: number;
+  temperatureLimitMax?: number;
   batchNumber?: string;
   expiryDate?: string;
   conditionAssessment: ItemCondition;
+  approvalLevel: ApprovalLevel;
+  toleranceProfileId?: string;
   status: VarianceStatus;
   priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
   submittedById: string;
@@ -251,10 +438,706 @@ export interface Variance {
   reviewedById?: string;
   reviewedAt?: string;
   resolutionAction?: ResolutionAction;
+  // Resolution approved at the first step of a multi-step approval chain
+  proposedResolution?: {
+    approvalRequestId: string;
+    action: ResolutionAction;
+    adjustedQuantity: number | null;
+    quantity: number | null;
+    supplierId: string | null;
+    proposedById: string;
+  };
   supervisorNotes?: string;
   escalatedToId?: string;
   escalatedAt?: string;
   resolvedAt?: string;
+  slaDueAt?: string;
+  slaWarnedAt?: string;
+  slaBreachedAt?: string;
+  slaEscalationCount?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// ==========================================
+// TOLERANCE PROFILE TYPES
+// ==========================================
+
+export type ToleranceScope = 'TENANT' | 'SUPPLIER' | 'SKU_CATEGORY' | 'SKU';
+
+export type ApprovalLevel = 'SUPERVISOR' | 'MANAGER';
+
+export interface ToleranceRules {
+  autoAcceptOverPercent: number;
+  autoAcceptUnderPercent: number;
+  autoAcceptQuantity?: number | null;
+  autoAcceptValue?: number | null;
+  overTolerancePercent: number;
+  underTolerancePercent: number;
+  toleranceQuantity?: number | null;
+  toleranceValue?: number | null;
+  criticalPercent: number;
+  criticalValue: number;
+}
+
+export interface ToleranceProfile extends ToleranceRules {
+  id: string;
+  tenantId: string;
+  name: string;
+  description?: string;
+  scope: ToleranceScope;
+  supplierId?: string;
+  skuCategory?: string;
+  skuId?: string;
+  isActive: boolean;
+  supplier?: { id: string; code: string; name: string };
+  sku?: { id: string; code: string; name: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ToleranceEvaluation {
+  outcome: 'AUTO_ACCEPT' | 'SUPERVISOR' | 'MANAGER';
+  approvalLevel: ApprovalLevel | null;
+  priority: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  varianceQuantity: number;
+  variancePercentage: number;
+  varianceValue: number;
+  profileId: string | null;
+  profileName: string;
+  reasons: string[];
+  rules: ToleranceRules & { profileId: string | null; profileName: string; scope: ToleranceScope | 'DEFAULT' };
+}
+
+// ==========================================
+// SUPPLIER SCORECARD TYPES
+// ==========================================
+
+export interface ScorecardWeights {
+  onTimeWeight: number;
+  fillRateWeight: number;
+  damageWeight: number;
+  wrongItemWeight: number;
+  temperatureWeight: number;
+  labellingWeight: number;
+  onTimeGraceHours: number;
+}
+
+export interface SupplierMetrics {
+  asnCount: number;
+  arrivedCount: number;
+  onTimeCount: number;
+  lateCount: number;
+  onTimeRate: number | null;
+  expectedUnits: number;
+  receivedUnits: number;
+  fillRate: number | null;
+  linesReceived: number;
+  damagedLines: number;
+  wrongItemLines: number;
+  temperatureViolations: number;
+  missingLabelLines: number;
+  damageRate: number | null;
+  wrongItemRate: number | null;
+  temperatureViolationRate: number | null;
+  labellingComplianceRate: number | null;
+  compositeScore: number | null;
+}
+
+export interface ScorecardTrendPoint extends SupplierMetrics {
+  period: string;
+  periodStart: string;
+}
+
+export interface ScorecardPeriod {
+  dateFrom: string;
+  dateTo: string;
+}
+
+export interface SupplierScorecardSummary {
+  period: ScorecardPeriod;
+  weights: ScorecardWeights;
+  data: {
+    supplier: { id: string; code: string; name: string };
+    metrics: SupplierMetrics;
+  }[];
+}
+
+export interface SupplierScorecard {
+  supplier: { id: string; code: string; name: string; contactName?: string; contactEmail?: string };
+  period: ScorecardPeriod;
+  weights: ScorecardWeights;
+  metrics: SupplierMetrics;
+  trends: {
+    weekly: ScorecardTrendPoint[];
+    monthly: ScorecardTrendPoint[];
+  };
+}
+
+// ==========================================
+// PURCHASE ORDER TYPES
+// ==========================================
+
+export type PurchaseOrderStatus =
+  | 'DRAFT'
+  | 'OPEN'
+  | 'PARTIALLY_RECEIVED'
+  | 'CLOSED'
+  | 'SHORT_CLOSED'
+  | 'CANCELLED';
+
+export type PurchaseOrderLineStatus =
+  | 'OPEN'
+  | 'PARTIALLY_RECEIVED'
+  | 'RECEIVED'
+  | 'SHORT_CLOSED'
+  | 'CANCELLED';
+
+export interface PurchaseOrderLine {
+  id: string;
+  purchaseOrderId: string;
+  lineNumber: number;
+  skuId: string;
+  skuCode: string;
+  productName: string;
+  orderedQuantity: number;
+  receivedQuantity: number;
+  openQuantity?: number;
+  uom: string;
+  unitCost?: number;
+  status: PurchaseOrderLineStatus;
+  asnLines?: (Pick<ASNLine, 'id' | 'asnId' | 'lineNumber' | 'expectedQuantity' | 'receivedQuantity' | 'lineStatus'> & {
+    asn: Pick<ASN, 'asnNumber' | 'shipmentStatus'>;
+  })[];
+  blindReceiptLines?: (Pick<BlindReceiptLine, 'id' | 'blindReceiptId' | 'quantityReceived' | 'lineStatus'> & {
+    blindReceipt: Pick<BlindReceipt, 'receiptNumber' | 'status'>;
+  })[];
+}
+
+export interface PurchaseOrder {
+  id: string;
+  tenantId: string;
+  warehouseId: string;
+  poNumber: string;
+  supplierId: string;
+  supplier?: { id: string; code: string; name: string };
+  status: PurchaseOrderStatus;
+  orderDate: string;
+  expectedDeliveryDate?: string;
+  currency: string;
+  overReceiptTolerancePercent: number;
+  totalOrderedQuantity: number;
+  totalReceivedQuantity: number;
+  notes?: string;
+  closedAt?: string;
+  closeReason?: string;
+  createdAt: string;
+  updatedAt: string;
+  lines?: PurchaseOrderLine[];
+  asns?: Pick<
+    ASN,
+    'id' | 'asnNumber' | 'shipmentStatus' | 'expectedArrivalDate' | 'actualArrivalDate' | 'totalExpectedUnits' | 'totalReceivedUnits'
+  >[];
+  _count?: { lines: number; asns: number };
+}
+
+// ==========================================
+// QA INSPECTION TYPES
+// ==========================================
+
+export type QAPlanScope = 'TENANT' | 'SUPPLIER' | 'SKU';
+
+export type QAInspectionStatus = 'PENDING' | 'IN_PROGRESS' | 'COMPLETED' | 'CANCELLED';
+
+export type QAInspectionResult = 'PASS' | 'FAIL' | 'CONDITIONAL';
+
+export interface SamplingRule {
+  maxLotSize: number | null;
+  sampleSize: number;
+  acceptNumber: number;
+  rejectNumber?: number;
+}
+
+export interface ChecklistItem {
+  code: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface ChecklistResult {
+  code: string;
+  passed: boolean;
+  notes?: string;
+}
+
+export interface QAInspectionPlan {
+  id: string;
+  tenantId: string;
+  name: string;
+  description?: string;
+  scope: QAPlanScope;
+  supplierId?: string;
+  skuId?: string;
+  aqlLevel: number;
+  samplingRules: SamplingRule[];
+  checklist: ChecklistItem[];
+  requirePhotos: boolean;
+  isActive: boolean;
+  supplier?: { id: string; code: string; name: string };
+  sku?: { id: string; code: string; name: string };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface QAInspection {
+  id: string;
+  tenantId: string;
+  warehouseId: string;
+  inspectionNumber: string;
+  planId?: string;
+  receiptType: 'ASN' | 'BLIND';
+  asnId?: string;
+  blindReceiptId?: string;
+  receiptLineId: string;
+  skuId?: string;
+  skuCode: string;
+  productName: string;
+  supplierId?: string;
+  batchNumber?: string;
+  lotSize: number;
+  sampleSize: number;
+  acceptNumber: number;
+  rejectNumber: number;
+  aqlLevel?: number;
+  checklist: ChecklistItem[];
+  requirePhotos: boolean;
+  status: QAInspectionStatus;
+  result?: QAInspectionResult;
+  quantityInspected?: number;
+  defectsFound?: number;
+  checklistResults?: ChecklistResult[];
+  photoUrls: string[];
+  releasedQuantity?: number;
+  rejectedQuantity?: number;
+  releaseConditions?: string;
+  notes?: string;
+  varianceId?: string;
+  assignedToId?: string;
+  inspectedById?: string;
+  startedAt?: string;
+  completedAt?: string;
+  createdAt: string;
+  plan?: { id: string; name: string; scope: QAPlanScope };
+  asn?: { id: string; asnNumber: string };
+  blindReceipt?: { id: string; receiptNumber: string };
+  supplier?: { id: string; code: string; name: string };
+  variance?: { id: string; status: VarianceStatus; varianceQuantity: number };
+  assignedTo?: { id: string; firstName: string; lastName: string };
+  inspectedBy?: { id: string; firstName: string; lastName: string };
+}
+
+// ==========================================
+// NEW SKU ONBOARDING TYPES
+// ==========================================
+
+export type NewSkuRequestStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface ItemDimensions {
+  lengthCm: number;
+  widthCm: number;
+  heightCm: number;
+}
+
+export interface SkuDraft {
+  code?: string;
+  name?: string;
+  description?: string;
+  category?: string;
+  gtin?: string;
+  uom?: string;
+  requiresBatchTracking?: boolean;
+  requiresExpiryTracking?: boolean;
+  requiresSerialTracking?: boolean;
+  isPerishable?: boolean;
+  temperatureControlled?: boolean;
+  temperatureMin?: number;
+  temperatureMax?: number;
+  isHazmat?: boolean;
+  hazardClass?: string;
+  unitCost?: number;
+  weightKg?: number;
+  dimensions?: ItemDimensions;
+  imageUrl?: string;
+}
+
+export interface NewSkuRequest {
+  id: string;
+  tenantId: string;
+  warehouseId: string;
+  requestNumber: string;
+  blindReceiptId: string;
+  blindReceiptLineId: string;
+  status: NewSkuRequestStatus;
+  proposedCode: string;
+  description: string;
+  uom: string;
+  photoUrls: string[];
+  weightKg?: number;
+  dimensions?: ItemDimensions;
+  estimatedUnitCost?: number;
+  receiverNotes?: string;
+  skuDraft?: SkuDraft;
+  skuId?: string;
+  reviewedById?: string;
+  reviewedAt?: string;
+  rejectionReason?: string;
+  createdAt: string;
+  updatedAt: string;
+  blindReceipt?: { id: string; receiptNumber: string; supplierName: string; status: BlindReceiptStatus };
+  blindReceiptLine?: { id: string; lineNumber: number; quantityReceived: number; lineStatus: LineStatus };
+  sku?: { id: string; code: string; name: string };
+  reviewedBy?: { id: string; firstName: string; lastName: string };
+}
+
+// ==========================================
+// RETURNS (RMA) TYPES
+// ==========================================
+
+export type ReturnStatus = 'AUTHORIZED' | 'RECEIVING' | 'RECEIVED' | 'CLOSED' | 'CANCELLED';
+
+export type ReturnLineStatus = 'PENDING' | 'PARTIALLY_RECEIVED' | 'RECEIVED' | 'CANCELLED';
+
+export type ReturnGrade = 'RESTOCK' | 'REFURBISH' | 'QUARANTINE' | 'SCRAP' | 'RETURN_TO_VENDOR';
+
+export type ReturnDispositionStatus = 'PENDING_GRADING' | 'TASK_CREATED' | 'COMPLETED';
+
+export interface ReturnUnit {
+  id: string;
+  returnAuthorizationId: string;
+  returnLineId: string;
+  quantity: number;
+  serialNumber?: string;
+  batchNumber?: string;
+  expiryDate?: string;
+  lpn?: string;
+  condition: ItemCondition;
+  grade?: ReturnGrade;
+  gradingNotes?: string;
+  photoEvidenceUrls: string[];
+  dispositionStatus: ReturnDispositionStatus;
+  putawayTaskId?: string;
+  disposalTaskId?: string;
+  putawayTask?: { id: string; taskNumber: string; status: string; destinationLocationCode?: string };
+  disposalTask?: { id: string; taskNumber: string; status: string };
+  receivedAt: string;
+  gradedAt?: string;
+}
+
+export interface ReturnAuthorizationLine {
+  id: string;
+  returnAuthorizationId: string;
+  lineNumber: number;
+  orderLineId: string;
+  productId: string;
+  skuId?: string;
+  skuCode: string;
+  productName: string;
+  quantityAuthorized: number;
+  quantityReceived: number;
+  batchNumber?: string;
+  serialNumbers: string[];
+  reasonCode: string;
+  status: ReturnLineStatus;
+  units?: ReturnUnit[];
+}
+
+export interface ReturnAuthorization {
+  id: string;
+  tenantId: string;
+  warehouseId: string;
+  rmaNumber: string;
+  orderId: string;
+  shipmentId?: string;
+  customerId: string;
+  status: ReturnStatus;
+  returnReason: string;
+  customerNotes?: string;
+  carrier?: string;
+  trackingNumber?: string;
+  expiresAt?: string;
+  totalAuthorizedUnits: number;
+  totalReceivedUnits: number;
+  receivingLocationId?: string;
+  receivedAt?: string;
+  closedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+  order?: { id: string; orderNumber: string; status?: string };
+  customer?: { id: string; code: string; name: string };
+  lines?: ReturnAuthorizationLine[];
+  _count?: { lines: number; units: number };
+}
+
+export interface ReturnDisposalTask {
+  id: string;
+  taskNumber: string;
+  disposalType: Extract<ReturnGrade, 'SCRAP' | 'RETURN_TO_VENDOR'>;
+  status: 'PENDING' | 'COMPLETED' | 'CANCELLED';
+  supplier?: { id: string; code: string; name: string };
+  skuCode: string;
+  productName: string;
+  quantity: number;
+  batchNumber?: string;
+  serialNumbers: string[];
+  referenceNumber?: string;
+  notes?: string;
+  completedAt?: string;
+  createdAt: string;
+}
+
+// ==========================================
+// ATTACHMENT TYPES
+// ==========================================
+
+export type AttachmentEntityType =
+  | 'ASN'
+  | 'ASN_LINE'
+  | 'BLIND_RECEIPT'
+  | 'BLIND_RECEIPT_LINE'
+  | 'VARIANCE'
+  | 'RETURN_AUTHORIZATION'
+  | 'RETURN_LINE'
+  | 'QA_INSPECTION'
+  | 'NEW_SKU_REQUEST'
+  | 'PURCHASE_ORDER';
+
+export interface Attachment {
+  id: string;
+  tenantId: string;
+  storageDriver: 'LOCAL' | 'S3';
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  checksum: string;
+  width?: number;
+  height?: number;
+  uploadedById?: string;
+  createdAt: string;
+  // Signed URLs; request the attachment again once they expire
+  url: string;
+  thumbnailUrl: string | null;
+  urlExpiresAt: string;
+}
+
+// ==========================================
+// GOODS RECEIVED NOTE TYPES
+// ==========================================
+
+export interface GoodsReceivedNote {
+  id: string;
+  grnNumber: string;
+  version: number;
+  receiptType: 'ASN' | 'BLIND';
+  asnId?: string;
+  blindReceiptId?: string;
+  content: {
+    receipt: {
+      type: 'ASN' | 'BLIND';
+      number: string;
+      poNumber: string | null;
+      supplierName: string;
+      warehouse: string;
+      completedAt: string | null;
+    };
+    lines: Array<{
+      lineNumber: number;
+      skuCode: string;
+      productName: string;
+      uom: string;
+      expectedQuantity: number | null;
+      receivedQuantity: number;
+      acceptedQuantity: number;
+      rejectedQuantity: number;
+      batchNumber: string | null;
+      expiryDate: string | null;
+      lpn: string | null;
+    }>;
+    totals: {
+      lines: number;
+      expectedUnits: number | null;
+      receivedUnits: number;
+      acceptedUnits: number;
+      rejectedUnits: number;
+      openVariances: number;
+    };
+  };
+  contentHash: string;
+  amendmentReason?: string;
+  issuedById?: string;
+  issuedAt: string;
+}
+
+// ==========================================
+// SUPPLIER CLAIM TYPES
+// ==========================================
+
+export type SupplierClaimStatus = 'DRAFT' | 'SENT' | 'ACKNOWLEDGED' | 'CREDITED' | 'DISPUTED';
+
+export interface SupplierClaimLine {
+  id: string;
+  claimId: string;
+  varianceId: string;
+  skuId?: string;
+  skuCode: string;
+  productName: string;
+  varianceType: VarianceType;
+  quantity: number;
+  unitCost: number;
+  unitCostOverridden: boolean;
+  overrideReason?: string;
+  amount: number;
+}
+
+export interface SupplierClaim {
+  id: string;
+  tenantId: string;
+  warehouseId: string;
+  claimNumber: string;
+  supplierId: string;
+  asnId: string;
+  draftAsnId?: string;
+  status: SupplierClaimStatus;
+  totalAmount: number;
+  debitNoteNumber?: string;
+  creditedAmount?: number;
+  creditReference?: string;
+  disputeReason?: string;
+  notes?: string;
+  createdAt: string;
+  sentAt?: string;
+  acknowledgedAt?: string;
+  disputedAt?: string;
+  creditedAt?: string;
+  supplier?: { id: string; code: string; name: string };
+  asn?: { id: string; asnNumber: string; poNumber?: string };
+  lines?: SupplierClaimLine[];
+  _count?: { lines: number };
+}
+
+export interface SupplierClaimOutstanding {
+  supplier: { id: string; code: string; name: string };
+  outstandingClaims: number;
+  outstandingAmount: number;
+  byStatus: Partial<Record<SupplierClaimStatus, { count: number; amount: number }>>;
+  oldestSentAt: string | null;
+  oldestAgeDays: number | null;
+  draftClaims: number;
+  draftAmount: number;
+}
+
+// ==========================================
+// VARIANCE ANALYTICS TYPES
+// ==========================================
+
+export type VarianceAnalyticsDimension =
+  | 'REASON_CODE'
+  | 'VARIANCE_TYPE'
+  | 'SKU'
+  | 'SUPPLIER'
+  | 'CARRIER'
+  | 'RECEIVER'
+  | 'SHIFT';
+
+export type VarianceAnalyticsMetric = 'COUNT' | 'QUANTITY' | 'VALUE';
+
+export type VarianceTrendInterval = 'DAY' | 'WEEK' | 'MONTH';
+
+export interface VarianceParetoRow {
+  key: string;
+  label: string;
+  count: number;
+  quantity: number;
+  value: number;
+  share: number;
+  cumulativeShare: number;
+  vitalFew: boolean;
+}
+
+export interface VariancePareto {
+  period: ScorecardPeriod;
+  dimension: VarianceAnalyticsDimension;
+  metric: VarianceAnalyticsMetric;
+  totals: { count: number; quantity: number; value: number };
+  data: VarianceParetoRow[];
+}
+
+export interface VarianceTrendPoint {
+  period: string;
+  periodStart: string;
+  count: number;
+  quantity: number;
+  value: number;
+  breakdown?: Record<string, number>;
+}
+
+export interface VarianceTrend {
+  period: ScorecardPeriod;
+  interval: VarianceTrendInterval;
+  dimension: VarianceAnalyticsDimension | null;
+  metric: VarianceAnalyticsMetric;
+  data: VarianceTrendPoint[];
+}
+
+export interface VarianceAnalyticsRow {
+  id: string;
+  submittedAt: string;
+  receiptType: 'ASN' | 'BLIND';
+  receiptNumber: string | null;
+  skuCode: string;
+  productName: string;
+  varianceType: VarianceType;
+  reasonCode: string;
+  quantity: number;
+  value: number;
+  status: VarianceStatus;
+  priority: string;
+  supplier: string;
+  carrier: string;
+  receiver: string;
+  shift: string;
+}
+
+export interface ReceivingShift {
+  id: string;
+  warehouseId?: string | null;
+  name: string;
+  startTime: string;
+  endTime: string;
+  timezone: string;
+  isActive: boolean;
+}
+
+export interface VarianceReportFilters {
+  warehouseId?: string;
+  receiptType?: 'ASN' | 'BLIND';
+  varianceTypes?: VarianceType[];
+  statuses?: VarianceStatus[];
+  periodDays?: number;
+  dateFrom?: string;
+  dateTo?: string;
+}
+
+export interface VarianceReport {
+  id: string;
+  name: string;
+  description?: string;
+  dimension: VarianceAnalyticsDimension;
+  metric: VarianceAnalyticsMetric;
+  interval: VarianceTrendInterval;
+  filters: VarianceReportFilters;
+  isShared: boolean;
+  createdById: string;
+  createdBy?: { id: string; firstName: string; lastName: string };
   createdAt: string;
   updatedAt: string;
 }
@@ -276,10 +1159,11 @@ export interface PutawayTask {
   tenantId: string;
   warehouseId: string;
   taskNumber: string;
-  receiptType: 'ASN' | 'BLIND';
+  receiptType: 'ASN' | 'BLIND' | 'RETURN';
   receiptId?: string;
   receiptLineId?: string;
   taskType: 'STANDARD' | 'BATCH' | 'BULK';
+  equipmentType: PutawayEquipmentType;
   status: PutawayStatus;
   priority: 'LOW' | 'NORMAL' | 'HIGH' | 'URGENT';
   operatorUserId?: string;
@@ -288,6 +1172,8 @@ export interface PutawayTask {
   productName: string;
   quantityToPutaway: number;
   quantityConfirmed: number;
+  weightKg?: number;
+  volumeM3?: number;
   batchNumber?: string;
   expiryDate?: string;
   lpn?: string;
@@ -298,6 +1184,8 @@ export interface PutawayTask {
   destinationLocationCode?: string;
   destinationZoneId?: string;
   putawayStrategy: string;
+  putawayExplanation?: PutawayExplanation;
+  inventoryStatus: 'AVAILABLE' | 'ALLOCATED' | 'DAMAGED' | 'ON_HOLD' | 'QUARANTINE';
   estimatedDurationMinutes?: number;
   actualDurationMinutes?: number;
   distanceMeters?: number;
@@ -306,6 +1194,327 @@ export interface PutawayTask {
   startedAt?: string;
   completedAt?: string;
   operatorNotes?: string;
+  remainderOfTaskId?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PutawayStrategyType =
+  | 'HAZMAT_ZONE'
+  | 'TEMPERATURE_ZONE'
+  | 'FEFO'
+  | 'FIFO'
+  | 'PICK_FACE'
+  | 'CONSOLIDATION'
+  | 'BULK_STORAGE'
+  | 'GENERAL_STORAGE';
+
+export type ZoneType =
+  | 'RECEIVING'
+  | 'STORAGE'
+  | 'PICK_FACE'
+  | 'RESERVE'
+  | 'PACKING'
+  | 'SHIPPING'
+  | 'HAZMAT'
+  | 'REFRIGERATED'
+  | 'FROZEN'
+  | 'QUARANTINE'
+  | 'RETURNS';
+
+export type LocationType =
+  | 'DOCK'
+  | 'STAGING'
+  | 'STORAGE'
+  | 'PICK_FACE'
+  | 'RESERVE'
+  | 'PACKING_STATION'
+  | 'SHIPPING_DOCK';
+
+export interface PutawayRule {
+  id: string;
+  tenantId: string;
+  warehouseId?: string | null;
+  name: string;
+  description?: string;
+  priority: number;
+  skuIds: string[];
+  skuCategories: string[];
+  abcClasses: string[];
+  velocities: string[];
+  hazardClasses: string[];
+  isHazmat?: boolean | null;
+  temperatureControlled?: boolean | null;
+  isPerishable?: boolean | null;
+  requiresBatchTracking?: boolean | null;
+  zoneTypes: ZoneType[];
+  locationTypes: LocationType[];
+  refrigerated?: boolean | null;
+  hazmatCertified?: boolean | null;
+  minHeightLevel?: number | null;
+  maxHeightLevel?: number | null;
+  strategies: PutawayStrategyType[];
+  excludedZoneTypes: ZoneType[];
+  excludedZoneIds: string[];
+  excludedLocationIds: string[];
+  isActive: boolean;
+  warehouse?: { id: string; code: string; name: string } | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PutawayRuleEvaluation {
+  ruleId: string | null;
+  ruleName: string;
+  matched: boolean;
+  reason: string;
+  attempts: Array<{
+    strategy: PutawayStrategyType;
+    outcome: 'SELECTED' | 'NO_LOCATION' | 'SKIPPED';
+    reason?: string;
+  }>;
+}
+
+export interface BinLoad {
+  units: number;
+  weightKg: number | null;
+  volumeM3: number | null;
+  heightCm: number | null;
+}
+
+export interface BinRejection {
+  locationId: string;
+  locationCode: string;
+  reasons: string[];
+}
+
+export interface PutawayExplanation {
+  source: 'RULE' | 'DEFAULT' | 'ZONE_RESTRICTION';
+  ruleId: string | null;
+  ruleName: string | null;
+  strategy: PutawayStrategyType | null;
+  summary: string;
+  load: BinLoad;
+  location: {
+    id: string;
+    code: string;
+    zoneId: string;
+    zoneCode: string;
+    zoneType: ZoneType;
+    capacityUsed: number;
+    maxCapacity: number;
+    weightKg: number;
+    maxWeightKg: number | null;
+    volumeM3: number;
+    maxVolumeM3: number | null;
+    maxHeightCm: number | null;
+  } | null;
+  rules: PutawayRuleEvaluation[];
+  rejections: BinRejection[];
+  evaluatedAt: string;
+}
+
+export interface PutawaySimulationResult {
+  warehouseId: string;
+  placed: number;
+  unplaced: number;
+  items: Array<{
+    skuId: string;
+    skuCode: string;
+    quantity: number;
+    destinationLocationId: string | null;
+    destinationLocationCode: string | null;
+    destinationZoneId: string | null;
+    putawayStrategy: string | null;
+    explanation: PutawayExplanation;
+  }>;
+}
+
+export type PutawayOverrideReason =
+  | 'LOCATION_BLOCKED'
+  | 'LOCATION_FULL'
+  | 'LOCATION_DAMAGED'
+  | 'LABEL_MISMATCH'
+  | 'CLOSER_LOCATION'
+  | 'OTHER';
+
+export interface PutawayOverride {
+  locationCode: string;
+  reasonCode: PutawayOverrideReason;
+  notes?: string;
+}
+
+export interface PutawayOverrideCheck {
+  valid: boolean;
+  location: { id: string; code: string; zoneCode: string; zoneType: ZoneType } | null;
+  reasons: string[];
+}
+
+export interface PutawayOverrideReport {
+  groupBy: 'location' | 'operator';
+  totalCompleted: number;
+  totalOverrides: number;
+  overrideRate: number;
+  byReason: Partial<Record<PutawayOverrideReason, number>>;
+  rows: Array<{
+    id: string;
+    label: string;
+    completedTasks: number;
+    overrides: number;
+    overrideRate: number;
+    reasons: Partial<Record<PutawayOverrideReason, number>>;
+  }>;
+}
+
+export type LayoutNodeType = 'AISLE' | 'CROSS_AISLE' | 'DOCK' | 'STAGING';
+
+export type LayoutEdgeType = 'AISLE' | 'CROSS_AISLE';
+
+export type PickPathStrategy = 'S_SHAPE' | 'RETURN' | 'LARGEST_GAP' | 'NEAREST_NEIGHBOR_2OPT';
+
+export interface LayoutNode {
+  id: string;
+  code: string;
+  nodeType: LayoutNodeType;
+  xMeters: number;
+  yMeters: number;
+  zMeters: number;
+}
+
+export interface LayoutEdge {
+  id: string;
+  fromNodeId: string;
+  toNodeId: string;
+  edgeType: LayoutEdgeType;
+  aisleCode?: string;
+  lengthMeters: number;
+  oneWay: boolean;
+  fromNode: { code: string };
+  toNode: { code: string };
+}
+
+export interface LayoutObstacle {
+  id: string;
+  code: string;
+  description?: string;
+  minXMeters: number;
+  minYMeters: number;
+  maxXMeters: number;
+  maxYMeters: number;
+}
+
+export interface WarehouseLayout {
+  warehouse: { id: string; code: string; layoutUpdatedAt?: string; pickPathStrategy: PickPathStrategy };
+  nodes: LayoutNode[];
+  edges: LayoutEdge[];
+  obstacles: LayoutObstacle[];
+  locations: { total: number; linked: number };
+}
+
+export interface LayoutImportSummary {
+  nodes: number;
+  edges: number;
+  obstacles: number;
+  locations: number;
+}
+
+export interface PickPathPreview {
+  strategy: PickPathStrategy | null;
+  optimized: boolean;
+  locationCodes: string[];
+  distanceMeters: number;
+  durationMinutes: number;
+}
+
+export interface TravelEstimate {
+  distanceMeters: number;
+  durationMinutes: number;
+  hasLayout: boolean;
+  legs: Array<{ from: string | null; to: string; distanceMeters: number; estimated: boolean }>;
+}
+
+export interface CapacityDrift {
+  locationId: string;
+  locationCode: string;
+  field:
+    | 'currentCapacityUsed'
+    | 'currentWeightKg'
+    | 'currentVolumeM3'
+    | 'reservedCapacity'
+    | 'reservedWeightKg'
+    | 'reservedVolumeM3';
+  recorded: number;
+  actual: number;
+  difference: number;
+}
+
+export interface CapacityReconciliation {
+  id: string;
+  warehouseId: string;
+  locationsChecked: number;
+  locationsCorrected: number;
+  reservationsReleased: number;
+  reservationsCreated: number;
+  drift: CapacityDrift[];
+  triggeredById?: string;
+  startedAt: string;
+  completedAt?: string;
+}
+
+export type PutawayEquipmentType = 'CART' | 'PALLET_JACK' | 'FORKLIFT';
+
+export type PutawayBatchStatus =
+  | 'PENDING'
+  | 'ASSIGNED'
+  | 'IN_PROGRESS'
+  | 'COMPLETED'
+  | 'PARTIALLY_COMPLETED'
+  | 'CANCELLED';
+
+export type PutawayStopStatus = 'PENDING' | 'COMPLETED' | 'PARTIAL' | 'SKIPPED';
+
+export interface PutawayBatchStop {
+  id: string;
+  batchId: string;
+  taskId: string;
+  sequence: number;
+  status: PutawayStopStatus;
+  distanceFromPreviousMeters: number;
+  quantityConfirmed?: number;
+  skipReason?: string;
+  completedAt?: string;
+  task: PutawayTask & {
+    sku?: { code: string; name: string; imageUrl?: string };
+    destinationLocation?: {
+      code: string;
+      aisleNumber?: string;
+      rackNumber?: string;
+      shelfNumber?: string;
+    };
+  };
+}
+
+export interface PutawayBatch {
+  id: string;
+  tenantId: string;
+  warehouseId: string;
+  batchNumber: string;
+  status: PutawayBatchStatus;
+  equipmentType: PutawayEquipmentType;
+  destinationZoneId?: string;
+  destinationZone?: { id: string; code: string; name: string };
+  operatorUserId?: string;
+  operator?: { id: string; firstName: string; lastName: string };
+  totalUnits: number;
+  totalWeightKg?: number;
+  totalVolumeM3?: number;
+  totalDistanceMeters: number;
+  estimatedDurationMinutes?: number;
+  stops?: PutawayBatchStop[];
+  _count?: { stops: number };
+  assignedAt?: string;
+  startedAt?: string;
+  completedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
@@ -411,6 +1620,39 @@ export interface VarianceStatistics {
   avgResolutionTimeHours: number;
 }
 
+export interface TemperatureExcursionGroup {
+  name: string;
+  excursions: number;
+  open: number;
+  critical: number;
+  maxDeviation: number;
+  averageDeviation: number;
+}
+
+export interface TemperatureExcursion {
+  id: string;
+  receiptNumber: string | null;
+  supplierName: string;
+  carrier: string;
+  skuCode: string;
+  productName: string;
+  temperatureReading: number | null;
+  temperatureLimitMin: number | null;
+  temperatureLimitMax: number | null;
+  deviation: number;
+  priority: Variance['priority'];
+  status: VarianceStatus;
+  submittedAt: string;
+}
+
+export interface TemperatureExcursionReport {
+  totalExcursions: number;
+  openExcursions: number;
+  bySupplier: TemperatureExcursionGroup[];
+  byCarrier: TemperatureExcursionGroup[];
+  excursions: TemperatureExcursion[];
+}
+
 export interface DashboardMetrics {
   receivingAccuracyRate: number;
   varianceRate: number;
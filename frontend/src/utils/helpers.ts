@@ -135,6 +135,9 @@ export function getStatusColor(status: string): string {
     ASSIGNED: 'bg-blue-100 text-blue-800',
     IN_PROGRESS: 'bg-purple-100 text-purple-800',
     ON_HOLD: 'bg-orange-100 text-orange-800',
+    PARTIALLY_COMPLETED: 'bg-orange-100 text-orange-800',
+    PARTIAL: 'bg-orange-100 text-orange-800',
+    SKIPPED: 'bg-gray-100 text-gray-800',
 
     // LPN statuses
     AVAILABLE: 'bg-green-100 text-green-800',
@@ -144,6 +147,11 @@ export function getStatusColor(status: string): string {
     CONSUMED: 'bg-gray-100 text-gray-800',
     ARCHIVED: 'bg-gray-100 text-gray-800',
 
+    // Dock appointment statuses
+    SCHEDULED: 'bg-blue-100 text-blue-800',
+    CHECKED_IN: 'bg-purple-100 text-purple-800',
+    NO_SHOW: 'bg-red-100 text-red-800',
+
     // Priority statuses
     LOW: 'bg-gray-100 text-gray-800',
     STANDARD: 'bg-blue-100 text-blue-800',
@@ -173,3 +181,17 @@ export function getPriorityIcon(priority: string): string {
 
   return icons[priority] || '➡️';
 }
+
+/**
+ * Save a downloaded blob as a file
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}